@@ -19,6 +19,7 @@ import {
   exportPriceList,
 } from "@/lib/actions/price-list.actions";
 import type { PeriodInfo, PriceListMatrixData } from "@/lib/types/price-list.types";
+import { getStatusLabel } from "@/lib/utils/status-styles";
 import { toast } from "sonner";
 import { PriceMatrix } from "@/components/features/price-list/price-matrix";
 
@@ -284,6 +285,11 @@ export default function PriceListPage() {
                   {periods.map((period) => (
                     <SelectItem key={period.period} value={period.period}>
                       {period.period} ({period.approvedQuotations} báo giá)
+                      {period.status && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {getStatusLabel(period.status)}
+                        </span>
+                      )}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { InvoiceComplianceManager } from "@/components/features/invoice-compliance/invoice-compliance-manager";
+
+export const metadata: Metadata = {
+  title: "Đối soát hóa đơn | Kizuna",
+  description: "Đối chiếu đơn giá hóa đơn nhà cung cấp với giá đã duyệt",
+};
+
+export default function InvoiceCompliancePage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Đối soát hóa đơn</h2>
+      </div>
+
+      <InvoiceComplianceManager />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { PurchaseOrderManager } from "@/components/features/purchase-orders/purchase-order-manager";
+
+export const metadata: Metadata = {
+  title: "Đơn đặt hàng | Kizuna",
+  description: "Tạo đơn đặt hàng theo bếp và nhà cung cấp từ giá đã duyệt và nhu cầu bếp",
+};
+
+export default function PurchaseOrdersPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Đơn đặt hàng</h2>
+      </div>
+
+      <PurchaseOrderManager />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { PeriodManager } from "@/components/features/periods/period-manager";
+
+export const metadata: Metadata = {
+  title: "Kỳ báo giá | Kizuna",
+  description: "Quản lý kỳ báo giá, hạn nộp báo giá và trạng thái kỳ",
+};
+
+export default function PeriodsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Kỳ báo giá</h2>
+      </div>
+
+      <PeriodManager />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Metadata } from "next";
+import { ImportHistoryManager } from "@/components/features/import-jobs/import-history-manager";
+import { IMPORT_JOB_TYPES } from "@/lib/utils/import-jobs";
+
+export const metadata: Metadata = {
+  title: "Lịch sử nhập file | Kizuna",
+  description: "Các lần nhập báo giá và hàng hóa từ Excel, file gốc và file lỗi",
+};
+
+export default async function ImportHistoryPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string; job?: string }>;
+}) {
+  const { type, job } = await searchParams;
+  const initialType = IMPORT_JOB_TYPES.find((entry) => entry === type);
+  const initialJobId = Number(job) > 0 ? Number(job) : undefined;
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Lịch sử nhập file</h2>
+      </div>
+
+      <ImportHistoryManager initialType={initialType} initialJobId={initialJobId} />
+    </div>
+  );
+}
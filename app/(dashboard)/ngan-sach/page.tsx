@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { KitchenBudgetManager } from "@/components/features/kitchen-budgets/kitchen-budget-manager";
+
+export const metadata: Metadata = {
+  title: "Ngân sách bếp | Kizuna",
+  description: "Ngân sách bếp theo kỳ so với chi tiêu dự kiến",
+};
+
+export default function KitchenBudgetPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Ngân sách bếp</h2>
+      </div>
+
+      <KitchenBudgetManager />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { KitchenDemandManager } from "@/components/features/kitchen-demand/kitchen-demand-manager";
+import { getUserRoles } from "@/lib/auth/permissions";
+import { hasProcurementAccess, type Role } from "@/lib/config/roles";
+import { getUser } from "@/lib/db/queries";
+
+export const metadata: Metadata = {
+  title: "Nhu cầu bếp | Kizuna",
+  description: "Nhập, nhập/xuất Excel và gửi nhu cầu sản phẩm của bếp theo kỳ",
+};
+
+export default async function KitchenDemandPage() {
+  const user = await getUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  const roles = (await getUserRoles(user.id)) as Role[];
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Nhu cầu bếp</h2>
+      </div>
+
+      <KitchenDemandManager showRollup={hasProcurementAccess(roles)} />
+    </div>
+  );
+}
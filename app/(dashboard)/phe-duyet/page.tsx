@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { ApprovalInbox } from "@/components/features/approvals/approval-inbox";
+
+export const metadata: Metadata = {
+  title: "Phê duyệt | Kizuna",
+  description: "Phê duyệt báo giá có tổng giá trị vượt ngưỡng",
+};
+
+export default function ApprovalsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Phê duyệt Báo giá</h2>
+      </div>
+
+      <ApprovalInbox />
+    </div>
+  );
+}
@@ -36,7 +36,9 @@ import {
 } from "@/components/ui/accordion";
 import { Separator } from "@/components/ui/separator";
 import { ComparisonMatrix } from "@/components/features/quote-comparison/comparison-matrix";
-import { getAvailablePeriods } from "@/lib/actions/quotations.actions";
+import { getPeriods } from "@/lib/actions/period.actions";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import { getStatusLabel } from "@/lib/utils/status-styles";
 import {
   getComparisonMatrix,
   getRegionsForPeriod,
@@ -51,16 +53,27 @@ import {
   TrendingDown,
   List,
   ChevronDown,
+  ChevronLeft,
+  ChevronRight,
   AlertTriangle,
+  Upload,
+  Target,
+  Network,
 } from "lucide-react";
 import {
   exportTargetPriceFile,
   initiateBatchNegotiationAndExport,
 } from "@/lib/actions/quote-comparison.actions";
 import { ApprovalModal } from "@/components/features/quote-comparison/approval-modal";
+import { CounterOfferImportModal } from "@/components/features/quote-comparison/counter-offer-import-modal";
+import { TargetPriceRulesModal } from "@/components/features/quote-comparison/target-price-rules-modal";
+import { AwardPlanModal } from "@/components/features/quote-comparison/award-plan-modal";
 import { toast } from "sonner";
 import { formatNumber, formatPercentage } from "@/lib/utils";
 
+// Product rows per page of the details matrix; the overview always covers every product
+const MATRIX_PAGE_SIZE = 200;
+
 export default function ComparisonPage() {
   const searchParams = useSearchParams();
 
@@ -70,7 +83,7 @@ export default function ComparisonPage() {
   const [categories, setCategories] = useState<string[]>([]);
 
   // Data for select options
-  const [periods, setPeriods] = useState<string[]>([]);
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
   const [regions, setRegions] = useState<string[]>([]);
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
 
@@ -93,6 +106,10 @@ export default function ComparisonPage() {
   const [exportLoading, setExportLoading] = useState(false);
   const [batchActionLoading, setBatchActionLoading] = useState(false);
   const [approvalModalOpen, setApprovalModalOpen] = useState(false);
+  const [counterOfferModalOpen, setCounterOfferModalOpen] = useState(false);
+  const [targetPriceModalOpen, setTargetPriceModalOpen] = useState(false);
+  const [awardPlanModalOpen, setAwardPlanModalOpen] = useState(false);
+  const [awardedSupplierIds, setAwardedSupplierIds] = useState<number[] | undefined>();
 
   // UI state
   const [isDetailsVisible, setIsDetailsVisible] = useState(false);
@@ -156,7 +173,7 @@ export default function ComparisonPage() {
         setPeriodsLoading(true);
         setFiltersError(null);
 
-        const availablePeriods = await getAvailablePeriods();
+        const availablePeriods = await getPeriods();
         setPeriods(availablePeriods);
       } catch (err) {
         console.error("Error fetching periods:", err);
@@ -268,8 +285,8 @@ export default function ComparisonPage() {
     fetchCategories();
   }, [period, region]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Handle comparison action
-  const handleCompareClick = useCallback(async () => {
+  // Load one page of the comparison matrix
+  const loadMatrixPage = useCallback(async (page: number) => {
     if (!period || !region || categories.length === 0) {
       setComparisonError("Vui lòng chọn đầy đủ các tiêu chí lọc");
       return;
@@ -284,6 +301,8 @@ export default function ComparisonPage() {
         period,
         region,
         categories,
+        page,
+        limit: MATRIX_PAGE_SIZE,
       });
 
       setMatrixData(result);
@@ -300,6 +319,15 @@ export default function ComparisonPage() {
     }
   }, [period, region, categories]);
 
+  // Handle comparison action
+  const handleCompareClick = useCallback(() => loadMatrixPage(1), [loadMatrixPage]);
+
+  // Reload the current page after changes made from the modals
+  const refreshMatrix = useCallback(
+    () => loadMatrixPage(matrixData?.pagination.page ?? 1),
+    [loadMatrixPage, matrixData]
+  );
+
   // Auto-trigger comparison when all filters are set from URL parameters
   useEffect(() => {
     const urlPeriod = searchParams.get("period");
@@ -356,14 +384,25 @@ export default function ComparisonPage() {
       if (result.success && result.downloadPath) {
         const link = document.createElement("a");
         link.href = result.downloadPath;
-        link.download = result.downloadPath.split("/").pop() || "export.zip";
+        link.download = result.fileName;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
 
-        // Show success message
+        // Show success message with a shareable, expiring download link
         toast.success(
-          "Đã xuất file giá mục tiêu và khởi tạo đàm phán thành công!"
+          "Đã xuất file giá mục tiêu và khởi tạo đàm phán thành công!",
+          {
+            action: {
+              label: "Sao chép liên kết",
+              onClick: () => {
+                navigator.clipboard
+                  .writeText(new URL(result.signedUrl, window.location.origin).toString())
+                  .then(() => toast.success("Đã sao chép liên kết tải file"))
+                  .catch(() => toast.error("Không thể sao chép liên kết"));
+              },
+            },
+          }
         );
 
         // Refresh comparison data after batch action
@@ -386,11 +425,23 @@ export default function ComparisonPage() {
   };
 
   // Handle approval modal
+  // Approvals are frozen once the period is closed
+  const isPeriodClosed =
+    periods.find((p) => p.code === period)?.status === "closed";
+
   const handleOpenApprovalModal = () => {
     if (!matrixData || matrixData.availableSuppliers.length === 0) {
       setComparisonError("Không có dữ liệu nhà cung cấp để phê duyệt");
       return;
     }
+    setAwardedSupplierIds(undefined);
+    setApprovalModalOpen(true);
+  };
+
+  // Hand the reviewed award plan over to the approval modal
+  const handleSendAwardPlanToApproval = (supplierIds: number[]) => {
+    setAwardPlanModalOpen(false);
+    setAwardedSupplierIds(supplierIds);
     setApprovalModalOpen(true);
   };
 
@@ -453,8 +504,11 @@ export default function ComparisonPage() {
               </SelectTrigger>
               <SelectContent>
                 {periods.map((p) => (
-                  <SelectItem key={p} value={p}>
-                    {p}
+                  <SelectItem key={p.code} value={p.code}>
+                    {p.code}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {getStatusLabel(p.status)}
+                    </span>
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -620,6 +674,24 @@ export default function ComparisonPage() {
           <CardTitle>Tổng quan</CardTitle>
           {matrixData && (
             <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setTargetPriceModalOpen(true)}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Target className="h-4 w-4" />
+                Giá mục tiêu
+              </Button>
+              <Button
+                onClick={() => setAwardPlanModalOpen(true)}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Network className="h-4 w-4" />
+                Phân bổ NCC
+              </Button>
               <Button
                 onClick={handleBatchNegotiationAndExport}
                 disabled={batchActionLoading}
@@ -630,11 +702,24 @@ export default function ComparisonPage() {
                 <FileSpreadsheet className="h-4 w-4" />
                 Xuất & Đàm phán
               </Button>
+              <Button
+                onClick={() => setCounterOfferModalOpen(true)}
+                disabled={!period || !region}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Nhập giá đàm phán
+              </Button>
               <Button
                 onClick={handleOpenApprovalModal}
                 disabled={
-                  !matrixData || matrixData.availableSuppliers.length === 0
+                  !matrixData ||
+                  matrixData.availableSuppliers.length === 0 ||
+                  isPeriodClosed
                 }
+                title={isPeriodClosed ? "Kỳ báo giá đã đóng" : undefined}
                 variant="outline"
                 size="sm"
                 className="flex items-center gap-2"
@@ -752,7 +837,9 @@ export default function ComparisonPage() {
                                               () => {
                                                 if (
                                                   supplier.quotationStatus ===
-                                                  "approved"
+                                                    "approved" ||
+                                                  supplier.quotationStatus ===
+                                                    "partially_approved"
                                                 ) {
                                                   return "bg-green-50";
                                                 }
@@ -1003,10 +1090,45 @@ export default function ComparisonPage() {
                 </div>
               </div>
             ) : matrixData ? (
-              <ComparisonMatrix
-                matrixData={matrixData}
-                activeFilter={activeFilter}
-              />
+              <div className="space-y-4">
+                <ComparisonMatrix
+                  matrixData={matrixData}
+                  activeFilter={activeFilter}
+                  onAllocationsSaved={refreshMatrix}
+                />
+                {matrixData.pagination.totalPages > 1 && (
+                  <div className="flex items-center justify-between text-sm text-gray-600">
+                    <span>
+                      Trang {matrixData.pagination.page}/
+                      {matrixData.pagination.totalPages} -{" "}
+                      {formatNumber(matrixData.pagination.total)} sản phẩm
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={matrixData.pagination.page <= 1}
+                        onClick={() => loadMatrixPage(matrixData.pagination.page - 1)}
+                      >
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Trang trước
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={
+                          matrixData.pagination.page >=
+                          matrixData.pagination.totalPages
+                        }
+                        onClick={() => loadMatrixPage(matrixData.pagination.page + 1)}
+                      >
+                        Trang sau
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
             ) : (
               <div className="text-center text-gray-500 space-y-2">
                 <p className="text-lg">
@@ -1028,9 +1150,47 @@ export default function ComparisonPage() {
           open={approvalModalOpen}
           onOpenChange={setApprovalModalOpen}
           suppliers={matrixData.availableSuppliers}
+          products={matrixData.products}
+          initialSelectedSupplierIds={awardedSupplierIds}
           onApprovalComplete={() => {
             setApprovalModalOpen(false);
-            handleCompareClick(); // Refresh data
+            refreshMatrix(); // Refresh data
+          }}
+        />
+      )}
+
+      {/* Target Price Rules & Preview Modal */}
+      {matrixData && (
+        <TargetPriceRulesModal
+          open={targetPriceModalOpen}
+          onOpenChange={setTargetPriceModalOpen}
+          period={period}
+          region={region}
+          categories={categories}
+        />
+      )}
+
+      {/* Award Plan Modal */}
+      {matrixData && (
+        <AwardPlanModal
+          open={awardPlanModalOpen}
+          onOpenChange={setAwardPlanModalOpen}
+          period={period}
+          region={region}
+          categories={categories}
+          onSendToApproval={handleSendAwardPlanToApproval}
+        />
+      )}
+
+      {/* Counter-offer Import Modal */}
+      {matrixData && (
+        <CounterOfferImportModal
+          open={counterOfferModalOpen}
+          onOpenChange={setCounterOfferModalOpen}
+          period={period}
+          region={region}
+          onImportComplete={() => {
+            refreshMatrix(); // Refresh data
           }}
         />
       )}
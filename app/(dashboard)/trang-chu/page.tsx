@@ -1,5 +1,6 @@
 import { KPICards } from '@/components/features/dashboard/kpi-cards';
 import { PriceTrends } from '@/components/features/dashboard/price-trends';
+import { BudgetOverview } from '@/components/features/dashboard/budget-overview';
 import { getDashboardStatsData } from '@/lib/actions/dashboard.actions';
 import { Suspense } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
@@ -17,6 +18,7 @@ export const metadata: Metadata = {
  * Main landing page after authentication, displaying:
  * - Section 1: KPI Cards (Kitchens, Products, Suppliers, Quotations)
  * - Section 2: Price Trends (Top price increases and decreases)
+ * - Section 3: Kitchen Budgets (Planned spend against budget)
  *
  * This is a React Server Component that directly calls the dashboard action.
  */
@@ -92,6 +94,9 @@ export default async function HomePage() {
       <Suspense fallback={<PriceTrendsLoading />}>
         <PriceTrends />
       </Suspense>
+
+      {/* Section 3: Kitchen Budgets */}
+      <BudgetOverview />
     </div>
   );
 }
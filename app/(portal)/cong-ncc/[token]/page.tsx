@@ -0,0 +1,29 @@
+import { AlertCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { SupplierPortalForm } from "@/components/features/supplier-portal/supplier-portal-form";
+import { getSupplierPortalQuotation } from "@/lib/actions/supplier-portal.actions";
+import type { SupplierPortalQuotation } from "@/lib/types/supplier-portal.types";
+
+export default async function SupplierPortalPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  let quotation: SupplierPortalQuotation;
+  try {
+    quotation = await getSupplierPortalQuotation(token);
+  } catch (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center gap-3 py-8 text-red-600">
+          <AlertCircle className="h-5 w-5" />
+          {error instanceof Error ? error.message : "Không thể tải báo giá"}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <SupplierPortalForm token={token} quotation={quotation} />;
+}
@@ -0,0 +1,23 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Cổng báo giá nhà cung cấp | Kizuna',
+  description: 'Nhà cung cấp nhập và gửi báo giá trực tuyến cho Kizuna'
+};
+
+export default function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-[100dvh] bg-gray-50">
+      <header className="border-b bg-white">
+        <div className="mx-auto max-w-6xl px-4 py-4">
+          <h1 className="text-lg font-semibold">Kizuna - Cổng báo giá nhà cung cấp</h1>
+        </div>
+      </header>
+      <main className="mx-auto max-w-6xl px-4 py-6">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { notFound } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { PrintButton } from "@/components/features/purchase-orders/print-button";
+import { PurchaseOrderDocument } from "@/components/features/purchase-orders/purchase-order-document";
+import { getPurchaseOrder } from "@/lib/actions/purchase-order.actions";
+import type { PurchaseOrderDetail } from "@/lib/types/purchase-order.types";
+
+/**
+ * Print view of a purchase order (printed or saved as PDF from the browser)
+ */
+export default async function PurchaseOrderPrintPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const orderId = Number(id);
+
+  if (!Number.isInteger(orderId) || orderId <= 0) {
+    notFound();
+  }
+
+  let order: PurchaseOrderDetail;
+  try {
+    order = await getPurchaseOrder({ id: orderId });
+  } catch (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center gap-3 py-8 text-red-600">
+          <AlertCircle className="h-5 w-5" />
+          {error instanceof Error ? error.message : "Không thể tải đơn đặt hàng"}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">ĐƠN ĐẶT HÀNG</h1>
+          <p className="text-sm text-muted-foreground">
+            Số: {order.poNumber} - Ngày lập: {format(order.createdAt, "dd/MM/yyyy")}
+          </p>
+        </div>
+        <PrintButton />
+      </div>
+
+      <PurchaseOrderDocument order={order} />
+
+      <div className="grid grid-cols-2 gap-8 pt-8 text-center text-sm">
+        <div>
+          <p className="font-semibold">Bên đặt hàng</p>
+          <p className="text-muted-foreground">(Ký, ghi rõ họ tên)</p>
+        </div>
+        <div>
+          <p className="font-semibold">Nhà cung cấp</p>
+          <p className="text-muted-foreground">(Ký, ghi rõ họ tên)</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'In chứng từ | Kizuna'
+};
+
+export default function PrintLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-[100dvh] bg-white">
+      <main className="mx-auto max-w-5xl px-6 py-8 print:max-w-none print:p-0">{children}</main>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getUser, getUserWithTeams } from '@/lib/db/queries';
+import { getUser, getUserWithTeams, priceHistoryNotReversed } from '@/lib/db/queries';
 import { db } from '@/lib/db/drizzle';
 import { priceHistory, products, suppliers } from '@/lib/db/schema';
 import { eq, sql, and, isNull, desc } from 'drizzle-orm';
@@ -78,7 +78,7 @@ export async function GET(request: Request) {
     const recentPeriods = await db
       .selectDistinct({ period: priceHistory.period })
       .from(priceHistory)
-      .where(eq(priceHistory.priceType, 'approved'))
+      .where(and(eq(priceHistory.priceType, 'approved'), priceHistoryNotReversed()))
       .orderBy(desc(priceHistory.period))
       .limit(2);
 
@@ -130,6 +130,7 @@ export async function GET(request: Request) {
             INNER JOIN ${products} p_filter ON ph.product_id = p_filter.id
             WHERE ph.period = ${currentPeriod}
               AND ph.price_type = 'approved'
+              AND NOT EXISTS (SELECT 1 FROM ${priceHistory} reversal WHERE reversal.reverses_id = ph.id)
               AND p_filter.region = ${regionFilter}
               AND p_filter.deleted_at IS NULL
             ORDER BY ph.product_id, ph.price::numeric ASC, s.name ASC
@@ -144,6 +145,7 @@ export async function GET(request: Request) {
             INNER JOIN ${products} p_filter ON ph.product_id = p_filter.id
             WHERE ph.period = ${previousPeriod}
               AND ph.price_type = 'approved'
+              AND NOT EXISTS (SELECT 1 FROM ${priceHistory} reversal WHERE reversal.reverses_id = ph.id)
               AND p_filter.region = ${regionFilter}
               AND p_filter.deleted_at IS NULL
             ORDER BY ph.product_id, ph.price::numeric ASC
@@ -187,6 +189,7 @@ export async function GET(request: Request) {
             INNER JOIN ${suppliers} s ON ph.supplier_id = s.id
             WHERE ph.period = ${currentPeriod}
               AND ph.price_type = 'approved'
+              AND NOT EXISTS (SELECT 1 FROM ${priceHistory} reversal WHERE reversal.reverses_id = ph.id)
             ORDER BY ph.product_id, ph.price::numeric ASC, s.name ASC
           ),
           previous_best_prices AS (
@@ -198,6 +201,7 @@ export async function GET(request: Request) {
             FROM ${priceHistory} ph
             WHERE ph.period = ${previousPeriod}
               AND ph.price_type = 'approved'
+              AND NOT EXISTS (SELECT 1 FROM ${priceHistory} reversal WHERE reversal.reverses_id = ph.id)
             ORDER BY ph.product_id, ph.price::numeric ASC
           ),
           price_comparison AS (
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { getUser } from "@/lib/db/queries";
+import { requirePermission } from "@/lib/auth/permissions";
+import {
+  getFileLinkSecret,
+  getStoredFile,
+  openStoredFile,
+} from "@/lib/storage/stored-files";
+import { verifyFileLinkSignature } from "@/lib/utils/signed-file-link";
+
+/**
+ * Stream a stored file
+ * Access is granted by a valid signed link, or by a session with
+ * canNegotiateQuotes for the file's region.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Resolve the file
+    const fileId = Number((await params).id);
+    if (!Number.isInteger(fileId) || fileId <= 0) {
+      return NextResponse.json({ error: "ID file không hợp lệ" }, { status: 400 });
+    }
+
+    const file = await getStoredFile(fileId);
+    if (!file) {
+      return NextResponse.json({ error: "Không tìm thấy file" }, { status: 404 });
+    }
+
+    if (file.expiresAt <= new Date()) {
+      return NextResponse.json({ error: "File đã hết hạn" }, { status: 410 });
+    }
+
+    // 2. Authorize: signed link or session permission
+    const { searchParams } = new URL(request.url);
+    const signature = searchParams.get("signature");
+
+    if (signature) {
+      const validLink = verifyFileLinkSignature(
+        file.id,
+        searchParams.get("expires"),
+        signature,
+        getFileLinkSecret()
+      );
+      if (!validLink) {
+        return NextResponse.json(
+          { error: "Liên kết tải file không hợp lệ hoặc đã hết hạn" },
+          { status: 403 }
+        );
+      }
+    } else {
+      const user = await getUser();
+      if (!user) {
+        return NextResponse.json(
+          { error: "Không có quyền truy cập" },
+          { status: 401 }
+        );
+      }
+
+      try {
+        await requirePermission(
+          user.id,
+          "canNegotiateQuotes",
+          file.region ? [file.region] : []
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Bạn không có quyền tải file này" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // 3. Stream the file from storage
+    let stream: Readable;
+    try {
+      stream = await openStoredFile(file);
+    } catch (error) {
+      console.error(`Stored file ${file.id} is missing from storage:`, error);
+      return NextResponse.json(
+        { error: "File không còn tồn tại trên hệ thống lưu trữ" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.size),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error streaming stored file:", error);
+    return NextResponse.json(
+      { error: "Lỗi khi tải file" },
+      { status: 500 }
+    );
+  }
+}
@@ -90,6 +90,7 @@ export async function GET(request: NextRequest) {
           contactPerson: suppliers.contactPerson,
           phone: suppliers.phone,
           email: suppliers.email,
+          minOrderValue: suppliers.minOrderValue,
           status: suppliers.status,
           createdAt: suppliers.createdAt,
           updatedAt: suppliers.updatedAt,
@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  approveApprovalRequest,
+  getApprovalRequests,
+  rejectApprovalRequest,
+} from "@/lib/actions/quote-comparison.actions";
+import type { ApprovalRequestEntry } from "@/lib/types/quote-comparison.types";
+import { formatNumber } from "@/lib/utils";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+type InboxTab = "pending" | "decided";
+type Decision = "approve" | "reject";
+
+const formatDateTime = (value: Date | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: vi }) : "-";
+
+/**
+ * Approvals inbox
+ * Lists quotations awaiting sign-off above the value threshold and lets
+ * approvers of the matching band approve or reject them with a comment.
+ */
+export function ApprovalInbox() {
+  const [tab, setTab] = useState<InboxTab>("pending");
+  const [requests, setRequests] = useState<ApprovalRequestEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Decision dialog state
+  const [activeRequest, setActiveRequest] = useState<ApprovalRequestEntry | null>(null);
+  const [decision, setDecision] = useState<Decision>("approve");
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await getApprovalRequests({ status: tab });
+      setRequests(data);
+    } catch (error) {
+      console.error("Error loading approval requests:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi tải danh sách yêu cầu phê duyệt"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const openDecision = (request: ApprovalRequestEntry, nextDecision: Decision) => {
+    setActiveRequest(request);
+    setDecision(nextDecision);
+    setComment("");
+  };
+
+  const handleSubmit = async () => {
+    if (!activeRequest) return;
+
+    if (decision === "reject" && !comment.trim()) {
+      toast.error("Vui lòng nhập lý do từ chối");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const result =
+        decision === "approve"
+          ? await approveApprovalRequest({
+              id: activeRequest.id,
+              comment: comment.trim() || undefined,
+            })
+          : await rejectApprovalRequest({ id: activeRequest.id, comment });
+
+      toast.success(result.success);
+      setActiveRequest(null);
+      await loadRequests();
+    } catch (error) {
+      console.error("Error deciding approval request:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi xử lý yêu cầu phê duyệt"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={tab} onValueChange={(value) => setTab(value as InboxTab)}>
+        <TabsList>
+          <TabsTrigger value="pending">Chờ phê duyệt</TabsTrigger>
+          <TabsTrigger value="decided">Đã xử lý</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              {tab === "pending"
+                ? "Không có báo giá nào đang chờ phê duyệt"
+                : "Chưa có yêu cầu phê duyệt nào được xử lý"}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mã báo giá</TableHead>
+                  <TableHead>Nhà cung cấp</TableHead>
+                  <TableHead>Kỳ / Khu vực</TableHead>
+                  <TableHead className="text-right">Tổng giá trị</TableHead>
+                  <TableHead>Cấp phê duyệt</TableHead>
+                  <TableHead>Đề xuất</TableHead>
+                  {tab === "decided" && <TableHead>Kết quả</TableHead>}
+                  {tab === "pending" && <TableHead className="text-right">Thao tác</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.quotationCode}</TableCell>
+                    <TableCell>
+                      <div>{request.supplierName}</div>
+                      {request.supplierCode && (
+                        <div className="text-xs text-muted-foreground">
+                          {request.supplierCode}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{request.period}</div>
+                      <div className="text-xs text-muted-foreground">{request.region}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatNumber(request.totalValue)}
+                    </TableCell>
+                    <TableCell>{request.approvalLevelLabel}</TableCell>
+                    <TableCell>
+                      <div>{request.requestedByName ?? "-"}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDateTime(request.createdAt)}
+                      </div>
+                      {request.requestComment && (
+                        <div className="text-xs italic">{request.requestComment}</div>
+                      )}
+                    </TableCell>
+                    {tab === "decided" && (
+                      <TableCell>
+                        <Badge className={getStatusClassName(request.status)}>
+                          {getStatusLabel(request.status)}
+                        </Badge>
+                        <div className="text-xs text-muted-foreground">
+                          {request.decidedByName ?? "-"} • {formatDateTime(request.decidedAt)}
+                        </div>
+                        {request.decisionComment && (
+                          <div className="text-xs italic">{request.decisionComment}</div>
+                        )}
+                      </TableCell>
+                    )}
+                    {tab === "pending" && (
+                      <TableCell className="text-right">
+                        {request.canDecide ? (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => openDecision(request, "approve")}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Phê duyệt
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openDecision(request, "reject")}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Từ chối
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            Chờ {request.approvalLevelLabel}
+                          </span>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={activeRequest !== null}
+        onOpenChange={(open) => !open && !submitting && setActiveRequest(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === "approve" ? "Phê duyệt báo giá" : "Từ chối báo giá"}
+            </DialogTitle>
+            <DialogDescription>
+              {activeRequest &&
+                `${activeRequest.supplierName} • ${activeRequest.quotationCode} • Tổng giá trị ${formatNumber(activeRequest.totalValue)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="approval-comment">
+              {decision === "approve" ? "Ghi chú (không bắt buộc)" : "Lý do từ chối"}
+            </Label>
+            <Textarea
+              id="approval-comment"
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              placeholder={
+                decision === "approve"
+                  ? "Nhập ghi chú cho quyết định phê duyệt"
+                  : "Báo giá sẽ được trả về trạng thái đàm phán"
+              }
+              maxLength={1000}
+              disabled={submitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setActiveRequest(null)}
+              disabled={submitting}
+            >
+              Hủy
+            </Button>
+            <Button
+              variant={decision === "approve" ? "default" : "destructive"}
+              onClick={handleSubmit}
+              disabled={submitting}
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {decision === "approve" ? "Phê duyệt" : "Từ chối"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Loader2, Wallet } from 'lucide-react';
+import { BudgetVarianceBadge } from '@/components/features/kitchen-budgets/budget-variance-badge';
+import { getKitchenBudgetOverview } from '@/lib/actions/kitchen-budget.actions';
+import type { BudgetOverview as BudgetOverviewData } from '@/lib/types/kitchen-budget.types';
+import { formatCurrency } from '@/lib/utils/price-calculation';
+
+const MAX_KITCHENS = 8;
+
+/**
+ * Kitchen Budget Overview for Dashboard
+ *
+ * Lists the budgeted kitchens of the current period, most used budget first.
+ * Hidden for users without access to kitchen budgets.
+ */
+export function BudgetOverview() {
+  const [overview, setOverview] = useState<BudgetOverviewData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hidden, setHidden] = useState(false);
+
+  useEffect(() => {
+    getKitchenBudgetOverview()
+      .then(setOverview)
+      .catch((error) => {
+        console.error('Error loading kitchen budget overview:', error);
+        setHidden(true);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (hidden) return null;
+
+  const kitchens = overview?.kitchens.slice(0, MAX_KITCHENS) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Wallet className="h-5 w-5 text-blue-600" />
+            <CardTitle className="text-base">Ngân sách bếp</CardTitle>
+          </div>
+          <Link href="/ngan-sach" className="text-sm text-blue-600 hover:underline">
+            Xem tất cả
+          </Link>
+        </div>
+        <CardDescription>
+          {overview?.period
+            ? `Chi tiêu dự kiến so với ngân sách kỳ ${overview.period}`
+            : 'Chi tiêu dự kiến so với ngân sách'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
+          </div>
+        ) : kitchens.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            Chưa có bếp nào được thiết lập ngân sách
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {kitchens.map((kitchen) => (
+              <div
+                key={kitchen.teamId}
+                className="flex items-center justify-between p-3 rounded-lg border"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm truncate">{kitchen.kitchenName}</p>
+                  <p className="text-xs text-gray-500">
+                    {kitchen.region}
+                    {kitchen.categories.some((category) => category.variance?.status === 'over') &&
+                      ' · Có nhóm hàng vượt ngân sách'}
+                  </p>
+                </div>
+                <div className="text-right ml-4 flex-shrink-0 space-y-1">
+                  <BudgetVarianceBadge variance={kitchen.variance} />
+                  <p className="text-xs text-gray-500 whitespace-nowrap">
+                    {formatCurrency(kitchen.plannedSpend)}
+                    {kitchen.budget !== null && ` / ${formatCurrency(kitchen.budget)}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
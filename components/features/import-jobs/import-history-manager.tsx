@@ -0,0 +1,378 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  exportImportJobErrors,
+  getImportJobMessages,
+  getImportJobs,
+} from "@/lib/actions/import-jobs.actions";
+import type {
+  ImportJobEntry,
+  ImportJobFileEntry,
+  ImportJobMessageEntry,
+  ImportJobsResponse,
+} from "@/lib/types/import-jobs.types";
+import {
+  IMPORT_JOB_TYPES,
+  IMPORT_JOB_TYPE_LABELS,
+  type ImportJobType,
+} from "@/lib/utils/import-jobs";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+const ALL = "all";
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  // Create download link
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+interface ImportHistoryManagerProps {
+  initialType?: ImportJobType;
+  initialJobId?: number;
+}
+
+/**
+ * History of quotation and product imports
+ * Each run lists its uploaded files for re-download, its messages and, per
+ * file with errors, the annotated error workbook.
+ */
+export function ImportHistoryManager({ initialType, initialJobId }: ImportHistoryManagerProps) {
+  const [type, setType] = useState<string>(initialType ?? ALL);
+  const [jobId, setJobId] = useState<number | undefined>(initialJobId);
+  const [page, setPage] = useState(1);
+  const [jobs, setJobs] = useState<ImportJobsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [expandedJobId, setExpandedJobId] = useState<number | null>(initialJobId ?? null);
+  const [messages, setMessages] = useState<Record<number, ImportJobMessageEntry[]>>({});
+  const [downloadingFileId, setDownloadingFileId] = useState<number | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      setJobs(
+        await getImportJobs({
+          type: type === ALL ? undefined : (type as ImportJobType),
+          jobId,
+          page,
+        })
+      );
+    } catch (error) {
+      console.error("Error loading import jobs:", error);
+      setJobs(null);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tải lịch sử nhập file");
+    } finally {
+      setLoading(false);
+    }
+  }, [type, jobId, page]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Messages are loaded the first time a job is expanded
+  useEffect(() => {
+    if (expandedJobId === null || messages[expandedJobId]) return;
+
+    getImportJobMessages(expandedJobId)
+      .then((entries) => setMessages((current) => ({ ...current, [expandedJobId]: entries })))
+      .catch((error) => {
+        console.error("Error loading import job messages:", error);
+        toast.error(error instanceof Error ? error.message : "Lỗi khi tải lỗi của lần nhập");
+      });
+  }, [expandedJobId, messages]);
+
+  const handleDownloadErrors = async (file: ImportJobFileEntry) => {
+    try {
+      setDownloadingFileId(file.id);
+      const blob = await exportImportJobErrors(file.id);
+      downloadBlob(blob, `${file.fileName.replace(/\.[^.]+$/, "")}_Loi.xlsx`);
+    } catch (error) {
+      console.error("Error exporting import errors:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tạo file lỗi");
+    } finally {
+      setDownloadingFileId(null);
+    }
+  };
+
+  const changeType = (value: string) => {
+    setType(value);
+    setPage(1);
+  };
+
+  const clearJob = () => {
+    setJobId(undefined);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-[200px] space-y-1">
+          <Label>Loại dữ liệu</Label>
+          <Select value={type} onValueChange={changeType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tất cả</SelectItem>
+              {IMPORT_JOB_TYPES.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {IMPORT_JOB_TYPE_LABELS[entry]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {jobId && (
+          <Badge variant="outline" className="h-9 gap-2 px-3">
+            Lần nhập #{jobId}
+            <button type="button" onClick={clearJob} aria-label="Bỏ lọc lần nhập">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : !jobs || jobs.data.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Chưa có lần nhập file nào</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Thời gian</TableHead>
+                <TableHead>Loại</TableHead>
+                <TableHead>Người nhập</TableHead>
+                <TableHead>Kỳ / Khu vực</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead className="text-right">Mới</TableHead>
+                <TableHead className="text-right">Cập nhật</TableHead>
+                <TableHead className="text-right">Lỗi</TableHead>
+                <TableHead className="text-right">Cảnh báo</TableHead>
+                <TableHead>Trạng thái</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.data.map((job) => {
+                const expanded = expandedJobId === job.id;
+
+                return (
+                  <Fragment key={job.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedJobId(expanded ? null : job.id)}
+                    >
+                      <TableCell>
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(job.createdAt), "dd/MM/yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>{IMPORT_JOB_TYPE_LABELS[job.type]}</TableCell>
+                      <TableCell>{job.createdByName || "-"}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {job.period ? `${job.period} / ${job.region}` : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <JobFiles job={job} />
+                      </TableCell>
+                      <TableCell className="text-right">{job.createdCount}</TableCell>
+                      <TableCell className="text-right">{job.updatedCount}</TableCell>
+                      <TableCell className="text-right">
+                        {job.errorCount > 0 ? (
+                          <span className="font-medium text-red-600">{job.errorCount}</span>
+                        ) : (
+                          0
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{job.warningCount}</TableCell>
+                      <TableCell>
+                        <Badge className={getStatusClassName(job.status)}>
+                          {getStatusLabel(job.status)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+
+                    {expanded && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell />
+                        <TableCell colSpan={10}>
+                          <JobDetails
+                            job={job}
+                            messages={messages[job.id]}
+                            downloadingFileId={downloadingFileId}
+                            onDownloadErrors={handleDownloadErrors}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {jobs && jobs.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Trang {jobs.pagination.page} / {jobs.pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={loading || page <= 1}
+          >
+            Trước
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={loading || page >= jobs.pagination.totalPages}
+          >
+            Sau
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JobFiles({ job }: { job: ImportJobEntry }) {
+  return (
+    <ul className="space-y-1">
+      {job.files.map((file) => (
+        <li key={file.id} className="flex items-center gap-1 text-xs">
+          <FileSpreadsheet className="h-3 w-3 shrink-0 text-green-600" />
+          {file.downloadUrl ? (
+            <a
+              href={file.downloadUrl}
+              className="truncate text-blue-600 hover:underline"
+              title="Tải file gốc"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {file.fileName}
+            </a>
+          ) : (
+            <span className="truncate" title="File gốc đã hết hạn lưu trữ">
+              {file.fileName}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface JobDetailsProps {
+  job: ImportJobEntry;
+  messages: ImportJobMessageEntry[] | undefined;
+  downloadingFileId: number | null;
+  onDownloadErrors: (file: ImportJobFileEntry) => void;
+}
+
+function JobDetails({ job, messages, downloadingFileId, onDownloadErrors }: JobDetailsProps) {
+  const filesWithErrors = job.files.filter((file) => file.errorCount > 0);
+
+  return (
+    <div className="space-y-3 py-2">
+      <p className="text-sm text-muted-foreground">
+        {job.processedFiles}/{job.totalFiles} file đã xử lý, {job.itemCount}{" "}
+        {job.type === "quotations" ? "sản phẩm báo giá" : "hàng hóa"}
+        {job.completedAt && ` - hoàn tất lúc ${format(new Date(job.completedAt), "HH:mm:ss")}`}
+      </p>
+
+      {filesWithErrors.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filesWithErrors.map((file) => (
+            <Button
+              key={file.id}
+              variant="outline"
+              size="sm"
+              onClick={() => onDownloadErrors(file)}
+              disabled={downloadingFileId !== null || !file.downloadUrl}
+              title={file.downloadUrl ? undefined : "File gốc đã hết hạn lưu trữ"}
+            >
+              {downloadingFileId === file.id ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              File lỗi: {file.fileName} ({file.errorCount})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {!messages ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Không có lỗi hoặc cảnh báo</p>
+      ) : (
+        <ul className="max-h-64 space-y-1 overflow-auto text-xs">
+          {messages.map((message) => (
+            <li
+              key={message.id}
+              className={message.level === "error" ? "text-red-700" : "text-yellow-700"}
+            >
+              • {message.fileName && `${message.fileName} `}
+              {message.sheetName && `(sheet ${message.sheetName}) `}
+              {message.rowNumber !== null && `dòng ${message.rowNumber} `}
+              {(message.fileName || message.rowNumber !== null) && "- "}
+              {message.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
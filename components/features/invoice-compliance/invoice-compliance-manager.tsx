@@ -0,0 +1,476 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Download, FileSpreadsheet, Loader2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  exportInvoiceComplianceReport,
+  exportInvoiceTemplate,
+  getInvoiceComplianceReport,
+  importInvoiceFile,
+} from "@/lib/actions/invoice-compliance.actions";
+import { getPeriods } from "@/lib/actions/period.actions";
+import { getAvailableRegions } from "@/lib/actions/quotations.actions";
+import { formatNumber } from "@/lib/utils";
+import type {
+  InvoiceComplianceReport,
+  InvoiceImportResult,
+} from "@/lib/types/invoice-compliance.types";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import {
+  INVOICE_LINE_STATUSES,
+  type InvoiceLineStatus,
+} from "@/lib/utils/invoice-compliance";
+import { formatCurrency } from "@/lib/utils/price-calculation";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+const ALL = "all";
+
+type BusyAction = "import" | "export" | "template" | null;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  // Create download link
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Invoice price compliance (accounting)
+ * Imports supplier invoice lines, checks them against approved prices and
+ * reports the overpayment per supplier.
+ */
+export function InvoiceComplianceManager() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [period, setPeriod] = useState("");
+  const [region, setRegion] = useState("");
+  const [supplierId, setSupplierId] = useState<string>(ALL);
+  const [status, setStatus] = useState<string>(ALL);
+
+  const [report, setReport] = useState<InvoiceComplianceReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<BusyAction>(null);
+  const [importResult, setImportResult] = useState<InvoiceImportResult | null>(null);
+
+  useEffect(() => {
+    Promise.all([getPeriods(), getAvailableRegions()])
+      .then(([periodList, regionList]) => {
+        setPeriods(periodList);
+        setRegions(regionList);
+        setPeriod((current) => current || periodList[0]?.code || "");
+        setRegion((current) => current || regionList[0] || "");
+      })
+      .catch((error) => {
+        console.error("Error loading invoice compliance options:", error);
+        toast.error("Không thể tải danh sách kỳ báo giá và khu vực");
+      });
+  }, []);
+
+  // The supplier filter only applies within one period and region
+  useEffect(() => {
+    setSupplierId(ALL);
+  }, [period, region]);
+
+  const filters = {
+    period,
+    region,
+    supplierId: supplierId === ALL ? undefined : Number(supplierId),
+    status: status === ALL ? undefined : (status as InvoiceLineStatus),
+  };
+
+  const loadReport = useCallback(async () => {
+    if (!period || !region) {
+      setReport(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setReport(
+        await getInvoiceComplianceReport({
+          period,
+          region,
+          status: status === ALL ? undefined : (status as InvoiceLineStatus),
+        })
+      );
+    } catch (error) {
+      console.error("Error loading invoice compliance report:", error);
+      setReport(null);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tải báo cáo đối soát hóa đơn");
+    } finally {
+      setLoading(false);
+    }
+  }, [period, region, status]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const runAction = async (action: BusyAction, run: () => Promise<void>, fallback: string) => {
+    try {
+      setBusyAction(action);
+      await run();
+    } catch (error) {
+      console.error(`Error in invoice ${action}:`, error);
+      toast.error(error instanceof Error ? error.message : fallback);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleImport = (file: File) =>
+    runAction(
+      "import",
+      async () => {
+        const result = await importInvoiceFile(file);
+        setImportResult(result);
+
+        if (!result.success) {
+          toast.error("Không nhập được dòng hóa đơn nào - xem chi tiết lỗi");
+          return;
+        }
+
+        toast.success(
+          `Đã nhập ${result.importedLines} dòng hóa đơn: ${result.overchargedLines} vượt giá, ${result.unapprovedLines} chưa duyệt giá`
+        );
+        await loadReport();
+      },
+      "Lỗi khi nhập file hóa đơn"
+    );
+
+  const handleExport = () =>
+    runAction(
+      "export",
+      async () => {
+        const blob = await exportInvoiceComplianceReport(filters);
+        downloadBlob(blob, `DoiSoatHoaDon_${period}_${region}.xlsx`);
+      },
+      "Lỗi khi xuất báo cáo đối soát hóa đơn"
+    );
+
+  const handleTemplate = () =>
+    runAction(
+      "template",
+      async () => {
+        downloadBlob(await exportInvoiceTemplate(), "Mau_HoaDon.xlsx");
+      },
+      "Lỗi khi tải file mẫu hóa đơn"
+    );
+
+  const actionIcon = (action: BusyAction, Icon: typeof Upload) =>
+    busyAction === action ? (
+      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+    ) : (
+      <Icon className="mr-2 h-4 w-4" />
+    );
+
+  const visibleLines =
+    report?.lines.filter(
+      (line) => supplierId === ALL || line.supplierId === Number(supplierId)
+    ) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-[200px] space-y-1">
+          <Label>Kỳ báo giá</Label>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn kỳ báo giá" />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((entry) => (
+                <SelectItem key={entry.code} value={entry.code}>
+                  {entry.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[200px] space-y-1">
+          <Label>Khu vực</Label>
+          <Select value={region} onValueChange={setRegion}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn khu vực" />
+            </SelectTrigger>
+            <SelectContent>
+              {regions.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {entry}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[240px] space-y-1">
+          <Label>Nhà cung cấp</Label>
+          <Select value={supplierId} onValueChange={setSupplierId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tất cả</SelectItem>
+              {report?.summaries.map((summary) => (
+                <SelectItem key={summary.supplierId} value={String(summary.supplierId)}>
+                  {summary.supplierCode ? `${summary.supplierCode} - ` : ""}
+                  {summary.supplierName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[180px] space-y-1">
+          <Label>Kết quả</Label>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tất cả</SelectItem>
+              {INVOICE_LINE_STATUSES.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {getStatusLabel(entry)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="ml-auto flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleTemplate} disabled={busyAction !== null}>
+            {actionIcon("template", FileSpreadsheet)}
+            File mẫu
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busyAction !== null}
+          >
+            {actionIcon("import", Upload)}
+            Nhập hóa đơn
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={busyAction !== null || !report || report.summaries.length === 0}
+          >
+            {actionIcon("export", Download)}
+            Xuất báo cáo
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {importResult && (importResult.errors.length > 0 || importResult.warnings.length > 0) && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="space-y-2 py-4 text-sm text-amber-900">
+            <div className="flex items-start justify-between">
+              <p className="font-medium">
+                Nhập {importResult.importedLines} dòng
+                {importResult.replacedLines > 0 &&
+                  ` (thay thế ${importResult.replacedLines} dòng của lần nhập trước)`}
+                , bỏ qua {importResult.skippedLines} dòng
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => setImportResult(null)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <ul className="max-h-40 list-disc space-y-1 overflow-auto pl-5">
+              {[...importResult.errors, ...importResult.warnings].map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !report || report.summaries.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">
+          Chưa có hóa đơn nào được nhập cho kỳ và khu vực này
+        </p>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Giá trị hóa đơn</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">
+                {formatCurrency(report.totals.invoicedAmount)}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Tiền trả thừa (vượt giá duyệt)</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold text-red-700">
+                {formatCurrency(report.totals.overchargeAmount)}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Giá trị sản phẩm chưa duyệt giá</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold text-amber-700">
+                {formatCurrency(report.totals.unapprovedAmount)}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Tổng hợp theo nhà cung cấp</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nhà cung cấp</TableHead>
+                    <TableHead className="text-right">Số dòng</TableHead>
+                    <TableHead className="text-right">Vượt giá</TableHead>
+                    <TableHead className="text-right">Chưa duyệt</TableHead>
+                    <TableHead className="text-right">Giá trị hóa đơn</TableHead>
+                    <TableHead className="text-right">Tiền trả thừa</TableHead>
+                    <TableHead className="text-right">SP chưa duyệt</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.summaries.map((summary) => (
+                    <TableRow
+                      key={summary.supplierId}
+                      className="cursor-pointer"
+                      onClick={() => setSupplierId(String(summary.supplierId))}
+                    >
+                      <TableCell className="font-medium">
+                        {summary.supplierCode ? `${summary.supplierCode} - ` : ""}
+                        {summary.supplierName}
+                      </TableCell>
+                      <TableCell className="text-right">{summary.lineCount}</TableCell>
+                      <TableCell className="text-right">{summary.overchargedLines}</TableCell>
+                      <TableCell className="text-right">{summary.unapprovedLines}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(summary.invoicedAmount)}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold text-red-700">
+                        {summary.overchargeAmount > 0 ? formatCurrency(summary.overchargeAmount) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right text-amber-700">
+                        {summary.unapprovedAmount > 0 ? formatCurrency(summary.unapprovedAmount) : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">
+                Chi tiết dòng hóa đơn ({visibleLines.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="max-h-[600px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Hóa đơn</TableHead>
+                      <TableHead>NCC</TableHead>
+                      <TableHead>Bếp</TableHead>
+                      <TableHead>Sản phẩm</TableHead>
+                      <TableHead className="text-right">Số lượng</TableHead>
+                      <TableHead className="text-right">Đơn giá HĐ</TableHead>
+                      <TableHead className="text-right">Giá duyệt</TableHead>
+                      <TableHead className="text-right">Trả thừa</TableHead>
+                      <TableHead>Kết quả</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleLines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <div>{line.invoiceNumber ?? "-"}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(line.invoiceDate, "dd/MM/yyyy")}
+                          </div>
+                        </TableCell>
+                        <TableCell>{line.supplierCode ?? line.supplierName}</TableCell>
+                        <TableCell>{line.teamCode ?? line.kitchenName}</TableCell>
+                        <TableCell>
+                          <div>{line.productName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {line.productCode} - {line.unit}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(line.quantity)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(line.unitPrice)}</TableCell>
+                        <TableCell className="text-right">
+                          {line.approvedPrice !== null ? formatCurrency(line.approvedPrice) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.overchargeAmount > 0 ? formatCurrency(line.overchargeAmount) : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={getStatusClassName(line.status)}>
+                            {getStatusLabel(line.status)}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
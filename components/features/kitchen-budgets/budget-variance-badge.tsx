@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import type { BudgetVariance } from "@/lib/utils/kitchen-budget";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+interface BudgetVarianceBadgeProps {
+  variance: BudgetVariance | null;
+}
+
+/**
+ * Budget usage indicator - within, nearing or over the budget
+ */
+export function BudgetVarianceBadge({ variance }: BudgetVarianceBadgeProps) {
+  if (!variance) {
+    return <span className="text-sm text-muted-foreground">Chưa có ngân sách</span>;
+  }
+
+  return (
+    <Badge variant="outline" className={getStatusClassName(variance.status)}>
+      {getStatusLabel(variance.status)}
+      {variance.usagePercent !== null && ` · ${variance.usagePercent}%`}
+    </Badge>
+  );
+}
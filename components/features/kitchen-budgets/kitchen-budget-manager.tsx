@@ -0,0 +1,386 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  getRegionalBudgetStatus,
+  saveKitchenBudgets,
+} from "@/lib/actions/kitchen-budget.actions";
+import { getPeriods } from "@/lib/actions/period.actions";
+import {
+  getAvailableCategories,
+  getAvailableRegions,
+} from "@/lib/actions/quotations.actions";
+import type {
+  KitchenBudgetStatus,
+  RegionalBudgetStatus,
+} from "@/lib/types/kitchen-budget.types";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import { formatCurrency } from "@/lib/utils/price-calculation";
+import { BudgetVarianceBadge } from "./budget-variance-badge";
+
+interface CategoryBudgetDraft {
+  category: string;
+  amount: string;
+}
+
+const varianceClassName = (kitchen: { variance: { variance: number } | null }) =>
+  kitchen.variance && kitchen.variance.variance < 0 ? "text-red-700" : "text-green-700";
+
+/**
+ * Kitchen budgets per period
+ * Lists each kitchen's budget against its planned spend (demand × approved
+ * price); accounting sets the whole-kitchen and per-category budgets.
+ */
+export function KitchenBudgetManager() {
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [period, setPeriod] = useState("");
+  const [region, setRegion] = useState("");
+
+  const [status, setStatus] = useState<RegionalBudgetStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expandedTeamId, setExpandedTeamId] = useState<number | null>(null);
+
+  const [editing, setEditing] = useState<KitchenBudgetStatus | null>(null);
+  const [overallDraft, setOverallDraft] = useState("");
+  const [categoryDrafts, setCategoryDrafts] = useState<CategoryBudgetDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getPeriods(), getAvailableRegions(), getAvailableCategories()])
+      .then(([periodList, regionList, categoryList]) => {
+        setPeriods(periodList);
+        setRegions(regionList);
+        setCategories(categoryList);
+        setPeriod((current) => current || periodList[0]?.code || "");
+        setRegion((current) => current || regionList[0] || "");
+      })
+      .catch((error) => {
+        console.error("Error loading kitchen budget options:", error);
+        toast.error("Không thể tải danh sách kỳ báo giá và khu vực");
+      });
+  }, []);
+
+  const loadStatus = useCallback(async () => {
+    if (!period || !region) {
+      setStatus(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setStatus(await getRegionalBudgetStatus({ period, region }));
+    } catch (error) {
+      console.error("Error loading kitchen budgets:", error);
+      setStatus(null);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tải ngân sách bếp");
+    } finally {
+      setLoading(false);
+    }
+  }, [period, region]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const openEditor = (kitchen: KitchenBudgetStatus) => {
+    setEditing(kitchen);
+    setOverallDraft(kitchen.budget !== null ? String(kitchen.budget) : "");
+    setCategoryDrafts(
+      kitchen.categories
+        .filter((category) => category.budget !== null)
+        .map((category) => ({ category: category.category, amount: String(category.budget) }))
+    );
+  };
+
+  const updateCategoryDraft = (index: number, draft: Partial<CategoryBudgetDraft>) => {
+    setCategoryDrafts((current) =>
+      current.map((entry, i) => (i === index ? { ...entry, ...draft } : entry))
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const budgets = [
+      ...(overallDraft.trim() !== ""
+        ? [{ category: null, amount: Number(overallDraft) }]
+        : []),
+      ...categoryDrafts
+        .filter((draft) => draft.category && draft.amount.trim() !== "")
+        .map((draft) => ({ category: draft.category, amount: Number(draft.amount) })),
+    ];
+
+    if (budgets.some((budget) => Number.isNaN(budget.amount) || budget.amount < 0)) {
+      toast.error("Ngân sách phải là số không âm");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await saveKitchenBudgets({ teamId: editing.teamId, period, budgets });
+      toast.success(result.success);
+      setEditing(null);
+      await loadStatus();
+    } catch (error) {
+      console.error("Error saving kitchen budgets:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi lưu ngân sách bếp");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const usedCategories = new Set(categoryDrafts.map((draft) => draft.category));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-[200px] space-y-1">
+          <Label>Kỳ báo giá</Label>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn kỳ báo giá" />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((entry) => (
+                <SelectItem key={entry.code} value={entry.code}>
+                  {entry.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[200px] space-y-1">
+          <Label>Khu vực</Label>
+          <Select value={region} onValueChange={setRegion}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn khu vực" />
+            </SelectTrigger>
+            <SelectContent>
+              {regions.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {entry}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !status || status.kitchens.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">
+          Không có bếp đang hoạt động trong khu vực này
+        </p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bếp</TableHead>
+                <TableHead className="text-right">Ngân sách</TableHead>
+                <TableHead className="text-right">Chi tiêu dự kiến</TableHead>
+                <TableHead className="text-right">Chênh lệch</TableHead>
+                <TableHead>Tình trạng</TableHead>
+                {status.canEdit && <TableHead className="w-[60px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {status.kitchens.map((kitchen) => (
+                <Fragment key={kitchen.teamId}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() =>
+                      setExpandedTeamId((current) =>
+                        current === kitchen.teamId ? null : kitchen.teamId
+                      )
+                    }
+                  >
+                    <TableCell className="font-medium">
+                      {kitchen.teamCode ? `${kitchen.teamCode} - ` : ""}
+                      {kitchen.kitchenName}
+                      {kitchen.unpricedProducts > 0 && (
+                        <p className="text-xs font-normal text-amber-700">
+                          {kitchen.unpricedProducts} sản phẩm chưa có giá duyệt
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {kitchen.budget !== null ? formatCurrency(kitchen.budget) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(kitchen.plannedSpend)}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${varianceClassName(kitchen)}`}>
+                      {kitchen.variance ? formatCurrency(kitchen.variance.variance) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <BudgetVarianceBadge variance={kitchen.variance} />
+                    </TableCell>
+                    {status.canEdit && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openEditor(kitchen);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                  {expandedTeamId === kitchen.teamId &&
+                    kitchen.categories.map((category) => (
+                      <TableRow
+                        key={`${kitchen.teamId}-${category.category}`}
+                        className="bg-muted/40 text-sm"
+                      >
+                        <TableCell className="pl-8">{category.category}</TableCell>
+                        <TableCell className="text-right">
+                          {category.budget !== null ? formatCurrency(category.budget) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(category.plannedSpend)}
+                        </TableCell>
+                        <TableCell className={`text-right ${varianceClassName(category)}`}>
+                          {category.variance ? formatCurrency(category.variance.variance) : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {category.variance && <BudgetVarianceBadge variance={category.variance} />}
+                        </TableCell>
+                        {status.canEdit && <TableCell />}
+                      </TableRow>
+                    ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Ngân sách bếp {editing?.kitchenName}</DialogTitle>
+            <DialogDescription>
+              Kỳ {period} - để trống để bỏ ngân sách. Chi tiêu dự kiến hiện tại:{" "}
+              {formatCurrency(editing?.plannedSpend ?? 0)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Ngân sách toàn bếp</Label>
+              <Input
+                type="number"
+                min={0}
+                value={overallDraft}
+                onChange={(e) => setOverallDraft(e.target.value)}
+                placeholder="Chưa có ngân sách"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ngân sách theo nhóm hàng</Label>
+              {categoryDrafts.map((draft, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={draft.category}
+                    onValueChange={(value) => updateCategoryDraft(index, { category: value })}
+                  >
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Chọn nhóm hàng" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories
+                        .filter(
+                          (category) => category === draft.category || !usedCategories.has(category)
+                        )
+                        .map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.amount}
+                    onChange={(e) => updateCategoryDraft(index, { amount: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setCategoryDrafts((current) => current.filter((_, i) => i !== index))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setCategoryDrafts((current) => [...current, { category: "", amount: "" }])
+                }
+                disabled={categoryDrafts.length >= categories.length}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Thêm nhóm hàng
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+              Hủy
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Lưu ngân sách
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
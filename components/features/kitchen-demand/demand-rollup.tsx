@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getRegionalDemandRollup } from "@/lib/actions/kitchen-demand.actions";
+import { getAvailableRegions } from "@/lib/actions/quotations.actions";
+import type { DemandRollup as DemandRollupData } from "@/lib/types/kitchen-demand.types";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+interface DemandRollupProps {
+  period: string;
+}
+
+/**
+ * Regional demand roll-up (procurement)
+ * Shows which kitchens of a region have submitted their demand and the
+ * per-kitchen quantities of every product with their regional total.
+ */
+export function DemandRollup({ period }: DemandRollupProps) {
+  const [regions, setRegions] = useState<string[]>([]);
+  const [region, setRegion] = useState("");
+  const [rollup, setRollup] = useState<DemandRollupData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    getAvailableRegions()
+      .then((regionList) => {
+        setRegions(regionList);
+        setRegion((current) => current || regionList[0] || "");
+      })
+      .catch((error) => {
+        console.error("Error loading regions:", error);
+        toast.error("Không thể tải danh sách khu vực");
+      });
+  }, []);
+
+  const loadRollup = useCallback(async () => {
+    if (!period || !region) {
+      setRollup(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setRollup(await getRegionalDemandRollup({ period, region }));
+    } catch (error) {
+      console.error("Error loading demand roll-up:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tải tổng hợp nhu cầu");
+    } finally {
+      setLoading(false);
+    }
+  }, [period, region]);
+
+  useEffect(() => {
+    loadRollup();
+  }, [loadRollup]);
+
+  const submittedCount =
+    rollup?.kitchens.filter((kitchen) => kitchen.status === "submitted").length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-[220px] space-y-1">
+          <Label>Khu vực</Label>
+          <Select value={region} onValueChange={setRegion}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn khu vực" />
+            </SelectTrigger>
+            <SelectContent>
+              {regions.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {entry}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {rollup && (
+          <p className="pb-2 text-sm text-muted-foreground">
+            {submittedCount}/{rollup.kitchens.length} bếp đã gửi nhu cầu -{" "}
+            {rollup.rows.length} sản phẩm
+          </p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : rollup ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {rollup.kitchens.map((kitchen) => (
+              <div
+                key={kitchen.teamId}
+                className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm"
+              >
+                <span className="font-medium">{kitchen.teamCode ?? kitchen.name}</span>
+                <Badge variant="outline" className={getStatusClassName(kitchen.status)}>
+                  {getStatusLabel(kitchen.status)}
+                </Badge>
+                <span className="text-muted-foreground">{kitchen.productCount} SP</span>
+              </div>
+            ))}
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              <div className="max-h-[600px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Mã SP</TableHead>
+                      <TableHead>Tên sản phẩm</TableHead>
+                      <TableHead>ĐVT</TableHead>
+                      {rollup.kitchens.map((kitchen) => (
+                        <TableHead key={kitchen.teamId} className="text-right" title={kitchen.name}>
+                          {kitchen.teamCode ?? kitchen.name}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">Tổng</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rollup.rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={rollup.kitchens.length + 4}
+                          className="py-8 text-center text-muted-foreground"
+                        >
+                          Chưa có bếp nào nhập nhu cầu cho kỳ này
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      rollup.rows.map((row) => (
+                        <TableRow key={row.productId}>
+                          <TableCell className="font-medium">{row.productCode}</TableCell>
+                          <TableCell>{row.productName}</TableCell>
+                          <TableCell>{row.unit}</TableCell>
+                          {rollup.kitchens.map((kitchen) => (
+                            <TableCell key={kitchen.teamId} className="text-right">
+                              {row.quantities[kitchen.teamId]?.toLocaleString("vi-VN") ?? "-"}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-semibold">
+                            {row.total.toLocaleString("vi-VN")}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,560 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import {
+  AlertCircle,
+  Copy,
+  Download,
+  Loader2,
+  LockOpen,
+  Save,
+  Send,
+  Sparkles,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  copyPreviousKitchenDemand,
+  exportKitchenDemandFile,
+  importKitchenDemandFromExcel,
+  reopenKitchenDemand,
+  saveKitchenDemands,
+  submitKitchenDemand,
+} from "@/lib/actions/kitchen-demand.actions";
+import type { KitchenDemandSheet } from "@/lib/types/kitchen-demand.types";
+import type { DemandForecast, ForecastMethod } from "@/lib/utils/demand-forecast";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+interface KitchenDemandGridProps {
+  sheet: KitchenDemandSheet;
+  onChanged: () => Promise<void>;
+}
+
+interface DemandEdit {
+  quantity: string; // Empty = no demand
+  notes: string;
+}
+
+type GridAction = "save" | "copy" | "export" | "import" | "submit" | "reopen";
+
+const formatQuantity = (value: number | null) =>
+  value === null ? "-" : value.toLocaleString("vi-VN");
+
+const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  moving_average: "Trung bình trượt",
+  trend: "Xu hướng",
+  seasonal: "Mùa vụ (cùng kỳ năm trước)",
+};
+
+// Change of the forecast against the last actual quantity, in percent
+const forecastChange = (forecast: DemandForecast) =>
+  forecast.lastActual
+    ? ((forecast.quantity - forecast.lastActual) / forecast.lastActual) * 100
+    : null;
+
+const toEdit = (row: KitchenDemandSheet["rows"][number]): DemandEdit => ({
+  quantity: row.quantity !== null ? String(row.quantity) : "",
+  notes: row.notes ?? "",
+});
+
+/**
+ * Kitchen demand grid
+ * One row per active product with the quantity of the previous period and
+ * the forecast for reference; forecasts can be accepted per row or for all
+ * visible rows. Only changed rows are saved and an emptied quantity removes
+ * the product from the demand.
+ */
+export function KitchenDemandGrid({ sheet, onChanged }: KitchenDemandGridProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [edits, setEdits] = useState<Record<number, DemandEdit>>({});
+  const [search, setSearch] = useState("");
+  const [onlyWithDemand, setOnlyWithDemand] = useState(false);
+  const [pendingAction, setPendingAction] = useState<GridAction | null>(null);
+
+  // Reset local edits whenever a fresh sheet is loaded
+  useEffect(() => {
+    setEdits(Object.fromEntries(sheet.rows.map((row) => [row.productId, toEdit(row)])));
+  }, [sheet]);
+
+  const readOnly = !sheet.canEdit || sheet.blockReason !== null;
+  const busy = pendingAction !== null;
+
+  const changedItems = useMemo(
+    () =>
+      sheet.rows
+        .filter((row) => {
+          const edit = edits[row.productId];
+          if (!edit) return false;
+          const original = toEdit(row);
+          return edit.quantity.trim() !== original.quantity || edit.notes.trim() !== original.notes;
+        })
+        .map((row) => {
+          const edit = edits[row.productId];
+          return {
+            productId: row.productId,
+            quantity: edit.quantity.trim() === "" ? 0 : Number(edit.quantity),
+            notes: edit.notes.trim() || undefined,
+          };
+        }),
+    [sheet.rows, edits]
+  );
+
+  const visibleRows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+
+    return sheet.rows.filter((row) => {
+      if (onlyWithDemand && !edits[row.productId]?.quantity.trim()) return false;
+      if (!term) return true;
+      return (
+        row.productCode.toLowerCase().includes(term) ||
+        row.productName.toLowerCase().includes(term) ||
+        row.category.toLowerCase().includes(term)
+      );
+    });
+  }, [sheet.rows, edits, search, onlyWithDemand]);
+
+  const demandCount = useMemo(
+    () => Object.values(edits).filter((edit) => edit.quantity.trim() !== "").length,
+    [edits]
+  );
+
+  const updateEdit = (productId: number, changes: Partial<DemandEdit>) => {
+    setEdits((current) => ({
+      ...current,
+      [productId]: { ...current[productId], ...changes },
+    }));
+  };
+
+  // Visible rows whose forecast differs from the entered quantity
+  const forecastableRows = useMemo(
+    () =>
+      visibleRows.filter(
+        (row) =>
+          row.forecast &&
+          row.forecast.quantity > 0 &&
+          edits[row.productId]?.quantity.trim() !== String(row.forecast.quantity)
+      ),
+    [visibleRows, edits]
+  );
+
+  const handleAcceptForecasts = () => {
+    const overwritten = forecastableRows.filter(
+      (row) => edits[row.productId]?.quantity.trim()
+    ).length;
+    const message =
+      `Áp dụng số lượng dự báo cho ${forecastableRows.length} sản phẩm đang hiển thị?` +
+      (overwritten > 0 ? ` ${overwritten} số lượng đã nhập sẽ bị thay thế.` : "");
+    if (!confirm(message)) return;
+
+    setEdits((current) => {
+      const next = { ...current };
+      for (const row of forecastableRows) {
+        next[row.productId] = {
+          ...next[row.productId],
+          quantity: String(row.forecast!.quantity),
+        };
+      }
+      return next;
+    });
+    toast.info("Đã điền số lượng dự báo - nhấn Lưu để ghi nhận");
+  };
+
+  const params = { teamId: sheet.teamId, period: sheet.period };
+
+  const runAction = async (
+    action: GridAction,
+    run: () => Promise<void>,
+    fallbackMessage: string
+  ) => {
+    try {
+      setPendingAction(action);
+      await run();
+    } catch (error) {
+      console.error(`Error in kitchen demand ${action}:`, error);
+      toast.error(error instanceof Error ? error.message : fallbackMessage);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(
+      "save",
+      async () => {
+        if (changedItems.some((item) => !Number.isFinite(item.quantity) || item.quantity < 0)) {
+          toast.error("Số lượng phải là số không âm");
+          return;
+        }
+
+        const result = await saveKitchenDemands({ ...params, items: changedItems });
+        toast.success(result.success);
+        await onChanged();
+      },
+      "Lỗi khi lưu nhu cầu"
+    );
+
+  const handleCopyPrevious = () =>
+    runAction(
+      "copy",
+      async () => {
+        if (changedItems.length > 0 && !confirm("Các thay đổi chưa lưu sẽ bị bỏ qua. Tiếp tục?")) {
+          return;
+        }
+
+        const result = await copyPreviousKitchenDemand(params);
+        toast.success(result.success);
+        await onChanged();
+      },
+      "Lỗi khi sao chép nhu cầu kỳ trước"
+    );
+
+  const handleExport = () =>
+    runAction(
+      "export",
+      async () => {
+        const blob = await exportKitchenDemandFile(params);
+
+        // Create download link
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `NhuCau_${sheet.period}_${sheet.kitchenName}.xlsx`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+      },
+      "Lỗi khi xuất file nhu cầu"
+    );
+
+  const handleImport = (file: File) =>
+    runAction(
+      "import",
+      async () => {
+        const result = await importKitchenDemandFromExcel(file, params);
+
+        result.warnings.forEach((warning) => toast.warning(warning));
+        if (!result.success) {
+          toast.error(result.errors.join("\n") || "Không thể nhập file nhu cầu");
+          return;
+        }
+
+        result.errors.forEach((error) => toast.error(error));
+        toast.success(
+          `Đã nhập ${result.updatedLines} sản phẩm, xóa ${result.removedLines} sản phẩm` +
+            (result.skippedLines > 0 ? `, bỏ qua ${result.skippedLines} dòng` : "")
+        );
+        await onChanged();
+      },
+      "Lỗi khi nhập file nhu cầu"
+    );
+
+  const handleSubmit = () =>
+    runAction(
+      "submit",
+      async () => {
+        if (changedItems.length > 0) {
+          toast.error("Vui lòng lưu các thay đổi trước khi gửi nhu cầu");
+          return;
+        }
+        if (!confirm(`Gửi nhu cầu kỳ ${sheet.period}? Sau khi gửi, nhu cầu sẽ bị khóa.`)) {
+          return;
+        }
+
+        const result = await submitKitchenDemand(params);
+        toast.success(result.success);
+        await onChanged();
+      },
+      "Lỗi khi gửi nhu cầu"
+    );
+
+  const handleReopen = () =>
+    runAction(
+      "reopen",
+      async () => {
+        if (!confirm(`Mở lại nhu cầu của ${sheet.kitchenName} để bếp chỉnh sửa?`)) return;
+
+        const result = await reopenKitchenDemand(params);
+        toast.success(result.success);
+        await onChanged();
+      },
+      "Lỗi khi mở lại nhu cầu"
+    );
+
+  const actionIcon = (action: GridAction, Icon: typeof Save) =>
+    pendingAction === action ? (
+      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+    ) : (
+      <Icon className="mr-2 h-4 w-4" />
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="outline" className={getStatusClassName(sheet.status)}>
+            {getStatusLabel(sheet.status)}
+          </Badge>
+          {sheet.submittedAt && (
+            <span className="text-muted-foreground">
+              Gửi lúc {format(new Date(sheet.submittedAt), "dd/MM/yyyy HH:mm", { locale: vi })}
+            </span>
+          )}
+          <span className="text-muted-foreground">
+            {demandCount} sản phẩm có nhu cầu
+            {sheet.previousPeriod && ` - so sánh với kỳ ${sheet.previousPeriod}`}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={busy}>
+            {actionIcon("export", Download)}
+            Xuất Excel
+          </Button>
+          {!readOnly && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={busy}
+              >
+                {actionIcon("import", Upload)}
+                Nhập Excel
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleAcceptForecasts}
+                disabled={busy || forecastableRows.length === 0}
+              >
+                <Sparkles className="mr-2 h-4 w-4" />
+                Áp dụng dự báo ({forecastableRows.length})
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleCopyPrevious}
+                disabled={busy || !sheet.previousPeriod}
+              >
+                {actionIcon("copy", Copy)}
+                Sao chép kỳ trước
+              </Button>
+              <Button onClick={handleSave} disabled={busy || changedItems.length === 0}>
+                {actionIcon("save", Save)}
+                Lưu ({changedItems.length})
+              </Button>
+              <Button onClick={handleSubmit} disabled={busy || demandCount === 0}>
+                {actionIcon("submit", Send)}
+                Gửi nhu cầu
+              </Button>
+            </>
+          )}
+          {sheet.canReopen && sheet.status === "submitted" && (
+            <Button variant="outline" onClick={handleReopen} disabled={busy}>
+              {actionIcon("reopen", LockOpen)}
+              Mở lại
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {sheet.canEdit && sheet.blockReason && (
+        <div className="flex items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertCircle className="h-4 w-4" />
+          {sheet.blockReason}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Input
+          placeholder="Tìm theo mã, tên sản phẩm hoặc nhóm hàng..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="only-with-demand"
+            checked={onlyWithDemand}
+            onCheckedChange={(checked) => setOnlyWithDemand(checked === true)}
+          />
+          <Label htmlFor="only-with-demand" className="text-sm font-normal">
+            Chỉ hiện sản phẩm có nhu cầu
+          </Label>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <TooltipProvider>
+            <div className="max-h-[600px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mã SP</TableHead>
+                    <TableHead>Tên sản phẩm</TableHead>
+                    <TableHead>Nhóm hàng</TableHead>
+                    <TableHead>ĐVT</TableHead>
+                    <TableHead className="text-right">Kỳ trước</TableHead>
+                    <TableHead className="text-right">Dự báo</TableHead>
+                    <TableHead className="w-[140px]">Số lượng</TableHead>
+                    <TableHead className="w-[220px]">Ghi chú</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                        Không có sản phẩm phù hợp
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleRows.map((row) => {
+                      const edit = edits[row.productId] ?? toEdit(row);
+
+                      return (
+                        <TableRow key={row.productId}>
+                          <TableCell className="font-medium">{row.productCode}</TableCell>
+                          <TableCell>
+                            <div>{row.productName}</div>
+                            {row.specification && (
+                              <div className="text-xs text-muted-foreground">{row.specification}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{row.category}</TableCell>
+                          <TableCell>{row.unit}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {formatQuantity(row.previousQuantity)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.forecast ? (
+                              <ForecastCell
+                                forecast={row.forecast}
+                                onAccept={
+                                  readOnly || busy
+                                    ? undefined
+                                    : () =>
+                                        updateEdit(row.productId, {
+                                          quantity: String(row.forecast!.quantity),
+                                        })
+                                }
+                              />
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={edit.quantity}
+                              onChange={(e) =>
+                                updateEdit(row.productId, { quantity: e.target.value })
+                              }
+                              disabled={readOnly || busy}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={edit.notes}
+                              onChange={(e) => updateEdit(row.productId, { notes: e.target.value })}
+                              maxLength={500}
+                              disabled={readOnly || busy}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TooltipProvider>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface ForecastCellProps {
+  forecast: DemandForecast;
+  onAccept?: () => void; // Undefined when the sheet is read-only
+}
+
+/**
+ * Forecast quantity with its change against the last actual quantity; the
+ * tooltip explains how it was computed
+ */
+function ForecastCell({ forecast, onAccept }: ForecastCellProps) {
+  const change = forecastChange(forecast);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={onAccept}
+          disabled={!onAccept}
+          className="inline-flex flex-col items-end rounded px-1 hover:bg-muted disabled:cursor-default disabled:hover:bg-transparent"
+        >
+          <span className="font-medium text-blue-700">{formatQuantity(forecast.quantity)}</span>
+          {change !== null && Math.abs(change) >= 1 && (
+            <span className={`text-xs ${change > 0 ? "text-green-600" : "text-red-600"}`}>
+              {change > 0 ? "+" : ""}
+              {change.toFixed(0)}%
+            </span>
+          )}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent className="bg-background border text-foreground">
+        <div className="space-y-1 text-xs">
+          <div className="font-medium">{FORECAST_METHOD_LABELS[forecast.method]}</div>
+          <div>Thực tế kỳ gần nhất: {formatQuantity(forecast.lastActual)}</div>
+          <div>Trung bình trượt: {formatQuantity(forecast.movingAverage)}</div>
+          {forecast.trendPerPeriod !== 0 && (
+            <div>
+              Xu hướng: {forecast.trendPerPeriod > 0 ? "+" : ""}
+              {formatQuantity(forecast.trendPerPeriod)}/kỳ
+            </div>
+          )}
+          {forecast.seasonalIndex !== null && (
+            <div>Hệ số cùng kỳ năm trước: ×{forecast.seasonalIndex}</div>
+          )}
+          {onAccept && <div className="text-muted-foreground">Nhấn để áp dụng</div>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
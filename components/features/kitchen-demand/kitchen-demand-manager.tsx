@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  getDemandKitchens,
+  getKitchenDemandSheet,
+} from "@/lib/actions/kitchen-demand.actions";
+import { getPeriods } from "@/lib/actions/period.actions";
+import type {
+  DemandKitchenOption,
+  KitchenDemandSheet,
+} from "@/lib/types/kitchen-demand.types";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import { getStatusLabel } from "@/lib/utils/status-styles";
+import { DemandRollup } from "./demand-rollup";
+import { KitchenDemandGrid } from "./kitchen-demand-grid";
+
+interface KitchenDemandManagerProps {
+  showRollup: boolean; // Procurement and admins see the regional roll-up tab
+}
+
+/**
+ * Kitchen demand manager
+ * Kitchens enter, import and submit their demand per period; procurement
+ * follows the submissions of a region on the roll-up tab.
+ */
+export function KitchenDemandManager({ showRollup }: KitchenDemandManagerProps) {
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
+  const [kitchens, setKitchens] = useState<DemandKitchenOption[]>([]);
+  const [period, setPeriod] = useState("");
+  const [teamId, setTeamId] = useState("");
+
+  const [sheet, setSheet] = useState<KitchenDemandSheet | null>(null);
+  const [loadingSheet, setLoadingSheet] = useState(false);
+
+  // Default to the newest period still collecting demand
+  useEffect(() => {
+    Promise.all([getPeriods(), getDemandKitchens()])
+      .then(([periodList, kitchenList]) => {
+        setPeriods(periodList);
+        setKitchens(kitchenList);
+        const openPeriod = periodList.find(
+          (entry) => entry.status === "open" || entry.status === "collecting"
+        );
+        setPeriod((current) => current || openPeriod?.code || periodList[0]?.code || "");
+        setTeamId((current) => current || (kitchenList[0] ? String(kitchenList[0].id) : ""));
+      })
+      .catch((error) => {
+        console.error("Error loading demand options:", error);
+        toast.error("Không thể tải danh sách kỳ báo giá và bếp");
+      });
+  }, []);
+
+  const loadSheet = useCallback(async () => {
+    if (!period || !teamId) {
+      setSheet(null);
+      return;
+    }
+
+    try {
+      setLoadingSheet(true);
+      setSheet(await getKitchenDemandSheet({ teamId: Number(teamId), period }));
+    } catch (error) {
+      console.error("Error loading demand sheet:", error);
+      setSheet(null);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tải nhu cầu của bếp");
+    } finally {
+      setLoadingSheet(false);
+    }
+  }, [period, teamId]);
+
+  useEffect(() => {
+    loadSheet();
+  }, [loadSheet]);
+
+  const periodSelect = (
+    <div className="w-[220px] space-y-1">
+      <Label>Kỳ báo giá</Label>
+      <Select value={period} onValueChange={setPeriod}>
+        <SelectTrigger>
+          <SelectValue placeholder="Chọn kỳ báo giá" />
+        </SelectTrigger>
+        <SelectContent>
+          {periods.map((entry) => (
+            <SelectItem key={entry.code} value={entry.code}>
+              {entry.code} ({getStatusLabel(entry.status)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const demandEntry = (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        {periodSelect}
+        <div className="w-[300px] space-y-1">
+          <Label>Bếp</Label>
+          <Select value={teamId} onValueChange={setTeamId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn bếp" />
+            </SelectTrigger>
+            <SelectContent>
+              {kitchens.map((kitchen) => (
+                <SelectItem key={kitchen.id} value={String(kitchen.id)}>
+                  {kitchen.teamCode ? `${kitchen.teamCode} - ` : ""}
+                  {kitchen.name}
+                  {kitchen.region && ` (${kitchen.region})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loadingSheet ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : sheet ? (
+        <KitchenDemandGrid sheet={sheet} onChanged={loadSheet} />
+      ) : (
+        <p className="py-8 text-center text-muted-foreground">
+          {kitchens.length === 0
+            ? "Bạn chưa được phân công vào bếp nào"
+            : "Chọn kỳ báo giá và bếp để nhập nhu cầu"}
+        </p>
+      )}
+    </div>
+  );
+
+  if (!showRollup) {
+    return demandEntry;
+  }
+
+  return (
+    <Tabs defaultValue="entry" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="entry">Nhu cầu theo bếp</TabsTrigger>
+        <TabsTrigger value="rollup">Tổng hợp khu vực</TabsTrigger>
+      </TabsList>
+      <TabsContent value="entry">{demandEntry}</TabsContent>
+      <TabsContent value="rollup" className="space-y-4">
+        {periodSelect}
+        <DemandRollup period={period} />
+      </TabsContent>
+    </Tabs>
+  );
+}
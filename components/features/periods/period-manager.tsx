@@ -0,0 +1,347 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { ArrowRight, Loader2, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  advancePeriodStatus,
+  createPeriod,
+  getPeriods,
+  updatePeriod,
+} from "@/lib/actions/period.actions";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import { getNextPeriodStatus } from "@/lib/utils/period-lifecycle";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+interface PeriodFormState {
+  code: string;
+  name: string;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  submissionDeadline: string; // yyyy-MM-ddTHH:mm, empty = no deadline
+}
+
+const EMPTY_FORM: PeriodFormState = {
+  code: "",
+  name: "",
+  startDate: "",
+  endDate: "",
+  submissionDeadline: "",
+};
+
+const formatDate = (value: Date | null, pattern = "dd/MM/yyyy") =>
+  value ? format(new Date(value), pattern, { locale: vi }) : "-";
+
+/**
+ * Period manager
+ * Lists quotation periods and moves them through their lifecycle
+ * (open → collecting → negotiating → closed).
+ */
+export function PeriodManager() {
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Create/edit dialog state (editingId null = create)
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<PeriodFormState>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [advancingId, setAdvancingId] = useState<number | null>(null);
+
+  const loadPeriods = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPeriods(await getPeriods());
+    } catch (error) {
+      console.error("Error loading periods:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi tải danh sách kỳ báo giá"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [loadPeriods]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const openEdit = (period: PeriodEntry) => {
+    setEditingId(period.id);
+    setForm({
+      code: period.code,
+      name: period.name ?? "",
+      startDate: formatDate(period.startDate, "yyyy-MM-dd"),
+      endDate: formatDate(period.endDate, "yyyy-MM-dd"),
+      submissionDeadline: period.submissionDeadline
+        ? formatDate(period.submissionDeadline, "yyyy-MM-dd'T'HH:mm")
+        : "",
+    });
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    // Date inputs are interpreted in local time
+    const dates = {
+      name: form.name,
+      startDate: new Date(`${form.startDate}T00:00`),
+      endDate: new Date(`${form.endDate}T23:59:59`),
+      submissionDeadline: form.submissionDeadline ? new Date(form.submissionDeadline) : null,
+    };
+
+    try {
+      setSubmitting(true);
+      const result =
+        editingId === null
+          ? await createPeriod({ code: form.code, ...dates })
+          : await updatePeriod({ id: editingId, ...dates });
+
+      toast.success(result.success);
+      setFormOpen(false);
+      await loadPeriods();
+    } catch (error) {
+      console.error("Error saving period:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi lưu kỳ báo giá");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAdvance = async (period: PeriodEntry) => {
+    const nextStatus = getNextPeriodStatus(period.status);
+    if (!nextStatus) return;
+
+    const warning =
+      nextStatus === "closed" ? " Sau khi đóng, không thể thay đổi phê duyệt của kỳ này." : "";
+    if (
+      !confirm(
+        `Chuyển kỳ ${period.code} sang "${getStatusLabel(nextStatus)}"?${warning}`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setAdvancingId(period.id);
+      const result = await advancePeriodStatus({ id: period.id, status: nextStatus });
+      toast.success(result.success);
+      await loadPeriods();
+    } catch (error) {
+      console.error("Error advancing period:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi chuyển trạng thái kỳ báo giá"
+      );
+    } finally {
+      setAdvancingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreate} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Tạo kỳ báo giá
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kỳ</TableHead>
+                <TableHead>Thời gian</TableHead>
+                <TableHead>Hạn nộp báo giá</TableHead>
+                <TableHead className="text-right">Số báo giá</TableHead>
+                <TableHead>Trạng thái</TableHead>
+                <TableHead className="text-right">Hành động</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-8 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : periods.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                    Chưa có kỳ báo giá nào
+                  </TableCell>
+                </TableRow>
+              ) : (
+                periods.map((period) => {
+                  const nextStatus = getNextPeriodStatus(period.status);
+
+                  return (
+                    <TableRow key={period.id}>
+                      <TableCell>
+                        <div className="font-medium">{period.code}</div>
+                        {period.name && (
+                          <div className="text-xs text-muted-foreground">{period.name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(period.startDate)} - {formatDate(period.endDate)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(period.submissionDeadline, "dd/MM/yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell className="text-right">{period.quotationCount}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={getStatusClassName(period.status)}>
+                          {getStatusLabel(period.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {period.status !== "closed" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openEdit(period)}
+                              title="Sửa kỳ báo giá"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {nextStatus && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleAdvance(period)}
+                              disabled={advancingId === period.id}
+                              className="flex items-center gap-1"
+                            >
+                              {advancingId === period.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <ArrowRight className="h-4 w-4" />
+                              )}
+                              {getStatusLabel(nextStatus)}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={formOpen} onOpenChange={(open) => !submitting && setFormOpen(open)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingId === null ? "Tạo kỳ báo giá" : `Sửa kỳ báo giá ${form.code}`}
+            </DialogTitle>
+            <DialogDescription>
+              Báo giá chỉ được cập nhật khi kỳ ở trạng thái Mở hoặc Đang nhận báo giá và chưa quá
+              hạn nộp.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="period-code">Mã kỳ (YYYY-MM-XX) *</Label>
+              <Input
+                id="period-code"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="2025-01-01"
+                disabled={editingId !== null || submitting}
+                maxLength={10}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="period-name">Tên kỳ</Label>
+              <Input
+                id="period-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Tháng 1 - Đợt 1"
+                disabled={submitting}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="period-start">Ngày bắt đầu *</Label>
+              <Input
+                id="period-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="period-end">Ngày kết thúc *</Label>
+              <Input
+                id="period-end"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                disabled={submitting}
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="period-deadline">Hạn nộp báo giá</Label>
+              <Input
+                id="period-deadline"
+                type="datetime-local"
+                value={form.submissionDeadline}
+                onChange={(e) => setForm({ ...form, submissionDeadline: e.target.value })}
+                disabled={submitting}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={submitting}>
+              Hủy
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingId === null ? "Tạo kỳ" : "Lưu"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   Table,
   TableBody,
@@ -20,7 +20,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Eye, EyeOff, ChevronsDown, ChevronsUp } from "lucide-react";
+import { BudgetVarianceBadge } from "@/components/features/kitchen-budgets/budget-variance-badge";
 import { cn, formatNumber } from "@/lib/utils";
+import { getKitchenBudgetStatus } from "@/lib/actions/kitchen-budget.actions";
+import type { KitchenBudgetStatus } from "@/lib/types/kitchen-budget.types";
 import type { PriceListMatrixData } from "@/lib/types/price-list.types";
 
 export interface PriceMatrixProps {
@@ -36,12 +39,31 @@ export interface PriceMatrixProps {
  * - Summary statistics bar
  * - VAT toggle (show/hide VAT %)
  * - Expand/collapse all categories
+ * - Order-from marking (split award shares or best price)
+ * - Kitchen budget vs planned spend, overall and per category
  * - Unified typography and terminology
  */
 export function PriceMatrix({ priceListData }: PriceMatrixProps) {
   // State for VAT toggle and accordion expansion
   const [showVAT, setShowVAT] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<string[]>([]);
+  const [budgetStatus, setBudgetStatus] = useState<KitchenBudgetStatus | null>(null);
+
+  // Kitchen budget for the period - not shown when unset or not visible to the user
+  useEffect(() => {
+    let cancelled = false;
+    setBudgetStatus(null);
+
+    getKitchenBudgetStatus({ teamId: priceListData.teamId, period: priceListData.period })
+      .then((status) => {
+        if (!cancelled) setBudgetStatus(status);
+      })
+      .catch((error) => console.error("Error loading kitchen budget:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [priceListData.teamId, priceListData.period]);
 
   // Group products by category
   const productsByCategory = useMemo(() => {
@@ -134,6 +156,30 @@ export function PriceMatrix({ priceListData }: PriceMatrixProps) {
                 <span className="font-semibold font-narrow">{priceListData.summary.averageCoverage.toFixed(1)}%</span>
               </div>
             </div>
+
+            {/* Kitchen Budget Bar */}
+            {budgetStatus && (
+              <div className="flex items-center gap-6 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">Chi tiêu dự kiến:</span>
+                  <span className="font-semibold font-narrow">
+                    {formatNumber(budgetStatus.plannedSpend)}
+                  </span>
+                </div>
+                {budgetStatus.budget !== null && (
+                  <>
+                    <Separator orientation="vertical" className="h-4" />
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">Ngân sách:</span>
+                      <span className="font-semibold font-narrow">
+                        {formatNumber(budgetStatus.budget)}
+                      </span>
+                      <BudgetVarianceBadge variance={budgetStatus.variance} />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Utility Action Buttons - Right Side */}
@@ -186,117 +232,138 @@ export function PriceMatrix({ priceListData }: PriceMatrixProps) {
             onValueChange={setExpandedCategories}
             className="w-full"
           >
-            {Array.from(productsByCategory.entries()).map(([category, products]) => (
-              <AccordionItem key={category} value={category}>
-                <AccordionTrigger className="hover:no-underline">
-                  <div className="flex items-center gap-2">
-                    <span className="font-semibold">{category}</span>
-                    <Badge variant="secondary">{products.length} hàng hóa</Badge>
-                  </div>
-                </AccordionTrigger>
-                <AccordionContent>
-                  <div className="rounded-md border overflow-x-auto">
-                    <Table>
-                      <TableHeader className="sticky top-0 bg-white z-10">
-                        <TableRow>
-                          {/* Column 1: Mã hàng hóa */}
-                          <TableHead className="min-w-[100px]">Mã hàng hóa</TableHead>
-
-                          {/* Column 2: Tên hàng hóa */}
-                          <TableHead className="min-w-[200px]">Tên hàng hóa</TableHead>
-
-                          {/* Dynamic supplier columns */}
-                          {sortedSuppliers.map((supplier) => (
-                            <TableHead key={supplier.id} className="min-w-[150px] text-right">
-                              <div className="space-y-1">
-                                <div className="font-medium">{supplier.code}</div>
-                                <div className="text-xs text-muted-foreground truncate">
-                                  {supplier.name}
-                                </div>
-                              </div>
-                            </TableHead>
-                          ))}
-                        </TableRow>
-                      </TableHeader>
-
-                      <TableBody>
-                        {products.map((product, index) => (
-                          <TableRow
-                            key={product.productId}
-                            className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
-                          >
-                            {/* Column 1: Product Code with Unit - NO font-mono */}
-                            <TableCell className="text-sm">
-                              <div className="space-y-1">
-                                <div className="font-medium">{product.productCode}</div>
-                                <div className="text-xs text-muted-foreground">
-                                  {product.unit}
+            {Array.from(productsByCategory.entries()).map(([category, products]) => {
+              const categoryBudget = budgetStatus?.categories.find(
+                (entry) => entry.category === category && entry.variance !== null
+              );
+
+              return (
+                <AccordionItem key={category} value={category}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{category}</span>
+                      <Badge variant="secondary">{products.length} hàng hóa</Badge>
+                      {categoryBudget && <BudgetVarianceBadge variance={categoryBudget.variance} />}
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="rounded-md border overflow-x-auto">
+                      <Table>
+                        <TableHeader className="sticky top-0 bg-white z-10">
+                          <TableRow>
+                            {/* Column 1: Mã hàng hóa */}
+                            <TableHead className="min-w-[100px]">Mã hàng hóa</TableHead>
+
+                            {/* Column 2: Tên hàng hóa */}
+                            <TableHead className="min-w-[200px]">Tên hàng hóa</TableHead>
+
+                            {/* Dynamic supplier columns */}
+                            {sortedSuppliers.map((supplier) => (
+                              <TableHead key={supplier.id} className="min-w-[150px] text-right">
+                                <div className="space-y-1">
+                                  <div className="font-medium">{supplier.code}</div>
+                                  <div className="text-xs text-muted-foreground truncate">
+                                    {supplier.name}
+                                  </div>
                                 </div>
-                              </div>
-                            </TableCell>
-
-                            {/* Column 2: Product Name with Specification */}
-                            <TableCell>
-                              <div className="space-y-1">
-                                <div className="font-medium">{product.productName}</div>
-                                {product.specification && (
-                                  <div className="text-sm text-muted-foreground">
-                                    {product.specification}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+
+                        <TableBody>
+                          {products.map((product, index) => (
+                            <TableRow
+                              key={product.productId}
+                              className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                            >
+                              {/* Column 1: Product Code with Unit - NO font-mono */}
+                              <TableCell className="text-sm">
+                                <div className="space-y-1">
+                                  <div className="font-medium">{product.productCode}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {product.unit}
                                   </div>
-                                )}
-                              </div>
-                            </TableCell>
+                                </div>
+                              </TableCell>
+
+                              {/* Column 2: Product Name with Specification */}
+                              <TableCell>
+                                <div className="space-y-1">
+                                  <div className="font-medium">{product.productName}</div>
+                                  {product.specification && (
+                                    <div className="text-sm text-muted-foreground">
+                                      {product.specification}
+                                    </div>
+                                  )}
+                                  {product.awardSource === "allocation" && (
+                                    <Badge variant="outline" className="text-xs">
+                                      Chia nhiều NCC
+                                    </Badge>
+                                  )}
+                                </div>
+                              </TableCell>
 
-                            {/* Dynamic Supplier Price Columns */}
-                            {sortedSuppliers.map((supplier) => {
-                              const supplierPrice = product.suppliers[supplier.id];
+                              {/* Dynamic Supplier Price Columns */}
+                              {sortedSuppliers.map((supplier) => {
+                                const supplierPrice = product.suppliers[supplier.id];
+
+                                if (!supplierPrice) {
+                                  return (
+                                    <TableCell key={supplier.id} className="text-right">
+                                      <div className="text-gray-400 text-sm py-4">—</div>
+                                    </TableCell>
+                                  );
+                                }
+
+                                const isBestPrice = supplierPrice.hasBestPrice;
+
+                                // Toggle between prices based on VAT display
+                                const displayPrice = showVAT
+                                  ? supplierPrice.totalPriceWithVAT
+                                  : supplierPrice.approvedPrice;
 
-                              if (!supplierPrice) {
                                 return (
-                                  <TableCell key={supplier.id} className="text-right">
-                                    <div className="text-gray-400 text-sm py-4">—</div>
-                                  </TableCell>
-                                );
-                              }
-
-                              const isBestPrice = supplierPrice.hasBestPrice;
-
-                              // Toggle between prices based on VAT display
-                              const displayPrice = showVAT
-                                ? supplierPrice.totalPriceWithVAT
-                                : supplierPrice.approvedPrice;
-
-                              return (
-                                <TableCell key={supplier.id} className="text-right text-sm font-narrow">
-                                  <div className="space-y-2">
-                                    {/* Price Display with Best Price Highlighting */}
-                                    <div
-                                      className={cn(
-                                        "inline-block px-2 py-1 rounded text-sm font-narrow",
-                                        getPriceStyle(isBestPrice)
+                                  <TableCell key={supplier.id} className="text-right text-sm font-narrow">
+                                    <div className="space-y-2">
+                                      {/* Price Display with Best Price Highlighting */}
+                                      <div
+                                        className={cn(
+                                          "inline-block px-2 py-1 rounded text-sm font-narrow",
+                                          getPriceStyle(isBestPrice)
+                                        )}
+                                      >
+                                        {formatNumber(displayPrice)}
+                                      </div>
+
+                                      {/* Order-from share for this kitchen */}
+                                      {supplierPrice.awardSharePercent !== undefined && (
+                                        <div className="text-xs font-medium text-blue-700">
+                                          Đặt hàng {formatNumber(supplierPrice.awardSharePercent)}%
+                                          {supplierPrice.orderQuantity !== undefined &&
+                                            ` • ${formatNumber(supplierPrice.orderQuantity)} ${product.unit}`}
+                                        </div>
                                       )}
-                                    >
-                                      {formatNumber(displayPrice)}
-                                    </div>
 
-                                    {/* Conditionally show VAT percentage */}
-                                    {showVAT && supplierPrice.vatRate > 0 && (
-                                      <div className="text-xs text-muted-foreground">
-                                        Thuế GTGT ({supplierPrice.vatRate}%)
-                                      </div>
-                                    )}
-                                  </div>
-                                </TableCell>
-                              );
-                            })}
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
-                </AccordionContent>
-              </AccordionItem>
-            ))}
+                                      {/* Conditionally show VAT percentage */}
+                                      {showVAT && supplierPrice.vatRate > 0 && (
+                                        <div className="text-xs text-muted-foreground">
+                                          Thuế GTGT ({supplierPrice.vatRate}%)
+                                        </div>
+                                      )}
+                                    </div>
+                                  </TableCell>
+                                );
+                              })}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
           </Accordion>
         </CardContent>
       </Card>
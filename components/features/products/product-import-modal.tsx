@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { FileSpreadsheet, Upload, AlertCircle, CheckCircle, X, Download } from "lucide-react";
 import { toast } from "sonner";
 
@@ -199,7 +200,7 @@ export function ProductImportModal({
           const arrayBuffer = await file.arrayBuffer();
 
           // Call the import action
-          const result = await importProductsFromExcel(arrayBuffer);
+          const result = await importProductsFromExcel(arrayBuffer, file.name);
 
           totalCreated += result.created;
           totalUpdated += result.updated;
@@ -458,6 +459,7 @@ function ImportProgress({ state }: { state: ImportState }) {
                   ))}
                 </ul>
               </ScrollArea>
+              <ImportHistoryLink />
             </div>
           )}
         </div>
@@ -471,6 +473,7 @@ function ImportProgress({ state }: { state: ImportState }) {
             <span className="font-medium">Có lỗi xảy ra</span>
           </div>
           <p className="text-sm text-muted-foreground">{state.error}</p>
+          <ImportHistoryLink />
         </div>
       );
 
@@ -478,3 +481,12 @@ function ImportProgress({ state }: { state: ImportState }) {
       return null;
   }
 }
+
+// Rows with errors can be downloaded as an annotated workbook from the import history
+function ImportHistoryLink() {
+  return (
+    <Link href="/lich-su-nhap?type=products" className="text-xs text-blue-600 hover:underline">
+      Xem lịch sử nhập và tải file lỗi
+    </Link>
+  );
+}
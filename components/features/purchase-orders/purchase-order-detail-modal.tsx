@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileSpreadsheet, Loader2, Printer } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  exportPurchaseOrderFile,
+  getPurchaseOrder,
+} from "@/lib/actions/purchase-order.actions";
+import type { PurchaseOrderDetail } from "@/lib/types/purchase-order.types";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+import { PurchaseOrderDocument } from "./purchase-order-document";
+
+interface PurchaseOrderDetailModalProps {
+  orderId: number | null; // Null closes the modal
+  onClose: () => void;
+}
+
+export function PurchaseOrderDetailModal({ orderId, onClose }: PurchaseOrderDetailModalProps) {
+  const [order, setOrder] = useState<PurchaseOrderDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (orderId === null) {
+      setOrder(null);
+      return;
+    }
+
+    setLoading(true);
+    getPurchaseOrder({ id: orderId })
+      .then(setOrder)
+      .catch((error) => {
+        console.error("Error loading purchase order:", error);
+        toast.error(error instanceof Error ? error.message : "Lỗi khi tải đơn đặt hàng");
+        onClose();
+      })
+      .finally(() => setLoading(false));
+  }, [orderId, onClose]);
+
+  const handleExport = async () => {
+    if (!order) return;
+
+    try {
+      setExporting(true);
+      const blob = await exportPurchaseOrderFile({ id: order.id });
+
+      // Create download link
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${order.poNumber}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting purchase order:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi xuất file đơn đặt hàng");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={orderId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Đơn đặt hàng {order?.poNumber}
+            {order && (
+              <Badge variant="outline" className={getStatusClassName(order.status)}>
+                {getStatusLabel(order.status)}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Số lượng theo nhu cầu bếp, đơn giá theo giá đã duyệt của kỳ
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !order ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <PurchaseOrderDocument order={order} />
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" asChild disabled={!order}>
+            <a href={order ? `/don-hang/${order.id}/in` : "#"} target="_blank" rel="noreferrer">
+              <Printer className="mr-2 h-4 w-4" />
+              In / Lưu PDF
+            </a>
+          </Button>
+          <Button onClick={handleExport} disabled={!order || exporting}>
+            {exporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+            )}
+            Xuất Excel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatNumber } from "@/lib/utils";
+import type { PurchaseOrderDetail } from "@/lib/types/purchase-order.types";
+import { formatCurrency } from "@/lib/utils/price-calculation";
+
+interface PurchaseOrderDocumentProps {
+  order: PurchaseOrderDetail;
+}
+
+/**
+ * Purchase order body shared by the detail modal and the print view
+ */
+export function PurchaseOrderDocument({ order }: PurchaseOrderDocumentProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 text-sm md:grid-cols-2">
+        <div className="space-y-1">
+          <p className="font-semibold">Bên đặt hàng</p>
+          <p>
+            {order.teamCode ? `${order.teamCode} - ` : ""}
+            {order.kitchenName}
+          </p>
+          <p className="text-muted-foreground">
+            Địa chỉ giao hàng: {order.kitchenAddress ?? "-"}
+          </p>
+          <p className="text-muted-foreground">
+            Kỳ: {order.period} - Khu vực: {order.region}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <p className="font-semibold">Nhà cung cấp</p>
+          <p>
+            {order.supplierCode ? `${order.supplierCode} - ` : ""}
+            {order.supplierName}
+          </p>
+          <p className="text-muted-foreground">MST: {order.supplierTaxId ?? "-"}</p>
+          <p className="text-muted-foreground">
+            Liên hệ: {order.supplierContactPerson ?? "-"} - {order.supplierPhone ?? "-"}
+          </p>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">STT</TableHead>
+            <TableHead>Mã SP</TableHead>
+            <TableHead>Tên sản phẩm</TableHead>
+            <TableHead>ĐVT</TableHead>
+            <TableHead className="text-right">Số lượng</TableHead>
+            <TableHead className="text-right">Đơn giá</TableHead>
+            <TableHead className="text-right">VAT %</TableHead>
+            <TableHead className="text-right">Thành tiền</TableHead>
+            <TableHead className="text-right">Tổng (gồm VAT)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {order.lines.map((line, index) => (
+            <TableRow key={line.productId}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell>{line.productCode}</TableCell>
+              <TableCell>
+                {line.productName}
+                {line.sharePercent !== null && (
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    ({line.sharePercent}% nhu cầu)
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>{line.unit}</TableCell>
+              <TableCell className="text-right">{formatNumber(line.quantity)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.unitPrice)}</TableCell>
+              <TableCell className="text-right">{line.vatPercentage}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.lineSubtotal)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(line.lineTotal)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="ml-auto w-full max-w-xs space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span>Tiền hàng</span>
+          <span>{formatCurrency(order.subtotal)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Tiền VAT</span>
+          <span>{formatCurrency(order.vatAmount)}</span>
+        </div>
+        <div className="flex justify-between border-t pt-1 font-semibold">
+          <span>Tổng cộng</span>
+          <span>{formatCurrency(order.totalAmount)}</span>
+        </div>
+      </div>
+
+      {order.notes && <p className="text-sm text-muted-foreground">Ghi chú: {order.notes}</p>}
+    </div>
+  );
+}
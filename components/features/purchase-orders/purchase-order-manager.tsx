@@ -0,0 +1,323 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowRight, Eye, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  advancePurchaseOrderStatus,
+  generatePurchaseOrders,
+  getPurchaseOrders,
+} from "@/lib/actions/purchase-order.actions";
+import { getPeriods } from "@/lib/actions/period.actions";
+import { getAvailableRegions } from "@/lib/actions/quotations.actions";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import type {
+  PurchaseOrderEntry,
+  UnpricedDemandLine,
+} from "@/lib/types/purchase-order.types";
+import { formatCurrency } from "@/lib/utils/price-calculation";
+import {
+  getNextPurchaseOrderStatus,
+  PURCHASE_ORDER_STATUSES,
+  type PurchaseOrderStatus,
+} from "@/lib/utils/purchase-order";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+import { PurchaseOrderDetailModal } from "./purchase-order-detail-modal";
+
+const ALL_STATUSES = "all";
+
+/**
+ * Purchase order manager
+ * Generates one order per kitchen and supplier from the approved prices and
+ * kitchen demand of a period, and moves orders through their statuses.
+ */
+export function PurchaseOrderManager() {
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [period, setPeriod] = useState("");
+  const [region, setRegion] = useState("");
+  const [status, setStatus] = useState<string>(ALL_STATUSES);
+
+  const [orders, setOrders] = useState<PurchaseOrderEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [advancingId, setAdvancingId] = useState<number | null>(null);
+  const [unpricedLines, setUnpricedLines] = useState<UnpricedDemandLine[]>([]);
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+
+  useEffect(() => {
+    Promise.all([getPeriods(), getAvailableRegions()])
+      .then(([periodList, regionList]) => {
+        setPeriods(periodList);
+        setRegions(regionList);
+        setPeriod((current) => current || periodList[0]?.code || "");
+        setRegion((current) => current || regionList[0] || "");
+      })
+      .catch((error) => {
+        console.error("Error loading purchase order options:", error);
+        toast.error("Không thể tải danh sách kỳ báo giá và khu vực");
+      });
+  }, []);
+
+  const loadOrders = useCallback(async () => {
+    if (!period || !region) {
+      setOrders([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setOrders(
+        await getPurchaseOrders({
+          period,
+          region,
+          status: status === ALL_STATUSES ? undefined : (status as PurchaseOrderStatus),
+        })
+      );
+    } catch (error) {
+      console.error("Error loading purchase orders:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tải danh sách đơn đặt hàng");
+    } finally {
+      setLoading(false);
+    }
+  }, [period, region, status]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  // Unpriced demand belongs to the period/region it was generated for
+  useEffect(() => {
+    setUnpricedLines([]);
+  }, [period, region]);
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      const result = await generatePurchaseOrders({ period, region });
+      toast.success(result.success);
+      if (result.lockedOrders > 0) {
+        toast.info(`${result.lockedOrders} đơn đã gửi NCC được giữ nguyên`);
+      }
+      setUnpricedLines(result.unpricedLines);
+      await loadOrders();
+    } catch (error) {
+      console.error("Error generating purchase orders:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tạo đơn đặt hàng");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleAdvance = async (order: PurchaseOrderEntry, nextStatus: PurchaseOrderStatus) => {
+    try {
+      setAdvancingId(order.id);
+      const result = await advancePurchaseOrderStatus({ id: order.id, status: nextStatus });
+      toast.success(result.success);
+      await loadOrders();
+    } catch (error) {
+      console.error("Error advancing purchase order:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi cập nhật trạng thái đơn đặt hàng"
+      );
+    } finally {
+      setAdvancingId(null);
+    }
+  };
+
+  const closeDetail = useCallback(() => setSelectedOrderId(null), []);
+
+  const grandTotal = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-[220px] space-y-1">
+          <Label>Kỳ báo giá</Label>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn kỳ báo giá" />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((entry) => (
+                <SelectItem key={entry.code} value={entry.code}>
+                  {entry.code} ({getStatusLabel(entry.status)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[220px] space-y-1">
+          <Label>Khu vực</Label>
+          <Select value={region} onValueChange={setRegion}>
+            <SelectTrigger>
+              <SelectValue placeholder="Chọn khu vực" />
+            </SelectTrigger>
+            <SelectContent>
+              {regions.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {entry}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-[180px] space-y-1">
+          <Label>Trạng thái</Label>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>Tất cả</SelectItem>
+              {PURCHASE_ORDER_STATUSES.map((entry) => (
+                <SelectItem key={entry} value={entry}>
+                  {getStatusLabel(entry)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={handleGenerate}
+          disabled={!period || !region || generating}
+          className="ml-auto"
+        >
+          {generating ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Tạo / cập nhật đơn nháp
+        </Button>
+      </div>
+
+      {unpricedLines.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="space-y-2 py-4 text-sm text-amber-900">
+            <p className="font-medium">
+              {unpricedLines.length} dòng nhu cầu chưa có giá được duyệt từ nhà cung cấp phục vụ bếp:
+            </p>
+            <ul className="max-h-40 list-disc space-y-1 overflow-auto pl-5">
+              {unpricedLines.map((line) => (
+                <li key={`${line.teamId}-${line.productCode}`}>
+                  {line.kitchenName}: {line.productCode} - {line.productName} ({line.quantity})
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : orders.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">
+          Chưa có đơn đặt hàng nào cho kỳ và khu vực này
+        </p>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Số đơn</TableHead>
+                  <TableHead>Bếp</TableHead>
+                  <TableHead>Nhà cung cấp</TableHead>
+                  <TableHead className="text-right">Số dòng</TableHead>
+                  <TableHead className="text-right">Tổng (gồm VAT)</TableHead>
+                  <TableHead>Trạng thái</TableHead>
+                  <TableHead className="text-right">Thao tác</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => {
+                  const nextStatus = getNextPurchaseOrderStatus(order.status);
+
+                  return (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium">{order.poNumber}</TableCell>
+                      <TableCell>
+                        {order.teamCode ? `${order.teamCode} - ` : ""}
+                        {order.kitchenName}
+                      </TableCell>
+                      <TableCell>
+                        {order.supplierCode ? `${order.supplierCode} - ` : ""}
+                        {order.supplierName}
+                      </TableCell>
+                      <TableCell className="text-right">{order.lineCount}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(order.totalAmount)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={getStatusClassName(order.status)}>
+                          {getStatusLabel(order.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSelectedOrderId(order.id)}
+                          >
+                            <Eye className="mr-1 h-4 w-4" />
+                            Chi tiết
+                          </Button>
+                          {nextStatus && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={advancingId === order.id}
+                              onClick={() => handleAdvance(order, nextStatus)}
+                            >
+                              {advancingId === order.id ? (
+                                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                              ) : (
+                                <ArrowRight className="mr-1 h-4 w-4" />
+                              )}
+                              {getStatusLabel(nextStatus)}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={4}>Tổng cộng {orders.length} đơn</TableCell>
+                  <TableCell className="text-right">{formatCurrency(grandTotal)}</TableCell>
+                  <TableCell colSpan={2} />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PurchaseOrderDetailModal orderId={selectedOrderId} onClose={closeDetail} />
+    </div>
+  );
+}
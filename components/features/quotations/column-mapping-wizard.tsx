@@ -0,0 +1,340 @@
+"use client";
+
+import * as React from "react";
+import { Loader2, Save, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  previewImportFile,
+  saveImportProfile,
+} from "@/lib/actions/import-profile.actions";
+import type { ImportFilePreview } from "@/lib/types/import-profile.types";
+import {
+  detectHeaderRow,
+  getColumnLetter,
+  getMissingRequiredFields,
+  IMPORT_FIELD_LABELS,
+  IMPORT_PROFILE_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  suggestColumnMapping,
+  type ImportColumnMapping,
+  type ImportProfileField,
+} from "@/lib/utils/import-profile";
+
+const FIRST_SHEET = "__first__";
+const NOT_MAPPED = "none";
+const PREVIEW_ROWS = 5;
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: File | null;
+  supplier: { id: number; code: string; name: string } | null;
+  onSaved: (supplierId: number) => void;
+}
+
+/**
+ * Map a supplier's own quotation workbook to the import fields
+ * Starts from the supplier's saved profile or from the detected header row,
+ * shows the first data rows as they will be read and saves the profile.
+ */
+export function ColumnMappingWizard({
+  open,
+  onOpenChange,
+  file,
+  supplier,
+  onSaved,
+}: ColumnMappingWizardProps) {
+  const [preview, setPreview] = React.useState<ImportFilePreview | null>(null);
+  const [sheetName, setSheetName] = React.useState<string | null>(null);
+  const [headerRow, setHeaderRow] = React.useState(1);
+  const [columns, setColumns] = React.useState<ImportColumnMapping>({});
+  const [loading, setLoading] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open || !file || !supplier) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setPreview(null);
+
+    previewImportFile(file, supplier.id)
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setSheetName(result.sheetName);
+        setHeaderRow(result.headerRow);
+        setColumns(result.columns);
+      })
+      .catch((error) => {
+        console.error("Error previewing import file:", error);
+        toast.error(error instanceof Error ? error.message : "Lỗi khi đọc file báo giá");
+        onOpenChange(false);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, file, supplier]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const rows = React.useMemo(() => {
+    if (!preview) return [];
+    const sheet = sheetName
+      ? preview.sheets.find((entry) => entry.name === sheetName)
+      : preview.sheets[0];
+    return sheet?.rows ?? [];
+  }, [preview, sheetName]);
+
+  const headers = rows[headerRow - 1] ?? [];
+  const columnCount = Math.max(headers.length, ...rows.map((row) => row.length), 0);
+  const dataRows = rows.slice(headerRow, headerRow + PREVIEW_ROWS);
+  const missingFields = getMissingRequiredFields(columns);
+
+  const handleSheetChange = (value: string) => {
+    const nextSheet = value === FIRST_SHEET ? null : value;
+    const sheetRows =
+      (nextSheet
+        ? preview?.sheets.find((entry) => entry.name === nextSheet)
+        : preview?.sheets[0]
+      )?.rows ?? [];
+    const nextHeaderRow = detectHeaderRow(sheetRows);
+
+    setSheetName(nextSheet);
+    setHeaderRow(nextHeaderRow);
+    setColumns(suggestColumnMapping(sheetRows[nextHeaderRow - 1] ?? []));
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const nextHeaderRow = Math.max(1, Math.min(Number(value) || 1, rows.length || 1));
+    setHeaderRow(nextHeaderRow);
+    setColumns(suggestColumnMapping(rows[nextHeaderRow - 1] ?? []));
+  };
+
+  const handleColumnChange = (field: ImportProfileField, value: string) => {
+    setColumns((current) => {
+      const next: ImportColumnMapping = { ...current };
+      // A column feeds one field only
+      for (const other of IMPORT_PROFILE_FIELDS) {
+        if (next[other] === Number(value)) delete next[other];
+      }
+      if (value === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!supplier || missingFields.length > 0) return;
+
+    try {
+      setSaving(true);
+      const result = await saveImportProfile({
+        supplierId: supplier.id,
+        sheetName,
+        headerRow,
+        columns: {
+          ...columns,
+          productCode: columns.productCode!,
+          initialPrice: columns.initialPrice!,
+        },
+      });
+      toast.success(result.success);
+      onSaved(supplier.id);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving import profile:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi lưu cấu hình nhập báo giá");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const columnLabel = (column: number) => {
+    const header = headers[column - 1];
+    return header ? `${getColumnLetter(column)} - ${header}` : getColumnLetter(column);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Cấu hình cột nhập báo giá
+          </DialogTitle>
+          <DialogDescription>
+            {supplier ? `${supplier.code} - ${supplier.name}` : ""}
+            {file ? ` • ${file.name}` : ""}. Cấu hình được lưu cho các lần nhập sau của nhà
+            cung cấp này.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !preview ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {preview.fromProfile && (
+              <p className="text-sm text-muted-foreground">
+                Đang dùng cấu hình đã lưu của nhà cung cấp.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-4">
+              <div className="w-[240px] space-y-1">
+                <Label>Sheet</Label>
+                <Select value={sheetName ?? FIRST_SHEET} onValueChange={handleSheetChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FIRST_SHEET}>Sheet đầu tiên</SelectItem>
+                    {preview.sheets.map((sheet) => (
+                      <SelectItem key={sheet.name} value={sheet.name}>
+                        {sheet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-[140px] space-y-1">
+                <Label>Dòng tiêu đề</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={headerRow}
+                  onChange={(e) => handleHeaderRowChange(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {IMPORT_PROFILE_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) && " *"}
+                  </Label>
+                  <Select
+                    value={columns[field] ? String(columns[field]) : NOT_MAPPED}
+                    onValueChange={(value) => handleColumnChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Không dùng</SelectItem>
+                      {Array.from({ length: columnCount }, (_, index) => index + 1).map(
+                        (column) => (
+                          <SelectItem key={column} value={String(column)}>
+                            {columnLabel(column)}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {missingFields.length > 0 && (
+              <p className="text-sm text-destructive">
+                Chưa chọn cột:{" "}
+                {missingFields.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")}
+              </p>
+            )}
+
+            <div className="space-y-1">
+              <Label>Xem trước {dataRows.length} dòng dữ liệu đầu tiên</Label>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">Dòng</TableHead>
+                      {IMPORT_PROFILE_FIELDS.filter((field) => columns[field]).map((field) => (
+                        <TableHead key={field}>{IMPORT_FIELD_LABELS[field]}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dataRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          Không có dữ liệu sau dòng tiêu đề
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      dataRows.map((row, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="text-muted-foreground">
+                            {headerRow + index + 1}
+                          </TableCell>
+                          {IMPORT_PROFILE_FIELDS.filter((field) => columns[field]).map(
+                            (field) => (
+                              <TableCell key={field}>{row[columns[field]! - 1] ?? ""}</TableCell>
+                            )
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Hủy
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={loading || saving || !preview || missingFields.length > 0}
+          >
+            {saving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Lưu cấu hình
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,22 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { FileSpreadsheet, Upload, AlertCircle, CheckCircle, X, ChevronUp, ChevronDown } from "lucide-react";
+import {
+  FileSpreadsheet,
+  Upload,
+  AlertCircle,
+  CheckCircle,
+  X,
+  Settings2,
+  ArrowLeft,
+  ListChecks,
+} from "lucide-react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
@@ -25,7 +37,13 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
@@ -33,16 +51,26 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 import { RegionAutocomplete } from "@/components/ui/region-autocomplete";
+import { ColumnMappingWizard } from "@/components/features/quotations/column-mapping-wizard";
+import {
+  ImportPreview,
+  isImportableFile,
+} from "@/components/features/quotations/import-preview";
 import {
   importQuotationsFromExcel,
-  getLatestPeriod,
+  previewQuotationImport,
+  getAvailableSuppliers,
   type ImportResult,
 } from "@/lib/actions/quotations.actions";
+import type { ImportPreviewResult } from "@/lib/types/quotations.types";
+import { getImportProfiles } from "@/lib/actions/import-profile.actions";
+import { getPeriods } from "@/lib/actions/period.actions";
+import type { PeriodEntry } from "@/lib/types/period.types";
 
 // Form validation schema
 const importFormSchema = z.object({
   period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
-    message: "Kỳ báo giá phải có định dạng YYYY-MM-DD (ví dụ: 2024-01-01)",
+    message: "Vui lòng chọn kỳ báo giá",
   }),
   region: z.string().min(1, {
     message: "Vui lòng chọn khu vực",
@@ -59,12 +87,16 @@ interface ImportExcelModalProps {
 }
 
 // Import progress states
+const STANDARD_TEMPLATE = "standard";
+
 type ImportState =
   | { type: "idle" }
+  | { type: "previewing" }
+  | { type: "preview"; preview: ImportPreviewResult }
   | { type: "uploading"; progress: number }
   | { type: "processing"; files: number; current: number }
   | { type: "success"; result: ImportResult }
-  | { type: "error"; error: string };
+  | { type: "error"; error: string; importJobId?: number };
 
 export function ImportExcelModal({
   open,
@@ -74,9 +106,17 @@ export function ImportExcelModal({
   const [selectedFiles, setSelectedFiles] = React.useState<File[]>([]);
   const [importState, setImportState] = React.useState<ImportState>({ type: "idle" });
   const [isDragActive, setIsDragActive] = React.useState(false);
-  const [periodYear, setPeriodYear] = React.useState("");
-  const [periodMonth, setPeriodMonth] = React.useState("");
-  const [periodSequence, setPeriodSequence] = React.useState("");
+  // Periods still accepting quotations (open/collecting, before the deadline)
+  const [importPeriods, setImportPeriods] = React.useState<PeriodEntry[]>([]);
+  // Supplier whose import profile reads each selected file (null = standard template)
+  const [fileSuppliers, setFileSuppliers] = React.useState<(number | null)[]>([]);
+  const [supplierOptions, setSupplierOptions] = React.useState<
+    Array<{ id: number; code: string; name: string }>
+  >([]);
+  const [profileSupplierIds, setProfileSupplierIds] = React.useState<Set<number>>(new Set());
+  const [mappingFileIndex, setMappingFileIndex] = React.useState<number | null>(null);
+  // Files the buyer confirmed after the dry run, by index in selectedFiles
+  const [confirmedFiles, setConfirmedFiles] = React.useState<Set<number>>(new Set());
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   const form = useForm<ImportFormValues>({
@@ -88,97 +128,70 @@ export function ImportExcelModal({
     },
   });
 
-  // Load latest period when modal opens
+  // Load importable periods when modal opens, preselecting the newest
   React.useEffect(() => {
     if (open) {
-      const loadLatestPeriod = async () => {
+      const loadPeriods = async () => {
         try {
-          const latestPeriod = await getLatestPeriod();
-          if (latestPeriod) {
-            // Parse period: YYYY-MM-XX
-            const parts = latestPeriod.split("-");
-            if (parts.length === 3) {
-              setPeriodYear(parts[0]);
-              setPeriodMonth(parts[1]);
-              setPeriodSequence(parts[2]);
-            }
-          } else {
-            // No existing periods, suggest first period
-            const now = new Date();
-            setPeriodYear(String(now.getFullYear()));
-            setPeriodMonth(String(now.getMonth() + 1).padStart(2, "0"));
-            setPeriodSequence("01");
+          const periods = (await getPeriods()).filter((p) => p.acceptsRequotes);
+          setImportPeriods(periods);
+          if (periods.length > 0 && !form.getValues("period")) {
+            form.setValue("period", periods[0].code);
           }
         } catch (error) {
-          console.error("Error loading latest period:", error);
+          console.error("Error loading periods:", error);
         }
       };
 
-      loadLatestPeriod();
+      loadPeriods();
+    }
+  }, [open, form]);
+
+  const loadProfiles = React.useCallback(async () => {
+    try {
+      const profiles = await getImportProfiles();
+      setProfileSupplierIds(new Set(profiles.map((p) => p.supplierId)));
+    } catch (error) {
+      console.error("Error loading import profiles:", error);
     }
-  }, [open]);
+  }, []);
 
-  // Sync period parts to form value
+  // Load suppliers and their import profiles when modal opens
   React.useEffect(() => {
-    if (periodYear && periodMonth && periodSequence) {
-      const period = `${periodYear}-${periodMonth}-${periodSequence}`;
-      form.setValue("period", period);
+    if (open) {
+      getAvailableSuppliers()
+        .then(setSupplierOptions)
+        .catch((error) => console.error("Error loading suppliers:", error));
+      loadProfiles();
     }
-  }, [periodYear, periodMonth, periodSequence, form]);
+  }, [open, loadProfiles]);
 
   // Reset form and state when modal closes
   React.useEffect(() => {
     if (!open) {
       form.reset();
       setSelectedFiles([]);
+      setFileSuppliers([]);
+      setMappingFileIndex(null);
+      setConfirmedFiles(new Set());
       setImportState({ type: "idle" });
-      setPeriodYear("");
-      setPeriodMonth("");
-      setPeriodSequence("");
     }
   }, [open, form]);
 
-  // Period input handlers
-  const handleYearChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, "").slice(0, 4);
-    setPeriodYear(value);
-  };
-
-  const handleMonthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, "").slice(0, 2);
-    if (value === "" || (parseInt(value, 10) >= 1 && parseInt(value, 10) <= 12)) {
-      setPeriodMonth(value.padStart(2, "0"));
-    }
-  };
-
-  const handleSequenceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, "").slice(0, 2);
-    setPeriodSequence(value.padStart(2, "0"));
-  };
-
-  const handleSequenceIncrement = () => {
-    const current = parseInt(periodSequence || "0", 10);
-    setPeriodSequence(String(current + 1).padStart(2, "0"));
-  };
-
-  const handleSequenceDecrement = () => {
-    const current = parseInt(periodSequence || "0", 10);
-    if (current > 1) {
-      setPeriodSequence(String(current - 1).padStart(2, "0"));
-    }
-  };
-
   // Validate and process files
   const validateAndProcessFiles = (files: File[]) => {
     // Validate file types
     const validFiles = files.filter(file => {
+      const fileName = file.name.toLowerCase();
       const isExcel = file.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
                      file.type === "application/vnd.ms-excel" ||
-                     file.name.endsWith(".xlsx") ||
-                     file.name.endsWith(".xls");
+                     file.type === "text/csv" ||
+                     fileName.endsWith(".xlsx") ||
+                     fileName.endsWith(".xls") ||
+                     fileName.endsWith(".csv");
 
       if (!isExcel) {
-        toast.error(`File ${file.name} không phải là file Excel`);
+        toast.error(`File ${file.name} không phải là file Excel hoặc CSV`);
         return false;
       }
 
@@ -187,6 +200,7 @@ export function ImportExcelModal({
 
     // Append to existing files instead of replacing
     setSelectedFiles(prev => [...prev, ...validFiles]);
+    setFileSuppliers(prev => [...prev, ...validFiles.map(() => null)]);
   };
 
   // File selection handler
@@ -220,23 +234,91 @@ export function ImportExcelModal({
   // Remove file handler
   const handleRemoveFile = (index: number) => {
     setSelectedFiles(files => files.filter((_, i) => i !== index));
+    setFileSuppliers(suppliers => suppliers.filter((_, i) => i !== index));
+  };
+
+  // Choose the supplier profile that reads a file
+  const handleFileSupplierChange = (index: number, value: string) => {
+    setFileSuppliers(suppliers =>
+      suppliers.map((supplierId, i) =>
+        i === index ? (value === STANDARD_TEMPLATE ? null : Number(value)) : supplierId
+      )
+    );
   };
 
   // Clear all files
   const handleClearFiles = () => {
     setSelectedFiles([]);
+    setFileSuppliers([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  // Form submission handler
+  // Form submission handler - dry run first, the import runs after confirmation
   const onSubmit = async (values: ImportFormValues) => {
     if (selectedFiles.length === 0) {
       toast.error("Vui lòng chọn ít nhất một file Excel");
       return;
     }
 
+    const unmappedIndex = fileSuppliers.findIndex(
+      (supplierId) => supplierId !== null && !profileSupplierIds.has(supplierId)
+    );
+    if (unmappedIndex !== -1) {
+      toast.error(`Vui lòng thiết lập cột cho file ${selectedFiles[unmappedIndex].name}`);
+      return;
+    }
+
+    try {
+      setImportState({ type: "previewing" });
+
+      const preview = await previewQuotationImport(selectedFiles, {
+        period: values.period,
+        region: values.region,
+        overwrite: values.overwrite,
+        fileSuppliers,
+      });
+
+      setConfirmedFiles(
+        new Set(preview.files.filter(isImportableFile).map((file) => file.fileIndex))
+      );
+      setImportState({ type: "preview", preview });
+    } catch (error) {
+      console.error("Import preview error:", error);
+      setImportState({
+        type: "error",
+        error: error instanceof Error ? error.message : "Lỗi không xác định"
+      });
+    }
+  };
+
+  const handleConfirmChange = (fileIndex: number, confirmed: boolean) => {
+    setConfirmedFiles((current) => {
+      const next = new Set(current);
+      if (confirmed) {
+        next.add(fileIndex);
+      } else {
+        next.delete(fileIndex);
+      }
+      return next;
+    });
+  };
+
+  // Import the confirmed files
+  const handleConfirmImport = async () => {
+    const values = form.getValues();
+    const fileIndexes = selectedFiles
+      .map((_, index) => index)
+      .filter((index) => confirmedFiles.has(index));
+
+    if (fileIndexes.length === 0) {
+      toast.error("Vui lòng chọn ít nhất một file để nhập");
+      return;
+    }
+
+    const files = fileIndexes.map((index) => selectedFiles[index]);
+
     try {
       setImportState({ type: "uploading", progress: 0 });
 
@@ -248,15 +330,16 @@ export function ImportExcelModal({
 
       setImportState({
         type: "processing",
-        files: selectedFiles.length,
+        files: files.length,
         current: 0
       });
 
       // Call the import action
-      const result = await importQuotationsFromExcel(selectedFiles, {
+      const result = await importQuotationsFromExcel(files, {
         period: values.period,
         region: values.region,
         overwrite: values.overwrite,
+        fileSuppliers: fileIndexes.map((index) => fileSuppliers[index] ?? null),
       });
 
       if (result.success) {
@@ -273,7 +356,8 @@ export function ImportExcelModal({
       } else {
         setImportState({
           type: "error",
-          error: result.errors.join(", ") || "Có lỗi xảy ra khi import"
+          error: result.errors.join(", ") || "Có lỗi xảy ra khi import",
+          importJobId: result.importJobId,
         });
       }
     } catch (error) {
@@ -285,12 +369,21 @@ export function ImportExcelModal({
     }
   };
 
-  const isProcessing = importState.type === "uploading" || importState.type === "processing";
+  const isProcessing =
+    importState.type === "previewing" ||
+    importState.type === "uploading" ||
+    importState.type === "processing";
+  const isPreview = importState.type === "preview";
   const canSubmit = selectedFiles.length > 0 && !isProcessing;
+  const mappingFile = mappingFileIndex !== null ? selectedFiles[mappingFileIndex] ?? null : null;
+  const mappingSupplierId = mappingFileIndex !== null ? fileSuppliers[mappingFileIndex] : null;
+  const mappingSupplier = supplierOptions.find((s) => s.id === mappingSupplierId) ?? null;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden">
+      <DialogContent
+        className={`${isPreview ? "max-w-3xl" : "max-w-2xl"} max-h-[90vh] overflow-hidden`}
+      >
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileSpreadsheet className="h-5 w-5" />
@@ -298,14 +391,17 @@ export function ImportExcelModal({
           </DialogTitle>
           <DialogDescription>
             Tải lên các file Excel chứa báo giá từ nhà cung cấp.
-            Mỗi file phải có sheet "Thông tin báo giá" và "Danh sách sản phẩm".
+            File theo mẫu chuẩn phải có sheet "Thông tin báo giá" và "Danh sách sản phẩm".
+            File tổng hợp nhiều NCC: mỗi sheet đặt tên theo mã NCC. File CSV đặt tên theo mã NCC.
+            File theo mẫu riêng của nhà cung cấp được đọc theo cấu hình cột đã lưu.
+            File được kiểm tra và so sánh với báo giá hiện có trước khi import.
           </DialogDescription>
         </DialogHeader>
 
         <ScrollArea className="max-h-[60vh] pr-4">
           <div className="space-y-6">
             {/* Import Progress */}
-            {importState.type !== "idle" && (
+            {importState.type !== "idle" && importState.type !== "preview" && (
               <Card>
                 <CardContent className="pt-6">
                   <ImportProgress state={importState} />
@@ -313,188 +409,197 @@ export function ImportExcelModal({
               </Card>
             )}
 
+            {/* Dry-run result, confirmed per file */}
+            {importState.type === "preview" && (
+              <ImportPreview
+                preview={importState.preview}
+                confirmedFiles={confirmedFiles}
+                onConfirmChange={handleConfirmChange}
+              />
+            )}
+
             {/* File Selection with Drag & Drop */}
-            <div className="space-y-4">
-              <div>
-                <label className="text-sm font-medium">Chọn file Excel</label>
-                <div
-                  className={`mt-2 border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
-                    isDragActive
-                      ? "border-blue-500 bg-blue-50"
-                      : "border-gray-300 hover:border-gray-400"
-                  } ${isProcessing ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
-                  onDragOver={handleDragOver}
-                  onDragLeave={handleDragLeave}
-                  onDrop={handleDrop}
-                  onClick={() => !isProcessing && fileInputRef.current?.click()}
-                >
-                  <Upload className={`h-8 w-8 mx-auto mb-2 ${isDragActive ? "text-blue-600" : "text-gray-400"}`} />
-                  <p className="text-sm font-medium mb-1">
-                    {isDragActive ? "Thả file vào đây..." : "Kéo thả file Excel hoặc nhấn để chọn"}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    Hỗ trợ file .xlsx, .xls
-                  </p>
+            {!isPreview && (
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium">Chọn file Excel / CSV</label>
+                  <div
+                    className={`mt-2 border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                      isDragActive
+                        ? "border-blue-500 bg-blue-50"
+                        : "border-gray-300 hover:border-gray-400"
+                    } ${isProcessing ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    onDrop={handleDrop}
+                    onClick={() => !isProcessing && fileInputRef.current?.click()}
+                  >
+                    <Upload className={`h-8 w-8 mx-auto mb-2 ${isDragActive ? "text-blue-600" : "text-gray-400"}`} />
+                    <p className="text-sm font-medium mb-1">
+                      {isDragActive ? "Thả file vào đây..." : "Kéo thả file Excel hoặc nhấn để chọn"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Hỗ trợ file .xlsx, .xls, .csv
+                    </p>
+                  </div>
+                  {selectedFiles.length > 0 && (
+                    <div className="mt-2 flex justify-end">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleClearFiles}
+                        disabled={isProcessing}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Xóa tất cả
+                      </Button>
+                    </div>
+                  )}
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept=".xlsx,.xls,.csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,text/csv"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
                 </div>
+
+                {/* Selected Files */}
                 {selectedFiles.length > 0 && (
-                  <div className="mt-2 flex justify-end">
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={handleClearFiles}
-                      disabled={isProcessing}
-                    >
-                      <X className="h-4 w-4 mr-1" />
-                      Xóa tất cả
-                    </Button>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">
+                      File đã chọn ({selectedFiles.length})
+                    </label>
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {selectedFiles.map((file, index) => {
+                        const supplierId = fileSuppliers[index] ?? null;
+                        const hasProfile = supplierId !== null && profileSupplierIds.has(supplierId);
+
+                        return (
+                          <div key={index} className="space-y-2 p-2 bg-muted rounded-md">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2 min-w-0 flex-1">
+                                <FileSpreadsheet className="h-4 w-4 text-green-600" />
+                                <span className="text-sm truncate" title={file.name}>
+                                  {file.name}
+                                </span>
+                                <Badge variant="outline" className="text-xs">
+                                  {(file.size / 1024).toFixed(0)} KB
+                                </Badge>
+                              </div>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveFile(index)}
+                                disabled={isProcessing}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value={supplierId !== null ? String(supplierId) : STANDARD_TEMPLATE}
+                                onValueChange={(value) => handleFileSupplierChange(index, value)}
+                                disabled={isProcessing}
+                              >
+                                <SelectTrigger className="h-8 flex-1 bg-background">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={STANDARD_TEMPLATE}>Mẫu chuẩn</SelectItem>
+                                  {supplierOptions.map((supplier) => (
+                                    <SelectItem key={supplier.id} value={String(supplier.id)}>
+                                      {supplier.code} - {supplier.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {supplierId !== null && (
+                                <>
+                                  <Badge variant={hasProfile ? "secondary" : "destructive"} className="text-xs">
+                                    {hasProfile ? "Có cấu hình nhập" : "Chưa có cấu hình"}
+                                  </Badge>
+                                  <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8"
+                                    onClick={() => setMappingFileIndex(index)}
+                                    disabled={isProcessing}
+                                  >
+                                    <Settings2 className="h-3 w-3 mr-1" />
+                                    Thiết lập cột
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
                 )}
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  multiple
-                  accept=".xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
-                  onChange={handleFileSelect}
-                  className="hidden"
-                />
               </div>
-
-              {/* Selected Files */}
-              {selectedFiles.length > 0 && (
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">
-                    File đã chọn ({selectedFiles.length})
-                  </label>
-                  <div className="space-y-2 max-h-32 overflow-y-auto">
-                    {selectedFiles.map((file, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between p-2 bg-muted rounded-md"
-                      >
-                        <div className="flex items-center gap-2 min-w-0 flex-1">
-                          <FileSpreadsheet className="h-4 w-4 text-green-600" />
-                          <span className="text-sm truncate" title={file.name}>
-                            {file.name}
-                          </span>
-                          <Badge variant="outline" className="text-xs">
-                            {(file.size / 1024).toFixed(0)} KB
-                          </Badge>
-                        </div>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleRemoveFile(index)}
-                          disabled={isProcessing}
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
+            )}
 
             {/* Import Form */}
-            {selectedFiles.length > 0 && (
+            {selectedFiles.length > 0 && !isPreview && (
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  {/* Period Field - 3-Part Input */}
+                  {/* Period Field */}
                   <FormField
                     control={form.control}
                     name="period"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>
-                          Kỳ báo giá *
-                          {periodYear && periodMonth && periodSequence && (
-                            <span className="ml-2 font-normal text-muted-foreground">
-                              ({periodYear}-{periodMonth}-{periodSequence})
-                            </span>
-                          )}
-                        </FormLabel>
-                        <div className="flex items-center gap-2">
-                          {/* Year Input */}
-                          <div className="flex-1">
-                            <label className="text-xs text-muted-foreground mb-1 block">
-                              Năm (YYYY)
-                            </label>
-                            <Input
-                              type="text"
-                              placeholder="2024"
-                              value={periodYear}
-                              onChange={handleYearChange}
-                              disabled={isProcessing}
-                              className="text-center"
-                              maxLength={4}
-                            />
-                          </div>
-
-                          <span className="text-xl text-muted-foreground pt-5">-</span>
-
-                          {/* Month Input */}
-                          <div className="flex-1">
-                            <label className="text-xs text-muted-foreground mb-1 block">
-                              Tháng (MM)
-                            </label>
-                            <Input
-                              type="text"
-                              placeholder="01"
-                              value={periodMonth}
-                              onChange={handleMonthChange}
-                              disabled={isProcessing}
-                              className="text-center"
-                              maxLength={2}
-                            />
-                          </div>
+                    render={({ field }) => {
+                      const selectedPeriod = importPeriods.find((p) => p.code === field.value);
 
-                          <span className="text-xl text-muted-foreground pt-5">-</span>
-
-                          {/* Sequence Input with Up/Down Buttons */}
-                          <div className="flex-1">
-                            <label className="text-xs text-muted-foreground mb-1 block">
-                              Đợt (XX)
-                            </label>
-                            <div className="flex items-center gap-1">
-                              <Input
-                                type="text"
-                                placeholder="01"
-                                value={periodSequence}
-                                onChange={handleSequenceChange}
-                                disabled={isProcessing}
-                                className="text-center"
-                                maxLength={2}
-                              />
-                              <div className="flex flex-col gap-0.5">
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={handleSequenceIncrement}
-                                  disabled={isProcessing}
-                                  className="h-5 w-6 p-0"
-                                >
-                                  <ChevronUp className="h-3 w-3" />
-                                </Button>
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={handleSequenceDecrement}
-                                  disabled={isProcessing || parseInt(periodSequence || "0", 10) <= 1}
-                                  className="h-5 w-6 p-0"
-                                >
-                                  <ChevronDown className="h-3 w-3" />
-                                </Button>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                      return (
+                        <FormItem>
+                          <FormLabel>Kỳ báo giá *</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                            disabled={isProcessing}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue
+                                  placeholder={
+                                    importPeriods.length === 0
+                                      ? "Không có kỳ nào đang nhận báo giá"
+                                      : "Chọn kỳ báo giá..."
+                                  }
+                                />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {importPeriods.map((p) => (
+                                <SelectItem key={p.code} value={p.code}>
+                                  {p.code}
+                                  {p.name && ` - ${p.name}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {selectedPeriod && !selectedPeriod.acceptsImports ? (
+                            <FormDescription>
+                              Kỳ đã ngừng nhận báo giá mới - chỉ nhận báo giá lại cho báo giá đang đàm phán
+                            </FormDescription>
+                          ) : selectedPeriod?.submissionDeadline && (
+                            <FormDescription>
+                              Hạn nộp báo giá:{" "}
+                              {format(new Date(selectedPeriod.submissionDeadline), "dd/MM/yyyy HH:mm", {
+                                locale: vi,
+                              })}
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
                   />
 
                   {/* Region Field */}
@@ -557,25 +662,55 @@ export function ImportExcelModal({
           >
             Hủy
           </Button>
-          <Button
-            type="submit"
-            onClick={form.handleSubmit(onSubmit)}
-            disabled={!canSubmit}
-            className="min-w-[120px]"
-          >
-            {isProcessing ? (
-              <div className="flex items-center gap-2">
-                <div className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-                Đang xử lý...
-              </div>
-            ) : (
-              <>
+          {isPreview ? (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setImportState({ type: "idle" })}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Quay lại
+              </Button>
+              <Button
+                type="button"
+                onClick={handleConfirmImport}
+                disabled={confirmedFiles.size === 0}
+                className="min-w-[120px]"
+              >
                 <Upload className="mr-2 h-4 w-4" />
-                Import ({selectedFiles.length})
-              </>
-            )}
-          </Button>
+                Xác nhận import ({confirmedFiles.size})
+              </Button>
+            </>
+          ) : (
+            <Button
+              type="submit"
+              onClick={form.handleSubmit(onSubmit)}
+              disabled={!canSubmit}
+              className="min-w-[120px]"
+            >
+              {isProcessing ? (
+                <div className="flex items-center gap-2">
+                  <div className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                  Đang xử lý...
+                </div>
+              ) : (
+                <>
+                  <ListChecks className="mr-2 h-4 w-4" />
+                  Kiểm tra ({selectedFiles.length})
+                </>
+              )}
+            </Button>
+          )}
         </DialogFooter>
+
+        <ColumnMappingWizard
+          open={mappingFileIndex !== null}
+          onOpenChange={(wizardOpen) => !wizardOpen && setMappingFileIndex(null)}
+          file={mappingFile}
+          supplier={mappingSupplier}
+          onSaved={loadProfiles}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -584,6 +719,14 @@ export function ImportExcelModal({
 // Import progress component
 function ImportProgress({ state }: { state: ImportState }) {
   switch (state.type) {
+    case "previewing":
+      return (
+        <div className="flex items-center gap-2">
+          <div className="h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+          <span className="text-sm">Đang kiểm tra file và so sánh với báo giá hiện có...</span>
+        </div>
+      );
+
     case "uploading":
       return (
         <div className="space-y-2">
@@ -632,6 +775,12 @@ function ImportProgress({ state }: { state: ImportState }) {
               <span className="text-muted-foreground">Tổng sản phẩm:</span>
               <span className="font-medium ml-1">{state.result.totalItems}</span>
             </div>
+            {state.result.flaggedItems > 0 && (
+              <div>
+                <span className="text-muted-foreground">Giá bất thường:</span>
+                <span className="font-medium ml-1 text-yellow-600">{state.result.flaggedItems}</span>
+              </div>
+            )}
           </div>
           {state.result.warnings.length > 0 && (
             <div className="space-y-1">
@@ -654,6 +803,14 @@ function ImportProgress({ state }: { state: ImportState }) {
             <span className="font-medium">Có lỗi xảy ra</span>
           </div>
           <p className="text-sm text-muted-foreground">{state.error}</p>
+          {state.importJobId && (
+            <Link
+              href={`/lich-su-nhap?job=${state.importJobId}`}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              Xem lần nhập trong lịch sử và tải file lỗi
+            </Link>
+          )}
         </div>
       );
 
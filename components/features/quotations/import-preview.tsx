@@ -0,0 +1,234 @@
+"use client";
+
+import * as React from "react";
+import { AlertCircle, AlertTriangle, FileSpreadsheet } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn, formatNumber, formatPercentage } from "@/lib/utils";
+import {
+  summarizeQuotationDiff,
+  type QuotationDiffLine,
+  type QuotationDiffStatus,
+} from "@/lib/utils/quotation-diff";
+import type {
+  ImportFilePreviewResult,
+  ImportPreviewResult,
+  QuotationImportAction,
+  QuotationImportPreview,
+} from "@/lib/types/quotations.types";
+
+const ACTION_LABELS: Record<QuotationImportAction, { label: string; className: string }> = {
+  create: { label: "Tạo mới", className: "bg-green-100 text-green-800" },
+  replace: { label: "Ghi đè", className: "bg-amber-100 text-amber-800" },
+  requote: { label: "Cập nhật giá đàm phán", className: "bg-blue-100 text-blue-800" },
+  blocked: { label: "Không thể nhập", className: "bg-red-100 text-red-800" },
+};
+
+const DIFF_STATUS_LABELS: Record<QuotationDiffStatus, { label: string; className: string }> = {
+  added: { label: "Thêm", className: "bg-green-100 text-green-800" },
+  removed: { label: "Bỏ", className: "bg-red-100 text-red-800" },
+  changed: { label: "Đổi", className: "bg-amber-100 text-amber-800" },
+  unchanged: { label: "Giữ nguyên", className: "bg-gray-100 text-gray-700" },
+};
+
+/**
+ * Whether a previewed file can be imported: readable and every supplier
+ * quotation in it passes validation
+ */
+export function isImportableFile(file: ImportFilePreviewResult): boolean {
+  return (
+    file.errors.length === 0 &&
+    file.quotations.length > 0 &&
+    file.quotations.every(
+      (quotation) => quotation.action !== null && quotation.action !== "blocked"
+    )
+  );
+}
+
+interface ImportPreviewProps {
+  preview: ImportPreviewResult;
+  confirmedFiles: Set<number>;
+  onConfirmChange: (fileIndex: number, confirmed: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Dry-run result of a quotation import: per file, what happens to each
+ * supplier quotation and the per-product diff, with a confirm checkbox
+ */
+export function ImportPreview({
+  preview,
+  confirmedFiles,
+  onConfirmChange,
+  disabled,
+}: ImportPreviewProps) {
+  return (
+    <div className="space-y-4">
+      {preview.errors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 mt-0.5" />
+          <span>{preview.errors.join(", ")}</span>
+        </div>
+      )}
+
+      {preview.files.map((file) => {
+        const importable = isImportableFile(file);
+
+        return (
+          <div key={file.fileIndex} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={confirmedFiles.has(file.fileIndex)}
+                onCheckedChange={(checked) => onConfirmChange(file.fileIndex, checked === true)}
+                disabled={disabled || !importable}
+              />
+              <FileSpreadsheet className="h-4 w-4 text-green-600" />
+              <span className="text-sm font-medium truncate" title={file.fileName}>
+                {file.fileName}
+              </span>
+              {!importable && (
+                <Badge variant="destructive" className="text-xs">
+                  Có lỗi
+                </Badge>
+              )}
+            </div>
+
+            {file.errors.length > 0 && (
+              <ul className="text-xs text-destructive space-y-1">
+                {file.errors.map((error, index) => (
+                  <li key={index}>• {error}</li>
+                ))}
+              </ul>
+            )}
+
+            {file.quotations.map((quotation, index) => (
+              <QuotationPreview key={index} quotation={quotation} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function QuotationPreview({ quotation }: { quotation: QuotationImportPreview }) {
+  const summary = summarizeQuotationDiff(quotation.diff);
+  // Unchanged products are only counted
+  const visibleLines = quotation.diff.filter((line) => line.status !== "unchanged");
+  const action = quotation.action ? ACTION_LABELS[quotation.action] : null;
+
+  return (
+    <div className="space-y-2 pl-6">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">
+          {quotation.supplierCode}
+          {quotation.supplierName && ` - ${quotation.supplierName}`}
+        </span>
+        {quotation.sheetName && (
+          <span className="text-xs text-muted-foreground">(sheet {quotation.sheetName})</span>
+        )}
+        {action && (
+          <Badge variant="outline" className={cn("text-xs border-0", action.className)}>
+            {action.label}
+          </Badge>
+        )}
+        {quotation.action && quotation.action !== "blocked" && (
+          <span className="text-xs text-muted-foreground">
+            {quotation.action === "create"
+              ? `${quotation.totalItems} sản phẩm`
+              : `+${summary.added} thêm, -${summary.removed} bỏ, ${summary.changed} đổi, ${summary.unchanged} giữ nguyên`}
+          </span>
+        )}
+      </div>
+
+      {quotation.errors.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {quotation.errors.map((error, index) => (
+            <li key={index}>• {error}</li>
+          ))}
+        </ul>
+      )}
+
+      {(quotation.anomalyWarnings.length > 0 || quotation.warnings.length > 0) && (
+        <ul className="text-xs text-yellow-700 space-y-1">
+          {quotation.anomalyWarnings.map((warning, index) => (
+            <li key={`anomaly-${index}`} className="flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              Giá bất thường - {warning}
+            </li>
+          ))}
+          {quotation.warnings.map((warning, index) => (
+            <li key={`warning-${index}`}>• {warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {quotation.action !== "create" && visibleLines.length > 0 && (
+        <div className="rounded-md border max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mã SP</TableHead>
+                <TableHead>Thay đổi</TableHead>
+                <TableHead className="text-right">Giá cũ</TableHead>
+                <TableHead className="text-right">Giá mới</TableHead>
+                <TableHead className="text-right">%</TableHead>
+                <TableHead className="text-right">VAT</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLines.map((line) => (
+                <DiffRow key={line.productCode} line={line} />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DiffRow({ line }: { line: QuotationDiffLine }) {
+  const status = DIFF_STATUS_LABELS[line.status];
+  const percent = line.priceChangePercent;
+
+  return (
+    <TableRow>
+      <TableCell className="font-mono text-xs">{line.productCode}</TableCell>
+      <TableCell>
+        <Badge variant="outline" className={cn("text-xs border-0", status.className)}>
+          {status.label}
+        </Badge>
+      </TableCell>
+      <TableCell className="text-right text-xs">{formatNumber(line.oldPrice)}</TableCell>
+      <TableCell className={cn("text-right text-xs", line.priceChanged && "font-medium")}>
+        {formatNumber(line.newPrice)}
+      </TableCell>
+      <TableCell
+        className={cn(
+          "text-right text-xs",
+          percent !== null && percent > 0 && "text-red-600",
+          percent !== null && percent < 0 && "text-green-600"
+        )}
+      >
+        {percent !== null ? `${percent > 0 ? "+" : ""}${formatPercentage(percent)}` : "-"}
+      </TableCell>
+      <TableCell className={cn("text-right text-xs", line.vatChanged && "font-medium")}>
+        {line.vatChanged
+          ? `${line.oldVatRate ?? "-"}% → ${line.newVatRate ?? "-"}%`
+          : line.newVatRate !== null || line.oldVatRate !== null
+            ? `${line.newVatRate ?? line.oldVatRate}%`
+            : "-"}
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { CheckCircle } from "lucide-react";
+
+import type { NegotiationRoundEntry } from "@/lib/types/quote-comparison.types";
+import { cn, formatNumber } from "@/lib/utils";
+
+interface NegotiationTimelineProps {
+  rounds: NegotiationRoundEntry[];
+  initialPrice?: number | null;
+  approvedRound?: number | null;
+  compact?: boolean; // Compact layout for tooltips - hides notes and recorder
+  className?: string;
+}
+
+/**
+ * Timeline of negotiation rounds for one quote item
+ * Round 0 is the initial quoted price; the approved round is highlighted.
+ */
+export function NegotiationTimeline({
+  rounds,
+  initialPrice,
+  approvedRound,
+  compact = false,
+  className,
+}: NegotiationTimelineProps) {
+  const entries = [
+    ...(initialPrice !== undefined && initialPrice !== null
+      ? [{ roundNumber: 0, offeredPrice: initialPrice } as const]
+      : []),
+    ...rounds,
+  ];
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className={cn("relative border-l border-gray-300 ml-1", className)}>
+      {entries.map((entry) => {
+        const round = "recordedAt" in entry ? entry : null;
+        const isApproved = approvedRound === entry.roundNumber;
+
+        return (
+          <li key={entry.roundNumber} className={compact ? "ml-3 mb-1" : "ml-4 mb-3"}>
+            <span
+              className={cn(
+                "absolute -left-1 mt-1.5 h-2 w-2 rounded-full",
+                isApproved ? "bg-green-600" : "bg-gray-400"
+              )}
+            />
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium">
+                {entry.roundNumber === 0 ? "Báo giá ban đầu" : `Vòng ${entry.roundNumber}`}
+              </span>
+              <span className={cn("font-semibold", isApproved && "text-green-600")}>
+                {formatNumber(entry.offeredPrice)}
+              </span>
+              {round?.targetPrice !== null && round?.targetPrice !== undefined && (
+                <span className="text-muted-foreground">
+                  (mục tiêu {formatNumber(round.targetPrice)})
+                </span>
+              )}
+              {isApproved && <CheckCircle className="h-3 w-3 text-green-600" />}
+            </div>
+            {round && !compact && (
+              <div className="text-xs text-muted-foreground">
+                {format(new Date(round.recordedAt), "dd/MM/yyyy HH:mm", { locale: vi })}
+                {round.recordedByName && ` • ${round.recordedByName}`}
+                {round.note && <div className="italic">{round.note}</div>}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
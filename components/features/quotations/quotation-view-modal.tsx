@@ -1,5 +1,9 @@
 "use client";
 
+import * as React from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
 import {
   Dialog,
   DialogContent,
@@ -18,6 +22,18 @@ import {
 } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getQuotationVersions } from "@/lib/actions/quotations.actions";
+import type {
+  QuotationVersionEntry,
+  QuotationVersionSource,
+} from "@/lib/types/quotations.types";
 import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
 import type { Quotation } from "@/lib/hooks/use-quotations";
 
@@ -47,69 +63,55 @@ const formatPeriod = (period: string): string => {
   }
 };
 
-// Mock quote items data structure (to be replaced with actual data in future)
-interface QuoteItem {
-  id: number;
-  productCode: string;
-  productName: string;
-  specification: string;
-  unit: string;
-  quantity: number;
-  unitPrice: number;
-  totalPrice: number;
-  vatPercentage: number;
-  notes?: string;
-}
-
-// Mock data for demonstration (will be replaced with actual API data)
-const getMockQuoteItems = (quotationId: string): QuoteItem[] => [
-  {
-    id: 1,
-    productCode: "SP001",
-    productName: "Thịt heo ba chỉ",
-    specification: "Thịt tươi, đông lạnh",
-    unit: "kg",
-    quantity: 100,
-    unitPrice: 120000,
-    totalPrice: 12000000,
-    vatPercentage: 10,
-    notes: "Chất lượng cao",
-  },
-  {
-    id: 2,
-    productCode: "SP002",
-    productName: "Gạo ST25",
-    specification: "Gạo thơm cao cấp",
-    unit: "bao",
-    quantity: 50,
-    unitPrice: 850000,
-    totalPrice: 42500000,
-    vatPercentage: 5,
-  },
-  {
-    id: 3,
-    productCode: "SP003",
-    productName: "Dầu ăn Neptune",
-    specification: "Chai 1L",
-    unit: "chai",
-    quantity: 200,
-    unitPrice: 45000,
-    totalPrice: 9000000,
-    vatPercentage: 10,
-  },
-];
+const VERSION_SOURCE_LABELS: Record<QuotationVersionSource, string> = {
+  excel_import: "Nhập Excel",
+  supplier_portal: "Cổng nhà cung cấp",
+};
 
 export function QuotationViewModal({
   isOpen,
   onClose,
   quotation,
 }: QuotationViewModalProps) {
+  const [versions, setVersions] = React.useState<QuotationVersionEntry[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = React.useState<number | null>(null);
+  const [loadingVersions, setLoadingVersions] = React.useState(false);
+
+  // Load the versions when the modal opens, the current one selected
+  React.useEffect(() => {
+    if (!isOpen || !quotation) {
+      setVersions([]);
+      setSelectedVersionId(null);
+      return;
+    }
+
+    setLoadingVersions(true);
+    getQuotationVersions(quotation.id)
+      .then((result) => {
+        if ("error" in result) {
+          toast.error(result.error);
+          return;
+        }
+        setVersions(result);
+        setSelectedVersionId(result[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error("Error fetching quotation versions:", error);
+        toast.error("Có lỗi xảy ra khi tải phiên bản báo giá");
+      })
+      .finally(() => setLoadingVersions(false));
+  }, [isOpen, quotation]);
+
   if (!quotation) {
     return null;
   }
 
-  // Get mock quote items (will be replaced with actual data)
-  const quoteItems = getMockQuoteItems(quotation.quotationId);
+  const selectedVersion =
+    versions.find((version) => version.id === selectedVersionId) ?? null;
+  const quoteItems = (selectedVersion?.items ?? []).map((item) => ({
+    ...item,
+    totalPrice: (item.quantity ?? 1) * item.price,
+  }));
 
   // Calculate totals
   const subtotal = quoteItems.reduce((sum, item) => sum + item.totalPrice, 0);
@@ -181,7 +183,11 @@ export function QuotationViewModal({
                   <p className="text-sm font-medium text-muted-foreground">
                     Nhóm hàng
                   </p>
-                  <p className="font-semibold">{quotation.category}</p>
+                  <p className="font-semibold">
+                    {quotation.categories.length > 0
+                      ? quotation.categories.join(", ")
+                      : "-"}
+                  </p>
                 </div>
 
                 <div className="space-y-1">
@@ -212,10 +218,70 @@ export function QuotationViewModal({
 
           {/* Quote Items Table */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
               <CardTitle className="text-lg">Danh sách sản phẩm</CardTitle>
+              {versions.length > 0 && (
+                <Select
+                  value={selectedVersionId !== null ? String(selectedVersionId) : undefined}
+                  onValueChange={(value) => setSelectedVersionId(Number(value))}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Chọn phiên bản" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.id)}>
+                        v{version.versionNumber}
+                        {version.isCurrent && " (hiện tại)"}
+                        {" - "}
+                        {formatDate(version.createdAt)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </CardHeader>
             <CardContent>
+              {loadingVersions ? (
+                <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Đang tải phiên bản báo giá...
+                </div>
+              ) : versions.length === 0 ? (
+                <p className="text-sm text-muted-foreground mb-4">
+                  Báo giá được nhập trước khi có lịch sử phiên bản - không có dữ liệu phiên bản.
+                </p>
+              ) : (
+                selectedVersion && (
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mb-4 text-sm text-muted-foreground">
+                    <span>
+                      {VERSION_SOURCE_LABELS[selectedVersion.source]} bởi{" "}
+                      {selectedVersion.createdByName || "N/A"}
+                    </span>
+                    <span>Ngày báo giá: {formatDate(selectedVersion.quoteDate)}</span>
+                    {selectedVersion.sourceFileName &&
+                      (selectedVersion.downloadPath ? (
+                        <a
+                          href={selectedVersion.downloadPath}
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <Download className="h-3 w-3" />
+                          {selectedVersion.sourceFileName}
+                        </a>
+                      ) : (
+                        <span title="File gốc đã hết hạn lưu trữ">
+                          {selectedVersion.sourceFileName} (đã hết hạn)
+                        </span>
+                      ))}
+                    {!selectedVersion.isCurrent && (
+                      <Badge variant="outline">
+                        Phiên bản cũ - so sánh và phê duyệt dùng phiên bản hiện tại
+                      </Badge>
+                    )}
+                  </div>
+                )
+              )}
+
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
@@ -233,7 +299,7 @@ export function QuotationViewModal({
                   <TableBody>
                     {quoteItems.length > 0 ? (
                       quoteItems.map((item) => (
-                        <TableRow key={item.id}>
+                        <TableRow key={item.productCode}>
                           <TableCell className="font-medium">
                             {item.productCode}
                           </TableCell>
@@ -248,14 +314,16 @@ export function QuotationViewModal({
                             </div>
                           </TableCell>
                           <TableCell className="text-sm">
-                            {item.specification}
+                            {item.specification || "-"}
                           </TableCell>
                           <TableCell>{item.unit}</TableCell>
                           <TableCell className="text-right">
-                            {item.quantity.toLocaleString("vi-VN")}
+                            {item.quantity !== null
+                              ? item.quantity.toLocaleString("vi-VN")
+                              : "-"}
                           </TableCell>
                           <TableCell className="text-right">
-                            {item.unitPrice.toLocaleString("vi-VN")} ₫
+                            {item.price.toLocaleString("vi-VN")} ₫
                           </TableCell>
                           <TableCell className="text-center">
                             {item.vatPercentage}%
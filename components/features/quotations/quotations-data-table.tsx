@@ -14,7 +14,7 @@ import {
   getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
-import { ArrowUpDown, Eye, GitCompare, MoreHorizontal, X } from "lucide-react";
+import { ArrowUpDown, Eye, GitCompare, MoreHorizontal, Undo2, X } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -48,7 +48,9 @@ import {
 } from "@/lib/actions/quotations.actions";
 import { type PermissionSet } from "@/lib/config/roles";
 import { ImportExcelModal } from "./import-excel-modal";
+import { SupplierPortalLinksDialog } from "./supplier-portal-links-dialog";
 import { QuoteDetailsModal } from "./quote-details-modal";
+import { RevokeApprovalDialog } from "./revoke-approval-dialog";
 import {
   QuotationsTableToolbar,
   getStatusLabel,
@@ -205,6 +207,7 @@ function QuotationActions({
   onRefresh: () => void;
 }) {
   const router = useRouter();
+  const [revokeOpen, setRevokeOpen] = React.useState(false);
 
   const handleViewDetails = () => {
     onViewDetails(quotation);
@@ -238,6 +241,9 @@ function QuotationActions({
   const canCancel =
     (permissions?.canApproveQuotes ?? false) &&
     (quotation.status === "pending" || quotation.status === "negotiation");
+  const canRevoke =
+    (permissions?.canApproveQuotes ?? false) &&
+    (quotation.status === "approved" || quotation.status === "partially_approved");
 
   return (
     <>
@@ -262,7 +268,7 @@ function QuotationActions({
               So sánh
             </DropdownMenuItem>
           )}
-          {canViewDetails && canCancel && <DropdownMenuSeparator />}
+          {canViewDetails && (canCancel || canRevoke) && <DropdownMenuSeparator />}
           {canCancel && (
             <DropdownMenuItem
               onClick={handleCancel}
@@ -272,8 +278,26 @@ function QuotationActions({
               Hủy báo giá
             </DropdownMenuItem>
           )}
+          {canRevoke && (
+            <DropdownMenuItem
+              onClick={() => setRevokeOpen(true)}
+              className="text-destructive"
+            >
+              <Undo2 className="mr-2 h-4 w-4" />
+              Thu hồi phê duyệt
+            </DropdownMenuItem>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
+
+      <RevokeApprovalDialog
+        quotation={revokeOpen ? quotation : null}
+        onOpenChange={setRevokeOpen}
+        onRevoked={() => {
+          setRevokeOpen(false);
+          onRefresh();
+        }}
+      />
     </>
   );
 }
@@ -311,6 +335,7 @@ export function QuotationsDataTable() {
 
   // Modal states - CENTRALIZED STATE MANAGEMENT like Suppliers
   const [showImportModal, setShowImportModal] = React.useState(false);
+  const [showPortalLinks, setShowPortalLinks] = React.useState(false);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = React.useState(false);
   const [selectedQuotation, setSelectedQuotation] =
     React.useState<Quotation | null>(null);
@@ -500,6 +525,7 @@ export function QuotationsDataTable() {
         hasActiveFiltersOnly={hasActiveFiltersOnly}
         table={table}
         onImportClick={() => setShowImportModal(true)}
+        onPortalLinksClick={() => setShowPortalLinks(true)}
         availablePeriods={availablePeriods}
         availableSuppliers={availableSuppliers}
         availableCategories={availableCategories}
@@ -573,6 +599,13 @@ export function QuotationsDataTable() {
         onSuccess={handleImportSuccess}
       />
 
+      {/* Supplier Portal Links */}
+      <SupplierPortalLinksDialog
+        open={showPortalLinks}
+        onOpenChange={setShowPortalLinks}
+        suppliers={availableSuppliers}
+      />
+
       {/* Details Modal - CENTRALIZED like Suppliers pattern */}
       <QuoteDetailsModal
         quotationId={selectedQuotation?.id || null}
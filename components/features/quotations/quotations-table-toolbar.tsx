@@ -28,7 +28,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { DataTableToolbar } from "@/components/ui/data-table-toolbar";
-import { FileSpreadsheet } from "lucide-react";
+import { FileSpreadsheet, Link2 } from "lucide-react";
 import type { Quotation } from "@/lib/hooks/use-quotations";
 
 // Single source of truth for status options - used in both filters and data display
@@ -36,7 +36,9 @@ export const statusOptions = [
   { value: "all", label: "Tất cả trạng thái" },
   { value: "pending", label: "Chờ Duyệt" },
   { value: "approved", label: "Đã Duyệt" },
+  { value: "partially_approved", label: "Duyệt một phần" },
   { value: "negotiation", label: "Đàm phán" },
+  { value: "pending_approval", label: "Chờ phê duyệt" },
   { value: "cancelled", label: "Đã Hủy" },
 ] as const;
 
@@ -72,6 +74,7 @@ interface QuotationsTableToolbarProps {
 
   // Actions
   onImportClick: () => void;
+  onPortalLinksClick: () => void;
 
   // Available filter options
   availablePeriods: string[];
@@ -97,6 +100,7 @@ export function QuotationsTableToolbar({
   hasActiveFiltersOnly = false,
   table,
   onImportClick,
+  onPortalLinksClick,
   availablePeriods,
   availableSuppliers,
   availableCategories,
@@ -182,6 +186,12 @@ export function QuotationsTableToolbar({
             </Tooltip>
           </TooltipProvider>
 
+          {/* Supplier portal links */}
+          <Button variant="outline" onClick={onPortalLinksClick}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Link báo giá NCC
+          </Button>
+
           {/* Import Button - PRIMARY ACTION */}
           <Button onClick={onImportClick}>
             <FileSpreadsheet className="mr-2 h-4 w-4" />
@@ -1,9 +1,10 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { format } from "date-fns";
 import { vi } from "date-fns/locale";
-import { FileText, Calendar, MapPin, Building2, Package, Eye, X } from "lucide-react";
+import { FileText, Calendar, MapPin, Building2, Package, Eye, X, History } from "lucide-react";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
@@ -34,6 +35,7 @@ import {
 } from "@/components/ui/tooltip";
 
 import { PriceBadge } from "@/components/ui/price-badge";
+import { NegotiationTimeline } from "@/components/features/quotations/negotiation-timeline";
 import { getQuotationDetails } from "@/lib/actions/quotations.actions";
 import type { QuotationDetailsWithItems } from "@/lib/types/quotations.types";
 import { getStatusLabel, getStatusClassName } from "@/lib/utils/status-styles";
@@ -57,6 +59,19 @@ export function QuoteDetailsModal({
   onOpenChange,
 }: QuoteDetailsModalProps) {
   const [state, setState] = React.useState<LoadingState>({ type: "idle" });
+  const [expandedItemIds, setExpandedItemIds] = React.useState<Set<number>>(new Set());
+
+  const toggleItemHistory = (itemId: number) => {
+    setExpandedItemIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
 
   // Fetch quotation details when modal opens
   React.useEffect(() => {
@@ -91,6 +106,8 @@ export function QuoteDetailsModal({
   }, [open, quotationId]);
 
   const quotation = state.type === "success" ? state.data : null;
+  const isApprovedQuotation =
+    quotation?.status === "approved" || quotation?.status === "partially_approved";
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -213,6 +230,22 @@ export function QuoteDetailsModal({
                         </div>
                       </div>
 
+                      {quotation.importJobId && (
+                        <div className="space-y-1">
+                          <label className="text-sm font-medium text-muted-foreground">
+                            Lần nhập tạo báo giá
+                          </label>
+                          <div className="text-sm">
+                            <Link
+                              href={`/lich-su-nhap?job=${quotation.importJobId}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              #{quotation.importJobId}
+                            </Link>
+                          </div>
+                        </div>
+                      )}
+
                     </div>
                   </CardContent>
                 </Card>
@@ -269,7 +302,7 @@ export function QuoteDetailsModal({
 
                               // Smart price selection based on quotation status
                               let displayPrice = 0;
-                              if (quotation.status === 'approved' && item.approvedPrice) {
+                              if (isApprovedQuotation && item.approvedPrice) {
                                 displayPrice = parseFloat(String(item.approvedPrice)) || 0;
                               } else if (quotation.status === 'negotiation' && item.negotiatedPrice) {
                                 displayPrice = parseFloat(String(item.negotiatedPrice)) || 0;
@@ -282,8 +315,12 @@ export function QuoteDetailsModal({
                               const vatAmount = subtotal * (vatRate / 100);
                               const totalPrice = subtotal + vatAmount;
 
+                              const rounds = item.negotiationHistory ?? [];
+                              const isHistoryExpanded = expandedItemIds.has(item.id);
+
                             return (
-                              <tr key={item.id} className="border-b transition-colors hover:bg-muted/50">
+                              <React.Fragment key={item.id}>
+                              <tr className="border-b transition-colors hover:bg-muted/50">
                                 <TableCell className="text-center font-medium text-sm">
                                   {index + 1}
                                 </TableCell>
@@ -298,6 +335,11 @@ export function QuoteDetailsModal({
                                         {item.product.specification}
                                       </div>
                                     )}
+                                    {item.rejectedAt && (
+                                      <div className="text-xs text-red-600">
+                                        Từ chối: {item.rejectionReason}
+                                      </div>
+                                    )}
                                   </div>
                                 </TableCell>
                                 <TableCell className="text-sm">{item.product?.unit ?? 'N/A'}</TableCell>
@@ -305,7 +347,17 @@ export function QuoteDetailsModal({
                                   {formatNumber(quantity)}
                                 </TableCell>
                                 <TableCell className="text-right text-sm">
-                                  {formatNumber(displayPrice)}
+                                  <div>{formatNumber(displayPrice)}</div>
+                                  {rounds.length > 0 && (
+                                    <button
+                                      type="button"
+                                      onClick={() => toggleItemHistory(item.id)}
+                                      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                                    >
+                                      <History className="h-3 w-3" />
+                                      {rounds.length} vòng đàm phán
+                                    </button>
+                                  )}
                                 </TableCell>
                                 <TableCell className="text-right text-sm">
                                   {vatRate.toFixed(0)}%
@@ -317,6 +369,22 @@ export function QuoteDetailsModal({
                                   {formatNumber(totalPrice)}
                                 </TableCell>
                               </tr>
+                              {isHistoryExpanded && (
+                                <tr className="border-b bg-muted/30">
+                                  <TableCell colSpan={9} className="py-3 pl-16">
+                                    <NegotiationTimeline
+                                      rounds={rounds}
+                                      initialPrice={
+                                        item.initialPrice !== null
+                                          ? parseFloat(String(item.initialPrice))
+                                          : null
+                                      }
+                                      approvedRound={item.approvedRound}
+                                    />
+                                  </TableCell>
+                                </tr>
+                              )}
+                              </React.Fragment>
                             );
                           })
                           ) : (
@@ -338,10 +406,11 @@ export function QuoteDetailsModal({
                         <span className="font-medium">
                           {formatNumber((quotation.items ?? []).reduce(
                             (sum, item) => {
-                              if (!item || !item.product) return sum;
+                              // Rejected items are not part of the approved value
+                              if (!item || !item.product || item.rejectedAt) return sum;
                               const quantity = parseFloat(String(item.baseQuantity || item.quantity || 0)) || 0;
                               let displayPrice = 0;
-                              if (quotation.status === 'approved' && item.approvedPrice) {
+                              if (isApprovedQuotation && item.approvedPrice) {
                                 displayPrice = parseFloat(String(item.approvedPrice)) || 0;
                               } else if (quotation.status === 'negotiation' && item.negotiatedPrice) {
                                 displayPrice = parseFloat(String(item.negotiatedPrice)) || 0;
@@ -359,11 +428,12 @@ export function QuoteDetailsModal({
                         <span className="font-medium">
                           {formatNumber((quotation.items ?? []).reduce(
                             (sum, item) => {
-                              if (!item || !item.product) return sum;
+                              // Rejected items are not part of the approved value
+                              if (!item || !item.product || item.rejectedAt) return sum;
                               const quantity = parseFloat(String(item.baseQuantity || item.quantity || 0)) || 0;
                               const vatRate = parseFloat(String(item.vatPercentage || 0)) || 0;
                               let displayPrice = 0;
-                              if (quotation.status === 'approved' && item.approvedPrice) {
+                              if (isApprovedQuotation && item.approvedPrice) {
                                 displayPrice = parseFloat(String(item.approvedPrice)) || 0;
                               } else if (quotation.status === 'negotiation' && item.negotiatedPrice) {
                                 displayPrice = parseFloat(String(item.negotiatedPrice)) || 0;
@@ -384,11 +454,12 @@ export function QuoteDetailsModal({
                         <span className="text-base font-bold text-primary">
                           {formatNumber((quotation.items ?? []).reduce(
                             (sum, item) => {
-                              if (!item || !item.product) return sum;
+                              // Rejected items are not part of the approved value
+                              if (!item || !item.product || item.rejectedAt) return sum;
                               const quantity = parseFloat(String(item.baseQuantity || item.quantity || 0)) || 0;
                               const vatRate = parseFloat(String(item.vatPercentage || 0)) || 0;
                               let displayPrice = 0;
-                              if (quotation.status === 'approved' && item.approvedPrice) {
+                              if (isApprovedQuotation && item.approvedPrice) {
                                 displayPrice = parseFloat(String(item.approvedPrice)) || 0;
                               } else if (quotation.status === 'negotiation' && item.negotiatedPrice) {
                                 displayPrice = parseFloat(String(item.negotiatedPrice)) || 0;
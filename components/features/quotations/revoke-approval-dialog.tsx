@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { revokeQuotationApproval } from "@/lib/actions/quotations.actions";
+import type { Quotation } from "@/lib/hooks/use-quotations";
+
+interface RevokeApprovalDialogProps {
+  quotation: Quotation | null;
+  onOpenChange: (open: boolean) => void;
+  onRevoked: () => void;
+}
+
+export function RevokeApprovalDialog({
+  quotation,
+  onOpenChange,
+  onRevoked,
+}: RevokeApprovalDialogProps) {
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (submitting) return;
+    if (!open) setReason("");
+    onOpenChange(open);
+  };
+
+  const handleSubmit = async () => {
+    if (!quotation) return;
+
+    if (!reason.trim()) {
+      toast.error("Vui lòng nhập lý do thu hồi phê duyệt");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const result = await revokeQuotationApproval({ id: quotation.id, reason });
+      toast.success(result.success);
+      setReason("");
+      onRevoked();
+    } catch (error) {
+      console.error("Error revoking quotation approval:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi thu hồi phê duyệt báo giá"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={quotation !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Thu hồi phê duyệt
+          </DialogTitle>
+          <DialogDescription>
+            {quotation &&
+              `${quotation.supplierName ?? quotation.supplierCode} • ${quotation.quotationId}. `}
+            Báo giá sẽ trở về trạng thái đàm phán và giá đã duyệt bị hủy. Lịch sử giá được giữ
+            lại kèm bút toán thu hồi.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="revoke-reason">Lý do thu hồi</Label>
+          <Textarea
+            id="revoke-reason"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Nhập lý do thu hồi phê duyệt"
+            maxLength={500}
+            disabled={submitting}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={submitting}
+          >
+            Hủy
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Thu hồi phê duyệt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
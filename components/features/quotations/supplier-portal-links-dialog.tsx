@@ -0,0 +1,314 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Ban, Copy, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getPeriods } from "@/lib/actions/period.actions";
+import { getAvailableRegions } from "@/lib/actions/quotations.actions";
+import {
+  createSupplierPortalLink,
+  getSupplierPortalLinks,
+  revokeSupplierPortalLink,
+} from "@/lib/actions/supplier-portal.actions";
+import type { PeriodEntry } from "@/lib/types/period.types";
+import type { SupplierPortalLinkEntry } from "@/lib/types/supplier-portal.types";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+interface SupplierPortalLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suppliers: Array<{ id: number; code: string; name: string }>;
+}
+
+const formatDateTime = (value: Date | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: vi }) : "-";
+
+/**
+ * Supplier portal links dialog
+ * Issues tokenized links that let suppliers submit their quotation online
+ * for one period and region, and lists/revokes the links already issued.
+ */
+export function SupplierPortalLinksDialog({
+  open,
+  onOpenChange,
+  suppliers,
+}: SupplierPortalLinksDialogProps) {
+  const [periods, setPeriods] = useState<PeriodEntry[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [period, setPeriod] = useState("");
+  const [region, setRegion] = useState("");
+  const [supplierId, setSupplierId] = useState("");
+
+  const [links, setLinks] = useState<SupplierPortalLinkEntry[]>([]);
+  const [loadingLinks, setLoadingLinks] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  // Load the periods that still accept quotations and the regions
+  useEffect(() => {
+    if (!open) return;
+
+    Promise.all([getPeriods(), getAvailableRegions()])
+      .then(([periodList, regionList]) => {
+        const openPeriods = periodList.filter((entry) => entry.acceptsImports);
+        setPeriods(openPeriods);
+        setRegions(regionList);
+        setPeriod((current) => current || openPeriods[0]?.code || "");
+        setRegion((current) => current || regionList[0] || "");
+      })
+      .catch((error) => {
+        console.error("Error loading portal link options:", error);
+        toast.error("Không thể tải danh sách kỳ báo giá và khu vực");
+      });
+  }, [open]);
+
+  const loadLinks = useCallback(async () => {
+    if (!period || !region) {
+      setLinks([]);
+      return;
+    }
+
+    try {
+      setLoadingLinks(true);
+      setLinks(await getSupplierPortalLinks({ period, region }));
+    } catch (error) {
+      console.error("Error loading portal links:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi tải danh sách liên kết báo giá"
+      );
+    } finally {
+      setLoadingLinks(false);
+    }
+  }, [period, region]);
+
+  useEffect(() => {
+    if (open) loadLinks();
+  }, [open, loadLinks]);
+
+  const copyUrl = (url: string) => {
+    navigator.clipboard
+      .writeText(url)
+      .then(() => toast.success("Đã sao chép liên kết"))
+      .catch(() => toast.error("Không thể sao chép liên kết"));
+  };
+
+  const handleCreate = async () => {
+    if (!supplierId || !period || !region) {
+      toast.error("Vui lòng chọn nhà cung cấp, kỳ báo giá và khu vực");
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const result = await createSupplierPortalLink({
+        supplierId: Number(supplierId),
+        period,
+        region,
+      });
+
+      const url = new URL(result.url, window.location.origin).toString();
+      setCreatedUrl(url);
+      toast.success(result.success);
+      await loadLinks();
+    } catch (error) {
+      console.error("Error creating portal link:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi tạo liên kết báo giá");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: SupplierPortalLinkEntry) => {
+    if (!confirm(`Thu hồi liên kết báo giá của ${link.supplierName}?`)) return;
+
+    try {
+      const result = await revokeSupplierPortalLink({ id: link.id });
+      toast.success(result.success);
+      await loadLinks();
+    } catch (error) {
+      console.error("Error revoking portal link:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi thu hồi liên kết báo giá");
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) setCreatedUrl(null);
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Liên kết báo giá nhà cung cấp</DialogTitle>
+          <DialogDescription>
+            Nhà cung cấp mở liên kết để nhập giá trực tuyến cho các sản phẩm thuộc phạm vi phục vụ,
+            không cần tài khoản. Liên kết hết hạn cùng hạn nộp báo giá của kỳ.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Kỳ báo giá</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger>
+                <SelectValue placeholder="Chọn kỳ báo giá" />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map((entry) => (
+                  <SelectItem key={entry.code} value={entry.code}>
+                    {entry.code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Khu vực</Label>
+            <Select value={region} onValueChange={setRegion}>
+              <SelectTrigger>
+                <SelectValue placeholder="Chọn khu vực" />
+              </SelectTrigger>
+              <SelectContent>
+                {regions.map((entry) => (
+                  <SelectItem key={entry} value={entry}>
+                    {entry}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Nhà cung cấp</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Chọn nhà cung cấp" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={String(supplier.id)}>
+                    {supplier.code} - {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleCreate} disabled={creating || !supplierId || !period || !region}>
+            {creating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Link2 className="mr-2 h-4 w-4" />
+            )}
+            Tạo liên kết
+          </Button>
+        </div>
+
+        {createdUrl && (
+          <div className="space-y-1 rounded-md border border-blue-200 bg-blue-50 p-3">
+            <p className="text-sm text-blue-800">
+              Sao chép và gửi liên kết cho nhà cung cấp - liên kết chỉ hiển thị một lần.
+            </p>
+            <div className="flex gap-2">
+              <Input value={createdUrl} readOnly className="bg-white" />
+              <Button variant="outline" onClick={() => copyUrl(createdUrl)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-[300px] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nhà cung cấp</TableHead>
+                <TableHead>Trạng thái</TableHead>
+                <TableHead>Hết hạn</TableHead>
+                <TableHead>Truy cập gần nhất</TableHead>
+                <TableHead>Đã gửi</TableHead>
+                <TableHead className="text-right">Hành động</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loadingLinks ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-6 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : links.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                    Chưa có liên kết nào cho kỳ và khu vực này
+                  </TableCell>
+                </TableRow>
+              ) : (
+                links.map((link) => (
+                  <TableRow key={link.id}>
+                    <TableCell>
+                      <div className="font-medium">{link.supplierName}</div>
+                      <div className="text-xs text-muted-foreground">{link.supplierCode}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={getStatusClassName(link.status)}>
+                        {getStatusLabel(link.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDateTime(link.expiresAt)}</TableCell>
+                    <TableCell className="text-sm">{formatDateTime(link.lastAccessedAt)}</TableCell>
+                    <TableCell className="text-sm">{formatDateTime(link.submittedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {link.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(link)}
+                          title="Thu hồi liên kết"
+                        >
+                          <Ban className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogContent,
@@ -12,10 +13,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Loader2, CheckCircle } from "lucide-react";
+import { Loader2, CheckCircle, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 import { approveMultipleQuotations } from "@/lib/actions/quote-comparison.actions";
+import { previewApprovalBudgetImpact } from "@/lib/actions/kitchen-budget.actions";
+import type { ApprovalBudgetWarning } from "@/lib/types/kitchen-budget.types";
 import type { ComparisonMatrixData } from "@/lib/types/quote-comparison.types";
+import { formatNumber } from "@/lib/utils";
 
 // Quotation status utilities
 const getQuotationStatusLabel = (status: string | null): string => {
@@ -25,8 +29,12 @@ const getQuotationStatusLabel = (status: string | null): string => {
       return "Chờ duyệt";
     case "negotiation":
       return "Đàm phán";
+    case "pending_approval":
+      return "Chờ phê duyệt";
     case "approved":
       return "Đã duyệt";
+    case "partially_approved":
+      return "Duyệt một phần";
     case "draft":
       return "Nháp";
     case "submitted":
@@ -44,8 +52,10 @@ const getQuotationStatusVariant = (
   if (!status) return "outline";
   switch (status.toLowerCase()) {
     case "approved":
+    case "partially_approved":
       return "default"; // Green
     case "negotiation":
+    case "pending_approval":
       return "secondary"; // Orange/Yellow
     case "pending":
       return "outline"; // Gray
@@ -60,25 +70,33 @@ export interface ApprovalModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   suppliers: ComparisonMatrixData['availableSuppliers'];
+  products?: ComparisonMatrixData['products']; // Quote items of the selected suppliers, for item-level rejection
   onApprovalComplete: () => void;
+  initialSelectedSupplierIds?: number[]; // Preselected on open, e.g. from an award plan
 }
 
 export function ApprovalModal({
   open,
   onOpenChange,
   suppliers,
+  products = [],
   onApprovalComplete,
+  initialSelectedSupplierIds,
 }: ApprovalModalProps) {
   const [selectedSuppliers, setSelectedSuppliers] = useState<Set<number>>(new Set());
+  // Rejected quote items: itemId -> rejection reason
+  const [rejectedItems, setRejectedItems] = useState<Record<number, string>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [budgetWarnings, setBudgetWarnings] = useState<ApprovalBudgetWarning[]>([]);
 
   // Filter suppliers that have quotations to approve (quotationId exists, not null, and NOT already approved)
   const approvableSuppliers = suppliers.filter(
     supplier =>
       supplier.quotationId &&
       supplier.quotationId > 0 &&
-      supplier.quotationStatus !== 'approved'
+      supplier.quotationStatus !== 'approved' &&
+      supplier.quotationStatus !== 'partially_approved'
   );
 
   // Separate list: suppliers that CAN be selected (pending or negotiation)
@@ -86,6 +104,74 @@ export function ApprovalModal({
     supplier => supplier.quotationStatus === 'pending' || supplier.quotationStatus === 'negotiation'
   );
 
+  // Preselect the requested suppliers that can still be approved
+  useEffect(() => {
+    if (open && initialSelectedSupplierIds) {
+      const selectableIds = new Set(selectableSuppliers.map(s => s.id));
+      setSelectedSuppliers(
+        new Set(initialSelectedSupplierIds.filter(id => selectableIds.has(id)))
+      );
+    }
+  }, [open, initialSelectedSupplierIds]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Priced quote items of a supplier, as shown in the comparison matrix
+  const getSupplierItems = (supplierId: number) =>
+    products
+      .map(product => ({ product, cell: product.suppliers[supplierId] }))
+      .filter(({ cell }) => cell && cell.hasPrice);
+
+  // Only rejections of currently selected suppliers are submitted
+  const activeRejections = Array.from(selectedSuppliers).flatMap(supplierId =>
+    getSupplierItems(supplierId)
+      .filter(({ cell }) => rejectedItems[cell.id] !== undefined)
+      .map(({ cell }) => ({ itemId: cell.id, reason: rejectedItems[cell.id] }))
+  );
+  const hasMissingReason = activeRejections.some(rejection => rejection.reason.trim() === '');
+
+  // Quotations and rejected items as they would be submitted, as a stable dependency
+  const selectedQuotationIds = approvableSuppliers
+    .filter(supplier => selectedSuppliers.has(supplier.id))
+    .map(supplier => supplier.quotationId!);
+  const approvalScopeKey = `${selectedQuotationIds.join(',')}|${activeRejections
+    .map(rejection => rejection.itemId)
+    .join(',')}`;
+
+  // Warn (without blocking) when the approval pushes kitchens over budget
+  useEffect(() => {
+    const [quotationPart, rejectedPart] = approvalScopeKey.split('|');
+    if (!open || !quotationPart) {
+      setBudgetWarnings([]);
+      return;
+    }
+
+    let cancelled = false;
+    previewApprovalBudgetImpact({
+      quotationIds: quotationPart.split(',').map(Number),
+      rejectedItemIds: rejectedPart ? rejectedPart.split(',').map(Number) : [],
+    })
+      .then(warnings => {
+        if (!cancelled) setBudgetWarnings(warnings);
+      })
+      .catch(err => {
+        console.error('Error checking kitchen budgets:', err);
+        if (!cancelled) setBudgetWarnings([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, approvalScopeKey]);
+
+  const handleItemToggle = (itemId: number, accepted: boolean) => {
+    const next = { ...rejectedItems };
+    if (accepted) {
+      delete next[itemId];
+    } else {
+      next[itemId] = '';
+    }
+    setRejectedItems(next);
+  };
+
   const handleSupplierToggle = (supplierId: number, checked: boolean) => {
     const newSelected = new Set(selectedSuppliers);
     if (checked) {
@@ -127,14 +213,22 @@ export function ApprovalModal({
         throw new Error("Không tìm thấy báo giá hợp lệ để phê duyệt");
       }
 
-      await approveMultipleQuotations({ quotationIds });
+      if (hasMissingReason) {
+        throw new Error("Vui lòng nhập lý do cho các sản phẩm bị từ chối");
+      }
+
+      const result = await approveMultipleQuotations({
+        quotationIds,
+        rejectedItems: activeRejections,
+      });
 
-      // Show success toast
-      toast.success(`Đã phê duyệt thành công ${quotationIds.length} báo giá từ ${selectedSuppliers.size} nhà cung cấp!`);
+      // Show success toast (quotations above the threshold go to the approvals inbox)
+      toast.success(result.success);
 
       // Success - close modal and refresh parent data
       onApprovalComplete();
       setSelectedSuppliers(new Set()); // Reset selections
+      setRejectedItems({});
     } catch (err) {
       console.error('Error approving quotations:', err);
       const errorMessage = err instanceof Error
@@ -150,20 +244,21 @@ export function ApprovalModal({
 
   const handleCancel = () => {
     setSelectedSuppliers(new Set());
+    setRejectedItems({});
     setError(null);
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <CheckCircle className="h-5 w-5 text-green-600" />
             Phê duyệt báo giá
           </DialogTitle>
           <DialogDescription>
-            Chọn các nhà cung cấp để phê duyệt báo giá của họ. Các sản phẩm sẽ được phê duyệt với giá hiện tại (đã đàm phán hoặc giá ban đầu).
+            Chọn các nhà cung cấp để phê duyệt báo giá của họ. Các sản phẩm sẽ được phê duyệt với giá hiện tại (đã đàm phán hoặc giá ban đầu). Bỏ chọn sản phẩm để từ chối kèm lý do.
           </DialogDescription>
         </DialogHeader>
 
@@ -191,44 +286,101 @@ export function ApprovalModal({
               </div>
 
               {/* Supplier List */}
-              <div className="space-y-2 max-h-60 overflow-y-auto">
+              <div className="space-y-2 max-h-[50vh] overflow-y-auto">
                 {approvableSuppliers.map((supplier) => {
                   const isApproved = supplier.quotationStatus === 'approved';
                   const isSelectable = supplier.quotationStatus === 'pending' || supplier.quotationStatus === 'negotiation';
+                  const supplierItems = selectedSuppliers.has(supplier.id)
+                    ? getSupplierItems(supplier.id)
+                    : [];
+                  const rejectedCount = supplierItems.filter(
+                    ({ cell }) => rejectedItems[cell.id] !== undefined
+                  ).length;
 
                   return (
-                    <div
-                      key={supplier.id}
-                      className={`flex items-center space-x-2 p-2 rounded-lg ${
-                        isApproved ? 'bg-gray-50 opacity-60' : 'hover:bg-gray-50'
-                      }`}
-                    >
-                      <Checkbox
-                        id={`supplier-${supplier.id}`}
-                        checked={selectedSuppliers.has(supplier.id)}
-                        onCheckedChange={(checked) =>
-                          handleSupplierToggle(supplier.id, checked === true)
-                        }
-                        disabled={isApproved}
-                      />
-                      <div className="flex-1">
-                        <label
-                          htmlFor={`supplier-${supplier.id}`}
-                          className={`text-sm font-medium ${isSelectable ? 'cursor-pointer' : 'cursor-not-allowed'}`}
-                        >
-                          {supplier.code} - {supplier.name}
-                        </label>
-                        <div className="flex items-center gap-2 mt-1">
-                          <Badge variant={getQuotationStatusVariant(supplier.quotationStatus)}>
-                            {getQuotationStatusLabel(supplier.quotationStatus)}
-                          </Badge>
-                          {supplier.quotationLastUpdated && (
-                            <span className="text-xs text-muted-foreground">
-                              Cập nhật: {new Date(supplier.quotationLastUpdated).toLocaleDateString('vi-VN')}
-                            </span>
-                          )}
+                    <div key={supplier.id}>
+                      <div
+                        className={`flex items-center space-x-2 p-2 rounded-lg ${
+                          isApproved ? 'bg-gray-50 opacity-60' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <Checkbox
+                          id={`supplier-${supplier.id}`}
+                          checked={selectedSuppliers.has(supplier.id)}
+                          onCheckedChange={(checked) =>
+                            handleSupplierToggle(supplier.id, checked === true)
+                          }
+                          disabled={isApproved}
+                        />
+                        <div className="flex-1">
+                          <label
+                            htmlFor={`supplier-${supplier.id}`}
+                            className={`text-sm font-medium ${isSelectable ? 'cursor-pointer' : 'cursor-not-allowed'}`}
+                          >
+                            {supplier.code} - {supplier.name}
+                          </label>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Badge variant={getQuotationStatusVariant(supplier.quotationStatus)}>
+                              {getQuotationStatusLabel(supplier.quotationStatus)}
+                            </Badge>
+                            {supplier.quotationLastUpdated && (
+                              <span className="text-xs text-muted-foreground">
+                                Cập nhật: {new Date(supplier.quotationLastUpdated).toLocaleDateString('vi-VN')}
+                              </span>
+                            )}
+                            {supplierItems.length > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                Duyệt {supplierItems.length - rejectedCount}/{supplierItems.length} sản phẩm
+                              </span>
+                            )}
+                          </div>
                         </div>
                       </div>
+  
+                      {/* Item-level accept/reject for the selected supplier */}
+                      {supplierItems.length > 0 && (
+                        <div className="ml-8 mb-2 space-y-1 border-l pl-3">
+                          {supplierItems.map(({ product, cell }) => {
+                            const isRejected = rejectedItems[cell.id] !== undefined;
+  
+                            return (
+                              <div key={cell.id} className="space-y-1">
+                                <div className="flex items-center gap-2 text-sm">
+                                  <Checkbox
+                                    id={`item-${cell.id}`}
+                                    checked={!isRejected}
+                                    onCheckedChange={(checked) =>
+                                      handleItemToggle(cell.id, checked === true)
+                                    }
+                                    disabled={loading}
+                                  />
+                                  <label
+                                    htmlFor={`item-${cell.id}`}
+                                    className={`flex-1 cursor-pointer ${isRejected ? 'line-through text-muted-foreground' : ''}`}
+                                  >
+                                    {product.productCode} - {product.productName}
+                                  </label>
+                                  <span className="text-muted-foreground">
+                                    {formatNumber(cell.pricePerUnit)}/{product.unit}
+                                  </span>
+                                </div>
+                                {isRejected && (
+                                  <Input
+                                    value={rejectedItems[cell.id]}
+                                    onChange={(e) =>
+                                      setRejectedItems({ ...rejectedItems, [cell.id]: e.target.value })
+                                    }
+                                    placeholder="Lý do từ chối (bắt buộc)"
+                                    maxLength={500}
+                                    className="h-8 text-sm"
+                                    disabled={loading}
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -237,7 +389,30 @@ export function ApprovalModal({
               {/* Selection Summary */}
               <div className="text-sm text-muted-foreground pt-2 border-t">
                 Đã chọn: {selectedSuppliers.size} / {selectableSuppliers.length} nhà cung cấp (có thể duyệt)
+                {activeRejections.length > 0 && ` • Từ chối ${activeRejections.length} sản phẩm`}
+              </div>
+            </div>
+          )}
+
+          {/* Kitchen Budget Warnings */}
+          {budgetWarnings.length > 0 && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                Duyệt các báo giá này sẽ làm {budgetWarnings.length} ngân sách bếp bị vượt
               </div>
+              <ul className="mt-2 list-disc space-y-1 pl-5">
+                {budgetWarnings.map(warning => (
+                  <li key={`${warning.period}-${warning.teamId}-${warning.category ?? ''}`}>
+                    {warning.kitchenName}
+                    {warning.category ? ` (${warning.category})` : ''}: ngân sách{' '}
+                    {formatNumber(warning.budget)}, dự kiến {formatNumber(warning.currentSpend)} →{' '}
+                    <span className="font-semibold text-red-700">
+                      {formatNumber(warning.projectedSpend)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
             </div>
           )}
 
@@ -259,7 +434,12 @@ export function ApprovalModal({
           </Button>
           <Button
             onClick={handleApprove}
-            disabled={loading || selectedSuppliers.size === 0 || approvableSuppliers.length === 0}
+            disabled={
+              loading ||
+              selectedSuppliers.size === 0 ||
+              approvableSuppliers.length === 0 ||
+              hasMissingReason
+            }
             className="bg-green-600 hover:bg-green-700"
           >
             {loading ? (
@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Split } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { saveAwardAllocations } from "@/lib/actions/quote-comparison.actions";
+import type { ComparisonMatrixData } from "@/lib/types/quote-comparison.types";
+import { cn, formatNumber } from "@/lib/utils";
+import { ALLOCATION_TOLERANCE_PERCENT } from "@/lib/utils/award-allocation";
+
+type AllocationMode = "percent" | "quantity";
+
+export interface AwardAllocationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: string;
+  region: string;
+  product: ComparisonMatrixData["products"][number] | null;
+  onSaved: () => void;
+}
+
+export function AwardAllocationDialog({
+  open,
+  onOpenChange,
+  period,
+  region,
+  product,
+  onSaved,
+}: AwardAllocationDialogProps) {
+  const [mode, setMode] = useState<AllocationMode>("percent");
+  const [values, setValues] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Priced suppliers, cheapest first
+  const pricedSuppliers = product
+    ? Object.values(product.suppliers)
+        .filter((supplier) => supplier.hasPrice)
+        .sort((a, b) => a.pricePerUnit - b.pricePerUnit)
+    : [];
+
+  // Start from the saved shares
+  useEffect(() => {
+    if (open && product) {
+      const initialValues: Record<number, string> = {};
+      Object.values(product.suppliers).forEach((supplier) => {
+        if (supplier.awardSharePercent !== undefined) {
+          initialValues[supplier.supplierId] = String(supplier.awardSharePercent);
+        }
+      });
+      setMode("percent");
+      setValues(initialValues);
+    }
+  }, [open, product]);
+
+  const demand = product?.quantity ?? 0;
+
+  const enteredLines = Object.entries(values)
+    .map(([supplierId, value]) => ({
+      supplierId: Number(supplierId),
+      value: Number.parseFloat(value),
+    }))
+    .filter((line) => !Number.isNaN(line.value) && line.value > 0);
+
+  const totalPercent = enteredLines.reduce(
+    (sum, line) => sum + (mode === "percent" ? line.value : demand > 0 ? (line.value / demand) * 100 : 0),
+    0
+  );
+  const isComplete = Math.abs(totalPercent - 100) <= ALLOCATION_TOLERANCE_PERCENT + 1e-9;
+
+  const handleModeChange = (nextMode: AllocationMode) => {
+    // Convert the entered values so switching keeps the split
+    const converted: Record<number, string> = {};
+    enteredLines.forEach((line) => {
+      const next =
+        nextMode === "quantity"
+          ? (line.value * demand) / 100
+          : demand > 0
+            ? (line.value / demand) * 100
+            : 0;
+      converted[line.supplierId] = String(Math.round(next * 100) / 100);
+    });
+    setValues(converted);
+    setMode(nextMode);
+  };
+
+  const save = async (clear: boolean) => {
+    if (!product) return;
+
+    try {
+      setSaving(true);
+      const result = await saveAwardAllocations({
+        period,
+        region,
+        productId: product.productId,
+        allocations: clear
+          ? []
+          : enteredLines.map((line) => ({
+              supplierId: line.supplierId,
+              ...(mode === "percent"
+                ? { sharePercent: line.value }
+                : { quantity: line.value }),
+            })),
+      });
+      toast.success(result.success);
+      onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Lỗi khi lưu phân bổ nhà cung cấp");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasSavedAllocation = product
+    ? Object.values(product.suppliers).some((supplier) => supplier.awardSharePercent !== undefined)
+    : false;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Split className="h-5 w-5" />
+            Phân bổ nhà cung cấp
+          </DialogTitle>
+          <DialogDescription>
+            {product?.productCode} - {product?.productName}. Nhu cầu: {formatNumber(demand)}{" "}
+            {product?.unit}. Tổng phân bổ phải bằng 100% nhu cầu.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">Phân bổ theo</span>
+          <Select value={mode} onValueChange={(value) => handleModeChange(value as AllocationMode)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Tỷ lệ (%)</SelectItem>
+              <SelectItem value="quantity">Số lượng ({product?.unit})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nhà cung cấp</TableHead>
+              <TableHead className="text-right">Đơn giá</TableHead>
+              <TableHead className="w-[160px] text-right">
+                {mode === "percent" ? "Tỷ lệ (%)" : "Số lượng"}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pricedSuppliers.map((supplier) => (
+              <TableRow key={supplier.supplierId}>
+                <TableCell>
+                  <div className="font-medium">{supplier.supplierName}</div>
+                  <div className="text-xs text-muted-foreground">{supplier.supplierCode}</div>
+                </TableCell>
+                <TableCell className="text-right">{formatNumber(supplier.pricePerUnit)}</TableCell>
+                <TableCell className="text-right">
+                  <Input
+                    inputMode="decimal"
+                    className="text-right"
+                    value={values[supplier.supplierId] ?? ""}
+                    onChange={(e) =>
+                      setValues({ ...values, [supplier.supplierId]: e.target.value })
+                    }
+                    disabled={saving}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div
+          className={cn(
+            "text-right text-sm font-medium",
+            isComplete ? "text-green-700" : "text-amber-700"
+          )}
+        >
+          Tổng: {formatNumber(Math.round(totalPercent * 100) / 100)}%
+        </div>
+
+        <DialogFooter>
+          {hasSavedAllocation && (
+            <Button variant="outline" onClick={() => save(true)} disabled={saving}>
+              Xóa phân bổ
+            </Button>
+          )}
+          <Button onClick={() => save(false)} disabled={saving || !isComplete}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Lưu phân bổ
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, CheckCircle, Loader2, Network } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { proposeAwardPlan } from "@/lib/actions/quote-comparison.actions";
+import { formatNumber } from "@/lib/utils";
+import type { AwardPlan, AwardReason } from "@/lib/utils/award-optimizer";
+
+const AWARD_REASON_LABELS: Record<AwardReason, string> = {
+  cheapest: "Giá tốt nhất",
+  incumbent: "Giữ NCC hiện tại",
+  constraint: "Theo ràng buộc",
+};
+
+// Empty input = constraint not applied
+const parseOptionalNumber = (value: string): number | null => {
+  const parsed = Number.parseFloat(value);
+  return value.trim() === "" || Number.isNaN(parsed) ? null : parsed;
+};
+
+export interface AwardPlanModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: string;
+  region: string;
+  categories: string[];
+  onSendToApproval: (supplierIds: number[]) => void;
+}
+
+export function AwardPlanModal({
+  open,
+  onOpenChange,
+  period,
+  region,
+  categories,
+  onSendToApproval,
+}: AwardPlanModalProps) {
+  const [maxSuppliers, setMaxSuppliers] = useState("");
+  const [minOrderValue, setMinOrderValue] = useState("");
+  const [incumbentSavingPercent, setIncumbentSavingPercent] = useState("");
+  const [plan, setPlan] = useState<AwardPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleOptimize = async () => {
+    try {
+      setLoading(true);
+      const result = await proposeAwardPlan({
+        period,
+        region,
+        categories,
+        maxSuppliers: parseOptionalNumber(maxSuppliers),
+        minOrderValue: parseOptionalNumber(minOrderValue),
+        incumbentSavingPercent: parseOptionalNumber(incumbentSavingPercent),
+      });
+      setPlan(result);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Lỗi khi đề xuất phương án phân bổ");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendToApproval = () => {
+    if (!plan) return;
+    onSendToApproval(plan.suppliers.map((supplier) => supplier.supplierId));
+  };
+
+  const extraCost = plan ? plan.totalCost - plan.cheapestCost : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            Phương án phân bổ NCC
+          </DialogTitle>
+          <DialogDescription>
+            Đề xuất phân bổ sản phẩm có tổng chi phí (gồm VAT) thấp nhất theo các ràng buộc.
+            Kỳ {period} - Khu vực {region}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Constraints */}
+        <div className="grid grid-cols-4 gap-3 rounded-md border p-4">
+          <div className="space-y-1">
+            <Label htmlFor="award-max-suppliers">Số NCC tối đa</Label>
+            <Input
+              id="award-max-suppliers"
+              inputMode="numeric"
+              value={maxSuppliers}
+              onChange={(e) => setMaxSuppliers(e.target.value)}
+              placeholder="Không giới hạn"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="award-min-order">Đơn hàng tối thiểu (VND)</Label>
+            <Input
+              id="award-min-order"
+              inputMode="decimal"
+              value={minOrderValue}
+              onChange={(e) => setMinOrderValue(e.target.value)}
+              placeholder="Theo cài đặt NCC"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="award-incumbent">Giữ NCC hiện tại nếu tiết kiệm ≤ (%)</Label>
+            <Input
+              id="award-incumbent"
+              inputMode="decimal"
+              value={incumbentSavingPercent}
+              onChange={(e) => setIncumbentSavingPercent(e.target.value)}
+              placeholder="Không áp dụng"
+            />
+          </div>
+          <div className="flex items-end">
+            <Button onClick={handleOptimize} disabled={loading} className="w-full">
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Tính phương án
+            </Button>
+          </div>
+        </div>
+
+        {plan && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">Tổng chi phí đề xuất</div>
+                <div className="text-lg font-semibold">{formatNumber(plan.totalCost)}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">So với giá tốt nhất từng sản phẩm</div>
+                <div className="text-lg font-semibold">
+                  {extraCost > 0 ? `+${formatNumber(extraCost)}` : formatNumber(extraCost)}
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-muted-foreground">Số NCC</div>
+                <div className="text-lg font-semibold">
+                  {plan.suppliers.length}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    (thay vì {plan.cheapestSupplierCount})
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            {plan.warnings.length > 0 && (
+              <div className="space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                {plan.warnings.map((warning) => (
+                  <div key={warning} className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Tabs defaultValue="suppliers">
+              <TabsList>
+                <TabsTrigger value="suppliers">Nhà cung cấp ({plan.suppliers.length})</TabsTrigger>
+                <TabsTrigger value="lines">Sản phẩm ({plan.lines.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="suppliers">
+                <ScrollArea className="h-[35vh] pr-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nhà cung cấp</TableHead>
+                        <TableHead className="text-right">Số sản phẩm</TableHead>
+                        <TableHead className="text-right">Giá trị</TableHead>
+                        <TableHead className="text-right">Tối thiểu</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.suppliers.map((supplier) => (
+                        <TableRow key={supplier.supplierId}>
+                          <TableCell>
+                            <div className="font-medium">{supplier.supplierName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {supplier.supplierCode}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{supplier.productCount}</TableCell>
+                          <TableCell className="text-right">
+                            {formatNumber(supplier.totalValue)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {supplier.minOrderValue === null
+                              ? "-"
+                              : formatNumber(supplier.minOrderValue)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="lines">
+                <ScrollArea className="h-[35vh] pr-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Sản phẩm</TableHead>
+                        <TableHead>Nhà cung cấp</TableHead>
+                        <TableHead className="text-right">Đơn giá</TableHead>
+                        <TableHead className="text-right">Thành tiền (VAT)</TableHead>
+                        <TableHead className="text-right">Giá tốt nhất</TableHead>
+                        <TableHead>Lý do</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.lines.map((line) => (
+                        <TableRow key={line.productId}>
+                          <TableCell>
+                            <div className="font-medium">{line.productName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {line.productCode} • {line.category}
+                            </div>
+                          </TableCell>
+                          <TableCell>{line.supplierName}</TableCell>
+                          <TableCell className="text-right">
+                            {formatNumber(line.pricePerUnit)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {formatNumber(line.totalCost)}
+                          </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {formatNumber(line.cheapestCost)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={line.reason === "cheapest" ? "outline" : "secondary"}>
+                              {AWARD_REASON_LABELS[line.reason]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Đóng
+          </Button>
+          <Button
+            onClick={handleSendToApproval}
+            disabled={!plan || plan.suppliers.length === 0}
+            className="flex items-center gap-2"
+          >
+            <CheckCircle className="h-4 w-4" />
+            Chuyển sang duyệt giá
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,7 +17,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { TrendingUpIcon, TrendingDownIcon } from "lucide-react";
+import { TrendingUpIcon, TrendingDownIcon, AlertTriangle, Split } from "lucide-react";
 import { cn, formatNumber, formatPercentage } from "@/lib/utils";
 import type { ComparisonMatrixData } from "@/lib/types/quote-comparison.types";
 import {
@@ -26,14 +26,18 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import { NegotiationTimeline } from "@/components/features/quotations/negotiation-timeline";
+import { AwardAllocationDialog } from "@/components/features/quote-comparison/award-allocation-dialog";
 
 export interface ComparisonMatrixProps {
   matrixData: ComparisonMatrixData;
   activeFilter?: 'all' | 'price_increase' | 'price_decrease' | 'no_quotes';
   className?: string;
+  onAllocationsSaved?: () => void; // Enables split-award editing
 }
 
-export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }: ComparisonMatrixProps) {
+export function ComparisonMatrix({ matrixData, activeFilter = 'all', className, onAllocationsSaved }: ComparisonMatrixProps) {
+  const [allocationProductId, setAllocationProductId] = React.useState<number | null>(null);
 
   // Early return if no data
   if (!matrixData || matrixData.products.length === 0) {
@@ -239,8 +243,12 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                 switch (status) {
                   case 'approved':
                     return 'border-b-2 border-green-500';
+                  case 'partially_approved':
+                    return 'border-b-2 border-teal-500';
                   case 'negotiation':
                     return 'border-b-2 border-orange-500';
+                  case 'pending_approval':
+                    return 'border-b-2 border-amber-500';
                   case 'pending':
                     return 'border-b-2 border-slate-400';
                   default:
@@ -294,6 +302,17 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                         {product.specification}
                       </div>
                     )}
+                    {onAllocationsSaved && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => setAllocationProductId(product.productId)}
+                      >
+                        <Split className="h-3 w-3 mr-1" />
+                        Phân bổ NCC
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
 
@@ -302,6 +321,30 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                   <div className="font-medium text-gray-600">
                     {formatNumber(product.baseQuantity || product.quantity)}
                   </div>
+                  {product.quantitySource === 'kitchen_demand' && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div className="text-xs text-blue-600 cursor-pointer">
+                          Nhu cầu: {formatNumber(product.quantity)}
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent className="bg-background border">
+                        <div className="space-y-1 text-sm">
+                          <div className="font-medium">
+                            Nhu cầu {product.demandBreakdown?.length ?? 0} bếp trong khu vực:
+                          </div>
+                          <ul className="text-xs space-y-0.5">
+                            {product.demandBreakdown?.map((line) => (
+                              <li key={line.teamId} className="flex justify-between gap-4">
+                                <span>{line.teamCode ? `${line.teamCode} - ` : ''}{line.kitchenName}</span>
+                                <span>{formatNumber(line.quantity)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
                 </TableCell>
 
                 {/* Column 4: Base Price */}
@@ -351,6 +394,9 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                   // Calculate variance vs base price
                   const baseVariance = basePrice ? calculateVariance(currentPrice, basePrice) : null;
 
+                  // Suspicious prices flagged at import
+                  const anomalies = supplierData.priceAnomalies ?? [];
+
                   return (
                     <TableCell key={supplier.id} className="text-right text-sm font-narrow">
                       <Tooltip>
@@ -358,13 +404,24 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                           <div className="space-y-2 cursor-pointer">
                             {/* Current Price Display with Variance Icon */}
                             <div className="flex items-center justify-end gap-2">
+                              {anomalies.length > 0 && (
+                                <AlertTriangle className="h-3 w-3 text-amber-600" />
+                              )}
                               <div className={cn(
                                 "text-sm px-2 py-1 rounded font-narrow",
-                                getPriceStyle(isBestPrice)
+                                getPriceStyle(isBestPrice),
+                                anomalies.length > 0 && "ring-2 ring-amber-400"
                               )}>
                                 {formatNumber(currentPrice)}
                               </div>
 
+                              {/* Split-award share */}
+                              {supplierData.awardSharePercent !== undefined && (
+                                <Badge variant="outline" className="text-xs text-blue-700 border-blue-300">
+                                  {formatNumber(supplierData.awardSharePercent)}%
+                                </Badge>
+                              )}
+
                               {/* Variance Arrow Icon */}
                               {variance && (
                                 <div className={cn(
@@ -393,6 +450,18 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                         </TooltipTrigger>
                         <TooltipContent className="bg-background border">
                           <div className="space-y-2 text-sm">
+                            {/* Price anomalies flagged at import */}
+                            {anomalies.length > 0 && (
+                              <div>
+                                <div className="font-medium text-amber-700">Giá bất thường:</div>
+                                <ul className="text-xs text-amber-700 space-y-0.5">
+                                  {anomalies.map((anomaly) => (
+                                    <li key={anomaly.type}>• {anomaly.message}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
                             {/* Comparison vs Base Price */}
                             {baseVariance && (
                               <div>
@@ -461,6 +530,18 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
                                 })()}
                               </div>
                             )}
+
+                            {/* Negotiation rounds for this quote item */}
+                            {supplierData.negotiationHistory && supplierData.negotiationHistory.length > 0 && (
+                              <div>
+                                <div className="font-medium text-foreground mb-1">Lịch sử đàm phán:</div>
+                                <NegotiationTimeline
+                                  rounds={supplierData.negotiationHistory}
+                                  initialPrice={supplierData.initialPrice}
+                                  compact
+                                />
+                              </div>
+                            )}
                           </div>
                         </TooltipContent>
                       </Tooltip>
@@ -514,6 +595,17 @@ export function ComparisonMatrix({ matrixData, activeFilter = 'all', className }
           )}
         </div>
       </div>
+
+      {onAllocationsSaved && (
+        <AwardAllocationDialog
+          open={allocationProductId !== null}
+          onOpenChange={(open) => !open && setAllocationProductId(null)}
+          period={period}
+          region={region}
+          product={matrixData.products.find((p) => p.productId === allocationProductId) ?? null}
+          onSaved={onAllocationsSaved}
+        />
+      )}
     </TooltipProvider>
   );
 }
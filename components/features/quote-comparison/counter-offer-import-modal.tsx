@@ -0,0 +1,440 @@
+"use client";
+
+import * as React from "react";
+import { FileSpreadsheet, Upload, AlertCircle, CheckCircle, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { importCounterOffersFromExcel } from "@/lib/actions/quote-comparison.actions";
+import type {
+  CounterOfferImportResult,
+  CounterOfferLineStatus,
+} from "@/lib/types/quote-comparison.types";
+import { formatCurrency } from "@/lib/utils/price-calculation";
+
+interface CounterOfferImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: string;
+  region: string;
+  onImportComplete?: () => void;
+}
+
+// Import progress states
+type ImportState =
+  | { type: "idle" }
+  | { type: "processing"; files: number }
+  | { type: "success"; result: CounterOfferImportResult }
+  | { type: "error"; error: string };
+
+const LINE_STATUS_LABELS: Record<CounterOfferLineStatus, string> = {
+  accepted: "Đã cập nhật",
+  rejected: "Bị từ chối",
+  unchanged: "Không đổi",
+};
+
+const LINE_STATUS_VARIANTS: Record<
+  CounterOfferLineStatus,
+  "default" | "destructive" | "secondary"
+> = {
+  accepted: "default",
+  rejected: "destructive",
+  unchanged: "secondary",
+};
+
+export function CounterOfferImportModal({
+  open,
+  onOpenChange,
+  period,
+  region,
+  onImportComplete,
+}: CounterOfferImportModalProps) {
+  const [selectedFiles, setSelectedFiles] = React.useState<File[]>([]);
+  const [importState, setImportState] = React.useState<ImportState>({ type: "idle" });
+  const [isDragActive, setIsDragActive] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  // Reset state when modal closes
+  React.useEffect(() => {
+    if (!open) {
+      setSelectedFiles([]);
+      setImportState({ type: "idle" });
+    }
+  }, [open]);
+
+  // Validate and process files
+  const validateAndProcessFiles = (files: File[]) => {
+    const validFiles = files.filter(file => {
+      const isExcel = file.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
+                     file.name.endsWith(".xlsx");
+
+      if (!isExcel) {
+        toast.error(`File ${file.name} không phải là file Excel (.xlsx)`);
+        return false;
+      }
+
+      return true;
+    });
+
+    setSelectedFiles(prev => [...prev, ...validFiles]);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    validateAndProcessFiles(files);
+  };
+
+  // Drag and drop handlers
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragActive(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragActive(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragActive(false);
+
+    const files = Array.from(event.dataTransfer.files);
+    validateAndProcessFiles(files);
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setSelectedFiles(files => files.filter((_, i) => i !== index));
+  };
+
+  const handleClearFiles = () => {
+    setSelectedFiles([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (selectedFiles.length === 0) {
+      toast.error("Vui lòng chọn ít nhất một file Excel");
+      return;
+    }
+
+    try {
+      setImportState({ type: "processing", files: selectedFiles.length });
+
+      const result = await importCounterOffersFromExcel(selectedFiles, {
+        period,
+        region,
+      });
+
+      if (result.success) {
+        setImportState({ type: "success", result });
+        toast.success(
+          `Đã cập nhật ${result.acceptedLines} giá đàm phán, ${result.rejectedLines} bị từ chối, ${result.unchangedLines} không đổi`
+        );
+        setSelectedFiles([]);
+
+        if (result.acceptedLines > 0) {
+          onImportComplete?.();
+        }
+      } else {
+        setImportState({
+          type: "error",
+          error: result.errors.join(", ") || "Có lỗi xảy ra khi nhập giá đàm phán",
+        });
+      }
+    } catch (error) {
+      console.error("Counter-offer import error:", error);
+      setImportState({
+        type: "error",
+        error: error instanceof Error ? error.message : "Lỗi không xác định",
+      });
+    }
+  };
+
+  const isProcessing = importState.type === "processing";
+  const canSubmit = selectedFiles.length > 0 && !isProcessing;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Nhập giá đàm phán từ nhà cung cấp
+          </DialogTitle>
+          <DialogDescription>
+            Tải lên các file giá mục tiêu đã được nhà cung cấp điền cột "Giá đề xuất của NCC".
+            Kỳ {period} - Khu vực {region}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-6">
+            {/* Import Result */}
+            {importState.type !== "idle" && (
+              <Card>
+                <CardContent className="pt-6">
+                  <CounterOfferImportProgress state={importState} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* File Selection with Drag & Drop */}
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm font-medium">Chọn file giá mục tiêu</label>
+                <div
+                  className={`mt-2 border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                    isDragActive
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-300 hover:border-gray-400"
+                  } ${isProcessing ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  onClick={() => !isProcessing && fileInputRef.current?.click()}
+                >
+                  <Upload className={`h-8 w-8 mx-auto mb-2 ${isDragActive ? "text-blue-600" : "text-gray-400"}`} />
+                  <p className="text-sm font-medium mb-1">
+                    {isDragActive ? "Thả file vào đây..." : "Kéo thả file Excel hoặc nhấn để chọn"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Hỗ trợ file .xlsx đã xuất từ chức năng "Xuất & Đàm phán"
+                  </p>
+                </div>
+                {selectedFiles.length > 0 && (
+                  <div className="mt-2 flex justify-end">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleClearFiles}
+                      disabled={isProcessing}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Xóa tất cả
+                    </Button>
+                  </div>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+              </div>
+
+              {/* Selected Files */}
+              {selectedFiles.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    File đã chọn ({selectedFiles.length})
+                  </label>
+                  <div className="space-y-2 max-h-32 overflow-y-auto">
+                    {selectedFiles.map((file, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center justify-between p-2 bg-muted rounded-md"
+                      >
+                        <div className="flex items-center gap-2 min-w-0 flex-1">
+                          <FileSpreadsheet className="h-4 w-4 text-green-600" />
+                          <span className="text-sm truncate" title={file.name}>
+                            {file.name}
+                          </span>
+                          <Badge variant="outline" className="text-xs">
+                            {(file.size / 1024).toFixed(0)} KB
+                          </Badge>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveFile(index)}
+                          disabled={isProcessing}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isProcessing}
+          >
+            Đóng
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={!canSubmit}
+            className="min-w-[120px]"
+          >
+            {isProcessing ? (
+              <div className="flex items-center gap-2">
+                <div className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                Đang xử lý...
+              </div>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Nhập giá ({selectedFiles.length})
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Import progress and result component
+function CounterOfferImportProgress({ state }: { state: ImportState }) {
+  switch (state.type) {
+    case "processing":
+      return (
+        <div className="flex items-center gap-2">
+          <div className="h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+          <span className="text-sm">Đang xử lý {state.files} file...</span>
+        </div>
+      );
+
+    case "success": {
+      const { result } = state;
+      // Show changed and rejected lines first - unchanged lines are the least interesting
+      const lines = [...result.lines].sort((a, b) => {
+        const order: Record<CounterOfferLineStatus, number> = {
+          rejected: 0,
+          accepted: 1,
+          unchanged: 2,
+        };
+        return order[a.status] - order[b.status];
+      });
+
+      return (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-green-600">
+            <CheckCircle className="h-5 w-5" />
+            <span className="font-medium">Đã xử lý xong!</span>
+          </div>
+          <div className="grid grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">File đã xử lý:</span>
+              <span className="font-medium ml-1">{result.processedFiles}/{result.totalFiles}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Đã cập nhật:</span>
+              <span className="font-medium ml-1 text-green-600">{result.acceptedLines}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Bị từ chối:</span>
+              <span className="font-medium ml-1 text-red-600">{result.rejectedLines}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Không đổi:</span>
+              <span className="font-medium ml-1">{result.unchangedLines}</span>
+            </div>
+          </div>
+
+          {[...result.errors, ...result.warnings].length > 0 && (
+            <div className="space-y-1">
+              <span className="text-sm text-yellow-600 font-medium">Cảnh báo:</span>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {[...result.errors, ...result.warnings].map((message, index) => (
+                  <li key={index}>• {message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {lines.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>NCC</TableHead>
+                    <TableHead>Mã SP</TableHead>
+                    <TableHead className="text-right">Giá hiện tại</TableHead>
+                    <TableHead className="text-right">Giá đề xuất</TableHead>
+                    <TableHead>Kết quả</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={`${line.fileName}-${line.row}`}>
+                      <TableCell className="text-xs">{line.supplierCode || "-"}</TableCell>
+                      <TableCell className="text-xs font-medium">{line.productCode}</TableCell>
+                      <TableCell className="text-xs text-right">
+                        {line.previousPrice !== null ? formatCurrency(line.previousPrice) : "-"}
+                      </TableCell>
+                      <TableCell className="text-xs text-right">
+                        {line.counterOffer !== null ? formatCurrency(line.counterOffer) : "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <Badge variant={LINE_STATUS_VARIANTS[line.status]} className="text-xs">
+                          {LINE_STATUS_LABELS[line.status]}
+                        </Badge>
+                        {line.message && (
+                          <div className="text-muted-foreground mt-1">{line.message}</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case "error":
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-5 w-5" />
+            <span className="font-medium">Có lỗi xảy ra</span>
+          </div>
+          <p className="text-sm text-muted-foreground">{state.error}</p>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Plus, Target, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  createTargetPriceRule,
+  deleteTargetPriceRule,
+  getTargetPriceRules,
+  previewTargetPrices,
+  updateTargetPriceRule,
+} from "@/lib/actions/quote-comparison.actions";
+import type {
+  TargetPricePreviewRow,
+  TargetPriceRuleEntry,
+} from "@/lib/types/quote-comparison.types";
+import { formatNumber } from "@/lib/utils";
+import {
+  TARGET_PRICE_BASELINES,
+  TARGET_PRICE_BASELINE_LABELS,
+  type TargetPriceBaseline,
+} from "@/lib/utils/target-price-rules";
+
+// Select items cannot carry an empty value
+const ALL_SCOPE = "__all__";
+
+interface RuleFormState {
+  name: string;
+  category: string;
+  region: string;
+  baseline: TargetPriceBaseline;
+  adjustmentPercent: string;
+  capAtBasePrice: boolean;
+  floorAtHistoricalLow: boolean;
+  priority: string;
+}
+
+const EMPTY_RULE_FORM: RuleFormState = {
+  name: "",
+  category: ALL_SCOPE,
+  region: ALL_SCOPE,
+  baseline: "min_best_previous",
+  adjustmentPercent: "0",
+  capAtBasePrice: false,
+  floorAtHistoricalLow: false,
+  priority: "0",
+};
+
+const formatPrice = (value: number | null) =>
+  value === null ? "-" : formatNumber(value);
+
+export interface TargetPriceRulesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: string;
+  region: string;
+  categories: string[];
+}
+
+/**
+ * Target price rules manager with a preview of the prices the negotiation
+ * export would send for the current comparison filters
+ */
+export function TargetPriceRulesModal({
+  open,
+  onOpenChange,
+  period,
+  region,
+  categories,
+}: TargetPriceRulesModalProps) {
+  const [preview, setPreview] = useState<TargetPricePreviewRow[]>([]);
+  const [rules, setRules] = useState<TargetPriceRuleEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<RuleFormState>(EMPTY_RULE_FORM);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [previewRows, ruleEntries] = await Promise.all([
+        previewTargetPrices({ period, region, categories }),
+        getTargetPriceRules(),
+      ]);
+      setPreview(previewRows);
+      setRules(ruleEntries);
+    } catch (error) {
+      console.error("Error loading target price rules:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi tải quy tắc giá mục tiêu"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [period, region, categories]);
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+    }
+  }, [open, loadData]);
+
+  // Run a rule mutation, then refresh rules and preview
+  const runAction = async (action: () => Promise<{ success: string }>) => {
+    try {
+      setSaving(true);
+      const result = await action();
+      toast.success(result.success);
+      await loadData();
+      return true;
+    } catch (error) {
+      console.error("Error saving target price rule:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Lỗi khi lưu quy tắc giá mục tiêu"
+      );
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateRule = async () => {
+    const created = await runAction(() =>
+      createTargetPriceRule({
+        name: form.name,
+        category: form.category === ALL_SCOPE ? null : form.category,
+        region: form.region === ALL_SCOPE ? null : form.region,
+        baseline: form.baseline,
+        adjustmentPercent: Number(form.adjustmentPercent) || 0,
+        capAtBasePrice: form.capAtBasePrice,
+        floorAtHistoricalLow: form.floorAtHistoricalLow,
+        priority: Number.parseInt(form.priority, 10) || 0,
+      })
+    );
+
+    if (created) {
+      setForm(EMPTY_RULE_FORM);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Giá mục tiêu
+          </DialogTitle>
+          <DialogDescription>
+            Giá mục tiêu được tính theo quy tắc cụ thể nhất cho nhóm hàng và khu vực.
+            Kỳ {period} - Khu vực {region}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="preview">
+          <TabsList>
+            <TabsTrigger value="preview">Xem trước</TabsTrigger>
+            <TabsTrigger value="rules">Quy tắc ({rules.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="preview">
+            <ScrollArea className="h-[60vh] pr-4">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sản phẩm</TableHead>
+                      <TableHead className="text-right">Giá tốt nhất</TableHead>
+                      <TableHead className="text-right">Giá duyệt kỳ trước</TableHead>
+                      <TableHead className="text-right">Giá cơ sở</TableHead>
+                      <TableHead className="text-right">Giá duyệt thấp nhất</TableHead>
+                      <TableHead className="text-right">Giá mục tiêu</TableHead>
+                      <TableHead>Quy tắc</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((row) => (
+                      <TableRow key={row.productId}>
+                        <TableCell>
+                          <div className="font-medium">{row.productName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {row.productCode} • {row.category}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatPrice(row.bestPrice)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPrice(row.previousApprovedPrice)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatPrice(row.basePrice)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPrice(row.historicalLowPrice)}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold text-blue-700">
+                          {formatPrice(row.targetPrice)}
+                        </TableCell>
+                        <TableCell className="text-xs">{row.ruleName}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <ScrollArea className="h-[60vh] pr-4">
+              <div className="space-y-6">
+                {/* New rule */}
+                <div className="grid grid-cols-4 gap-3 rounded-md border p-4">
+                  <div className="col-span-2 space-y-1">
+                    <Label htmlFor="rule-name">Tên quy tắc</Label>
+                    <Input
+                      id="rule-name"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="VD: Rau củ - giảm 3% so với giá tốt nhất"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Nhóm hàng</Label>
+                    <Select
+                      value={form.category}
+                      onValueChange={(category) => setForm({ ...form, category })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_SCOPE}>Tất cả nhóm hàng</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Khu vực</Label>
+                    <Select
+                      value={form.region}
+                      onValueChange={(value) => setForm({ ...form, region: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_SCOPE}>Tất cả khu vực</SelectItem>
+                        <SelectItem value={region}>{region}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label>Giá gốc</Label>
+                    <Select
+                      value={form.baseline}
+                      onValueChange={(baseline) =>
+                        setForm({ ...form, baseline: baseline as TargetPriceBaseline })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TARGET_PRICE_BASELINES.map((baseline) => (
+                          <SelectItem key={baseline} value={baseline}>
+                            {TARGET_PRICE_BASELINE_LABELS[baseline]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rule-adjustment">Điều chỉnh (%)</Label>
+                    <Input
+                      id="rule-adjustment"
+                      type="number"
+                      step="0.5"
+                      value={form.adjustmentPercent}
+                      onChange={(e) => setForm({ ...form, adjustmentPercent: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rule-priority">Độ ưu tiên</Label>
+                    <Input
+                      id="rule-priority"
+                      type="number"
+                      value={form.priority}
+                      onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                    />
+                  </div>
+                  <div className="col-span-3 flex items-center gap-6">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="rule-cap"
+                        checked={form.capAtBasePrice}
+                        onCheckedChange={(checked) =>
+                          setForm({ ...form, capAtBasePrice: checked === true })
+                        }
+                      />
+                      <Label htmlFor="rule-cap">Không vượt giá cơ sở</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="rule-floor"
+                        checked={form.floorAtHistoricalLow}
+                        onCheckedChange={(checked) =>
+                          setForm({ ...form, floorAtHistoricalLow: checked === true })
+                        }
+                      />
+                      <Label htmlFor="rule-floor">Không thấp hơn giá duyệt thấp nhất</Label>
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleCreateRule} disabled={saving || !form.name.trim()}>
+                      {saving ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Plus className="h-4 w-4 mr-2" />
+                      )}
+                      Thêm quy tắc
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Existing rules */}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Áp dụng</TableHead>
+                      <TableHead>Tên quy tắc</TableHead>
+                      <TableHead>Phạm vi</TableHead>
+                      <TableHead>Công thức</TableHead>
+                      <TableHead className="text-right">Ưu tiên</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          Chưa có quy tắc nào - giá mục tiêu mặc định là giá tốt nhất
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      rules.map((rule) => (
+                        <TableRow key={rule.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={rule.isActive}
+                              disabled={saving}
+                              onCheckedChange={(checked) =>
+                                runAction(() =>
+                                  updateTargetPriceRule({
+                                    id: rule.id,
+                                    isActive: checked === true,
+                                  })
+                                )
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{rule.name}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant="outline">{rule.category ?? "Tất cả nhóm hàng"}</Badge>
+                              <Badge variant="outline">{rule.region ?? "Tất cả khu vực"}</Badge>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-xs">{rule.description}</TableCell>
+                          <TableCell className="text-right">{rule.priority}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={saving}
+                              onClick={() => runAction(() => deleteTargetPriceRule(rule.id))}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
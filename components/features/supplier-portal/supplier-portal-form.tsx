@@ -0,0 +1,268 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { AlertCircle, CheckCircle, Loader2, Send } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { submitSupplierPortalQuotation } from "@/lib/actions/supplier-portal.actions";
+import type { SupplierPortalQuotation } from "@/lib/types/supplier-portal.types";
+import { formatCurrency } from "@/lib/utils/price-calculation";
+import { getStatusClassName, getStatusLabel } from "@/lib/utils/status-styles";
+
+interface SupplierPortalFormProps {
+  token: string;
+  quotation: SupplierPortalQuotation;
+}
+
+interface PriceRow {
+  price: string;
+  vatRate: string;
+  notes: string;
+}
+
+const formatDateTime = (value: Date | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: vi }) : "-";
+
+/**
+ * Supplier portal form
+ * Lists the products the supplier is asked to quote with the regional
+ * quantities; rows left without a price are not submitted.
+ */
+export function SupplierPortalForm({ token, quotation }: SupplierPortalFormProps) {
+  const router = useRouter();
+  const [submitting, setSubmitting] = useState(false);
+  const [rows, setRows] = useState<Record<number, PriceRow>>(() =>
+    Object.fromEntries(
+      quotation.products.map((product) => [
+        product.productId,
+        {
+          price: product.price !== null ? String(product.price) : "",
+          vatRate: product.vatRate !== null ? String(product.vatRate) : "",
+          notes: product.notes ?? "",
+        },
+      ])
+    )
+  );
+
+  const readOnly = quotation.blockReason !== null;
+
+  const updateRow = (productId: number, changes: Partial<PriceRow>) => {
+    setRows((current) => ({
+      ...current,
+      [productId]: { ...current[productId], ...changes },
+    }));
+  };
+
+  // Totals over the rows that have a price
+  const { pricedCount, totalValue } = useMemo(() => {
+    let count = 0;
+    let total = 0;
+
+    for (const product of quotation.products) {
+      const row = rows[product.productId];
+      if (!row || row.price.trim() === "") continue;
+
+      const price = Number(row.price);
+      const vatRate = Number(row.vatRate || 0);
+      if (!Number.isFinite(price) || !Number.isFinite(vatRate)) continue;
+
+      count++;
+      total += price * product.quantity * (1 + vatRate / 100);
+    }
+
+    return { pricedCount: count, totalValue: total };
+  }, [quotation.products, rows]);
+
+  const handleSubmit = async () => {
+    const items = quotation.products
+      .filter((product) => rows[product.productId]?.price.trim())
+      .map((product) => {
+        const row = rows[product.productId];
+        return {
+          productId: product.productId,
+          price: Number(row.price),
+          vatRate: Number(row.vatRate || 0),
+          notes: row.notes.trim() || undefined,
+        };
+      });
+
+    if (items.length === 0) {
+      toast.error("Vui lòng nhập giá cho ít nhất một sản phẩm");
+      return;
+    }
+
+    if (items.some((item) => !Number.isFinite(item.price) || !Number.isFinite(item.vatRate))) {
+      toast.error("Giá và VAT phải là số hợp lệ");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const result = await submitSupplierPortalQuotation({ token, items });
+
+      toast.success(result.success);
+      if (result.flaggedItems > 0) {
+        toast.warning(
+          `${result.flaggedItems} sản phẩm có giá bất thường - bộ phận thu mua có thể liên hệ để xác nhận`
+        );
+      }
+      router.refresh();
+    } catch (error) {
+      console.error("Error submitting portal quotation:", error);
+      toast.error(error instanceof Error ? error.message : "Lỗi khi gửi báo giá");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center gap-2">
+            {quotation.supplierName}
+            <span className="text-sm font-normal text-muted-foreground">
+              ({quotation.supplierCode})
+            </span>
+            {quotation.quotationStatus && (
+              <Badge variant="outline" className={getStatusClassName(quotation.quotationStatus)}>
+                {getStatusLabel(quotation.quotationStatus)}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2 text-sm sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <span className="text-muted-foreground">Kỳ báo giá: </span>
+            {quotation.period}
+            {quotation.periodName && ` - ${quotation.periodName}`}
+          </div>
+          <div>
+            <span className="text-muted-foreground">Khu vực: </span>
+            {quotation.region}
+          </div>
+          <div>
+            <span className="text-muted-foreground">Hạn nộp: </span>
+            {formatDateTime(quotation.submissionDeadline)}
+          </div>
+          <div>
+            <span className="text-muted-foreground">Đã gửi lần cuối: </span>
+            {formatDateTime(quotation.submittedAt)}
+          </div>
+        </CardContent>
+      </Card>
+
+      {readOnly && (
+        <div className="flex items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertCircle className="h-4 w-4" />
+          {quotation.blockReason}
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mã SP</TableHead>
+                <TableHead>Tên sản phẩm</TableHead>
+                <TableHead>Quy cách</TableHead>
+                <TableHead>ĐVT</TableHead>
+                <TableHead className="text-right">Số lượng</TableHead>
+                <TableHead className="w-[160px]">Đơn giá (VND)</TableHead>
+                <TableHead className="w-[90px]">VAT %</TableHead>
+                <TableHead className="w-[200px]">Ghi chú</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotation.products.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                    Chưa có sản phẩm nào cần báo giá trong kỳ này
+                  </TableCell>
+                </TableRow>
+              ) : (
+                quotation.products.map((product) => {
+                  const row = rows[product.productId];
+
+                  return (
+                    <TableRow key={product.productId}>
+                      <TableCell className="font-medium">{product.productCode}</TableCell>
+                      <TableCell>{product.productName}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {product.specification || "-"}
+                      </TableCell>
+                      <TableCell>{product.unit}</TableCell>
+                      <TableCell className="text-right">
+                        {product.quantity.toLocaleString("vi-VN")}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={row.price}
+                          onChange={(e) => updateRow(product.productId, { price: e.target.value })}
+                          disabled={readOnly || submitting}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={row.vatRate}
+                          onChange={(e) => updateRow(product.productId, { vatRate: e.target.value })}
+                          placeholder="0"
+                          disabled={readOnly || submitting}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.notes}
+                          onChange={(e) => updateRow(product.productId, { notes: e.target.value })}
+                          maxLength={500}
+                          disabled={readOnly || submitting}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          Đã nhập giá {pricedCount}/{quotation.products.length} sản phẩm - Tổng giá trị (gồm VAT):{" "}
+          <span className="font-semibold">{formatCurrency(totalValue)}</span>
+        </div>
+        <Button onClick={handleSubmit} disabled={readOnly || submitting || pricedCount === 0}>
+          {submitting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          Gửi báo giá
+        </Button>
+      </div>
+    </div>
+  );
+}
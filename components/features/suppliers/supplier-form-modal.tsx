@@ -67,6 +67,7 @@ export function SupplierFormModal({
       contactPerson: '',
       phone: '',
       email: '',
+      minOrderValue: '',
       ...(isEditMode && supplier && {
         id: supplier.id,
       }),
@@ -90,6 +91,7 @@ export function SupplierFormModal({
           contactPerson: supplier.contactPerson || '',
           phone: supplier.phone || '',
           email: supplier.email || '',
+          minOrderValue: supplier.minOrderValue ? String(parseFloat(supplier.minOrderValue)) : '',
         });
       } else {
         // Reset form for create mode
@@ -101,6 +103,7 @@ export function SupplierFormModal({
           contactPerson: '',
           phone: '',
           email: '',
+          minOrderValue: '',
         });
       }
     }
@@ -329,6 +332,26 @@ export function SupplierFormModal({
                   </FormItem>
                 )}
               />
+
+              {/* Minimum Order Value */}
+              <FormField
+                control={form.control}
+                name="minOrderValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Giá trị đơn hàng tối thiểu (VND)</FormLabel>
+                    <FormControl>
+                      <Input
+                        inputMode="decimal"
+                        placeholder="VD: 5000000"
+                        {...field}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             {/* Address - Full width */}
@@ -20,6 +20,13 @@ import {
   Upload,
   GitCompare,
   FileText,
+  ClipboardCheck,
+  ClipboardList,
+  ShoppingCart,
+  Receipt,
+  Wallet,
+  CalendarRange,
+  History,
   Users,
   Building,
   Package,
@@ -58,6 +65,13 @@ const iconMap: Record<string, LucideIcon> = {
   Upload,
   GitCompare,
   FileText,
+  ClipboardCheck,
+  ClipboardList,
+  ShoppingCart,
+  Receipt,
+  Wallet,
+  CalendarRange,
+  History,
   Users,
   Building,
   Package,
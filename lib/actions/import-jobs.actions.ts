@@ -0,0 +1,316 @@
+"use server";
+
+import { z } from "zod";
+import ExcelJS from "exceljs";
+import { db } from "@/lib/db/drizzle";
+import {
+  importJobs,
+  importJobFiles,
+  importJobMessages,
+  storedFiles,
+  users,
+} from "@/lib/db/schema";
+import { getUser } from "@/lib/db/queries";
+import { and, asc, desc, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import { getPermittedRegions, getUserPermissions } from "@/lib/auth/permissions";
+import {
+  createSignedFileLink,
+  openStoredFile,
+} from "@/lib/storage/stored-files";
+import { readQuotationSheets, toPlainCellValue } from "@/lib/utils/excel-parser";
+import {
+  annotateSheetRows,
+  getRowErrorMessages,
+  toWorksheetNames,
+  type ImportJobStatus,
+  type ImportJobType,
+} from "@/lib/utils/import-jobs";
+import {
+  ImportJobFiltersSchema,
+  type ImportJobEntry,
+  type ImportJobMessageEntry,
+  type ImportJobsResponse,
+} from "@/lib/types/import-jobs.types";
+
+const ERROR_SUMMARY_SHEET = "Tóm tắt lỗi";
+
+/**
+ * Condition for the import jobs the current user may see
+ * Quotation imports need canCreateQuotes (team-restricted users see their
+ * regions only), product imports canManageProducts.
+ */
+async function getImportJobAccessCondition(): Promise<SQL> {
+  const user = await getUser();
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để xem lịch sử nhập file");
+  }
+
+  const permissions = await getUserPermissions(user.id);
+  const conditions: SQL[] = [];
+
+  if (permissions.canCreateQuotes) {
+    const regions = await getPermittedRegions(user.id, permissions);
+    conditions.push(
+      regions === null
+        ? eq(importJobs.type, "quotations")
+        : regions.length > 0
+          ? and(eq(importJobs.type, "quotations"), inArray(importJobs.region, regions))!
+          : sql`false`
+    );
+  }
+
+  if (permissions.canManageProducts) {
+    conditions.push(eq(importJobs.type, "products"));
+  }
+
+  if (conditions.length === 0) {
+    throw new Error("Forbidden: Bạn không có quyền xem lịch sử nhập file");
+  }
+
+  return or(...conditions)!;
+}
+
+/**
+ * Get import jobs, newest first, with their files and message counts
+ */
+export async function getImportJobs(
+  filters: z.input<typeof ImportJobFiltersSchema> = {}
+): Promise<ImportJobsResponse> {
+  try {
+    const { type, jobId, page, limit } = ImportJobFiltersSchema.parse(filters);
+
+    // Step 1: Only jobs the user may see
+    const whereCondition = and(
+      await getImportJobAccessCondition(),
+      type ? eq(importJobs.type, type) : undefined,
+      jobId ? eq(importJobs.id, jobId) : undefined
+    );
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(importJobs)
+      .where(whereCondition);
+
+    const jobs = await db
+      .select({
+        job: importJobs,
+        createdByName: users.name,
+      })
+      .from(importJobs)
+      .leftJoin(users, eq(importJobs.createdBy, users.id))
+      .where(whereCondition)
+      .orderBy(desc(importJobs.createdAt), desc(importJobs.id))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const pagination = { page, limit, total: count, totalPages: Math.ceil(count / limit) };
+    const jobIds = jobs.map(({ job }) => job.id);
+    if (jobIds.length === 0) {
+      return { data: [], pagination };
+    }
+
+    // Step 2: Files with their stored copy, and message counts
+    const files = await db
+      .select({ file: importJobFiles, storedFile: storedFiles })
+      .from(importJobFiles)
+      .leftJoin(storedFiles, eq(importJobFiles.storedFileId, storedFiles.id))
+      .where(inArray(importJobFiles.jobId, jobIds))
+      .orderBy(asc(importJobFiles.id));
+
+    const messageCounts = await db
+      .select({
+        jobId: importJobMessages.jobId,
+        jobFileId: importJobMessages.jobFileId,
+        level: importJobMessages.level,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(importJobMessages)
+      .where(inArray(importJobMessages.jobId, jobIds))
+      .groupBy(importJobMessages.jobId, importJobMessages.jobFileId, importJobMessages.level);
+
+    const countMessages = (level: string, match: (row: (typeof messageCounts)[number]) => boolean) =>
+      messageCounts
+        .filter((row) => row.level === level && match(row))
+        .reduce((sum, row) => sum + row.count, 0);
+
+    // Step 3: Assemble - source files are handed out as signed links since the
+    // session download route requires canNegotiateQuotes
+    const now = new Date();
+
+    const data: ImportJobEntry[] = jobs.map(({ job, createdByName }) => ({
+      id: job.id,
+      type: job.type as ImportJobType,
+      status: job.status as ImportJobStatus,
+      region: job.region,
+      period: job.period,
+      totalFiles: job.totalFiles,
+      processedFiles: job.processedFiles,
+      createdCount: job.createdCount,
+      updatedCount: job.updatedCount,
+      itemCount: job.itemCount,
+      errorCount: countMessages("error", (row) => row.jobId === job.id),
+      warningCount: countMessages("warning", (row) => row.jobId === job.id),
+      createdByName,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      files: files
+        .filter(({ file }) => file.jobId === job.id)
+        .map(({ file, storedFile }) => ({
+          id: file.id,
+          fileName: file.fileName,
+          downloadUrl:
+            storedFile && storedFile.expiresAt > now ? createSignedFileLink(storedFile) : null,
+          errorCount: countMessages("error", (row) => row.jobFileId === file.id),
+        })),
+    }));
+
+    return { data, pagination };
+  } catch (error) {
+    console.error("Error in getImportJobs:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải lịch sử nhập file"
+    );
+  }
+}
+
+/**
+ * Get the errors and warnings of an import job, errors first
+ */
+export async function getImportJobMessages(jobId: number): Promise<ImportJobMessageEntry[]> {
+  try {
+    const [job] = await db
+      .select({ id: importJobs.id })
+      .from(importJobs)
+      .where(and(eq(importJobs.id, jobId), await getImportJobAccessCondition()))
+      .limit(1);
+
+    if (!job) {
+      throw new Error("Không tìm thấy lần nhập");
+    }
+
+    const messages = await db
+      .select({
+        id: importJobMessages.id,
+        level: importJobMessages.level,
+        fileName: importJobFiles.fileName,
+        sheetName: importJobMessages.sheetName,
+        rowNumber: importJobMessages.rowNumber,
+        message: importJobMessages.message,
+      })
+      .from(importJobMessages)
+      .leftJoin(importJobFiles, eq(importJobMessages.jobFileId, importJobFiles.id))
+      .where(eq(importJobMessages.jobId, job.id))
+      .orderBy(asc(importJobMessages.level), asc(importJobMessages.id));
+
+    return messages.map((message) => ({
+      ...message,
+      level: message.level as ImportJobMessageEntry["level"],
+    }));
+  } catch (error) {
+    console.error("Error in getImportJobMessages:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải lỗi của lần nhập"
+    );
+  }
+}
+
+/**
+ * Export the annotated error workbook of an uploaded file: a summary of its
+ * errors, then its sheets with each row's errors in an extra column
+ */
+export async function exportImportJobErrors(jobFileId: number): Promise<Blob> {
+  try {
+    // Step 1: Load the file of a job the user may see
+    const [jobFile] = await db
+      .select({ file: importJobFiles, storedFile: storedFiles })
+      .from(importJobFiles)
+      .innerJoin(importJobs, eq(importJobFiles.jobId, importJobs.id))
+      .leftJoin(storedFiles, eq(importJobFiles.storedFileId, storedFiles.id))
+      .where(and(eq(importJobFiles.id, jobFileId), await getImportJobAccessCondition()))
+      .limit(1);
+
+    if (!jobFile) {
+      throw new Error("Không tìm thấy file của lần nhập");
+    }
+
+    const { file, storedFile } = jobFile;
+    if (!storedFile || storedFile.expiresAt <= new Date()) {
+      throw new Error("File gốc đã hết hạn lưu trữ, không thể tạo file lỗi");
+    }
+
+    const errors = await db
+      .select({
+        sheetName: importJobMessages.sheetName,
+        rowNumber: importJobMessages.rowNumber,
+        message: importJobMessages.message,
+      })
+      .from(importJobMessages)
+      .where(and(eq(importJobMessages.jobFileId, file.id), eq(importJobMessages.level, "error")))
+      .orderBy(asc(importJobMessages.id));
+
+    // Step 2: Read the uploaded file back from storage
+    const chunks: Buffer[] = [];
+    for await (const chunk of await openStoredFile(storedFile)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    const sheets = await readQuotationSheets(new File([Buffer.concat(chunks)], file.fileName));
+
+    // Step 3: Error summary, then the annotated sheets
+    const workbook = new ExcelJS.Workbook();
+    const errorFill: ExcelJS.Fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFFDE2E2" },
+    };
+
+    const summarySheet = workbook.addWorksheet(ERROR_SUMMARY_SHEET);
+    summarySheet.columns = [
+      { header: "Sheet", width: 24 },
+      { header: "Dòng", width: 8 },
+      { header: "Lỗi", width: 80 },
+    ];
+    summarySheet.getRow(1).font = { bold: true };
+    errors.forEach((error) =>
+      summarySheet.addRow([error.sheetName ?? "", error.rowNumber ?? "", error.message])
+    );
+
+    // Errors refer to the uploaded sheet names, which Excel may not accept as they are
+    const worksheetNames = toWorksheetNames(
+      sheets.map((sheet) => sheet.name),
+      [ERROR_SUMMARY_SHEET]
+    );
+
+    for (const [index, sheet] of sheets.entries()) {
+      const worksheet = workbook.addWorksheet(worksheetNames[index]);
+      const rowErrors = getRowErrorMessages(errors, sheet.name);
+
+      // Sheets without located errors are copied as they are
+      if (rowErrors.size === 0) {
+        sheet.rows.forEach((row) => worksheet.addRow(row.map(toPlainCellValue)));
+        continue;
+      }
+
+      const { rows, errorColumn } = annotateSheetRows(sheet.rows, rowErrors);
+      rows.forEach((row) => worksheet.addRow(row.map(toPlainCellValue)));
+      worksheet.getColumn(errorColumn).width = 60;
+      worksheet.getCell(1, errorColumn).font = { bold: true };
+
+      rowErrors.forEach((_, rowNumber) => {
+        const row = worksheet.getRow(rowNumber);
+        row.fill = errorFill;
+        row.getCell(errorColumn).font = { color: { argb: "FFC00000" } };
+      });
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    return new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } catch (error) {
+    console.error("Error in exportImportJobErrors:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tạo file lỗi"
+    );
+  }
+}
@@ -0,0 +1,237 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import {
+  activityLogs,
+  ActivityType,
+  supplierImportProfiles,
+  suppliers,
+} from "@/lib/db/schema";
+import { getUser, getUserWithTeam } from "@/lib/db/queries";
+import { getProfileColumns } from "@/lib/db/quotation-import";
+import { eq, asc } from "drizzle-orm";
+import { requirePermission } from "@/lib/auth/permissions";
+import { readWorkbookPreview } from "@/lib/utils/excel-parser";
+import {
+  detectHeaderRow,
+  getColumnLetter,
+  IMPORT_FIELD_LABELS,
+  suggestColumnMapping,
+  type ImportProfileField,
+} from "@/lib/utils/import-profile";
+import {
+  SaveImportProfileSchema,
+  DeleteImportProfileSchema,
+  type ImportFilePreview,
+  type ImportProfileEntry,
+} from "@/lib/types/import-profile.types";
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+/**
+ * Require permission to import quotations, which the profiles drive
+ */
+async function checkImportRole() {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để cấu hình nhập báo giá");
+  }
+
+  await requirePermission(user.id, "canCreateQuotes");
+
+  return user;
+}
+
+async function getSupplier(supplierId: number) {
+  const [supplier] = await db
+    .select({ id: suppliers.id, code: suppliers.supplierCode, name: suppliers.name })
+    .from(suppliers)
+    .where(eq(suppliers.id, supplierId))
+    .limit(1);
+
+  if (!supplier) {
+    throw new Error("Không tìm thấy nhà cung cấp");
+  }
+
+  return supplier;
+}
+
+// ==================== IMPORT PROFILE ACTIONS ====================
+
+/**
+ * Every supplier import profile
+ */
+export async function getImportProfiles(): Promise<ImportProfileEntry[]> {
+  try {
+    await checkImportRole();
+
+    const rows = await db
+      .select({
+        profile: supplierImportProfiles,
+        supplierCode: suppliers.supplierCode,
+        supplierName: suppliers.name,
+      })
+      .from(supplierImportProfiles)
+      .innerJoin(suppliers, eq(supplierImportProfiles.supplierId, suppliers.id))
+      .orderBy(asc(suppliers.supplierCode));
+
+    return rows.map((row) => ({
+      supplierId: row.profile.supplierId,
+      supplierCode: row.supplierCode,
+      supplierName: row.supplierName,
+      sheetName: row.profile.sheetName,
+      headerRow: row.profile.headerRow,
+      columns: getProfileColumns(row.profile),
+      updatedAt: row.profile.updatedAt,
+    }));
+  } catch (error) {
+    console.error("Error in getImportProfiles:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải cấu hình nhập báo giá"
+    );
+  }
+}
+
+/**
+ * Leading rows of a supplier file with the mapping to start the wizard from
+ * The supplier's saved profile is used when it still fits the file, otherwise
+ * the header row and columns are detected from the first sheet.
+ */
+export async function previewImportFile(
+  file: File,
+  supplierId?: number
+): Promise<ImportFilePreview> {
+  try {
+    await checkImportRole();
+
+    const sheets = await readWorkbookPreview(file);
+    if (sheets.length === 0) {
+      throw new Error("File không có sheet nào");
+    }
+
+    if (supplierId) {
+      const [profile] = await db
+        .select()
+        .from(supplierImportProfiles)
+        .where(eq(supplierImportProfiles.supplierId, supplierId))
+        .limit(1);
+
+      if (profile && (!profile.sheetName || sheets.some((s) => s.name === profile.sheetName))) {
+        return {
+          sheets,
+          sheetName: profile.sheetName,
+          headerRow: profile.headerRow,
+          columns: getProfileColumns(profile),
+          fromProfile: true,
+        };
+      }
+    }
+
+    const headerRow = detectHeaderRow(sheets[0].rows);
+
+    return {
+      sheets,
+      sheetName: null,
+      headerRow,
+      columns: suggestColumnMapping(sheets[0].rows[headerRow - 1] ?? []),
+      fromProfile: false,
+    };
+  } catch (error) {
+    console.error("Error in previewImportFile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi đọc file báo giá"
+    );
+  }
+}
+
+/**
+ * Create or replace a supplier's import profile
+ */
+export async function saveImportProfile(
+  data: z.input<typeof SaveImportProfileSchema>
+): Promise<{ success: string }> {
+  try {
+    const user = await checkImportRole();
+    const { supplierId, sheetName, headerRow, columns } = SaveImportProfileSchema.parse(data);
+
+    // Step 1: Validate the supplier
+    const supplier = await getSupplier(supplierId);
+
+    const logTeamId = (await getUserWithTeam(user.id))?.teamId;
+    if (!logTeamId) {
+      throw new Error("Không xác định được nhóm của người dùng");
+    }
+
+    const values = {
+      sheetName: sheetName || null,
+      headerRow,
+      productCodeColumn: columns.productCode,
+      priceColumn: columns.initialPrice,
+      vatColumn: columns.vatRate ?? null,
+      unitColumn: columns.unit ?? null,
+      quantityColumn: columns.quantity ?? null,
+      notesColumn: columns.notes ?? null,
+      updatedBy: user.id,
+      updatedAt: new Date(),
+    };
+
+    const mappingSummary = (Object.entries(columns) as [ImportProfileField, number | undefined][])
+      .filter(([, column]) => column !== undefined)
+      .map(([field, column]) => `${IMPORT_FIELD_LABELS[field]}=${getColumnLetter(column!)}`)
+      .join(", ");
+
+    // Step 2: Upsert the profile and log the change
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(supplierImportProfiles)
+        .values({ supplierId, ...values, createdBy: user.id })
+        .onConflictDoUpdate({ target: supplierImportProfiles.supplierId, set: values });
+
+      await tx.insert(activityLogs).values({
+        teamId: logTeamId,
+        userId: user.id,
+        action: ActivityType.UPDATE_IMPORT_PROFILE,
+        details: `${supplier.code ?? supplier.name}: sheet "${sheetName || "đầu tiên"}", tiêu đề dòng ${headerRow}, ${mappingSummary}`,
+      });
+    });
+
+    revalidatePath("/bao-gia");
+
+    return { success: `Đã lưu cấu hình nhập của ${supplier.name}` };
+  } catch (error) {
+    console.error("Error in saveImportProfile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi lưu cấu hình nhập báo giá"
+    );
+  }
+}
+
+/**
+ * Remove a supplier's import profile - its files are read with the standard template again
+ */
+export async function deleteImportProfile(
+  data: z.infer<typeof DeleteImportProfileSchema>
+): Promise<{ success: string }> {
+  try {
+    await checkImportRole();
+    const { supplierId } = DeleteImportProfileSchema.parse(data);
+
+    const supplier = await getSupplier(supplierId);
+
+    await db
+      .delete(supplierImportProfiles)
+      .where(eq(supplierImportProfiles.supplierId, supplierId));
+
+    revalidatePath("/bao-gia");
+
+    return { success: `Đã xóa cấu hình nhập của ${supplier.name}` };
+  } catch (error) {
+    console.error("Error in deleteImportProfile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi xóa cấu hình nhập báo giá"
+    );
+  }
+}
@@ -0,0 +1,617 @@
+"use server";
+
+import { z } from "zod";
+import ExcelJS from "exceljs";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import {
+  activityLogs,
+  ActivityType,
+  invoiceLines,
+  periods,
+  products,
+  quotations,
+  quoteItems,
+  suppliers,
+  teams,
+} from "@/lib/db/schema";
+import { getUser, getUserWithTeam } from "@/lib/db/queries";
+import { eq, and, asc, desc, inArray, isNull, sql } from "drizzle-orm";
+import { getUserRoles, requireRegionAccess } from "@/lib/auth/permissions";
+import { hasAccountingAccess, type Role } from "@/lib/config/roles";
+import { APPROVED_QUOTATION_STATUSES } from "@/lib/config/approval";
+import { INVOICE_HEADERS, processInvoiceFile } from "@/lib/utils/excel-parser";
+import {
+  checkInvoiceLine,
+  findPeriodForDate,
+  isReplacedByInvoiceImport,
+  summarizeInvoicesBySupplier,
+  type InvoiceLineStatus,
+} from "@/lib/utils/invoice-compliance";
+import { getStatusLabel } from "@/lib/utils/status-styles";
+import {
+  InvoiceComplianceFiltersSchema,
+  type InvoiceComplianceReport,
+  type InvoiceImportResult,
+  type InvoiceLineEntry,
+} from "@/lib/types/invoice-compliance.types";
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+/**
+ * Require an accounting (or admin) role
+ * Team-restricted accounting staff are further limited to their regions.
+ */
+async function checkAccountingRole(regions: string[] = []) {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để đối soát hóa đơn");
+  }
+
+  const roles = (await getUserRoles(user.id)) as Role[];
+  if (!hasAccountingAccess(roles)) {
+    throw new Error("Forbidden: Chỉ phòng Kế toán được đối soát hóa đơn nhà cung cấp");
+  }
+
+  await requireRegionAccess(user.id, regions);
+
+  return user;
+}
+
+// ==================== DATA HELPERS ====================
+
+const priceKey = (period: string, region: string, supplierId: number, productId: number) =>
+  `${period}|${region}|${supplierId}|${productId}`;
+
+/**
+ * Load the invoice lines of a period and region with their supplier, kitchen
+ * and product details
+ */
+async function loadInvoiceLines(
+  period: string,
+  region: string,
+  supplierId?: number
+): Promise<InvoiceLineEntry[]> {
+  const conditions = [eq(invoiceLines.period, period), eq(invoiceLines.region, region)];
+  if (supplierId) {
+    conditions.push(eq(invoiceLines.supplierId, supplierId));
+  }
+
+  const rows = await db
+    .select({
+      id: invoiceLines.id,
+      period: invoiceLines.period,
+      invoiceNumber: invoiceLines.invoiceNumber,
+      invoiceDate: invoiceLines.invoiceDate,
+      supplierId: invoiceLines.supplierId,
+      supplierCode: suppliers.supplierCode,
+      supplierName: suppliers.name,
+      teamId: invoiceLines.teamId,
+      teamCode: teams.teamCode,
+      kitchenName: teams.name,
+      productCode: products.productCode,
+      productName: products.name,
+      unit: products.unit,
+      quantity: invoiceLines.quantity,
+      unitPrice: invoiceLines.unitPrice,
+      approvedPrice: invoiceLines.approvedPrice,
+      status: invoiceLines.status,
+      overchargeAmount: invoiceLines.overchargeAmount,
+      sourceFile: invoiceLines.sourceFile,
+    })
+    .from(invoiceLines)
+    .innerJoin(suppliers, eq(invoiceLines.supplierId, suppliers.id))
+    .innerJoin(teams, eq(invoiceLines.teamId, teams.id))
+    .innerJoin(products, eq(invoiceLines.productId, products.id))
+    .where(and(...conditions))
+    .orderBy(
+      desc(invoiceLines.overchargeAmount),
+      asc(suppliers.name),
+      asc(invoiceLines.invoiceDate)
+    );
+
+  return rows.map((row) => {
+    const unitPrice = Number(row.unitPrice);
+    const approvedPrice = row.approvedPrice !== null ? Number(row.approvedPrice) : null;
+
+    return {
+      ...row,
+      quantity: Number(row.quantity),
+      unitPrice,
+      approvedPrice,
+      priceDifference:
+        approvedPrice !== null ? Math.round((unitPrice - approvedPrice) * 100) / 100 : null,
+      status: row.status as InvoiceLineStatus,
+      overchargeAmount: Number(row.overchargeAmount),
+    };
+  });
+}
+
+// ==================== INVOICE COMPLIANCE ACTIONS ====================
+
+/**
+ * Import supplier invoice lines and check them against approved prices
+ * Each line's period comes from the invoice date and its region from the
+ * kitchen. Importing a file again replaces the lines of its earlier import
+ * for the same periods.
+ */
+export async function importInvoiceFile(file: File): Promise<InvoiceImportResult> {
+  try {
+    // Step 1: Authorization
+    const user = await checkAccountingRole();
+
+    const result: InvoiceImportResult = {
+      success: false,
+      importedLines: 0,
+      replacedLines: 0,
+      overchargedLines: 0,
+      unapprovedLines: 0,
+      overchargeAmount: 0,
+      skippedLines: 0,
+      errors: [],
+      warnings: [],
+    };
+
+    // Step 2: Parse the file
+    const parseResult = await processInvoiceFile(file);
+    parseResult.errors.forEach((error) => result.errors.push(error.message));
+    parseResult.warnings.forEach((warning) => result.warnings.push(warning.message));
+    result.skippedLines = parseResult.errors.filter((error) => error.row !== undefined).length;
+
+    if (!parseResult.success) {
+      return result;
+    }
+
+    // Step 3: Resolve supplier, product and kitchen codes and the periods
+    // Codes are upper-cased by the parser
+    const uniqueCodes = (values: string[]) => [...new Set(values)];
+    const [supplierRows, productRows, kitchenRows, periodRows] = await Promise.all([
+      db
+        .select({ id: suppliers.id, code: suppliers.supplierCode })
+        .from(suppliers)
+        .where(
+          and(
+            inArray(
+              sql`UPPER(${suppliers.supplierCode})`,
+              uniqueCodes(parseResult.lines.map((line) => line.supplierCode))
+            ),
+            isNull(suppliers.deletedAt)
+          )
+        ),
+      db
+        .select({ id: products.id, code: products.productCode })
+        .from(products)
+        .where(
+          and(
+            inArray(
+              sql`UPPER(${products.productCode})`,
+              uniqueCodes(parseResult.lines.map((line) => line.productCode))
+            ),
+            isNull(products.deletedAt)
+          )
+        ),
+      db
+        .select({ id: teams.id, code: teams.teamCode, region: teams.region })
+        .from(teams)
+        .where(
+          and(
+            inArray(
+              sql`UPPER(${teams.teamCode})`,
+              uniqueCodes(parseResult.lines.map((line) => line.kitchenCode))
+            ),
+            eq(teams.teamType, "KITCHEN"),
+            isNull(teams.deletedAt)
+          )
+        ),
+      db
+        .select({ code: periods.code, startDate: periods.startDate, endDate: periods.endDate })
+        .from(periods),
+    ]);
+
+    const supplierIdByCode = new Map(
+      supplierRows.map((supplier) => [supplier.code?.toUpperCase(), supplier.id])
+    );
+    const productIdByCode = new Map(
+      productRows.map((product) => [product.code.toUpperCase(), product.id])
+    );
+    const kitchenByCode = new Map(
+      kitchenRows.map((kitchen) => [kitchen.code?.toUpperCase(), kitchen])
+    );
+
+    const resolvedLines = parseResult.lines.flatMap((line) => {
+      const supplierId = supplierIdByCode.get(line.supplierCode);
+      const productId = productIdByCode.get(line.productCode);
+      const kitchen = kitchenByCode.get(line.kitchenCode);
+      const period = findPeriodForDate(periodRows, line.invoiceDate);
+
+      const problem = !supplierId
+        ? `không tìm thấy nhà cung cấp ${line.supplierCode}`
+        : !productId
+          ? `không tìm thấy sản phẩm ${line.productCode}`
+          : !kitchen
+            ? `không tìm thấy bếp ${line.kitchenCode}`
+            : !kitchen.region
+              ? `bếp ${line.kitchenCode} chưa có khu vực`
+              : !period
+                ? "ngày hóa đơn không thuộc kỳ báo giá nào"
+                : null;
+
+      if (problem) {
+        result.errors.push(`Dòng ${line.row}: ${problem}`);
+        result.skippedLines++;
+        return [];
+      }
+
+      return [
+        {
+          ...line,
+          supplierId: supplierId!,
+          productId: productId!,
+          teamId: kitchen!.id,
+          region: kitchen!.region!,
+          period: period!,
+        },
+      ];
+    });
+
+    if (resolvedLines.length === 0) {
+      return result;
+    }
+
+    const importedPeriods = [...new Set(resolvedLines.map((line) => line.period))];
+    const importedRegions = [...new Set(resolvedLines.map((line) => line.region))];
+    await requireRegionAccess(user.id, importedRegions);
+
+    // Step 4: Look up the approved prices of the lines' periods and regions
+    const approvedPrices = await db
+      .select({
+        quoteItemId: quoteItems.id,
+        period: quotations.period,
+        region: quotations.region,
+        supplierId: quotations.supplierId,
+        productId: quoteItems.productId,
+        approvedPrice: quoteItems.approvedPrice,
+      })
+      .from(quoteItems)
+      .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
+      .where(
+        and(
+          inArray(quotations.period, importedPeriods),
+          inArray(quotations.region, importedRegions),
+          inArray(quotations.supplierId, [...new Set(resolvedLines.map((line) => line.supplierId))]),
+          inArray(quoteItems.productId, [...new Set(resolvedLines.map((line) => line.productId))]),
+          inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES]),
+          sql`${quoteItems.approvedPrice} IS NOT NULL AND ${quoteItems.approvedPrice} > 0`
+        )
+      );
+
+    const approvedByKey = new Map(
+      approvedPrices.map((price) => [
+        priceKey(price.period, price.region, price.supplierId, price.productId),
+        price,
+      ])
+    );
+
+    const newLines = resolvedLines.map((line) => {
+      const approved = approvedByKey.get(
+        priceKey(line.period, line.region, line.supplierId, line.productId)
+      );
+      const approvedPrice = approved ? Number(approved.approvedPrice) : null;
+      const check = checkInvoiceLine(line.quantity, line.unitPrice, approvedPrice);
+
+      if (check.status === "overcharged") result.overchargedLines++;
+      if (check.status === "unapproved") result.unapprovedLines++;
+      result.overchargeAmount += check.overchargeAmount;
+
+      return {
+        period: line.period,
+        region: line.region,
+        supplierId: line.supplierId,
+        teamId: line.teamId,
+        productId: line.productId,
+        quoteItemId: approved?.quoteItemId ?? null,
+        invoiceNumber: line.invoiceNumber ?? null,
+        invoiceDate: line.invoiceDate,
+        quantity: line.quantity.toString(),
+        unitPrice: line.unitPrice.toString(),
+        approvedPrice: approvedPrice?.toString() ?? null,
+        status: check.status,
+        overchargeAmount: check.overchargeAmount.toString(),
+        sourceFile: file.name,
+        importedBy: user.id,
+      };
+    });
+
+    // Step 5: Replace the earlier import of the file and log the import
+    const logTeamId = (await getUserWithTeam(user.id))?.teamId;
+    if (!logTeamId) {
+      throw new Error("Tài khoản chưa thuộc nhóm nào - không thể ghi nhật ký nhập hóa đơn");
+    }
+
+    await db.transaction(async (tx) => {
+      // Only the earlier lines of this file's periods, regions and suppliers
+      const earlierLines = await tx
+        .select({
+          id: invoiceLines.id,
+          sourceFile: invoiceLines.sourceFile,
+          period: invoiceLines.period,
+          region: invoiceLines.region,
+          supplierId: invoiceLines.supplierId,
+        })
+        .from(invoiceLines)
+        .where(
+          and(
+            eq(invoiceLines.sourceFile, file.name),
+            inArray(invoiceLines.period, importedPeriods),
+            inArray(invoiceLines.region, importedRegions),
+            inArray(invoiceLines.supplierId, [...new Set(newLines.map((line) => line.supplierId))])
+          )
+        );
+
+      const replacedIds = earlierLines
+        .filter((line) => isReplacedByInvoiceImport(line, newLines))
+        .map((line) => line.id);
+      if (replacedIds.length > 0) {
+        await tx.delete(invoiceLines).where(inArray(invoiceLines.id, replacedIds));
+      }
+      result.replacedLines = replacedIds.length;
+
+      await tx.insert(invoiceLines).values(newLines);
+
+      await tx.insert(activityLogs).values({
+        teamId: logTeamId,
+        userId: user.id,
+        action: ActivityType.IMPORT_INVOICES,
+        details: `Nhập ${newLines.length} dòng hóa đơn từ ${file.name}: ${result.overchargedLines} vượt giá, ${result.unapprovedLines} chưa duyệt`,
+      });
+    });
+
+    result.importedLines = newLines.length;
+    result.overchargeAmount = Math.round(result.overchargeAmount * 100) / 100;
+    result.success = true;
+
+    revalidatePath("/doi-soat-hoa-don");
+
+    return result;
+  } catch (error) {
+    console.error("Error in importInvoiceFile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi nhập file hóa đơn"
+    );
+  }
+}
+
+/**
+ * Compliance report of a period and region: totals per supplier and the
+ * checked invoice lines
+ */
+export async function getInvoiceComplianceReport(
+  filters: z.infer<typeof InvoiceComplianceFiltersSchema>
+): Promise<InvoiceComplianceReport> {
+  try {
+    const { period, region, supplierId, status } = InvoiceComplianceFiltersSchema.parse(filters);
+    await checkAccountingRole([region]);
+
+    const lines = await loadInvoiceLines(period, region, supplierId);
+    const supplierNames = new Map(
+      lines.map((line) => [
+        line.supplierId,
+        { supplierCode: line.supplierCode, supplierName: line.supplierName },
+      ])
+    );
+
+    const summaries = summarizeInvoicesBySupplier(lines).map((summary) => ({
+      ...summary,
+      ...supplierNames.get(summary.supplierId)!,
+    }));
+
+    return {
+      period,
+      region,
+      summaries,
+      lines: status ? lines.filter((line) => line.status === status) : lines,
+      totals: summaries.reduce(
+        (totals, summary) => ({
+          invoicedAmount: totals.invoicedAmount + summary.invoicedAmount,
+          overchargeAmount: totals.overchargeAmount + summary.overchargeAmount,
+          unapprovedAmount: totals.unapprovedAmount + summary.unapprovedAmount,
+        }),
+        { invoicedAmount: 0, overchargeAmount: 0, unapprovedAmount: 0 }
+      ),
+    };
+  } catch (error) {
+    console.error("Error in getInvoiceComplianceReport:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải báo cáo đối soát hóa đơn"
+    );
+  }
+}
+
+/**
+ * Export the compliance report: supplier totals and line details sheets
+ */
+export async function exportInvoiceComplianceReport(
+  filters: z.infer<typeof InvoiceComplianceFiltersSchema>
+): Promise<Blob> {
+  try {
+    const report = await getInvoiceComplianceReport(filters);
+
+    const workbook = new ExcelJS.Workbook();
+    const styleHeader = (row: ExcelJS.Row) =>
+      row.eachCell((cell) => {
+        cell.font = { bold: true };
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFE6E6FA" },
+        };
+      });
+
+    // Supplier totals
+    const summarySheet = workbook.addWorksheet("Tổng hợp NCC");
+    styleHeader(
+      summarySheet.addRow([
+        "Mã NCC",
+        "Tên NCC",
+        "Số dòng",
+        "Dòng vượt giá",
+        "Dòng chưa duyệt",
+        "Giá trị hóa đơn",
+        "Tiền trả thừa",
+        "Giá trị SP chưa duyệt",
+      ])
+    );
+    report.summaries.forEach((summary) => {
+      summarySheet.addRow([
+        summary.supplierCode ?? "",
+        summary.supplierName,
+        summary.lineCount,
+        summary.overchargedLines,
+        summary.unapprovedLines,
+        summary.invoicedAmount,
+        summary.overchargeAmount,
+        summary.unapprovedAmount,
+      ]);
+    });
+    summarySheet.addRow([
+      "",
+      "Tổng cộng",
+      "",
+      "",
+      "",
+      report.totals.invoicedAmount,
+      report.totals.overchargeAmount,
+      report.totals.unapprovedAmount,
+    ]).font = { bold: true };
+    summarySheet.columns = [
+      { width: 14 },
+      { width: 36 },
+      { width: 10 },
+      { width: 14 },
+      { width: 16 },
+      { width: 18 },
+      { width: 16 },
+      { width: 22 },
+    ];
+    [6, 7, 8].forEach((column) => {
+      summarySheet.getColumn(column).numFmt = "#,##0";
+    });
+
+    // Line details
+    const detailSheet = workbook.addWorksheet("Chi tiết");
+    styleHeader(
+      detailSheet.addRow([
+        INVOICE_HEADERS.invoiceNumber,
+        INVOICE_HEADERS.invoiceDate,
+        INVOICE_HEADERS.supplierCode,
+        "Tên NCC",
+        INVOICE_HEADERS.kitchenCode,
+        INVOICE_HEADERS.productCode,
+        "Tên sản phẩm",
+        "Đơn vị",
+        INVOICE_HEADERS.quantity,
+        INVOICE_HEADERS.unitPrice,
+        "Giá duyệt",
+        "Chênh lệch",
+        "Tiền trả thừa",
+        "Kết quả",
+        "File nguồn",
+      ])
+    );
+    report.lines.forEach((line) => {
+      detailSheet.addRow([
+        line.invoiceNumber ?? "",
+        line.invoiceDate,
+        line.supplierCode ?? "",
+        line.supplierName,
+        line.teamCode ?? "",
+        line.productCode,
+        line.productName,
+        line.unit,
+        line.quantity,
+        line.unitPrice,
+        line.approvedPrice ?? "",
+        line.priceDifference ?? "",
+        line.overchargeAmount,
+        getStatusLabel(line.status),
+        line.sourceFile,
+      ]);
+    });
+    detailSheet.columns = [
+      { width: 14 },
+      { width: 14 },
+      { width: 12 },
+      { width: 30 },
+      { width: 12 },
+      { width: 16 },
+      { width: 36 },
+      { width: 10 },
+      { width: 12 },
+      { width: 14 },
+      { width: 14 },
+      { width: 14 },
+      { width: 16 },
+      { width: 16 },
+      { width: 28 },
+    ];
+    detailSheet.getColumn(2).numFmt = "dd/mm/yyyy";
+    [10, 11, 12, 13].forEach((column) => {
+      detailSheet.getColumn(column).numFmt = "#,##0";
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    return new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } catch (error) {
+    console.error("Error in exportInvoiceComplianceReport:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi xuất báo cáo đối soát hóa đơn"
+    );
+  }
+}
+
+/**
+ * Empty invoice import template with the expected columns
+ */
+export async function exportInvoiceTemplate(): Promise<Blob> {
+  try {
+    await checkAccountingRole();
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("Hóa đơn");
+    const headerRow = worksheet.addRow([
+      INVOICE_HEADERS.invoiceNumber,
+      INVOICE_HEADERS.invoiceDate,
+      INVOICE_HEADERS.supplierCode,
+      INVOICE_HEADERS.kitchenCode,
+      INVOICE_HEADERS.productCode,
+      INVOICE_HEADERS.quantity,
+      INVOICE_HEADERS.unitPrice,
+    ]);
+    headerRow.font = { bold: true };
+    worksheet.columns = [
+      { width: 14 },
+      { width: 14 },
+      { width: 12 },
+      { width: 12 },
+      { width: 16 },
+      { width: 12 },
+      { width: 14 },
+    ];
+    worksheet.getColumn(2).numFmt = "dd/mm/yyyy";
+
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    return new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } catch (error) {
+    console.error("Error in exportInvoiceTemplate:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tạo file mẫu hóa đơn"
+    );
+  }
+}
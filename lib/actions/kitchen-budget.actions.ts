@@ -0,0 +1,458 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import {
+  activityLogs,
+  ActivityType,
+  kitchenBudgets,
+  periods,
+  quotations,
+  quoteItems,
+  teamMembers,
+  teams,
+} from "@/lib/db/schema";
+import { getUser, getUserWithTeam } from "@/lib/db/queries";
+import { loadRegionalBudgetStatus } from "@/lib/db/kitchen-budget";
+import { eq, and, desc, inArray, isNull, notInArray, sql } from "drizzle-orm";
+import {
+  getPermittedRegions,
+  getUserRoles,
+  requireRegionAccess,
+} from "@/lib/auth/permissions";
+import {
+  hasAccountingAccess,
+  hasProcurementAccess,
+  isAdmin,
+  type Role,
+} from "@/lib/config/roles";
+import type { SpendPrice } from "@/lib/utils/kitchen-budget";
+import {
+  KitchenBudgetFiltersSchema,
+  KitchenBudgetStatusSchema,
+  SaveKitchenBudgetsSchema,
+  ApprovalBudgetImpactSchema,
+  BudgetOverviewSchema,
+  type ApprovalBudgetWarning,
+  type BudgetOverview,
+  type KitchenBudgetStatus,
+  type RegionalBudgetStatus,
+} from "@/lib/types/kitchen-budget.types";
+
+// Periods whose budgets are still being planned against
+const ACTIVE_PERIOD_STATUSES = ["open", "collecting", "negotiating"];
+
+interface BudgetAccess {
+  userId: number;
+  canEdit: boolean;
+  regions: string[] | null; // null = every region
+  kitchenIds: number[] | null; // Kitchen members only see their own kitchens
+}
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+/**
+ * Resolve which kitchen budgets the user may see and whether they may edit them
+ * Admin, procurement and accounting staff see the kitchens of their regions and
+ * accounting (or admin) sets the budgets; kitchen members view their own kitchens.
+ */
+async function getBudgetAccess(): Promise<BudgetAccess> {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để xem ngân sách bếp");
+  }
+
+  const roles = (await getUserRoles(user.id)) as Role[];
+  const office = hasProcurementAccess(roles) || hasAccountingAccess(roles);
+
+  if (office) {
+    return {
+      userId: user.id,
+      canEdit: isAdmin(roles) || hasAccountingAccess(roles),
+      regions: await getPermittedRegions(user.id),
+      kitchenIds: null,
+    };
+  }
+
+  const memberships = await db
+    .select({ teamId: teamMembers.teamId })
+    .from(teamMembers)
+    .innerJoin(teams, eq(teamMembers.teamId, teams.id))
+    .where(and(eq(teamMembers.userId, user.id), eq(teams.teamType, "KITCHEN")));
+
+  if (memberships.length === 0) {
+    throw new Error("Forbidden: Bạn không có quyền xem ngân sách bếp");
+  }
+
+  return {
+    userId: user.id,
+    canEdit: false,
+    regions: null,
+    kitchenIds: memberships.map((membership) => membership.teamId),
+  };
+}
+
+async function requireBudgetRegion(access: BudgetAccess, region: string) {
+  if (access.kitchenIds === null) {
+    await requireRegionAccess(access.userId, [region]);
+  }
+}
+
+async function getActiveKitchen(teamId: number) {
+  const [kitchen] = await db
+    .select({ id: teams.id, name: teams.name, region: teams.region })
+    .from(teams)
+    .where(
+      and(
+        eq(teams.id, teamId),
+        eq(teams.teamType, "KITCHEN"),
+        eq(teams.status, "active"),
+        isNull(teams.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (!kitchen || !kitchen.region) {
+    throw new Error("Không tìm thấy bếp đang hoạt động");
+  }
+
+  return { ...kitchen, region: kitchen.region };
+}
+
+// ==================== BUDGET ACTIONS ====================
+
+/**
+ * Budget, planned spend and variance of every kitchen of a region
+ */
+export async function getRegionalBudgetStatus(
+  filters: z.infer<typeof KitchenBudgetFiltersSchema>
+): Promise<RegionalBudgetStatus> {
+  try {
+    const { period, region } = KitchenBudgetFiltersSchema.parse(filters);
+    const access = await getBudgetAccess();
+    await requireBudgetRegion(access, region);
+
+    const kitchens = await loadRegionalBudgetStatus(period, region, {
+      teamIds: access.kitchenIds ?? undefined,
+    });
+
+    return { period, region, canEdit: access.canEdit, kitchens };
+  } catch (error) {
+    console.error("Error in getRegionalBudgetStatus:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải ngân sách bếp"
+    );
+  }
+}
+
+/**
+ * Budget status of one kitchen, or null when it has no budget for the period
+ */
+export async function getKitchenBudgetStatus(
+  data: z.infer<typeof KitchenBudgetStatusSchema>
+): Promise<KitchenBudgetStatus | null> {
+  try {
+    const { teamId, period } = KitchenBudgetStatusSchema.parse(data);
+    const access = await getBudgetAccess();
+    const kitchen = await getActiveKitchen(teamId);
+
+    if (access.kitchenIds && !access.kitchenIds.includes(teamId)) {
+      throw new Error("Forbidden: Bạn không có quyền xem ngân sách của bếp này");
+    }
+    await requireBudgetRegion(access, kitchen.region);
+
+    const [status] = await loadRegionalBudgetStatus(period, kitchen.region, {
+      teamIds: [teamId],
+    });
+
+    const hasBudget =
+      status &&
+      (status.budget !== null || status.categories.some((category) => category.budget !== null));
+
+    if (!hasBudget) {
+      return null;
+    }
+
+    return status;
+  } catch (error) {
+    console.error("Error in getKitchenBudgetStatus:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải ngân sách bếp"
+    );
+  }
+}
+
+/**
+ * Replace a kitchen's budgets for a period
+ */
+export async function saveKitchenBudgets(
+  data: z.infer<typeof SaveKitchenBudgetsSchema>
+): Promise<{ success: string }> {
+  try {
+    const { teamId, period, budgets } = SaveKitchenBudgetsSchema.parse(data);
+
+    // Step 1: Only accounting (or admin) sets budgets, within its regions
+    const access = await getBudgetAccess();
+    if (!access.canEdit) {
+      throw new Error("Forbidden: Chỉ phòng Kế toán được thiết lập ngân sách bếp");
+    }
+
+    const kitchen = await getActiveKitchen(teamId);
+    await requireBudgetRegion(access, kitchen.region);
+
+    // Step 2: The period must exist
+    const [periodRow] = await db
+      .select({ id: periods.id })
+      .from(periods)
+      .where(eq(periods.code, period))
+      .limit(1);
+
+    if (!periodRow) {
+      throw new Error("Không tìm thấy kỳ báo giá");
+    }
+
+    const logTeamId = (await getUserWithTeam(access.userId))?.teamId;
+    if (!logTeamId) {
+      throw new Error("Không xác định được nhóm của người dùng");
+    }
+
+    // Step 3: Replace the kitchen's budget set for the period
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(kitchenBudgets)
+        .where(and(eq(kitchenBudgets.teamId, teamId), eq(kitchenBudgets.period, period)));
+
+      if (budgets.length > 0) {
+        await tx.insert(kitchenBudgets).values(
+          budgets.map((budget) => ({
+            teamId,
+            period,
+            category: budget.category,
+            amount: budget.amount.toString(),
+            createdBy: access.userId,
+          }))
+        );
+      }
+
+      await tx.insert(activityLogs).values({
+        teamId: logTeamId,
+        userId: access.userId,
+        action: ActivityType.UPDATE_KITCHEN_BUDGET,
+        details: `${kitchen.name} - kỳ ${period}: ${budgets.length} ngân sách`,
+      });
+    });
+
+    revalidatePath("/ngan-sach");
+    revalidatePath("/trang-chu");
+
+    return { success: `Đã lưu ngân sách của ${kitchen.name} cho kỳ ${period}` };
+  } catch (error) {
+    console.error("Error in saveKitchenBudgets:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi lưu ngân sách bếp"
+    );
+  }
+}
+
+/**
+ * Budgeted kitchens of the user's regions for the dashboard, most used first
+ * Without a period, the newest period still in progress is used.
+ */
+export async function getKitchenBudgetOverview(
+  data: z.infer<typeof BudgetOverviewSchema> = {}
+): Promise<BudgetOverview> {
+  try {
+    const { period: requestedPeriod } = BudgetOverviewSchema.parse(data);
+    const access = await getBudgetAccess();
+
+    let period = requestedPeriod ?? null;
+    if (!period) {
+      const [activePeriod] = await db
+        .select({ code: periods.code })
+        .from(periods)
+        .where(inArray(periods.status, ACTIVE_PERIOD_STATUSES))
+        .orderBy(desc(periods.code))
+        .limit(1);
+      const [latestPeriod] = activePeriod
+        ? [activePeriod]
+        : await db
+            .select({ code: periods.code })
+            .from(periods)
+            .orderBy(desc(periods.code))
+            .limit(1);
+      period = latestPeriod?.code ?? null;
+    }
+
+    if (!period) {
+      return { period: null, kitchens: [] };
+    }
+
+    // Regions with budgets for the period, within the user's reach
+    const conditions = [eq(kitchenBudgets.period, period)];
+    if (access.kitchenIds) {
+      conditions.push(inArray(kitchenBudgets.teamId, access.kitchenIds));
+    }
+    if (access.regions) {
+      if (access.regions.length === 0) return { period, kitchens: [] };
+      conditions.push(inArray(teams.region, access.regions));
+    }
+
+    const budgetedKitchens = await db
+      .selectDistinct({ teamId: kitchenBudgets.teamId, region: teams.region })
+      .from(kitchenBudgets)
+      .innerJoin(teams, eq(kitchenBudgets.teamId, teams.id))
+      .where(and(...conditions));
+
+    const teamIdsByRegion = new Map<string, number[]>();
+    budgetedKitchens.forEach((row) => {
+      if (!row.region) return;
+      teamIdsByRegion.set(row.region, [...(teamIdsByRegion.get(row.region) ?? []), row.teamId]);
+    });
+
+    const kitchens: KitchenBudgetStatus[] = [];
+    for (const [region, teamIds] of teamIdsByRegion) {
+      kitchens.push(...(await loadRegionalBudgetStatus(period, region, { teamIds })));
+    }
+
+    const usage = (kitchen: KitchenBudgetStatus) =>
+      Math.max(
+        kitchen.variance?.usagePercent ?? 0,
+        ...kitchen.categories.map((category) => category.variance?.usagePercent ?? 0)
+      );
+
+    kitchens.sort((a, b) => usage(b) - usage(a));
+
+    return { period, kitchens };
+  } catch (error) {
+    console.error("Error in getKitchenBudgetOverview:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải tổng quan ngân sách bếp"
+    );
+  }
+}
+
+/**
+ * Kitchen budgets that approving the given quotations would push over
+ * Prices are taken as they would be approved (negotiated, else initial price),
+ * leaving out the items about to be rejected.
+ */
+export async function previewApprovalBudgetImpact(
+  data: z.input<typeof ApprovalBudgetImpactSchema>
+): Promise<ApprovalBudgetWarning[]> {
+  try {
+    const { quotationIds, rejectedItemIds } = ApprovalBudgetImpactSchema.parse(data);
+    const access = await getBudgetAccess();
+
+    if (access.kitchenIds) {
+      throw new Error("Forbidden: Bạn không có quyền phê duyệt báo giá");
+    }
+
+    const itemConditions = [
+      inArray(quotations.id, quotationIds),
+      inArray(quotations.status, ["pending", "negotiation"]),
+      sql`COALESCE(${quoteItems.negotiatedPrice}, ${quoteItems.initialPrice}) > 0`,
+    ];
+    if (rejectedItemIds.length > 0) {
+      itemConditions.push(notInArray(quoteItems.id, rejectedItemIds));
+    }
+
+    const itemRows = await db
+      .select({
+        period: quotations.period,
+        region: quotations.region,
+        supplierId: quotations.supplierId,
+        productId: quoteItems.productId,
+        price: sql<string>`COALESCE(${quoteItems.negotiatedPrice}, ${quoteItems.initialPrice})`,
+        vatPercentage: quoteItems.vatPercentage,
+      })
+      .from(quoteItems)
+      .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
+      .where(and(...itemConditions));
+
+    if (itemRows.length === 0) return [];
+
+    await requireRegionAccess(access.userId, [...new Set(itemRows.map((row) => row.region))]);
+
+    const pricesByScope = new Map<string, SpendPrice[]>();
+    itemRows.forEach((row) => {
+      const key = `${row.period}|${row.region}`;
+      pricesByScope.set(key, [
+        ...(pricesByScope.get(key) ?? []),
+        {
+          supplierId: row.supplierId,
+          productId: row.productId,
+          unitPriceWithVat: Number(row.price) * (1 + Number(row.vatPercentage ?? 0) / 100),
+        },
+      ]);
+    });
+
+    const warnings: ApprovalBudgetWarning[] = [];
+
+    for (const [key, extraPrices] of pricesByScope) {
+      const [period, region] = key.split("|");
+
+      const budgetedTeamIds = (
+        await db
+          .selectDistinct({ teamId: kitchenBudgets.teamId })
+          .from(kitchenBudgets)
+          .innerJoin(teams, eq(kitchenBudgets.teamId, teams.id))
+          .where(and(eq(kitchenBudgets.period, period), eq(teams.region, region)))
+      ).map((row) => row.teamId);
+
+      if (budgetedTeamIds.length === 0) continue;
+
+      const [current, projected] = await Promise.all([
+        loadRegionalBudgetStatus(period, region, { teamIds: budgetedTeamIds }),
+        loadRegionalBudgetStatus(period, region, { teamIds: budgetedTeamIds, extraPrices }),
+      ]);
+
+      projected.forEach((kitchen) => {
+        const before = current.find((entry) => entry.teamId === kitchen.teamId);
+        const scopes = [
+          {
+            category: null as string | null,
+            budget: kitchen.budget,
+            projectedSpend: kitchen.plannedSpend,
+            currentSpend: before?.plannedSpend ?? 0,
+          },
+          ...kitchen.categories.map((category) => ({
+            category: category.category,
+            budget: category.budget,
+            projectedSpend: category.plannedSpend,
+            currentSpend:
+              before?.categories.find((entry) => entry.category === category.category)
+                ?.plannedSpend ?? 0,
+          })),
+        ];
+
+        scopes.forEach((scope) => {
+          // Flag budgets this approval overruns, or overruns further
+          if (
+            scope.budget !== null &&
+            scope.projectedSpend > scope.budget &&
+            scope.projectedSpend > scope.currentSpend
+          ) {
+            warnings.push({
+              period,
+              teamId: kitchen.teamId,
+              kitchenName: kitchen.kitchenName,
+              category: scope.category,
+              budget: scope.budget,
+              currentSpend: scope.currentSpend,
+              projectedSpend: scope.projectedSpend,
+            });
+          }
+        });
+      });
+    }
+
+    return warnings;
+  } catch (error) {
+    console.error("Error in previewApprovalBudgetImpact:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi kiểm tra ngân sách bếp"
+    );
+  }
+}
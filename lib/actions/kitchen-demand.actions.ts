@@ -0,0 +1,943 @@
+"use server";
+
+import { z } from "zod";
+import ExcelJS from "exceljs";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import {
+  activityLogs,
+  ActivityType,
+  kitchenDemandSubmissions,
+  kitchenPeriodDemands,
+  products,
+  teamMembers,
+  teams,
+} from "@/lib/db/schema";
+import {
+  getUser,
+  getPeriodsByCodes,
+  getRegionalKitchenDemands,
+} from "@/lib/db/queries";
+import { loadKitchenDemandForecasts } from "@/lib/db/demand-forecast";
+import { eq, and, asc, inArray, isNull, lt, sql } from "drizzle-orm";
+import {
+  getPermittedRegions,
+  getUserRoles,
+  requireRegionAccess,
+} from "@/lib/auth/permissions";
+import { hasProcurementAccess, isAdmin, type Role } from "@/lib/config/roles";
+import {
+  KITCHEN_DEMAND_HEADERS,
+  KITCHEN_DEMAND_SHEET_NAME,
+  processKitchenDemandFile,
+} from "@/lib/utils/excel-parser";
+import { getDemandBlockReason } from "@/lib/utils/period-lifecycle";
+import {
+  KitchenDemandFiltersSchema,
+  SaveKitchenDemandsSchema,
+  CopyPreviousKitchenDemandSchema,
+  SubmitKitchenDemandSchema,
+  ReopenKitchenDemandSchema,
+  DemandRollupFiltersSchema,
+  type DemandKitchenOption,
+  type DemandRollup,
+  type KitchenDemandImportResult,
+  type KitchenDemandSheet,
+  type KitchenDemandSubmissionStatus,
+} from "@/lib/types/kitchen-demand.types";
+
+// Kitchen team roles allowed to enter and submit their kitchen's demand
+const KITCHEN_EDITOR_ROLES = ["KITCHEN_SUPER_ADMIN", "KITCHEN_MANAGER"];
+
+type DemandItem = z.infer<typeof SaveKitchenDemandsSchema>["items"][number];
+
+interface KitchenDemandAccess {
+  kitchen: { id: number; name: string; teamCode: string | null; region: string | null };
+  canEdit: boolean;
+  canReopen: boolean;
+}
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+async function checkAuthenticated() {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error(
+      "Unauthorized: Bạn cần đăng nhập để thực hiện hành động này"
+    );
+  }
+
+  return user;
+}
+
+/**
+ * Kitchen teams the user belongs to, with their role in each
+ */
+async function getKitchenMemberships(userId: number): Promise<Map<number, string>> {
+  const rows = await db
+    .select({ teamId: teamMembers.teamId, role: teamMembers.role })
+    .from(teamMembers)
+    .innerJoin(teams, eq(teamMembers.teamId, teams.id))
+    .where(and(eq(teamMembers.userId, userId), eq(teams.teamType, "KITCHEN")));
+
+  return new Map(rows.map((row) => [row.teamId, row.role]));
+}
+
+/**
+ * Resolve what the user may do with a kitchen's demand
+ * Admins edit every kitchen; procurement views and reopens kitchens of its
+ * regions; kitchen managers edit their own kitchens, other members only view.
+ */
+async function getKitchenDemandAccess(
+  userId: number,
+  teamId: number
+): Promise<KitchenDemandAccess> {
+  const [kitchen] = await db
+    .select({
+      id: teams.id,
+      name: teams.name,
+      teamCode: teams.teamCode,
+      region: teams.region,
+    })
+    .from(teams)
+    .where(
+      and(
+        eq(teams.id, teamId),
+        eq(teams.teamType, "KITCHEN"),
+        eq(teams.status, "active"),
+        isNull(teams.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (!kitchen) {
+    throw new Error("Không tìm thấy bếp đang hoạt động");
+  }
+
+  const roles = (await getUserRoles(userId)) as Role[];
+  const memberRole = (await getKitchenMemberships(userId)).get(teamId);
+  const admin = isAdmin(roles);
+  const procurement = hasProcurementAccess(roles);
+
+  if (!admin && !memberRole) {
+    if (!procurement) {
+      throw new Error("Forbidden: Bạn không có quyền xem nhu cầu của bếp này");
+    }
+    await requireRegionAccess(userId, kitchen.region ? [kitchen.region] : []);
+  }
+
+  return {
+    kitchen,
+    canEdit: admin || (!!memberRole && KITCHEN_EDITOR_ROLES.includes(memberRole)),
+    canReopen: procurement,
+  };
+}
+
+async function getSubmissionStatus(
+  teamId: number,
+  period: string
+): Promise<{ status: KitchenDemandSubmissionStatus; submittedAt: Date | null }> {
+  const [submission] = await db
+    .select({
+      status: kitchenDemandSubmissions.status,
+      submittedAt: kitchenDemandSubmissions.submittedAt,
+    })
+    .from(kitchenDemandSubmissions)
+    .where(
+      and(
+        eq(kitchenDemandSubmissions.teamId, teamId),
+        eq(kitchenDemandSubmissions.period, period)
+      )
+    )
+    .limit(1);
+
+  return {
+    status: (submission?.status as KitchenDemandSubmissionStatus) ?? "draft",
+    submittedAt: submission?.submittedAt ?? null,
+  };
+}
+
+/**
+ * Why the kitchen's demand cannot be edited right now (null = open)
+ */
+async function getKitchenDemandBlockReason(
+  teamId: number,
+  period: string
+): Promise<string | null> {
+  const periodRecord = (await getPeriodsByCodes([period])).get(period);
+  const { status } = await getSubmissionStatus(teamId, period);
+
+  return getDemandBlockReason(periodRecord, status);
+}
+
+/**
+ * Require edit access and an open, unsubmitted demand
+ */
+async function requireEditableDemand(
+  userId: number,
+  teamId: number,
+  period: string
+): Promise<KitchenDemandAccess> {
+  const access = await getKitchenDemandAccess(userId, teamId);
+
+  if (!access.canEdit) {
+    throw new Error("Forbidden: Bạn chỉ có quyền xem nhu cầu của bếp này");
+  }
+
+  const blockReason = await getKitchenDemandBlockReason(teamId, period);
+  if (blockReason) {
+    throw new Error(blockReason);
+  }
+
+  return access;
+}
+
+function revalidateDemandPages() {
+  revalidatePath("/nhu-cau");
+  revalidatePath("/so-sanh");
+}
+
+// ==================== DATA HELPERS ====================
+
+/**
+ * The latest period before the given one in which the kitchen had demand
+ */
+async function getPreviousDemandPeriod(
+  teamId: number,
+  period: string
+): Promise<string | null> {
+  const [row] = await db
+    .select({ period: sql<string | null>`MAX(${kitchenPeriodDemands.period})` })
+    .from(kitchenPeriodDemands)
+    .where(
+      and(
+        eq(kitchenPeriodDemands.teamId, teamId),
+        lt(kitchenPeriodDemands.period, period),
+        eq(kitchenPeriodDemands.status, "active")
+      )
+    );
+
+  return row?.period ?? null;
+}
+
+async function getKitchenDemandLines(teamId: number, period: string) {
+  return db
+    .select({
+      productId: kitchenPeriodDemands.productId,
+      quantity: kitchenPeriodDemands.quantity,
+      notes: kitchenPeriodDemands.notes,
+    })
+    .from(kitchenPeriodDemands)
+    .where(
+      and(
+        eq(kitchenPeriodDemands.teamId, teamId),
+        eq(kitchenPeriodDemands.period, period),
+        eq(kitchenPeriodDemands.status, "active")
+      )
+    );
+}
+
+/**
+ * Build the demand sheet: every active product with the kitchen's quantity
+ * for the period, for its previous period with demand and the forecast
+ */
+async function loadDemandSheet(
+  access: KitchenDemandAccess,
+  period: string
+): Promise<KitchenDemandSheet> {
+  const teamId = access.kitchen.id;
+
+  const [catalog, currentLines, previousPeriod, submission, blockReason, forecasts] =
+    await Promise.all([
+      db
+        .select({
+          productId: products.id,
+          productCode: products.productCode,
+          productName: products.name,
+          specification: products.specification,
+          unit: products.unit,
+          category: products.category,
+        })
+        .from(products)
+        .where(and(eq(products.status, "active"), isNull(products.deletedAt)))
+        .orderBy(asc(products.category), asc(products.productCode)),
+      getKitchenDemandLines(teamId, period),
+      getPreviousDemandPeriod(teamId, period),
+      getSubmissionStatus(teamId, period),
+      getKitchenDemandBlockReason(teamId, period),
+      loadKitchenDemandForecasts(teamId, period),
+    ]);
+
+  const previousLines = previousPeriod
+    ? await getKitchenDemandLines(teamId, previousPeriod)
+    : [];
+
+  const currentMap = new Map(currentLines.map((line) => [line.productId, line]));
+  const previousMap = new Map(
+    previousLines.map((line) => [line.productId, Number(line.quantity)])
+  );
+
+  return {
+    teamId,
+    kitchenName: access.kitchen.name,
+    region: access.kitchen.region,
+    period,
+    previousPeriod,
+    status: submission.status,
+    submittedAt: submission.submittedAt,
+    canEdit: access.canEdit,
+    canReopen: access.canReopen,
+    blockReason,
+    rows: catalog.map((product) => {
+      const current = currentMap.get(product.productId);
+      return {
+        ...product,
+        quantity: current ? Number(current.quantity) : null,
+        notes: current?.notes ?? null,
+        previousQuantity: previousMap.get(product.productId) ?? null,
+        forecast: forecasts.get(product.productId) ?? null,
+      };
+    }),
+  };
+}
+
+/**
+ * Write demand lines for a kitchen and period
+ * Positive quantities are upserted with the product's unit, zero removes the line.
+ */
+async function applyDemandItems(
+  teamId: number,
+  period: string,
+  userId: number,
+  items: DemandItem[]
+): Promise<{ updated: number; removed: number }> {
+  const productIds = [...new Set(items.map((item) => item.productId))];
+  const productRows = await db
+    .select({ id: products.id, unit: products.unit })
+    .from(products)
+    .where(
+      and(
+        inArray(products.id, productIds),
+        eq(products.status, "active"),
+        isNull(products.deletedAt)
+      )
+    );
+  const unitMap = new Map(productRows.map((product) => [product.id, product.unit]));
+
+  const unknownIds = productIds.filter((id) => !unitMap.has(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Sản phẩm không tồn tại hoặc đã ngừng hoạt động: ${unknownIds.join(", ")}`);
+  }
+
+  const upserts = items.filter((item) => item.quantity > 0);
+  const removals = items
+    .filter((item) => item.quantity === 0)
+    .map((item) => item.productId);
+
+  await db.transaction(async (tx) => {
+    if (upserts.length > 0) {
+      await tx
+        .insert(kitchenPeriodDemands)
+        .values(
+          upserts.map((item) => ({
+            teamId,
+            productId: item.productId,
+            period,
+            quantity: item.quantity.toString(),
+            unit: unitMap.get(item.productId)!,
+            notes: item.notes || null,
+            createdBy: userId,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [
+            kitchenPeriodDemands.teamId,
+            kitchenPeriodDemands.productId,
+            kitchenPeriodDemands.period,
+          ],
+          set: {
+            quantity: sql`excluded.quantity`,
+            unit: sql`excluded.unit`,
+            notes: sql`excluded.notes`,
+            status: "active",
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    if (removals.length > 0) {
+      await tx
+        .delete(kitchenPeriodDemands)
+        .where(
+          and(
+            eq(kitchenPeriodDemands.teamId, teamId),
+            eq(kitchenPeriodDemands.period, period),
+            inArray(kitchenPeriodDemands.productId, removals)
+          )
+        );
+    }
+  });
+
+  return { updated: upserts.length, removed: removals.length };
+}
+
+// ==================== KITCHEN ACTIONS ====================
+
+/**
+ * Kitchens the user can open on /nhu-cau
+ * Admins and procurement see every active kitchen of their regions, other
+ * users the kitchens they are members of.
+ */
+export async function getDemandKitchens(): Promise<DemandKitchenOption[]> {
+  try {
+    const user = await checkAuthenticated();
+
+    const roles = (await getUserRoles(user.id)) as Role[];
+    const memberships = await getKitchenMemberships(user.id);
+    const admin = isAdmin(roles);
+
+    const conditions = [
+      eq(teams.teamType, "KITCHEN"),
+      eq(teams.status, "active"),
+      isNull(teams.deletedAt),
+    ];
+
+    if (admin || hasProcurementAccess(roles)) {
+      const permittedRegions = await getPermittedRegions(user.id);
+      if (permittedRegions) {
+        if (permittedRegions.length === 0) return [];
+        conditions.push(inArray(teams.region, permittedRegions));
+      }
+    } else {
+      if (memberships.size === 0) return [];
+      conditions.push(inArray(teams.id, [...memberships.keys()]));
+    }
+
+    const kitchens = await db
+      .select({
+        id: teams.id,
+        teamCode: teams.teamCode,
+        name: teams.name,
+        region: teams.region,
+      })
+      .from(teams)
+      .where(and(...conditions))
+      .orderBy(asc(teams.region), asc(teams.teamCode));
+
+    return kitchens.map((kitchen) => {
+      const role = memberships.get(kitchen.id);
+      return {
+        ...kitchen,
+        canEdit: admin || (!!role && KITCHEN_EDITOR_ROLES.includes(role)),
+      };
+    });
+  } catch (error) {
+    console.error("Error in getDemandKitchens:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải danh sách bếp"
+    );
+  }
+}
+
+/**
+ * Load a kitchen's demand sheet for a period
+ */
+export async function getKitchenDemandSheet(
+  filters: z.infer<typeof KitchenDemandFiltersSchema>
+): Promise<KitchenDemandSheet> {
+  try {
+    const { teamId, period } = KitchenDemandFiltersSchema.parse(filters);
+    const user = await checkAuthenticated();
+    const access = await getKitchenDemandAccess(user.id, teamId);
+
+    return await loadDemandSheet(access, period);
+  } catch (error) {
+    console.error("Error in getKitchenDemandSheet:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải nhu cầu của bếp"
+    );
+  }
+}
+
+/**
+ * Save edited demand lines (quantity 0 removes the product)
+ */
+export async function saveKitchenDemands(
+  data: z.infer<typeof SaveKitchenDemandsSchema>
+): Promise<{ success: string }> {
+  try {
+    // Step 1: Validate input and authorization
+    const { teamId, period, items } = SaveKitchenDemandsSchema.parse(data);
+    const user = await checkAuthenticated();
+    await requireEditableDemand(user.id, teamId, period);
+
+    // Step 2: Upsert and remove the lines
+    const { updated, removed } = await applyDemandItems(teamId, period, user.id, items);
+
+    revalidateDemandPages();
+
+    return {
+      success: `Đã lưu nhu cầu: ${updated} sản phẩm cập nhật, ${removed} sản phẩm bị xóa`,
+    };
+  } catch (error) {
+    console.error("Error in saveKitchenDemands:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi lưu nhu cầu"
+    );
+  }
+}
+
+/**
+ * Copy the kitchen's previous period demand into the period
+ * Only products without demand yet are filled; entered quantities are kept.
+ */
+export async function copyPreviousKitchenDemand(
+  data: z.infer<typeof CopyPreviousKitchenDemandSchema>
+): Promise<{ success: string }> {
+  try {
+    // Step 1: Validate input and authorization
+    const { teamId, period } = CopyPreviousKitchenDemandSchema.parse(data);
+    const user = await checkAuthenticated();
+    await requireEditableDemand(user.id, teamId, period);
+
+    // Step 2: Find the previous period with demand
+    const previousPeriod = await getPreviousDemandPeriod(teamId, period);
+    if (!previousPeriod) {
+      throw new Error("Bếp chưa có nhu cầu ở kỳ trước để sao chép");
+    }
+
+    // Step 3: Insert the previous lines of products that are still active
+    const previousLines = await db
+      .select({
+        productId: kitchenPeriodDemands.productId,
+        quantity: kitchenPeriodDemands.quantity,
+        unit: products.unit,
+        notes: kitchenPeriodDemands.notes,
+      })
+      .from(kitchenPeriodDemands)
+      .innerJoin(products, eq(kitchenPeriodDemands.productId, products.id))
+      .where(
+        and(
+          eq(kitchenPeriodDemands.teamId, teamId),
+          eq(kitchenPeriodDemands.period, previousPeriod),
+          eq(kitchenPeriodDemands.status, "active"),
+          eq(products.status, "active"),
+          isNull(products.deletedAt)
+        )
+      );
+
+    const copied =
+      previousLines.length > 0
+        ? await db
+            .insert(kitchenPeriodDemands)
+            .values(
+              previousLines.map((line) => ({
+                teamId,
+                productId: line.productId,
+                period,
+                quantity: line.quantity,
+                unit: line.unit,
+                notes: line.notes,
+                createdBy: user.id,
+              }))
+            )
+            .onConflictDoNothing()
+            .returning({ id: kitchenPeriodDemands.id })
+        : [];
+
+    revalidateDemandPages();
+
+    return {
+      success: `Đã sao chép ${copied.length} sản phẩm từ kỳ ${previousPeriod}`,
+    };
+  } catch (error) {
+    console.error("Error in copyPreviousKitchenDemand:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi sao chép nhu cầu kỳ trước"
+    );
+  }
+}
+
+/**
+ * Export the kitchen's demand sheet as an Excel workbook
+ * The file can be filled in offline and imported back.
+ */
+export async function exportKitchenDemandFile(
+  filters: z.infer<typeof KitchenDemandFiltersSchema>
+): Promise<Blob> {
+  try {
+    const { teamId, period } = KitchenDemandFiltersSchema.parse(filters);
+    const user = await checkAuthenticated();
+    const access = await getKitchenDemandAccess(user.id, teamId);
+    const sheet = await loadDemandSheet(access, period);
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(KITCHEN_DEMAND_SHEET_NAME);
+
+    const headerRow = worksheet.addRow(Object.values(KITCHEN_DEMAND_HEADERS));
+    headerRow.eachCell((cell) => {
+      cell.font = { bold: true };
+      cell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFE6E6FA" },
+      };
+    });
+
+    sheet.rows.forEach((row) => {
+      worksheet.addRow([
+        row.productCode,
+        row.productName,
+        row.specification ?? "",
+        row.unit,
+        row.category,
+        row.quantity ?? null,
+        row.notes ?? "",
+      ]);
+    });
+
+    worksheet.columns = [
+      { width: 16 },
+      { width: 40 },
+      { width: 20 },
+      { width: 10 },
+      { width: 20 },
+      { width: 12 },
+      { width: 30 },
+    ];
+    worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    return new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } catch (error) {
+    console.error("Error in exportKitchenDemandFile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi xuất file nhu cầu"
+    );
+  }
+}
+
+/**
+ * Import a filled demand sheet
+ * Rows with an empty quantity are left unchanged, 0 removes the product.
+ */
+export async function importKitchenDemandFromExcel(
+  file: File,
+  params: z.infer<typeof KitchenDemandFiltersSchema>
+): Promise<KitchenDemandImportResult> {
+  try {
+    // Step 1: Validate input and authorization
+    const { teamId, period } = KitchenDemandFiltersSchema.parse(params);
+    const user = await checkAuthenticated();
+    await requireEditableDemand(user.id, teamId, period);
+
+    const result: KitchenDemandImportResult = {
+      success: false,
+      updatedLines: 0,
+      removedLines: 0,
+      skippedLines: 0,
+      errors: [],
+      warnings: [],
+    };
+
+    // Step 2: Parse the workbook
+    const parseResult = await processKitchenDemandFile(file);
+    parseResult.warnings.forEach((warning) => result.warnings.push(warning.message));
+
+    if (!parseResult.success) {
+      parseResult.errors.forEach((error) => result.errors.push(error.message));
+      return result;
+    }
+
+    // Step 3: Resolve product codes, the last row wins for duplicates
+    const codes = [...new Set(parseResult.lines.map((line) => line.productCode))];
+    const productRows = await db
+      .select({ id: products.id, productCode: products.productCode })
+      .from(products)
+      .where(
+        and(
+          inArray(sql`UPPER(${products.productCode})`, codes),
+          eq(products.status, "active"),
+          isNull(products.deletedAt)
+        )
+      );
+    const productIdByCode = new Map(
+      productRows.map((product) => [product.productCode.toUpperCase(), product.id])
+    );
+
+    const items = new Map<number, DemandItem>();
+    for (const line of parseResult.lines) {
+      if (line.error) {
+        result.errors.push(line.error);
+        result.skippedLines++;
+        continue;
+      }
+
+      if (line.quantity === undefined) continue;
+
+      const productId = productIdByCode.get(line.productCode);
+      if (!productId) {
+        result.warnings.push(
+          `Dòng ${line.row}: không tìm thấy sản phẩm ${line.productCode}`
+        );
+        result.skippedLines++;
+        continue;
+      }
+
+      items.set(productId, { productId, quantity: line.quantity, notes: line.notes });
+    }
+
+    if (items.size === 0) {
+      result.errors.push("Không có dòng nhu cầu hợp lệ nào để nhập");
+      return result;
+    }
+
+    // Step 4: Write the lines
+    const { updated, removed } = await applyDemandItems(
+      teamId,
+      period,
+      user.id,
+      [...items.values()]
+    );
+    result.updatedLines = updated;
+    result.removedLines = removed;
+    result.success = true;
+
+    revalidateDemandPages();
+
+    return result;
+  } catch (error) {
+    console.error("Error in importKitchenDemandFromExcel:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi nhập file nhu cầu"
+    );
+  }
+}
+
+/**
+ * Submit the kitchen's demand for the period
+ * Submitted demand is locked until procurement reopens it.
+ */
+export async function submitKitchenDemand(
+  data: z.infer<typeof SubmitKitchenDemandSchema>
+): Promise<{ success: string }> {
+  try {
+    // Step 1: Validate input and authorization
+    const { teamId, period } = SubmitKitchenDemandSchema.parse(data);
+    const user = await checkAuthenticated();
+    const access = await requireEditableDemand(user.id, teamId, period);
+
+    // Step 2: The kitchen must have entered some demand
+    const lines = await getKitchenDemandLines(teamId, period);
+    if (lines.length === 0) {
+      throw new Error("Chưa nhập nhu cầu cho sản phẩm nào");
+    }
+
+    // Step 3: Lock the demand and record the submission
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(kitchenDemandSubmissions)
+        .values({
+          teamId,
+          period,
+          status: "submitted",
+          submittedAt: now,
+          submittedBy: user.id,
+        })
+        .onConflictDoUpdate({
+          target: [kitchenDemandSubmissions.teamId, kitchenDemandSubmissions.period],
+          set: {
+            status: "submitted",
+            submittedAt: now,
+            submittedBy: user.id,
+            updatedAt: now,
+          },
+        });
+
+      await tx.insert(activityLogs).values({
+        teamId,
+        userId: user.id,
+        action: ActivityType.SUBMIT_DEMAND,
+        details: `Nhu cầu kỳ ${period} (${access.kitchen.teamCode ?? access.kitchen.name}): ${lines.length} sản phẩm`,
+      });
+    });
+
+    revalidateDemandPages();
+
+    return { success: `Đã gửi nhu cầu kỳ ${period} (${lines.length} sản phẩm)` };
+  } catch (error) {
+    console.error("Error in submitKitchenDemand:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi gửi nhu cầu"
+    );
+  }
+}
+
+/**
+ * Reopen a submitted demand so the kitchen can edit it again (procurement)
+ */
+export async function reopenKitchenDemand(
+  data: z.infer<typeof ReopenKitchenDemandSchema>
+): Promise<{ success: string }> {
+  try {
+    // Step 1: Validate input and authorization
+    const { teamId, period } = ReopenKitchenDemandSchema.parse(data);
+    const user = await checkAuthenticated();
+    const access = await getKitchenDemandAccess(user.id, teamId);
+
+    if (!access.canReopen) {
+      throw new Error("Forbidden: Chỉ bộ phận thu mua được mở lại nhu cầu đã gửi");
+    }
+
+    // Step 2: Only submitted demand of a period still collecting demand can be reopened
+    const { status } = await getSubmissionStatus(teamId, period);
+    if (status !== "submitted") {
+      throw new Error("Nhu cầu của bếp chưa được gửi");
+    }
+
+    const periodRecord = (await getPeriodsByCodes([period])).get(period);
+    const periodBlockReason = getDemandBlockReason(periodRecord, null);
+    if (periodBlockReason) {
+      throw new Error(periodBlockReason);
+    }
+
+    // Step 3: Unlock the demand and record the reopening
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await tx
+        .update(kitchenDemandSubmissions)
+        .set({
+          status: "draft",
+          reopenedAt: now,
+          reopenedBy: user.id,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(kitchenDemandSubmissions.teamId, teamId),
+            eq(kitchenDemandSubmissions.period, period)
+          )
+        );
+
+      await tx.insert(activityLogs).values({
+        teamId,
+        userId: user.id,
+        action: ActivityType.REOPEN_DEMAND,
+        details: `Nhu cầu kỳ ${period} (${access.kitchen.teamCode ?? access.kitchen.name}) được mở lại`,
+      });
+    });
+
+    revalidateDemandPages();
+
+    return { success: `Đã mở lại nhu cầu của ${access.kitchen.name}` };
+  } catch (error) {
+    console.error("Error in reopenKitchenDemand:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi mở lại nhu cầu"
+    );
+  }
+}
+
+// ==================== PROCUREMENT ROLL-UP ====================
+
+/**
+ * Demand of all active kitchens of a region for a period, per product, with
+ * each kitchen's submission status
+ */
+export async function getRegionalDemandRollup(
+  filters: z.infer<typeof DemandRollupFiltersSchema>
+): Promise<DemandRollup> {
+  try {
+    const { period, region } = DemandRollupFiltersSchema.parse(filters);
+    const user = await checkAuthenticated();
+
+    const roles = (await getUserRoles(user.id)) as Role[];
+    if (!hasProcurementAccess(roles)) {
+      throw new Error("Forbidden: Bạn không có quyền xem tổng hợp nhu cầu");
+    }
+    await requireRegionAccess(user.id, [region]);
+
+    const [kitchens, demandMap] = await Promise.all([
+      db
+        .select({
+          teamId: teams.id,
+          teamCode: teams.teamCode,
+          name: teams.name,
+          status: kitchenDemandSubmissions.status,
+          submittedAt: kitchenDemandSubmissions.submittedAt,
+        })
+        .from(teams)
+        .leftJoin(
+          kitchenDemandSubmissions,
+          and(
+            eq(kitchenDemandSubmissions.teamId, teams.id),
+            eq(kitchenDemandSubmissions.period, period)
+          )
+        )
+        .where(
+          and(
+            eq(teams.region, region),
+            eq(teams.teamType, "KITCHEN"),
+            eq(teams.status, "active"),
+            isNull(teams.deletedAt)
+          )
+        )
+        .orderBy(asc(teams.teamCode)),
+      getRegionalKitchenDemands(period, region),
+    ]);
+
+    const productIds = [...demandMap.keys()];
+    const productRows =
+      productIds.length > 0
+        ? await db
+            .select({
+              productId: products.id,
+              productCode: products.productCode,
+              productName: products.name,
+              unit: products.unit,
+              category: products.category,
+            })
+            .from(products)
+            .where(inArray(products.id, productIds))
+            .orderBy(asc(products.category), asc(products.productCode))
+        : [];
+
+    const productCounts = new Map<number, number>();
+    demandMap.forEach((demand) =>
+      demand.kitchens.forEach((line) =>
+        productCounts.set(line.teamId, (productCounts.get(line.teamId) ?? 0) + 1)
+      )
+    );
+
+    return {
+      period,
+      region,
+      kitchens: kitchens.map((kitchen) => ({
+        ...kitchen,
+        status: (kitchen.status as KitchenDemandSubmissionStatus) ?? "draft",
+        submittedAt: kitchen.submittedAt ?? null,
+        productCount: productCounts.get(kitchen.teamId) ?? 0,
+      })),
+      rows: productRows.map((product) => {
+        const demand = demandMap.get(product.productId)!;
+        return {
+          ...product,
+          total: demand.total,
+          quantities: Object.fromEntries(
+            demand.kitchens.map((line) => [line.teamId, line.quantity])
+          ),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Error in getRegionalDemandRollup:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải tổng hợp nhu cầu"
+    );
+  }
+}
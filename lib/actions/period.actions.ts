@@ -0,0 +1,262 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import { periods, quotations } from "@/lib/db/schema";
+import { getUser } from "@/lib/db/queries";
+import { eq, and, ne, desc, sql } from "drizzle-orm";
+import { requirePermission } from "@/lib/auth/permissions";
+import {
+  canTransitionPeriod,
+  findOverlappingPeriod,
+  getImportBlockReason,
+  getRequoteBlockReason,
+  isPeriodStatus,
+} from "@/lib/utils/period-lifecycle";
+import { getStatusLabel } from "@/lib/utils/status-styles";
+import {
+  CreatePeriodSchema,
+  UpdatePeriodSchema,
+  AdvancePeriodStatusSchema,
+  type PeriodEntry,
+} from "@/lib/types/period.types";
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+async function checkViewRole() {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để xem kỳ báo giá");
+  }
+
+  return user;
+}
+
+async function checkPeriodManagerRole() {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để quản lý kỳ báo giá");
+  }
+
+  await requirePermission(user.id, "canApproveQuotes");
+
+  return user;
+}
+
+async function assertNoOverlappingPeriod(
+  startDate: Date,
+  endDate: Date,
+  excludeId?: number
+) {
+  const existingPeriods = await db
+    .select({
+      code: periods.code,
+      startDate: periods.startDate,
+      endDate: periods.endDate,
+    })
+    .from(periods)
+    .where(excludeId ? ne(periods.id, excludeId) : undefined);
+
+  const overlapping = findOverlappingPeriod({ startDate, endDate }, existingPeriods);
+
+  if (overlapping) {
+    throw new Error(
+      `Thời gian của kỳ báo giá trùng với kỳ ${overlapping.code}`
+    );
+  }
+}
+
+function revalidatePeriodPages() {
+  revalidatePath("/ky-bao-gia");
+  revalidatePath("/bao-gia");
+  revalidatePath("/so-sanh");
+  revalidatePath("/bang-gia");
+}
+
+// ==================== PERIOD ACTIONS ====================
+
+/**
+ * Get all quotation periods, newest first
+ * Drives the period pickers on /bao-gia, /so-sanh and /bang-gia.
+ */
+export async function getPeriods(): Promise<PeriodEntry[]> {
+  try {
+    await checkViewRole();
+
+    const rows = await db
+      .select({
+        id: periods.id,
+        code: periods.code,
+        name: periods.name,
+        startDate: periods.startDate,
+        endDate: periods.endDate,
+        submissionDeadline: periods.submissionDeadline,
+        status: periods.status,
+        closedAt: periods.closedAt,
+        quotationCount: sql<number>`(SELECT COUNT(*) FROM ${quotations} WHERE ${quotations.period} = ${periods.code})`,
+      })
+      .from(periods)
+      .orderBy(desc(periods.code));
+
+    const now = new Date();
+
+    return rows
+      .filter((row) => isPeriodStatus(row.status))
+      .map((row) => ({
+        ...row,
+        status: row.status as PeriodEntry["status"],
+        quotationCount: Number(row.quotationCount),
+        acceptsImports: getImportBlockReason(row, now) === null,
+        acceptsRequotes: getRequoteBlockReason(row) === null,
+      }));
+  } catch (error) {
+    console.error("Error in getPeriods:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải danh sách kỳ báo giá"
+    );
+  }
+}
+
+/**
+ * Create a quotation period in the open state
+ */
+export async function createPeriod(
+  data: z.input<typeof CreatePeriodSchema>
+): Promise<{ success: string }> {
+  try {
+    const user = await checkPeriodManagerRole();
+
+    const { code, name, startDate, endDate, submissionDeadline } =
+      CreatePeriodSchema.parse(data);
+
+    const [existing] = await db
+      .select({ id: periods.id })
+      .from(periods)
+      .where(eq(periods.code, code))
+      .limit(1);
+
+    if (existing) {
+      throw new Error(`Kỳ báo giá ${code} đã tồn tại`);
+    }
+
+    await assertNoOverlappingPeriod(startDate, endDate);
+
+    await db.insert(periods).values({
+      code,
+      name: name || null,
+      startDate,
+      endDate,
+      submissionDeadline,
+      status: "open",
+      createdBy: user.id,
+    });
+
+    revalidatePeriodPages();
+
+    return { success: `Đã tạo kỳ báo giá ${code}` };
+  } catch (error) {
+    console.error("Error in createPeriod:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tạo kỳ báo giá"
+    );
+  }
+}
+
+/**
+ * Update the dates and submission deadline of a period that is not closed
+ */
+export async function updatePeriod(
+  data: z.input<typeof UpdatePeriodSchema>
+): Promise<{ success: string }> {
+  try {
+    await checkPeriodManagerRole();
+
+    const { id, name, startDate, endDate, submissionDeadline } =
+      UpdatePeriodSchema.parse(data);
+
+    await assertNoOverlappingPeriod(startDate, endDate, id);
+
+    const [updated] = await db
+      .update(periods)
+      .set({
+        name: name || null,
+        startDate,
+        endDate,
+        submissionDeadline,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(periods.id, id), ne(periods.status, "closed")))
+      .returning({ code: periods.code });
+
+    if (!updated) {
+      throw new Error("Không tìm thấy kỳ báo giá hoặc kỳ đã đóng");
+    }
+
+    revalidatePeriodPages();
+
+    return { success: `Đã cập nhật kỳ báo giá ${updated.code}` };
+  } catch (error) {
+    console.error("Error in updatePeriod:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi cập nhật kỳ báo giá"
+    );
+  }
+}
+
+/**
+ * Move a period one step forward in its lifecycle
+ */
+export async function advancePeriodStatus(
+  data: z.infer<typeof AdvancePeriodStatusSchema>
+): Promise<{ success: string }> {
+  try {
+    await checkPeriodManagerRole();
+
+    const { id, status } = AdvancePeriodStatusSchema.parse(data);
+
+    const [period] = await db
+      .select({ code: periods.code, status: periods.status })
+      .from(periods)
+      .where(eq(periods.id, id))
+      .limit(1);
+
+    if (!period) {
+      throw new Error("Không tìm thấy kỳ báo giá");
+    }
+
+    if (!canTransitionPeriod(period.status, status)) {
+      throw new Error(
+        `Không thể chuyển kỳ báo giá từ "${getStatusLabel(period.status)}" sang "${getStatusLabel(status)}"`
+      );
+    }
+
+    // Guard against concurrent transitions
+    const [updated] = await db
+      .update(periods)
+      .set({
+        status,
+        closedAt: status === "closed" ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(periods.id, id), eq(periods.status, period.status)))
+      .returning({ id: periods.id });
+
+    if (!updated) {
+      throw new Error("Kỳ báo giá đã được cập nhật bởi người khác, vui lòng tải lại");
+    }
+
+    revalidatePeriodPages();
+
+    return {
+      success: `Kỳ báo giá ${period.code} đã chuyển sang "${getStatusLabel(status)}"`,
+    };
+  } catch (error) {
+    console.error("Error in advancePeriodStatus:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi chuyển trạng thái kỳ báo giá"
+    );
+  }
+}
@@ -11,13 +11,16 @@ import {
   teams,
   teamMembers,
   supplierServiceScopes,
+  kitchenPeriodDemands,
+  periods,
   type Quotation,
   type QuoteItem,
   type Supplier,
   type Product,
   type Team
 } from "@/lib/db/schema";
-import { getUser } from "@/lib/db/queries";
+import { getUser, getAwardAllocations } from "@/lib/db/queries";
+import { APPROVED_QUOTATION_STATUSES } from "@/lib/config/approval";
 import { eq, and, inArray, desc, sql, isNull } from "drizzle-orm";
 import {
   calculatePriceListMatrix,
@@ -276,6 +279,7 @@ export async function getAvailablePeriodsForTeam(
     const availablePeriods = await db
       .select({
         period: quotations.period,
+        status: periods.status,
         approvedQuotations: sql<number>`COUNT(DISTINCT ${quotations.id})`,
         availableSuppliers: sql<number>`COUNT(DISTINCT ${quotations.supplierId})`,
         totalProducts: sql<number>`COUNT(DISTINCT ${quoteItems.productId})`,
@@ -283,6 +287,7 @@ export async function getAvailablePeriodsForTeam(
       })
       .from(quotations)
       .innerJoin(quoteItems, eq(quotations.id, quoteItems.quotationId))
+      .leftJoin(periods, eq(periods.code, quotations.period))
       .innerJoin(supplierServiceScopes,
         and(
           eq(quotations.supplierId, supplierServiceScopes.supplierId),
@@ -292,11 +297,11 @@ export async function getAvailablePeriodsForTeam(
       )
       .where(
         and(
-          eq(quotations.status, 'approved'),
+          inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES]),
           eq(quotations.region, team.region)
         )
       )
-      .groupBy(quotations.period)
+      .groupBy(quotations.period, periods.status)
       .orderBy(desc(quotations.period));
 
     return availablePeriods;
@@ -409,7 +414,7 @@ export async function getPriceListMatrix(
       .innerJoin(products, eq(quoteItems.productId, products.id))
       .where(
         and(
-          eq(quotations.status, 'approved'),
+          inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES]),
           eq(quotations.period, period),
           eq(quotations.region, team.region),
           inArray(quotations.supplierId, validSupplierIds),
@@ -430,6 +435,8 @@ export async function getPriceListMatrix(
       bestSupplierId?: number;
       bestPrice?: number;
       availableSuppliers: number;
+      awardSource: 'allocation' | 'best_price';
+      demandQuantity?: number;
     }>();
 
     const supplierMap = new Map<number, {
@@ -457,6 +464,7 @@ export async function getPriceListMatrix(
           category: row.productCategory,
           suppliers: {},
           availableSuppliers: 0,
+          awardSource: 'best_price',
         });
       }
 
@@ -524,7 +532,56 @@ export async function getPriceListMatrix(
       }
     }
 
-    // STEP 5: Calculate supplier statistics
+    // STEP 5: Mark the supplier(s) to order from - split award, else best price
+    const [allocationMap, teamDemands] = await Promise.all([
+      getAwardAllocations(team.region, period, [...productMap.keys()]),
+      db
+        .select({
+          productId: kitchenPeriodDemands.productId,
+          quantity: kitchenPeriodDemands.quantity,
+        })
+        .from(kitchenPeriodDemands)
+        .where(
+          and(
+            eq(kitchenPeriodDemands.teamId, teamId),
+            eq(kitchenPeriodDemands.period, period),
+            eq(kitchenPeriodDemands.status, 'active')
+          )
+        ),
+    ]);
+
+    const demandMap = new Map<number, number>();
+    teamDemands.forEach(demand => {
+      demandMap.set(
+        demand.productId,
+        (demandMap.get(demand.productId) ?? 0) + Number(demand.quantity)
+      );
+    });
+
+    for (const product of productMap.values()) {
+      const allocations = allocationMap.get(product.productId);
+      const shares = allocations && allocations.length > 0
+        ? allocations
+        : product.bestSupplierId !== undefined
+          ? [{ supplierId: product.bestSupplierId, sharePercent: 100 }]
+          : [];
+
+      product.awardSource = allocations && allocations.length > 0 ? 'allocation' : 'best_price';
+      product.demandQuantity = demandMap.get(product.productId);
+
+      shares.forEach(share => {
+        const supplierData = product.suppliers[share.supplierId];
+        if (!supplierData) return; // Supplier does not serve this kitchen
+
+        supplierData.awardSharePercent = share.sharePercent;
+        if (product.demandQuantity !== undefined) {
+          supplierData.orderQuantity =
+            Math.round(product.demandQuantity * share.sharePercent) / 100;
+        }
+      });
+    }
+
+    // STEP 6: Calculate supplier statistics
     const totalProducts = productMap.size;
     for (const supplier of supplierMap.values()) {
       supplier.totalProducts = totalProducts;
@@ -533,7 +590,7 @@ export async function getPriceListMatrix(
         : 0;
     }
 
-    // STEP 6: Calculate summary statistics
+    // STEP 7: Calculate summary statistics
     const totalSuppliers = supplierMap.size;
     const quotedProducts = productMap.size;
     const missingProducts = 0; // In this context, we only show products with approved prices
@@ -745,7 +802,7 @@ export async function getProductPriceComparison(
       .innerJoin(quoteItems, eq(quotations.id, quoteItems.quotationId))
       .where(
         and(
-          eq(quotations.status, 'approved'),
+          inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES]),
           eq(quotations.period, period),
           eq(quotations.region, team.region),
           eq(quoteItems.productId, productId),
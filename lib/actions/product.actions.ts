@@ -6,6 +6,13 @@ import { db } from "@/lib/db/drizzle";
 import { products } from "@/lib/db/schema";
 import { eq, and, ilike, isNull, sql, asc } from "drizzle-orm";
 import { getUser } from "@/lib/db/queries";
+import {
+  addImportJobFile,
+  completeImportJob,
+  createImportJob,
+  failImportJob,
+  type CompleteImportJobInput,
+} from "@/lib/db/import-jobs";
 import { checkPermission } from "@/lib/auth/permissions";
 import {
   createProductSchema,
@@ -521,11 +528,17 @@ type ImportResult = {
   created: number;
   updated: number;
   errors: string[];
+  importJobId?: number; // Import job the run was logged as (see import-jobs.ts)
 };
 
+const PRODUCT_IMPORT_SHEET = "Danh sách Hàng hóa";
+
 export async function importProductsFromExcel(
-  fileBuffer: ArrayBuffer
+  fileBuffer: ArrayBuffer,
+  fileName: string = "hang-hoa.xlsx"
 ): Promise<ImportResult> {
+  let jobId: number | null = null;
+
   try {
     // 1. Authorization Check (CRITICAL FIRST STEP)
     const user = await getUser();
@@ -543,24 +556,56 @@ export async function importProductsFromExcel(
       };
     }
 
-    // 2. Parse Excel file using ExcelJS
+    // 2. Log the run as an import job and keep the uploaded file with it
+    jobId = await createImportJob({
+      type: "products",
+      totalFiles: 1,
+      createdBy: user.id,
+    });
+    const jobFile = await addImportJobFile(
+      jobId,
+      {
+        data: Buffer.from(fileBuffer),
+        fileName,
+        contentType:
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      },
+      { createdBy: user.id }
+    );
+
+    // 3. Parse Excel file using ExcelJS
     const ExcelJS = (await import("exceljs")).default;
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.load(fileBuffer);
 
-    const worksheet = workbook.getWorksheet("Danh sách Hàng hóa");
+    const worksheet = workbook.getWorksheet(PRODUCT_IMPORT_SHEET);
     if (!worksheet) {
-      return {
-        created: 0,
-        updated: 0,
-        errors: ['Không tìm thấy sheet "Danh sách Hàng hóa"'],
-      };
-    }
-
-    // 3. Process rows with transaction
+      const message = `Không tìm thấy sheet "${PRODUCT_IMPORT_SHEET}"`;
+      await completeImportJob(jobId, {
+        processedFiles: 0,
+        createdCount: 0,
+        updatedCount: 0,
+        itemCount: 0,
+        messages: [{ jobFileId: jobFile.id, level: "error", message }],
+      });
+      return { created: 0, updated: 0, errors: [message], importJobId: jobId };
+    }
+
+    // 4. Process rows with transaction
     let created = 0;
     let updated = 0;
     const errors: string[] = [];
+    const rowErrors: CompleteImportJobInput["messages"] = [];
+    const addRowError = (rowNumber: number, message: string) => {
+      errors.push(`Dòng ${rowNumber}: ${message}`);
+      rowErrors.push({
+        jobFileId: jobFile.id,
+        level: "error",
+        sheetName: PRODUCT_IMPORT_SHEET,
+        rowNumber,
+        message,
+      });
+    };
 
     await db.transaction(async (tx) => {
       // Skip header row, start from row 2
@@ -583,7 +628,7 @@ export async function importProductsFromExcel(
 
         // Validate required field: productCode
         if (!productCode) {
-          errors.push(`Dòng ${rowNumber}: Thiếu mã hàng`);
+          addRowError(rowNumber, "Thiếu mã hàng");
           continue;
         }
 
@@ -625,21 +670,15 @@ export async function importProductsFromExcel(
           } else {
             // CREATE LOGIC: Validate required fields
             if (!name) {
-              errors.push(
-                `Dòng ${rowNumber}: Thiếu tên hàng hóa (mã: ${productCode})`
-              );
+              addRowError(rowNumber, `Thiếu tên hàng hóa (mã: ${productCode})`);
               continue;
             }
             if (!unit) {
-              errors.push(
-                `Dòng ${rowNumber}: Thiếu đơn vị tính (mã: ${productCode})`
-              );
+              addRowError(rowNumber, `Thiếu đơn vị tính (mã: ${productCode})`);
               continue;
             }
             if (!category) {
-              errors.push(
-                `Dòng ${rowNumber}: Thiếu nhóm hàng (mã: ${productCode})`
-              );
+              addRowError(rowNumber, `Thiếu nhóm hàng (mã: ${productCode})`);
               continue;
             }
 
@@ -659,30 +698,46 @@ export async function importProductsFromExcel(
           }
         } catch (rowError) {
           console.error(`Error processing row ${rowNumber}:`, rowError);
-          errors.push(
-            `Dòng ${rowNumber}: ${
-              rowError instanceof Error
-                ? rowError.message
-                : "Lỗi không xác định"
-            }`
+          addRowError(
+            rowNumber,
+            rowError instanceof Error ? rowError.message : "Lỗi không xác định"
           );
         }
       }
     });
 
-    // 4. Cache Revalidation
+    await completeImportJob(jobId, {
+      processedFiles: created + updated > 0 ? 1 : 0,
+      createdCount: created,
+      updatedCount: updated,
+      itemCount: created + updated,
+      messages: rowErrors,
+    });
+
+    // 5. Cache Revalidation
     revalidatePath("/danh-muc/hang-hoa");
+    revalidatePath("/lich-su-nhap");
 
-    // 5. Return detailed result
+    // 6. Return detailed result
     const successMessage = `Import hoàn tất: ${created} hàng hóa mới, ${updated} hàng hóa cập nhật`;
     return {
       success: successMessage,
       created,
       updated,
       errors,
+      importJobId: jobId,
     };
   } catch (error) {
     console.error("Error importing products from Excel:", error);
+
+    // A job that could not finish is recorded as failed
+    if (jobId !== null) {
+      await failImportJob(
+        jobId,
+        error instanceof Error ? error.message : "Lỗi không xác định"
+      ).catch((jobError) => console.error("Error failing import job:", jobError));
+    }
+
     return {
       created: 0,
       updated: 0,
@@ -0,0 +1,792 @@
+"use server";
+
+import { z } from "zod";
+import ExcelJS from "exceljs";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import {
+  activityLogs,
+  ActivityType,
+  products,
+  purchaseOrderItems,
+  purchaseOrders,
+  quotations,
+  quoteItems,
+  supplierServiceScopes,
+  suppliers,
+  teams,
+} from "@/lib/db/schema";
+import {
+  getUser,
+  getUserWithTeam,
+  getAwardAllocations,
+  getRegionalKitchenDemands,
+} from "@/lib/db/queries";
+import { eq, and, asc, inArray, isNull, like, sql } from "drizzle-orm";
+import { requirePermission } from "@/lib/auth/permissions";
+import { APPROVED_QUOTATION_STATUSES } from "@/lib/config/approval";
+import {
+  calculateOrderLine,
+  canTransitionPurchaseOrder,
+  formatPurchaseOrderNumber,
+  parsePurchaseOrderSequence,
+  splitOrderQuantity,
+  sumOrderLines,
+  type OrderLineAmounts,
+  type PurchaseOrderStatus,
+} from "@/lib/utils/purchase-order";
+import { getStatusLabel } from "@/lib/utils/status-styles";
+import {
+  PurchaseOrderFiltersSchema,
+  GeneratePurchaseOrdersSchema,
+  PurchaseOrderIdSchema,
+  AdvancePurchaseOrderStatusSchema,
+  type PurchaseOrderDetail,
+  type PurchaseOrderEntry,
+  type PurchaseOrderGenerationResult,
+  type UnpricedDemandLine,
+} from "@/lib/types/purchase-order.types";
+
+// Timestamp recorded when an order reaches a status
+const STATUS_TIMESTAMPS: Partial<
+  Record<PurchaseOrderStatus, "sentAt" | "confirmedAt" | "receivedAt">
+> = {
+  sent: "sentAt",
+  confirmed: "confirmedAt",
+  received: "receivedAt",
+};
+
+interface PlannedOrderLine extends OrderLineAmounts {
+  productId: number;
+  quoteItemId: number;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  vatPercentage: number;
+  sharePercent: number | null;
+}
+
+interface PlannedOrder {
+  teamId: number;
+  supplierId: number;
+  lines: PlannedOrderLine[];
+}
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+async function checkViewRole(regions: string[] = []) {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để xem đơn đặt hàng");
+  }
+
+  await requirePermission(user.id, "canViewQuotes", regions);
+
+  return user;
+}
+
+/**
+ * Require permission to generate and progress orders (same as negotiating
+ * with suppliers)
+ */
+async function checkManagerRole(regions: string[] = []) {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error("Unauthorized: Bạn cần đăng nhập để quản lý đơn đặt hàng");
+  }
+
+  await requirePermission(user.id, "canNegotiateQuotes", regions);
+
+  return user;
+}
+
+// ==================== DATA HELPERS ====================
+
+const orderKey = (teamId: number, supplierId: number) => `${teamId}:${supplierId}`;
+
+/**
+ * Plan the orders of a period and region
+ * Each kitchen's demand goes to the split-award suppliers of the product, or
+ * to the best approved price (incl. VAT), among the suppliers serving the kitchen.
+ */
+async function planPurchaseOrders(
+  period: string,
+  region: string
+): Promise<{ orders: Map<string, PlannedOrder>; unpricedLines: UnpricedDemandLine[] }> {
+  const demandMap = await getRegionalKitchenDemands(period, region);
+  const productIds = [...demandMap.keys()];
+  const orders = new Map<string, PlannedOrder>();
+  const unpricedLines: UnpricedDemandLine[] = [];
+
+  if (productIds.length === 0) {
+    return { orders, unpricedLines };
+  }
+
+  const teamIds = [
+    ...new Set([...demandMap.values()].flatMap((demand) => demand.kitchens.map((line) => line.teamId))),
+  ];
+
+  const [approvedPrices, scopes, allocationMap, productRows] = await Promise.all([
+    db
+      .select({
+        quoteItemId: quoteItems.id,
+        productId: quoteItems.productId,
+        supplierId: quotations.supplierId,
+        approvedPrice: quoteItems.approvedPrice,
+        vatPercentage: quoteItems.vatPercentage,
+      })
+      .from(quoteItems)
+      .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
+      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
+      .where(
+        and(
+          eq(quotations.period, period),
+          eq(quotations.region, region),
+          inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES]),
+          inArray(quoteItems.productId, productIds),
+          eq(suppliers.status, "active"),
+          isNull(suppliers.deletedAt),
+          sql`${quoteItems.approvedPrice} IS NOT NULL AND ${quoteItems.approvedPrice} > 0`
+        )
+      ),
+    db
+      .select({
+        teamId: supplierServiceScopes.teamId,
+        supplierId: supplierServiceScopes.supplierId,
+      })
+      .from(supplierServiceScopes)
+      .where(
+        and(
+          inArray(supplierServiceScopes.teamId, teamIds),
+          eq(supplierServiceScopes.isActive, true)
+        )
+      ),
+    getAwardAllocations(region, period, productIds),
+    db
+      .select({
+        id: products.id,
+        productCode: products.productCode,
+        name: products.name,
+        unit: products.unit,
+      })
+      .from(products)
+      .where(inArray(products.id, productIds)),
+  ]);
+
+  const pricesByProduct = new Map<number, typeof approvedPrices>();
+  approvedPrices.forEach((price) => {
+    const list = pricesByProduct.get(price.productId) ?? [];
+    list.push(price);
+    pricesByProduct.set(price.productId, list);
+  });
+
+  const servedSuppliers = new Map<number, Set<number>>();
+  scopes.forEach((scope) => {
+    const set = servedSuppliers.get(scope.teamId) ?? new Set<number>();
+    set.add(scope.supplierId);
+    servedSuppliers.set(scope.teamId, set);
+  });
+
+  const productMap = new Map(productRows.map((product) => [product.id, product]));
+
+  demandMap.forEach((demand, productId) => {
+    const product = productMap.get(productId);
+    if (!product) return;
+
+    for (const kitchen of demand.kitchens) {
+      const served = servedSuppliers.get(kitchen.teamId) ?? new Set<number>();
+      const candidates = (pricesByProduct.get(productId) ?? []).filter((price) =>
+        served.has(price.supplierId)
+      );
+
+      if (candidates.length === 0) {
+        unpricedLines.push({
+          teamId: kitchen.teamId,
+          kitchenName: kitchen.kitchenName,
+          productCode: product.productCode,
+          productName: product.name,
+          quantity: kitchen.quantity,
+        });
+        continue;
+      }
+
+      const candidateBySupplier = new Map(candidates.map((price) => [price.supplierId, price]));
+      const allocations = (allocationMap.get(productId) ?? []).filter((allocation) =>
+        candidateBySupplier.has(allocation.supplierId)
+      );
+
+      const isSplit = allocations.length > 0;
+      const shares = isSplit
+        ? allocations
+        : [
+            {
+              supplierId: candidates.reduce((best, price) =>
+                Number(price.approvedPrice) * (1 + Number(price.vatPercentage) / 100) <
+                Number(best.approvedPrice) * (1 + Number(best.vatPercentage) / 100)
+                  ? price
+                  : best
+              ).supplierId,
+              sharePercent: 100,
+            },
+          ];
+
+      for (const share of splitOrderQuantity(kitchen.quantity, shares)) {
+        const price = candidateBySupplier.get(share.supplierId)!;
+        const unitPrice = Number(price.approvedPrice);
+        const vatPercentage = Number(price.vatPercentage ?? 0);
+        const key = orderKey(kitchen.teamId, share.supplierId);
+        const order = orders.get(key) ?? {
+          teamId: kitchen.teamId,
+          supplierId: share.supplierId,
+          lines: [],
+        };
+
+        order.lines.push({
+          productId,
+          quoteItemId: price.quoteItemId,
+          quantity: share.quantity,
+          unit: product.unit,
+          unitPrice,
+          vatPercentage,
+          sharePercent: isSplit ? share.sharePercent : null,
+          ...calculateOrderLine(share.quantity, unitPrice, vatPercentage),
+        });
+        orders.set(key, order);
+      }
+    }
+  });
+
+  return { orders, unpricedLines };
+}
+
+const toOrderItemRows = (purchaseOrderId: number, lines: PlannedOrderLine[]) =>
+  lines.map((line) => ({
+    purchaseOrderId,
+    productId: line.productId,
+    quoteItemId: line.quoteItemId,
+    quantity: line.quantity.toString(),
+    unit: line.unit,
+    unitPrice: line.unitPrice.toString(),
+    vatPercentage: line.vatPercentage.toString(),
+    sharePercent: line.sharePercent?.toString() ?? null,
+    lineSubtotal: line.subtotal.toString(),
+    lineVat: line.vatAmount.toString(),
+    lineTotal: line.total.toString(),
+  }));
+
+const toOrderTotals = (lines: PlannedOrderLine[]) => {
+  const totals = sumOrderLines(lines);
+  return {
+    subtotal: totals.subtotal.toString(),
+    vatAmount: totals.vatAmount.toString(),
+    totalAmount: totals.total.toString(),
+  };
+};
+
+const orderEntryColumns = {
+  id: purchaseOrders.id,
+  poNumber: purchaseOrders.poNumber,
+  period: purchaseOrders.period,
+  region: purchaseOrders.region,
+  teamId: purchaseOrders.teamId,
+  teamCode: teams.teamCode,
+  kitchenName: teams.name,
+  supplierId: purchaseOrders.supplierId,
+  supplierCode: suppliers.supplierCode,
+  supplierName: suppliers.name,
+  status: purchaseOrders.status,
+  lineCount: sql<number>`(SELECT COUNT(*) FROM ${purchaseOrderItems} WHERE ${purchaseOrderItems.purchaseOrderId} = ${purchaseOrders.id})`,
+  subtotal: purchaseOrders.subtotal,
+  vatAmount: purchaseOrders.vatAmount,
+  totalAmount: purchaseOrders.totalAmount,
+  sentAt: purchaseOrders.sentAt,
+  confirmedAt: purchaseOrders.confirmedAt,
+  receivedAt: purchaseOrders.receivedAt,
+  createdAt: purchaseOrders.createdAt,
+};
+
+type OrderEntryRow = Omit<
+  PurchaseOrderEntry,
+  "status" | "subtotal" | "vatAmount" | "totalAmount"
+> & {
+  status: string;
+  subtotal: string;
+  vatAmount: string;
+  totalAmount: string;
+};
+
+const toOrderEntry = (row: OrderEntryRow): PurchaseOrderEntry => ({
+  ...row,
+  status: row.status as PurchaseOrderStatus,
+  lineCount: Number(row.lineCount),
+  subtotal: Number(row.subtotal),
+  vatAmount: Number(row.vatAmount),
+  totalAmount: Number(row.totalAmount),
+});
+
+/**
+ * Load an order with its lines, kitchen and supplier details
+ */
+async function loadPurchaseOrderDetail(id: number): Promise<PurchaseOrderDetail | null> {
+  const [order] = await db
+    .select({
+      ...orderEntryColumns,
+      kitchenAddress: teams.address,
+      supplierAddress: suppliers.address,
+      supplierTaxId: suppliers.taxId,
+      supplierContactPerson: suppliers.contactPerson,
+      supplierPhone: suppliers.phone,
+      supplierEmail: suppliers.email,
+      notes: purchaseOrders.notes,
+    })
+    .from(purchaseOrders)
+    .innerJoin(teams, eq(purchaseOrders.teamId, teams.id))
+    .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+    .where(eq(purchaseOrders.id, id))
+    .limit(1);
+
+  if (!order) return null;
+
+  const lines = await db
+    .select({
+      productId: purchaseOrderItems.productId,
+      productCode: products.productCode,
+      productName: products.name,
+      specification: products.specification,
+      unit: purchaseOrderItems.unit,
+      quantity: purchaseOrderItems.quantity,
+      unitPrice: purchaseOrderItems.unitPrice,
+      vatPercentage: purchaseOrderItems.vatPercentage,
+      sharePercent: purchaseOrderItems.sharePercent,
+      lineSubtotal: purchaseOrderItems.lineSubtotal,
+      lineVat: purchaseOrderItems.lineVat,
+      lineTotal: purchaseOrderItems.lineTotal,
+    })
+    .from(purchaseOrderItems)
+    .innerJoin(products, eq(purchaseOrderItems.productId, products.id))
+    .where(eq(purchaseOrderItems.purchaseOrderId, id))
+    .orderBy(asc(products.category), asc(products.productCode));
+
+  const {
+    kitchenAddress,
+    supplierAddress,
+    supplierTaxId,
+    supplierContactPerson,
+    supplierPhone,
+    supplierEmail,
+    notes,
+    ...entry
+  } = order;
+
+  return {
+    ...toOrderEntry(entry),
+    kitchenAddress,
+    supplierAddress,
+    supplierTaxId,
+    supplierContactPerson,
+    supplierPhone,
+    supplierEmail,
+    notes,
+    lines: lines.map((line) => ({
+      ...line,
+      quantity: Number(line.quantity),
+      unitPrice: Number(line.unitPrice),
+      vatPercentage: Number(line.vatPercentage),
+      sharePercent: line.sharePercent !== null ? Number(line.sharePercent) : null,
+      lineSubtotal: Number(line.lineSubtotal),
+      lineVat: Number(line.lineVat),
+      lineTotal: Number(line.lineTotal),
+    })),
+  };
+}
+
+// ==================== PURCHASE ORDER ACTIONS ====================
+
+/**
+ * Generate the purchase orders of a period and region
+ * Draft orders are rebuilt from the current approved prices and demand (their
+ * PO numbers are kept); orders already sent or beyond are left untouched.
+ */
+export async function generatePurchaseOrders(
+  data: z.infer<typeof GeneratePurchaseOrdersSchema>
+): Promise<PurchaseOrderGenerationResult> {
+  try {
+    // Step 1: Validate input and authorization
+    const { period, region } = GeneratePurchaseOrdersSchema.parse(data);
+    const user = await checkManagerRole([region]);
+
+    // Step 2: Plan the orders from approved prices and kitchen demand
+    const { orders, unpricedLines } = await planPurchaseOrders(period, region);
+
+    if (orders.size === 0) {
+      throw new Error(
+        unpricedLines.length > 0
+          ? "Chưa có giá được duyệt cho nhu cầu của các bếp trong kỳ này"
+          : "Chưa có nhu cầu của bếp nào trong kỳ này"
+      );
+    }
+
+    // Step 3: Write the orders
+    const counts = await db.transaction(async (tx) => {
+      // Runs for the same period wait for each other, so two of them never
+      // read the same last PO number
+      await tx.execute(
+        sql`SELECT pg_advisory_xact_lock(hashtext(${`purchase_orders:${period}`}))`
+      );
+
+      const existingOrders = await tx
+        .select({
+          id: purchaseOrders.id,
+          teamId: purchaseOrders.teamId,
+          supplierId: purchaseOrders.supplierId,
+          status: purchaseOrders.status,
+        })
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.period, period), eq(purchaseOrders.region, region)));
+
+      const existingByKey = new Map(
+        existingOrders.map((order) => [orderKey(order.teamId, order.supplierId), order])
+      );
+
+      // PO numbers run per period across regions
+      const periodNumbers = await tx
+        .select({ poNumber: purchaseOrders.poNumber })
+        .from(purchaseOrders)
+        .where(like(purchaseOrders.poNumber, `${formatPurchaseOrderNumber(period, 0).slice(0, -4)}%`));
+      let sequence = Math.max(
+        0,
+        ...periodNumbers.map((row) => parsePurchaseOrderSequence(period, row.poNumber) ?? 0)
+      );
+
+      let created = 0;
+      let updated = 0;
+      let removed = 0;
+      let lockedOrders = 0;
+
+      for (const [key, order] of orders) {
+        const existing = existingByKey.get(key);
+
+        if (existing && existing.status !== "draft") {
+          lockedOrders++;
+          continue;
+        }
+
+        if (existing) {
+          await tx
+            .delete(purchaseOrderItems)
+            .where(eq(purchaseOrderItems.purchaseOrderId, existing.id));
+          await tx
+            .update(purchaseOrders)
+            .set({ ...toOrderTotals(order.lines), updatedAt: new Date() })
+            .where(eq(purchaseOrders.id, existing.id));
+          await tx.insert(purchaseOrderItems).values(toOrderItemRows(existing.id, order.lines));
+          updated++;
+          continue;
+        }
+
+        const [inserted] = await tx
+          .insert(purchaseOrders)
+          .values({
+            poNumber: formatPurchaseOrderNumber(period, ++sequence),
+            period,
+            region,
+            teamId: order.teamId,
+            supplierId: order.supplierId,
+            ...toOrderTotals(order.lines),
+            createdBy: user.id,
+          })
+          .returning({ id: purchaseOrders.id });
+        await tx.insert(purchaseOrderItems).values(toOrderItemRows(inserted.id, order.lines));
+        created++;
+      }
+
+      // Drafts no longer backed by demand and prices are dropped
+      const staleDraftIds = existingOrders
+        .filter(
+          (order) =>
+            order.status === "draft" && !orders.has(orderKey(order.teamId, order.supplierId))
+        )
+        .map((order) => order.id);
+      if (staleDraftIds.length > 0) {
+        await tx.delete(purchaseOrders).where(inArray(purchaseOrders.id, staleDraftIds));
+        removed = staleDraftIds.length;
+      }
+
+      // The activity log is team-scoped
+      const userWithTeam = await getUserWithTeam(user.id);
+      if (userWithTeam?.teamId) {
+        await tx.insert(activityLogs).values({
+          teamId: userWithTeam.teamId,
+          userId: user.id,
+          action: ActivityType.GENERATE_PURCHASE_ORDERS,
+          details: `Đơn đặt hàng kỳ ${period} (${region}): ${created} tạo mới, ${updated} cập nhật, ${removed} xóa`,
+        });
+      }
+
+      return { created, updated, removed, lockedOrders };
+    });
+
+    revalidatePath("/don-hang");
+
+    return {
+      success: `Đã tạo ${counts.created} và cập nhật ${counts.updated} đơn đặt hàng kỳ ${period}`,
+      ...counts,
+      unpricedLines,
+    };
+  } catch (error) {
+    console.error("Error in generatePurchaseOrders:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tạo đơn đặt hàng"
+    );
+  }
+}
+
+/**
+ * List the purchase orders of a period and region
+ */
+export async function getPurchaseOrders(
+  filters: z.infer<typeof PurchaseOrderFiltersSchema>
+): Promise<PurchaseOrderEntry[]> {
+  try {
+    const { period, region, status } = PurchaseOrderFiltersSchema.parse(filters);
+    await checkViewRole([region]);
+
+    const conditions = [
+      eq(purchaseOrders.period, period),
+      eq(purchaseOrders.region, region),
+    ];
+    if (status) {
+      conditions.push(eq(purchaseOrders.status, status));
+    }
+
+    const rows = await db
+      .select(orderEntryColumns)
+      .from(purchaseOrders)
+      .innerJoin(teams, eq(purchaseOrders.teamId, teams.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(and(...conditions))
+      .orderBy(asc(purchaseOrders.poNumber));
+
+    return rows.map(toOrderEntry);
+  } catch (error) {
+    console.error("Error in getPurchaseOrders:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải danh sách đơn đặt hàng"
+    );
+  }
+}
+
+/**
+ * Get an order with its lines
+ */
+export async function getPurchaseOrder(
+  data: z.infer<typeof PurchaseOrderIdSchema>
+): Promise<PurchaseOrderDetail> {
+  try {
+    const { id } = PurchaseOrderIdSchema.parse(data);
+    const order = await loadPurchaseOrderDetail(id);
+
+    if (!order) {
+      throw new Error("Không tìm thấy đơn đặt hàng");
+    }
+
+    await checkViewRole([order.region]);
+
+    return order;
+  } catch (error) {
+    console.error("Error in getPurchaseOrder:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải đơn đặt hàng"
+    );
+  }
+}
+
+/**
+ * Move an order to its next status (draft → sent → confirmed → received)
+ */
+export async function advancePurchaseOrderStatus(
+  data: z.infer<typeof AdvancePurchaseOrderStatusSchema>
+): Promise<{ success: string }> {
+  try {
+    // Step 1: Validate input
+    const { id, status } = AdvancePurchaseOrderStatusSchema.parse(data);
+
+    const [order] = await db
+      .select({
+        id: purchaseOrders.id,
+        poNumber: purchaseOrders.poNumber,
+        region: purchaseOrders.region,
+        teamId: purchaseOrders.teamId,
+        status: purchaseOrders.status,
+      })
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.id, id))
+      .limit(1);
+
+    if (!order) {
+      throw new Error("Không tìm thấy đơn đặt hàng");
+    }
+
+    // Step 2: Authorization and transition check
+    const user = await checkManagerRole([order.region]);
+
+    if (!canTransitionPurchaseOrder(order.status, status)) {
+      throw new Error(
+        `Không thể chuyển đơn ${order.poNumber} từ "${getStatusLabel(order.status)}" sang "${getStatusLabel(status)}"`
+      );
+    }
+
+    // Step 3: Update the status (guards against concurrent changes) and log it
+    const timestampColumn = STATUS_TIMESTAMPS[status];
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      const updatedRows = await tx
+        .update(purchaseOrders)
+        .set({
+          status,
+          ...(timestampColumn ? { [timestampColumn]: now } : {}),
+          updatedAt: now,
+        })
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, order.status)))
+        .returning({ id: purchaseOrders.id });
+
+      if (updatedRows.length === 0) {
+        throw new Error("Đơn đặt hàng vừa được cập nhật bởi người khác - vui lòng tải lại");
+      }
+
+      await tx.insert(activityLogs).values({
+        teamId: order.teamId,
+        userId: user.id,
+        action: ActivityType.UPDATE_PURCHASE_ORDER_STATUS,
+        details: `Đơn ${order.poNumber}: ${getStatusLabel(order.status)} → ${getStatusLabel(status)}`,
+      });
+    });
+
+    revalidatePath("/don-hang");
+
+    return { success: `Đơn ${order.poNumber} đã chuyển sang "${getStatusLabel(status)}"` };
+  } catch (error) {
+    console.error("Error in advancePurchaseOrderStatus:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi cập nhật trạng thái đơn đặt hàng"
+    );
+  }
+}
+
+/**
+ * Export an order as an Excel workbook for the supplier
+ */
+export async function exportPurchaseOrderFile(
+  data: z.infer<typeof PurchaseOrderIdSchema>
+): Promise<Blob> {
+  try {
+    const order = await getPurchaseOrder(data);
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(order.poNumber);
+
+    // Header block
+    worksheet.addRow([`ĐƠN ĐẶT HÀNG ${order.poNumber}`]).font = { bold: true, size: 14 };
+    worksheet.addRow([`Kỳ: ${order.period}`, "", `Khu vực: ${order.region}`]);
+    worksheet.addRow([
+      `Bếp: ${order.teamCode ? `${order.teamCode} - ` : ""}${order.kitchenName}`,
+      "",
+      `Địa chỉ giao hàng: ${order.kitchenAddress ?? "-"}`,
+    ]);
+    worksheet.addRow([
+      `Nhà cung cấp: ${order.supplierCode ? `${order.supplierCode} - ` : ""}${order.supplierName}`,
+      "",
+      `MST: ${order.supplierTaxId ?? "-"}`,
+    ]);
+    worksheet.addRow([
+      `Liên hệ: ${order.supplierContactPerson ?? "-"}`,
+      "",
+      `Điện thoại: ${order.supplierPhone ?? "-"}`,
+    ]);
+    worksheet.addRow([]);
+
+    const headerRow = worksheet.addRow([
+      "STT",
+      "Mã sản phẩm",
+      "Tên sản phẩm",
+      "Quy cách",
+      "Đơn vị",
+      "Số lượng",
+      "Đơn giá",
+      "VAT %",
+      "Thành tiền",
+      "Tiền VAT",
+      "Tổng cộng",
+    ]);
+    headerRow.eachCell((cell) => {
+      cell.font = { bold: true };
+      cell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFE6E6FA" },
+      };
+    });
+
+    order.lines.forEach((line, index) => {
+      worksheet.addRow([
+        index + 1,
+        line.productCode,
+        line.productName,
+        line.specification ?? "",
+        line.unit,
+        line.quantity,
+        line.unitPrice,
+        line.vatPercentage,
+        line.lineSubtotal,
+        line.lineVat,
+        line.lineTotal,
+      ]);
+    });
+
+    const totalRow = worksheet.addRow([
+      "",
+      "",
+      "Tổng cộng",
+      "",
+      "",
+      "",
+      "",
+      "",
+      order.subtotal,
+      order.vatAmount,
+      order.totalAmount,
+    ]);
+    totalRow.font = { bold: true };
+
+    worksheet.columns = [
+      { width: 6 },
+      { width: 16 },
+      { width: 40 },
+      { width: 20 },
+      { width: 10 },
+      { width: 12 },
+      { width: 14 },
+      { width: 8 },
+      { width: 16 },
+      { width: 14 },
+      { width: 16 },
+    ];
+    [7, 9, 10, 11].forEach((column) => {
+      worksheet.getColumn(column).numFmt = "#,##0";
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    return new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } catch (error) {
+    console.error("Error in exportPurchaseOrderFile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi xuất file đơn đặt hàng"
+    );
+  }
+}
@@ -10,23 +10,70 @@ import {
   products,
   teams,
   priceHistory,
+  approvalRequests,
+  activityLogs,
+  periods,
+  users,
+  storedFiles,
+  quotationVersions,
+  quotationVersionItems,
+  ActivityType,
   type Quotation,
   type QuoteItem,
   type Supplier,
   type Product,
 } from "@/lib/db/schema";
-import { getUser } from "@/lib/db/queries";
+import {
+  getUser,
+  getUserWithTeam,
+  getNegotiationHistory,
+  getPeriodsByCodes,
+  priceHistoryNotReversed,
+} from "@/lib/db/queries";
 import { eq, and, inArray, desc, sql, like } from "drizzle-orm";
-import { processExcelFile, type ParseResult } from "@/lib/utils/excel-parser";
-import { getUserPermissions, type PermissionSet } from "@/lib/auth/permissions";
+import {
+  loadImportProfiles,
+  previewParsedQuotation,
+  saveParsedQuotation,
+} from "@/lib/db/quotation-import";
+import { processQuotationFile } from "@/lib/utils/excel-parser";
+import {
+  addImportJobFile,
+  completeImportJob,
+  createImportJob,
+  failImportJob,
+  type CompleteImportJobInput,
+} from "@/lib/db/import-jobs";
+import { FILE_ROUTE_PREFIX } from "@/lib/utils/signed-file-link";
+import {
+  getApprovalBlockReason,
+  getImportBlockReason,
+  getRequoteBlockReason,
+} from "@/lib/utils/period-lifecycle";
+import {
+  getUserPermissions,
+  requirePermission,
+  getUserRoles,
+  type PermissionSet,
+} from "@/lib/auth/permissions";
+import {
+  getApprovalBand,
+  canSignOffBand,
+  getSignOffDeniedMessage,
+  APPROVED_QUOTATION_STATUSES,
+} from "@/lib/config/approval";
 import { getSession } from "@/lib/auth/session";
 import {
   QuotationFiltersSchema,
   ImportQuotationsSchema,
   UpdateQuotationStatusSchema,
+  RevokeQuotationApprovalSchema,
   type QuotationWithDetails,
   type QuotationDetailsWithItems,
   type ImportResult,
+  type QuotationVersionEntry,
+  type QuotationVersionSource,
+  type ImportPreviewResult,
 } from "@/lib/types/quotations.types";
 
 // Validation schemas and types are imported from types file
@@ -57,7 +104,11 @@ async function checkProcurementRole(
   return user;
 }
 
-async function checkManagerRole() {
+/**
+ * Require permission to negotiate quotations (manager-level operations)
+ * Team-restricted users are limited to the regions of their teams.
+ */
+async function checkManagerRole(regions: string[] = []) {
   const user = await getUser();
 
   if (!user) {
@@ -66,8 +117,7 @@ async function checkManagerRole() {
     );
   }
 
-  // TODO: Implement proper role checking for manager-level operations
-  // This should check for ADMIN_SUPER_ADMIN or PROCUREMENT_MANAGER roles
+  await requirePermission(user.id, "canNegotiateQuotes", regions);
 
   return user;
 }
@@ -180,365 +230,345 @@ export async function getQuotations(
 }
 
 /**
- * Import quotations from Excel files
+ * Import quotations from Excel (.xlsx, .xls) and CSV files
  */
 export async function importQuotationsFromExcel(
   files: File[],
   importData: z.infer<typeof ImportQuotationsSchema>
 ): Promise<ImportResult> {
+  const result: ImportResult = {
+    success: false,
+    totalFiles: files.length,
+    processedFiles: 0,
+    totalQuotations: 0,
+    createdQuotations: 0,
+    updatedQuotations: 0,
+    totalItems: 0,
+    flaggedItems: 0,
+    errors: [],
+    warnings: [],
+  };
+
+  // Import job still to be completed, marked failed if the run throws
+  let runningJobId: number | null = null;
+
   try {
     // Authorization check
     const user = await checkProcurementRole();
 
     // Validate import data
     const validatedData = ImportQuotationsSchema.parse(importData);
-    const { period, region, overwrite } = validatedData;
-
-    const result: ImportResult = {
-      success: false,
-      totalFiles: files.length,
-      processedFiles: 0,
-      totalQuotations: 0,
-      createdQuotations: 0,
-      updatedQuotations: 0,
-      totalItems: 0,
-      errors: [],
-      warnings: [],
-    };
+    const { period, region, overwrite, fileSuppliers } = validatedData;
 
     if (files.length === 0) {
       result.errors.push("Không có file nào được chọn");
       return result;
     }
 
-    // Process each file
-    for (const file of files) {
-      try {
-        // Parse Excel file with region and period from import data
-        const parseResult: ParseResult = await processExcelFile(
-          file,
-          region,
-          period
-        );
+    // The period must still accept quotations (status and submission deadline);
+    // past that, quotations in negotiation can still be re-quoted until it closes
+    const periodRecord = (await getPeriodsByCodes([period])).get(period);
+    const requoteBlockReason = getRequoteBlockReason(periodRecord);
+    if (requoteBlockReason) {
+      result.errors.push(requoteBlockReason);
+      return result;
+    }
+    const importBlockReason = getImportBlockReason(periodRecord);
 
-        if (!parseResult.success || !parseResult.data) {
-          result.errors.push(
-            `File ${file.name}: ${parseResult.errors
-              .map((e) => e.message)
-              .join(", ")}`
-          );
-          continue;
-        }
+    // Import profiles of the suppliers whose own file layout was chosen
+    const importProfiles = await loadImportProfiles(
+      fileSuppliers.filter((supplierId): supplierId is number => supplierId !== null)
+    );
 
-        // Validate that region matches (period is now provided from form, not Excel)
-        if (parseResult.data?.info?.region !== region) {
-          result.errors.push(
-            `File ${file.name}: Khu vực trong file (${
-              parseResult.data?.info?.region || "N/A"
-            }) không khớp với khu vực đã chọn (${region})`
-          );
-          continue;
-        }
+    // Log the run as an import job with its files and messages
+    const jobId = await createImportJob({
+      type: "quotations",
+      region,
+      period,
+      totalFiles: files.length,
+      createdBy: user.id,
+    });
+    runningJobId = jobId;
+    const jobMessages: CompleteImportJobInput["messages"] = [];
 
-        // Validate supplier exists
-        const supplierCode = parseResult.data?.info?.supplierCode;
-        if (!supplierCode) {
-          result.errors.push(`File ${file.name}: Thiếu mã nhà cung cấp`);
-          continue;
-        }
+    // Process each file
+    for (const [fileIndex, file] of files.entries()) {
+      let jobFileId: number | null = null;
+      const logFileMessage = (
+        level: "error" | "warning",
+        message: string,
+        sheetName: string | null = null,
+        rowNumber: number | null = null
+      ) => jobMessages.push({ jobFileId, level, sheetName, rowNumber, message });
 
-        const [supplier] = await db
-          .select()
-          .from(suppliers)
-          .where(eq(suppliers.supplierCode, supplierCode))
-          .limit(1);
+      try {
+        // Keep the upload with the job - it is also the source file of the
+        // quotation versions it creates
+        const jobFile = await addImportJobFile(
+          jobId,
+          {
+            data: Buffer.from(await file.arrayBuffer()),
+            fileName: file.name,
+            contentType: file.type || "application/octet-stream",
+          },
+          { region, period, createdBy: user.id }
+        );
+        jobFileId = jobFile.id;
 
-        if (!supplier) {
-          result.errors.push(
-            `File ${file.name}: Không tìm thấy nhà cung cấp với mã ${supplierCode}`
-          );
-          continue;
-        }
+        const profileSupplierId = fileSuppliers[fileIndex] ?? null;
+        const profile =
+          profileSupplierId !== null ? importProfiles.get(profileSupplierId) : undefined;
 
-        // Validate all products exist with input normalization
-        if (!parseResult.data?.items) {
-          result.errors.push(
-            `File ${file.name}: Dữ liệu sản phẩm không hợp lệ`
-          );
+        if (profileSupplierId !== null && !profile) {
+          const message = "Nhà cung cấp chưa có cấu hình nhập báo giá";
+          result.errors.push(`File ${file.name}: ${message}`);
+          logFileMessage("error", message);
           continue;
         }
 
-        const productCodes = parseResult.data.items.map((item) => {
-          if (!item?.productCode) {
-            throw new Error("Product code is missing or invalid");
+        // Parse the file with region and period from import data - one
+        // result per supplier sheet of a multi-supplier workbook
+        const parseResults = await processQuotationFile(file, region, period, profile);
+        let fileProcessed = false;
+
+        for (const parseResult of parseResults) {
+          const source = parseResult.sheetName
+            ? `File ${file.name} (sheet ${parseResult.sheetName})`
+            : `File ${file.name}`;
+          const sheetName = parseResult.sheetName ?? null;
+          const itemsSheet = parseResult.itemsSheet ?? null;
+
+          if (!parseResult.success || !parseResult.data) {
+            result.errors.push(
+              `${source}: ${parseResult.errors.map((e) => e.message).join(", ")}`
+            );
+            parseResult.errors.forEach((e) =>
+              e.row
+                ? logFileMessage("error", e.message, itemsSheet, e.row)
+                : logFileMessage("error", e.message, sheetName)
+            );
+            continue;
           }
-          return item.productCode.trim().toUpperCase();
-        });
-
-        const existingProducts = await db
-          .select()
-          .from(products)
-          .where(inArray(products.productCode, productCodes));
-
-        const existingProductCodes = new Set(
-          existingProducts
-            .map((p) => p.productCode?.trim().toUpperCase())
-            .filter(Boolean)
-        );
-        const missingProducts = [];
-        const validProducts = [];
 
-        // Granular validation with detailed reporting
-        for (let i = 0; i < productCodes.length; i++) {
-          const normalizedCode = productCodes[i];
-          const originalItem = parseResult.data.items[i];
-
-          if (existingProductCodes.has(normalizedCode)) {
-            validProducts.push(normalizedCode);
-          } else {
-            missingProducts.push({
-              code: originalItem.productCode,
-              normalizedCode,
-              row: i + 2, // Excel row number (accounting for header)
-            });
-          }
-        }
+          // Validate and write through the shared quotation persistence
+          const saveResult = await saveParsedQuotation(parseResult.data, {
+            period,
+            region,
+            overwrite,
+            userId: user.id,
+            sourceFile: { id: jobFile.storedFileId, fileName: file.name },
+            importJobId: jobId,
+            importBlockReason,
+          });
 
-        if (missingProducts.length > 0) {
-          const errorDetails = missingProducts
-            .map((p) => `${p.code} (dòng ${p.row})`)
-            .join(", ");
-          result.errors.push(
-            `File ${file.name}: Không tìm thấy sản phẩm với mã: ${errorDetails}`
+          result.warnings.push(
+            ...saveResult.warnings.map((warning) => `${source}: ${warning}`)
+          );
+          saveResult.warnings.forEach((warning) =>
+            logFileMessage("warning", warning, sheetName)
           );
 
-          // Add warning if normalization might help
-          if (missingProducts.some((p) => p.code !== p.normalizedCode)) {
-            result.warnings.push(
-              `File ${file.name}: Một số mã sản phẩm đã được chuẩn hóa (loại bỏ khoảng trắng, chuyển thành chữ hoa) nhưng vẫn không tìm thấy`
+          if (!saveResult.saved) {
+            result.errors.push(
+              ...saveResult.errors.map((error) => `${source}: ${error}`)
             );
-          }
-          continue;
-        }
-
-        // Process the file in a transaction
-        await db.transaction(async (tx) => {
-          // Check for existing quotation
-          const [existingQuotation] = await tx
-            .select()
-            .from(quotations)
-            .where(
-              and(
-                eq(quotations.supplierId, supplier.id),
-                eq(quotations.period, period),
-                eq(quotations.region, region)
-              )
-            )
-            .limit(1);
-
-          let quotationId: number;
-          let isUpdate = false;
-
-          if (existingQuotation) {
-            // Handle different update scenarios based on quotation status
-            if (existingQuotation.status === "negotiation") {
-              // Intelligent update: Update negotiated prices for quotations in negotiation
-              quotationId = existingQuotation.id;
-              isUpdate = true;
-
-              // Update quotation metadata
-              await tx
-                .update(quotations)
-                .set({
-                  quoteDate: parseResult.data?.info?.quoteDate
-                    ? new Date(parseResult.data.info.quoteDate)
-                    : null,
-                  updateDate: new Date(),
-                  updatedAt: new Date(),
-                })
-                .where(eq(quotations.id, existingQuotation.id));
-
-              // For negotiation status, we'll update negotiated_price instead of replacing items
-              // This will be handled in the item processing loop below
-            } else if (existingQuotation.status === "pending") {
-              if (!overwrite) {
-                throw new Error(
-                  `Báo giá đã tồn tại cho NCC ${supplier.supplierCode} trong kỳ ${period} tại ${region}. Vui lòng chọn "Ghi đè" để cập nhật.`
-                );
-              }
-
-              // Update existing pending quotation (standard overwrite)
-              await tx
-                .update(quotations)
-                .set({
-                  quoteDate: parseResult.data?.info?.quoteDate
-                    ? new Date(parseResult.data.info.quoteDate)
-                    : null,
-                  updateDate: new Date(),
-                  updatedAt: new Date(),
-                })
-                .where(eq(quotations.id, existingQuotation.id));
-
-              // Delete existing quote items for pending quotations
-              await tx
-                .delete(quoteItems)
-                .where(eq(quoteItems.quotationId, existingQuotation.id));
-
-              quotationId = existingQuotation.id;
-              isUpdate = true;
+            // Missing products are reported per row as well as in one summary error
+            if (saveResult.rowErrors.length > 0) {
+              saveResult.rowErrors.forEach((rowError) =>
+                logFileMessage("error", rowError.message, itemsSheet, rowError.rowNumber)
+              );
             } else {
-              // Cannot update quotations in 'approved', 'rejected', etc. status
-              throw new Error(
-                `Không thể cập nhật báo giá ở trạng thái '${existingQuotation.status}'. Chỉ có thể cập nhật báo giá ở trạng thái 'pending' hoặc 'negotiation'.`
+              saveResult.errors.forEach((error) =>
+                logFileMessage("error", error, sheetName)
               );
             }
-          } else {
-            // Create new quotation
-            const [newQuotation] = await tx
-              .insert(quotations)
-              .values({
-                quotationId: `Q-${supplier.supplierCode}-${period}-${region}`,
-                period,
-                supplierId: supplier.id,
-                region,
-                category:
-                  parseResult.data?.items?.[0]?.productCode?.substring(0, 2) ||
-                  "GEN", // Simple category logic
-                quoteDate: parseResult.data?.info?.quoteDate
-                  ? new Date(parseResult.data.info.quoteDate)
-                  : null,
-                status: "pending",
-                createdBy: user.id,
-              })
-              .returning({ id: quotations.id });
-
-            quotationId = newQuotation.id;
+            continue;
           }
 
-          // Create product code to ID mapping with normalization
-          const productMap = new Map();
-          existingProducts.forEach((p) => {
-            if (p.productCode) {
-              productMap.set(p.productCode.trim().toUpperCase(), p.id);
-            }
-          });
+          result.totalItems += saveResult.totalItems;
+          if (saveResult.isUpdate) {
+            result.updatedQuotations++;
+          } else {
+            result.createdQuotations++;
+          }
 
-          // Handle item processing based on quotation status
-          if (existingQuotation && existingQuotation.status === "negotiation") {
-            // Update negotiated prices for existing items
-            let updatedItemsCount = 0;
-            for (const item of parseResult.data?.items || []) {
-              if (!item?.productCode) {
-                throw new Error("Invalid item data: missing productCode");
-              }
-
-              const normalizedCode = item.productCode.trim().toUpperCase();
-              const productId = productMap.get(normalizedCode);
-
-              if (!productId) {
-                throw new Error(
-                  `Product mapping failed for code: ${item.productCode}`
-                );
-              }
-
-              // Update negotiated price for existing quote item
-              const updateResult = await tx
-                .update(quoteItems)
-                .set({
-                  negotiatedPrice: item.initialPrice ?? 0, // New price goes to negotiatedPrice
-                  negotiationRounds: sql`${quoteItems.negotiationRounds} + 1`,
-                  lastNegotiatedAt: new Date(),
-                  updatedAt: new Date(),
-                  notes: item.notes || quoteItems.notes, // Preserve existing notes if new ones aren't provided
-                })
-                .where(
-                  and(
-                    eq(quoteItems.quotationId, quotationId),
-                    eq(quoteItems.productId, productId)
-                  )
-                );
-
-              updatedItemsCount++;
-            }
+          fileProcessed = true;
+          result.totalQuotations++;
 
-            result.totalItems += updatedItemsCount;
-            console.log(
-              `Updated negotiated prices for ${updatedItemsCount} items in quotation ${quotationId}`
+          // Report flagged prices as warnings (the import itself still succeeds)
+          if (saveResult.anomalyWarnings.length > 0) {
+            result.flaggedItems += saveResult.anomalyWarnings.length;
+            result.warnings.push(
+              ...saveResult.anomalyWarnings.map(
+                (warning) => `${source}: Giá bất thường - ${warning}`
+              )
+            );
+            saveResult.anomalyWarnings.forEach((warning) =>
+              logFileMessage("warning", `Giá bất thường - ${warning}`, sheetName)
             );
-          } else {
-            // Insert new quote items (for new quotations or pending updates)
-            const quoteItemsData = [];
-            for (const item of parseResult.data?.items || []) {
-              if (!item?.productCode) {
-                throw new Error("Invalid item data: missing productCode");
-              }
-
-              const normalizedCode = item.productCode.trim().toUpperCase();
-              const productId = productMap.get(normalizedCode);
-
-              if (!productId) {
-                throw new Error(
-                  `Product mapping failed for code: ${item.productCode}`
-                );
-              }
-
-              quoteItemsData.push({
-                quotationId,
-                productId,
-                quantity: item.quantity ?? 1,
-                initialPrice: item.initialPrice ?? 0,
-                vatPercentage: item.vatRate ?? 0,
-                currency: "VND",
-                notes: item.notes || null,
-              });
-            }
-
-            await tx.insert(quoteItems).values(quoteItemsData);
-            result.totalItems += quoteItemsData.length;
           }
 
-          // Update counters
-          if (isUpdate) {
-            result.updatedQuotations++;
-          } else {
-            result.createdQuotations++;
+          // Add any warnings from parsing
+          if (parseResult.warnings.length > 0) {
+            result.warnings.push(
+              `${source}: ${parseResult.warnings.map((w) => w.message).join(", ")}`
+            );
+            parseResult.warnings.forEach((w) =>
+              w.row
+                ? logFileMessage("warning", w.message, itemsSheet, w.row)
+                : logFileMessage("warning", w.message, sheetName)
+            );
           }
-        });
-
-        result.processedFiles++;
-        result.totalQuotations++;
+        }
 
-        // Add any warnings from parsing
-        if (parseResult.warnings.length > 0) {
-          result.warnings.push(
-            `File ${file.name}: ${parseResult.warnings
-              .map((w) => w.message)
-              .join(", ")}`
-          );
+        if (fileProcessed) {
+          result.processedFiles++;
         }
       } catch (error) {
-        result.errors.push(
-          `File ${file.name}: ${
-            error instanceof Error ? error.message : "Lỗi không xác định"
-          }`
-        );
+        const message = error instanceof Error ? error.message : "Lỗi không xác định";
+        result.errors.push(`File ${file.name}: ${message}`);
+        logFileMessage("error", message);
       }
     }
 
+    await completeImportJob(jobId, {
+      processedFiles: result.processedFiles,
+      createdCount: result.createdQuotations,
+      updatedCount: result.updatedQuotations,
+      itemCount: result.totalItems,
+      messages: jobMessages,
+    });
+    runningJobId = null;
+    result.importJobId = jobId;
+
     result.success = result.processedFiles > 0 && result.errors.length === 0;
 
     // Revalidate the quotations page
     revalidatePath("/bao-gia");
+    revalidatePath("/lich-su-nhap");
 
     return result;
   } catch (error) {
     console.error("Error in importQuotationsFromExcel:", error);
+
+    if (runningJobId !== null) {
+      await failImportJob(
+        runningJobId,
+        error instanceof Error ? error.message : "Lỗi không xác định",
+        {
+          processedFiles: result.processedFiles,
+          createdCount: result.createdQuotations,
+          updatedCount: result.updatedQuotations,
+          itemCount: result.totalItems,
+        }
+      ).catch((jobError) => console.error("Error failing import job:", jobError));
+    }
+
     throw new Error(
       error instanceof Error ? error.message : "Lỗi khi import báo giá từ Excel"
     );
   }
 }
 
+/**
+ * Dry run of importQuotationsFromExcel: parse and validate every file and diff
+ * each supplier quotation against the existing one, without writing
+ * The buyer reviews the result and confirms the files to import.
+ */
+export async function previewQuotationImport(
+  files: File[],
+  importData: z.infer<typeof ImportQuotationsSchema>
+): Promise<ImportPreviewResult> {
+  try {
+    // Authorization check
+    await checkProcurementRole();
+
+    const { period, region, overwrite, fileSuppliers } =
+      ImportQuotationsSchema.parse(importData);
+
+    const result: ImportPreviewResult = { files: [], errors: [] };
+
+    if (files.length === 0) {
+      result.errors.push("Không có file nào được chọn");
+      return result;
+    }
+
+    // Step 1: The period must still accept quotations, or at least re-quotes
+    const periodRecord = (await getPeriodsByCodes([period])).get(period);
+    const requoteBlockReason = getRequoteBlockReason(periodRecord);
+    if (requoteBlockReason) {
+      result.errors.push(requoteBlockReason);
+      return result;
+    }
+    const importBlockReason = getImportBlockReason(periodRecord);
+
+    const importProfiles = await loadImportProfiles(
+      fileSuppliers.filter((supplierId): supplierId is number => supplierId !== null)
+    );
+
+    // Step 2: Parse and preview each file
+    for (const [fileIndex, file] of files.entries()) {
+      const filePreview: ImportPreviewResult["files"][number] = {
+        fileIndex,
+        fileName: file.name,
+        quotations: [],
+        errors: [],
+      };
+      result.files.push(filePreview);
+
+      try {
+        const profileSupplierId = fileSuppliers[fileIndex] ?? null;
+        const profile =
+          profileSupplierId !== null ? importProfiles.get(profileSupplierId) : undefined;
+
+        if (profileSupplierId !== null && !profile) {
+          filePreview.errors.push("Nhà cung cấp chưa có cấu hình nhập báo giá");
+          continue;
+        }
+
+        const parseResults = await processQuotationFile(file, region, period, profile);
+
+        for (const parseResult of parseResults) {
+          if (!parseResult.success || !parseResult.data) {
+            const message = parseResult.errors.map((e) => e.message).join(", ");
+            filePreview.errors.push(
+              parseResult.sheetName ? `Sheet ${parseResult.sheetName}: ${message}` : message
+            );
+            continue;
+          }
+
+          const quotationPreview = await previewParsedQuotation(parseResult.data, {
+            period,
+            region,
+            overwrite,
+            importBlockReason,
+          });
+
+          filePreview.quotations.push({
+            ...quotationPreview,
+            sheetName: parseResult.sheetName,
+            warnings: [
+              ...parseResult.warnings.map((w) => w.message),
+              ...quotationPreview.warnings,
+            ],
+          });
+        }
+      } catch (error) {
+        filePreview.errors.push(
+          error instanceof Error ? error.message : "Lỗi không xác định"
+        );
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error("Error in previewQuotationImport:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi kiểm tra file báo giá"
+    );
+  }
+}
+
 /**
  * Get detailed quotation with all items - SIMPLIFIED "DUMB SERVER" VERSION
  * This function only fetches raw data - NO data transformation or type conversion
@@ -561,6 +591,7 @@ export async function getQuotationDetails(
         status: quotations.status,
         quoteDate: quotations.quoteDate,
         updateDate: quotations.updateDate,
+        importJobId: quotations.importJobId,
         createdAt: quotations.createdAt,
         updatedAt: quotations.updatedAt,
         supplier: {
@@ -612,6 +643,8 @@ export async function getQuotationDetails(
         lastNegotiatedAt: quoteItems.lastNegotiatedAt,
         approvedAt: quoteItems.approvedAt,
         approvedBy: quoteItems.approvedBy,
+        rejectedAt: quoteItems.rejectedAt,
+        rejectionReason: quoteItems.rejectionReason,
         notes: quoteItems.notes,
         createdAt: quoteItems.createdAt,
         updatedAt: quoteItems.updatedAt,
@@ -632,10 +665,16 @@ export async function getQuotationDetails(
       .where(eq(quoteItems.quotationId, id))
       .orderBy(products.productCode);
 
+    // Attach recorded negotiation rounds to each item
+    const historyMap = await getNegotiationHistory(items.map((item) => item.id));
+
     // Return raw data - no transformation
     return {
       ...quotation,
-      items,
+      items: items.map((item) => ({
+        ...item,
+        negotiationHistory: historyMap.get(item.id) ?? [],
+      })),
     } as QuotationDetailsWithItems;
   } catch (error) {
     console.error("Error in getQuotationDetails:", error);
@@ -646,6 +685,102 @@ export async function getQuotationDetails(
   }
 }
 
+/**
+ * Get the versions of a quotation, newest (current) first, with their items
+ * Quotations imported before versioning have no versions.
+ */
+export async function getQuotationVersions(
+  quotationId: number
+): Promise<QuotationVersionEntry[] | { error: string }> {
+  try {
+    // Authorization check
+    await checkProcurementRole();
+
+    const versions = await db
+      .select({
+        id: quotationVersions.id,
+        versionNumber: quotationVersions.versionNumber,
+        source: quotationVersions.source,
+        sourceFileId: quotationVersions.sourceFileId,
+        sourceFileName: quotationVersions.sourceFileName,
+        sourceFileExpiresAt: storedFiles.expiresAt,
+        quoteDate: quotationVersions.quoteDate,
+        itemCount: quotationVersions.itemCount,
+        createdAt: quotationVersions.createdAt,
+        createdByName: users.name,
+      })
+      .from(quotationVersions)
+      .leftJoin(storedFiles, eq(quotationVersions.sourceFileId, storedFiles.id))
+      .leftJoin(users, eq(quotationVersions.createdBy, users.id))
+      .where(eq(quotationVersions.quotationId, quotationId))
+      .orderBy(desc(quotationVersions.versionNumber));
+
+    if (versions.length === 0) {
+      return [];
+    }
+
+    const items = await db
+      .select({
+        versionId: quotationVersionItems.versionId,
+        productCode: products.productCode,
+        productName: products.name,
+        specification: products.specification,
+        unit: products.unit,
+        quantity: quotationVersionItems.quantity,
+        price: quotationVersionItems.price,
+        vatPercentage: quotationVersionItems.vatPercentage,
+        notes: quotationVersionItems.notes,
+      })
+      .from(quotationVersionItems)
+      .innerJoin(products, eq(quotationVersionItems.productId, products.id))
+      .where(
+        inArray(
+          quotationVersionItems.versionId,
+          versions.map((version) => version.id)
+        )
+      )
+      .orderBy(products.productCode);
+
+    const now = new Date();
+
+    return versions.map((version, index) => ({
+      id: version.id,
+      versionNumber: version.versionNumber,
+      isCurrent: index === 0,
+      source: version.source as QuotationVersionSource,
+      sourceFileName: version.sourceFileName,
+      downloadPath:
+        version.sourceFileId !== null &&
+        version.sourceFileExpiresAt !== null &&
+        version.sourceFileExpiresAt > now
+          ? `${FILE_ROUTE_PREFIX}/${version.sourceFileId}`
+          : null,
+      quoteDate: version.quoteDate,
+      itemCount: version.itemCount,
+      createdAt: version.createdAt,
+      createdByName: version.createdByName,
+      items: items
+        .filter((item) => item.versionId === version.id)
+        .map((item) => ({
+          productCode: item.productCode,
+          productName: item.productName,
+          specification: item.specification,
+          unit: item.unit,
+          quantity: item.quantity !== null ? Number(item.quantity) : null,
+          price: Number(item.price),
+          vatPercentage: Number(item.vatPercentage ?? 0),
+          notes: item.notes,
+        })),
+    }));
+  } catch (error) {
+    console.error("Error in getQuotationVersions:", error);
+    return {
+      error:
+        error instanceof Error ? error.message : "Lỗi khi tải phiên bản báo giá",
+    };
+  }
+}
+
 /**
  * Update quotation status
  */
@@ -654,7 +789,7 @@ export async function updateQuotationStatus(
 ): Promise<{ success: string }> {
   try {
     // Authorization check for status changes
-    await checkManagerRole();
+    const user = await checkManagerRole();
 
     // Validate input
     const validatedData = UpdateQuotationStatusSchema.parse(data);
@@ -671,51 +806,111 @@ export async function updateQuotationStatus(
       throw new Error("Không tìm thấy báo giá");
     }
 
+    // Approving requires approval permission on top of negotiation permission
+    await requirePermission(
+      user.id,
+      status === "approved" ? "canApproveQuotes" : "canNegotiateQuotes",
+      [currentQuotation.region]
+    );
+
     // Validate status transition
-    if (currentQuotation.status === "approved" && status !== "cancelled") {
+    if (
+      (currentQuotation.status === "approved" ||
+        currentQuotation.status === "partially_approved") &&
+      status !== "cancelled"
+    ) {
       throw new Error(
         "Không thể thay đổi trạng thái của báo giá đã được duyệt"
       );
     }
 
-    // Update quotation status
-    await db
-      .update(quotations)
-      .set({
-        status,
-        updateDate: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(quotations.id, id));
+    if (status === "approved") {
+      const approvalBlockReason = getApprovalBlockReason(
+        (await getPeriodsByCodes([currentQuotation.period])).get(currentQuotation.period)
+      );
+      if (approvalBlockReason) {
+        throw new Error(approvalBlockReason);
+      }
+    }
+
+    if (currentQuotation.status === "pending_approval" && status !== "cancelled") {
+      throw new Error(
+        "Báo giá đang chờ phê duyệt, vui lòng xử lý tại trang Phê duyệt"
+      );
+    }
 
-    // If status is being set to approved, log to price history
+    // Get all quote items for this quotation
+    const items = await db
+      .select()
+      .from(quoteItems)
+      .where(eq(quoteItems.quotationId, id));
+
+    // Direct approval is limited to the user's amount band
     if (status === "approved") {
-      // Get all quote items for this quotation
-      const items = await db
-        .select()
-        .from(quoteItems)
-        .where(eq(quoteItems.quotationId, id));
+      const totalApprovedValue = items.reduce(
+        (sum, item) =>
+          sum + Number(item.approvedPrice ?? 0) * (Number(item.quantity) || 1),
+        0
+      );
+      const band = getApprovalBand(totalApprovedValue);
 
-      // Log approved prices to price history
-      const priceHistoryData = items
-        .filter((item) => item.approvedPrice !== null)
-        .map((item) => ({
-          productId: item.productId,
-          supplierId: currentQuotation.supplierId,
-          period: currentQuotation.period,
-          price: item.approvedPrice!,
-          priceType: "approved" as const,
-          region: currentQuotation.region,
-        }));
-
-      if (priceHistoryData.length > 0) {
-        await db.insert(priceHistory).values(priceHistoryData);
+      if (!canSignOffBand(await getUserRoles(user.id), band)) {
+        throw new Error(getSignOffDeniedMessage(band));
       }
     }
 
+    await db.transaction(async (tx) => {
+      // Update quotation status
+      await tx
+        .update(quotations)
+        .set({
+          status,
+          updateDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(quotations.id, id));
+
+      // Cancelling withdraws any open approval request
+      if (status === "cancelled") {
+        await tx
+          .update(approvalRequests)
+          .set({
+            status: "cancelled",
+            decidedBy: user.id,
+            decidedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(approvalRequests.quotationId, id),
+              eq(approvalRequests.status, "pending")
+            )
+          );
+      }
+
+      // If status is being set to approved, log to price history
+      if (status === "approved") {
+        const priceHistoryData = items
+          .filter((item) => item.approvedPrice !== null)
+          .map((item) => ({
+            productId: item.productId,
+            supplierId: currentQuotation.supplierId,
+            period: currentQuotation.period,
+            price: item.approvedPrice!,
+            priceType: "approved" as const,
+            region: currentQuotation.region,
+          }));
+
+        if (priceHistoryData.length > 0) {
+          await tx.insert(priceHistory).values(priceHistoryData);
+        }
+      }
+    });
+
     // Revalidate relevant pages
     revalidatePath("/bao-gia");
     revalidatePath("/so-sanh");
+    revalidatePath("/phe-duyet");
 
     return { success: "Cập nhật trạng thái báo giá thành công" };
   } catch (error) {
@@ -737,6 +932,173 @@ export async function cancelQuotation(
   return updateQuotationStatus({ id, status: "cancelled" });
 }
 
+/**
+ * Revoke the approval of a quotation
+ * Returns the quotation to negotiation, clears its approved prices and
+ * reverses its approved price history with compensating 'revoked' entries.
+ */
+export async function revokeQuotationApproval(
+  data: z.infer<typeof RevokeQuotationApprovalSchema>
+): Promise<{ success: string }> {
+  try {
+    const user = await checkManagerRole();
+
+    // Validate input
+    const { id, reason } = RevokeQuotationApprovalSchema.parse(data);
+
+    const [currentQuotation] = await db
+      .select({
+        id: quotations.id,
+        supplierId: quotations.supplierId,
+        supplierCode: suppliers.supplierCode,
+        period: quotations.period,
+        region: quotations.region,
+        status: quotations.status,
+      })
+      .from(quotations)
+      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
+      .where(eq(quotations.id, id))
+      .limit(1);
+
+    if (!currentQuotation) {
+      throw new Error("Không tìm thấy báo giá");
+    }
+
+    // Only approvers may reverse an approval
+    await requirePermission(user.id, "canApproveQuotes", [currentQuotation.region]);
+
+    if (
+      !(APPROVED_QUOTATION_STATUSES as readonly string[]).includes(
+        currentQuotation.status ?? ""
+      )
+    ) {
+      throw new Error("Chỉ có thể thu hồi phê duyệt của báo giá đã được duyệt");
+    }
+
+    const approvalBlockReason = getApprovalBlockReason(
+      (await getPeriodsByCodes([currentQuotation.period])).get(currentQuotation.period)
+    );
+    if (approvalBlockReason) {
+      throw new Error(approvalBlockReason);
+    }
+
+    // The activity log is team-scoped
+    const userWithTeam = await getUserWithTeam(user.id);
+    if (!userWithTeam?.teamId) {
+      throw new Error(
+        "Tài khoản chưa thuộc nhóm nào - không thể ghi nhật ký thu hồi phê duyệt"
+      );
+    }
+    const teamId = userWithTeam.teamId;
+
+    const reversedEntries = await db.transaction(async (tx) => {
+      // Step 1: Reopen the quotation (guards against concurrent revocations)
+      const reopened = await tx
+        .update(quotations)
+        .set({
+          status: "negotiation",
+          updateDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(quotations.id, id),
+            inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES])
+          )
+        )
+        .returning({ id: quotations.id });
+
+      if (reopened.length === 0) {
+        throw new Error("Báo giá đã được cập nhật bởi người khác, vui lòng tải lại");
+      }
+
+      // Step 2: Compensate the approved price history of the quotation's products
+      const items = await tx
+        .select({ productId: quoteItems.productId })
+        .from(quoteItems)
+        .where(eq(quoteItems.quotationId, id));
+
+      const approvedEntries =
+        items.length === 0
+          ? []
+          : await tx
+              .select()
+              .from(priceHistory)
+              .where(
+                and(
+                  inArray(
+                    priceHistory.productId,
+                    items.map((item) => item.productId)
+                  ),
+                  eq(priceHistory.supplierId, currentQuotation.supplierId),
+                  eq(priceHistory.period, currentQuotation.period),
+                  eq(priceHistory.region, currentQuotation.region),
+                  eq(priceHistory.priceType, "approved"),
+                  priceHistoryNotReversed()
+                )
+              );
+
+      if (approvedEntries.length > 0) {
+        await tx.insert(priceHistory).values(
+          approvedEntries.map((entry) => ({
+            productId: entry.productId,
+            supplierId: entry.supplierId,
+            teamId: entry.teamId,
+            period: entry.period,
+            price: entry.price,
+            priceType: "revoked" as const,
+            region: entry.region,
+            reversesId: entry.id,
+          }))
+        );
+      }
+
+      // Step 3: Clear approved prices and item-level decisions
+      await tx
+        .update(quoteItems)
+        .set({
+          approvedPrice: null,
+          approvedRound: null,
+          approvedAt: null,
+          approvedBy: null,
+          rejectedAt: null,
+          rejectedBy: null,
+          rejectionReason: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(quoteItems.quotationId, id));
+
+      // Step 4: Record the revocation in the activity log
+      await tx.insert(activityLogs).values({
+        teamId,
+        userId: user.id,
+        action: ActivityType.REVOKE_APPROVAL,
+        details: `Báo giá #${id} (${currentQuotation.supplierCode}, kỳ ${currentQuotation.period}, ${currentQuotation.region}): ${reason}`,
+      });
+
+      return approvedEntries.length;
+    });
+
+    console.log(
+      `[revokeQuotationApproval] Quotation ${id} reopened, reversed ${reversedEntries} price history entries`
+    );
+
+    revalidatePath("/bao-gia");
+    revalidatePath("/so-sanh");
+    revalidatePath("/bang-gia");
+    revalidatePath("/phe-duyet");
+
+    return {
+      success: `Đã thu hồi phê duyệt báo giá của ${currentQuotation.supplierCode}, báo giá chuyển về trạng thái đàm phán`,
+    };
+  } catch (error) {
+    console.error("Error in revokeQuotationApproval:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi thu hồi phê duyệt báo giá"
+    );
+  }
+}
+
 // ==================== UTILITY FUNCTIONS ====================
 
 /**
@@ -762,18 +1124,18 @@ export async function getAvailableRegions(): Promise<string[]> {
 }
 
 /**
- * Get available periods from quotations table
+ * Get available period codes from the periods table, newest first
  */
 export async function getAvailablePeriods(): Promise<string[]> {
   try {
     await checkProcurementRole();
 
-    const periods = await db
-      .selectDistinct({ period: quotations.period })
-      .from(quotations)
-      .orderBy(desc(quotations.period));
+    const periodList = await db
+      .select({ code: periods.code })
+      .from(periods)
+      .orderBy(desc(periods.code));
 
-    return periods.map((p) => p.period);
+    return periodList.map((p) => p.code);
   } catch (error) {
     console.error("Error in getAvailablePeriods:", error);
     throw new Error("Lỗi khi tải danh sách kỳ báo giá");
@@ -860,22 +1222,3 @@ export async function getAvailableCategories(): Promise<string[]> {
     return [];
   }
 }
-
-/**
- * Get the latest period from quotations table
- * Returns the most recent period value (MAX) or null if no quotations exist
- */
-export async function getLatestPeriod(): Promise<string | null> {
-  try {
-    await checkProcurementRole();
-
-    const result = await db
-      .select({ maxPeriod: sql<string>`MAX(${quotations.period})` })
-      .from(quotations);
-
-    return result[0]?.maxPeriod || null;
-  } catch (error) {
-    console.error("Error in getLatestPeriod:", error);
-    return null;
-  }
-}
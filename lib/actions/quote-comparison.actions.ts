@@ -4,26 +4,55 @@ import { z } from "zod";
 import { revalidatePath } from "next/cache";
 import ExcelJS from "exceljs";
 import archiver from "archiver";
-import { writeFile } from "fs/promises";
-import { join } from "path";
 import { db } from "@/lib/db/drizzle";
 import {
   quotations,
   quoteItems,
   suppliers,
   products,
-  kitchenPeriodDemands,
   priceHistory,
+  negotiationHistory,
+  approvalRequests,
+  targetPriceRules,
+  awardAllocations,
+  users,
   type Quotation,
   type QuoteItem,
   type Supplier,
   type Product,
+  type TargetPriceRule,
 } from "@/lib/db/schema";
-import { getUser } from "@/lib/db/queries";
-import { eq, and, inArray, desc, sql } from "drizzle-orm";
+import {
+  getUser,
+  getNegotiationHistory,
+  getPeriodsByCodes,
+  getRegionalKitchenDemands,
+  priceHistoryNotReversed,
+} from "@/lib/db/queries";
+import {
+  requirePermission,
+  requireRegionAccess,
+  getPermittedRegions,
+  getUserRoles,
+} from "@/lib/auth/permissions";
+import {
+  getApprovalBand,
+  getApprovalBandByLevel,
+  canSignOffBand,
+  getSignOffDeniedMessage,
+  APPROVED_QUOTATION_STATUSES,
+} from "@/lib/config/approval";
+import {
+  saveStoredFile,
+  createSignedFileLink,
+  FILE_PURPOSES,
+} from "@/lib/storage/stored-files";
+import { FILE_ROUTE_PREFIX } from "@/lib/utils/signed-file-link";
+import { loadComparisonMatrix } from "@/lib/db/comparison-matrix";
+import { eq, ne, and, inArray, desc, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import {
   calculateComparisonMatrix,
-  type PriceItem,
   type ComparisonMatrix,
 } from "@/lib/utils/price-calculation";
 import {
@@ -31,14 +60,71 @@ import {
   BatchNegotiationSchema,
   NegotiateQuotationSchema,
   ApproveQuotationSchema,
+  ApproveMultipleQuotationsSchema,
+  ItemRejectionSchema,
+  ImportCounterOffersSchema,
+  ApprovalRequestFiltersSchema,
+  ApproveApprovalRequestSchema,
+  RejectApprovalRequestSchema,
+  TargetPriceRuleSchema,
+  UpdateTargetPriceRuleSchema,
+  AwardOptimizationSchema,
+  SaveAwardAllocationsSchema,
   type ComparisonMatrixData,
   type NegotiationResult,
   type ApprovalResult,
+  type BatchApprovalResult,
+  type ApprovalRequestEntry,
+  type ApprovalRequestStatus,
+  type TargetPriceRuleEntry,
+  type TargetPricePreviewRow,
+  type CounterOfferImportResult,
+  type CounterOfferLineResult,
+  type NegotiationRoundEntry,
 } from "@/lib/types/quote-comparison.types";
+import {
+  processCounterOfferFile,
+  TARGET_PRICE_HEADERS,
+  TARGET_PRICE_SHEET_NAME,
+} from "@/lib/utils/excel-parser";
+import {
+  resolveTargetPrice,
+  describeTargetPriceRule,
+  type TargetPriceBaseline,
+  type TargetPriceRuleConfig,
+} from "@/lib/utils/target-price-rules";
+import {
+  optimizeSupplierAwards,
+  type AwardPlan,
+} from "@/lib/utils/award-optimizer";
+import { normalizeAwardAllocations } from "@/lib/utils/award-allocation";
+import { getApprovalBlockReason } from "@/lib/utils/period-lifecycle";
 
 // ==================== AUTHORIZATION HELPERS ====================
 
-async function checkManagerRole() {
+/**
+ * Require permission to view quotations (read-only comparison data)
+ * Team-restricted users are limited to the regions of their teams.
+ */
+async function checkViewRole(regions: string[] = []) {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error(
+      "Unauthorized: Bạn cần đăng nhập để thực hiện hành động này"
+    );
+  }
+
+  await requirePermission(user.id, "canViewQuotes", regions);
+
+  return user;
+}
+
+/**
+ * Require permission to negotiate quotations (manager-level operations)
+ * Team-restricted users are limited to the regions of their teams.
+ */
+async function checkManagerRole(regions: string[] = []) {
   const user = await getUser();
 
   if (!user) {
@@ -47,9 +133,7 @@ async function checkManagerRole() {
     );
   }
 
-  // TODO: Implement proper role checking for manager-level operations
-  // This should check for ADMIN_SUPER_ADMIN or PROCUREMENT_MANAGER roles
-  // For now, assume all authenticated users have access
+  await requirePermission(user.id, "canNegotiateQuotes", regions);
 
   return user;
 }
@@ -58,2061 +142,2346 @@ async function checkManagerRole() {
 
 /**
  * Get comparison matrix for price analysis and negotiation
- * Implements "initialize then populate" pattern for absolute null-safety
+ * Aggregation runs set-based in SQL (see lib/db/comparison-matrix.ts); pass
+ * page/limit to load one page of product rows for large regions.
  */
 export async function getComparisonMatrix(
   filters: z.infer<typeof ComparisonMatrixSchema>
 ): Promise<ComparisonMatrixData> {
   try {
-    // Authorization check
-    await checkManagerRole();
-
     // Validate input
     const validatedFilters = ComparisonMatrixSchema.parse(filters);
-    const { period, region, categories } = validatedFilters;
-
-    console.log(
-      `[getComparisonMatrix] Starting comparison for period: ${period}, region: ${region}, categories: ${categories.join(
-        ", "
-      )}`
-    );
 
-    // STEP 1: Fetch all active products in the given category
-    const allProducts = await db
-      .select({
-        id: products.id,
-        productCode: products.productCode,
-        name: products.name,
-        specification: products.specification,
-        unit: products.unit,
-        category: products.category,
-        baseQuantity: products.baseQuantity,
-        basePrice: products.basePrice, // Source of truth for "Giá cơ sở"
-      })
-      .from(products)
-      .where(
-        and(
-          inArray(products.category, categories),
-          eq(products.status, "active")
-        )
-      )
-      .orderBy(products.productCode);
+    // Authorization check
+    await checkViewRole([validatedFilters.region]);
 
-    console.log(
-      `[getComparisonMatrix] Found ${
-        allProducts?.length || 0
-      } products in categories: ${categories.join(", ")}`
+    return await loadComparisonMatrix(validatedFilters);
+  } catch (error) {
+    console.error("Error in getComparisonMatrix:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Lỗi khi tải ma trận so sánh báo giá"
     );
+  }
+}
 
-    if (!Array.isArray(allProducts) || allProducts.length === 0) {
-      console.log(
-        `[getComparisonMatrix] No products found, returning empty matrix`
-      );
-      return {
-        products: [],
-        suppliers: [],
-        period,
-        region,
-        category: categories.join(", "),
-        lastUpdated: new Date(),
-        groupedOverview: { regions: [] },
-        availableSuppliers: [],
-      };
-    }
+/**
+ * Batch negotiation - update multiple quotations to negotiation status
+ */
+export async function batchNegotiation(
+  data: z.infer<typeof BatchNegotiationSchema>
+): Promise<NegotiationResult> {
+  try {
+    // Authorization check
+    const user = await checkManagerRole();
+
+    // Validate input
+    const validatedData = BatchNegotiationSchema.parse(data);
+    const { quotationIds } = validatedData;
 
-    // STEP 2: Fetch all active suppliers with quotations in this period/region
-    const allSuppliers = await db
-      .selectDistinct({
-        id: suppliers.id,
+    // Get quotations that can be moved to negotiation
+    const quotationsToUpdate = await db
+      .select({
+        id: quotations.id,
+        region: quotations.region,
+        supplierId: quotations.supplierId,
         supplierCode: suppliers.supplierCode,
-        name: suppliers.name,
-        status: suppliers.status,
+        supplierName: suppliers.name,
+        status: quotations.status,
       })
       .from(quotations)
       .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
       .where(
         and(
-          eq(quotations.period, period),
-          eq(quotations.region, region),
-          eq(suppliers.status, "active")
+          inArray(quotations.id, quotationIds),
+          inArray(quotations.status, ["pending", "negotiation"])
         )
-      )
-      .orderBy(suppliers.supplierCode);
+      );
 
-    console.log(
-      `[getComparisonMatrix] Found ${
-        allSuppliers?.length || 0
-      } suppliers with quotations`
+    if (quotationsToUpdate.length === 0) {
+      throw new Error("Không tìm thấy báo giá hợp lệ để đàm phán");
+    }
+
+    await requireRegionAccess(
+      user.id,
+      quotationsToUpdate.map((q) => q.region)
     );
 
-    // STEP 3: Fetch kitchen demands for quantity calculations
-    const kitchenDemands = await db
-      .select({
-        productId: kitchenPeriodDemands.productId,
-        quantity: kitchenPeriodDemands.quantity,
+    // Update quotation statuses
+    const validIds = quotationsToUpdate.map((q) => q.id);
+    const updateResult = await db
+      .update(quotations)
+      .set({
+        status: "negotiation",
+        updateDate: new Date(),
+        updatedAt: new Date(),
       })
-      .from(kitchenPeriodDemands)
-      .innerJoin(products, eq(kitchenPeriodDemands.productId, products.id))
-      .where(
-        and(
-          eq(kitchenPeriodDemands.period, period),
-          inArray(products.category, categories),
-          eq(kitchenPeriodDemands.status, "active")
-        )
-      );
+      .where(inArray(quotations.id, validIds));
 
-    console.log(
-      `[getComparisonMatrix] Found ${
-        kitchenDemands?.length || 0
-      } kitchen demands`
+    // Get affected supplier names
+    const affectedSuppliers = [
+      ...new Set(quotationsToUpdate.map((q) => q.supplierName)),
+    ];
+
+    // Revalidate relevant pages
+    revalidatePath("/so-sanh");
+    revalidatePath("/bao-gia");
+
+    return {
+      success: `Đã chuyển ${quotationsToUpdate.length} báo giá sang trạng thái đàm phán`,
+      updatedQuotations: quotationsToUpdate.length,
+      affectedSuppliers,
+    };
+  } catch (error) {
+    console.error("Error in batchNegotiation:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Lỗi khi thực hiện đàm phán hàng loạt"
     );
+  }
+}
+
+/**
+ * Negotiate single quotation
+ */
+export async function negotiateQuotation(
+  data: z.infer<typeof NegotiateQuotationSchema>
+): Promise<{ success: string }> {
+  try {
+    // Authorization check
+    const user = await checkManagerRole();
 
-    // STEP 4: Initialize the matrix structure (Initialize Phase)
-    console.log(`[getComparisonMatrix] Initializing matrix structure...`);
+    // Validate input
+    const validatedData = NegotiateQuotationSchema.parse(data);
+    const { id } = validatedData;
 
-    const matrixProducts = [];
-    const matrixSuppliers = [];
+    // Check if quotation exists and can be negotiated
+    const [quotation] = await db
+      .select({
+        id: quotations.id,
+        region: quotations.region,
+        status: quotations.status,
+        supplierName: suppliers.name,
+      })
+      .from(quotations)
+      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
+      .where(eq(quotations.id, id))
+      .limit(1);
 
-    // Create kitchen demands lookup for efficient access
-    const kitchenDemandsMap = new Map();
-    if (Array.isArray(kitchenDemands)) {
-      kitchenDemands.forEach((demand) => {
-        if (demand?.productId && demand?.quantity !== undefined) {
-          kitchenDemandsMap.set(demand.productId, Number(demand.quantity) || 1);
-        }
-      });
+    if (!quotation) {
+      throw new Error("Không tìm thấy báo giá");
     }
 
-    // Initialize all products with default structure
-    allProducts.forEach((product) => {
-      if (!product?.id) {
-        console.warn(`[getComparisonMatrix] Invalid product data:`, product);
-        return;
-      }
+    await requireRegionAccess(user.id, [quotation.region]);
 
-      const quantity =
-        kitchenDemandsMap.get(product.id) || Number(product.baseQuantity) || 1;
-      const quantitySource = kitchenDemandsMap.has(product.id)
-        ? "kitchen_demand"
-        : "base_quantity";
-
-      matrixProducts.push({
-        productId: product.id,
-        productCode: product.productCode || "",
-        productName: product.name || "",
-        specification: product.specification || "",
-        unit: product.unit || "",
-        category: product.category || "", // Add category field
-        quantity,
-        quantitySource,
-        baseQuantity: Number(product.baseQuantity) || 1,
-        basePrice: product.basePrice ? Number(product.basePrice) : null, // Static reference price from products table
-        suppliers: {}, // Will be populated with supplier data
-        bestSupplierId: undefined,
-        bestPrice: undefined,
-        previousApprovedPrice: undefined, // Will be populated later
-      });
-    });
+    if (!["pending", "negotiation"].includes(quotation.status)) {
+      throw new Error("Không thể đàm phán báo giá với trạng thái hiện tại");
+    }
 
-    // Initialize supplier statistics
-    if (Array.isArray(allSuppliers)) {
-      allSuppliers.forEach((supplier) => {
-        if (!supplier?.id) {
-          console.warn(
-            `[getComparisonMatrix] Invalid supplier data:`,
-            supplier
-          );
-          return;
-        }
+    // Update quotation status
+    await db
+      .update(quotations)
+      .set({
+        status: "negotiation",
+        updateDate: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(quotations.id, id));
 
-        matrixSuppliers.push({
-          id: supplier.id,
-          code: supplier.supplierCode || "",
-          name: supplier.name || "",
-          totalProducts: 0,
-          quotedProducts: 0,
-          coveragePercentage: 0,
-        });
-      });
-    }
+    // Revalidate relevant pages
+    revalidatePath("/so-sanh");
+    revalidatePath("/bao-gia");
 
-    console.log(
-      `[getComparisonMatrix] Initialized matrix with ${matrixProducts.length} products and ${matrixSuppliers.length} suppliers`
+    return {
+      success: `Đã chuyển báo giá của ${quotation.supplierName} sang trạng thái đàm phán`,
+    };
+  } catch (error) {
+    console.error("Error in negotiateQuotation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi đàm phán báo giá"
     );
+  }
+}
+
+/**
+ * Approve quotation with final prices
+ */
+export async function approveQuotation(
+  data: z.input<typeof ApproveQuotationSchema>
+): Promise<ApprovalResult> {
+  try {
+    // Authorization check
+    const user = await checkApprovalRole();
 
-    // STEP 5: Fetch and populate quotation data (Populate Phase)
-    const quotationData = await db
+    // Validate input
+    const validatedData = ApproveQuotationSchema.parse(data);
+    const { id, approvedPrices, rejectedItems } = validatedData;
+
+    // Get quotation details
+    const [quotation] = await db
       .select({
-        quotationId: quotations.id,
-        quotationStatus: quotations.status,
-        supplierId: suppliers.id,
-        supplierCode: suppliers.supplierCode,
+        id: quotations.id,
+        period: quotations.period,
+        region: quotations.region,
+        supplierId: quotations.supplierId,
+        status: quotations.status,
         supplierName: suppliers.name,
-        itemId: quoteItems.id,
-        productId: quoteItems.productId,
-        quantity: quoteItems.quantity,
-        initialPrice: quoteItems.initialPrice,
-        negotiatedPrice: quoteItems.negotiatedPrice,
-        approvedPrice: quoteItems.approvedPrice,
-        vatPercentage: quoteItems.vatPercentage,
-        currency: quoteItems.currency,
-        negotiationRounds: quoteItems.negotiationRounds,
-        lastNegotiatedAt: quoteItems.lastNegotiatedAt,
-        approvedAt: quoteItems.approvedAt,
-        notes: quoteItems.notes,
       })
       .from(quotations)
       .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-      .innerJoin(quoteItems, eq(quotations.id, quoteItems.quotationId))
-      .innerJoin(products, eq(quoteItems.productId, products.id))
-      .where(
-        and(
-          eq(quotations.period, period),
-          eq(quotations.region, region),
-          inArray(products.category, categories),
-          eq(suppliers.status, "active")
-        )
-      );
+      .where(eq(quotations.id, id))
+      .limit(1);
 
-    console.log(
-      `[getComparisonMatrix] Found ${
-        quotationData?.length || 0
-      } quotation items to populate`
-    );
+    if (!quotation) {
+      throw new Error("Không tìm thấy báo giá");
+    }
 
-    // Create lookup maps for efficient population
-    const productMap = new Map();
-    matrixProducts.forEach((product, index) => {
-      productMap.set(product.productId, index);
-    });
+    await requireRegionAccess(user.id, [quotation.region]);
 
-    const supplierMap = new Map();
-    matrixSuppliers.forEach((supplier) => {
-      supplierMap.set(supplier.id, supplier);
-    });
+    if ((APPROVED_QUOTATION_STATUSES as readonly string[]).includes(quotation.status)) {
+      throw new Error("Báo giá đã được phê duyệt trước đó");
+    }
 
-    // Populate the matrix with quotation data
-    if (Array.isArray(quotationData)) {
-      quotationData.forEach((row) => {
-        if (!row?.productId || !row?.supplierId) {
-          console.warn(`[getComparisonMatrix] Invalid quotation row:`, row);
-          return;
-        }
+    if (quotation.status === "cancelled") {
+      throw new Error("Không thể phê duyệt báo giá đã bị hủy");
+    }
 
-        const productIndex = productMap.get(row.productId);
-        if (productIndex === undefined) {
-          console.warn(
-            `[getComparisonMatrix] Product not found in matrix:`,
-            row.productId
-          );
-          return;
-        }
+    if (quotation.status === "pending_approval") {
+      throw new Error("Báo giá đang chờ phê duyệt cấp trên");
+    }
 
-        const product = matrixProducts[productIndex];
-        if (!product) {
-          console.warn(
-            `[getComparisonMatrix] Product at index ${productIndex} is undefined`
-          );
-          return;
-        }
+    await assertPeriodsAllowApproval([quotation.period]);
 
-        // Determine the effective price (priority: approved > negotiated > initial)
-        const initialPrice = row.initialPrice
-          ? Number(row.initialPrice)
-          : undefined;
-        const negotiatedPrice = row.negotiatedPrice
-          ? Number(row.negotiatedPrice)
-          : undefined;
-        const approvedPrice = row.approvedPrice
-          ? Number(row.approvedPrice)
-          : undefined;
+    // Get all quote items for this quotation
+    const items = await db
+      .select()
+      .from(quoteItems)
+      .where(eq(quoteItems.quotationId, id));
 
-        const effectivePrice = approvedPrice ?? negotiatedPrice ?? initialPrice;
-        const vatRate = row.vatPercentage ? Number(row.vatPercentage) : 0;
-
-        let pricePerUnit = 0;
-        let totalPrice = 0;
-        let vatAmount = 0;
-        let totalPriceWithVAT = 0;
-        let hasPrice = false;
-
-        if (effectivePrice !== undefined && effectivePrice > 0) {
-          pricePerUnit = effectivePrice;
-          totalPrice = pricePerUnit * product.quantity;
-          vatAmount = totalPrice * (vatRate / 100);
-          totalPriceWithVAT = totalPrice + vatAmount;
-          hasPrice = true;
-        }
+    assertRejectedItemsBelong(items, rejectedItems);
+    const rejectedIds = new Set(rejectedItems.map((rejection) => rejection.itemId));
 
-        // Add supplier data to product
-        product.suppliers[row.supplierId] = {
-          id: row.itemId || 0,
-          productId: row.productId,
-          productCode: product.productCode,
-          productName: product.productName,
-          supplierId: row.supplierId,
-          supplierCode: row.supplierCode || "",
-          supplierName: row.supplierName || "",
-          initialPrice,
-          negotiatedPrice,
-          approvedPrice,
-          vatRate,
-          currency: row.currency || "VND",
-          quantity: product.quantity,
-          unit: product.unit,
-          // Calculated metrics
-          pricePerUnit,
-          totalPrice,
-          vatAmount,
-          totalPriceWithVAT,
-          hasBestPrice: false, // Will be calculated in next step
-          hasPrice,
-        };
+    // Determine approved price per accepted item
+    const finalPrices = new Map<number, number>();
+    let totalApprovedValue = 0;
+    for (const item of items) {
+      if (rejectedIds.has(item.id)) continue;
 
-        // Update supplier statistics
-        const supplier = supplierMap.get(row.supplierId);
-        if (supplier) {
-          supplier.quotedProducts++;
-        }
-      });
+      let finalApprovedPrice: number | null = null;
+
+      if (approvedPrices && approvedPrices[item.id.toString()]) {
+        finalApprovedPrice = approvedPrices[item.id.toString()];
+      } else if (item.negotiatedPrice) {
+        finalApprovedPrice = Number(item.negotiatedPrice);
+      } else if (item.initialPrice) {
+        finalApprovedPrice = Number(item.initialPrice);
+      }
+
+      if (finalApprovedPrice !== null && finalApprovedPrice > 0) {
+        finalPrices.set(item.id, finalApprovedPrice);
+        totalApprovedValue +=
+          finalApprovedPrice * (Number(item.quantity) || 1);
+      }
     }
 
-    // STEP 6: Calculate best prices and update supplier statistics
-    console.log(
-      `[getComparisonMatrix] Calculating best prices and supplier coverage...`
+    // Route by amount band: above the threshold a higher role must sign off
+    const band = getApprovalBand(totalApprovedValue);
+    const canFinalize = canSignOffBand(await getUserRoles(user.id), band);
+
+    const historyMap = await getNegotiationHistory(
+      items.map((item) => item.id)
     );
 
-    matrixProducts.forEach((product) => {
-      const supplierIds = Object.keys(product.suppliers).map(Number);
-      let bestPrice = Infinity;
-      let bestSupplierId = undefined;
-
-      // Find best price among suppliers with valid prices
-      supplierIds.forEach((supplierId) => {
-        const supplierData = product.suppliers[supplierId];
-        if (supplierData?.hasPrice && supplierData.pricePerUnit > 0) {
-          if (supplierData.pricePerUnit < bestPrice) {
-            bestPrice = supplierData.pricePerUnit;
-            bestSupplierId = supplierId;
-          }
-        }
-      });
+    // Process approval in transaction
+    const result = await db.transaction(async (tx) => {
+      // Reject the excluded items with their reasons
+      await applyItemRejections(tx, [id], rejectedItems, user.id);
 
-      // Update best price indicators
-      if (bestSupplierId !== undefined && bestPrice !== Infinity) {
-        product.bestSupplierId = bestSupplierId;
-        product.bestPrice = bestPrice;
+      // Record the proposed price on each accepted quote item
+      for (const item of items) {
+        const finalApprovedPrice = finalPrices.get(item.id);
+        if (finalApprovedPrice === undefined) continue;
+
+        await tx
+          .update(quoteItems)
+          .set({
+            approvedPrice: finalApprovedPrice.toString(),
+            approvedRound: resolveApprovedRound(
+              finalApprovedPrice,
+              item,
+              historyMap.get(item.id) ?? []
+            ),
+            updatedAt: new Date(),
+          })
+          .where(eq(quoteItems.id, item.id));
+      }
 
-        // Mark the best price supplier
-        if (product.suppliers[bestSupplierId]) {
-          product.suppliers[bestSupplierId].hasBestPrice = true;
-        }
+      if (!canFinalize) {
+        await createApprovalRequests(
+          tx,
+          [{ quotationId: id, totalValue: totalApprovedValue, level: band.level }],
+          user.id
+        );
+        return { loggedPriceHistory: 0 };
       }
-    });
 
-    // Calculate supplier coverage percentages
-    matrixSuppliers.forEach((supplier) => {
-      supplier.totalProducts = matrixProducts.length;
-      supplier.coveragePercentage =
-        matrixProducts.length > 0
-          ? Math.round((supplier.quotedProducts / matrixProducts.length) * 100)
-          : 0;
+      const loggedPriceHistory = await finalizeQuotationApprovals(
+        tx,
+        [quotation],
+        user.id
+      );
+
+      return { loggedPriceHistory };
     });
 
-    // STEP 7: Fetch supplier statistics for available suppliers list
-    const supplierStatsQuery = await db
-      .select({
-        supplierId: quotations.supplierId,
-        supplierCode: suppliers.supplierCode,
-        supplierName: suppliers.name,
-        supplierStatus: suppliers.status,
-        quotationStatus: quotations.status,
-      })
-      .from(quotations)
-      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-      .where(
-        and(
-          eq(quotations.period, period),
-          eq(quotations.region, region),
-          eq(suppliers.status, "active")
-        )
-      );
+    // Revalidate relevant pages
+    revalidatePath("/so-sanh");
+    revalidatePath("/bao-gia");
+    revalidatePath("/bang-gia");
+    revalidatePath("/phe-duyet");
 
-    // STEP 7b: HYPER-DEFENSIVE DATABASE QUERIES WITH MANUAL JOINS
-    console.log(
-      `[getComparisonMatrix] === STARTING HYPER-DEFENSIVE DATA FETCHING ===`
-    );
+    const rejectedSuffix =
+      rejectedItems.length > 0 ? `, từ chối ${rejectedItems.length} sản phẩm` : "";
 
-    // Query 1: Get ALL active suppliers first
-    let allActiveSuppliers;
-    try {
-      console.log(`[getComparisonMatrix] Step 1: Fetching active suppliers...`);
-      allActiveSuppliers = await db
-        .select({
-          id: suppliers.id,
-          supplierCode: suppliers.supplierCode,
-          name: suppliers.name,
-          status: suppliers.status,
-        })
-        .from(suppliers)
-        .where(eq(suppliers.status, "active"));
+    return {
+      success: canFinalize
+        ? `Đã phê duyệt báo giá của ${quotation.supplierName} với ${finalPrices.size} sản phẩm${rejectedSuffix}`
+        : `Đã gửi báo giá của ${quotation.supplierName} chờ ${band.label} phê duyệt${rejectedSuffix}`,
+      approvedItems: finalPrices.size,
+      totalApprovedValue,
+      loggedPriceHistory: result.loggedPriceHistory,
+      pendingApproval: !canFinalize,
+      rejectedItems: rejectedItems.length,
+    };
+  } catch (error) {
+    console.error("Error in approveQuotation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi phê duyệt báo giá"
+    );
+  }
+}
 
-      console.log(
-        `[getComparisonMatrix] Step 1 RESULT: Found ${allActiveSuppliers.length} active suppliers`
-      );
-      if (allActiveSuppliers.length > 0) {
-        console.log(
-          `[getComparisonMatrix] Step 1 SAMPLE:`,
-          allActiveSuppliers[0]
-        );
-      }
-    } catch (error) {
-      console.error(
-        "[getComparisonMatrix] CRITICAL ERROR in Step 1 - fetching suppliers:",
-        error
-      );
-      throw new Error(`Failed to fetch suppliers: ${error.message}`);
-    }
+// ==================== HELPER FUNCTIONS ====================
 
-    // Query 2: Get regional quotations separately
-    let regionalQuotations;
-    try {
-      console.log(
-        `[getComparisonMatrix] Step 2: Fetching regional quotations for period=${period}, region=${region}, categories=${categories.join(
-          ", "
-        )}...`
-      );
+/**
+ * Determine which negotiation round an approved price came from
+ * Returns the latest round offering that price, 0 for the initial quote,
+ * or null when the approver entered a price no round offered
+ */
+function resolveApprovedRound(
+  approvedPrice: number,
+  item: QuoteItem,
+  rounds: NegotiationRoundEntry[]
+): number | null {
+  const matchingRound = [...rounds]
+    .reverse()
+    .find((round) => round.offeredPrice === approvedPrice);
+
+  if (matchingRound) {
+    return matchingRound.roundNumber;
+  }
 
-      // Build WHERE conditions for quotations (category filtering is handled at product level)
-      const quotationConditions = [
-        eq(quotations.period, period),
-        eq(quotations.region, region),
-      ];
+  // Negotiated price recorded before the ledger existed
+  if (
+    item.negotiatedPrice !== null &&
+    Number(item.negotiatedPrice) === approvedPrice &&
+    (item.negotiationRounds ?? 0) > 0
+  ) {
+    return item.negotiationRounds;
+  }
 
-      regionalQuotations = await db
-        .select({
-          id: quotations.id,
-          supplierId: quotations.supplierId,
-          status: quotations.status,
-          updatedAt: quotations.updatedAt,
-          period: quotations.period,
-          region: quotations.region,
-        })
-        .from(quotations)
-        .where(and(...quotationConditions));
+  if (item.initialPrice !== null && Number(item.initialPrice) === approvedPrice) {
+    return 0;
+  }
 
-      console.log(
-        `[getComparisonMatrix] Step 2 RESULT: Found ${regionalQuotations.length} regional quotations`
-      );
-      if (regionalQuotations.length > 0) {
-        console.log(
-          `[getComparisonMatrix] Step 2 SAMPLE:`,
-          regionalQuotations[0]
-        );
-      }
-    } catch (error) {
-      console.error(
-        "[getComparisonMatrix] CRITICAL ERROR in Step 2 - fetching quotations:",
-        error
-      );
-      throw new Error(`Failed to fetch quotations: ${error.message}`);
-    }
+  return null;
+}
 
-    // Query 3: Get quotation statistics separately
-    let allQuotationStats;
-    try {
-      console.log(
-        `[getComparisonMatrix] Step 3: Fetching quotation statistics...`
-      );
-      allQuotationStats = await db
-        .select({
-          quotationId: quotations.id,
-          quotationStatus: quotations.status,
-          supplierId: quotations.supplierId,
-          supplierCode: suppliers.supplierCode,
-          supplierName: suppliers.name,
-          supplierStatus: suppliers.status,
-        })
-        .from(quotations)
-        .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-        .where(
-          and(eq(quotations.region, region), eq(suppliers.status, "active"))
-        );
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
-      console.log(
-        `[getComparisonMatrix] Step 3 RESULT: Found ${allQuotationStats.length} quotation statistics`
-      );
-      if (allQuotationStats.length > 0) {
-        console.log(
-          `[getComparisonMatrix] Step 3 SAMPLE:`,
-          allQuotationStats[0]
-        );
-      }
-    } catch (error) {
-      console.error(
-        "[getComparisonMatrix] CRITICAL ERROR in Step 3 - fetching stats:",
-        error
-      );
-      throw new Error(`Failed to fetch quotation stats: ${error.message}`);
-    }
+/**
+ * Ensure rejected items belong to the quotations being approved
+ */
+function assertRejectedItemsBelong(
+  items: Pick<QuoteItem, "id">[],
+  rejectedItems: z.infer<typeof ItemRejectionSchema>[]
+): void {
+  const itemIds = new Set(items.map((item) => item.id));
+  const unknownItems = rejectedItems.filter((rejection) => !itemIds.has(rejection.itemId));
+
+  if (unknownItems.length > 0) {
+    throw new Error("Sản phẩm bị từ chối không thuộc báo giá được phê duyệt");
+  }
+}
 
-    // MANUAL JOIN PROCESS: Build supplier stats map manually
-    const supplierStatsMap = new Map();
+/**
+ * Record item-level rejections of quotations being approved
+ * Clears earlier rejections, then removes the proposed price of each rejected
+ * item so it stays out of price history, price lists and approval totals.
+ * A quotation cannot be approved with every priced item rejected.
+ */
+async function applyItemRejections(
+  tx: Transaction,
+  quotationIds: number[],
+  rejectedItems: z.infer<typeof ItemRejectionSchema>[],
+  userId: number
+): Promise<void> {
+  await tx
+    .update(quoteItems)
+    .set({ rejectedAt: null, rejectedBy: null, rejectionReason: null })
+    .where(inArray(quoteItems.quotationId, quotationIds));
+
+  if (rejectedItems.length === 0) {
+    return;
+  }
 
-    try {
-      console.log(
-        `[getComparisonMatrix] Step 4: Building supplier stats map from ${allActiveSuppliers.length} suppliers...`
-      );
+  const rejectedAt = new Date();
+  const rejectedQuotationIds = new Set<number>();
 
-      // Initialize all active suppliers first
-      allActiveSuppliers.forEach((supplier, index) => {
-        try {
-          if (!supplier || typeof supplier !== "object") {
-            console.warn(
-              `[getComparisonMatrix] Step 4.${index}: Invalid supplier object:`,
-              supplier
-            );
-            return;
-          }
+  for (const rejection of rejectedItems) {
+    const [rejected] = await tx
+      .update(quoteItems)
+      .set({
+        approvedPrice: null,
+        approvedRound: null,
+        rejectedAt,
+        rejectedBy: userId,
+        rejectionReason: rejection.reason,
+        updatedAt: rejectedAt,
+      })
+      .where(
+        and(
+          eq(quoteItems.id, rejection.itemId),
+          inArray(quoteItems.quotationId, quotationIds)
+        )
+      )
+      .returning({ quotationId: quoteItems.quotationId });
 
-          if (!supplier.id) {
-            console.warn(
-              `[getComparisonMatrix] Step 4.${index}: Supplier missing ID:`,
-              supplier
-            );
-            return;
-          }
+    if (rejected) {
+      rejectedQuotationIds.add(rejected.quotationId);
+    }
+  }
 
-          const supplierData = {
-            id: supplier.id,
-            code: supplier.supplierCode || "",
-            name: supplier.name || "",
-            status: supplier.status || "unknown",
-            // Initialize quotation data as null
-            quotationId: null,
-            quotationStatus: null,
-            quotationSubmittedAt: null,
-            quotationLastUpdated: null,
-            // Initialize statistics
-            totalQuotations: 0,
-            pendingQuotations: 0,
-            negotiationQuotations: 0,
-            approvedQuotations: 0,
-          };
+  const acceptedCounts = await tx
+    .select({
+      quotationId: quoteItems.quotationId,
+      acceptedItems: sql<number>`COUNT(*) FILTER (WHERE ${quoteItems.rejectedAt} IS NULL AND COALESCE(${quoteItems.negotiatedPrice}, ${quoteItems.initialPrice}) > 0)`,
+    })
+    .from(quoteItems)
+    .where(inArray(quoteItems.quotationId, [...rejectedQuotationIds]))
+    .groupBy(quoteItems.quotationId);
 
-          supplierStatsMap.set(supplier.id, supplierData);
+  if (acceptedCounts.some((count) => Number(count.acceptedItems) === 0)) {
+    throw new Error(
+      "Không thể từ chối tất cả sản phẩm của báo giá - hãy hủy báo giá thay vì phê duyệt"
+    );
+  }
+}
 
-          if (index < 3) {
-            // Log first 3 for debugging
-            console.log(
-              `[getComparisonMatrix] Step 4.${index}: Added supplier ${supplier.id} (${supplier.supplierCode})`
-            );
-          }
-        } catch (error) {
-          console.error(
-            `[getComparisonMatrix] ERROR in Step 4.${index} - processing supplier:`,
-            error,
-            supplier
-          );
-        }
-      });
+/**
+ * Finalize quotations whose items already carry an approved price
+ * Stamps the approver, logs approved prices to price history and marks the
+ * quotations approved, or partially approved when items were rejected.
+ * Returns the number of price history records written.
+ */
+async function finalizeQuotationApprovals(
+  tx: Transaction,
+  approvedQuotations: Pick<Quotation, "id" | "supplierId" | "period" | "region">[],
+  userId: number
+): Promise<number> {
+  if (approvedQuotations.length === 0) {
+    return 0;
+  }
 
-      console.log(
-        `[getComparisonMatrix] Step 4 RESULT: Initialized ${supplierStatsMap.size} suppliers in stats map`
-      );
-    } catch (error) {
-      console.error(
-        "[getComparisonMatrix] CRITICAL ERROR in Step 4 - building supplier map:",
-        error
-      );
-      throw new Error(`Failed to build supplier map: ${error.message}`);
-    }
+  const quotationMap = new Map(approvedQuotations.map((q) => [q.id, q]));
+
+  const approvedItems = await tx
+    .update(quoteItems)
+    .set({
+      approvedAt: new Date(),
+      approvedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        inArray(quoteItems.quotationId, [...quotationMap.keys()]),
+        sql`${quoteItems.approvedPrice} > 0`
+      )
+    )
+    .returning({
+      productId: quoteItems.productId,
+      quotationId: quoteItems.quotationId,
+      approvedPrice: quoteItems.approvedPrice,
+    });
 
-    try {
-      console.log(
-        `[getComparisonMatrix] Step 5: Overlaying regional quotation data from ${regionalQuotations.length} quotations...`
-      );
+  // Price history is only written once the approval is final
+  const priceHistoryRecords = approvedItems.flatMap((item) => {
+    const quotation = quotationMap.get(item.quotationId);
+    if (!quotation || !item.approvedPrice) return [];
+
+    return [
+      {
+        productId: item.productId,
+        supplierId: quotation.supplierId,
+        period: quotation.period,
+        price: item.approvedPrice,
+        priceType: "approved" as const,
+        region: quotation.region,
+      },
+    ];
+  });
 
-      // Overlay regional quotation data
-      regionalQuotations.forEach((quotation, index) => {
-        try {
-          if (!quotation || typeof quotation !== "object") {
-            console.warn(
-              `[getComparisonMatrix] Step 5.${index}: Invalid quotation object:`,
-              quotation
-            );
-            return;
-          }
+  if (priceHistoryRecords.length > 0) {
+    await tx.insert(priceHistory).values(priceHistoryRecords);
+  }
 
-          if (!quotation.supplierId) {
-            console.warn(
-              `[getComparisonMatrix] Step 5.${index}: Quotation missing supplierId:`,
-              quotation
-            );
-            return;
-          }
+  const partiallyApproved = await tx
+    .selectDistinct({ quotationId: quoteItems.quotationId })
+    .from(quoteItems)
+    .where(
+      and(
+        inArray(quoteItems.quotationId, [...quotationMap.keys()]),
+        sql`${quoteItems.rejectedAt} IS NOT NULL`
+      )
+    );
+  const partiallyApprovedIds = new Set(partiallyApproved.map((row) => row.quotationId));
 
-          const supplierData = supplierStatsMap.get(quotation.supplierId);
-          if (supplierData) {
-            // Safely update quotation data
-            supplierData.quotationId = quotation.id ?? null;
-            supplierData.quotationStatus = quotation.status ?? null;
-            supplierData.quotationSubmittedAt = null; // submittedAt field doesn't exist in current schema
-            supplierData.quotationLastUpdated = quotation.updatedAt ?? null;
-
-            if (index < 3) {
-              // Log first 3 for debugging
-              console.log(
-                `[getComparisonMatrix] Step 5.${index}: Updated supplier ${quotation.supplierId} with quotation ${quotation.id}`
-              );
-            }
-          } else {
-            console.warn(
-              `[getComparisonMatrix] Step 5.${index}: No supplier found for quotation supplier ID: ${quotation.supplierId}`
-            );
-          }
-        } catch (error) {
-          console.error(
-            `[getComparisonMatrix] ERROR in Step 5.${index} - processing quotation:`,
-            error,
-            quotation
-          );
-        }
-      });
+  for (const status of APPROVED_QUOTATION_STATUSES) {
+    const quotationIds = [...quotationMap.keys()].filter(
+      (id) => partiallyApprovedIds.has(id) === (status === "partially_approved")
+    );
+    if (quotationIds.length === 0) continue;
 
-      console.log(
-        `[getComparisonMatrix] Step 5 RESULT: Processed ${regionalQuotations.length} regional quotations`
-      );
-    } catch (error) {
-      console.error(
-        "[getComparisonMatrix] CRITICAL ERROR in Step 5 - overlaying quotations:",
-        error
-      );
-      throw new Error(`Failed to overlay quotation data: ${error.message}`);
-    }
+    await tx
+      .update(quotations)
+      .set({
+        status,
+        updateDate: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(quotations.id, quotationIds));
+  }
 
-    try {
-      console.log(
-        `[getComparisonMatrix] Step 6: Computing statistics from ${allQuotationStats.length} quotation records...`
-      );
+  return priceHistoryRecords.length;
+}
 
-      // Populate statistics from all quotations
-      allQuotationStats.forEach((stat, index) => {
-        try {
-          if (!stat || typeof stat !== "object") {
-            console.warn(
-              `[getComparisonMatrix] Step 6.${index}: Invalid stat object:`,
-              stat
-            );
-            return;
-          }
+/**
+ * Route quotations to the approvals inbox
+ * Proposed prices stay on the quote items until the request is decided.
+ */
+async function createApprovalRequests(
+  tx: Transaction,
+  requests: { quotationId: number; totalValue: number; level: number }[],
+  userId: number
+): Promise<void> {
+  if (requests.length === 0) {
+    return;
+  }
 
-          if (!stat.supplierId) {
-            console.warn(
-              `[getComparisonMatrix] Step 6.${index}: Stat missing supplierId:`,
-              stat
-            );
-            return;
-          }
+  await tx.insert(approvalRequests).values(
+    requests.map((request) => ({
+      quotationId: request.quotationId,
+      requestedBy: userId,
+      totalValue: request.totalValue.toString(),
+      approvalLevel: request.level,
+    }))
+  );
+
+  await tx
+    .update(quotations)
+    .set({
+      status: "pending_approval",
+      updateDate: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      inArray(
+        quotations.id,
+        requests.map((request) => request.quotationId)
+      )
+    );
+}
 
-          const supplierData = supplierStatsMap.get(stat.supplierId);
-          if (supplierData) {
-            supplierData.totalQuotations++;
-
-            switch (stat.quotationStatus) {
-              case "pending":
-                supplierData.pendingQuotations++;
-                break;
-              case "negotiation":
-                supplierData.negotiationQuotations++;
-                break;
-              case "approved":
-                supplierData.approvedQuotations++;
-                break;
-              default:
-                console.debug(
-                  `[getComparisonMatrix] Step 6.${index}: Unknown status: ${stat.quotationStatus}`
-                );
-                break;
-            }
-
-            if (index < 3) {
-              // Log first 3 for debugging
-              console.log(
-                `[getComparisonMatrix] Step 6.${index}: Updated stats for supplier ${stat.supplierId}, total: ${supplierData.totalQuotations}`
-              );
-            }
-          } else {
-            console.warn(
-              `[getComparisonMatrix] Step 6.${index}: No supplier found for stat supplier ID: ${stat.supplierId}`
-            );
-          }
-        } catch (error) {
-          console.error(
-            `[getComparisonMatrix] ERROR in Step 6.${index} - processing stat:`,
-            error,
-            stat
-          );
-        }
-      });
+/**
+ * Compute target prices for the products of a comparison matrix
+ * Applies the active target price rules of the region (see target-price-rules.ts)
+ */
+async function computeTargetPrices(
+  matrixData: ComparisonMatrix,
+  region: string
+): Promise<Map<number, TargetPricePreviewRow>> {
+  const productIds = matrixData.products.map((product) => product.productId);
+  const targetPrices = new Map<number, TargetPricePreviewRow>();
 
-      console.log(
-        `[getComparisonMatrix] Step 6 RESULT: Computed statistics for ${supplierStatsMap.size} suppliers`
-      );
-    } catch (error) {
-      console.error(
-        "[getComparisonMatrix] CRITICAL ERROR in Step 6 - computing statistics:",
-        error
-      );
-      throw new Error(`Failed to compute statistics: ${error.message}`);
-    }
+  if (productIds.length === 0) {
+    return targetPrices;
+  }
 
-    console.log(
-      `[getComparisonMatrix] === HYPER-DEFENSIVE DATA FETCHING COMPLETE ===`
+  // Rules that may apply in this region
+  const rules = await db
+    .select()
+    .from(targetPriceRules)
+    .where(
+      and(
+        eq(targetPriceRules.isActive, true),
+        sql`(${targetPriceRules.region} IS NULL OR ${targetPriceRules.region} = ${region})`
+      )
     );
 
-    // STEP 8: Get previous approved prices and enhance product data with variance
-    console.log(`[getComparisonMatrix] Fetching previous approved prices and calculating variance...`);
+  const ruleConfigs = rules.map((rule) => toTargetPriceRuleConfig(rule));
 
-    // Get previous approved prices for comparison (now returns both best and per-supplier prices)
-    const { bestPrices, supplierPrices } = await getPreviousApprovedPrices(
-      period,
+  // Reference prices used by rule caps and floors
+  const [basePrices, historicalLows] = await Promise.all([
+    db
+      .select({ id: products.id, basePrice: products.basePrice })
+      .from(products)
+      .where(inArray(products.id, productIds)),
+    db
+      .select({
+        productId: priceHistory.productId,
+        lowestPrice: sql<string>`MIN(${priceHistory.price})`,
+      })
+      .from(priceHistory)
+      .where(
+        and(
+          inArray(priceHistory.productId, productIds),
+          eq(priceHistory.priceType, "approved"),
+          priceHistoryNotReversed(),
+          eq(priceHistory.region, region)
+        )
+      )
+      .groupBy(priceHistory.productId),
+  ]);
+
+  const basePriceMap = new Map(
+    basePrices.map((p) => [p.id, p.basePrice ? Number(p.basePrice) : null])
+  );
+  const historicalLowMap = new Map(
+    historicalLows.map((h) => [h.productId, Number(h.lowestPrice)])
+  );
+
+  for (const product of matrixData.products) {
+    const inputs = {
+      bestPrice: product.bestPrice ?? null,
+      previousApprovedPrice: product.previousApprovedPrice ?? null,
+      basePrice: basePriceMap.get(product.productId) ?? null,
+      historicalLowPrice: historicalLowMap.get(product.productId) ?? null,
+    };
+    const { targetPrice, ruleName } = resolveTargetPrice(
+      ruleConfigs,
+      product.category,
       region,
-      categories
+      inputs
     );
 
-    // Add previous approved price to each product and calculate variance for each supplier
-    matrixProducts.forEach((product) => {
-      const previousPrice = bestPrices.get(product.productId);
-      if (previousPrice) {
-        product.previousApprovedPrice = previousPrice.price;
-      }
-
-      // Calculate variance percentage for each supplier
-      Object.keys(product.suppliers).forEach((supplierIdStr) => {
-        const supplierId = parseInt(supplierIdStr);
-        const supplierData = product.suppliers[supplierId];
-
-        if (supplierData.hasPrice && previousPrice && previousPrice.price > 0) {
-          const currentPrice = supplierData.pricePerUnit;
-          const prevPrice = previousPrice.price;
-
-          // Add supplier-specific previous price
-          const supplierPriceKey = `${product.productId}-${supplierId}`;
-          const previousSupplierPrice = supplierPrices.get(supplierPriceKey);
-          if (previousSupplierPrice) {
-            supplierData.previousPriceFromThisSupplier = previousSupplierPrice;
-          }
-
-          // Calculate percentage variance
-          const variancePercentage = ((currentPrice - prevPrice) / prevPrice) * 100;
-
-          // Determine trend (considering 0.5% as stable threshold)
-          let varianceTrend: 'up' | 'down' | 'stable' = 'stable';
-          if (variancePercentage > 0.5) {
-            varianceTrend = 'up';
-          } else if (variancePercentage < -0.5) {
-            varianceTrend = 'down';
-          }
-
-          // Add variance data to supplier
-          supplierData.variancePercentage = variancePercentage;
-          supplierData.varianceTrend = varianceTrend;
-        }
-      });
+    targetPrices.set(product.productId, {
+      productId: product.productId,
+      productCode: product.productCode,
+      productName: product.productName,
+      category: product.category,
+      unit: product.unit,
+      ...inputs,
+      targetPrice,
+      ruleName,
     });
+  }
 
-    // STEP 9: Calculate Grouped Overview (Region > Category > Supplier)
-    console.log(`[getComparisonMatrix] Calculating grouped overview metrics (Region > Category > Supplier)...`);
+  return targetPrices;
+}
 
-    // Create nested map: Region -> Category -> Supplier -> Data
-    const regionCategorySupplierMap = new Map<string, Map<string, Map<number, any>>>();
+/**
+ * Convert a stored rule row into the engine's config shape
+ */
+function toTargetPriceRuleConfig(rule: TargetPriceRule): TargetPriceRuleConfig {
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    region: rule.region,
+    baseline: rule.baseline as TargetPriceBaseline,
+    adjustmentPercent: Number(rule.adjustmentPercent),
+    capAtBasePrice: rule.capAtBasePrice,
+    floorAtHistoricalLow: rule.floorAtHistoricalLow,
+    priority: rule.priority,
+  };
+}
 
-    matrixProducts.forEach((product) => {
-      // For each product, loop through its suppliers
-      Object.keys(product.suppliers).forEach((supplierIdStr) => {
-        const supplierId = parseInt(supplierIdStr);
-        const supplierData = product.suppliers[supplierId];
+// ==================== UTILITY FUNCTIONS ====================
 
-        // Skip suppliers without prices
-        if (!supplierData.hasPrice) return;
+/**
+ * Get available product categories for comparison
+ */
+export async function getAvailableCategories(): Promise<string[]> {
+  try {
+    await checkViewRole();
 
-        // Initialize nested structure if needed
-        if (!regionCategorySupplierMap.has(region)) {
-          regionCategorySupplierMap.set(region, new Map());
-        }
-        const categoryMap = regionCategorySupplierMap.get(region)!;
+    const categories = await db
+      .selectDistinct({ category: products.category })
+      .from(products)
+      .where(eq(products.status, "active"))
+      .orderBy(products.category);
 
-        if (!categoryMap.has(product.category)) {
-          categoryMap.set(product.category, new Map());
-        }
-        const supplierMap = categoryMap.get(product.category)!;
-
-        if (!supplierMap.has(supplierId)) {
-          // Get quotation status for this supplier
-          const supplierInfo = supplierStatsMap.get(supplierId);
-          const quotationStatus = supplierInfo?.quotationStatus || null;
-
-          supplierMap.set(supplierId, {
-            supplierId,
-            supplierCode: supplierData.supplierCode,
-            supplierName: supplierData.supplierName,
-            productCount: 0,
-            totalBaseValue: 0,
-            totalPreviousValue: 0,
-            totalInitialValue: 0,
-            totalCurrentValue: 0,
-            hasAnyPreviousData: false,
-            quotationStatus,
-          });
-        }
+    return categories.map((c) => c.category);
+  } catch (error) {
+    console.error("Error in getAvailableCategories:", error);
+    throw new Error("Lỗi khi tải danh sách nhóm hàng");
+  }
+}
 
-        const supplierAgg = supplierMap.get(supplierId)!;
+/**
+ * Get quotation summary for comparison page filters
+ */
+export async function getQuotationSummary(
+  period: string,
+  region: string
+): Promise<{
+  totalQuotations: number;
+  pendingQuotations: number;
+  negotiationQuotations: number;
+  approvedQuotations: number;
+  cancelledQuotations: number;
+  suppliers: number;
+}> {
+  try {
+    await checkViewRole([region]);
 
-        // Increment product count
-        supplierAgg.productCount++;
+    const [summary] = await db
+      .select({
+        totalQuotations: sql<number>`COUNT(*)`,
+        pendingQuotations: sql<number>`COUNT(CASE WHEN status = 'pending' THEN 1 END)`,
+        negotiationQuotations: sql<number>`COUNT(CASE WHEN status = 'negotiation' THEN 1 END)`,
+        approvedQuotations: sql<number>`COUNT(CASE WHEN status IN ('approved', 'partially_approved') THEN 1 END)`,
+        cancelledQuotations: sql<number>`COUNT(CASE WHEN status = 'cancelled' THEN 1 END)`,
+        suppliers: sql<number>`COUNT(DISTINCT supplier_id)`,
+      })
+      .from(quotations)
+      .where(and(eq(quotations.period, period), eq(quotations.region, region)));
 
-        // Use the static base price from products table (source of truth)
-        const basePrice = product.basePrice || 0;
+    return summary;
+  } catch (error) {
+    console.error("Error in getQuotationSummary:", error);
+    throw new Error("Lỗi khi tải tổng quan báo giá");
+  }
+}
 
-        // Current effective price for this supplier
-        const currentPrice = supplierData.pricePerUnit;
-        const initialPrice = supplierData.initialPrice || 0;
+/**
+ * Get regions that have quotations for a specific period (cascading filter)
+ * Excludes cancelled quotations to show only actionable data
+ */
+export async function getRegionsForPeriod(period: string): Promise<string[]> {
+  try {
+    const user = await checkViewRole();
 
-        // Use base_quantity consistently for all calculations
-        supplierAgg.totalBaseValue += basePrice * product.baseQuantity;
-        supplierAgg.totalInitialValue += initialPrice * product.baseQuantity;
-        supplierAgg.totalCurrentValue += currentPrice * product.baseQuantity;
+    if (!period) {
+      return [];
+    }
 
-        // Use supplier-specific previous price (not the best price from previous period)
-        if (supplierData.previousPriceFromThisSupplier && supplierData.previousPriceFromThisSupplier > 0) {
-          supplierAgg.totalPreviousValue += supplierData.previousPriceFromThisSupplier * product.baseQuantity;
-          supplierAgg.hasAnyPreviousData = true;
-        }
-      });
-    });
+    const regions = await db
+      .selectDistinct({ region: quotations.region })
+      .from(quotations)
+      .where(
+        and(
+          eq(quotations.period, period),
+          sql`${quotations.status} != 'cancelled'`
+        )
+      )
+      .orderBy(quotations.region);
 
-    // Convert nested maps to GroupedOverview structure
-    const groupedOverview: any = {
-      regions: []
-    };
+    // Team-restricted users only see the regions of their teams
+    const permittedRegions = await getPermittedRegions(user.id);
 
-    regionCategorySupplierMap.forEach((categoryMap, regionName) => {
-      const regionOverview: any = {
-        region: regionName,
-        categories: []
-      };
+    return regions
+      .map((r) => r.region)
+      .filter((region): region is string => Boolean(region))
+      .filter(
+        (region) => permittedRegions === null || permittedRegions.includes(region)
+      );
+  } catch (error) {
+    console.error("Error in getRegionsForPeriod:", error);
+    throw new Error("Lỗi khi tải danh sách khu vực theo kỳ");
+  }
+}
+
+/**
+ * Get product categories that have quotations for a specific period and region (cascading filter)
+ * Excludes cancelled quotations to show only actionable data
+ */
+export async function getCategoriesForPeriodAndRegion(
+  period: string,
+  region: string
+): Promise<string[]> {
+  try {
+    await checkViewRole(region ? [region] : []);
+
+    if (!period || !region) {
+      return [];
+    }
+
+    const categories = await db
+      .selectDistinct({ category: products.category })
+      .from(quotations)
+      .innerJoin(quoteItems, eq(quotations.id, quoteItems.quotationId))
+      .innerJoin(products, eq(quoteItems.productId, products.id))
+      .where(
+        and(
+          eq(quotations.period, period),
+          eq(quotations.region, region),
+          eq(products.status, "active"),
+          sql`${quotations.status} != 'cancelled'`
+        )
+      )
+      .orderBy(products.category);
+
+    return categories
+      .map((c) => c.category)
+      .filter((category): category is string => Boolean(category));
+  } catch (error) {
+    console.error("Error in getCategoriesForPeriodAndRegion:", error);
+    throw new Error("Lỗi khi tải danh sách nhóm hàng theo kỳ và khu vực");
+  }
+}
+
+// Export target price file validation schema
+const ExportTargetPriceSchema = z.object({
+  period: z.string().min(1, "Kỳ báo giá là bắt buộc"),
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+  categories: z.array(z.string()).optional(),
+});
+
+/**
+ * Export target price file based on comparison matrix data
+ */
+export async function exportTargetPriceFile(params: {
+  period: string;
+  region: string;
+  categories?: string[];
+}): Promise<Blob> {
+  try {
+    console.log("[exportTargetPriceFile] Starting export with params:", params);
+
+    // Validate input
+    const validatedData = ExportTargetPriceSchema.parse(params);
+    const { period, region, categories } = validatedData;
+
+    // Authorization check
+    await checkManagerRole([region]);
+
+    // Get comparison matrix data
+    const matrixData = await getComparisonMatrix({
+      period,
+      region,
+      categories: categories || [],
+    });
+
+    if (!matrixData || matrixData.products.length === 0) {
+      throw new Error("Không có dữ liệu sản phẩm để xuất file");
+    }
+
+    // 1. Apply target price rules to each product
+    const targetPrices = await computeTargetPrices(matrixData, region);
 
-      categoryMap.forEach((supplierMap, categoryName) => {
-        const categoryOverview: any = {
-          category: categoryName,
-          supplierPerformances: []
+    const targetPriceData = matrixData.products.map((product) => {
+      const bestSupplier = matrixData.availableSuppliers.find(
+        (s) => s.id === product.bestSupplierId
+      );
+      const target = targetPrices.get(product.productId);
+
+      return {
+        productCode: product.productCode,
+        productName: product.productName,
+        unit: product.unit,
+        quantity: product.quantity,
+        currentBestPrice: product.bestPrice || 0,
+        bestSupplier: bestSupplier?.name || null,
+        targetPrice: target?.targetPrice || 0,
+        targetPriceRule: target?.ruleName || "",
+        previousApprovedPrice: product.previousApprovedPrice || 0,
+        notes: "", // For suppliers to add negotiation notes
+      };
+    });
+
+    // 2. Generate Excel file using ExcelJS
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("Target Prices");
+
+    // Set up column headers
+    const headers = [
+      "Mã sản phẩm",
+      "Tên sản phẩm",
+      "Đơn vị",
+      "Số lượng",
+      "Giá tốt nhất hiện tại",
+      "NCC giá tốt nhất",
+      TARGET_PRICE_HEADERS.targetPrice,
+      TARGET_PRICE_HEADERS.targetPriceRule,
+      "Giá đã duyệt kỳ trước",
+      "Ghi chú của NCC",
+    ];
+
+    // Add headers with styling
+    const headerRow = worksheet.addRow(headers);
+    headerRow.eachCell((cell) => {
+      cell.font = { bold: true };
+      cell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFE6E6FA" },
+      };
+      cell.border = {
+        top: { style: "thin" },
+        left: { style: "thin" },
+        bottom: { style: "thin" },
+        right: { style: "thin" },
+      };
+    });
+
+    // Add data rows
+    targetPriceData.forEach((item) => {
+      const row = worksheet.addRow([
+        item.productCode,
+        item.productName,
+        item.unit,
+        item.quantity,
+        item.currentBestPrice,
+        item.bestSupplier,
+        item.targetPrice,
+        item.targetPriceRule,
+        item.previousApprovedPrice,
+        item.notes,
+      ]);
+
+      // Add borders to data cells
+      row.eachCell((cell) => {
+        cell.border = {
+          top: { style: "thin" },
+          left: { style: "thin" },
+          bottom: { style: "thin" },
+          right: { style: "thin" },
         };
+      });
+    });
 
-        supplierMap.forEach((supplierAgg) => {
-          // Calculate variances
-          const varianceVsBase = {
-            difference: supplierAgg.totalCurrentValue - supplierAgg.totalBaseValue,
-            percentage: supplierAgg.totalBaseValue > 0
-              ? ((supplierAgg.totalCurrentValue - supplierAgg.totalBaseValue) / supplierAgg.totalBaseValue) * 100
-              : 0,
+    // Auto-fit columns
+    worksheet.columns.forEach((column) => {
+      if (column.header) {
+        const maxLength = Math.max(
+          column.header.toString().length,
+          ...worksheet
+            .getColumn(column.letter)
+            .values.slice(1) // Skip header
+            .map((val) => (val ? val.toString().length : 0))
+        );
+        column.width = Math.min(Math.max(maxLength + 2, 10), 50);
+      }
+    });
+
+    // 3. Generate file buffer and return as Blob
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    console.log(
+      `[exportTargetPriceFile] Generated Excel file with ${targetPriceData.length} products`
+    );
+
+    // Return as Blob for direct download
+    return new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } catch (error) {
+    console.error("Error in exportTargetPriceFile:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi xuất file giá mục tiêu"
+    );
+  }
+}
+
+/**
+ * Initiate batch negotiation and export target price files (one per supplier, zipped)
+ * This combines two operations: batch negotiation + export separate Excel files per supplier
+ */
+export async function initiateBatchNegotiationAndExport(params: {
+  period: string;
+  region: string;
+  categories?: string[];
+}): Promise<{
+  success: true;
+  downloadPath: string;
+  signedUrl: string;
+  fileName: string;
+}> {
+  try {
+    console.log(
+      "[initiateBatchNegotiationAndExport] Starting with params:",
+      params
+    );
+
+    // Validate input
+    const validatedData = ExportTargetPriceSchema.parse(params);
+    const { period, region, categories } = validatedData;
+
+    // Authorization check
+    const user = await checkManagerRole([region]);
+
+    // Step 1: Get comparison matrix data first to identify quotations in current view
+    const matrixData = await getComparisonMatrix({
+      period,
+      region,
+      categories: categories || [],
+    });
+
+    if (!matrixData || matrixData.availableSuppliers.length === 0) {
+      throw new Error("Không có dữ liệu nhà cung cấp để thực hiện");
+    }
+
+    if (!matrixData.products || matrixData.products.length === 0) {
+      throw new Error("Không có dữ liệu sản phẩm để xuất file");
+    }
+
+    // Step 2: Extract pending quotation IDs from matrixData
+    const pendingQuotationIds = matrixData.availableSuppliers
+      .filter(
+        (supplier) =>
+          supplier.quotationId &&
+          supplier.quotationId > 0 &&
+          supplier.quotationStatus === "pending"
+      )
+      .map((supplier) => supplier.quotationId!)
+      .filter((id, index, array) => array.indexOf(id) === index); // Remove duplicates
+
+    console.log(
+      `[initiateBatchNegotiationAndExport] Found ${pendingQuotationIds.length} pending quotations from matrix data`
+    );
+
+    // Step 3: Perform efficient batch status update using single UPDATE query
+    if (pendingQuotationIds.length > 0) {
+      await db
+        .update(quotations)
+        .set({
+          status: "negotiation",
+          updateDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            inArray(quotations.id, pendingQuotationIds),
+            eq(quotations.status, "pending") // Additional safety check
+          )
+        );
+
+      console.log(
+        `[initiateBatchNegotiationAndExport] Updated ${pendingQuotationIds.length} quotations to negotiation status`
+      );
+    } else {
+      console.log(
+        `[initiateBatchNegotiationAndExport] No pending quotations found to update`
+      );
+    }
+
+    // Step 4: Resolve quotation codes so returned files can be matched on import
+    const exportQuotationIds = matrixData.availableSuppliers
+      .map((supplier) => supplier.quotationId)
+      .filter((id): id is number => !!id && id > 0);
+
+    const quotationCodeMap = new Map<number, string>();
+    if (exportQuotationIds.length > 0) {
+      const quotationCodes = await db
+        .select({ id: quotations.id, quotationId: quotations.quotationId })
+        .from(quotations)
+        .where(inArray(quotations.id, exportQuotationIds));
+
+      quotationCodes.forEach((quotation) =>
+        quotationCodeMap.set(quotation.id, quotation.quotationId)
+      );
+    }
+
+    // Step 5: Apply target price rules (same target for every supplier)
+    const targetPrices = await computeTargetPrices(matrixData, region);
+
+    // Step 6: Create a zip archive using archiver
+    const archive = archiver("zip", {
+      zlib: { level: 9 }, // Maximum compression
+    });
+
+    // Step 7: Generate separate Excel file for each supplier
+    for (const supplier of matrixData.availableSuppliers) {
+      console.log(
+        `[initiateBatchNegotiationAndExport] Generating Excel for supplier: ${supplier.code}`
+      );
+
+      // Filter products that this supplier has quoted
+      const supplierProducts = matrixData.products.filter(
+        (product) => product.suppliers[supplier.id] !== undefined
+      );
+
+      if (supplierProducts.length === 0) {
+        console.log(
+          `[initiateBatchNegotiationAndExport] Supplier ${supplier.code} has no products, skipping`
+        );
+        continue;
+      }
+
+      // Create a new workbook for this supplier
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet(TARGET_PRICE_SHEET_NAME);
+
+      // Set up column headers - suppliers fill the counter-offer columns and
+      // send the file back for importCounterOffersFromExcel
+      const headers = [
+        TARGET_PRICE_HEADERS.quotationCode,
+        TARGET_PRICE_HEADERS.productCode,
+        TARGET_PRICE_HEADERS.productName,
+        TARGET_PRICE_HEADERS.specification,
+        TARGET_PRICE_HEADERS.unit,
+        TARGET_PRICE_HEADERS.targetPrice,
+        TARGET_PRICE_HEADERS.targetPriceRule,
+        TARGET_PRICE_HEADERS.counterOffer,
+        TARGET_PRICE_HEADERS.supplierNotes,
+      ];
+      const quotationCode = supplier.quotationId
+        ? quotationCodeMap.get(supplier.quotationId) || ""
+        : "";
+
+      // Add headers with styling
+      const headerRow = worksheet.addRow(headers);
+      headerRow.eachCell((cell) => {
+        cell.font = { bold: true };
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFE6E6FA" },
+        };
+        cell.border = {
+          top: { style: "thin" },
+          left: { style: "thin" },
+          bottom: { style: "thin" },
+          right: { style: "thin" },
+        };
+      });
+
+      // Add data rows for this supplier's products
+      supplierProducts.forEach((product) => {
+        const target = targetPrices.get(product.productId);
+
+        const rowData = [
+          quotationCode,
+          product.productCode || "",
+          product.productName || "",
+          product.specification || "",
+          product.unit || "",
+          target?.targetPrice || 0,
+          target?.ruleName || "",
+          null,
+          null,
+        ];
+
+        const row = worksheet.addRow(rowData);
+
+        // Apply formatting to data cells (includeEmpty so the supplier input columns get borders)
+        row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+          cell.border = {
+            top: { style: "thin" },
+            left: { style: "thin" },
+            bottom: { style: "thin" },
+            right: { style: "thin" },
           };
 
-          const varianceVsPrevious = supplierAgg.hasAnyPreviousData ? {
-            difference: supplierAgg.totalCurrentValue - supplierAgg.totalPreviousValue,
-            percentage: supplierAgg.totalPreviousValue > 0
-              ? ((supplierAgg.totalCurrentValue - supplierAgg.totalPreviousValue) / supplierAgg.totalPreviousValue) * 100
-              : 0,
-          } : null;
-
-          const varianceVsInitial = {
-            difference: supplierAgg.totalCurrentValue - supplierAgg.totalInitialValue,
-            percentage: supplierAgg.totalInitialValue > 0
-              ? ((supplierAgg.totalCurrentValue - supplierAgg.totalInitialValue) / supplierAgg.totalInitialValue) * 100
-              : 0,
-          };
+          // Format price columns (target price, counter offer) with thousand separators
+          if (colNumber === 6 || colNumber === 8) {
+            cell.numFmt = "#,##0";
+          }
 
-          categoryOverview.supplierPerformances.push({
-            supplierId: supplierAgg.supplierId,
-            supplierCode: supplierAgg.supplierCode,
-            supplierName: supplierAgg.supplierName,
-            productCount: supplierAgg.productCount,
-            totalBaseValue: supplierAgg.totalBaseValue,
-            totalPreviousValue: supplierAgg.hasAnyPreviousData ? supplierAgg.totalPreviousValue : null,
-            totalInitialValue: supplierAgg.totalInitialValue,
-            totalCurrentValue: supplierAgg.totalCurrentValue,
-            varianceVsBase,
-            varianceVsPrevious,
-            varianceVsInitial,
-            quotationStatus: supplierAgg.quotationStatus,
-          });
+          // Highlight the columns the supplier is expected to fill
+          if (colNumber === 8 || colNumber === 9) {
+            cell.fill = {
+              type: "pattern",
+              pattern: "solid",
+              fgColor: { argb: "FFFFF9C4" },
+            };
+          }
         });
+      });
 
-        // Sort suppliers by code
-        categoryOverview.supplierPerformances.sort((a: any, b: any) =>
-          a.supplierCode.localeCompare(b.supplierCode)
-        );
-
-        regionOverview.categories.push(categoryOverview);
+      // Auto-fit columns
+      worksheet.columns.forEach((column) => {
+        if (column.header) {
+          const maxLength = Math.max(
+            column.header.toString().length,
+            ...worksheet
+              .getColumn(column.letter)
+              .values.slice(1)
+              .map((val) => (val ? val.toString().length : 0))
+          );
+          column.width = Math.min(Math.max(maxLength + 2, 10), 50);
+        }
       });
 
-      // Sort categories alphabetically
-      regionOverview.categories.sort((a: any, b: any) =>
-        a.category.localeCompare(b.category)
+      // Generate Excel file buffer
+      const buffer = await workbook.xlsx.writeBuffer();
+
+      // Add to zip archive with unique filename
+      const fileName = `${period}_${region}_${supplier.code}.xlsx`;
+      archive.append(Buffer.from(buffer), { name: fileName });
+
+      console.log(
+        `[initiateBatchNegotiationAndExport] Added ${fileName} to archive with ${supplierProducts.length} products`
       );
+    }
 
-      groupedOverview.regions.push(regionOverview);
-    });
+    // Step 8: Finalize the archive
+    archive.finalize();
 
-    console.log(`[getComparisonMatrix] Grouped overview calculated: ${groupedOverview.regions.length} regions, ${groupedOverview.regions.reduce((sum: number, r: any) => sum + r.categories.length, 0)} categories`);
+    // Step 9: Collect archive data into buffer
+    const chunks: Buffer[] = [];
+    archive.on("data", (chunk: Buffer) => chunks.push(chunk));
 
-    const finalMatrix = {
-      products: matrixProducts,
-      suppliers: matrixSuppliers,
-      period,
-      region,
-      category: categories.join(", "),
-      lastUpdated: new Date(),
-      groupedOverview,
-      availableSuppliers: Array.from(supplierStatsMap.values()),
-    };
+    await new Promise<void>((resolve, reject) => {
+      archive.on("end", () => resolve());
+      archive.on("error", reject);
+    });
 
-    console.log(`[getComparisonMatrix] Final matrix structure:`, {
-      productsCount: finalMatrix.products.length,
-      suppliersCount: finalMatrix.suppliers.length,
-      availableSuppliersCount: finalMatrix.availableSuppliers.length,
-      groupedOverviewRegions: finalMatrix.groupedOverview.regions.length,
-      sampleProduct: finalMatrix.products[0]
-        ? {
-            productId: finalMatrix.products[0].productId,
-            productCode: finalMatrix.products[0].productCode,
-            suppliersWithQuotes: Object.keys(finalMatrix.products[0].suppliers)
-              .length,
-          }
-        : "No products",
+    // Step 10: Persist the package in file storage
+    const zipFileName = `GiaMucTieu_${period}_${region}_${Date.now()}.zip`;
+    const storedFile = await saveStoredFile({
+      data: Buffer.concat(chunks),
+      fileName: zipFileName,
+      contentType: "application/zip",
+      purpose: FILE_PURPOSES.NEGOTIATION_PACKAGE,
+      region,
+      period,
+      createdBy: user.id,
     });
 
-    return finalMatrix;
-  } catch (error) {
-    console.error("Error in getComparisonMatrix:", error);
-    throw new Error(
-      error instanceof Error
-        ? error.message
-        : "Lỗi khi tải ma trận so sánh báo giá"
+    console.log(
+      `[initiateBatchNegotiationAndExport] Stored zip file ${storedFile.id} (${storedFile.size} bytes)`
     );
-  }
-}
-
-/**
- * Batch negotiation - update multiple quotations to negotiation status
- */
-export async function batchNegotiation(
-  data: z.infer<typeof BatchNegotiationSchema>
-): Promise<NegotiationResult> {
-  try {
-    // Authorization check
-    await checkManagerRole();
-
-    // Validate input
-    const validatedData = BatchNegotiationSchema.parse(data);
-    const { quotationIds } = validatedData;
-
-    // Get quotations that can be moved to negotiation
-    const quotationsToUpdate = await db
-      .select({
-        id: quotations.id,
-        supplierId: quotations.supplierId,
-        supplierCode: suppliers.supplierCode,
-        supplierName: suppliers.name,
-        status: quotations.status,
-      })
-      .from(quotations)
-      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-      .where(
-        and(
-          inArray(quotations.id, quotationIds),
-          inArray(quotations.status, ["pending", "negotiation"])
-        )
-      );
-
-    if (quotationsToUpdate.length === 0) {
-      throw new Error("Không tìm thấy báo giá hợp lệ để đàm phán");
-    }
-
-    // Update quotation statuses
-    const validIds = quotationsToUpdate.map((q) => q.id);
-    const updateResult = await db
-      .update(quotations)
-      .set({
-        status: "negotiation",
-        updateDate: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(inArray(quotations.id, validIds));
-
-    // Get affected supplier names
-    const affectedSuppliers = [
-      ...new Set(quotationsToUpdate.map((q) => q.supplierName)),
-    ];
 
     // Revalidate relevant pages
     revalidatePath("/so-sanh");
     revalidatePath("/bao-gia");
 
+    // Return the session download path and a signed link that can be shared
     return {
-      success: `Đã chuyển ${quotationsToUpdate.length} báo giá sang trạng thái đàm phán`,
-      updatedQuotations: quotationsToUpdate.length,
-      affectedSuppliers,
+      success: true,
+      downloadPath: `${FILE_ROUTE_PREFIX}/${storedFile.id}`,
+      signedUrl: createSignedFileLink(storedFile),
+      fileName: zipFileName,
     };
   } catch (error) {
-    console.error("Error in batchNegotiation:", error);
+    console.error("Error in initiateBatchNegotiationAndExport:", error);
     throw new Error(
       error instanceof Error
         ? error.message
-        : "Lỗi khi thực hiện đàm phán hàng loạt"
+        : "Lỗi khi thực hiện đàm phán hàng loạt và xuất file"
     );
   }
 }
 
 /**
- * Negotiate single quotation
+ * Import counter-offers from returned target-price workbooks
+ * Counter-offer prices become the new negotiated prices of the answered lines;
+ * lines left empty or equal to the current price are reported as unchanged.
  */
-export async function negotiateQuotation(
-  data: z.infer<typeof NegotiateQuotationSchema>
-): Promise<{ success: string }> {
+export async function importCounterOffersFromExcel(
+  files: File[],
+  params: z.infer<typeof ImportCounterOffersSchema>
+): Promise<CounterOfferImportResult> {
   try {
-    // Authorization check
-    await checkManagerRole();
+    console.log(
+      `[importCounterOffersFromExcel] Starting with ${files.length} files:`,
+      params
+    );
 
     // Validate input
-    const validatedData = NegotiateQuotationSchema.parse(data);
-    const { id } = validatedData;
-
-    // Check if quotation exists and can be negotiated
-    const [quotation] = await db
-      .select({
-        id: quotations.id,
-        status: quotations.status,
-        supplierName: suppliers.name,
-      })
-      .from(quotations)
-      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-      .where(eq(quotations.id, id))
-      .limit(1);
+    const validatedData = ImportCounterOffersSchema.parse(params);
+    const { period, region } = validatedData;
 
-    if (!quotation) {
-      throw new Error("Không tìm thấy báo giá");
-    }
+    // Authorization check
+    const user = await checkManagerRole([region]);
 
-    if (!["pending", "negotiation"].includes(quotation.status)) {
-      throw new Error("Không thể đàm phán báo giá với trạng thái hiện tại");
+    if (files.length === 0) {
+      throw new Error("Vui lòng chọn ít nhất một file Excel");
     }
 
-    // Update quotation status
-    await db
-      .update(quotations)
-      .set({
-        status: "negotiation",
-        updateDate: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(quotations.id, id));
-
-    // Revalidate relevant pages
-    revalidatePath("/so-sanh");
-    revalidatePath("/bao-gia");
-
-    return {
-      success: `Đã chuyển báo giá của ${quotation.supplierName} sang trạng thái đàm phán`,
+    const result: CounterOfferImportResult = {
+      success: false,
+      totalFiles: files.length,
+      processedFiles: 0,
+      acceptedLines: 0,
+      rejectedLines: 0,
+      unchangedLines: 0,
+      loggedPriceHistory: 0,
+      lines: [],
+      errors: [],
+      warnings: [],
     };
-  } catch (error) {
-    console.error("Error in negotiateQuotation:", error);
-    throw new Error(
-      error instanceof Error ? error.message : "Lỗi khi đàm phán báo giá"
-    );
-  }
-}
-
-/**
- * Approve quotation with final prices
- */
-export async function approveQuotation(
-  data: z.infer<typeof ApproveQuotationSchema>
-): Promise<ApprovalResult> {
-  try {
-    // Authorization check
-    const user = await checkApprovalRole();
-
-    // Validate input
-    const validatedData = ApproveQuotationSchema.parse(data);
-    const { id, approvedPrices } = validatedData;
 
-    // Get quotation details
-    const [quotation] = await db
+    // Step 1: Load quotations of this period/region with their items
+    const periodQuotations = await db
       .select({
         id: quotations.id,
-        period: quotations.period,
-        region: quotations.region,
+        quotationCode: quotations.quotationId,
         supplierId: quotations.supplierId,
+        supplierCode: suppliers.supplierCode,
         status: quotations.status,
-        supplierName: suppliers.name,
       })
       .from(quotations)
       .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-      .where(eq(quotations.id, id))
-      .limit(1);
+      .where(and(eq(quotations.period, period), eq(quotations.region, region)));
 
-    if (!quotation) {
-      throw new Error("Không tìm thấy báo giá");
-    }
+    const quotationsByCode = new Map(
+      periodQuotations.map((quotation) => [
+        quotation.quotationCode.toUpperCase(),
+        quotation,
+      ])
+    );
+    const quotationsBySupplierCode = new Map(
+      periodQuotations
+        .filter((quotation) => quotation.supplierCode)
+        .map((quotation) => [quotation.supplierCode!.toUpperCase(), quotation])
+    );
 
-    if (quotation.status === "approved") {
-      throw new Error("Báo giá đã được phê duyệt trước đó");
-    }
+    const periodItems =
+      periodQuotations.length > 0
+        ? await db
+            .select({
+              id: quoteItems.id,
+              quotationId: quoteItems.quotationId,
+              productId: quoteItems.productId,
+              productCode: products.productCode,
+              initialPrice: quoteItems.initialPrice,
+              negotiatedPrice: quoteItems.negotiatedPrice,
+            })
+            .from(quoteItems)
+            .innerJoin(products, eq(quoteItems.productId, products.id))
+            .where(
+              inArray(
+                quoteItems.quotationId,
+                periodQuotations.map((quotation) => quotation.id)
+              )
+            )
+        : [];
+
+    const itemsByKey = new Map(
+      periodItems.map((item) => [
+        `${item.quotationId}:${item.productCode.toUpperCase()}`,
+        item,
+      ])
+    );
 
-    if (quotation.status === "cancelled") {
-      throw new Error("Không thể phê duyệt báo giá đã bị hủy");
-    }
+    // Step 2: Parse each file and classify its lines
+    const acceptedUpdates: Array<{
+      itemId: number;
+      productId: number;
+      supplierId: number;
+      quotationId: number;
+      price: number;
+      targetPrice?: number;
+      notes?: string;
+    }> = [];
+    const seenItemIds = new Set<number>();
+
+    for (const file of files) {
+      const parseResult = await processCounterOfferFile(file);
+
+      parseResult.warnings.forEach((warning) =>
+        result.warnings.push(`${file.name}: ${warning.message}`)
+      );
 
-    // Process approval in transaction
-    const result = await db.transaction(async (tx) => {
-      let approvedItems = 0;
-      let totalApprovedValue = 0;
-      let loggedPriceHistory = 0;
+      if (!parseResult.success) {
+        parseResult.errors.forEach((error) =>
+          result.errors.push(`${file.name}: ${error.message}`)
+        );
+        continue;
+      }
 
-      // Get all quote items for this quotation
-      const items = await tx
-        .select()
-        .from(quoteItems)
-        .where(eq(quoteItems.quotationId, id));
+      result.processedFiles++;
 
-      // Process approved prices and update quote items
-      for (const item of items) {
-        let finalApprovedPrice: number | null = null;
-
-        // Determine approved price
-        if (approvedPrices && approvedPrices[item.id.toString()]) {
-          finalApprovedPrice = approvedPrices[item.id.toString()];
-        } else if (item.negotiatedPrice) {
-          finalApprovedPrice = Number(item.negotiatedPrice);
-        } else if (item.initialPrice) {
-          finalApprovedPrice = Number(item.initialPrice);
-        }
+      for (const line of parseResult.lines) {
+        const quotation = line.quotationCode
+          ? quotationsByCode.get(line.quotationCode)
+          : parseResult.supplierCode
+            ? quotationsBySupplierCode.get(parseResult.supplierCode)
+            : undefined;
 
-        if (finalApprovedPrice !== null && finalApprovedPrice > 0) {
-          // Update quote item with approved price
-          await tx
-            .update(quoteItems)
-            .set({
-              approvedPrice: finalApprovedPrice,
-              approvedAt: new Date(),
-              approvedBy: user.id,
-              updatedAt: new Date(),
-            })
-            .where(eq(quoteItems.id, item.id));
+        const item = quotation
+          ? itemsByKey.get(`${quotation.id}:${line.productCode}`)
+          : undefined;
 
-          approvedItems++;
-          totalApprovedValue +=
-            finalApprovedPrice * (Number(item.quantity) || 1);
+        const previousPrice = item
+          ? Number(item.negotiatedPrice ?? item.initialPrice ?? 0)
+          : null;
+
+        const lineResult: CounterOfferLineResult = {
+          fileName: file.name,
+          row: line.row,
+          quotationCode: quotation?.quotationCode ?? line.quotationCode ?? null,
+          supplierCode: quotation?.supplierCode ?? parseResult.supplierCode ?? null,
+          productCode: line.productCode,
+          previousPrice,
+          counterOffer: line.counterOffer ?? null,
+          status: "rejected",
+        };
 
-          // Log to price history
-          await tx.insert(priceHistory).values({
+        if (!quotation) {
+          lineResult.message = `Không tìm thấy báo giá ${
+            line.quotationCode || parseResult.supplierCode || ""
+          } trong kỳ ${period} - ${region}`;
+        } else if (quotation.status !== "negotiation") {
+          lineResult.message = `Báo giá ${quotation.quotationCode} không ở trạng thái đàm phán`;
+        } else if (!item) {
+          lineResult.message = `Sản phẩm ${line.productCode} không có trong báo giá ${quotation.quotationCode}`;
+        } else if (line.error) {
+          lineResult.message = line.error;
+        } else if (line.counterOffer === undefined) {
+          lineResult.status = "unchanged";
+          lineResult.message = "Nhà cung cấp không đề xuất giá mới";
+        } else if (line.counterOffer === previousPrice) {
+          lineResult.status = "unchanged";
+          lineResult.message = "Giá đề xuất trùng với giá hiện tại";
+        } else if (seenItemIds.has(item.id)) {
+          lineResult.message = `Sản phẩm ${line.productCode} bị trùng lặp trong các file đã chọn`;
+        } else {
+          lineResult.status = "accepted";
+          seenItemIds.add(item.id);
+          acceptedUpdates.push({
+            itemId: item.id,
             productId: item.productId,
             supplierId: quotation.supplierId,
-            period: quotation.period,
-            price: finalApprovedPrice,
-            priceType: "approved",
-            region: quotation.region,
+            quotationId: quotation.id,
+            price: line.counterOffer,
+            targetPrice: line.targetPrice,
+            notes: line.notes,
           });
-
-          loggedPriceHistory++;
         }
+
+        result.lines.push(lineResult);
       }
+    }
 
-      // Update quotation status
-      await tx
-        .update(quotations)
-        .set({
-          status: "approved",
-          updateDate: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(quotations.id, id));
+    // Step 3: Apply accepted counter-offers and log them to price history
+    if (acceptedUpdates.length > 0) {
+      await db.transaction(async (tx) => {
+        const now = new Date();
 
-      return {
-        approvedItems,
-        totalApprovedValue,
-        loggedPriceHistory,
-      };
-    });
+        for (const update of acceptedUpdates) {
+          const [updatedItem] = await tx
+            .update(quoteItems)
+            .set({
+              negotiatedPrice: update.price.toString(),
+              negotiationRounds: sql`COALESCE(${quoteItems.negotiationRounds}, 0) + 1`,
+              lastNegotiatedAt: now,
+              ...(update.notes ? { notes: update.notes } : {}),
+              updatedAt: now,
+            })
+            .where(eq(quoteItems.id, update.itemId))
+            .returning({ negotiationRounds: quoteItems.negotiationRounds });
+
+          // Record the counter-offer as a new negotiation round
+          await tx.insert(negotiationHistory).values({
+            quoteItemId: update.itemId,
+            roundNumber: updatedItem?.negotiationRounds ?? 1,
+            offeredPrice: update.price.toString(),
+            targetPrice:
+              update.targetPrice !== undefined
+                ? update.targetPrice.toString()
+                : null,
+            recordedBy: user.id,
+            note: update.notes || null,
+            recordedAt: now,
+          });
+        }
+
+        await tx.insert(priceHistory).values(
+          acceptedUpdates.map((update) => ({
+            productId: update.productId,
+            supplierId: update.supplierId,
+            period,
+            price: update.price.toString(),
+            priceType: "negotiated",
+            region,
+          }))
+        );
+
+        await tx
+          .update(quotations)
+          .set({ updateDate: now, updatedAt: now })
+          .where(
+            inArray(
+              quotations.id,
+              [...new Set(acceptedUpdates.map((update) => update.quotationId))]
+            )
+          );
+      });
+
+      result.loggedPriceHistory = acceptedUpdates.length;
+    }
+
+    result.acceptedLines = result.lines.filter((line) => line.status === "accepted").length;
+    result.rejectedLines = result.lines.filter((line) => line.status === "rejected").length;
+    result.unchangedLines = result.lines.filter((line) => line.status === "unchanged").length;
+    result.success = result.processedFiles > 0;
+
+    console.log(
+      `[importCounterOffersFromExcel] Completed: ${result.acceptedLines} accepted, ${result.rejectedLines} rejected, ${result.unchangedLines} unchanged`
+    );
 
     // Revalidate relevant pages
     revalidatePath("/so-sanh");
     revalidatePath("/bao-gia");
-    revalidatePath("/bang-gia");
 
-    return {
-      success: `Đã phê duyệt báo giá của ${quotation.supplierName} với ${result.approvedItems} sản phẩm`,
-      approvedItems: result.approvedItems,
-      totalApprovedValue: result.totalApprovedValue,
-      loggedPriceHistory: result.loggedPriceHistory,
-    };
+    return result;
   } catch (error) {
-    console.error("Error in approveQuotation:", error);
+    console.error("Error in importCounterOffersFromExcel:", error);
     throw new Error(
-      error instanceof Error ? error.message : "Lỗi khi phê duyệt báo giá"
+      error instanceof Error ? error.message : "Lỗi khi nhập giá đàm phán từ nhà cung cấp"
     );
   }
 }
 
-// ==================== HELPER FUNCTIONS ====================
-
 /**
- * Get previous approved prices for a given region and current period
- * Returns BOTH the best price per product AND per-supplier prices
- *
- * OPTIMIZED: Uses direct SQL query to find the most recent previous period
+ * Approve multiple quotations with price finalization
+ * Uses database transaction to ensure atomicity of status update and price finalization
  */
-async function getPreviousApprovedPrices(
-  currentPeriod: string,
-  region: string,
-  categories: string[]
-): Promise<{
-  bestPrices: Map<number, { price: number; period: string }>;
-  supplierPrices: Map<string, number>; // Key: "productId-supplierId", Value: price
-}> {
+export async function approveMultipleQuotations(
+  data: z.input<typeof ApproveMultipleQuotationsSchema>
+): Promise<BatchApprovalResult> {
   try {
     console.log(
-      `[getPreviousApprovedPrices] Finding previous period for current: ${currentPeriod}, region: ${region}`
+      "[approveMultipleQuotations] Starting approval process with:",
+      data
     );
 
-    // STEP 1: Find the most recent previous period with approved quotations
-    // Uses declarative SQL: SELECT MAX(period) WHERE period < currentPeriod AND status = 'approved'
-    const previousPeriodResult = await db
-      .select({
-        period: quotations.period,
-      })
-      .from(quotations)
-      .where(
-        and(
-          sql`${quotations.period} < ${currentPeriod}`,
-          eq(quotations.region, region),
-          eq(quotations.status, "approved")
-        )
-      )
-      .orderBy(desc(quotations.period))
-      .limit(1);
+    // Authorization check - ensure user has approval permissions
+    const user = await checkApprovalRole();
 
-    // Handle case where no previous period exists
-    if (!previousPeriodResult || previousPeriodResult.length === 0) {
-      console.log(
-        `[getPreviousApprovedPrices] No previous approved period found for ${currentPeriod} in region ${region}`
-      );
-      return {
-        bestPrices: new Map(),
-        supplierPrices: new Map(),
-      };
+    // Validate input
+    const validatedData = ApproveMultipleQuotationsSchema.parse(data);
+    const { quotationIds, rejectedItems } = validatedData;
+
+    if (quotationIds.length === 0) {
+      throw new Error("Danh sách báo giá không được để trống");
     }
 
-    const previousPeriod = previousPeriodResult[0].period;
     console.log(
-      `[getPreviousApprovedPrices] Found previous period: ${previousPeriod}`
+      `[approveMultipleQuotations] Processing ${quotationIds.length} quotation IDs`
     );
 
-    // STEP 2: Fetch all approved prices from the identified previous period
-    const previousApprovedPrices = await db
+    // Get quotations that are eligible for approval
+    const quotationsToApprove = await db
       .select({
-        productId: quoteItems.productId,
+        id: quotations.id,
         supplierId: quotations.supplierId,
-        approvedPrice: quoteItems.approvedPrice,
+        supplierCode: suppliers.supplierCode,
+        supplierName: suppliers.name,
+        status: quotations.status,
         period: quotations.period,
-        updatedAt: quoteItems.updatedAt,
+        region: quotations.region,
       })
-      .from(quoteItems)
-      .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
-      .innerJoin(products, eq(quoteItems.productId, products.id))
+      .from(quotations)
+      .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
       .where(
         and(
-          eq(quotations.period, previousPeriod),
-          eq(quotations.region, region),
-          inArray(products.category, categories),
-          eq(quotations.status, "approved"),
-          sql`${quoteItems.approvedPrice} IS NOT NULL`
+          inArray(quotations.id, quotationIds),
+          inArray(quotations.status, ["pending", "negotiation"]) // Safety check - only approve quotations in valid statuses
         )
-      )
-      .orderBy(desc(quoteItems.updatedAt));
+      );
+
+    if (quotationsToApprove.length === 0) {
+      throw new Error(
+        "Không tìm thấy báo giá hợp lệ để phê duyệt (chỉ có thể phê duyệt báo giá ở trạng thái 'pending' hoặc 'negotiation')"
+      );
+    }
+
+    await requireRegionAccess(
+      user.id,
+      quotationsToApprove.map((q) => q.region)
+    );
+    await assertPeriodsAllowApproval(quotationsToApprove.map((q) => q.period));
 
     console.log(
-      `[getPreviousApprovedPrices] Found ${
-        previousApprovedPrices?.length || 0
-      } previous approved prices`
+      `[approveMultipleQuotations] Found ${quotationsToApprove.length} valid quotations for approval`
     );
 
-    // Build TWO maps: one for best prices, one for per-supplier prices
-    const bestPricesMap = new Map<number, { price: number; period: string }>();
-    const supplierPricesMap = new Map<string, number>();
+    // Extract quotation IDs for efficient batch update
+    const validQuotationIds = quotationsToApprove.map((q) => q.id);
+    const userRoles = await getUserRoles(user.id);
 
-    if (Array.isArray(previousApprovedPrices)) {
-      // First pass: collect all supplier-specific prices
-      previousApprovedPrices.forEach((item) => {
-        if (item?.productId && item?.supplierId && item?.approvedPrice) {
-          const key = `${item.productId}-${item.supplierId}`;
-          const price = Number(item.approvedPrice);
+    if (rejectedItems.length > 0) {
+      const quotationItems = await db
+        .select({ id: quoteItems.id })
+        .from(quoteItems)
+        .where(inArray(quoteItems.quotationId, validQuotationIds));
+      assertRejectedItemsBelong(quotationItems, rejectedItems);
+    }
 
-          // Only keep the most recent price for each product-supplier combination
-          if (!supplierPricesMap.has(key)) {
-            supplierPricesMap.set(key, price);
-          }
-        }
-      });
+    // Execute approval in a transaction to ensure data integrity
+    const routed = await db.transaction(async (tx) => {
+      // STEP 1: Propose prices in quote_items
+      // Set approved_price = COALESCE(negotiated_price, initial_price)
+      // and record the accepted round (latest round, or 0 for the initial quote)
+      await tx
+        .update(quoteItems)
+        .set({
+          approvedPrice: sql`COALESCE(${quoteItems.negotiatedPrice}, ${quoteItems.initialPrice})`,
+          approvedRound: sql`CASE WHEN ${quoteItems.negotiatedPrice} IS NULL THEN 0 ELSE NULLIF(${quoteItems.negotiationRounds}, 0) END`,
+        })
+        .where(inArray(quoteItems.quotationId, validQuotationIds));
 
-      // Second pass: find best price per product
-      const productPricesMap = new Map<number, number[]>();
-      previousApprovedPrices.forEach((item) => {
-        if (item?.productId && item?.approvedPrice) {
-          if (!productPricesMap.has(item.productId)) {
-            productPricesMap.set(item.productId, []);
-          }
-          productPricesMap.get(item.productId)!.push(Number(item.approvedPrice));
-        }
-      });
+      // Rejected items lose their proposed price and stay out of the totals
+      await applyItemRejections(tx, validQuotationIds, rejectedItems, user.id);
 
-      // Find the minimum price for each product
-      productPricesMap.forEach((prices, productId) => {
-        if (prices.length > 0) {
-          const bestPrice = Math.min(...prices);
-          const item = previousApprovedPrices.find(
-            p => p.productId === productId && Number(p.approvedPrice) === bestPrice
-          );
-          bestPricesMap.set(productId, {
-            price: bestPrice,
-            period: item?.period || "unknown",
-          });
+      console.log(
+        `[approveMultipleQuotations] STEP 1: Proposed prices for ${quotationsToApprove.length} quotations, rejected ${rejectedItems.length} items`
+      );
+
+      // STEP 2: Route each quotation by its total approved value
+      const totals = await tx
+        .select({
+          quotationId: quoteItems.quotationId,
+          totalValue: sql<string>`COALESCE(SUM(${quoteItems.approvedPrice} * COALESCE(NULLIF(${quoteItems.quantity}, 0), 1)), 0)`,
+        })
+        .from(quoteItems)
+        .where(inArray(quoteItems.quotationId, validQuotationIds))
+        .groupBy(quoteItems.quotationId);
+
+      const totalMap = new Map(
+        totals.map((t) => [t.quotationId, Number(t.totalValue)])
+      );
+
+      const toFinalize: typeof quotationsToApprove = [];
+      const toRequest: { quotationId: number; totalValue: number; level: number }[] = [];
+      for (const quotation of quotationsToApprove) {
+        const totalValue = totalMap.get(quotation.id) ?? 0;
+        const band = getApprovalBand(totalValue);
+
+        if (canSignOffBand(userRoles, band)) {
+          toFinalize.push(quotation);
+        } else {
+          toRequest.push({ quotationId: quotation.id, totalValue, level: band.level });
         }
-      });
-    }
+      }
 
-    console.log(
-      `[getPreviousApprovedPrices] Returning ${bestPricesMap.size} best prices and ${supplierPricesMap.size} supplier-specific prices`
-    );
-    return {
-      bestPrices: bestPricesMap,
-      supplierPrices: supplierPricesMap,
-    };
-  } catch (error) {
-    console.error("Error in getPreviousApprovedPrices:", error);
-    return {
-      bestPrices: new Map(),
-      supplierPrices: new Map(),
-    };
-  }
-}
+      console.log(
+        `[approveMultipleQuotations] STEP 2: ${toFinalize.length} quotations approved directly, ${toRequest.length} need sign-off`
+      );
 
-// ==================== UTILITY FUNCTIONS ====================
+      // STEP 3: Finalize approvals and insert approved prices into price_history
+      // This is CRITICAL for the Price Trends feature to work correctly
+      const loggedPriceHistory = await finalizeQuotationApprovals(
+        tx,
+        toFinalize,
+        user.id
+      );
 
-/**
- * Get available product categories for comparison
- */
-export async function getAvailableCategories(): Promise<string[]> {
-  try {
-    await checkManagerRole();
+      console.log(
+        `[approveMultipleQuotations] STEP 3: Inserted ${loggedPriceHistory} records into price_history`
+      );
 
-    const categories = await db
-      .selectDistinct({ category: products.category })
-      .from(products)
-      .where(eq(products.status, "active"))
-      .orderBy(products.category);
+      // STEP 4: Send quotations above the user's band to the approvals inbox
+      await createApprovalRequests(tx, toRequest, user.id);
 
-    return categories.map((c) => c.category);
-  } catch (error) {
-    console.error("Error in getAvailableCategories:", error);
-    throw new Error("Lỗi khi tải danh sách nhóm hàng");
-  }
-}
+      return {
+        approvedQuotations: toFinalize.length,
+        pendingApprovalQuotations: toRequest.length,
+      };
+    });
 
-/**
- * Get quotation summary for comparison page filters
- */
-export async function getQuotationSummary(
-  period: string,
-  region: string
-): Promise<{
-  totalQuotations: number;
-  pendingQuotations: number;
-  negotiationQuotations: number;
-  approvedQuotations: number;
-  cancelledQuotations: number;
-  suppliers: number;
-}> {
-  try {
-    await checkManagerRole();
+    console.log(
+      `[approveMultipleQuotations] Transaction completed successfully`
+    );
 
-    const [summary] = await db
-      .select({
-        totalQuotations: sql<number>`COUNT(*)`,
-        pendingQuotations: sql<number>`COUNT(CASE WHEN status = 'pending' THEN 1 END)`,
-        negotiationQuotations: sql<number>`COUNT(CASE WHEN status = 'negotiation' THEN 1 END)`,
-        approvedQuotations: sql<number>`COUNT(CASE WHEN status = 'approved' THEN 1 END)`,
-        cancelledQuotations: sql<number>`COUNT(CASE WHEN status = 'cancelled' THEN 1 END)`,
-        suppliers: sql<number>`COUNT(DISTINCT supplier_id)`,
-      })
-      .from(quotations)
-      .where(and(eq(quotations.period, period), eq(quotations.region, region)));
+    // Get affected supplier names for response
+    const affectedSuppliers = [
+      ...new Set(quotationsToApprove.map((q) => q.supplierName)),
+    ];
 
-    return summary;
+    // Revalidate relevant pages to refresh UI
+    revalidatePath("/so-sanh");
+    revalidatePath("/bao-gia");
+    revalidatePath("/phe-duyet");
+
+    const messages = [];
+    if (routed.approvedQuotations > 0) {
+      messages.push(`Đã phê duyệt ${routed.approvedQuotations} báo giá`);
+    }
+    if (routed.pendingApprovalQuotations > 0) {
+      messages.push(
+        `${routed.pendingApprovalQuotations} báo giá vượt ngưỡng đã được gửi chờ phê duyệt`
+      );
+    }
+    if (rejectedItems.length > 0) {
+      messages.push(`từ chối ${rejectedItems.length} sản phẩm`);
+    }
+
+    const result = {
+      success: `${messages.join(", ")} từ ${affectedSuppliers.length} nhà cung cấp`,
+      approvedQuotations: routed.approvedQuotations,
+      pendingApprovalQuotations: routed.pendingApprovalQuotations,
+      rejectedItems: rejectedItems.length,
+      affectedSuppliers,
+    };
+
+    console.log(`[approveMultipleQuotations] Completed successfully:`, result);
+    return result;
   } catch (error) {
-    console.error("Error in getQuotationSummary:", error);
-    throw new Error("Lỗi khi tải tổng quan báo giá");
+    console.error("Error in approveMultipleQuotations:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Lỗi khi phê duyệt báo giá hàng loạt"
+    );
   }
 }
 
+// ==================== TARGET PRICE RULES ====================
+
 /**
- * Get regions that have quotations for a specific period (cascading filter)
- * Excludes cancelled quotations to show only actionable data
+ * Get all target price rules (active and inactive)
  */
-export async function getRegionsForPeriod(period: string): Promise<string[]> {
+export async function getTargetPriceRules(): Promise<TargetPriceRuleEntry[]> {
   try {
-    await checkManagerRole();
-
-    if (!period) {
-      return [];
-    }
+    await checkViewRole();
+
+    const rules = await db
+      .select()
+      .from(targetPriceRules)
+      .orderBy(
+        targetPriceRules.category,
+        targetPriceRules.region,
+        desc(targetPriceRules.priority)
+      );
 
-    const regions = await db
-      .selectDistinct({ region: quotations.region })
-      .from(quotations)
-      .where(
-        and(
-          eq(quotations.period, period),
-          sql`${quotations.status} != 'cancelled'`
-        )
-      )
-      .orderBy(quotations.region);
+    return rules.map((rule) => {
+      const config = toTargetPriceRuleConfig(rule);
 
-    return regions
-      .map((r) => r.region)
-      .filter((region): region is string => Boolean(region));
+      return {
+        ...config,
+        isActive: rule.isActive,
+        description: describeTargetPriceRule(config),
+      };
+    });
   } catch (error) {
-    console.error("Error in getRegionsForPeriod:", error);
-    throw new Error("Lỗi khi tải danh sách khu vực theo kỳ");
+    console.error("Error in getTargetPriceRules:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải quy tắc giá mục tiêu"
+    );
   }
 }
 
 /**
- * Get product categories that have quotations for a specific period and region (cascading filter)
- * Excludes cancelled quotations to show only actionable data
+ * Create a target price rule
  */
-export async function getCategoriesForPeriodAndRegion(
-  period: string,
-  region: string
-): Promise<string[]> {
+export async function createTargetPriceRule(
+  data: z.input<typeof TargetPriceRuleSchema>
+): Promise<{ success: string }> {
   try {
-    await checkManagerRole();
+    const validatedData = TargetPriceRuleSchema.parse(data);
 
-    if (!period || !region) {
-      return [];
-    }
+    const user = await checkManagerRole(
+      validatedData.region ? [validatedData.region] : []
+    );
 
-    const categories = await db
-      .selectDistinct({ category: products.category })
-      .from(quotations)
-      .innerJoin(quoteItems, eq(quotations.id, quoteItems.quotationId))
-      .innerJoin(products, eq(quoteItems.productId, products.id))
-      .where(
-        and(
-          eq(quotations.period, period),
-          eq(quotations.region, region),
-          eq(products.status, "active"),
-          sql`${quotations.status} != 'cancelled'`
-        )
-      )
-      .orderBy(products.category);
+    await db.insert(targetPriceRules).values({
+      ...validatedData,
+      adjustmentPercent: validatedData.adjustmentPercent.toString(),
+      createdBy: user.id,
+    });
 
-    return categories
-      .map((c) => c.category)
-      .filter((category): category is string => Boolean(category));
+    revalidatePath("/so-sanh");
+
+    return { success: `Đã tạo quy tắc "${validatedData.name}"` };
   } catch (error) {
-    console.error("Error in getCategoriesForPeriodAndRegion:", error);
-    throw new Error("Lỗi khi tải danh sách nhóm hàng theo kỳ và khu vực");
+    console.error("Error in createTargetPriceRule:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tạo quy tắc giá mục tiêu"
+    );
   }
 }
 
-// Export target price file validation schema
-const ExportTargetPriceSchema = z.object({
-  period: z.string().min(1, "Kỳ báo giá là bắt buộc"),
-  region: z.string().min(1, "Khu vực là bắt buộc"),
-  categories: z.array(z.string()).optional(),
-});
-
 /**
- * Export target price file based on comparison matrix data
+ * Update a target price rule (partial update, e.g. toggling isActive)
  */
-export async function exportTargetPriceFile(params: {
-  period: string;
-  region: string;
-  categories?: string[];
-}): Promise<Blob> {
-  try {
-    console.log("[exportTargetPriceFile] Starting export with params:", params);
-
-    // Validate input
-    const validatedData = ExportTargetPriceSchema.parse(params);
-    const { period, region, categories } = validatedData;
+export async function updateTargetPriceRule(
+  data: z.input<typeof UpdateTargetPriceRuleSchema>
+): Promise<{ success: string }> {
+  try {
+    const { id, adjustmentPercent, ...changes } =
+      UpdateTargetPriceRuleSchema.parse(data);
 
-    // Get comparison matrix data
-    const matrixData = await getComparisonMatrix({
-      period,
-      region,
-      categories: categories || [],
-    });
+    const [existingRule] = await db
+      .select()
+      .from(targetPriceRules)
+      .where(eq(targetPriceRules.id, id))
+      .limit(1);
 
-    if (!matrixData || matrixData.products.length === 0) {
-      throw new Error("Không có dữ liệu sản phẩm để xuất file");
+    if (!existingRule) {
+      throw new Error("Không tìm thấy quy tắc giá mục tiêu");
     }
 
-    // 1. Extract best prices for each product
-    const targetPriceData = matrixData.products.map((product) => {
-      const bestSupplier = matrixData.availableSuppliers.find(
-        (s) => s.id === product.bestSupplierId
-      );
-
-      return {
-        productCode: product.productCode,
-        productName: product.productName,
-        unit: product.unit,
-        quantity: product.quantity,
-        currentBestPrice: product.bestPrice || 0,
-        bestSupplier: bestSupplier?.name || null,
-        targetPrice: product.bestPrice || 0, // Can be adjusted with business rules
-        previousApprovedPrice: product.previousApprovedPrice || 0,
-        notes: "", // For suppliers to add negotiation notes
-      };
-    });
+    // Both the current and the new region must be accessible
+    await checkManagerRole(
+      [existingRule.region, changes.region].filter(
+        (region): region is string => !!region
+      )
+    );
 
-    // 2. Generate Excel file using ExcelJS
-    const workbook = new ExcelJS.Workbook();
-    const worksheet = workbook.addWorksheet("Target Prices");
+    await db
+      .update(targetPriceRules)
+      .set({
+        ...changes,
+        ...(adjustmentPercent !== undefined && {
+          adjustmentPercent: adjustmentPercent.toString(),
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(targetPriceRules.id, id));
 
-    // Set up column headers
-    const headers = [
-      "Mã sản phẩm",
-      "Tên sản phẩm",
-      "Đơn vị",
-      "Số lượng",
-      "Giá tốt nhất hiện tại",
-      "NCC giá tốt nhất",
-      "Giá mục tiêu",
-      "Giá đã duyệt kỳ trước",
-      "Ghi chú của NCC",
-    ];
+    revalidatePath("/so-sanh");
 
-    // Add headers with styling
-    const headerRow = worksheet.addRow(headers);
-    headerRow.eachCell((cell) => {
-      cell.font = { bold: true };
-      cell.fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb: "FFE6E6FA" },
-      };
-      cell.border = {
-        top: { style: "thin" },
-        left: { style: "thin" },
-        bottom: { style: "thin" },
-        right: { style: "thin" },
-      };
-    });
+    return { success: `Đã cập nhật quy tắc "${changes.name ?? existingRule.name}"` };
+  } catch (error) {
+    console.error("Error in updateTargetPriceRule:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi cập nhật quy tắc giá mục tiêu"
+    );
+  }
+}
 
-    // Add data rows
-    targetPriceData.forEach((item) => {
-      const row = worksheet.addRow([
-        item.productCode,
-        item.productName,
-        item.unit,
-        item.quantity,
-        item.currentBestPrice,
-        item.bestSupplier,
-        item.targetPrice,
-        item.previousApprovedPrice,
-        item.notes,
-      ]);
+/**
+ * Delete a target price rule
+ */
+export async function deleteTargetPriceRule(
+  id: number
+): Promise<{ success: string }> {
+  try {
+    const [existingRule] = await db
+      .select()
+      .from(targetPriceRules)
+      .where(eq(targetPriceRules.id, id))
+      .limit(1);
 
-      // Add borders to data cells
-      row.eachCell((cell) => {
-        cell.border = {
-          top: { style: "thin" },
-          left: { style: "thin" },
-          bottom: { style: "thin" },
-          right: { style: "thin" },
-        };
-      });
-    });
+    if (!existingRule) {
+      throw new Error("Không tìm thấy quy tắc giá mục tiêu");
+    }
 
-    // Auto-fit columns
-    worksheet.columns.forEach((column) => {
-      if (column.header) {
-        const maxLength = Math.max(
-          column.header.toString().length,
-          ...worksheet
-            .getColumn(column.letter)
-            .values.slice(1) // Skip header
-            .map((val) => (val ? val.toString().length : 0))
-        );
-        column.width = Math.min(Math.max(maxLength + 2, 10), 50);
-      }
-    });
+    await checkManagerRole(existingRule.region ? [existingRule.region] : []);
 
-    // 3. Generate file buffer and return as Blob
-    const buffer = await workbook.xlsx.writeBuffer();
+    await db.delete(targetPriceRules).where(eq(targetPriceRules.id, id));
 
-    console.log(
-      `[exportTargetPriceFile] Generated Excel file with ${targetPriceData.length} products`
-    );
+    revalidatePath("/so-sanh");
 
-    // Return as Blob for direct download
-    return new Blob([buffer], {
-      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    });
+    return { success: `Đã xóa quy tắc "${existingRule.name}"` };
   } catch (error) {
-    console.error("Error in exportTargetPriceFile:", error);
+    console.error("Error in deleteTargetPriceRule:", error);
     throw new Error(
-      error instanceof Error ? error.message : "Lỗi khi xuất file giá mục tiêu"
+      error instanceof Error ? error.message : "Lỗi khi xóa quy tắc giá mục tiêu"
     );
   }
 }
 
 /**
- * Initiate batch negotiation and export target price files (one per supplier, zipped)
- * This combines two operations: batch negotiation + export separate Excel files per supplier
+ * Preview the target prices the negotiation export would send
  */
-export async function initiateBatchNegotiationAndExport(params: {
+export async function previewTargetPrices(params: {
   period: string;
   region: string;
   categories?: string[];
-}): Promise<{ success: true; downloadPath: string }> {
+}): Promise<TargetPricePreviewRow[]> {
   try {
-    console.log(
-      "[initiateBatchNegotiationAndExport] Starting with params:",
-      params
-    );
-
-    // Authorization check
-    await checkManagerRole();
+    const { period, region, categories } = ExportTargetPriceSchema.parse(params);
 
-    // Validate input
-    const validatedData = ExportTargetPriceSchema.parse(params);
-    const { period, region, categories } = validatedData;
+    await checkManagerRole([region]);
 
-    // Step 1: Get comparison matrix data first to identify quotations in current view
     const matrixData = await getComparisonMatrix({
       period,
       region,
       categories: categories || [],
     });
 
-    if (!matrixData || matrixData.availableSuppliers.length === 0) {
-      throw new Error("Không có dữ liệu nhà cung cấp để thực hiện");
-    }
-
-    if (!matrixData.products || matrixData.products.length === 0) {
-      throw new Error("Không có dữ liệu sản phẩm để xuất file");
-    }
-
-    // Step 2: Extract pending quotation IDs from matrixData
-    const pendingQuotationIds = matrixData.availableSuppliers
-      .filter(
-        (supplier) =>
-          supplier.quotationId &&
-          supplier.quotationId > 0 &&
-          supplier.quotationStatus === "pending"
-      )
-      .map((supplier) => supplier.quotationId!)
-      .filter((id, index, array) => array.indexOf(id) === index); // Remove duplicates
+    const targetPrices = await computeTargetPrices(matrixData, region);
 
-    console.log(
-      `[initiateBatchNegotiationAndExport] Found ${pendingQuotationIds.length} pending quotations from matrix data`
+    return [...targetPrices.values()];
+  } catch (error) {
+    console.error("Error in previewTargetPrices:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi xem trước giá mục tiêu"
     );
+  }
+}
 
-    // Step 3: Perform efficient batch status update using single UPDATE query
-    if (pendingQuotationIds.length > 0) {
-      await db
-        .update(quotations)
-        .set({
-          status: "negotiation",
-          updateDate: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(
-          and(
-            inArray(quotations.id, pendingQuotationIds),
-            eq(quotations.status, "pending") // Additional safety check
-          )
-        );
-
-      console.log(
-        `[initiateBatchNegotiationAndExport] Updated ${pendingQuotationIds.length} quotations to negotiation status`
-      );
-    } else {
-      console.log(
-        `[initiateBatchNegotiationAndExport] No pending quotations found to update`
-      );
-    }
+// ==================== AWARD OPTIMISATION ====================
 
-    // Step 4: Create a zip archive using archiver
-    const archive = archiver("zip", {
-      zlib: { level: 9 }, // Maximum compression
-    });
+/**
+ * Propose a cost-optimal award plan for a region
+ * Suppliers' own minimum order values override the requested default.
+ */
+export async function proposeAwardPlan(
+  params: z.input<typeof AwardOptimizationSchema>
+): Promise<AwardPlan> {
+  try {
+    const {
+      period,
+      region,
+      categories,
+      maxSuppliers,
+      minOrderValue,
+      incumbentSavingPercent,
+    } = AwardOptimizationSchema.parse(params);
 
-    // Step 5: Generate separate Excel file for each supplier
-    for (const supplier of matrixData.availableSuppliers) {
-      console.log(
-        `[initiateBatchNegotiationAndExport] Generating Excel for supplier: ${supplier.code}`
-      );
+    await checkManagerRole([region]);
 
-      // Filter products that this supplier has quoted
-      const supplierProducts = matrixData.products.filter(
-        (product) => product.suppliers[supplier.id] !== undefined
-      );
+    const matrixData = await getComparisonMatrix({
+      period,
+      region,
+      categories: categories || [],
+    });
 
-      if (supplierProducts.length === 0) {
-        console.log(
-          `[initiateBatchNegotiationAndExport] Supplier ${supplier.code} has no products, skipping`
-        );
-        continue;
+    const supplierIds = matrixData.suppliers.map((supplier) => supplier.id);
+    const supplierMinimums =
+      supplierIds.length > 0
+        ? await db
+            .select({
+              id: suppliers.id,
+              minOrderValue: suppliers.minOrderValue,
+            })
+            .from(suppliers)
+            .where(inArray(suppliers.id, supplierIds))
+        : [];
+
+    const supplierMinOrderValues: Record<number, number> = {};
+    for (const supplier of supplierMinimums) {
+      if (supplier.minOrderValue) {
+        supplierMinOrderValues[supplier.id] = parseFloat(supplier.minOrderValue);
       }
+    }
 
-      // Create a new workbook for this supplier
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet("Target Prices");
-
-      // Set up column headers
-      const headers = [
-        "Mã sản phẩm",
-        "Tên sản phẩm",
-        "Quy cách",
-        "Đơn vị",
-        "Giá mục tiêu",
-      ];
-
-      // Add headers with styling
-      const headerRow = worksheet.addRow(headers);
-      headerRow.eachCell((cell) => {
-        cell.font = { bold: true };
-        cell.fill = {
-          type: "pattern",
-          pattern: "solid",
-          fgColor: { argb: "FFE6E6FA" },
-        };
-        cell.border = {
-          top: { style: "thin" },
-          left: { style: "thin" },
-          bottom: { style: "thin" },
-          right: { style: "thin" },
-        };
-      });
-
-      // Add data rows for this supplier's products
-      supplierProducts.forEach((product) => {
-        const supplierData = product.suppliers[supplier.id];
-        const targetPrice = supplierData?.pricePerUnit || product.bestPrice || 0;
-
-        const rowData = [
-          product.productCode || "",
-          product.productName || "",
-          product.specification || "",
-          product.unit || "",
-          targetPrice,
-        ];
+    const plan = optimizeSupplierAwards(matrixData, {
+      maxSuppliers,
+      minOrderValue,
+      supplierMinOrderValues,
+      incumbentSavingPercent,
+    });
 
-        const row = worksheet.addRow(rowData);
+    console.log(
+      `[proposeAwardPlan] ${region} ${period}: ${plan.suppliers.length} suppliers (${plan.method}), total ${plan.totalCost}`
+    );
 
-        // Apply formatting to data cells
-        row.eachCell((cell, colNumber) => {
-          cell.border = {
-            top: { style: "thin" },
-            left: { style: "thin" },
-            bottom: { style: "thin" },
-            right: { style: "thin" },
-          };
+    return plan;
+  } catch (error) {
+    console.error("Error in proposeAwardPlan:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi đề xuất phương án phân bổ"
+    );
+  }
+}
 
-          // Format price column (column 5) as number with thousand separators
-          if (colNumber === 5 && typeof cell.value === "number") {
-            cell.numFmt = "#,##0";
-          }
-        });
-      });
+// ==================== AWARD ALLOCATIONS ====================
 
-      // Auto-fit columns
-      worksheet.columns.forEach((column) => {
-        if (column.header) {
-          const maxLength = Math.max(
-            column.header.toString().length,
-            ...worksheet
-              .getColumn(column.letter)
-              .values.slice(1)
-              .map((val) => (val ? val.toString().length : 0))
-          );
-          column.width = Math.min(Math.max(maxLength + 2, 10), 50);
-        }
-      });
+/**
+ * Save the split award of one product in a region and period
+ * Replaces the existing allocation; an empty list removes it.
+ */
+export async function saveAwardAllocations(
+  data: z.input<typeof SaveAwardAllocationsSchema>
+): Promise<{ success: string }> {
+  try {
+    const { period, region, productId, allocations } =
+      SaveAwardAllocationsSchema.parse(data);
 
-      // Generate Excel file buffer
-      const buffer = await workbook.xlsx.writeBuffer();
+    const user = await checkManagerRole([region]);
 
-      // Add to zip archive with unique filename
-      const fileName = `${period}_${region}_${supplier.code}.xlsx`;
-      archive.append(Buffer.from(buffer), { name: fileName });
+    // Step 1: Every allocated supplier must have a priced quote for the product
+    const supplierIds = allocations.map((allocation) => allocation.supplierId);
+    if (supplierIds.length > 0) {
+      const quotedSuppliers = await db
+        .select({ supplierId: quotations.supplierId })
+        .from(quoteItems)
+        .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
+        .where(
+          and(
+            eq(quotations.period, period),
+            eq(quotations.region, region),
+            ne(quotations.status, "cancelled"),
+            eq(quoteItems.productId, productId),
+            inArray(quotations.supplierId, supplierIds),
+            sql`COALESCE(${quoteItems.approvedPrice}, ${quoteItems.negotiatedPrice}, ${quoteItems.initialPrice}) > 0`
+          )
+        );
 
-      console.log(
-        `[initiateBatchNegotiationAndExport] Added ${fileName} to archive with ${supplierProducts.length} products`
-      );
+      const quotedIds = new Set(quotedSuppliers.map((row) => row.supplierId));
+      const missingIds = supplierIds.filter((id) => !quotedIds.has(id));
+      if (missingIds.length > 0) {
+        throw new Error(
+          `Nhà cung cấp chưa báo giá sản phẩm trong kỳ này: ${missingIds.join(", ")}`
+        );
+      }
     }
 
-    // Step 6: Finalize the archive
-    archive.finalize();
-
-    // Step 7: Save zip to temporary directory
-    const timestamp = Date.now();
-    const zipFileName = `GiaMucTieu_${period}_${region}_${timestamp}.zip`;
-    const zipFilePath = join(
-      process.cwd(),
-      "public",
-      "tmp",
-      zipFileName
+    // Step 2: Normalise shares against the regional demand
+    const demandQuantity = await getRegionalDemandQuantity(productId, period, region);
+    const { allocations: normalized, errors } = normalizeAwardAllocations(
+      allocations,
+      demandQuantity
     );
 
-    // Collect archive data into buffer
-    const chunks: Buffer[] = [];
-    archive.on("data", (chunk: Buffer) => chunks.push(chunk));
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "));
+    }
 
-    await new Promise<void>((resolve, reject) => {
-      archive.on("end", () => {
-        const zipBuffer = Buffer.concat(chunks);
-        writeFile(zipFilePath, zipBuffer)
-          .then(() => resolve())
-          .catch(reject);
-      });
-      archive.on("error", reject);
+    // Step 3: Replace the product's allocation
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(awardAllocations)
+        .where(
+          and(
+            eq(awardAllocations.productId, productId),
+            eq(awardAllocations.region, region),
+            eq(awardAllocations.period, period)
+          )
+        );
+
+      if (normalized.length > 0) {
+        await tx.insert(awardAllocations).values(
+          normalized.map((allocation) => ({
+            productId,
+            supplierId: allocation.supplierId,
+            region,
+            period,
+            sharePercent: allocation.sharePercent.toString(),
+            quantity: allocation.quantity.toString(),
+            createdBy: user.id,
+          }))
+        );
+      }
     });
 
     console.log(
-      `[initiateBatchNegotiationAndExport] Saved zip file to: ${zipFilePath}`
+      `[saveAwardAllocations] Product ${productId} ${region} ${period}: ${normalized.length} suppliers`
     );
 
-    // Revalidate relevant pages
     revalidatePath("/so-sanh");
-    revalidatePath("/bao-gia");
+    revalidatePath("/bang-gia");
 
-    // Return download path for client-side download
     return {
-      success: true,
-      downloadPath: `/tmp/${zipFileName}`,
+      success:
+        normalized.length > 0
+          ? `Đã phân bổ sản phẩm cho ${normalized.length} nhà cung cấp`
+          : "Đã xóa phân bổ - sản phẩm theo giá tốt nhất",
     };
   } catch (error) {
-    console.error("Error in initiateBatchNegotiationAndExport:", error);
+    console.error("Error in saveAwardAllocations:", error);
     throw new Error(
-      error instanceof Error
-        ? error.message
-        : "Lỗi khi thực hiện đàm phán hàng loạt và xuất file"
+      error instanceof Error ? error.message : "Lỗi khi lưu phân bổ nhà cung cấp"
     );
   }
 }
 
 /**
- * Approve multiple quotations with price finalization
- * Uses database transaction to ensure atomicity of status update and price finalization
+ * Total demand of a product over the region's active kitchens
+ * Falls back to the product's base quantity when no kitchen ordered it.
  */
-export async function approveMultipleQuotations(
-  data: z.infer<typeof BatchNegotiationSchema>
-): Promise<{
-  success: string;
-  approvedQuotations: number;
-  affectedSuppliers: string[];
-}> {
-  try {
-    console.log(
-      "[approveMultipleQuotations] Starting approval process with:",
-      data
-    );
+async function getRegionalDemandQuantity(
+  productId: number,
+  period: string,
+  region: string
+): Promise<number> {
+  const demand = (await getRegionalKitchenDemands(period, region, [productId])).get(productId);
 
-    // Authorization check - ensure user has approval permissions
+  if (demand && demand.total > 0) {
+    return demand.total;
+  }
+
+  const [product] = await db
+    .select({ baseQuantity: products.baseQuantity })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1);
+
+  return Number(product?.baseQuantity) || 1;
+}
+
+// ==================== APPROVAL REQUESTS ====================
+
+/**
+ * Get approval requests for the approvals inbox
+ * Pending requests are flagged with whether the current user may decide them.
+ */
+export async function getApprovalRequests(
+  filters: z.infer<typeof ApprovalRequestFiltersSchema>
+): Promise<ApprovalRequestEntry[]> {
+  try {
     const user = await checkApprovalRole();
 
-    // Validate input
-    const validatedData = BatchNegotiationSchema.parse(data);
-    const { quotationIds } = validatedData;
+    const { status } = ApprovalRequestFiltersSchema.parse(filters);
 
-    if (quotationIds.length === 0) {
-      throw new Error("Danh sách báo giá không được để trống");
+    const permittedRegions = await getPermittedRegions(user.id);
+    if (permittedRegions !== null && permittedRegions.length === 0) {
+      return [];
     }
 
-    console.log(
-      `[approveMultipleQuotations] Processing ${quotationIds.length} quotation IDs`
-    );
+    const requester = alias(users, "requester");
+    const decider = alias(users, "decider");
 
-    // Get quotations that are eligible for approval
-    const quotationsToApprove = await db
+    const conditions = [
+      status === "pending"
+        ? eq(approvalRequests.status, "pending")
+        : ne(approvalRequests.status, "pending"),
+    ];
+    if (permittedRegions !== null) {
+      conditions.push(inArray(quotations.region, permittedRegions));
+    }
+
+    const rows = await db
       .select({
-        id: quotations.id,
-        supplierId: quotations.supplierId,
+        id: approvalRequests.id,
+        quotationId: quotations.id,
+        quotationCode: quotations.quotationId,
         supplierCode: suppliers.supplierCode,
         supplierName: suppliers.name,
-        status: quotations.status,
         period: quotations.period,
         region: quotations.region,
+        totalValue: approvalRequests.totalValue,
+        approvalLevel: approvalRequests.approvalLevel,
+        status: approvalRequests.status,
+        requestComment: approvalRequests.requestComment,
+        requestedByName: requester.name,
+        createdAt: approvalRequests.createdAt,
+        decidedByName: decider.name,
+        decidedAt: approvalRequests.decidedAt,
+        decisionComment: approvalRequests.decisionComment,
       })
-      .from(quotations)
+      .from(approvalRequests)
+      .innerJoin(quotations, eq(approvalRequests.quotationId, quotations.id))
       .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
-      .where(
-        and(
-          inArray(quotations.id, quotationIds),
-          inArray(quotations.status, ["pending", "negotiation"]) // Safety check - only approve quotations in valid statuses
-        )
-      );
+      .leftJoin(requester, eq(approvalRequests.requestedBy, requester.id))
+      .leftJoin(decider, eq(approvalRequests.decidedBy, decider.id))
+      .where(and(...conditions))
+      .orderBy(
+        status === "pending"
+          ? approvalRequests.createdAt
+          : desc(approvalRequests.decidedAt)
+      )
+      .limit(200);
 
-    if (quotationsToApprove.length === 0) {
-      throw new Error(
-        "Không tìm thấy báo giá hợp lệ để phê duyệt (chỉ có thể phê duyệt báo giá ở trạng thái 'pending' hoặc 'negotiation')"
-      );
-    }
+    const userRoles = await getUserRoles(user.id);
 
-    console.log(
-      `[approveMultipleQuotations] Found ${quotationsToApprove.length} valid quotations for approval`
+    return rows.map((row) => {
+      const band = getApprovalBandByLevel(row.approvalLevel);
+
+      return {
+        ...row,
+        totalValue: Number(row.totalValue),
+        approvalLevelLabel: band.label,
+        status: row.status as ApprovalRequestStatus,
+        canDecide:
+          row.status === "pending" && canSignOffBand(userRoles, band),
+      };
+    });
+  } catch (error) {
+    console.error("Error in getApprovalRequests:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải danh sách yêu cầu phê duyệt"
     );
+  }
+}
 
-    // Extract quotation IDs for efficient batch update
-    const validQuotationIds = quotationsToApprove.map((q) => q.id);
+/**
+ * Sign off a pending approval request
+ * Finalizes the proposed prices and writes them to price history.
+ */
+export async function approveApprovalRequest(
+  data: z.infer<typeof ApproveApprovalRequestSchema>
+): Promise<{ success: string }> {
+  try {
+    const user = await checkApprovalRole();
 
-    // Execute approval in a transaction to ensure data integrity
+    const { id, comment } = ApproveApprovalRequestSchema.parse(data);
+
+    const request = await getPendingApprovalRequest(id, user.id);
+
+    // Step 1: Mark the request approved (guards against concurrent decisions)
     await db.transaction(async (tx) => {
-      // STEP 1: Update quotations status to 'approved'
-      await tx
-        .update(quotations)
+      const decided = await tx
+        .update(approvalRequests)
         .set({
           status: "approved",
-          updateDate: new Date(),
+          decidedBy: user.id,
+          decidedAt: new Date(),
+          decisionComment: comment?.trim() || null,
           updatedAt: new Date(),
         })
         .where(
           and(
-            inArray(quotations.id, validQuotationIds),
-            inArray(quotations.status, ["pending", "negotiation"])
+            eq(approvalRequests.id, id),
+            eq(approvalRequests.status, "pending")
           )
-        );
-
-      console.log(
-        `[approveMultipleQuotations] STEP 1: Updated ${quotationsToApprove.length} quotations to approved status`
-      );
+        )
+        .returning({ id: approvalRequests.id });
 
-      // STEP 2: Finalize prices in quote_items
-      // Set approved_price = COALESCE(negotiated_price, initial_price)
-      await tx
-        .update(quoteItems)
-        .set({
-          approvedPrice: sql`COALESCE(${quoteItems.negotiatedPrice}, ${quoteItems.initialPrice})`,
-          approvedAt: new Date(),
-          approvedBy: user.id,
-        })
-        .where(inArray(quoteItems.quotationId, validQuotationIds));
+      if (decided.length === 0) {
+        throw new Error("Yêu cầu phê duyệt đã được xử lý");
+      }
 
-      console.log(
-        `[approveMultipleQuotations] STEP 2: Finalized approved prices for all quote items in ${quotationsToApprove.length} quotations`
-      );
+      // Step 2: Finalize the quotation and log approved prices
+      await finalizeQuotationApprovals(tx, [request.quotation], user.id);
+    });
 
-      // STEP 3: Insert approved prices into price_history table for trend analysis
-      // This is CRITICAL for the Price Trends feature to work correctly
-      console.log(
-        `[approveMultipleQuotations] STEP 3: Inserting approved prices into price_history...`
-      );
+    revalidatePath("/phe-duyet");
+    revalidatePath("/so-sanh");
+    revalidatePath("/bao-gia");
+    revalidatePath("/bang-gia");
 
-      // Get all quote items with their newly approved prices
-      const approvedItems = await tx
-        .select({
-          productId: quoteItems.productId,
-          quotationId: quoteItems.quotationId,
-          approvedPrice: quoteItems.approvedPrice,
-          negotiatedPrice: quoteItems.negotiatedPrice,
-          initialPrice: quoteItems.initialPrice,
-        })
-        .from(quoteItems)
-        .where(inArray(quoteItems.quotationId, validQuotationIds));
+    return {
+      success: `Đã phê duyệt báo giá của ${request.supplierName}`,
+    };
+  } catch (error) {
+    console.error("Error in approveApprovalRequest:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi phê duyệt yêu cầu"
+    );
+  }
+}
 
-      // Build price history records for batch insert
-      const priceHistoryRecords = [];
-      for (const item of approvedItems) {
-        // Get quotation details for this item
-        const quotation = quotationsToApprove.find(
-          (q) => q.id === item.quotationId
-        );
+/**
+ * Reject a pending approval request
+ * Clears the proposed prices and returns the quotation to negotiation.
+ */
+export async function rejectApprovalRequest(
+  data: z.infer<typeof RejectApprovalRequestSchema>
+): Promise<{ success: string }> {
+  try {
+    const user = await checkApprovalRole();
 
-        if (!quotation) continue;
+    const { id, comment } = RejectApprovalRequestSchema.parse(data);
 
-        // Calculate final approved price (same logic as STEP 2)
-        const finalPrice =
-          item.approvedPrice ||
-          item.negotiatedPrice ||
-          item.initialPrice;
+    const request = await getPendingApprovalRequest(id, user.id);
 
-        if (finalPrice && Number(finalPrice) > 0) {
-          priceHistoryRecords.push({
-            productId: item.productId,
-            supplierId: quotation.supplierId,
-            period: quotation.period,
-            price: finalPrice,
-            priceType: "approved" as const,
-            region: quotation.region,
-          });
-        }
-      }
+    await db.transaction(async (tx) => {
+      // Step 1: Mark the request rejected (guards against concurrent decisions)
+      const decided = await tx
+        .update(approvalRequests)
+        .set({
+          status: "rejected",
+          decidedBy: user.id,
+          decidedAt: new Date(),
+          decisionComment: comment,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(approvalRequests.id, id),
+            eq(approvalRequests.status, "pending")
+          )
+        )
+        .returning({ id: approvalRequests.id });
 
-      // Batch insert all price history records
-      if (priceHistoryRecords.length > 0) {
-        await tx.insert(priceHistory).values(priceHistoryRecords);
-        console.log(
-          `[approveMultipleQuotations] STEP 3: Inserted ${priceHistoryRecords.length} records into price_history`
-        );
-      } else {
-        console.log(
-          `[approveMultipleQuotations] STEP 3: No valid prices to insert into price_history`
-        );
+      if (decided.length === 0) {
+        throw new Error("Yêu cầu phê duyệt đã được xử lý");
       }
-    });
 
-    console.log(
-      `[approveMultipleQuotations] Transaction completed successfully`
-    );
+      // Step 2: Drop the proposed prices
+      await tx
+        .update(quoteItems)
+        .set({
+          approvedPrice: null,
+          approvedRound: null,
+          rejectedAt: null,
+          rejectedBy: null,
+          rejectionReason: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(quoteItems.quotationId, request.quotation.id));
 
-    // Get affected supplier names for response
-    const affectedSuppliers = [
-      ...new Set(quotationsToApprove.map((q) => q.supplierName)),
-    ];
+      // Step 3: Return the quotation to negotiation
+      await tx
+        .update(quotations)
+        .set({
+          status: "negotiation",
+          updateDate: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(quotations.id, request.quotation.id));
+    });
 
-    // Revalidate relevant pages to refresh UI
+    revalidatePath("/phe-duyet");
     revalidatePath("/so-sanh");
     revalidatePath("/bao-gia");
 
-    const result = {
-      success: `Đã phê duyệt ${quotationsToApprove.length} báo giá từ ${affectedSuppliers.length} nhà cung cấp`,
-      approvedQuotations: quotationsToApprove.length,
-      affectedSuppliers,
+    return {
+      success: `Đã từ chối báo giá của ${request.supplierName}`,
     };
-
-    console.log(`[approveMultipleQuotations] Completed successfully:`, result);
-    return result;
   } catch (error) {
-    console.error("Error in approveMultipleQuotations:", error);
+    console.error("Error in rejectApprovalRequest:", error);
     throw new Error(
-      error instanceof Error
-        ? error.message
-        : "Lỗi khi phê duyệt báo giá hàng loạt"
+      error instanceof Error ? error.message : "Lỗi khi từ chối yêu cầu phê duyệt"
     );
   }
 }
 
+/**
+ * Load a pending approval request the user may decide
+ * Checks region access and that the user's roles cover the request's band.
+ */
+async function getPendingApprovalRequest(id: number, userId: number) {
+  const [request] = await db
+    .select({
+      id: approvalRequests.id,
+      status: approvalRequests.status,
+      approvalLevel: approvalRequests.approvalLevel,
+      supplierName: suppliers.name,
+      quotation: {
+        id: quotations.id,
+        supplierId: quotations.supplierId,
+        period: quotations.period,
+        region: quotations.region,
+      },
+    })
+    .from(approvalRequests)
+    .innerJoin(quotations, eq(approvalRequests.quotationId, quotations.id))
+    .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
+    .where(eq(approvalRequests.id, id))
+    .limit(1);
+
+  if (!request) {
+    throw new Error("Không tìm thấy yêu cầu phê duyệt");
+  }
+
+  await requireRegionAccess(userId, [request.quotation.region]);
+
+  if (request.status !== "pending") {
+    throw new Error("Yêu cầu phê duyệt đã được xử lý");
+  }
+
+  await assertPeriodsAllowApproval([request.quotation.period]);
+
+  const band = getApprovalBandByLevel(request.approvalLevel);
+  if (!canSignOffBand(await getUserRoles(userId), band)) {
+    throw new Error(getSignOffDeniedMessage(band));
+  }
+
+  return request;
+}
+
+/**
+ * Block approval decisions on quotations of closed periods
+ */
+async function assertPeriodsAllowApproval(periodCodes: string[]): Promise<void> {
+  const periodMap = await getPeriodsByCodes(periodCodes);
+
+  for (const code of new Set(periodCodes)) {
+    const reason = getApprovalBlockReason(periodMap.get(code));
+    if (reason) {
+      throw new Error(reason);
+    }
+  }
+}
+
 /**
  * Helper function to check approval role (higher permission than manager)
+ * Team-restricted users are limited to the regions of their teams.
  */
-async function checkApprovalRole() {
+async function checkApprovalRole(regions: string[] = []) {
   const user = await getUser();
 
   if (!user) {
@@ -2121,20 +2490,7 @@ async function checkApprovalRole() {
     );
   }
 
-  // TODO: Implement proper role checking for approval-level operations
-  // This should check for ADMIN_SUPER_ADMIN or higher roles
-  // For now, assume all authenticated users have access
+  await requirePermission(user.id, "canApproveQuotes", regions);
 
   return user;
 }
-
-// Helper function placeholder (would save to actual temp storage in production)
-async function saveToTempStorage(
-  buffer: Buffer,
-  fileName: string
-): Promise<string> {
-  // In a real implementation, this would save to AWS S3, local storage, etc.
-  // For now, return a data URL
-  const base64Data = Buffer.from(buffer).toString("base64");
-  return `data:application/vnd.openxmlformats-officedocument.spreadsheetml.sheet;base64,${base64Data}`;
-}
@@ -0,0 +1,542 @@
+"use server";
+
+import { z } from "zod";
+import { createHash, randomBytes } from "crypto";
+import { revalidatePath } from "next/cache";
+import { db } from "@/lib/db/drizzle";
+import {
+  supplierPortalLinks,
+  supplierServiceScopes,
+  suppliers,
+  products,
+  teams,
+  quotations,
+  quoteItems,
+  kitchenPeriodDemands,
+  type SupplierPortalLink,
+} from "@/lib/db/schema";
+import { getUser, getPeriodsByCodes } from "@/lib/db/queries";
+import { saveParsedQuotation } from "@/lib/db/quotation-import";
+import { eq, and, isNull, desc, gt, sql } from "drizzle-orm";
+import { requirePermission } from "@/lib/auth/permissions";
+import { ParsedQuotationSchema } from "@/lib/utils/excel-parser";
+import { getImportBlockReason } from "@/lib/utils/period-lifecycle";
+import {
+  CreateSupplierPortalLinkSchema,
+  SupplierPortalLinkFiltersSchema,
+  RevokeSupplierPortalLinkSchema,
+  SubmitSupplierPortalQuotationSchema,
+  type SupplierPortalLinkEntry,
+  type SupplierPortalProduct,
+  type SupplierPortalQuotation,
+  type SupplierPortalSubmitResult,
+} from "@/lib/types/supplier-portal.types";
+
+// Portal links without a period submission deadline stay valid for 14 days
+const DEFAULT_LINK_VALIDITY_DAYS = 14;
+
+// Quotation statuses a supplier may still overwrite through the portal
+const EDITABLE_QUOTATION_STATUSES = ["pending", "negotiation"];
+
+const INVALID_LINK_MESSAGE = "Liên kết báo giá không hợp lệ hoặc đã hết hạn";
+
+// ==================== AUTHORIZATION HELPERS ====================
+
+/**
+ * Require permission to issue portal links (same as negotiating quotations)
+ * Team-restricted users are limited to the regions of their teams.
+ */
+async function checkManagerRole(regions: string[] = []) {
+  const user = await getUser();
+
+  if (!user) {
+    throw new Error(
+      "Unauthorized: Bạn cần đăng nhập để thực hiện hành động này"
+    );
+  }
+
+  await requirePermission(user.id, "canNegotiateQuotes", regions);
+
+  return user;
+}
+
+function hashPortalToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Resolve a portal token to its active link
+ * Suppliers have no account - the token is their only credential.
+ */
+async function resolvePortalLink(token: string): Promise<SupplierPortalLink> {
+  const [link] = await db
+    .select()
+    .from(supplierPortalLinks)
+    .where(
+      and(
+        eq(supplierPortalLinks.tokenHash, hashPortalToken(token)),
+        isNull(supplierPortalLinks.revokedAt),
+        gt(supplierPortalLinks.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  if (!link) {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+
+  return link;
+}
+
+/**
+ * Products the supplier is asked to quote: the active demand of the kitchens
+ * in the link's region that the supplier serves (supplierServiceScopes)
+ */
+async function getPortalProducts(
+  link: SupplierPortalLink
+): Promise<Omit<SupplierPortalProduct, "price" | "vatRate" | "notes">[]> {
+  const rows = await db
+    .select({
+      productId: products.id,
+      productCode: products.productCode,
+      productName: products.name,
+      specification: products.specification,
+      unit: products.unit,
+      category: products.category,
+      quantity: sql<string>`SUM(${kitchenPeriodDemands.quantity})`,
+      kitchenCount: sql<number>`COUNT(DISTINCT ${kitchenPeriodDemands.teamId})`,
+    })
+    .from(kitchenPeriodDemands)
+    .innerJoin(teams, eq(kitchenPeriodDemands.teamId, teams.id))
+    .innerJoin(
+      supplierServiceScopes,
+      and(
+        eq(supplierServiceScopes.teamId, teams.id),
+        eq(supplierServiceScopes.supplierId, link.supplierId),
+        eq(supplierServiceScopes.isActive, true)
+      )
+    )
+    .innerJoin(products, eq(kitchenPeriodDemands.productId, products.id))
+    .where(
+      and(
+        eq(kitchenPeriodDemands.period, link.period),
+        eq(kitchenPeriodDemands.status, "active"),
+        eq(teams.region, link.region),
+        isNull(teams.deletedAt),
+        eq(products.status, "active"),
+        isNull(products.deletedAt)
+      )
+    )
+    .groupBy(products.id)
+    .orderBy(products.category, products.productCode);
+
+  return rows.map((row) => ({
+    ...row,
+    quantity: Number(row.quantity),
+    kitchenCount: Number(row.kitchenCount),
+  }));
+}
+
+async function getPortalQuotation(link: SupplierPortalLink) {
+  const [quotation] = await db
+    .select({ id: quotations.id, status: quotations.status })
+    .from(quotations)
+    .where(
+      and(
+        eq(quotations.supplierId, link.supplierId),
+        eq(quotations.period, link.period),
+        eq(quotations.region, link.region)
+      )
+    )
+    .limit(1);
+
+  return quotation;
+}
+
+/**
+ * Why the link's supplier cannot submit right now (null = submissions open)
+ */
+async function getPortalBlockReason(
+  link: SupplierPortalLink,
+  quotationStatus: string | undefined
+): Promise<string | null> {
+  const periodRecord = (await getPeriodsByCodes([link.period])).get(link.period);
+  const importBlockReason = getImportBlockReason(periodRecord);
+  if (importBlockReason) {
+    return importBlockReason;
+  }
+
+  if (quotationStatus && !EDITABLE_QUOTATION_STATUSES.includes(quotationStatus)) {
+    return "Báo giá của bạn đang được xét duyệt hoặc đã được phê duyệt - không thể cập nhật";
+  }
+
+  return null;
+}
+
+// ==================== STAFF ACTIONS ====================
+
+/**
+ * Issue a portal link for a supplier, period and region
+ * Earlier active links for the same scope are revoked. The plain token is only
+ * returned here, so the link must be copied now.
+ */
+export async function createSupplierPortalLink(
+  data: z.infer<typeof CreateSupplierPortalLinkSchema>
+): Promise<{ success: string; url: string; expiresAt: Date }> {
+  try {
+    // Step 1: Validate input and authorization
+    const { supplierId, period, region } =
+      CreateSupplierPortalLinkSchema.parse(data);
+    const user = await checkManagerRole([region]);
+
+    // Step 2: The supplier must exist and serve a kitchen in the region
+    const [supplier] = await db
+      .select({ id: suppliers.id, name: suppliers.name })
+      .from(suppliers)
+      .where(
+        and(
+          eq(suppliers.id, supplierId),
+          eq(suppliers.status, "active"),
+          isNull(suppliers.deletedAt)
+        )
+      )
+      .limit(1);
+
+    if (!supplier) {
+      throw new Error("Không tìm thấy nhà cung cấp đang hoạt động");
+    }
+
+    const [scope] = await db
+      .select({ id: supplierServiceScopes.id })
+      .from(supplierServiceScopes)
+      .innerJoin(teams, eq(supplierServiceScopes.teamId, teams.id))
+      .where(
+        and(
+          eq(supplierServiceScopes.supplierId, supplierId),
+          eq(supplierServiceScopes.isActive, true),
+          eq(teams.region, region)
+        )
+      )
+      .limit(1);
+
+    if (!scope) {
+      throw new Error(
+        `Nhà cung cấp ${supplier.name} chưa được phân công phục vụ bếp nào tại ${region}`
+      );
+    }
+
+    // Step 3: The period must still accept quotations
+    const periodRecord = (await getPeriodsByCodes([period])).get(period);
+    const importBlockReason = getImportBlockReason(periodRecord);
+    if (importBlockReason) {
+      throw new Error(importBlockReason);
+    }
+
+    // Step 4: Link expires with the submission deadline (or after the default validity)
+    const expiresAt =
+      periodRecord?.submissionDeadline ??
+      new Date(Date.now() + DEFAULT_LINK_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+    const token = randomBytes(32).toString("base64url");
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(supplierPortalLinks)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(supplierPortalLinks.supplierId, supplierId),
+            eq(supplierPortalLinks.period, period),
+            eq(supplierPortalLinks.region, region),
+            isNull(supplierPortalLinks.revokedAt)
+          )
+        );
+
+      await tx.insert(supplierPortalLinks).values({
+        supplierId,
+        period,
+        region,
+        tokenHash: hashPortalToken(token),
+        expiresAt,
+        createdBy: user.id,
+      });
+    });
+
+    revalidatePath("/bao-gia");
+
+    return {
+      success: `Đã tạo liên kết báo giá cho ${supplier.name}`,
+      url: `/cong-ncc/${token}`,
+      expiresAt,
+    };
+  } catch (error) {
+    console.error("Error in createSupplierPortalLink:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tạo liên kết báo giá"
+    );
+  }
+}
+
+/**
+ * List portal links issued for a period and region, newest first
+ */
+export async function getSupplierPortalLinks(
+  filters: z.infer<typeof SupplierPortalLinkFiltersSchema>
+): Promise<SupplierPortalLinkEntry[]> {
+  try {
+    const { period, region } = SupplierPortalLinkFiltersSchema.parse(filters);
+    await checkManagerRole([region]);
+
+    const rows = await db
+      .select({
+        id: supplierPortalLinks.id,
+        supplierId: supplierPortalLinks.supplierId,
+        supplierCode: suppliers.supplierCode,
+        supplierName: suppliers.name,
+        period: supplierPortalLinks.period,
+        region: supplierPortalLinks.region,
+        expiresAt: supplierPortalLinks.expiresAt,
+        revokedAt: supplierPortalLinks.revokedAt,
+        lastAccessedAt: supplierPortalLinks.lastAccessedAt,
+        submittedAt: supplierPortalLinks.submittedAt,
+        createdAt: supplierPortalLinks.createdAt,
+      })
+      .from(supplierPortalLinks)
+      .innerJoin(suppliers, eq(supplierPortalLinks.supplierId, suppliers.id))
+      .where(
+        and(
+          eq(supplierPortalLinks.period, period),
+          eq(supplierPortalLinks.region, region)
+        )
+      )
+      .orderBy(desc(supplierPortalLinks.createdAt));
+
+    const now = new Date();
+
+    return rows.map(({ revokedAt, ...row }) => ({
+      ...row,
+      status: revokedAt ? "revoked" : row.expiresAt <= now ? "expired" : "active",
+    }));
+  } catch (error) {
+    console.error("Error in getSupplierPortalLinks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải danh sách liên kết báo giá"
+    );
+  }
+}
+
+/**
+ * Revoke a portal link immediately
+ */
+export async function revokeSupplierPortalLink(
+  data: z.infer<typeof RevokeSupplierPortalLinkSchema>
+): Promise<{ success: string }> {
+  try {
+    const { id } = RevokeSupplierPortalLinkSchema.parse(data);
+
+    const [link] = await db
+      .select({ region: supplierPortalLinks.region })
+      .from(supplierPortalLinks)
+      .where(eq(supplierPortalLinks.id, id))
+      .limit(1);
+
+    if (!link) {
+      throw new Error("Không tìm thấy liên kết báo giá");
+    }
+
+    await checkManagerRole([link.region]);
+
+    await db
+      .update(supplierPortalLinks)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(supplierPortalLinks.id, id), isNull(supplierPortalLinks.revokedAt))
+      );
+
+    revalidatePath("/bao-gia");
+
+    return { success: "Đã thu hồi liên kết báo giá" };
+  } catch (error) {
+    console.error("Error in revokeSupplierPortalLink:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi thu hồi liên kết báo giá"
+    );
+  }
+}
+
+// ==================== SUPPLIER PORTAL ACTIONS ====================
+
+/**
+ * Load the portal form for a token: products in the supplier's service scope
+ * with their regional quantities, prefilled with the current quotation
+ */
+export async function getSupplierPortalQuotation(
+  token: string
+): Promise<SupplierPortalQuotation> {
+  try {
+    const link = await resolvePortalLink(token);
+
+    const [supplier] = await db
+      .select({ supplierCode: suppliers.supplierCode, name: suppliers.name })
+      .from(suppliers)
+      .where(eq(suppliers.id, link.supplierId))
+      .limit(1);
+
+    const periodRecord = (await getPeriodsByCodes([link.period])).get(link.period);
+    const quotation = await getPortalQuotation(link);
+    const portalProducts = await getPortalProducts(link);
+
+    // Prefill with the supplier's current prices
+    const currentItems = quotation
+      ? await db
+          .select({
+            productId: quoteItems.productId,
+            initialPrice: quoteItems.initialPrice,
+            negotiatedPrice: quoteItems.negotiatedPrice,
+            vatPercentage: quoteItems.vatPercentage,
+            notes: quoteItems.notes,
+          })
+          .from(quoteItems)
+          .where(eq(quoteItems.quotationId, quotation.id))
+      : [];
+    const currentItemMap = new Map(currentItems.map((item) => [item.productId, item]));
+
+    await db
+      .update(supplierPortalLinks)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(supplierPortalLinks.id, link.id));
+
+    return {
+      supplierCode: supplier?.supplierCode ?? "",
+      supplierName: supplier?.name ?? "",
+      period: link.period,
+      periodName: periodRecord?.name ?? null,
+      region: link.region,
+      submissionDeadline: periodRecord?.submissionDeadline ?? null,
+      linkExpiresAt: link.expiresAt,
+      quotationStatus: quotation?.status ?? null,
+      submittedAt: link.submittedAt,
+      blockReason: await getPortalBlockReason(link, quotation?.status),
+      products: portalProducts.map((product) => {
+        const current = currentItemMap.get(product.productId);
+        const currentPrice = current?.negotiatedPrice ?? current?.initialPrice;
+
+        return {
+          ...product,
+          price: currentPrice ? Number(currentPrice) : null,
+          vatRate: current?.vatPercentage ? Number(current.vatPercentage) : null,
+          notes: current?.notes ?? null,
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Error in getSupplierPortalQuotation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi tải báo giá"
+    );
+  }
+}
+
+/**
+ * Submit prices from the portal
+ * Builds the same parsed quotation as an Excel file and saves it through the
+ * shared import path, replacing a pending quotation or recording a new
+ * negotiation round.
+ */
+export async function submitSupplierPortalQuotation(
+  data: z.infer<typeof SubmitSupplierPortalQuotationSchema>
+): Promise<SupplierPortalSubmitResult> {
+  try {
+    // Step 1: Validate input and the link
+    const { token, items } = SubmitSupplierPortalQuotationSchema.parse(data);
+    const link = await resolvePortalLink(token);
+
+    const quotation = await getPortalQuotation(link);
+    const blockReason = await getPortalBlockReason(link, quotation?.status);
+    if (blockReason) {
+      throw new Error(blockReason);
+    }
+
+    // Step 2: Only products in the supplier's scope can be quoted
+    const productMap = new Map(
+      (await getPortalProducts(link)).map((product) => [product.productId, product])
+    );
+    const outOfScope = items.filter((item) => !productMap.has(item.productId));
+    if (outOfScope.length > 0) {
+      throw new Error("Một số sản phẩm không thuộc danh sách cần báo giá của bạn");
+    }
+
+    const [supplier] = await db
+      .select({ supplierCode: suppliers.supplierCode, name: suppliers.name })
+      .from(suppliers)
+      .where(eq(suppliers.id, link.supplierId))
+      .limit(1);
+
+    if (!supplier?.supplierCode) {
+      throw new Error("Nhà cung cấp chưa có mã - vui lòng liên hệ bộ phận thu mua");
+    }
+
+    // Step 3: Same structure and item validation as an imported Excel file
+    const parsed = ParsedQuotationSchema.safeParse({
+      info: {
+        period: link.period,
+        region: link.region,
+        supplierCode: supplier.supplierCode,
+        supplierName: supplier.name,
+        quoteDate: new Date().toISOString(),
+      },
+      items: items.map((item) => {
+        const product = productMap.get(item.productId)!;
+        return {
+          productCode: product.productCode,
+          productName: product.productName,
+          unit: product.unit,
+          quantity: product.quantity,
+          initialPrice: item.price,
+          vatRate: item.vatRate,
+          specification: product.specification ?? undefined,
+          notes: item.notes || undefined,
+        };
+      }),
+    });
+
+    if (!parsed.success) {
+      throw new Error(
+        `Dữ liệu báo giá không hợp lệ: ${parsed.error.errors.map((e) => e.message).join(", ")}`
+      );
+    }
+
+    // Step 4: Save through the shared import path
+    const saveResult = await saveParsedQuotation(parsed.data, {
+      period: link.period,
+      region: link.region,
+      overwrite: true,
+      userId: link.createdBy,
+      source: "supplier_portal",
+    });
+
+    if (!saveResult.saved) {
+      throw new Error(saveResult.errors.join("; "));
+    }
+
+    await db
+      .update(supplierPortalLinks)
+      .set({ submittedAt: new Date() })
+      .where(eq(supplierPortalLinks.id, link.id));
+
+    revalidatePath("/bao-gia");
+    revalidatePath("/so-sanh");
+
+    return {
+      success: saveResult.isUpdate
+        ? `Đã cập nhật báo giá với ${saveResult.totalItems} sản phẩm`
+        : `Đã gửi báo giá với ${saveResult.totalItems} sản phẩm`,
+      totalItems: saveResult.totalItems,
+      flaggedItems: saveResult.anomalyWarnings.length,
+    };
+  } catch (error) {
+    console.error("Error in submitSupplierPortalQuotation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Lỗi khi gửi báo giá"
+    );
+  }
+}
@@ -85,6 +85,7 @@ export async function createSupplier(values: CreateSupplierInput): Promise<Actio
       contactPerson: validatedData.contactPerson?.trim() || null,
       phone: validatedData.phone?.trim() || null,
       email: validatedData.email?.trim() || null,
+      minOrderValue: validatedData.minOrderValue?.trim() || null,
     };
 
     await db.insert(suppliers).values(insertData);
@@ -159,6 +160,7 @@ export async function updateSupplier(values: UpdateSupplierInput): Promise<Actio
       contactPerson: validatedData.contactPerson?.trim() || null,
       phone: validatedData.phone?.trim() || null,
       email: validatedData.email?.trim() || null,
+      minOrderValue: validatedData.minOrderValue?.trim() || null,
       updatedAt: new Date(),
     };
 
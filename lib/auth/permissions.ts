@@ -15,8 +15,11 @@ import {
   ROLE_PERMISSIONS,
   PermissionSet,
   Role,
+  PermissionAction,
   mergePermissions,
-  parseRole
+  parseRole,
+  getPermissionDeniedMessage,
+  getRegionDeniedMessage
 } from '@/lib/config/roles';
 
 // Re-export client-safe types and utilities for convenience
@@ -25,6 +28,7 @@ export {
   Level,
   ROLE_PERMISSIONS,
   type PermissionSet,
+  type PermissionAction,
   type Role,
   type QuoteMasterRole,
   type TemplateRole,
@@ -34,8 +38,11 @@ export {
   getRolesForDepartment,
   getHighestRoleInDepartment,
   hasPermission,
+  getPermissionDeniedMessage,
+  getRegionDeniedMessage,
   isAdmin,
-  hasProcurementAccess
+  hasProcurementAccess,
+  hasAccountingAccess
 } from '@/lib/config/roles';
 
 /**
@@ -110,6 +117,86 @@ export async function checkPermission(
   }
 }
 
+/**
+ * SERVER-ONLY: Get the regions a user may act on
+ *
+ * Returns null when the user is not team restricted (all regions allowed),
+ * otherwise the regions of the teams the user belongs to.
+ */
+export async function getPermittedRegions(
+  userId: number,
+  permissions?: PermissionSet
+): Promise<string[] | null> {
+  const userPermissions = permissions ?? await getUserPermissions(userId);
+  if (!userPermissions.teamRestricted) {
+    return null;
+  }
+
+  const userWithTeams = await getUserWithTeams(userId);
+  if (!userWithTeams) return [];
+
+  const regions = userWithTeams.teams
+    .map(tm => tm.team.region)
+    .filter((region): region is string => !!region);
+
+  return [...new Set(regions)];
+}
+
+/**
+ * SERVER-ONLY: Require a permission, optionally scoped to regions
+ *
+ * Throws a "Forbidden: ..." error when the user lacks the permission or, for
+ * team-restricted users, when any of the given regions is outside their teams.
+ */
+export async function requirePermission(
+  userId: number,
+  action: PermissionAction,
+  regions: string[] = []
+): Promise<PermissionSet> {
+  const permissions = await getUserPermissions(userId);
+
+  const permissionError = getPermissionDeniedMessage(permissions, action);
+  if (permissionError) {
+    throw new Error(permissionError);
+  }
+
+  await requireRegionAccess(userId, regions, permissions);
+
+  return permissions;
+}
+
+/**
+ * SERVER-ONLY: Require access to regions for team-restricted users
+ *
+ * Used after loading records by id, when their regions are only known then.
+ */
+export async function requireRegionAccess(
+  userId: number,
+  regions: string[],
+  permissions?: PermissionSet
+): Promise<void> {
+  const userPermissions = permissions ?? await getUserPermissions(userId);
+  if (regions.length === 0 || !userPermissions.teamRestricted) {
+    return;
+  }
+
+  const permittedRegions = await getPermittedRegions(userId, userPermissions);
+  const regionError = getRegionDeniedMessage(userPermissions, regions, permittedRegions);
+  if (regionError) {
+    throw new Error(regionError);
+  }
+}
+
+/**
+ * SERVER-ONLY: Get the roles a user holds across their teams
+ */
+export async function getUserRoles(userId: number): Promise<string[]> {
+  const userWithTeams = await getUserWithTeams(userId);
+  if (!userWithTeams) return [];
+
+  return [...new Set(userWithTeams.teams.map(tm => tm.role))];
+}
+
 /**
  * SERVER-ONLY: Check if user has any role in a department
  */
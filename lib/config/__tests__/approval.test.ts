@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getApprovalBands,
+  getApprovalBand,
+  getApprovalBandByLevel,
+  canSignOffBand
+} from '../approval';
+
+const THRESHOLD = 500_000_000;
+const bands = getApprovalBands(THRESHOLD);
+
+describe('Approval Bands', () => {
+  it('should keep totals up to the threshold in the first band', () => {
+    expect(getApprovalBand(0, bands).level).toBe(1);
+    expect(getApprovalBand(THRESHOLD, bands).level).toBe(1);
+  });
+
+  it('should require sign-off above the threshold', () => {
+    expect(getApprovalBand(THRESHOLD + 1, bands).level).toBe(2);
+  });
+
+  it('should fall back to the highest band for unknown levels', () => {
+    expect(getApprovalBandByLevel(99, bands).level).toBe(2);
+  });
+});
+
+describe('Band Sign-off', () => {
+  const [managerBand, adminBand] = bands;
+
+  it('should let any approver finalize the first band', () => {
+    expect(canSignOffBand(['PROCUREMENT_MANAGER'], managerBand)).toBe(true);
+  });
+
+  it('should require an admin role above the threshold', () => {
+    expect(canSignOffBand(['PROCUREMENT_MANAGER'], adminBand)).toBe(false);
+    expect(canSignOffBand(['PROCUREMENT_SUPER_ADMIN'], adminBand)).toBe(false);
+    expect(canSignOffBand(['ADMIN_MANAGER'], adminBand)).toBe(true);
+    expect(canSignOffBand(['owner'], adminBand)).toBe(true);
+  });
+
+  it('should accept any matching role across teams', () => {
+    expect(canSignOffBand(['PROCUREMENT_MANAGER', 'ADMIN_SUPER_ADMIN'], adminBand)).toBe(true);
+  });
+});
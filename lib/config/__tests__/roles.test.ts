@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ROLE_PERMISSIONS,
+  getPermissionDeniedMessage,
+  getRegionDeniedMessage,
+  type Role
+} from '../roles';
+
+// Roles allowed to negotiate and approve quotations
+const NEGOTIATOR_ROLES: Role[] = [
+  'owner',
+  'ADMIN_SUPER_ADMIN',
+  'ADMIN_MANAGER',
+  'PROCUREMENT_SUPER_ADMIN',
+  'PROCUREMENT_MANAGER'
+];
+const APPROVER_ROLES: Role[] = [
+  'owner',
+  'ADMIN_SUPER_ADMIN',
+  'ADMIN_MANAGER',
+  'PROCUREMENT_SUPER_ADMIN',
+  'PROCUREMENT_MANAGER'
+];
+
+const allRoles = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+describe('Quote Permission Checks', () => {
+  describe('canNegotiateQuotes', () => {
+    allRoles.forEach((role) => {
+      it(`should enforce negotiation permission for ${role}`, () => {
+        const message = getPermissionDeniedMessage(ROLE_PERMISSIONS[role], 'canNegotiateQuotes');
+
+        if (NEGOTIATOR_ROLES.includes(role)) {
+          expect(message).toBeNull();
+        } else {
+          expect(message).toBe('Forbidden: Bạn không có quyền đàm phán báo giá');
+        }
+      });
+    });
+  });
+
+  describe('canApproveQuotes', () => {
+    allRoles.forEach((role) => {
+      it(`should enforce approval permission for ${role}`, () => {
+        const message = getPermissionDeniedMessage(ROLE_PERMISSIONS[role], 'canApproveQuotes');
+
+        if (APPROVER_ROLES.includes(role)) {
+          expect(message).toBeNull();
+        } else {
+          expect(message).toBe('Forbidden: Bạn không có quyền phê duyệt báo giá');
+        }
+      });
+    });
+  });
+
+  it('should deny every action when permissions are missing', () => {
+    expect(getPermissionDeniedMessage(null, 'canViewQuotes')).toMatch(/^Forbidden:/);
+  });
+});
+
+describe('Region Restriction Checks', () => {
+  allRoles.forEach((role) => {
+    it(`should honour teamRestricted for ${role}`, () => {
+      const permissions = ROLE_PERMISSIONS[role];
+      const message = getRegionDeniedMessage(permissions, ['Hà Nội'], ['Hồ Chí Minh']);
+
+      if (permissions.teamRestricted) {
+        expect(message).toBe('Forbidden: Bạn không có quyền thao tác trên khu vực Hà Nội');
+      } else {
+        expect(message).toBeNull();
+      }
+    });
+  });
+
+  it('should allow team-restricted users inside their regions', () => {
+    expect(
+      getRegionDeniedMessage(ROLE_PERMISSIONS.KITCHEN_MANAGER, ['Hà Nội'], ['Hà Nội', 'Hải Phòng'])
+    ).toBeNull();
+  });
+
+  it('should list only the denied regions', () => {
+    expect(
+      getRegionDeniedMessage(ROLE_PERMISSIONS.member, ['Hà Nội', 'Đà Nẵng', 'Huế'], ['Hà Nội'])
+    ).toBe('Forbidden: Bạn không có quyền thao tác trên khu vực Đà Nẵng, Huế');
+  });
+
+  it('should allow all regions when permitted regions are unrestricted', () => {
+    expect(getRegionDeniedMessage(ROLE_PERMISSIONS.member, ['Hà Nội'], null)).toBeNull();
+  });
+});
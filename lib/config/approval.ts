@@ -0,0 +1,96 @@
+/**
+ * Client-Safe Approval Workflow Configuration
+ *
+ * Quotation approvals are routed by total approved value. Each amount band names
+ * the role patterns allowed to give the final sign-off (wildcards like 'ADMIN_*'
+ * are supported, see matchesRolePattern). A band without approver roles can be
+ * finalized directly by anyone holding canApproveQuotes.
+ *
+ * The sign-off threshold is read from APPROVAL_ADMIN_THRESHOLD (VND) on the server.
+ */
+
+import { matchesRolePattern } from '@/lib/permissions/navigation';
+
+export interface ApprovalBand {
+  level: number;
+  label: string;
+  minValue: number; // Band applies when total value is above this amount
+  approverRoles: string[]; // Role patterns allowed to sign off; empty = proposer finalizes
+}
+
+// Quotation statuses whose accepted items carry final approved prices
+export const APPROVED_QUOTATION_STATUSES = ['approved', 'partially_approved'] as const;
+
+// Default sign-off threshold: 500 million VND
+export const DEFAULT_APPROVAL_ADMIN_THRESHOLD = 500_000_000;
+
+export function getApprovalAdminThreshold(): number {
+  const configured = Number(process.env.APPROVAL_ADMIN_THRESHOLD);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_APPROVAL_ADMIN_THRESHOLD;
+}
+
+/**
+ * Amount bands ordered from lowest to highest
+ */
+export function getApprovalBands(
+  threshold: number = getApprovalAdminThreshold()
+): ApprovalBand[] {
+  return [
+    {
+      level: 1,
+      label: 'Trưởng phòng Thu mua',
+      minValue: 0,
+      approverRoles: [],
+    },
+    {
+      level: 2,
+      label: 'Ban Giám đốc',
+      minValue: threshold,
+      approverRoles: ['owner', 'ADMIN_SUPER_ADMIN', 'ADMIN_MANAGER'],
+    },
+  ];
+}
+
+/**
+ * Find the band that applies to a total approved value
+ */
+export function getApprovalBand(
+  totalValue: number,
+  bands: ApprovalBand[] = getApprovalBands()
+): ApprovalBand {
+  return bands.reduce(
+    (matched, band) => (totalValue > band.minValue ? band : matched),
+    bands[0]
+  );
+}
+
+/**
+ * Get a band by level (falls back to the highest band for unknown levels)
+ */
+export function getApprovalBandByLevel(
+  level: number,
+  bands: ApprovalBand[] = getApprovalBands()
+): ApprovalBand {
+  return bands.find(band => band.level === level) ?? bands[bands.length - 1];
+}
+
+/**
+ * Check if any of the user's roles may sign off a band
+ * Bands without approver roles need no separate sign-off.
+ */
+export function canSignOffBand(roles: string[], band: ApprovalBand): boolean {
+  if (band.approverRoles.length === 0) return true;
+
+  return roles.some(role =>
+    band.approverRoles.some(pattern => matchesRolePattern(role, pattern))
+  );
+}
+
+/**
+ * Error message for users who may not sign off a band
+ */
+export function getSignOffDeniedMessage(band: ApprovalBand): string {
+  return `Forbidden: Báo giá cần được ${band.label} phê duyệt`;
+}
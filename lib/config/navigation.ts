@@ -50,9 +50,17 @@ export const navigationConfig: NavigationConfig = {
   },
 
   // Quote Management section - restricted to procurement and admin roles
+  // (kitchens only see their demand entry, accounting the invoice check)
   quoteManagement: {
     label: 'QUẢN LÝ BÁO GIÁ',
     items: [
+      {
+        href: '/nhu-cau',
+        label: 'Nhu cầu bếp',
+        icon: 'ClipboardList',
+        roles: ['ADMIN_*', 'PROCUREMENT_*', 'KITCHEN_*'],
+        description: 'Nhập và gửi nhu cầu sản phẩm của bếp theo kỳ'
+      },
       {
         href: '/bao-gia',
         label: 'Cập nhật',
@@ -73,6 +81,48 @@ export const navigationConfig: NavigationConfig = {
         icon: 'FileText',
         roles: ['ADMIN_*', 'PROCUREMENT_*'],
         description: 'Xem và xuất bảng giá'
+      },
+      {
+        href: '/phe-duyet',
+        label: 'Phê duyệt',
+        icon: 'ClipboardCheck',
+        roles: ['ADMIN_*', 'PROCUREMENT_*'],
+        description: 'Phê duyệt báo giá vượt ngưỡng giá trị'
+      },
+      {
+        href: '/don-hang',
+        label: 'Đơn đặt hàng',
+        icon: 'ShoppingCart',
+        roles: ['ADMIN_*', 'PROCUREMENT_*'],
+        description: 'Tạo và theo dõi đơn đặt hàng theo bếp và nhà cung cấp'
+      },
+      {
+        href: '/doi-soat-hoa-don',
+        label: 'Đối soát hóa đơn',
+        icon: 'Receipt',
+        roles: ['ADMIN_*', 'ACCOUNTING_*'],
+        description: 'Đối chiếu đơn giá hóa đơn nhà cung cấp với giá đã duyệt'
+      },
+      {
+        href: '/ngan-sach',
+        label: 'Ngân sách bếp',
+        icon: 'Wallet',
+        roles: ['ADMIN_*', 'PROCUREMENT_*', 'ACCOUNTING_*', 'KITCHEN_*'],
+        description: 'Ngân sách bếp theo kỳ so với chi tiêu dự kiến'
+      },
+      {
+        href: '/ky-bao-gia',
+        label: 'Kỳ báo giá',
+        icon: 'CalendarRange',
+        roles: ['ADMIN_*', 'PROCUREMENT_*'],
+        description: 'Quản lý kỳ báo giá và hạn nộp báo giá'
+      },
+      {
+        href: '/lich-su-nhap',
+        label: 'Lịch sử nhập file',
+        icon: 'History',
+        roles: ['ADMIN_*', 'PROCUREMENT_*'],
+        description: 'Các lần nhập báo giá và hàng hóa, file gốc và file lỗi'
       }
     ]
   },
@@ -48,6 +48,9 @@ export interface PermissionSet {
   teamRestricted: boolean; // Can only access data from assigned teams
 }
 
+// Permission flags that grant an action (teamRestricted is a scope modifier)
+export type PermissionAction = Exclude<keyof PermissionSet, 'teamRestricted'>;
+
 // Complete role permissions mapping
 export const ROLE_PERMISSIONS: Record<Role, PermissionSet> = {
   // Template roles (backward compatibility)
@@ -730,6 +733,54 @@ export function hasPermission(
   return permissions[action] === true;
 }
 
+// Vietnamese action labels used in "Forbidden" error messages
+const PERMISSION_ACTION_LABELS: Record<PermissionAction, string> = {
+  canViewQuotes: 'xem báo giá',
+  canCreateQuotes: 'tạo báo giá',
+  canApproveQuotes: 'phê duyệt báo giá',
+  canNegotiateQuotes: 'đàm phán báo giá',
+  canManageProducts: 'quản lý sản phẩm',
+  canManageSuppliers: 'quản lý nhà cung cấp',
+  canManageKitchens: 'quản lý bếp',
+  canManageStaff: 'quản lý nhân viên',
+  canViewAnalytics: 'xem báo cáo phân tích',
+  canExportData: 'xuất dữ liệu',
+};
+
+/**
+ * Get the 403-style error message for a missing permission
+ * Returns null when the action is allowed
+ */
+export function getPermissionDeniedMessage(
+  permissions: PermissionSet | null,
+  action: PermissionAction
+): string | null {
+  if (hasPermission(permissions, action)) return null;
+  return `Forbidden: Bạn không có quyền ${PERMISSION_ACTION_LABELS[action]}`;
+}
+
+/**
+ * Get the 403-style error message when a team-restricted user acts outside their regions
+ * permittedRegions is null for users with access to all regions.
+ * Returns null when every requested region is allowed.
+ */
+export function getRegionDeniedMessage(
+  permissions: PermissionSet | null,
+  regions: string[],
+  permittedRegions: string[] | null
+): string | null {
+  if (!permissions) {
+    return 'Forbidden: Bạn không có quyền truy cập khu vực này';
+  }
+
+  if (!permissions.teamRestricted || permittedRegions === null) return null;
+
+  const deniedRegions = regions.filter(region => !permittedRegions.includes(region));
+  if (deniedRegions.length === 0) return null;
+
+  return `Forbidden: Bạn không có quyền thao tác trên khu vực ${deniedRegions.join(', ')}`;
+}
+
 /**
  * Check if any role in the list is an admin role
  */
@@ -749,3 +800,13 @@ export function hasProcurementAccess(roles: Role[]): boolean {
     return parsed?.department === 'PROCUREMENT' || parsed?.department === 'ADMIN' || role === 'owner';
   });
 }
+
+/**
+ * Check if any role has accounting access
+ */
+export function hasAccountingAccess(roles: Role[]): boolean {
+  return roles.some(role => {
+    const parsed = parseRole(role);
+    return parsed?.department === 'ACCOUNTING' || parsed?.department === 'ADMIN' || role === 'owner';
+  });
+}
@@ -0,0 +1,338 @@
+import { config } from 'dotenv';
+
+// Load environment variables before any other imports
+config();
+
+import { performance } from 'node:perf_hooks';
+import { and, desc, eq, inArray, like, sql } from 'drizzle-orm';
+import { client, db } from './drizzle';
+import {
+  users,
+  teams,
+  suppliers,
+  products,
+  quotations,
+  quoteItems,
+  kitchenPeriodDemands,
+} from './schema';
+import { loadComparisonMatrix } from './comparison-matrix';
+import { APPROVED_QUOTATION_STATUSES } from '@/lib/config/approval';
+
+/**
+ * Comparison matrix benchmark
+ * Seeds a synthetic region (BENCH_PRODUCTS products x BENCH_SUPPLIERS suppliers,
+ * current + previous approved period), times the former in-memory matrix build
+ * against the set-based loader, then removes the fixture.
+ *
+ *   pnpm db:bench:comparison
+ *   BENCH_PRODUCTS=5000 BENCH_SUPPLIERS=40 pnpm db:bench:comparison
+ */
+
+const PRODUCT_COUNT = Number(process.env.BENCH_PRODUCTS || 2000);
+const SUPPLIER_COUNT = Number(process.env.BENCH_SUPPLIERS || 30);
+const KITCHEN_COUNT = 5;
+const CATEGORY_COUNT = 10;
+const RUNS = 3;
+const PAGE_SIZE = 200;
+
+const CURRENT_PERIOD = '2099-02-01';
+const PREVIOUS_PERIOD = '2099-01-01';
+
+const runId = Date.now().toString(36);
+const prefix = `BENCH${runId}`;
+const region = `${prefix}-REGION`;
+const categories = Array.from(
+  { length: CATEGORY_COUNT },
+  (_, index) => `${prefix} Nhóm ${index + 1}`
+);
+
+async function insertInChunks<T>(rows: T[], insert: (chunk: T[]) => Promise<unknown>) {
+  for (let index = 0; index < rows.length; index += 1000) {
+    await insert(rows.slice(index, index + 1000));
+  }
+}
+
+// Deterministic pseudo-random prices so runs are comparable
+const priceFor = (productIndex: number, supplierIndex: number) =>
+  10000 + ((productIndex * 7919 + supplierIndex * 104729) % 90000);
+
+async function seedFixture() {
+  const [creator] = await db.select({ id: users.id }).from(users).limit(1);
+  if (!creator) {
+    throw new Error('No users found - run `pnpm db:seed` first');
+  }
+
+  const insertedProducts = await db
+    .insert(products)
+    .values(
+      Array.from({ length: PRODUCT_COUNT }, (_, index) => ({
+        productCode: `${prefix}-${String(index).padStart(5, '0')}`,
+        name: `Sản phẩm benchmark ${index + 1}`,
+        unit: 'kg',
+        category: categories[index % CATEGORY_COUNT],
+        basePrice: String(priceFor(index, 0)),
+        baseQuantity: String(10 + (index % 50)),
+      }))
+    )
+    .returning({ id: products.id });
+
+  const insertedSuppliers = await db
+    .insert(suppliers)
+    .values(
+      Array.from({ length: SUPPLIER_COUNT }, (_, index) => ({
+        supplierCode: `B${runId}-${index}`,
+        name: `NCC benchmark ${index + 1}`,
+      }))
+    )
+    .returning({ id: suppliers.id });
+
+  const kitchens = await db
+    .insert(teams)
+    .values(
+      Array.from({ length: KITCHEN_COUNT }, (_, index) => ({
+        name: `Bếp benchmark ${index + 1}`,
+        teamCode: `${prefix}-K${index}`,
+        region,
+        teamType: 'KITCHEN',
+      }))
+    )
+    .returning({ id: teams.id });
+
+  await insertInChunks(
+    kitchens.flatMap((kitchen) =>
+      insertedProducts.map((product, index) => ({
+        teamId: kitchen.id,
+        productId: product.id,
+        period: CURRENT_PERIOD,
+        quantity: String(5 + (index % 20)),
+        unit: 'kg',
+      }))
+    ),
+    (chunk) => db.insert(kitchenPeriodDemands).values(chunk)
+  );
+
+  // Each supplier quotes ~70% of the products in both periods
+  for (const [periodCode, status] of [
+    [PREVIOUS_PERIOD, 'approved'],
+    [CURRENT_PERIOD, 'pending'],
+  ] as const) {
+    const periodQuotations = await db
+      .insert(quotations)
+      .values(
+        insertedSuppliers.map((supplier, index) => ({
+          quotationId: `${prefix}-${periodCode}-${index}`,
+          period: periodCode,
+          supplierId: supplier.id,
+          region,
+          status,
+          createdBy: creator.id,
+        }))
+      )
+      .returning({ id: quotations.id });
+
+    await insertInChunks(
+      periodQuotations.flatMap((quotation, supplierIndex) =>
+        insertedProducts
+          .filter((_, productIndex) => (productIndex + supplierIndex) % 10 < 7)
+          .map((product, productIndex) => {
+            const price = priceFor(productIndex, supplierIndex + 1);
+            return {
+              quotationId: quotation.id,
+              productId: product.id,
+              quantity: '1',
+              initialPrice: String(price),
+              negotiatedPrice: productIndex % 3 === 0 ? String(price * 0.97) : null,
+              approvedPrice: status === 'approved' ? String(price) : null,
+              vatPercentage: '8',
+            };
+          })
+      ),
+      (chunk) => db.insert(quoteItems).values(chunk)
+    );
+  }
+}
+
+async function removeFixture() {
+  await db.delete(quotations).where(eq(quotations.region, region));
+  await db.delete(teams).where(eq(teams.region, region)); // Cascades to the demands
+  await db.delete(products).where(like(products.productCode, `${prefix}-%`));
+  await db.delete(suppliers).where(like(suppliers.supplierCode, `B${runId}-%`));
+}
+
+/**
+ * The former getComparisonMatrix data flow: every product, demand and quote
+ * item of the region is fetched and the matrix, previous prices and overview
+ * totals are built in JS passes
+ */
+async function legacyComparisonMatrix() {
+  const allProducts = await db
+    .select()
+    .from(products)
+    .where(and(inArray(products.category, categories), eq(products.status, 'active')))
+    .orderBy(products.productCode);
+
+  const demands = await db
+    .select({ productId: kitchenPeriodDemands.productId, quantity: kitchenPeriodDemands.quantity })
+    .from(kitchenPeriodDemands)
+    .innerJoin(products, eq(kitchenPeriodDemands.productId, products.id))
+    .where(
+      and(
+        eq(kitchenPeriodDemands.period, CURRENT_PERIOD),
+        inArray(products.category, categories),
+        eq(kitchenPeriodDemands.status, 'active')
+      )
+    );
+
+  const cells = await db
+    .select({
+      supplierId: suppliers.id,
+      productId: quoteItems.productId,
+      initialPrice: quoteItems.initialPrice,
+      negotiatedPrice: quoteItems.negotiatedPrice,
+      approvedPrice: quoteItems.approvedPrice,
+    })
+    .from(quotations)
+    .innerJoin(suppliers, eq(quotations.supplierId, suppliers.id))
+    .innerJoin(quoteItems, eq(quotations.id, quoteItems.quotationId))
+    .innerJoin(products, eq(quoteItems.productId, products.id))
+    .where(
+      and(
+        eq(quotations.period, CURRENT_PERIOD),
+        eq(quotations.region, region),
+        inArray(products.category, categories),
+        eq(suppliers.status, 'active')
+      )
+    );
+
+  const [activeSuppliers, regionalQuotations] = await Promise.all([
+    db.select().from(suppliers).where(eq(suppliers.status, 'active')),
+    db.select().from(quotations).where(eq(quotations.region, region)),
+  ]);
+
+  const [previousPeriod] = await db
+    .select({ period: quotations.period })
+    .from(quotations)
+    .where(
+      and(
+        sql`${quotations.period} < ${CURRENT_PERIOD}`,
+        eq(quotations.region, region),
+        inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES])
+      )
+    )
+    .orderBy(desc(quotations.period))
+    .limit(1);
+
+  const previousPrices = previousPeriod
+    ? await db
+        .select({
+          productId: quoteItems.productId,
+          supplierId: quotations.supplierId,
+          approvedPrice: quoteItems.approvedPrice,
+        })
+        .from(quoteItems)
+        .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
+        .innerJoin(products, eq(quoteItems.productId, products.id))
+        .where(
+          and(
+            eq(quotations.period, previousPeriod.period),
+            eq(quotations.region, region),
+            inArray(products.category, categories),
+            sql`${quoteItems.approvedPrice} IS NOT NULL`
+          )
+        )
+        .orderBy(desc(quoteItems.updatedAt))
+    : [];
+
+  // JS passes: demand map, matrix cells, best prices, previous prices, overview totals
+  const demandMap = new Map(demands.map((demand) => [demand.productId, Number(demand.quantity)]));
+  const productMap = new Map(
+    allProducts.map((product) => [
+      product.id,
+      {
+        product,
+        quantity: demandMap.get(product.id) || Number(product.baseQuantity) || 1,
+        cells: new Map<number, number>(),
+      },
+    ])
+  );
+
+  for (const cell of cells) {
+    const entry = productMap.get(cell.productId);
+    const price = Number(cell.approvedPrice ?? cell.negotiatedPrice ?? cell.initialPrice);
+    if (entry && price > 0) entry.cells.set(cell.supplierId, price);
+  }
+
+  const previousBest = new Map<number, number>();
+  const previousBySupplier = new Map<string, number>();
+  for (const row of previousPrices) {
+    const price = Number(row.approvedPrice);
+    previousBest.set(row.productId, Math.min(previousBest.get(row.productId) ?? Infinity, price));
+    const key = `${row.productId}-${row.supplierId}`;
+    if (!previousBySupplier.has(key)) previousBySupplier.set(key, price);
+  }
+
+  const totals = new Map<string, number>();
+  productMap.forEach(({ product, cells: productCells }) => {
+    productCells.forEach((price, supplierId) => {
+      const key = `${product.category}:${supplierId}`;
+      const previous = previousBySupplier.get(`${product.id}-${supplierId}`) ?? 0;
+      totals.set(key, (totals.get(key) ?? 0) + (price + previous) * Number(product.baseQuantity));
+    });
+  });
+
+  return {
+    products: productMap.size,
+    suppliers: activeSuppliers.length,
+    quotations: regionalQuotations.length,
+    groups: totals.size,
+  };
+}
+
+async function time(label: string, run: () => Promise<unknown>) {
+  const durations: number[] = [];
+  for (let index = 0; index < RUNS; index++) {
+    const start = performance.now();
+    await run();
+    durations.push(performance.now() - start);
+  }
+
+  const median = durations.sort((a, b) => a - b)[Math.floor(RUNS / 2)];
+  console.log(`  ${label.padEnd(32)} ${median.toFixed(0).padStart(7)} ms (median of ${RUNS})`);
+  return median;
+}
+
+async function main() {
+  console.log(
+    `🏁 Seeding ${PRODUCT_COUNT} products x ${SUPPLIER_COUNT} suppliers in region ${region}...`
+  );
+  await seedFixture();
+
+  try {
+    const filters = { period: CURRENT_PERIOD, region, categories };
+
+    // Warm up connections and plans before timing
+    await legacyComparisonMatrix();
+    await loadComparisonMatrix(filters);
+
+    const legacy = await time('In-memory (former)', legacyComparisonMatrix);
+    const full = await time('Set-based, all products', () => loadComparisonMatrix(filters));
+    const paged = await time(`Set-based, page of ${PAGE_SIZE}`, () =>
+      loadComparisonMatrix({ ...filters, page: 1, limit: PAGE_SIZE })
+    );
+
+    console.log(
+      `✅ Speed-up: ${(legacy / full).toFixed(1)}x (all products), ${(legacy / paged).toFixed(1)}x (paged)`
+    );
+  } finally {
+    await removeFixture();
+    console.log('🧹 Benchmark fixture removed');
+  }
+}
+
+main()
+  .then(() => client.end())
+  .catch(async (error) => {
+    console.error('❌ Comparison matrix benchmark failed:', error);
+    await client.end();
+    process.exit(1);
+  });
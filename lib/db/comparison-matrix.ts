@@ -0,0 +1,536 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { db } from './drizzle';
+import {
+  products,
+  suppliers,
+  quotations,
+  quoteItems,
+} from './schema';
+import {
+  getNegotiationHistory,
+  getPriceAnomalies,
+  getAwardAllocations,
+  getRegionalKitchenDemands,
+} from './queries';
+import { APPROVED_QUOTATION_STATUSES } from '@/lib/config/approval';
+import type {
+  ComparisonMatrixData,
+  CategoryOverview,
+  SupplierPerformance,
+} from '@/lib/types/quote-comparison.types';
+import type {
+  PriceItem,
+  ComparisonMetrics,
+  ProductComparison,
+} from '@/lib/utils/price-calculation';
+
+export interface ComparisonMatrixQuery {
+  period: string;
+  region: string;
+  categories: string[];
+  page?: number;
+  limit?: number; // Omitted = every product of the categories in one page
+}
+
+type ComparisonProductRow = {
+  id: number;
+  product_code: string;
+  name: string;
+  specification: string | null;
+  unit: string;
+  category: string;
+  base_quantity: string;
+  base_price: string | null;
+};
+
+type ComparisonCellRow = {
+  item_id: number;
+  product_id: number;
+  supplier_id: number;
+  supplier_code: string | null;
+  supplier_name: string;
+  initial_price: string | null;
+  negotiated_price: string | null;
+  approved_price: string | null;
+  vat_percentage: string | null;
+  currency: string | null;
+  effective_price: string | null;
+  is_best: boolean;
+  previous_best_price: string | null;
+  previous_supplier_price: string | null;
+};
+
+type SupplierCoverageRow = {
+  id: number;
+  supplier_code: string | null;
+  name: string;
+  quoted_products: string;
+};
+
+type SupplierTotalsRow = {
+  category: string;
+  supplier_id: number;
+  supplier_code: string | null;
+  supplier_name: string;
+  quotation_status: SupplierPerformance['quotationStatus'];
+  product_count: string;
+  total_base_value: string;
+  total_initial_value: string;
+  total_current_value: string;
+  total_previous_value: string | null;
+};
+
+type AvailableSupplierRow = {
+  id: number;
+  supplier_code: string | null;
+  name: string;
+  status: string;
+  quotation_id: number | null;
+  quotation_status: ComparisonMatrixData['availableSuppliers'][number]['quotationStatus'];
+  quotation_updated_at: Date | string | null;
+  total_quotations: string;
+  pending_quotations: string;
+  negotiation_quotations: string;
+  approved_quotations: string;
+};
+
+const toNumber = (value: string | number | null | undefined) =>
+  value === null || value === undefined ? undefined : Number(value);
+
+const sqlList = (values: readonly string[]) =>
+  sql.join(values.map((value) => sql`${value}`), sql`, `);
+
+/**
+ * Active products of the selected categories; the base quantity falls back to 1
+ * like the price calculations expect
+ */
+function scopedProductsCte(categories: string[]): SQL {
+  return sql`
+    scoped_products AS (
+      SELECT
+        p.id,
+        p.product_code,
+        p.name,
+        p.specification,
+        p.unit,
+        p.category,
+        COALESCE(NULLIF(p.base_quantity, 0), 1) AS base_quantity,
+        p.base_price
+      FROM ${products} p
+      WHERE p.category IN (${sqlList(categories)})
+        AND p.status = 'active'
+    )`;
+}
+
+/**
+ * Approved prices of the most recent earlier period with approved quotations
+ * in the region, one row per product and supplier (latest update wins)
+ */
+function previousApprovedPricesCte(period: string, region: string): SQL {
+  const approvedStatuses = sqlList(APPROVED_QUOTATION_STATUSES);
+
+  return sql`
+    previous_period AS (
+      SELECT MAX(q.period) AS period
+      FROM ${quotations} q
+      WHERE q.period < ${period}
+        AND q.region = ${region}
+        AND q.status IN (${approvedStatuses})
+    ),
+    previous_prices AS (
+      SELECT DISTINCT ON (qi.product_id, q.supplier_id)
+        qi.product_id,
+        q.supplier_id,
+        qi.approved_price AS price
+      FROM ${quoteItems} qi
+      INNER JOIN ${quotations} q ON q.id = qi.quotation_id
+      INNER JOIN scoped_products sp ON sp.id = qi.product_id
+      WHERE q.period = (SELECT period FROM previous_period)
+        AND q.region = ${region}
+        AND q.status IN (${approvedStatuses})
+        AND qi.approved_price IS NOT NULL
+      ORDER BY qi.product_id, q.supplier_id, qi.updated_at DESC
+    ),
+    previous_best AS (
+      SELECT product_id, MIN(price) AS price
+      FROM previous_prices
+      GROUP BY product_id
+    )`;
+}
+
+/**
+ * Load the comparison matrix with set-based queries
+ * Effective/best/previous prices and the per-supplier overview totals are
+ * aggregated in Postgres; only the requested page of product rows and their
+ * quote cells are materialized. Callers are responsible for authorization.
+ */
+export async function loadComparisonMatrix(
+  query: ComparisonMatrixQuery
+): Promise<ComparisonMatrixData> {
+  const { period, region, categories } = query;
+  const limit = query.limit ?? null;
+  const page = limit ? Math.max(query.page ?? 1, 1) : 1;
+  const pageClause = limit
+    ? sql`LIMIT ${limit} OFFSET ${(page - 1) * limit}`
+    : sql``;
+
+  // Page of products
+  const productPageQuery = db.execute<ComparisonProductRow>(sql`
+    WITH ${scopedProductsCte(categories)}
+    SELECT sp.*
+    FROM scoped_products sp
+    ORDER BY sp.category, sp.product_code
+    ${pageClause}
+  `);
+
+  const productCountQuery = db.execute<{ total: string }>(sql`
+    WITH ${scopedProductsCte(categories)}
+    SELECT COUNT(*) AS total FROM scoped_products
+  `);
+
+  // Suppliers quoting in this period/region with their coverage of the categories
+  const supplierCoverageQuery = db.execute<SupplierCoverageRow>(sql`
+    WITH ${scopedProductsCte(categories)}
+    SELECT
+      s.id,
+      s.supplier_code,
+      s.name,
+      COUNT(sp.id) AS quoted_products
+    FROM ${quotations} q
+    INNER JOIN ${suppliers} s ON s.id = q.supplier_id
+    LEFT JOIN ${quoteItems} qi ON qi.quotation_id = q.id
+    LEFT JOIN scoped_products sp ON sp.id = qi.product_id
+    WHERE q.period = ${period}
+      AND q.region = ${region}
+      AND s.status = 'active'
+    GROUP BY s.id, s.supplier_code, s.name
+    ORDER BY s.supplier_code
+  `);
+
+  // Per category/supplier totals for the grouped overview, all at base quantity
+  const supplierTotalsQuery = db.execute<SupplierTotalsRow>(sql`
+    WITH ${scopedProductsCte(categories)},
+    ${previousApprovedPricesCte(period, region)},
+    priced_cells AS (
+      SELECT
+        sp.category,
+        s.id AS supplier_id,
+        s.supplier_code,
+        s.name AS supplier_name,
+        q.status AS quotation_status,
+        sp.base_quantity,
+        COALESCE(sp.base_price, 0) AS base_price,
+        COALESCE(qi.initial_price, 0) AS initial_price,
+        COALESCE(qi.approved_price, qi.negotiated_price, qi.initial_price) AS effective_price,
+        pp.price AS previous_price
+      FROM ${quoteItems} qi
+      INNER JOIN ${quotations} q ON q.id = qi.quotation_id
+      INNER JOIN ${suppliers} s ON s.id = q.supplier_id
+      INNER JOIN scoped_products sp ON sp.id = qi.product_id
+      LEFT JOIN previous_prices pp
+        ON pp.product_id = qi.product_id AND pp.supplier_id = q.supplier_id
+      WHERE q.period = ${period}
+        AND q.region = ${region}
+        AND s.status = 'active'
+    )
+    SELECT
+      category,
+      supplier_id,
+      supplier_code,
+      supplier_name,
+      quotation_status,
+      COUNT(*) AS product_count,
+      SUM(base_price * base_quantity) AS total_base_value,
+      SUM(initial_price * base_quantity) AS total_initial_value,
+      SUM(effective_price * base_quantity) AS total_current_value,
+      SUM(previous_price * base_quantity) FILTER (WHERE previous_price > 0) AS total_previous_value
+    FROM priced_cells
+    WHERE effective_price > 0
+    GROUP BY category, supplier_id, supplier_code, supplier_name, quotation_status
+    ORDER BY category, supplier_code
+  `);
+
+  // Every active supplier with its quotation for this period and region-wide counts
+  const availableSuppliersQuery = db.execute<AvailableSupplierRow>(sql`
+    SELECT
+      s.id,
+      s.supplier_code,
+      s.name,
+      s.status,
+      cur.id AS quotation_id,
+      cur.status AS quotation_status,
+      cur.updated_at AS quotation_updated_at,
+      COUNT(rq.id) AS total_quotations,
+      COUNT(rq.id) FILTER (WHERE rq.status = 'pending') AS pending_quotations,
+      COUNT(rq.id) FILTER (WHERE rq.status = 'negotiation') AS negotiation_quotations,
+      COUNT(rq.id) FILTER (
+        WHERE rq.status IN (${sqlList(APPROVED_QUOTATION_STATUSES)})
+      ) AS approved_quotations
+    FROM ${suppliers} s
+    LEFT JOIN ${quotations} cur
+      ON cur.supplier_id = s.id AND cur.period = ${period} AND cur.region = ${region}
+    LEFT JOIN ${quotations} rq
+      ON rq.supplier_id = s.id AND rq.region = ${region}
+    WHERE s.status = 'active'
+    GROUP BY s.id, s.supplier_code, s.name, s.status, cur.id, cur.status, cur.updated_at
+    ORDER BY s.supplier_code
+  `);
+
+  const [productRows, [countRow], coverageRows, totalsRows, availableRows] =
+    await Promise.all([
+      productPageQuery,
+      productCountQuery,
+      supplierCoverageQuery,
+      supplierTotalsQuery,
+      availableSuppliersQuery,
+    ]);
+
+  const totalProducts = Number(countRow?.total ?? 0);
+
+  // Quantity = demand summed over the region's active kitchens, else base quantity
+  const demandMap = await getRegionalKitchenDemands(
+    period,
+    region,
+    productRows.map((row) => row.id)
+  );
+
+  const pageProducts: ProductComparison[] = productRows.map((row) => {
+    const baseQuantity = Number(row.base_quantity);
+    const demand = demandMap.get(row.id);
+    const hasDemand = demand !== undefined && demand.total > 0;
+
+    return {
+      productId: row.id,
+      productCode: row.product_code,
+      productName: row.name,
+      specification: row.specification || '',
+      unit: row.unit,
+      category: row.category,
+      quantity: hasDemand ? demand.total : baseQuantity,
+      quantitySource: hasDemand ? 'kitchen_demand' : 'base_quantity',
+      demandBreakdown: demand?.kitchens ?? [],
+      baseQuantity,
+      basePrice: row.base_price !== null ? Number(row.base_price) : null,
+      suppliers: {},
+    };
+  });
+
+  // Quote cells of the page, with best and previous prices resolved in SQL
+  const productIds = pageProducts.map((product) => product.productId);
+  const cellRows =
+    productIds.length === 0
+      ? []
+      : await db.execute<ComparisonCellRow>(sql`
+          WITH ${scopedProductsCte(categories)},
+          ${previousApprovedPricesCte(period, region)},
+          cells AS (
+            SELECT
+              qi.id AS item_id,
+              qi.product_id,
+              s.id AS supplier_id,
+              s.supplier_code,
+              s.name AS supplier_name,
+              qi.initial_price,
+              qi.negotiated_price,
+              qi.approved_price,
+              qi.vat_percentage,
+              qi.currency,
+              COALESCE(qi.approved_price, qi.negotiated_price, qi.initial_price) AS effective_price
+            FROM ${quoteItems} qi
+            INNER JOIN ${quotations} q ON q.id = qi.quotation_id
+            INNER JOIN ${suppliers} s ON s.id = q.supplier_id
+            WHERE q.period = ${period}
+              AND q.region = ${region}
+              AND s.status = 'active'
+              AND qi.product_id IN (${sql.join(productIds.map((id) => sql`${id}`), sql`, `)})
+          ),
+          ranked AS (
+            SELECT
+              cells.*,
+              ROW_NUMBER() OVER (
+                PARTITION BY product_id, effective_price > 0
+                ORDER BY effective_price, supplier_code
+              ) AS price_rank
+            FROM cells
+          )
+          SELECT
+            ranked.*,
+            (ranked.effective_price > 0 AND ranked.price_rank = 1) IS TRUE AS is_best,
+            pb.price AS previous_best_price,
+            pp.price AS previous_supplier_price
+          FROM ranked
+          LEFT JOIN previous_best pb ON pb.product_id = ranked.product_id
+          LEFT JOIN previous_prices pp
+            ON pp.product_id = ranked.product_id AND pp.supplier_id = ranked.supplier_id
+        `);
+
+  const productMap = new Map(pageProducts.map((product) => [product.productId, product]));
+  const populatedCells = new Map<number, PriceItem & ComparisonMetrics>();
+
+  for (const row of cellRows) {
+    const product = productMap.get(row.product_id);
+    if (!product) continue;
+
+    const effectivePrice = toNumber(row.effective_price) ?? 0;
+    const hasPrice = effectivePrice > 0;
+    const vatRate = toNumber(row.vat_percentage) ?? 0;
+    const totalPrice = hasPrice ? effectivePrice * product.quantity : 0;
+    const vatAmount = totalPrice * (vatRate / 100);
+
+    const cell: PriceItem & ComparisonMetrics = {
+      id: row.item_id,
+      productId: row.product_id,
+      productCode: product.productCode,
+      productName: product.productName,
+      supplierId: row.supplier_id,
+      supplierCode: row.supplier_code || '',
+      supplierName: row.supplier_name || '',
+      initialPrice: toNumber(row.initial_price),
+      negotiatedPrice: toNumber(row.negotiated_price),
+      approvedPrice: toNumber(row.approved_price),
+      vatRate,
+      currency: row.currency || 'VND',
+      quantity: product.quantity,
+      unit: product.unit,
+      pricePerUnit: hasPrice ? effectivePrice : 0,
+      totalPrice,
+      vatAmount,
+      totalPriceWithVAT: totalPrice + vatAmount,
+      hasBestPrice: row.is_best,
+      hasPrice,
+    };
+
+    const previousBestPrice = toNumber(row.previous_best_price);
+    if (previousBestPrice !== undefined) {
+      product.previousApprovedPrice = previousBestPrice;
+    }
+
+    // Variance vs the best approved price of the previous period (0.5% = stable)
+    if (hasPrice && previousBestPrice && previousBestPrice > 0) {
+      const previousSupplierPrice = toNumber(row.previous_supplier_price);
+      if (previousSupplierPrice) {
+        cell.previousPriceFromThisSupplier = previousSupplierPrice;
+      }
+
+      const variancePercentage =
+        ((effectivePrice - previousBestPrice) / previousBestPrice) * 100;
+      cell.variancePercentage = variancePercentage;
+      cell.varianceTrend =
+        variancePercentage > 0.5 ? 'up' : variancePercentage < -0.5 ? 'down' : 'stable';
+    }
+
+    if (row.is_best) {
+      product.bestSupplierId = row.supplier_id;
+      product.bestPrice = effectivePrice;
+    }
+
+    product.suppliers[row.supplier_id] = cell;
+    populatedCells.set(row.item_id, cell);
+  }
+
+  // Negotiation rounds, import anomalies and split-award shares for the cell tooltips
+  const itemIds = [...populatedCells.keys()];
+  const [historyMap, anomalyMap, allocationMap] = await Promise.all([
+    getNegotiationHistory(itemIds),
+    getPriceAnomalies(itemIds),
+    getAwardAllocations(region, period, productIds),
+  ]);
+
+  historyMap.forEach((rounds, itemId) => {
+    const cell = populatedCells.get(itemId);
+    if (cell) cell.negotiationHistory = rounds;
+  });
+
+  anomalyMap.forEach((anomalies, itemId) => {
+    const cell = populatedCells.get(itemId);
+    if (cell) cell.priceAnomalies = anomalies;
+  });
+
+  allocationMap.forEach((allocations, productId) => {
+    const product = productMap.get(productId);
+    allocations.forEach((allocation) => {
+      const cell = product?.suppliers[allocation.supplierId];
+      if (cell) cell.awardSharePercent = allocation.sharePercent;
+    });
+  });
+
+  // Grouped overview (Region > Category > Supplier) from the SQL totals
+  const variance = (current: number, reference: number) => ({
+    difference: current - reference,
+    percentage: reference > 0 ? ((current - reference) / reference) * 100 : 0,
+  });
+
+  const categoryOverviews = new Map<string, CategoryOverview>();
+  for (const row of totalsRows) {
+    const totalBaseValue = Number(row.total_base_value);
+    const totalInitialValue = Number(row.total_initial_value);
+    const totalCurrentValue = Number(row.total_current_value);
+    const totalPreviousValue = toNumber(row.total_previous_value) ?? null;
+
+    if (!categoryOverviews.has(row.category)) {
+      categoryOverviews.set(row.category, { category: row.category, supplierPerformances: [] });
+    }
+
+    categoryOverviews.get(row.category)!.supplierPerformances.push({
+      supplierId: row.supplier_id,
+      supplierCode: row.supplier_code || '',
+      supplierName: row.supplier_name || '',
+      productCount: Number(row.product_count),
+      totalBaseValue,
+      totalPreviousValue,
+      totalInitialValue,
+      totalCurrentValue,
+      varianceVsBase: variance(totalCurrentValue, totalBaseValue),
+      varianceVsPrevious:
+        totalPreviousValue !== null ? variance(totalCurrentValue, totalPreviousValue) : null,
+      varianceVsInitial: variance(totalCurrentValue, totalInitialValue),
+      quotationStatus: row.quotation_status,
+    });
+  }
+
+  return {
+    products: pageProducts,
+    suppliers: coverageRows.map((row) => {
+      const quotedProducts = Number(row.quoted_products);
+      return {
+        id: row.id,
+        code: row.supplier_code || '',
+        name: row.name || '',
+        totalProducts,
+        quotedProducts,
+        coveragePercentage:
+          totalProducts > 0 ? Math.round((quotedProducts / totalProducts) * 100) : 0,
+      };
+    }),
+    period,
+    region,
+    category: categories.join(', '),
+    lastUpdated: new Date(),
+    groupedOverview: {
+      regions:
+        categoryOverviews.size > 0
+          ? [{ region, categories: [...categoryOverviews.values()] }]
+          : [],
+    },
+    availableSuppliers: availableRows.map((row) => ({
+      id: row.id,
+      code: row.supplier_code || '',
+      name: row.name || '',
+      status: row.status || 'unknown',
+      quotationId: row.quotation_id,
+      quotationStatus: row.quotation_status,
+      quotationSubmittedAt: null, // submittedAt field doesn't exist in current schema
+      quotationLastUpdated: row.quotation_updated_at ? new Date(row.quotation_updated_at) : null,
+      totalQuotations: Number(row.total_quotations),
+      pendingQuotations: Number(row.pending_quotations),
+      negotiationQuotations: Number(row.negotiation_quotations),
+      approvedQuotations: Number(row.approved_quotations),
+    })),
+    pagination: {
+      page,
+      limit: limit ?? totalProducts,
+      total: totalProducts,
+      totalPages: limit ? Math.ceil(totalProducts / limit) : 1,
+    },
+  };
+}
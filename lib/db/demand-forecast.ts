@@ -0,0 +1,48 @@
+import { and, eq, gte, lt } from 'drizzle-orm';
+import { db } from './drizzle';
+import { kitchenPeriodDemands } from './schema';
+import { forecastDemand, type DemandForecast } from '@/lib/utils/demand-forecast';
+
+/**
+ * Forecast a kitchen's demand per product for a period
+ * Loads the kitchen's demand of the two previous years, enough for the trend
+ * window and for last year's same period with the periods before it.
+ */
+export async function loadKitchenDemandForecasts(
+  teamId: number,
+  period: string
+): Promise<Map<number, DemandForecast>> {
+  const historyStart = `${Number(period.slice(0, 4)) - 2}-01-01`;
+
+  const rows = await db
+    .select({
+      productId: kitchenPeriodDemands.productId,
+      period: kitchenPeriodDemands.period,
+      quantity: kitchenPeriodDemands.quantity,
+    })
+    .from(kitchenPeriodDemands)
+    .where(
+      and(
+        eq(kitchenPeriodDemands.teamId, teamId),
+        eq(kitchenPeriodDemands.status, 'active'),
+        gte(kitchenPeriodDemands.period, historyStart),
+        lt(kitchenPeriodDemands.period, period)
+      )
+    );
+
+  const kitchenPeriods = [...new Set(rows.map((row) => row.period))];
+  const histories = new Map<number, Map<string, number>>();
+  for (const row of rows) {
+    const history = histories.get(row.productId) ?? new Map<string, number>();
+    history.set(row.period, Number(row.quantity));
+    histories.set(row.productId, history);
+  }
+
+  const forecasts = new Map<number, DemandForecast>();
+  histories.forEach((history, productId) => {
+    const forecast = forecastDemand(kitchenPeriods, history, period);
+    if (forecast) forecasts.set(productId, forecast);
+  });
+
+  return forecasts;
+}
@@ -0,0 +1,143 @@
+import { eq } from "drizzle-orm";
+import { db } from "./drizzle";
+import {
+  importJobs,
+  importJobFiles,
+  importJobMessages,
+  type NewImportJobMessage,
+} from "./schema";
+import {
+  FILE_PURPOSES,
+  IMPORT_SOURCE_RETENTION_DAYS,
+  saveStoredFile,
+} from "@/lib/storage/stored-files";
+import {
+  getImportJobStatus,
+  type ImportJobType,
+} from "@/lib/utils/import-jobs";
+
+/**
+ * Import job log shared by the quotation and product Excel imports
+ *
+ * A job is created when an import starts, each uploaded file is stored and
+ * attached to it, and the counts and messages are written when it finishes.
+ */
+
+export interface CreateImportJobInput {
+  type: ImportJobType;
+  region?: string | null;
+  period?: string | null;
+  totalFiles: number;
+  createdBy: number;
+}
+
+export interface ImportJobFileRecord {
+  id: number; // import_job_files.id
+  storedFileId: number;
+  fileName: string;
+}
+
+export interface CompleteImportJobInput {
+  processedFiles: number;
+  createdCount: number;
+  updatedCount: number;
+  itemCount: number;
+  messages: Omit<NewImportJobMessage, "id" | "jobId">[];
+}
+
+export async function createImportJob(input: CreateImportJobInput): Promise<number> {
+  const [job] = await db
+    .insert(importJobs)
+    .values({
+      type: input.type,
+      region: input.region ?? null,
+      period: input.period ?? null,
+      totalFiles: input.totalFiles,
+      createdBy: input.createdBy,
+    })
+    .returning({ id: importJobs.id });
+
+  return job.id;
+}
+
+/**
+ * Store an uploaded file and attach it to the job
+ * Uploads outlive generated exports so jobs can be traced back to them.
+ */
+export async function addImportJobFile(
+  jobId: number,
+  file: { data: Buffer; fileName: string; contentType: string },
+  { region, period, createdBy }: Pick<CreateImportJobInput, "region" | "period" | "createdBy">
+): Promise<ImportJobFileRecord> {
+  const storedFile = await saveStoredFile({
+    data: file.data,
+    fileName: file.fileName,
+    contentType: file.contentType,
+    purpose: FILE_PURPOSES.IMPORT_SOURCE,
+    region,
+    period,
+    createdBy,
+    retentionDays: IMPORT_SOURCE_RETENTION_DAYS,
+  });
+
+  const [jobFile] = await db
+    .insert(importJobFiles)
+    .values({
+      jobId,
+      storedFileId: storedFile.id,
+      fileName: file.fileName,
+    })
+    .returning({ id: importJobFiles.id });
+
+  return { id: jobFile.id, storedFileId: storedFile.id, fileName: file.fileName };
+}
+
+/**
+ * Record the outcome of a job and set its final status
+ */
+export async function completeImportJob(
+  jobId: number,
+  { messages, ...counts }: CompleteImportJobInput
+): Promise<void> {
+  const errorCount = messages.filter((message) => message.level === "error").length;
+
+  await db.transaction(async (tx) => {
+    if (messages.length > 0) {
+      await tx
+        .insert(importJobMessages)
+        .values(messages.map((message) => ({ ...message, jobId })));
+    }
+
+    await tx
+      .update(importJobs)
+      .set({
+        ...counts,
+        status: getImportJobStatus(counts.createdCount + counts.updatedCount, errorCount),
+        completedAt: new Date(),
+      })
+      .where(eq(importJobs.id, jobId));
+  });
+}
+
+/**
+ * Mark a job that could not finish as failed
+ * The status is set on its own first, so the job does not stay "running" even
+ * when the message cannot be recorded.
+ */
+export async function failImportJob(
+  jobId: number,
+  message: string,
+  counts: Omit<CompleteImportJobInput, "messages"> = {
+    processedFiles: 0,
+    createdCount: 0,
+    updatedCount: 0,
+    itemCount: 0,
+  }
+): Promise<void> {
+  await db
+    .update(importJobs)
+    .set({ ...counts, status: "failed", completedAt: new Date() })
+    .where(eq(importJobs.id, jobId));
+
+  await db.insert(importJobMessages).values({ jobId, level: "error", message });
+}
@@ -0,0 +1,185 @@
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { db } from './drizzle';
+import {
+  kitchenBudgets,
+  kitchenPeriodDemands,
+  products,
+  quotations,
+  quoteItems,
+  supplierServiceScopes,
+  teams,
+} from './schema';
+import { getAwardAllocations } from './queries';
+import { APPROVED_QUOTATION_STATUSES } from '@/lib/config/approval';
+import {
+  computePlannedSpend,
+  getBudgetVariance,
+  type SpendPrice,
+} from '@/lib/utils/kitchen-budget';
+import type { KitchenBudgetStatus } from '@/lib/types/kitchen-budget.types';
+
+const priceKey = (supplierId: number, productId: number) => `${supplierId}:${productId}`;
+
+/**
+ * Budget status of the active kitchens of a region for a period
+ * Planned spend prices each kitchen's demand at the approved prices of the
+ * suppliers serving it. `extraPrices` are treated as approved on top of the
+ * current ones, to preview the effect of approving quotations.
+ */
+export async function loadRegionalBudgetStatus(
+  period: string,
+  region: string,
+  options: { teamIds?: number[]; extraPrices?: SpendPrice[] } = {}
+): Promise<KitchenBudgetStatus[]> {
+  const kitchenConditions = [
+    eq(teams.teamType, 'KITCHEN'),
+    eq(teams.region, region),
+    eq(teams.status, 'active'),
+    isNull(teams.deletedAt),
+  ];
+  if (options.teamIds) {
+    if (options.teamIds.length === 0) return [];
+    kitchenConditions.push(inArray(teams.id, options.teamIds));
+  }
+
+  const kitchens = await db
+    .select({ id: teams.id, teamCode: teams.teamCode, name: teams.name })
+    .from(teams)
+    .where(and(...kitchenConditions))
+    .orderBy(asc(teams.teamCode), asc(teams.name));
+
+  if (kitchens.length === 0) return [];
+
+  const teamIds = kitchens.map((kitchen) => kitchen.id);
+
+  const [demandRows, budgetRows, approvedRows, scopeRows] = await Promise.all([
+    db
+      .select({
+        teamId: kitchenPeriodDemands.teamId,
+        productId: kitchenPeriodDemands.productId,
+        category: products.category,
+        quantity: kitchenPeriodDemands.quantity,
+      })
+      .from(kitchenPeriodDemands)
+      .innerJoin(products, eq(kitchenPeriodDemands.productId, products.id))
+      .where(
+        and(
+          inArray(kitchenPeriodDemands.teamId, teamIds),
+          eq(kitchenPeriodDemands.period, period),
+          eq(kitchenPeriodDemands.status, 'active')
+        )
+      ),
+    db
+      .select({
+        teamId: kitchenBudgets.teamId,
+        category: kitchenBudgets.category,
+        amount: kitchenBudgets.amount,
+      })
+      .from(kitchenBudgets)
+      .where(and(inArray(kitchenBudgets.teamId, teamIds), eq(kitchenBudgets.period, period))),
+    db
+      .select({
+        supplierId: quotations.supplierId,
+        productId: quoteItems.productId,
+        approvedPrice: quoteItems.approvedPrice,
+        vatPercentage: quoteItems.vatPercentage,
+      })
+      .from(quoteItems)
+      .innerJoin(quotations, eq(quoteItems.quotationId, quotations.id))
+      .where(
+        and(
+          eq(quotations.period, period),
+          eq(quotations.region, region),
+          inArray(quotations.status, [...APPROVED_QUOTATION_STATUSES]),
+          sql`${quoteItems.approvedPrice} IS NOT NULL AND ${quoteItems.approvedPrice} > 0`
+        )
+      ),
+    db
+      .select({
+        teamId: supplierServiceScopes.teamId,
+        supplierId: supplierServiceScopes.supplierId,
+      })
+      .from(supplierServiceScopes)
+      .where(
+        and(
+          inArray(supplierServiceScopes.teamId, teamIds),
+          eq(supplierServiceScopes.isActive, true)
+        )
+      ),
+  ]);
+
+  const prices = new Map<string, SpendPrice>();
+  approvedRows.forEach((row) => {
+    prices.set(priceKey(row.supplierId, row.productId), {
+      supplierId: row.supplierId,
+      productId: row.productId,
+      unitPriceWithVat: Number(row.approvedPrice) * (1 + Number(row.vatPercentage ?? 0) / 100),
+    });
+  });
+  options.extraPrices?.forEach((price) => {
+    prices.set(priceKey(price.supplierId, price.productId), price);
+  });
+
+  const servedSuppliers = new Map<number, Set<number>>();
+  scopeRows.forEach((scope) => {
+    const set = servedSuppliers.get(scope.teamId) ?? new Set<number>();
+    set.add(scope.supplierId);
+    servedSuppliers.set(scope.teamId, set);
+  });
+
+  const demands = demandRows.map((row) => ({ ...row, quantity: Number(row.quantity) }));
+  const allocations = await getAwardAllocations(region, period, [
+    ...new Set(demands.map((demand) => demand.productId)),
+  ]);
+  const spendByKitchen = computePlannedSpend(
+    demands,
+    [...prices.values()],
+    servedSuppliers,
+    allocations
+  );
+
+  return kitchens.map((kitchen) => {
+    const spend = spendByKitchen.get(kitchen.id) ?? {
+      total: 0,
+      byCategory: {},
+      unpricedProducts: 0,
+    };
+    const kitchenBudgetRows = budgetRows.filter((row) => row.teamId === kitchen.id);
+    const overall = kitchenBudgetRows.find((row) => row.category === null);
+    const categoryBudgets = new Map(
+      kitchenBudgetRows
+        .filter((row) => row.category !== null)
+        .map((row) => [row.category!, Number(row.amount)])
+    );
+
+    const categories = [
+      ...new Set([...Object.keys(spend.byCategory), ...categoryBudgets.keys()]),
+    ]
+      .sort((a, b) => a.localeCompare(b))
+      .map((category) => {
+        const budget = categoryBudgets.get(category) ?? null;
+        const plannedSpend = spend.byCategory[category] ?? 0;
+        return {
+          category,
+          budget,
+          plannedSpend,
+          variance: budget !== null ? getBudgetVariance(budget, plannedSpend) : null,
+        };
+      });
+
+    const budget = overall ? Number(overall.amount) : null;
+
+    return {
+      teamId: kitchen.id,
+      teamCode: kitchen.teamCode,
+      kitchenName: kitchen.name,
+      region,
+      period,
+      budget,
+      plannedSpend: spend.total,
+      variance: budget !== null ? getBudgetVariance(budget, spend.total) : null,
+      unpricedProducts: spend.unpricedProducts,
+      categories,
+    };
+  });
+}
@@ -0,0 +1,24 @@
+CREATE TABLE "negotiation_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_item_id" integer NOT NULL,
+	"round_number" integer NOT NULL,
+	"offered_price" numeric(12, 2) NOT NULL,
+	"target_price" numeric(12, 2),
+	"recorded_by" integer,
+	"note" text,
+	"recorded_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "negotiation_history_quote_item_id_round_number_unique" UNIQUE("quote_item_id","round_number"),
+	CONSTRAINT "positive_round" CHECK ("negotiation_history"."round_number" > 0),
+	CONSTRAINT "non_negative_negotiation_prices" CHECK ("negotiation_history"."offered_price" >= 0 AND ("negotiation_history"."target_price" >= 0 OR "negotiation_history"."target_price" IS NULL))
+);
+--> statement-breakpoint
+ALTER TABLE "kitchen_period_demands" DROP CONSTRAINT "period_format";--> statement-breakpoint
+ALTER TABLE "price_history" DROP CONSTRAINT "period_format";--> statement-breakpoint
+ALTER TABLE "quotations" DROP CONSTRAINT "period_format";--> statement-breakpoint
+ALTER TABLE "quote_items" ADD COLUMN "approved_round" integer;--> statement-breakpoint
+ALTER TABLE "negotiation_history" ADD CONSTRAINT "negotiation_history_quote_item_id_quote_items_id_fk" FOREIGN KEY ("quote_item_id") REFERENCES "public"."quote_items"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "negotiation_history" ADD CONSTRAINT "negotiation_history_recorded_by_users_id_fk" FOREIGN KEY ("recorded_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_negotiation_history_quote_item" ON "negotiation_history" USING btree ("quote_item_id");--> statement-breakpoint
+ALTER TABLE "kitchen_period_demands" ADD CONSTRAINT "period_format_sequence" CHECK ("kitchen_period_demands"."period" ~ '^\d{4}-\d{2}-\d{2}$');--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "period_format_sequence" CHECK ("price_history"."period" ~ '^\d{4}-\d{2}-\d{2}$');--> statement-breakpoint
+ALTER TABLE "quotations" ADD CONSTRAINT "period_format_sequence" CHECK ("quotations"."period" ~ '^\d{4}-\d{2}-\d{2}$');
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "approval_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quotation_id" integer NOT NULL,
+	"requested_by" integer,
+	"total_value" numeric(15, 2) NOT NULL,
+	"approval_level" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"request_comment" text,
+	"decided_by" integer,
+	"decided_at" timestamp,
+	"decision_comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "valid_approval_request_status" CHECK ("approval_requests"."status" IN ('pending', 'approved', 'rejected', 'cancelled')),
+	CONSTRAINT "non_negative_total_value" CHECK ("approval_requests"."total_value" >= 0)
+);
+--> statement-breakpoint
+ALTER TABLE "quotations" DROP CONSTRAINT "valid_status";--> statement-breakpoint
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_quotation_id_quotations_id_fk" FOREIGN KEY ("quotation_id") REFERENCES "public"."quotations"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "approval_requests" ADD CONSTRAINT "approval_requests_decided_by_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_approval_requests_status" ON "approval_requests" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_approval_requests_quotation" ON "approval_requests" USING btree ("quotation_id");--> statement-breakpoint
+ALTER TABLE "quotations" ADD CONSTRAINT "valid_status" CHECK ("quotations"."status" IN ('pending', 'approved', 'cancelled', 'negotiation', 'pending_approval'));
\ No newline at end of file
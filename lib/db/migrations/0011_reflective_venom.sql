@@ -0,0 +1,21 @@
+CREATE TABLE "target_price_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(200) NOT NULL,
+	"category" varchar(100),
+	"region" varchar(50),
+	"baseline" varchar(30) DEFAULT 'best_price' NOT NULL,
+	"adjustment_percent" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"cap_at_base_price" boolean DEFAULT false NOT NULL,
+	"floor_at_historical_low" boolean DEFAULT false NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "valid_baseline" CHECK ("target_price_rules"."baseline" IN ('best_price', 'previous_approved', 'min_best_previous')),
+	CONSTRAINT "valid_adjustment_percent" CHECK ("target_price_rules"."adjustment_percent" > -100 AND "target_price_rules"."adjustment_percent" <= 100)
+);
+--> statement-breakpoint
+ALTER TABLE "target_price_rules" ADD CONSTRAINT "target_price_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_target_price_rules_scope" ON "target_price_rules" USING btree ("category","region");--> statement-breakpoint
+CREATE INDEX "idx_target_price_rules_active" ON "target_price_rules" USING btree ("is_active");
\ No newline at end of file
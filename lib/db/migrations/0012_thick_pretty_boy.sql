@@ -0,0 +1,15 @@
+CREATE TABLE "price_anomalies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_item_id" integer NOT NULL,
+	"anomaly_type" varchar(30) NOT NULL,
+	"quoted_price" numeric(12, 2),
+	"reference_price" numeric(12, 2),
+	"deviation_percent" numeric(10, 2),
+	"message" text NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "price_anomalies_quote_item_id_anomaly_type_unique" UNIQUE("quote_item_id","anomaly_type"),
+	CONSTRAINT "valid_anomaly_type" CHECK ("price_anomalies"."anomaly_type" IN ('zero_price', 'unit_typo', 'jump_vs_previous', 'jump_vs_median', 'jump_vs_base'))
+);
+--> statement-breakpoint
+ALTER TABLE "price_anomalies" ADD CONSTRAINT "price_anomalies_quote_item_id_quote_items_id_fk" FOREIGN KEY ("quote_item_id") REFERENCES "public"."quote_items"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_price_anomalies_quote_item" ON "price_anomalies" USING btree ("quote_item_id");
\ No newline at end of file
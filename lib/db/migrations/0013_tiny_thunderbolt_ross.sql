@@ -0,0 +1 @@
+ALTER TABLE "suppliers" ADD COLUMN "min_order_value" numeric(15, 2);
\ No newline at end of file
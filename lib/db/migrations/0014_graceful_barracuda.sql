@@ -0,0 +1,20 @@
+CREATE TABLE "award_allocations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"region" varchar(50) NOT NULL,
+	"period" varchar(10) NOT NULL,
+	"share_percent" numeric(5, 2) NOT NULL,
+	"quantity" numeric(12, 2),
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "award_allocations_product_id_region_period_supplier_id_unique" UNIQUE("product_id","region","period","supplier_id"),
+	CONSTRAINT "valid_share_percent" CHECK ("award_allocations"."share_percent" > 0 AND "award_allocations"."share_percent" <= 100)
+);
+--> statement-breakpoint
+ALTER TABLE "award_allocations" ADD CONSTRAINT "award_allocations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "award_allocations" ADD CONSTRAINT "award_allocations_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "award_allocations" ADD CONSTRAINT "award_allocations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_award_allocations_product_region_period" ON "award_allocations" USING btree ("product_id","region","period");--> statement-breakpoint
+CREATE INDEX "idx_award_allocations_region_period" ON "award_allocations" USING btree ("region","period");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "quotations" DROP CONSTRAINT "valid_status";--> statement-breakpoint
+ALTER TABLE "quote_items" ADD COLUMN "rejected_at" timestamp;--> statement-breakpoint
+ALTER TABLE "quote_items" ADD COLUMN "rejected_by" integer;--> statement-breakpoint
+ALTER TABLE "quote_items" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "quote_items" ADD CONSTRAINT "quote_items_rejected_by_users_id_fk" FOREIGN KEY ("rejected_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "quotations" ADD CONSTRAINT "valid_status" CHECK ("quotations"."status" IN ('pending', 'approved', 'partially_approved', 'cancelled', 'negotiation', 'pending_approval'));
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "price_history" DROP CONSTRAINT "valid_price_type";--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN "details" text;--> statement-breakpoint
+ALTER TABLE "price_history" ADD COLUMN "reverses_id" integer;--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_reverses_id_price_history_id_fk" FOREIGN KEY ("reverses_id") REFERENCES "public"."price_history"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_reverses_id_unique" UNIQUE("reverses_id");--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "revoked_reverses_entry" CHECK (("price_history"."price_type" = 'revoked') = ("price_history"."reverses_id" IS NOT NULL));--> statement-breakpoint
+ALTER TABLE "price_history" ADD CONSTRAINT "valid_price_type" CHECK ("price_history"."price_type" IN ('initial', 'negotiated', 'approved', 'revoked'));
\ No newline at end of file
@@ -0,0 +1,44 @@
+CREATE TABLE "periods" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(10) NOT NULL,
+	"name" varchar(100),
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp NOT NULL,
+	"submission_deadline" timestamp,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"closed_at" timestamp,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "periods_code_unique" UNIQUE("code"),
+	CONSTRAINT "period_format_sequence" CHECK ("periods"."code" ~ '^\d{4}-\d{2}-\d{2}$'),
+	CONSTRAINT "valid_period_status" CHECK ("periods"."status" IN ('open', 'collecting', 'negotiating', 'closed')),
+	CONSTRAINT "valid_period_date_range" CHECK ("periods"."end_date" >= "periods"."start_date")
+);
+--> statement-breakpoint
+ALTER TABLE "periods" ADD CONSTRAINT "periods_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_periods_status" ON "periods" USING btree ("status");--> statement-breakpoint
+INSERT INTO "periods" ("code", "start_date", "end_date", "status")
+SELECT
+	"code",
+	"month_start" + ("sequence" * "month_days" / "month_periods")::int,
+	"month_start" + (("sequence" + 1) * "month_days" / "month_periods")::int - 1,
+	'collecting'
+FROM (
+	SELECT
+		"code",
+		"month_start",
+		("month_start" + interval '1 month')::date - "month_start" AS "month_days",
+		row_number() OVER (PARTITION BY "month_start" ORDER BY "code") - 1 AS "sequence",
+		count(*) OVER (PARTITION BY "month_start") AS "month_periods"
+	FROM (
+		SELECT "code", to_date(left("code", 7) || '-01', 'YYYY-MM-DD') AS "month_start"
+		FROM (
+			SELECT "period" AS "code" FROM "quotations"
+			UNION SELECT "period" FROM "kitchen_period_demands"
+			UNION SELECT "period" FROM "price_history"
+		) AS "existing_codes"
+		WHERE "code" ~ '^\d{4}-\d{2}-\d{2}$'
+	) AS "dated_codes"
+) AS "existing_periods"
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,19 @@
+CREATE TABLE "stored_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"storage_driver" varchar(20) NOT NULL,
+	"storage_key" varchar(500) NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"content_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"purpose" varchar(50) NOT NULL,
+	"region" varchar(50),
+	"period" varchar(10),
+	"expires_at" timestamp NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "stored_files_storage_key_unique" UNIQUE("storage_key"),
+	CONSTRAINT "valid_stored_file_size" CHECK ("stored_files"."size" >= 0)
+);
+--> statement-breakpoint
+ALTER TABLE "stored_files" ADD CONSTRAINT "stored_files_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_stored_files_expires_at" ON "stored_files" USING btree ("expires_at");
\ No newline at end of file
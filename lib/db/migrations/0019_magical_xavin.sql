@@ -0,0 +1,19 @@
+CREATE TABLE "supplier_portal_links" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"period" varchar(10) NOT NULL,
+	"region" varchar(50) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"last_accessed_at" timestamp,
+	"submitted_at" timestamp,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "supplier_portal_links_token_hash_unique" UNIQUE("token_hash"),
+	CONSTRAINT "period_format_sequence" CHECK ("supplier_portal_links"."period" ~ '^\d{4}-\d{2}-\d{2}$')
+);
+--> statement-breakpoint
+ALTER TABLE "supplier_portal_links" ADD CONSTRAINT "supplier_portal_links_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_portal_links" ADD CONSTRAINT "supplier_portal_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_supplier_portal_links_scope" ON "supplier_portal_links" USING btree ("supplier_id","period","region");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "idx_kitchen_demands_period_product" ON "kitchen_period_demands" USING btree ("period","product_id");--> statement-breakpoint
+CREATE INDEX "idx_quote_items_product" ON "quote_items" USING btree ("product_id");
\ No newline at end of file
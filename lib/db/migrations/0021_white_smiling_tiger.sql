@@ -0,0 +1,19 @@
+CREATE TABLE "kitchen_demand_submissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"period" varchar(10) NOT NULL,
+	"status" varchar(20) DEFAULT 'draft' NOT NULL,
+	"submitted_at" timestamp,
+	"submitted_by" integer,
+	"reopened_at" timestamp,
+	"reopened_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "kitchen_demand_submissions_team_id_period_unique" UNIQUE("team_id","period"),
+	CONSTRAINT "period_format_sequence" CHECK ("kitchen_demand_submissions"."period" ~ '^\d{4}-\d{2}-\d{2}$'),
+	CONSTRAINT "valid_status" CHECK ("kitchen_demand_submissions"."status" IN ('draft', 'submitted'))
+);
+--> statement-breakpoint
+ALTER TABLE "kitchen_demand_submissions" ADD CONSTRAINT "kitchen_demand_submissions_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "kitchen_demand_submissions" ADD CONSTRAINT "kitchen_demand_submissions_submitted_by_users_id_fk" FOREIGN KEY ("submitted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "kitchen_demand_submissions" ADD CONSTRAINT "kitchen_demand_submissions_reopened_by_users_id_fk" FOREIGN KEY ("reopened_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
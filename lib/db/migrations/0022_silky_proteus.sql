@@ -0,0 +1,49 @@
+CREATE TABLE "purchase_order_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"purchase_order_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"quote_item_id" integer,
+	"quantity" numeric(12, 2) NOT NULL,
+	"unit" varchar(50) NOT NULL,
+	"unit_price" numeric(12, 2) NOT NULL,
+	"vat_percentage" numeric(5, 2) NOT NULL,
+	"share_percent" numeric(5, 2),
+	"line_subtotal" numeric(14, 2) NOT NULL,
+	"line_vat" numeric(14, 2) NOT NULL,
+	"line_total" numeric(14, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "purchase_order_items_purchase_order_id_product_id_unique" UNIQUE("purchase_order_id","product_id"),
+	CONSTRAINT "positive_quantity" CHECK ("purchase_order_items"."quantity" > 0)
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"po_number" varchar(30) NOT NULL,
+	"period" varchar(10) NOT NULL,
+	"region" varchar(50) NOT NULL,
+	"team_id" integer NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'draft' NOT NULL,
+	"subtotal" numeric(14, 2) NOT NULL,
+	"vat_amount" numeric(14, 2) NOT NULL,
+	"total_amount" numeric(14, 2) NOT NULL,
+	"notes" text,
+	"sent_at" timestamp,
+	"confirmed_at" timestamp,
+	"received_at" timestamp,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "purchase_orders_po_number_unique" UNIQUE("po_number"),
+	CONSTRAINT "purchase_orders_period_team_id_supplier_id_unique" UNIQUE("period","team_id","supplier_id"),
+	CONSTRAINT "period_format_sequence" CHECK ("purchase_orders"."period" ~ '^\d{4}-\d{2}-\d{2}$'),
+	CONSTRAINT "valid_status" CHECK ("purchase_orders"."status" IN ('draft', 'sent', 'confirmed', 'received'))
+);
+--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_quote_item_id_quote_items_id_fk" FOREIGN KEY ("quote_item_id") REFERENCES "public"."quote_items"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_purchase_orders_period_region" ON "purchase_orders" USING btree ("period","region");
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "invoice_lines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"period" varchar(10) NOT NULL,
+	"region" varchar(50) NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"team_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"quote_item_id" integer,
+	"invoice_number" varchar(50),
+	"invoice_date" timestamp NOT NULL,
+	"quantity" numeric(12, 2) NOT NULL,
+	"unit_price" numeric(12, 2) NOT NULL,
+	"approved_price" numeric(12, 2),
+	"status" varchar(20) NOT NULL,
+	"overcharge_amount" numeric(14, 2) DEFAULT '0' NOT NULL,
+	"source_file" varchar(255) NOT NULL,
+	"imported_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "period_format_sequence" CHECK ("invoice_lines"."period" ~ '^\d{4}-\d{2}-\d{2}$'),
+	CONSTRAINT "valid_status" CHECK ("invoice_lines"."status" IN ('compliant', 'overcharged', 'unapproved'))
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_quote_item_id_quote_items_id_fk" FOREIGN KEY ("quote_item_id") REFERENCES "public"."quote_items"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_imported_by_users_id_fk" FOREIGN KEY ("imported_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_invoice_lines_period_region" ON "invoice_lines" USING btree ("period","region");--> statement-breakpoint
+CREATE INDEX "idx_invoice_lines_supplier" ON "invoice_lines" USING btree ("supplier_id");--> statement-breakpoint
+CREATE INDEX "idx_invoice_lines_source_file" ON "invoice_lines" USING btree ("source_file");
\ No newline at end of file
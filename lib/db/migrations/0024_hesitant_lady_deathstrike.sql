@@ -0,0 +1,18 @@
+CREATE TABLE "kitchen_budgets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"period" varchar(10) NOT NULL,
+	"category" varchar(100),
+	"amount" numeric(14, 2) NOT NULL,
+	"notes" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "period_format_sequence" CHECK ("kitchen_budgets"."period" ~ '^\d{4}-\d{2}-\d{2}$'),
+	CONSTRAINT "non_negative_amount" CHECK ("kitchen_budgets"."amount" >= 0)
+);
+--> statement-breakpoint
+ALTER TABLE "kitchen_budgets" ADD CONSTRAINT "kitchen_budgets_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "kitchen_budgets" ADD CONSTRAINT "kitchen_budgets_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_kitchen_budgets_scope" ON "kitchen_budgets" USING btree ("team_id","period",COALESCE("category", ''));--> statement-breakpoint
+CREATE INDEX "idx_kitchen_budgets_period" ON "kitchen_budgets" USING btree ("period");
\ No newline at end of file
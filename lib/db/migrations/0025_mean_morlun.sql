@@ -0,0 +1,23 @@
+CREATE TABLE "supplier_import_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"sheet_name" varchar(100),
+	"header_row" integer DEFAULT 1 NOT NULL,
+	"product_code_column" integer NOT NULL,
+	"price_column" integer NOT NULL,
+	"vat_column" integer,
+	"unit_column" integer,
+	"quantity_column" integer,
+	"notes_column" integer,
+	"created_by" integer,
+	"updated_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "supplier_import_profiles_supplier_id_unique" UNIQUE("supplier_id"),
+	CONSTRAINT "positive_header_row" CHECK ("supplier_import_profiles"."header_row" > 0),
+	CONSTRAINT "positive_columns" CHECK ("supplier_import_profiles"."product_code_column" > 0 AND "supplier_import_profiles"."price_column" > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "supplier_import_profiles" ADD CONSTRAINT "supplier_import_profiles_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_import_profiles" ADD CONSTRAINT "supplier_import_profiles_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "supplier_import_profiles" ADD CONSTRAINT "supplier_import_profiles_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
@@ -0,0 +1,56 @@
+CREATE TABLE "quotation_version_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"version_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"quantity" numeric(12, 2),
+	"price" numeric(12, 2) NOT NULL,
+	"vat_percentage" numeric(5, 2) DEFAULT '0',
+	"notes" text,
+	CONSTRAINT "quotation_version_items_version_id_product_id_unique" UNIQUE("version_id","product_id"),
+	CONSTRAINT "non_negative_version_price" CHECK ("quotation_version_items"."price" >= 0)
+);
+--> statement-breakpoint
+CREATE TABLE "quotation_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quotation_id" integer NOT NULL,
+	"version_number" integer NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"source_file_id" integer,
+	"source_file_name" varchar(255),
+	"quote_date" timestamp,
+	"item_count" integer NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quotation_versions_quotation_id_version_number_unique" UNIQUE("quotation_id","version_number"),
+	CONSTRAINT "positive_version_number" CHECK ("quotation_versions"."version_number" > 0),
+	CONSTRAINT "valid_version_source" CHECK ("quotation_versions"."source" IN ('excel_import', 'supplier_portal'))
+);
+--> statement-breakpoint
+ALTER TABLE "quotation_version_items" ADD CONSTRAINT "quotation_version_items_version_id_quotation_versions_id_fk" FOREIGN KEY ("version_id") REFERENCES "public"."quotation_versions"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "quotation_version_items" ADD CONSTRAINT "quotation_version_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "quotation_versions" ADD CONSTRAINT "quotation_versions_quotation_id_quotations_id_fk" FOREIGN KEY ("quotation_id") REFERENCES "public"."quotations"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "quotation_versions" ADD CONSTRAINT "quotation_versions_source_file_id_stored_files_id_fk" FOREIGN KEY ("source_file_id") REFERENCES "public"."stored_files"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "quotation_versions" ADD CONSTRAINT "quotation_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+INSERT INTO "quotation_versions" ("quotation_id", "version_number", "source", "quote_date", "item_count", "created_by", "created_at")
+SELECT
+	"quotations"."id",
+	1,
+	'excel_import',
+	"quotations"."quote_date",
+	count("quote_items"."id"),
+	"quotations"."created_by",
+	"quotations"."created_at"
+FROM "quotations"
+INNER JOIN "quote_items" ON "quote_items"."quotation_id" = "quotations"."id"
+GROUP BY "quotations"."id";
+--> statement-breakpoint
+INSERT INTO "quotation_version_items" ("version_id", "product_id", "quantity", "price", "vat_percentage", "notes")
+SELECT
+	"quotation_versions"."id",
+	"quote_items"."product_id",
+	"quote_items"."quantity",
+	COALESCE("quote_items"."initial_price", 0),
+	"quote_items"."vat_percentage",
+	"quote_items"."notes"
+FROM "quote_items"
+INNER JOIN "quotation_versions" ON "quotation_versions"."quotation_id" = "quote_items"."quotation_id";
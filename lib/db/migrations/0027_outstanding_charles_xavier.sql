@@ -0,0 +1,46 @@
+CREATE TABLE "import_job_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" integer NOT NULL,
+	"stored_file_id" integer,
+	"file_name" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "import_job_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" integer NOT NULL,
+	"job_file_id" integer,
+	"level" varchar(10) NOT NULL,
+	"sheet_name" varchar(100),
+	"row_number" integer,
+	"message" text NOT NULL,
+	CONSTRAINT "valid_import_job_message_level" CHECK ("import_job_messages"."level" IN ('error', 'warning'))
+);
+--> statement-breakpoint
+CREATE TABLE "import_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"region" varchar(50),
+	"period" varchar(10),
+	"total_files" integer DEFAULT 0 NOT NULL,
+	"processed_files" integer DEFAULT 0 NOT NULL,
+	"created_count" integer DEFAULT 0 NOT NULL,
+	"updated_count" integer DEFAULT 0 NOT NULL,
+	"item_count" integer DEFAULT 0 NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	CONSTRAINT "valid_import_job_type" CHECK ("import_jobs"."type" IN ('quotations', 'products')),
+	CONSTRAINT "valid_import_job_status" CHECK ("import_jobs"."status" IN ('running', 'completed', 'partial', 'failed'))
+);
+--> statement-breakpoint
+ALTER TABLE "quotations" ADD COLUMN "import_job_id" integer;--> statement-breakpoint
+ALTER TABLE "import_job_files" ADD CONSTRAINT "import_job_files_job_id_import_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."import_jobs"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "import_job_files" ADD CONSTRAINT "import_job_files_stored_file_id_stored_files_id_fk" FOREIGN KEY ("stored_file_id") REFERENCES "public"."stored_files"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "import_job_messages" ADD CONSTRAINT "import_job_messages_job_id_import_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."import_jobs"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "import_job_messages" ADD CONSTRAINT "import_job_messages_job_file_id_import_job_files_id_fk" FOREIGN KEY ("job_file_id") REFERENCES "public"."import_job_files"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "idx_import_job_messages_job" ON "import_job_messages" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "idx_import_jobs_created_at" ON "import_jobs" USING btree ("created_at");--> statement-breakpoint
+ALTER TABLE "quotations" ADD CONSTRAINT "quotations_import_job_id_import_jobs_id_fk" FOREIGN KEY ("import_job_id") REFERENCES "public"."import_jobs"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
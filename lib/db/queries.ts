@@ -1,6 +1,28 @@
-import { desc, and, eq, isNull, sql } from 'drizzle-orm';
+import { desc, and, eq, isNull, sql, inArray, asc, lt } from 'drizzle-orm';
 import { db } from './drizzle';
-import { activityLogs, teamMembers, teams, users } from './schema';
+import {
+  activityLogs,
+  awardAllocations,
+  kitchenPeriodDemands,
+  negotiationHistory,
+  periods,
+  priceAnomalies,
+  priceHistory,
+  teamMembers,
+  teams,
+  users,
+  type Period
+} from './schema';
+import type {
+  AwardAllocationEntry,
+  NegotiationRoundEntry,
+  RegionalKitchenDemand
+} from '@/lib/types/quote-comparison.types';
+import type {
+  PriceAnomaly,
+  PriceAnomalyReferences,
+  PriceAnomalyType
+} from '@/lib/utils/price-anomaly';
 import { cookies } from 'next/headers';
 import { verifyToken } from '@/lib/auth/session';
 
@@ -64,6 +86,13 @@ export async function updateTeamSubscription(
     .where(eq(teams.id, teamId));
 }
 
+/**
+ * Filter for price history entries that no revoked approval has reversed
+ */
+export function priceHistoryNotReversed() {
+  return sql`NOT EXISTS (SELECT 1 FROM ${priceHistory} reversal WHERE reversal.reverses_id = ${priceHistory.id})`;
+}
+
 export async function getUserWithTeam(userId: number) {
   const result = await db
     .select({
@@ -88,6 +117,7 @@ export async function getActivityLogs() {
     .select({
       id: activityLogs.id,
       action: activityLogs.action,
+      details: activityLogs.details,
       timestamp: activityLogs.timestamp,
       ipAddress: activityLogs.ipAddress,
       userName: users.name
@@ -129,6 +159,273 @@ export async function getTeamForUser() {
   return result?.team || null;
 }
 
+/**
+ * Load recorded negotiation rounds for a set of quote items
+ * Returns a map of quote item id -> rounds ordered by round number
+ */
+export async function getNegotiationHistory(
+  quoteItemIds: number[]
+): Promise<Map<number, NegotiationRoundEntry[]>> {
+  const historyMap = new Map<number, NegotiationRoundEntry[]>();
+
+  if (quoteItemIds.length === 0) {
+    return historyMap;
+  }
+
+  const rounds = await db
+    .select({
+      quoteItemId: negotiationHistory.quoteItemId,
+      roundNumber: negotiationHistory.roundNumber,
+      offeredPrice: negotiationHistory.offeredPrice,
+      targetPrice: negotiationHistory.targetPrice,
+      recordedByName: users.name,
+      note: negotiationHistory.note,
+      recordedAt: negotiationHistory.recordedAt
+    })
+    .from(negotiationHistory)
+    .leftJoin(users, eq(negotiationHistory.recordedBy, users.id))
+    .where(inArray(negotiationHistory.quoteItemId, quoteItemIds))
+    .orderBy(asc(negotiationHistory.quoteItemId), asc(negotiationHistory.roundNumber));
+
+  for (const round of rounds) {
+    const entries = historyMap.get(round.quoteItemId) ?? [];
+    entries.push({
+      roundNumber: round.roundNumber,
+      offeredPrice: Number(round.offeredPrice),
+      targetPrice: round.targetPrice !== null ? Number(round.targetPrice) : null,
+      recordedByName: round.recordedByName,
+      note: round.note,
+      recordedAt: round.recordedAt
+    });
+    historyMap.set(round.quoteItemId, entries);
+  }
+
+  return historyMap;
+}
+
+/**
+ * Load persisted price anomalies for a set of quote items
+ * Returns a map of quote item id -> anomalies flagged at import
+ */
+export async function getPriceAnomalies(
+  quoteItemIds: number[]
+): Promise<Map<number, PriceAnomaly[]>> {
+  const anomalyMap = new Map<number, PriceAnomaly[]>();
+
+  if (quoteItemIds.length === 0) {
+    return anomalyMap;
+  }
+
+  const rows = await db
+    .select()
+    .from(priceAnomalies)
+    .where(inArray(priceAnomalies.quoteItemId, quoteItemIds))
+    .orderBy(asc(priceAnomalies.quoteItemId), asc(priceAnomalies.id));
+
+  for (const row of rows) {
+    const entries = anomalyMap.get(row.quoteItemId) ?? [];
+    entries.push({
+      type: row.anomalyType as PriceAnomalyType,
+      referencePrice: row.referencePrice !== null ? Number(row.referencePrice) : null,
+      deviationPercent: row.deviationPercent !== null ? Number(row.deviationPercent) : null,
+      message: row.message
+    });
+    anomalyMap.set(row.quoteItemId, entries);
+  }
+
+  return anomalyMap;
+}
+
+/**
+ * Load lifecycle records of the given period codes
+ * Returns a map of period code -> period; codes without a record are absent.
+ */
+export async function getPeriodsByCodes(
+  codes: string[]
+): Promise<Map<string, Period>> {
+  if (codes.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select()
+    .from(periods)
+    .where(inArray(periods.code, [...new Set(codes)]));
+
+  return new Map(rows.map((row) => [row.code, row]));
+}
+
+/**
+ * Load the active demand of a region's kitchens for a period
+ * Sums the demand of active KITCHEN teams in the region per product and keeps
+ * the per-kitchen lines; products no kitchen ordered are absent.
+ */
+export async function getRegionalKitchenDemands(
+  period: string,
+  region: string,
+  productIds?: number[]
+): Promise<Map<number, RegionalKitchenDemand>> {
+  const demandMap = new Map<number, RegionalKitchenDemand>();
+
+  if (productIds && productIds.length === 0) {
+    return demandMap;
+  }
+
+  const conditions = [
+    eq(kitchenPeriodDemands.period, period),
+    eq(kitchenPeriodDemands.status, 'active'),
+    eq(teams.region, region),
+    eq(teams.teamType, 'KITCHEN'),
+    eq(teams.status, 'active'),
+    isNull(teams.deletedAt)
+  ];
+  if (productIds) {
+    conditions.push(inArray(kitchenPeriodDemands.productId, productIds));
+  }
+
+  const rows = await db
+    .select({
+      productId: kitchenPeriodDemands.productId,
+      teamId: teams.id,
+      teamCode: teams.teamCode,
+      kitchenName: teams.name,
+      quantity: kitchenPeriodDemands.quantity
+    })
+    .from(kitchenPeriodDemands)
+    .innerJoin(teams, eq(kitchenPeriodDemands.teamId, teams.id))
+    .where(and(...conditions))
+    .orderBy(asc(kitchenPeriodDemands.productId), asc(teams.teamCode));
+
+  for (const row of rows) {
+    const demand = demandMap.get(row.productId) ?? { total: 0, kitchens: [] };
+    const quantity = Number(row.quantity);
+    demand.total += quantity;
+    demand.kitchens.push({
+      teamId: row.teamId,
+      teamCode: row.teamCode,
+      kitchenName: row.kitchenName,
+      quantity
+    });
+    demandMap.set(row.productId, demand);
+  }
+
+  return demandMap;
+}
+
+/**
+ * Load split-award allocations of a region and period
+ * Returns a map of product id -> supplier shares (largest share first)
+ */
+export async function getAwardAllocations(
+  region: string,
+  period: string,
+  productIds?: number[]
+): Promise<Map<number, AwardAllocationEntry[]>> {
+  const allocationMap = new Map<number, AwardAllocationEntry[]>();
+
+  if (productIds && productIds.length === 0) {
+    return allocationMap;
+  }
+
+  const conditions = [
+    eq(awardAllocations.region, region),
+    eq(awardAllocations.period, period)
+  ];
+  if (productIds) {
+    conditions.push(inArray(awardAllocations.productId, productIds));
+  }
+
+  const rows = await db
+    .select()
+    .from(awardAllocations)
+    .where(and(...conditions))
+    .orderBy(asc(awardAllocations.productId), desc(awardAllocations.sharePercent));
+
+  for (const row of rows) {
+    const entries = allocationMap.get(row.productId) ?? [];
+    entries.push({
+      supplierId: row.supplierId,
+      sharePercent: Number(row.sharePercent),
+      quantity: row.quantity !== null ? Number(row.quantity) : null
+    });
+    allocationMap.set(row.productId, entries);
+  }
+
+  return allocationMap;
+}
+
+/**
+ * Load the reference prices used to detect anomalies in an imported quotation
+ * - previous approved price of the supplier (latest period before `period`)
+ * - regional median of approved prices before `period`
+ * Returns a map of product id -> references (basePrice is added by the caller)
+ */
+export async function getPriceAnomalyReferences(
+  productIds: number[],
+  supplierId: number,
+  region: string,
+  period: string
+): Promise<Map<number, PriceAnomalyReferences>> {
+  const referenceMap = new Map<number, PriceAnomalyReferences>();
+
+  if (productIds.length === 0) {
+    return referenceMap;
+  }
+
+  const [previousPrices, medianPrices] = await Promise.all([
+    db
+      .selectDistinctOn([priceHistory.productId], {
+        productId: priceHistory.productId,
+        price: priceHistory.price
+      })
+      .from(priceHistory)
+      .where(
+        and(
+          inArray(priceHistory.productId, productIds),
+          eq(priceHistory.supplierId, supplierId),
+          eq(priceHistory.region, region),
+          eq(priceHistory.priceType, 'approved'),
+          priceHistoryNotReversed(),
+          lt(priceHistory.period, period)
+        )
+      )
+      .orderBy(
+        priceHistory.productId,
+        desc(priceHistory.period),
+        desc(priceHistory.recordedAt)
+      ),
+    db
+      .select({
+        productId: priceHistory.productId,
+        medianPrice: sql<string>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${priceHistory.price})`
+      })
+      .from(priceHistory)
+      .where(
+        and(
+          inArray(priceHistory.productId, productIds),
+          eq(priceHistory.region, region),
+          eq(priceHistory.priceType, 'approved'),
+          priceHistoryNotReversed(),
+          lt(priceHistory.period, period)
+        )
+      )
+      .groupBy(priceHistory.productId)
+  ]);
+
+  for (const row of previousPrices) {
+    referenceMap.set(row.productId, { previousApprovedPrice: Number(row.price) });
+  }
+
+  for (const row of medianPrices) {
+    referenceMap.set(row.productId, {
+      ...referenceMap.get(row.productId),
+      regionalMedianPrice: Number(row.medianPrice)
+    });
+  }
+
+  return referenceMap;
+}
+
 export async function getUserWithTeams(userId: number) {
   try {
     const result = await db
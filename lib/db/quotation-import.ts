@@ -0,0 +1,805 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./drizzle";
+import {
+  quotations,
+  quoteItems,
+  suppliers,
+  products,
+  negotiationHistory,
+  priceAnomalies,
+  supplierImportProfiles,
+  quotationVersions,
+  quotationVersionItems,
+  type NewPriceAnomalyRecord,
+  type NewQuotationVersionItem,
+  type Product,
+  type Quotation,
+  type Supplier,
+  type SupplierImportProfile,
+} from "./schema";
+import { getPriceAnomalyReferences } from "./queries";
+import type {
+  ParsedQuotation,
+  QuotationFileProfile,
+} from "@/lib/utils/excel-parser";
+import type { ImportColumnMapping } from "@/lib/utils/import-profile";
+import {
+  detectPriceAnomalies,
+  type PriceAnomalyReferences,
+} from "@/lib/utils/price-anomaly";
+import { diffQuotationItems } from "@/lib/utils/quotation-diff";
+import type {
+  QuotationImportPreview,
+  QuotationVersionSource,
+} from "@/lib/types/quotations.types";
+
+/**
+ * Quotation persistence shared by the Excel import and the supplier portal
+ *
+ * Both channels produce a ParsedQuotation and write it through
+ * saveParsedQuotation, so they create identical quotations/quote_items rows
+ * and run the same validation and price anomaly pass. previewParsedQuotation
+ * runs the same validation without writing, for the import dry run.
+ *
+ * Every save also appends an immutable quotation_versions snapshot of what
+ * the supplier sent. The quotations/quote_items rows stay the current
+ * version that comparison and approval work on.
+ */
+
+export interface SaveParsedQuotationOptions {
+  period: string;
+  region: string;
+  overwrite: boolean; // Replace the items of an existing pending quotation
+  userId: number; // Recorded as creator / negotiation recorder
+  source?: QuotationVersionSource; // Defaults to excel_import
+  sourceFile?: { id: number | null; fileName: string } | null; // Uploaded file the version was read from
+  importJobId?: number | null; // Recorded on quotations the save creates
+  importBlockReason?: string | null; // Set once the period only takes re-quotes of quotations in negotiation
+}
+
+export interface SaveParsedQuotationResult {
+  saved: boolean;
+  isUpdate: boolean;
+  supplierCode: string;
+  totalItems: number;
+  versionNumber: number | null; // Version created by the save
+  errors: string[]; // Validation failures - nothing was written
+  rowErrors: ImportRowError[]; // Failures located at an item's source row
+  warnings: string[];
+  anomalyWarnings: string[]; // One entry per flagged item (see price-anomaly.ts)
+}
+
+interface ValidatedQuotation {
+  supplier: Supplier;
+  existingProducts: Product[];
+  anomalyReferences: Map<number, PriceAnomalyReferences>;
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  message: string;
+}
+
+/**
+ * Validate the region, supplier and products of a parsed quotation and load
+ * the reference prices for the anomaly pass
+ * Failures are added to `errors` (and `rowErrors` when located at an item
+ * row) and `warnings`, and null is returned.
+ */
+async function validateParsedQuotation(
+  parsed: ParsedQuotation,
+  period: string,
+  region: string,
+  errors: string[],
+  warnings: string[],
+  rowErrors: ImportRowError[] = []
+): Promise<ValidatedQuotation | null> {
+  // Validate that region matches (period is provided by the caller, not the source)
+  if (parsed.info.region !== region) {
+    errors.push(
+      `Khu vực trong file (${parsed.info.region || "N/A"}) không khớp với khu vực đã chọn (${region})`
+    );
+    return null;
+  }
+
+  // Validate supplier exists
+  const supplierCode = parsed.info.supplierCode;
+  if (!supplierCode) {
+    errors.push("Thiếu mã nhà cung cấp");
+    return null;
+  }
+
+  const [supplier] = await db
+    .select()
+    .from(suppliers)
+    .where(eq(suppliers.supplierCode, supplierCode))
+    .limit(1);
+
+  if (!supplier) {
+    errors.push(`Không tìm thấy nhà cung cấp với mã ${supplierCode}`);
+    return null;
+  }
+
+  // Validate all products exist with input normalization
+  const productCodes = parsed.items.map((item) => {
+    if (!item?.productCode) {
+      throw new Error("Product code is missing or invalid");
+    }
+    return item.productCode.trim().toUpperCase();
+  });
+
+  const existingProducts = await db
+    .select()
+    .from(products)
+    .where(inArray(products.productCode, productCodes));
+
+  const existingProductCodes = new Set(
+    existingProducts
+      .map((p) => p.productCode?.trim().toUpperCase())
+      .filter(Boolean)
+  );
+  const missingProducts = [];
+
+  // Granular validation with detailed reporting
+  for (let i = 0; i < productCodes.length; i++) {
+    const normalizedCode = productCodes[i];
+    const originalItem = parsed.items[i];
+
+    if (!existingProductCodes.has(normalizedCode)) {
+      missingProducts.push({
+        code: originalItem.productCode,
+        normalizedCode,
+        row: originalItem.sourceRow ?? i + 2, // Excel row number (accounting for header)
+      });
+      rowErrors.push({
+        rowNumber: originalItem.sourceRow ?? i + 2,
+        message: `Không tìm thấy sản phẩm với mã ${originalItem.productCode}`,
+      });
+    }
+  }
+
+  if (missingProducts.length > 0) {
+    const errorDetails = missingProducts
+      .map((p) => `${p.code} (dòng ${p.row})`)
+      .join(", ");
+    errors.push(`Không tìm thấy sản phẩm với mã: ${errorDetails}`);
+
+    // Add warning if normalization might help
+    if (missingProducts.some((p) => p.code !== p.normalizedCode)) {
+      warnings.push(
+        "Một số mã sản phẩm đã được chuẩn hóa (loại bỏ khoảng trắng, chuyển thành chữ hoa) nhưng vẫn không tìm thấy"
+      );
+    }
+    return null;
+  }
+
+  // Reference prices for the anomaly pass
+  const anomalyReferences = await getPriceAnomalyReferences(
+    existingProducts.map((p) => p.id),
+    supplier.id,
+    region,
+    period
+  );
+  existingProducts.forEach((p) => {
+    anomalyReferences.set(p.id, {
+      ...anomalyReferences.get(p.id),
+      basePrice: p.basePrice ? Number(p.basePrice) : null,
+    });
+  });
+
+  return { supplier, existingProducts, anomalyReferences };
+}
+
+/**
+ * Why an import cannot write to the existing quotation, or null when it can
+ * Pending quotations are replaced only with overwrite; quotations in
+ * negotiation are re-quoted; other statuses are locked.
+ */
+function getExistingQuotationBlockReason(
+  existingQuotation: Quotation,
+  overwrite: boolean,
+  supplierCode: string | null,
+  period: string,
+  region: string
+): string | null {
+  if (existingQuotation.status === "negotiation") return null;
+
+  if (existingQuotation.status === "pending") {
+    return overwrite
+      ? null
+      : `Báo giá đã tồn tại cho NCC ${supplierCode} trong kỳ ${period} tại ${region}. Vui lòng chọn "Ghi đè" để cập nhật.`;
+  }
+
+  return `Không thể cập nhật báo giá ở trạng thái '${existingQuotation.status}'. Chỉ có thể cập nhật báo giá ở trạng thái 'pending' hoặc 'negotiation'.`;
+}
+
+/**
+ * Why the period refuses the write, or null when it can go ahead
+ * Once the period stops taking quotations, only those in negotiation are re-quoted.
+ */
+function getPeriodWriteBlockReason(
+  existingQuotation: Quotation | undefined,
+  importBlockReason: string | null | undefined
+): string | null {
+  if (!importBlockReason || existingQuotation?.status === "negotiation") return null;
+
+  return `${importBlockReason} - chỉ nhận báo giá lại cho báo giá đang đàm phán`;
+}
+
+/**
+ * Validate a parsed quotation and write it in one transaction
+ * Validation failures are returned in `errors`; write failures (e.g. a quotation
+ * in a status that cannot be updated) are thrown.
+ */
+export async function saveParsedQuotation(
+  parsed: ParsedQuotation,
+  {
+    period,
+    region,
+    overwrite,
+    userId,
+    source = "excel_import",
+    sourceFile,
+    importJobId,
+    importBlockReason,
+  }: SaveParsedQuotationOptions
+): Promise<SaveParsedQuotationResult> {
+  const result: SaveParsedQuotationResult = {
+    saved: false,
+    isUpdate: false,
+    supplierCode: parsed.info.supplierCode,
+    totalItems: 0,
+    versionNumber: null,
+    errors: [],
+    rowErrors: [],
+    warnings: [],
+    anomalyWarnings: [],
+  };
+
+  const validated = await validateParsedQuotation(
+    parsed,
+    period,
+    region,
+    result.errors,
+    result.warnings,
+    result.rowErrors
+  );
+  if (!validated) {
+    return result;
+  }
+
+  const { supplier, existingProducts, anomalyReferences } = validated;
+  const anomalyWarnings: string[] = [];
+  const quoteDate = parsed.info.quoteDate ? new Date(parsed.info.quoteDate) : null;
+
+  await db.transaction(async (tx) => {
+    // Check for existing quotation
+    const [existingQuotation] = await tx
+      .select()
+      .from(quotations)
+      .where(
+        and(
+          eq(quotations.supplierId, supplier.id),
+          eq(quotations.period, period),
+          eq(quotations.region, region)
+        )
+      )
+      .limit(1);
+
+    const periodBlockReason = getPeriodWriteBlockReason(existingQuotation, importBlockReason);
+    if (periodBlockReason) {
+      throw new Error(periodBlockReason);
+    }
+
+    let quotationId: number;
+
+    if (existingQuotation) {
+      const blockReason = getExistingQuotationBlockReason(
+        existingQuotation,
+        overwrite,
+        supplier.supplierCode,
+        period,
+        region
+      );
+      if (blockReason) {
+        throw new Error(blockReason);
+      }
+
+      // Handle different update scenarios based on quotation status
+      if (existingQuotation.status === "negotiation") {
+        // Intelligent update: Update negotiated prices for quotations in negotiation
+        quotationId = existingQuotation.id;
+        result.isUpdate = true;
+
+        // Update quotation metadata
+        await tx
+          .update(quotations)
+          .set({
+            quoteDate,
+            updateDate: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(quotations.id, existingQuotation.id));
+
+        // For negotiation status, we'll update negotiated_price instead of replacing items
+        // This will be handled in the item processing loop below
+      } else {
+        // Update existing pending quotation (standard overwrite)
+        await tx
+          .update(quotations)
+          .set({
+            quoteDate,
+            updateDate: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(quotations.id, existingQuotation.id));
+
+        // Delete existing quote items for pending quotations
+        await tx
+          .delete(quoteItems)
+          .where(eq(quoteItems.quotationId, existingQuotation.id));
+
+        quotationId = existingQuotation.id;
+        result.isUpdate = true;
+      }
+    } else {
+      // Create new quotation
+      const [newQuotation] = await tx
+        .insert(quotations)
+        .values({
+          quotationId: `Q-${supplier.supplierCode}-${period}-${region}`,
+          period,
+          supplierId: supplier.id,
+          region,
+          quoteDate,
+          status: "pending",
+          createdBy: userId,
+          importJobId: importJobId ?? null,
+        })
+        .returning({ id: quotations.id });
+
+      quotationId = newQuotation.id;
+    }
+
+    // Create product code to ID mapping with normalization
+    const productMap = new Map<string, number>();
+    existingProducts.forEach((p) => {
+      if (p.productCode) {
+        productMap.set(p.productCode.trim().toUpperCase(), p.id);
+      }
+    });
+
+    const resolveProductId = (productCode: string) => {
+      const productId = productMap.get(productCode.trim().toUpperCase());
+      if (!productId) {
+        throw new Error(`Product mapping failed for code: ${productCode}`);
+      }
+      return productId;
+    };
+
+    // Handle item processing based on quotation status
+    if (existingQuotation && existingQuotation.status === "negotiation") {
+      // Update negotiated prices for existing items
+      for (const item of parsed.items) {
+        const normalizedCode = item.productCode.trim().toUpperCase();
+        const productId = resolveProductId(item.productCode);
+
+        // Update negotiated price for existing quote item
+        const updateResult = await tx
+          .update(quoteItems)
+          .set({
+            negotiatedPrice: String(item.initialPrice ?? 0), // New price goes to negotiatedPrice
+            negotiationRounds: sql`COALESCE(${quoteItems.negotiationRounds}, 0) + 1`,
+            lastNegotiatedAt: new Date(),
+            updatedAt: new Date(),
+            notes: item.notes || quoteItems.notes, // Preserve existing notes if new ones aren't provided
+          })
+          .where(
+            and(
+              eq(quoteItems.quotationId, quotationId),
+              eq(quoteItems.productId, productId)
+            )
+          )
+          .returning({
+            id: quoteItems.id,
+            negotiationRounds: quoteItems.negotiationRounds,
+          });
+
+        if (updateResult.length > 0) {
+          // Re-run the anomaly pass on the re-quoted price
+          await tx.delete(priceAnomalies).where(
+            inArray(
+              priceAnomalies.quoteItemId,
+              updateResult.map((updatedItem) => updatedItem.id)
+            )
+          );
+
+          const anomalyRecords = buildPriceAnomalyRecords(
+            updateResult.map((updatedItem) => ({
+              quoteItemId: updatedItem.id,
+              productId,
+              productCode: normalizedCode,
+              price: item.initialPrice,
+            })),
+            anomalyReferences,
+            anomalyWarnings
+          );
+
+          if (anomalyRecords.length > 0) {
+            await tx.insert(priceAnomalies).values(anomalyRecords);
+          }
+
+          // Record the re-quoted price as a new negotiation round
+          await tx.insert(negotiationHistory).values(
+            updateResult.map((updatedItem) => ({
+              quoteItemId: updatedItem.id,
+              roundNumber: updatedItem.negotiationRounds ?? 1,
+              offeredPrice: String(item.initialPrice ?? 0),
+              recordedBy: userId,
+              note: item.notes || null,
+            }))
+          );
+        }
+
+        result.totalItems++;
+      }
+
+      console.log(
+        `Updated negotiated prices for ${result.totalItems} items in quotation ${quotationId}`
+      );
+    } else {
+      // Insert new quote items (for new quotations or pending updates)
+      const quoteItemsData = parsed.items.map((item) => ({
+        quotationId,
+        productId: resolveProductId(item.productCode),
+        quantity: String(item.quantity ?? 1),
+        initialPrice: String(item.initialPrice ?? 0),
+        vatPercentage: String(item.vatRate ?? 0),
+        currency: "VND",
+        notes: item.notes || null,
+      }));
+
+      const insertedItems = await tx
+        .insert(quoteItems)
+        .values(quoteItemsData)
+        .returning({
+          id: quoteItems.id,
+          productId: quoteItems.productId,
+          initialPrice: quoteItems.initialPrice,
+        });
+      result.totalItems += quoteItemsData.length;
+
+      // Flag suspicious prices so the comparison matrix can highlight them
+      const productCodeById = new Map(
+        existingProducts.map((p) => [p.id, p.productCode])
+      );
+      const anomalyRecords = buildPriceAnomalyRecords(
+        insertedItems.map((insertedItem) => ({
+          quoteItemId: insertedItem.id,
+          productId: insertedItem.productId,
+          productCode: productCodeById.get(insertedItem.productId) ?? "",
+          price:
+            insertedItem.initialPrice !== null
+              ? Number(insertedItem.initialPrice)
+              : null,
+        })),
+        anomalyReferences,
+        anomalyWarnings
+      );
+
+      if (anomalyRecords.length > 0) {
+        await tx.insert(priceAnomalies).values(anomalyRecords);
+      }
+    }
+
+    // Snapshot the submitted prices as the next version of the quotation
+    const [{ lastVersion }] = await tx
+      .select({
+        lastVersion: sql<number>`COALESCE(MAX(${quotationVersions.versionNumber}), 0)`,
+      })
+      .from(quotationVersions)
+      .where(eq(quotationVersions.quotationId, quotationId));
+
+    const versionItems = new Map<number, Omit<NewQuotationVersionItem, "versionId">>();
+    parsed.items.forEach((item) => {
+      const productId = resolveProductId(item.productCode);
+      versionItems.set(productId, {
+        productId,
+        quantity: String(item.quantity ?? 1),
+        price: String(item.initialPrice ?? 0),
+        vatPercentage: String(item.vatRate ?? 0),
+        notes: item.notes || null,
+      });
+    });
+
+    const [version] = await tx
+      .insert(quotationVersions)
+      .values({
+        quotationId,
+        versionNumber: Number(lastVersion) + 1,
+        source,
+        sourceFileId: sourceFile?.id ?? null,
+        sourceFileName: sourceFile?.fileName ?? null,
+        quoteDate,
+        itemCount: versionItems.size,
+        createdBy: userId,
+      })
+      .returning({
+        id: quotationVersions.id,
+        versionNumber: quotationVersions.versionNumber,
+      });
+
+    if (versionItems.size > 0) {
+      await tx.insert(quotationVersionItems).values(
+        Array.from(versionItems.values()).map((item) => ({
+          ...item,
+          versionId: version.id,
+        }))
+      );
+    }
+
+    result.versionNumber = version.versionNumber;
+  });
+
+  result.saved = true;
+  result.anomalyWarnings = anomalyWarnings;
+
+  return result;
+}
+
+/**
+ * Dry run of saveParsedQuotation: the same validation and anomaly pass, and
+ * the per-product diff against the existing quotation, without writing
+ * A pending quotation is compared item by item (overwrite replaces them all);
+ * a quotation in negotiation is compared on its current price, and products
+ * it does not contain are reported as skipped since a re-quote cannot add them.
+ */
+export async function previewParsedQuotation(
+  parsed: ParsedQuotation,
+  { period, region, overwrite, importBlockReason }: Omit<SaveParsedQuotationOptions, "userId">
+): Promise<QuotationImportPreview> {
+  const preview: QuotationImportPreview = {
+    supplierCode: parsed.info.supplierCode,
+    supplierName: null,
+    action: null,
+    existingStatus: null,
+    totalItems: parsed.items.length,
+    diff: [],
+    errors: [],
+    warnings: [],
+    anomalyWarnings: [],
+  };
+
+  const validated = await validateParsedQuotation(
+    parsed,
+    period,
+    region,
+    preview.errors,
+    preview.warnings
+  );
+  if (!validated) {
+    return preview;
+  }
+
+  const { supplier, existingProducts, anomalyReferences } = validated;
+  preview.supplierName = supplier.name;
+
+  // Flag suspicious prices the import would record
+  const productIdByCode = new Map(
+    existingProducts.map((p) => [p.productCode.trim().toUpperCase(), p.id])
+  );
+  for (const item of parsed.items) {
+    const productCode = item.productCode.trim().toUpperCase();
+    const anomalies = detectPriceAnomalies(
+      item.initialPrice,
+      anomalyReferences.get(productIdByCode.get(productCode) ?? 0) ?? {}
+    );
+    if (anomalies.length > 0) {
+      preview.anomalyWarnings.push(
+        `${productCode}: ${anomalies.map((a) => a.message).join("; ")}`
+      );
+    }
+  }
+
+  const [existingQuotation] = await db
+    .select()
+    .from(quotations)
+    .where(
+      and(
+        eq(quotations.supplierId, supplier.id),
+        eq(quotations.period, period),
+        eq(quotations.region, region)
+      )
+    )
+    .limit(1);
+
+  const incoming = parsed.items.map((item) => ({
+    productCode: item.productCode,
+    price: item.initialPrice,
+    vatRate: item.vatRate,
+  }));
+
+  const periodBlockReason = getPeriodWriteBlockReason(existingQuotation, importBlockReason);
+  if (periodBlockReason) {
+    preview.action = "blocked";
+    preview.existingStatus = existingQuotation?.status ?? null;
+    preview.errors.push(periodBlockReason);
+    return preview;
+  }
+
+  if (!existingQuotation) {
+    preview.action = "create";
+    preview.diff = diffQuotationItems([], incoming);
+    return preview;
+  }
+
+  preview.existingStatus = existingQuotation.status;
+
+  const blockReason = getExistingQuotationBlockReason(
+    existingQuotation,
+    overwrite,
+    supplier.supplierCode,
+    period,
+    region
+  );
+  if (blockReason) {
+    preview.action = "blocked";
+    preview.errors.push(blockReason);
+    return preview;
+  }
+
+  const existingItems = await db
+    .select({
+      productCode: products.productCode,
+      initialPrice: quoteItems.initialPrice,
+      negotiatedPrice: quoteItems.negotiatedPrice,
+      vatPercentage: quoteItems.vatPercentage,
+    })
+    .from(quoteItems)
+    .innerJoin(products, eq(quoteItems.productId, products.id))
+    .where(eq(quoteItems.quotationId, existingQuotation.id));
+
+  const toNumber = (value: string | null) => (value !== null ? Number(value) : null);
+
+  if (existingQuotation.status === "negotiation") {
+    preview.action = "requote";
+
+    // A re-quote updates the negotiated price only: VAT is kept and
+    // products missing from the file are left as they are
+    const existingByCode = new Map(
+      existingItems.map((item) => [item.productCode.trim().toUpperCase(), item])
+    );
+    const requoted = incoming.filter((item) => {
+      const productCode = item.productCode.trim().toUpperCase();
+      if (existingByCode.has(productCode)) return true;
+      preview.warnings.push(
+        `${productCode}: không có trong báo giá đang đàm phán, sẽ bị bỏ qua`
+      );
+      return false;
+    });
+
+    preview.diff = diffQuotationItems(
+      existingItems.map((item) => ({
+        productCode: item.productCode,
+        price: toNumber(item.negotiatedPrice ?? item.initialPrice),
+        vatRate: toNumber(item.vatPercentage),
+      })),
+      requoted.map((item) => ({
+        ...item,
+        vatRate: toNumber(
+          existingByCode.get(item.productCode.trim().toUpperCase())!.vatPercentage
+        ),
+      }))
+    ).filter((line) => line.status !== "removed");
+    preview.totalItems = requoted.length;
+
+    return preview;
+  }
+
+  preview.action = "replace";
+  preview.diff = diffQuotationItems(
+    existingItems.map((item) => ({
+      productCode: item.productCode,
+      price: toNumber(item.initialPrice),
+      vatRate: toNumber(item.vatPercentage),
+    })),
+    incoming
+  );
+
+  return preview;
+}
+
+/**
+ * Build price anomaly records for imported quote items
+ * Appends one readable warning per flagged item to `warnings`.
+ */
+function buildPriceAnomalyRecords(
+  items: {
+    quoteItemId: number;
+    productId: number;
+    productCode: string;
+    price: number | null | undefined;
+  }[],
+  references: Map<number, PriceAnomalyReferences>,
+  warnings: string[]
+): NewPriceAnomalyRecord[] {
+  const records: NewPriceAnomalyRecord[] = [];
+
+  for (const item of items) {
+    const anomalies = detectPriceAnomalies(
+      item.price,
+      references.get(item.productId) ?? {}
+    );
+
+    if (anomalies.length === 0) continue;
+
+    warnings.push(
+      `${item.productCode}: ${anomalies.map((a) => a.message).join("; ")}`
+    );
+
+    records.push(
+      ...anomalies.map((anomaly) => ({
+        quoteItemId: item.quoteItemId,
+        anomalyType: anomaly.type,
+        quotedPrice: item.price !== null && item.price !== undefined ? item.price.toString() : null,
+        referencePrice: anomaly.referencePrice?.toString() ?? null,
+        deviationPercent: anomaly.deviationPercent?.toString() ?? null,
+        message: anomaly.message,
+      }))
+    );
+  }
+
+  return records;
+}
+
+/**
+ * Column mapping stored on an import profile
+ */
+export function getProfileColumns(profile: SupplierImportProfile): ImportColumnMapping {
+  const columns: ImportColumnMapping = {
+    productCode: profile.productCodeColumn,
+    initialPrice: profile.priceColumn,
+    vatRate: profile.vatColumn ?? undefined,
+    unit: profile.unitColumn ?? undefined,
+    quantity: profile.quantityColumn ?? undefined,
+    notes: profile.notesColumn ?? undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(columns).filter(([, column]) => column !== undefined)
+  ) as ImportColumnMapping;
+}
+
+/**
+ * Import profiles of the given suppliers, keyed by supplier ID
+ */
+export async function loadImportProfiles(
+  supplierIds: number[]
+): Promise<Map<number, QuotationFileProfile>> {
+  const profileMap = new Map<number, QuotationFileProfile>();
+  if (supplierIds.length === 0) return profileMap;
+
+  const rows = await db
+    .select({
+      profile: supplierImportProfiles,
+      supplierCode: suppliers.supplierCode,
+      supplierName: suppliers.name,
+    })
+    .from(supplierImportProfiles)
+    .innerJoin(suppliers, eq(supplierImportProfiles.supplierId, suppliers.id))
+    .where(inArray(supplierImportProfiles.supplierId, supplierIds));
+
+  for (const row of rows) {
+    profileMap.set(row.profile.supplierId, {
+      supplierCode: row.supplierCode ?? "",
+      supplierName: row.supplierName,
+      layout: {
+        sheetName: row.profile.sheetName,
+        headerRow: row.profile.headerRow,
+        columns: getProfileColumns(row.profile),
+      },
+    });
+  }
+
+  return profileMap;
+}
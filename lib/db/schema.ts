@@ -9,7 +9,9 @@ import {
   unique,
   check,
   index,
+  uniqueIndex,
   boolean,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 
@@ -144,6 +146,7 @@ export const activityLogs = pgTable("activity_logs", {
     onDelete: "set null",
   }),
   action: text("action").notNull(),
+  details: text("details"), // Free-text context, e.g. the reason for a revoked approval
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   ipAddress: varchar("ip_address", { length: 45 }),
 });
@@ -174,6 +177,7 @@ export const suppliers = pgTable(
     contactPerson: varchar("contact_person", { length: 255 }),
     phone: varchar("phone", { length: 20 }),
     email: varchar("email", { length: 255 }),
+    minOrderValue: decimal("min_order_value", { precision: 15, scale: 2 }), // Minimum award value per period (VAT incl.)
     status: varchar("status", { length: 20 }).notNull().default("active"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -237,6 +241,11 @@ export const quotations = pgTable(
     createdBy: integer("created_by")
       .references(() => users.id, { onUpdate: "cascade", onDelete: "set null" })
       .notNull(),
+    // Import job that created the quotation (null for portal submissions and older rows)
+    importJobId: integer("import_job_id").references((): AnyPgColumn => importJobs.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -268,7 +277,7 @@ export const quotations = pgTable(
     ),
     validStatus: check(
       "valid_status",
-      sql`${table.status} IN ('pending', 'approved', 'cancelled', 'negotiation')`
+      sql`${table.status} IN ('pending', 'approved', 'partially_approved', 'cancelled', 'negotiation', 'pending_approval')`
     ),
   })
 );
@@ -305,129 +314,869 @@ export const quoteItems = pgTable(
       onUpdate: "cascade",
       onDelete: "set null",
     }),
-    notes: text("notes"),
+    // Negotiation round whose price was approved: 0 = initial quote, null = manually set price
+    approvedRound: integer("approved_round"),
+    // Item-level rejection during approval (rejected items carry no approved price)
+    rejectedAt: timestamp("rejected_at"),
+    rejectedBy: integer("rejected_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    rejectionReason: text("rejection_reason"),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueQuoteItem: unique().on(table.quotationId, table.productId),
+    // Comparison matrix looks up quote cells by product
+    productIdx: index("idx_quote_items_product").on(table.productId),
+    positiveQuantity: check("positive_quantity", sql`${table.quantity} > 0`),
+    nonNegativePrices: check(
+      "non_negative_prices",
+      sql`
+    ${table.initialPrice} >= 0 AND
+    (${table.negotiatedPrice} >= 0 OR ${table.negotiatedPrice} IS NULL) AND
+    (${table.approvedPrice} >= 0 OR ${table.approvedPrice} IS NULL)
+  `
+    ),
+    validVatPercentage: check(
+      "valid_vat",
+      sql`${table.vatPercentage} >= 0 AND ${table.vatPercentage} <= 100`
+    ),
+  })
+);
+
+export const negotiationHistory = pgTable(
+  "negotiation_history",
+  {
+    id: serial("id").primaryKey(),
+    quoteItemId: integer("quote_item_id")
+      .references(() => quoteItems.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    roundNumber: integer("round_number").notNull(),
+    offeredPrice: decimal("offered_price", { precision: 12, scale: 2 }).notNull(),
+    targetPrice: decimal("target_price", { precision: 12, scale: 2 }),
+    recordedBy: integer("recorded_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    note: text("note"),
+    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueRound: unique().on(table.quoteItemId, table.roundNumber),
+    quoteItemIdx: index("idx_negotiation_history_quote_item").on(
+      table.quoteItemId
+    ),
+    positiveRound: check("positive_round", sql`${table.roundNumber} > 0`),
+    nonNegativePrices: check(
+      "non_negative_negotiation_prices",
+      sql`${table.offeredPrice} >= 0 AND (${table.targetPrice} >= 0 OR ${table.targetPrice} IS NULL)`
+    ),
+  })
+);
+
+export const priceAnomalies = pgTable(
+  "price_anomalies",
+  {
+    id: serial("id").primaryKey(),
+    quoteItemId: integer("quote_item_id")
+      .references(() => quoteItems.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    anomalyType: varchar("anomaly_type", { length: 30 }).notNull(),
+    quotedPrice: decimal("quoted_price", { precision: 12, scale: 2 }),
+    referencePrice: decimal("reference_price", { precision: 12, scale: 2 }),
+    deviationPercent: decimal("deviation_percent", {
+      precision: 10,
+      scale: 2,
+    }),
+    message: text("message").notNull(),
+    detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueAnomaly: unique().on(table.quoteItemId, table.anomalyType),
+    quoteItemIdx: index("idx_price_anomalies_quote_item").on(
+      table.quoteItemId
+    ),
+    validAnomalyType: check(
+      "valid_anomaly_type",
+      sql`${table.anomalyType} IN ('zero_price', 'unit_typo', 'jump_vs_previous', 'jump_vs_median', 'jump_vs_base')`
+    ),
+  })
+);
+
+export const approvalRequests = pgTable(
+  "approval_requests",
+  {
+    id: serial("id").primaryKey(),
+    quotationId: integer("quotation_id")
+      .references(() => quotations.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    requestedBy: integer("requested_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    totalValue: decimal("total_value", { precision: 15, scale: 2 }).notNull(),
+    approvalLevel: integer("approval_level").notNull(),
+    status: varchar("status", { length: 20 }).default("pending").notNull(),
+    requestComment: text("request_comment"),
+    decidedBy: integer("decided_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    decidedAt: timestamp("decided_at"),
+    decisionComment: text("decision_comment"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    statusIdx: index("idx_approval_requests_status").on(table.status),
+    quotationIdx: index("idx_approval_requests_quotation").on(
+      table.quotationId
+    ),
+    validStatus: check(
+      "valid_approval_request_status",
+      sql`${table.status} IN ('pending', 'approved', 'rejected', 'cancelled')`
+    ),
+    nonNegativeTotal: check(
+      "non_negative_total_value",
+      sql`${table.totalValue} >= 0`
+    ),
+  })
+);
+
+export const priceHistory = pgTable(
+  "price_history",
+  {
+    id: serial("id").primaryKey(),
+    productId: integer("product_id")
+      .references(() => products.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    supplierId: integer("supplier_id")
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    teamId: integer("team_id").references(() => teams.id, {
+      onUpdate: "cascade",
+      onDelete: "cascade",
+    }),
+    period: varchar("period", { length: 10 }).notNull(),
+    price: decimal("price", { precision: 12, scale: 2 }).notNull(),
+    priceType: varchar("price_type", { length: 20 }).notNull(),
+    region: varchar("region", { length: 50 }),
+    // A 'revoked' entry compensates the approved entry it points at; history is never deleted
+    reversesId: integer("reverses_id")
+      .references((): AnyPgColumn => priceHistory.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .unique(),
+    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    nonNegativePrice: check("non_negative_price", sql`${table.price} >= 0`),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    validPriceType: check(
+      "valid_price_type",
+      sql`${table.priceType} IN ('initial', 'negotiated', 'approved', 'revoked')`
+    ),
+    revokedReversesEntry: check(
+      "revoked_reverses_entry",
+      sql`(${table.priceType} = 'revoked') = (${table.reversesId} IS NOT NULL)`
+    ),
+  })
+);
+
+// Quotation periods and their lifecycle: open → collecting → negotiating → closed
+// Other tables reference a period by its `YYYY-MM-XX` code
+export const periods = pgTable(
+  "periods",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 10 }).notNull().unique(),
+    name: varchar("name", { length: 100 }),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    submissionDeadline: timestamp("submission_deadline"), // Imports are blocked after this
+    status: varchar("status", { length: 20 }).default("open").notNull(),
+    closedAt: timestamp("closed_at"),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    statusIdx: index("idx_periods_status").on(table.status),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.code} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    validStatus: check(
+      "valid_period_status",
+      sql`${table.status} IN ('open', 'collecting', 'negotiating', 'closed')`
+    ),
+    validDateRange: check(
+      "valid_period_date_range",
+      sql`${table.endDate} >= ${table.startDate}`
+    ),
+  })
+);
+
+// Split awards: share of a product's regional demand per supplier (shares sum to 100%)
+export const awardAllocations = pgTable(
+  "award_allocations",
+  {
+    id: serial("id").primaryKey(),
+    productId: integer("product_id")
+      .references(() => products.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    supplierId: integer("supplier_id")
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    region: varchar("region", { length: 50 }).notNull(),
+    period: varchar("period", { length: 10 }).notNull(),
+    sharePercent: decimal("share_percent", { precision: 5, scale: 2 }).notNull(),
+    quantity: decimal("quantity", { precision: 12, scale: 2 }), // Share of demand at the time of allocation
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueAllocation: unique().on(
+      table.productId,
+      table.region,
+      table.period,
+      table.supplierId
+    ),
+    productRegionPeriodIdx: index("idx_award_allocations_product_region_period").on(
+      table.productId,
+      table.region,
+      table.period
+    ),
+    regionPeriodIdx: index("idx_award_allocations_region_period").on(
+      table.region,
+      table.period
+    ),
+    validSharePercent: check(
+      "valid_share_percent",
+      sql`${table.sharePercent} > 0 AND ${table.sharePercent} <= 100`
+    ),
+  })
+);
+
+export const targetPriceRules = pgTable(
+  "target_price_rules",
+  {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 200 }).notNull(),
+    category: varchar("category", { length: 100 }), // null = every category
+    region: varchar("region", { length: 50 }), // null = every region
+    baseline: varchar("baseline", { length: 30 })
+      .default("best_price")
+      .notNull(),
+    adjustmentPercent: decimal("adjustment_percent", {
+      precision: 5,
+      scale: 2,
+    })
+      .default("0")
+      .notNull(),
+    capAtBasePrice: boolean("cap_at_base_price").default(false).notNull(),
+    floorAtHistoricalLow: boolean("floor_at_historical_low")
+      .default(false)
+      .notNull(),
+    priority: integer("priority").default(0).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    scopeIdx: index("idx_target_price_rules_scope").on(
+      table.category,
+      table.region
+    ),
+    activeIdx: index("idx_target_price_rules_active").on(table.isActive),
+    validBaseline: check(
+      "valid_baseline",
+      sql`${table.baseline} IN ('best_price', 'previous_approved', 'min_best_previous')`
+    ),
+    validAdjustment: check(
+      "valid_adjustment_percent",
+      sql`${table.adjustmentPercent} > -100 AND ${table.adjustmentPercent} <= 100`
+    ),
+  })
+);
+
+export const supplierServiceScopes = pgTable(
+  "supplier_service_scopes",
+  {
+    id: serial("id").primaryKey(),
+    supplierId: integer("supplier_id")
+      .notNull()
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      }),
+    teamId: integer("team_id")
+      .notNull()
+      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" }),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    uniqueSupplierTeam: unique().on(table.supplierId, table.teamId),
+    supplierIdx: index("idx_supplier_service_scopes_supplier").on(
+      table.supplierId
+    ),
+    teamIdx: index("idx_supplier_service_scopes_team").on(table.teamId),
+    activeIdx: index("idx_supplier_service_scopes_active").on(table.isActive),
+  })
+);
+
+export const kitchenPeriodDemands = pgTable(
+  "kitchen_period_demands",
+  {
+    id: serial("id").primaryKey(),
+    teamId: integer("team_id")
+      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" })
+      .notNull(),
+    productId: integer("product_id")
+      .references(() => products.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    period: varchar("period", { length: 10 }).notNull(),
+    quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+    unit: varchar("unit", { length: 50 }).notNull(),
+    notes: text("notes"),
+    status: varchar("status", { length: 20 }).default("active").notNull(),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueDemand: unique().on(table.teamId, table.productId, table.period),
+    periodProductIdx: index("idx_kitchen_demands_period_product").on(
+      table.period,
+      table.productId
+    ),
+    positiveQuantity: check("positive_quantity", sql`${table.quantity} > 0`),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    validStatus: check(
+      "valid_status",
+      sql`${table.status} IN ('active', 'inactive')`
+    ),
+  })
+);
+
+// Generated files (e.g. negotiation packages) persisted by the file storage service
+// The bytes live in the storage driver under storageKey; rows expire and are cleaned up
+export const storedFiles = pgTable(
+  "stored_files",
+  {
+    id: serial("id").primaryKey(),
+    storageDriver: varchar("storage_driver", { length: 20 }).notNull(),
+    storageKey: varchar("storage_key", { length: 500 }).notNull().unique(),
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    contentType: varchar("content_type", { length: 100 }).notNull(),
+    size: integer("size").notNull(),
+    purpose: varchar("purpose", { length: 50 }).notNull(),
+    region: varchar("region", { length: 50 }), // Restricts downloads for team-restricted users
+    period: varchar("period", { length: 10 }),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    expiresAtIdx: index("idx_stored_files_expires_at").on(table.expiresAt),
+    validSize: check("valid_stored_file_size", sql`${table.size} >= 0`),
+  })
+);
+
+// Tokenized links that let a supplier submit its quotation for one period and region
+// Only the SHA-256 hash of the token is stored; the link is shown once on creation
+export const supplierPortalLinks = pgTable(
+  "supplier_portal_links",
+  {
+    id: serial("id").primaryKey(),
+    supplierId: integer("supplier_id")
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    period: varchar("period", { length: 10 }).notNull(),
+    region: varchar("region", { length: 50 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    lastAccessedAt: timestamp("last_accessed_at"),
+    submittedAt: timestamp("submitted_at"), // Last successful submission
+    // Portal submissions are recorded as created by the staff member who issued the link
+    createdBy: integer("created_by")
+      .references(() => users.id, { onUpdate: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    supplierPeriodRegionIdx: index("idx_supplier_portal_links_scope").on(
+      table.supplierId,
+      table.period,
+      table.region
+    ),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+  })
+);
+
+// Submission state of one kitchen's demand for a period
+// Submitted demand is locked for the kitchen until procurement reopens it
+export const kitchenDemandSubmissions = pgTable(
+  "kitchen_demand_submissions",
+  {
+    id: serial("id").primaryKey(),
+    teamId: integer("team_id")
+      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" })
+      .notNull(),
+    period: varchar("period", { length: 10 }).notNull(),
+    status: varchar("status", { length: 20 }).default("draft").notNull(),
+    submittedAt: timestamp("submitted_at"),
+    submittedBy: integer("submitted_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    reopenedAt: timestamp("reopened_at"),
+    reopenedBy: integer("reopened_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueSubmission: unique().on(table.teamId, table.period),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    validStatus: check(
+      "valid_status",
+      sql`${table.status} IN ('draft', 'submitted')`
+    ),
+  })
+);
+
+// Purchase orders generated from approved prices and kitchen demand
+// One order per kitchen × supplier × period
+export const purchaseOrders = pgTable(
+  "purchase_orders",
+  {
+    id: serial("id").primaryKey(),
+    poNumber: varchar("po_number", { length: 30 }).unique().notNull(),
+    period: varchar("period", { length: 10 }).notNull(),
+    region: varchar("region", { length: 50 }).notNull(),
+    teamId: integer("team_id")
+      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" })
+      .notNull(),
+    supplierId: integer("supplier_id")
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    status: varchar("status", { length: 20 }).default("draft").notNull(),
+    subtotal: decimal("subtotal", { precision: 14, scale: 2 }).notNull(),
+    vatAmount: decimal("vat_amount", { precision: 14, scale: 2 }).notNull(),
+    totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).notNull(),
+    notes: text("notes"),
+    sentAt: timestamp("sent_at"),
+    confirmedAt: timestamp("confirmed_at"),
+    receivedAt: timestamp("received_at"),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueOrder: unique().on(table.period, table.teamId, table.supplierId),
+    periodRegionIdx: index("idx_purchase_orders_period_region").on(
+      table.period,
+      table.region
+    ),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    validStatus: check(
+      "valid_status",
+      sql`${table.status} IN ('draft', 'sent', 'confirmed', 'received')`
+    ),
+  })
+);
+
+export const purchaseOrderItems = pgTable(
+  "purchase_order_items",
+  {
+    id: serial("id").primaryKey(),
+    purchaseOrderId: integer("purchase_order_id")
+      .references(() => purchaseOrders.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    productId: integer("product_id")
+      .references(() => products.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    quoteItemId: integer("quote_item_id").references(() => quoteItems.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    quantity: decimal("quantity", { precision: 12, scale: 2 }).notNull(),
+    unit: varchar("unit", { length: 50 }).notNull(),
+    unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+    vatPercentage: decimal("vat_percentage", { precision: 5, scale: 2 }).notNull(),
+    sharePercent: decimal("share_percent", { precision: 5, scale: 2 }), // Split award share, null = sole supplier
+    lineSubtotal: decimal("line_subtotal", { precision: 14, scale: 2 }).notNull(),
+    lineVat: decimal("line_vat", { precision: 14, scale: 2 }).notNull(),
+    lineTotal: decimal("line_total", { precision: 14, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueLine: unique().on(table.purchaseOrderId, table.productId),
+    positiveQuantity: check("positive_quantity", sql`${table.quantity} > 0`),
+  })
+);
+
+// Purchasing budget of a kitchen for a period, for the whole kitchen or one
+// product category, compared with the planned spend (demand × approved price)
+export const kitchenBudgets = pgTable(
+  "kitchen_budgets",
+  {
+    id: serial("id").primaryKey(),
+    teamId: integer("team_id")
+      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" })
+      .notNull(),
+    period: varchar("period", { length: 10 }).notNull(),
+    category: varchar("category", { length: 100 }), // null = whole kitchen
+    amount: decimal("amount", { precision: 14, scale: 2 }).notNull(),
+    notes: text("notes"),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueScope: uniqueIndex("uq_kitchen_budgets_scope").on(
+      table.teamId,
+      table.period,
+      sql`COALESCE(${table.category}, '')`
+    ),
+    periodIdx: index("idx_kitchen_budgets_period").on(table.period),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    nonNegativeAmount: check("non_negative_amount", sql`${table.amount} >= 0`),
+  })
+);
+
+// Supplier invoice lines imported by accounting, checked against the approved
+// price of the invoice's period and the kitchen's region
+export const invoiceLines = pgTable(
+  "invoice_lines",
+  {
+    id: serial("id").primaryKey(),
+    period: varchar("period", { length: 10 }).notNull(),
+    region: varchar("region", { length: 50 }).notNull(),
+    supplierId: integer("supplier_id")
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    teamId: integer("team_id")
+      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" })
+      .notNull(),
+    productId: integer("product_id")
+      .references(() => products.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    quoteItemId: integer("quote_item_id").references(() => quoteItems.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    invoiceNumber: varchar("invoice_number", { length: 50 }),
+    invoiceDate: timestamp("invoice_date").notNull(),
+    quantity: decimal("quantity", { precision: 12, scale: 2 }).notNull(),
+    unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+    approvedPrice: decimal("approved_price", { precision: 12, scale: 2 }), // Null = product not approved for the supplier
+    status: varchar("status", { length: 20 }).notNull(),
+    overchargeAmount: decimal("overcharge_amount", { precision: 14, scale: 2 })
+      .default("0")
+      .notNull(),
+    sourceFile: varchar("source_file", { length: 255 }).notNull(),
+    importedBy: integer("imported_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    periodRegionIdx: index("idx_invoice_lines_period_region").on(
+      table.period,
+      table.region
+    ),
+    supplierIdx: index("idx_invoice_lines_supplier").on(table.supplierId),
+    sourceFileIdx: index("idx_invoice_lines_source_file").on(table.sourceFile),
+    periodFormatCheck: check(
+      "period_format_sequence",
+      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
+    ),
+    validStatus: check(
+      "valid_status",
+      sql`${table.status} IN ('compliant', 'overcharged', 'unapproved')`
+    ),
+  })
+);
+
+// How to read a supplier's own quotation workbook when it does not follow the
+// standard template: the sheet, the header row and the 1-based column of each field
+export const supplierImportProfiles = pgTable(
+  "supplier_import_profiles",
+  {
+    id: serial("id").primaryKey(),
+    supplierId: integer("supplier_id")
+      .references(() => suppliers.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull()
+      .unique(),
+    sheetName: varchar("sheet_name", { length: 100 }), // null = first sheet
+    headerRow: integer("header_row").default(1).notNull(),
+    productCodeColumn: integer("product_code_column").notNull(),
+    priceColumn: integer("price_column").notNull(),
+    vatColumn: integer("vat_column"),
+    unitColumn: integer("unit_column"),
+    quantityColumn: integer("quantity_column"),
+    notesColumn: integer("notes_column"),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    updatedBy: integer("updated_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    positiveHeaderRow: check("positive_header_row", sql`${table.headerRow} > 0`),
+    positiveColumns: check(
+      "positive_columns",
+      sql`${table.productCodeColumn} > 0 AND ${table.priceColumn} > 0`
+    ),
+  })
+);
+
+// Immutable snapshot of what a supplier sent in one import or portal submission (v1, v2, ...)
+// The quotation row and its quote_items always hold the latest (current) version
+export const quotationVersions = pgTable(
+  "quotation_versions",
+  {
+    id: serial("id").primaryKey(),
+    quotationId: integer("quotation_id")
+      .references(() => quotations.id, {
+        onUpdate: "cascade",
+        onDelete: "cascade",
+      })
+      .notNull(),
+    versionNumber: integer("version_number").notNull(),
+    source: varchar("source", { length: 20 }).notNull(), // 'excel_import' | 'supplier_portal'
+    // Uploaded source file; the name is kept after the stored file expires
+    sourceFileId: integer("source_file_id").references(() => storedFiles.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    sourceFileName: varchar("source_file_name", { length: 255 }),
+    quoteDate: timestamp("quote_date"),
+    itemCount: integer("item_count").notNull(),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
-    updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => ({
-    uniqueQuoteItem: unique().on(table.quotationId, table.productId),
-    positiveQuantity: check("positive_quantity", sql`${table.quantity} > 0`),
-    nonNegativePrices: check(
-      "non_negative_prices",
-      sql`
-    ${table.initialPrice} >= 0 AND
-    (${table.negotiatedPrice} >= 0 OR ${table.negotiatedPrice} IS NULL) AND
-    (${table.approvedPrice} >= 0 OR ${table.approvedPrice} IS NULL)
-  `
-    ),
-    validVatPercentage: check(
-      "valid_vat",
-      sql`${table.vatPercentage} >= 0 AND ${table.vatPercentage} <= 100`
+    uniqueVersion: unique().on(table.quotationId, table.versionNumber),
+    positiveVersion: check("positive_version_number", sql`${table.versionNumber} > 0`),
+    validSource: check(
+      "valid_version_source",
+      sql`${table.source} IN ('excel_import', 'supplier_portal')`
     ),
   })
 );
 
-export const priceHistory = pgTable(
-  "price_history",
+// Items of a quotation version as the supplier quoted them
+export const quotationVersionItems = pgTable(
+  "quotation_version_items",
   {
     id: serial("id").primaryKey(),
-    productId: integer("product_id")
-      .references(() => products.id, {
+    versionId: integer("version_id")
+      .references(() => quotationVersions.id, {
         onUpdate: "cascade",
         onDelete: "cascade",
       })
       .notNull(),
-    supplierId: integer("supplier_id")
-      .references(() => suppliers.id, {
+    productId: integer("product_id")
+      .references(() => products.id, {
         onUpdate: "cascade",
         onDelete: "cascade",
       })
       .notNull(),
-    teamId: integer("team_id").references(() => teams.id, {
-      onUpdate: "cascade",
-      onDelete: "cascade",
-    }),
-    period: varchar("period", { length: 10 }).notNull(),
+    quantity: decimal("quantity", { precision: 12, scale: 2 }),
     price: decimal("price", { precision: 12, scale: 2 }).notNull(),
-    priceType: varchar("price_type", { length: 20 }).notNull(),
-    region: varchar("region", { length: 50 }),
-    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+    vatPercentage: decimal("vat_percentage", { precision: 5, scale: 2 }).default("0"),
+    notes: text("notes"),
   },
   (table) => ({
-    nonNegativePrice: check("non_negative_price", sql`${table.price} >= 0`),
-    periodFormatCheck: check(
-      "period_format_sequence",
-      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
-    ),
-    validPriceType: check(
-      "valid_price_type",
-      sql`${table.priceType} IN ('initial', 'negotiated', 'approved')`
-    ),
+    uniqueVersionItem: unique().on(table.versionId, table.productId),
+    nonNegativePrice: check("non_negative_version_price", sql`${table.price} >= 0`),
   })
 );
 
-export const supplierServiceScopes = pgTable(
-  "supplier_service_scopes",
+// One run of a quotation or product Excel import: who, when, what it wrote
+// Runs stay 'running' until the import finishes, then completed / partial / failed
+export const importJobs = pgTable(
+  "import_jobs",
   {
     id: serial("id").primaryKey(),
-    supplierId: integer("supplier_id")
-      .notNull()
-      .references(() => suppliers.id, {
-        onUpdate: "cascade",
-        onDelete: "cascade",
-      }),
-    teamId: integer("team_id")
-      .notNull()
-      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" }),
-    isActive: boolean("is_active").notNull().default(true),
-    createdAt: timestamp("created_at").notNull().defaultNow(),
-    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    type: varchar("type", { length: 20 }).notNull(), // 'quotations' | 'products'
+    status: varchar("status", { length: 20 }).default("running").notNull(),
+    region: varchar("region", { length: 50 }),
+    period: varchar("period", { length: 10 }),
+    totalFiles: integer("total_files").default(0).notNull(),
+    processedFiles: integer("processed_files").default(0).notNull(),
+    createdCount: integer("created_count").default(0).notNull(),
+    updatedCount: integer("updated_count").default(0).notNull(),
+    itemCount: integer("item_count").default(0).notNull(),
+    createdBy: integer("created_by").references(() => users.id, {
+      onUpdate: "cascade",
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
   },
   (table) => ({
-    uniqueSupplierTeam: unique().on(table.supplierId, table.teamId),
-    supplierIdx: index("idx_supplier_service_scopes_supplier").on(
-      table.supplierId
+    createdAtIdx: index("idx_import_jobs_created_at").on(table.createdAt),
+    validType: check(
+      "valid_import_job_type",
+      sql`${table.type} IN ('quotations', 'products')`
+    ),
+    validStatus: check(
+      "valid_import_job_status",
+      sql`${table.status} IN ('running', 'completed', 'partial', 'failed')`
     ),
-    teamIdx: index("idx_supplier_service_scopes_team").on(table.teamId),
-    activeIdx: index("idx_supplier_service_scopes_active").on(table.isActive),
   })
 );
 
-export const kitchenPeriodDemands = pgTable(
-  "kitchen_period_demands",
+// Uploaded files of an import job; the name is kept after the stored file expires
+export const importJobFiles = pgTable("import_job_files", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id")
+    .references(() => importJobs.id, {
+      onUpdate: "cascade",
+      onDelete: "cascade",
+    })
+    .notNull(),
+  storedFileId: integer("stored_file_id").references(() => storedFiles.id, {
+    onUpdate: "cascade",
+    onDelete: "set null",
+  }),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Errors and warnings of an import job, located by file, sheet and row where known
+export const importJobMessages = pgTable(
+  "import_job_messages",
   {
     id: serial("id").primaryKey(),
-    teamId: integer("team_id")
-      .references(() => teams.id, { onUpdate: "cascade", onDelete: "cascade" })
-      .notNull(),
-    productId: integer("product_id")
-      .references(() => products.id, {
+    jobId: integer("job_id")
+      .references(() => importJobs.id, {
         onUpdate: "cascade",
         onDelete: "cascade",
       })
       .notNull(),
-    period: varchar("period", { length: 10 }).notNull(),
-    quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
-    unit: varchar("unit", { length: 50 }).notNull(),
-    notes: text("notes"),
-    status: varchar("status", { length: 20 }).default("active").notNull(),
-    createdBy: integer("created_by").references(() => users.id, {
+    jobFileId: integer("job_file_id").references(() => importJobFiles.id, {
       onUpdate: "cascade",
-      onDelete: "set null",
+      onDelete: "cascade",
     }),
-    createdAt: timestamp("created_at").defaultNow().notNull(),
-    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    level: varchar("level", { length: 10 }).notNull(), // 'error' | 'warning'
+    sheetName: varchar("sheet_name", { length: 100 }),
+    rowNumber: integer("row_number"), // 1-based sheet row
+    message: text("message").notNull(),
   },
   (table) => ({
-    uniqueDemand: unique().on(table.teamId, table.productId, table.period),
-    positiveQuantity: check("positive_quantity", sql`${table.quantity} > 0`),
-    periodFormatCheck: check(
-      "period_format_sequence",
-      sql`${table.period} ~ '^\\d{4}-\\d{2}-\\d{2}$'`
-    ),
-    validStatus: check(
-      "valid_status",
-      sql`${table.status} IN ('active', 'inactive')`
+    jobIdx: index("idx_import_job_messages_job").on(table.jobId),
+    validLevel: check(
+      "valid_import_job_message_level",
+      sql`${table.level} IN ('error', 'warning')`
     ),
   })
 );
@@ -446,7 +1195,11 @@ export const teamsRelations = relations(teams, ({ one, many }) => ({
   }),
   // QuoteMaster extensions
   demands: many(kitchenPeriodDemands),
+  demandSubmissions: many(kitchenDemandSubmissions),
   supplierServiceScopes: many(supplierServiceScopes),
+  purchaseOrders: many(purchaseOrders),
+  invoiceLines: many(invoiceLines),
+  budgets: many(kitchenBudgets),
 }));
 
 export const usersRelations = relations(users, ({ many }) => ({
@@ -497,10 +1250,13 @@ export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
 }));
 
 // QuoteMaster relations
-export const suppliersRelations = relations(suppliers, ({ many }) => ({
+export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
   quotations: many(quotations),
   priceHistory: many(priceHistory),
   supplierServiceScopes: many(supplierServiceScopes),
+  purchaseOrders: many(purchaseOrders),
+  invoiceLines: many(invoiceLines),
+  importProfile: one(supplierImportProfiles),
 }));
 
 export const productsRelations = relations(products, ({ many }) => ({
@@ -519,9 +1275,15 @@ export const quotationsRelations = relations(quotations, ({ one, many }) => ({
     references: [users.id],
   }),
   items: many(quoteItems),
+  approvalRequests: many(approvalRequests),
+  versions: many(quotationVersions),
+  importJob: one(importJobs, {
+    fields: [quotations.importJobId],
+    references: [importJobs.id],
+  }),
 }));
 
-export const quoteItemsRelations = relations(quoteItems, ({ one }) => ({
+export const quoteItemsRelations = relations(quoteItems, ({ one, many }) => ({
   quotation: one(quotations, {
     fields: [quoteItems.quotationId],
     references: [quotations.id],
@@ -534,8 +1296,53 @@ export const quoteItemsRelations = relations(quoteItems, ({ one }) => ({
     fields: [quoteItems.approvedBy],
     references: [users.id],
   }),
+  rejectedBy: one(users, {
+    fields: [quoteItems.rejectedBy],
+    references: [users.id],
+  }),
+  negotiationHistory: many(negotiationHistory),
+  priceAnomalies: many(priceAnomalies),
+}));
+
+export const negotiationHistoryRelations = relations(
+  negotiationHistory,
+  ({ one }) => ({
+    quoteItem: one(quoteItems, {
+      fields: [negotiationHistory.quoteItemId],
+      references: [quoteItems.id],
+    }),
+    recordedBy: one(users, {
+      fields: [negotiationHistory.recordedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const priceAnomaliesRelations = relations(priceAnomalies, ({ one }) => ({
+  quoteItem: one(quoteItems, {
+    fields: [priceAnomalies.quoteItemId],
+    references: [quoteItems.id],
+  }),
 }));
 
+export const approvalRequestsRelations = relations(
+  approvalRequests,
+  ({ one }) => ({
+    quotation: one(quotations, {
+      fields: [approvalRequests.quotationId],
+      references: [quotations.id],
+    }),
+    requestedBy: one(users, {
+      fields: [approvalRequests.requestedBy],
+      references: [users.id],
+    }),
+    decidedBy: one(users, {
+      fields: [approvalRequests.decidedBy],
+      references: [users.id],
+    }),
+  })
+);
+
 export const priceHistoryRelations = relations(priceHistory, ({ one }) => ({
   product: one(products, {
     fields: [priceHistory.productId],
@@ -551,6 +1358,41 @@ export const priceHistoryRelations = relations(priceHistory, ({ one }) => ({
   }),
 }));
 
+export const periodsRelations = relations(periods, ({ one }) => ({
+  createdBy: one(users, {
+    fields: [periods.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const awardAllocationsRelations = relations(
+  awardAllocations,
+  ({ one }) => ({
+    product: one(products, {
+      fields: [awardAllocations.productId],
+      references: [products.id],
+    }),
+    supplier: one(suppliers, {
+      fields: [awardAllocations.supplierId],
+      references: [suppliers.id],
+    }),
+    createdBy: one(users, {
+      fields: [awardAllocations.createdBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const targetPriceRulesRelations = relations(
+  targetPriceRules,
+  ({ one }) => ({
+    createdBy: one(users, {
+      fields: [targetPriceRules.createdBy],
+      references: [users.id],
+    }),
+  })
+);
+
 export const supplierServiceScopesRelations = relations(
   supplierServiceScopes,
   ({ one }) => ({
@@ -583,6 +1425,192 @@ export const kitchenPeriodDemandsRelations = relations(
   })
 );
 
+export const storedFilesRelations = relations(storedFiles, ({ one }) => ({
+  createdBy: one(users, {
+    fields: [storedFiles.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const supplierPortalLinksRelations = relations(
+  supplierPortalLinks,
+  ({ one }) => ({
+    supplier: one(suppliers, {
+      fields: [supplierPortalLinks.supplierId],
+      references: [suppliers.id],
+    }),
+    createdBy: one(users, {
+      fields: [supplierPortalLinks.createdBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const kitchenDemandSubmissionsRelations = relations(
+  kitchenDemandSubmissions,
+  ({ one }) => ({
+    team: one(teams, {
+      fields: [kitchenDemandSubmissions.teamId],
+      references: [teams.id],
+    }),
+    submittedBy: one(users, {
+      fields: [kitchenDemandSubmissions.submittedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const purchaseOrdersRelations = relations(
+  purchaseOrders,
+  ({ one, many }) => ({
+    team: one(teams, {
+      fields: [purchaseOrders.teamId],
+      references: [teams.id],
+    }),
+    supplier: one(suppliers, {
+      fields: [purchaseOrders.supplierId],
+      references: [suppliers.id],
+    }),
+    createdBy: one(users, {
+      fields: [purchaseOrders.createdBy],
+      references: [users.id],
+    }),
+    items: many(purchaseOrderItems),
+  })
+);
+
+export const purchaseOrderItemsRelations = relations(
+  purchaseOrderItems,
+  ({ one }) => ({
+    purchaseOrder: one(purchaseOrders, {
+      fields: [purchaseOrderItems.purchaseOrderId],
+      references: [purchaseOrders.id],
+    }),
+    product: one(products, {
+      fields: [purchaseOrderItems.productId],
+      references: [products.id],
+    }),
+    quoteItem: one(quoteItems, {
+      fields: [purchaseOrderItems.quoteItemId],
+      references: [quoteItems.id],
+    }),
+  })
+);
+
+export const kitchenBudgetsRelations = relations(kitchenBudgets, ({ one }) => ({
+  team: one(teams, {
+    fields: [kitchenBudgets.teamId],
+    references: [teams.id],
+  }),
+  createdBy: one(users, {
+    fields: [kitchenBudgets.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const invoiceLinesRelations = relations(invoiceLines, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [invoiceLines.supplierId],
+    references: [suppliers.id],
+  }),
+  team: one(teams, {
+    fields: [invoiceLines.teamId],
+    references: [teams.id],
+  }),
+  product: one(products, {
+    fields: [invoiceLines.productId],
+    references: [products.id],
+  }),
+  quoteItem: one(quoteItems, {
+    fields: [invoiceLines.quoteItemId],
+    references: [quoteItems.id],
+  }),
+  importedBy: one(users, {
+    fields: [invoiceLines.importedBy],
+    references: [users.id],
+  }),
+}));
+
+export const supplierImportProfilesRelations = relations(
+  supplierImportProfiles,
+  ({ one }) => ({
+    supplier: one(suppliers, {
+      fields: [supplierImportProfiles.supplierId],
+      references: [suppliers.id],
+    }),
+    updatedBy: one(users, {
+      fields: [supplierImportProfiles.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const quotationVersionsRelations = relations(
+  quotationVersions,
+  ({ one, many }) => ({
+    quotation: one(quotations, {
+      fields: [quotationVersions.quotationId],
+      references: [quotations.id],
+    }),
+    sourceFile: one(storedFiles, {
+      fields: [quotationVersions.sourceFileId],
+      references: [storedFiles.id],
+    }),
+    createdBy: one(users, {
+      fields: [quotationVersions.createdBy],
+      references: [users.id],
+    }),
+    items: many(quotationVersionItems),
+  })
+);
+
+export const quotationVersionItemsRelations = relations(
+  quotationVersionItems,
+  ({ one }) => ({
+    version: one(quotationVersions, {
+      fields: [quotationVersionItems.versionId],
+      references: [quotationVersions.id],
+    }),
+    product: one(products, {
+      fields: [quotationVersionItems.productId],
+      references: [products.id],
+    }),
+  })
+);
+
+export const importJobsRelations = relations(importJobs, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [importJobs.createdBy],
+    references: [users.id],
+  }),
+  files: many(importJobFiles),
+  messages: many(importJobMessages),
+  quotations: many(quotations),
+}));
+
+export const importJobFilesRelations = relations(importJobFiles, ({ one, many }) => ({
+  job: one(importJobs, {
+    fields: [importJobFiles.jobId],
+    references: [importJobs.id],
+  }),
+  storedFile: one(storedFiles, {
+    fields: [importJobFiles.storedFileId],
+    references: [storedFiles.id],
+  }),
+  messages: many(importJobMessages),
+}));
+
+export const importJobMessagesRelations = relations(importJobMessages, ({ one }) => ({
+  job: one(importJobs, {
+    fields: [importJobMessages.jobId],
+    references: [importJobs.id],
+  }),
+  file: one(importJobFiles, {
+    fields: [importJobMessages.jobFileId],
+    references: [importJobFiles.id],
+  }),
+}));
+
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Team = typeof teams.$inferSelect;
@@ -608,12 +1636,50 @@ export type Quotation = typeof quotations.$inferSelect;
 export type NewQuotation = typeof quotations.$inferInsert;
 export type QuoteItem = typeof quoteItems.$inferSelect;
 export type NewQuoteItem = typeof quoteItems.$inferInsert;
+export type NegotiationHistory = typeof negotiationHistory.$inferSelect;
+export type NewNegotiationHistory = typeof negotiationHistory.$inferInsert;
+export type PriceAnomalyRecord = typeof priceAnomalies.$inferSelect;
+export type NewPriceAnomalyRecord = typeof priceAnomalies.$inferInsert;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type NewApprovalRequest = typeof approvalRequests.$inferInsert;
 export type PriceHistory = typeof priceHistory.$inferSelect;
 export type NewPriceHistory = typeof priceHistory.$inferInsert;
+export type Period = typeof periods.$inferSelect;
+export type NewPeriod = typeof periods.$inferInsert;
+export type AwardAllocation = typeof awardAllocations.$inferSelect;
+export type NewAwardAllocation = typeof awardAllocations.$inferInsert;
+export type TargetPriceRule = typeof targetPriceRules.$inferSelect;
+export type NewTargetPriceRule = typeof targetPriceRules.$inferInsert;
 export type SupplierServiceScope = typeof supplierServiceScopes.$inferSelect;
 export type NewSupplierServiceScope = typeof supplierServiceScopes.$inferInsert;
 export type KitchenPeriodDemand = typeof kitchenPeriodDemands.$inferSelect;
 export type NewKitchenPeriodDemand = typeof kitchenPeriodDemands.$inferInsert;
+export type StoredFile = typeof storedFiles.$inferSelect;
+export type NewStoredFile = typeof storedFiles.$inferInsert;
+export type SupplierPortalLink = typeof supplierPortalLinks.$inferSelect;
+export type NewSupplierPortalLink = typeof supplierPortalLinks.$inferInsert;
+export type KitchenDemandSubmission = typeof kitchenDemandSubmissions.$inferSelect;
+export type NewKitchenDemandSubmission = typeof kitchenDemandSubmissions.$inferInsert;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type NewPurchaseOrder = typeof purchaseOrders.$inferInsert;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type NewPurchaseOrderItem = typeof purchaseOrderItems.$inferInsert;
+export type KitchenBudget = typeof kitchenBudgets.$inferSelect;
+export type NewKitchenBudget = typeof kitchenBudgets.$inferInsert;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type NewInvoiceLine = typeof invoiceLines.$inferInsert;
+export type SupplierImportProfile = typeof supplierImportProfiles.$inferSelect;
+export type NewSupplierImportProfile = typeof supplierImportProfiles.$inferInsert;
+export type QuotationVersion = typeof quotationVersions.$inferSelect;
+export type NewQuotationVersion = typeof quotationVersions.$inferInsert;
+export type QuotationVersionItem = typeof quotationVersionItems.$inferSelect;
+export type NewQuotationVersionItem = typeof quotationVersionItems.$inferInsert;
+export type ImportJob = typeof importJobs.$inferSelect;
+export type NewImportJob = typeof importJobs.$inferInsert;
+export type ImportJobFile = typeof importJobFiles.$inferSelect;
+export type NewImportJobFile = typeof importJobFiles.$inferInsert;
+export type ImportJobMessage = typeof importJobMessages.$inferSelect;
+export type NewImportJobMessage = typeof importJobMessages.$inferInsert;
 
 export enum ActivityType {
   // Template activities preserved
@@ -632,6 +1698,7 @@ export enum ActivityType {
   APPROVE_QUOTE = "APPROVE_QUOTE",
   NEGOTIATE_QUOTE = "NEGOTIATE_QUOTE",
   CANCEL_QUOTE = "CANCEL_QUOTE",
+  REVOKE_APPROVAL = "REVOKE_APPROVAL",
   CREATE_PRODUCT = "CREATE_PRODUCT",
   UPDATE_PRODUCT = "UPDATE_PRODUCT",
   DELETE_PRODUCT = "DELETE_PRODUCT",
@@ -641,5 +1708,12 @@ export enum ActivityType {
   CREATE_KITCHEN = "CREATE_KITCHEN",
   UPDATE_KITCHEN = "UPDATE_KITCHEN",
   DELETE_KITCHEN = "DELETE_KITCHEN",
+  SUBMIT_DEMAND = "SUBMIT_DEMAND",
+  REOPEN_DEMAND = "REOPEN_DEMAND",
+  GENERATE_PURCHASE_ORDERS = "GENERATE_PURCHASE_ORDERS",
+  UPDATE_PURCHASE_ORDER_STATUS = "UPDATE_PURCHASE_ORDER_STATUS",
+  IMPORT_INVOICES = "IMPORT_INVOICES",
+  UPDATE_KITCHEN_BUDGET = "UPDATE_KITCHEN_BUDGET",
+  UPDATE_IMPORT_PROFILE = "UPDATE_IMPORT_PROFILE",
   SEED_DATABASE = "SEED_DATABASE",
 }
@@ -279,7 +279,10 @@ export function useQuotations() {
     pendingQuotations:
       data?.data?.filter((quotation) => quotation.status === "pending") || [],
     approvedQuotations:
-      data?.data?.filter((quotation) => quotation.status === "approved") || [],
+      data?.data?.filter(
+        (quotation) =>
+          quotation.status === "approved" || quotation.status === "partially_approved"
+      ) || [],
     negotiationQuotations:
       data?.data?.filter((quotation) => quotation.status === "negotiation") || [],
     cancelledQuotations:
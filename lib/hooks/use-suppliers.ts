@@ -13,6 +13,7 @@ export interface Supplier {
   contactPerson: string | null;
   phone: string | null;
   email: string | null;
+  minOrderValue: string | null;
   status: string;
   createdAt: Date | null;
   updatedAt: Date | null;
@@ -7,7 +7,7 @@ export const quotationQuerySchema = z.object({
   supplier: z.string().optional(),
   region: z.string().optional(),
   category: z.string().optional(),
-  status: z.enum(['pending', 'approved', 'cancelled', 'negotiation', 'all']).default('all'),
+  status: z.enum(['pending', 'approved', 'partially_approved', 'cancelled', 'negotiation', 'all']).default('all'),
   sort: z.enum(['quotationId', 'period', 'supplierCode', 'supplierName', 'region', 'category', 'quoteDate', 'updateDate', 'status', 'createdAt']).default('createdAt'),
   order: z.enum(['asc', 'desc']).default('desc'),
   page: z.coerce.number().min(1).default(1),
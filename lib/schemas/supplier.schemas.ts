@@ -32,6 +32,10 @@ export const createSupplierSchema = z.object({
     .max(255, 'Email không được vượt quá 255 ký tự')
     .optional()
     .or(z.literal('')),
+  minOrderValue: z
+    .string()
+    .regex(/^\d*(\.\d+)?$/, 'Giá trị đơn hàng tối thiểu không hợp lệ')
+    .optional(),
 });
 
 export const updateSupplierSchema = createSupplierSchema.extend({
@@ -0,0 +1,23 @@
+import { cleanupExpiredFiles } from './stored-files';
+
+/**
+ * Cleanup job for expired stored files
+ * Run periodically (e.g. daily cron): `pnpm storage:cleanup`
+ */
+async function main() {
+  console.log('🧹 Removing expired stored files...');
+
+  const { deleted, failed } = await cleanupExpiredFiles();
+
+  console.log(`✅ Deleted ${deleted} expired file(s)`);
+  if (failed > 0) {
+    console.warn(`⚠️ ${failed} file(s) could not be deleted and will be retried`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Stored file cleanup failed:', error);
+    process.exit(1);
+  });
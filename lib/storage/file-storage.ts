@@ -0,0 +1,110 @@
+/**
+ * SERVER-ONLY: File Storage Drivers
+ *
+ * Generated files are written through a FileStorageDriver so the backend can be
+ * swapped (e.g. S3) without touching callers. The driver is selected with
+ * FILE_STORAGE_DRIVER (default "local"); the local driver writes under
+ * FILE_STORAGE_ROOT (default "<cwd>/storage").
+ */
+
+import { createReadStream } from 'fs';
+import { mkdir, stat, unlink, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import type { Readable } from 'stream';
+
+export interface FileStorageDriver {
+  name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  // Rejects when the key does not exist
+  openReadStream(key: string): Promise<Readable>;
+  // Succeeds when the key is already gone
+  delete(key: string): Promise<void>;
+}
+
+// Days a generated file is kept before the cleanup job removes it
+export const DEFAULT_FILE_RETENTION_DAYS = 7;
+
+// Hours a signed download link stays valid (capped by the file's own expiry)
+export const DEFAULT_FILE_LINK_TTL_HOURS = 24;
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const configured = Number(value);
+  return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+export function getFileRetentionDays(): number {
+  return readPositiveNumber(process.env.FILE_STORAGE_RETENTION_DAYS, DEFAULT_FILE_RETENTION_DAYS);
+}
+
+export function getFileLinkTtlHours(): number {
+  return readPositiveNumber(process.env.FILE_LINK_TTL_HOURS, DEFAULT_FILE_LINK_TTL_HOURS);
+}
+
+/**
+ * Local disk driver - keys are relative paths below the root directory
+ */
+export function createLocalDiskStorage(root: string): FileStorageDriver {
+  const rootDir = resolve(root);
+
+  const resolveKey = (key: string) => {
+    const filePath = resolve(rootDir, key);
+    if (!filePath.startsWith(rootDir + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async openReadStream(key) {
+      const filePath = resolveKey(key);
+      await stat(filePath);
+      return createReadStream(filePath);
+    },
+
+    async delete(key) {
+      try {
+        await unlink(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    },
+  };
+}
+
+const drivers = new Map<string, FileStorageDriver>();
+
+/**
+ * Get a storage driver by name (defaults to the configured driver)
+ * Files remember the driver they were written with, so reads keep working
+ * after FILE_STORAGE_DRIVER changes.
+ */
+export function getFileStorage(
+  name: string = process.env.FILE_STORAGE_DRIVER || 'local'
+): FileStorageDriver {
+  const cached = drivers.get(name);
+  if (cached) return cached;
+
+  let driver: FileStorageDriver;
+  switch (name) {
+    case 'local':
+      driver = createLocalDiskStorage(
+        process.env.FILE_STORAGE_ROOT || join(process.cwd(), 'storage')
+      );
+      break;
+    default:
+      throw new Error(`Unsupported file storage driver: ${name}`);
+  }
+
+  drivers.set(name, driver);
+  return driver;
+}
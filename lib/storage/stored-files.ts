@@ -0,0 +1,139 @@
+/**
+ * SERVER-ONLY: Stored Files
+ *
+ * Persists generated exports through the configured storage driver and keeps
+ * their metadata in stored_files. Files are downloaded via /api/files/[id],
+ * either with a session (permission checked per region) or a signed link.
+ */
+
+import { randomUUID } from 'crypto';
+import { eq, lte } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { storedFiles, type StoredFile } from '@/lib/db/schema';
+import { buildSignedFilePath } from '@/lib/utils/signed-file-link';
+import {
+  getFileLinkTtlHours,
+  getFileRetentionDays,
+  getFileStorage,
+} from './file-storage';
+
+export const FILE_PURPOSES = {
+  NEGOTIATION_PACKAGE: 'negotiation_package',
+  IMPORT_SOURCE: 'import_source',
+} as const;
+
+// Uploaded import files back import jobs and quotation versions, so they outlive generated exports
+export const IMPORT_SOURCE_RETENTION_DAYS = 3 * 365;
+
+export type FilePurpose = (typeof FILE_PURPOSES)[keyof typeof FILE_PURPOSES];
+
+export interface SaveStoredFileInput {
+  data: Buffer;
+  fileName: string;
+  contentType: string;
+  purpose: FilePurpose;
+  region?: string | null;
+  period?: string | null;
+  createdBy?: number | null;
+  retentionDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getFileLinkSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required to sign file links');
+  }
+  return secret;
+}
+
+/**
+ * Write a file to storage and record its metadata
+ * The bytes are removed again if the metadata cannot be saved.
+ */
+export async function saveStoredFile(input: SaveStoredFileInput): Promise<StoredFile> {
+  const storage = getFileStorage();
+  const now = new Date();
+  const safeName = input.fileName.replace(/[^\w.-]+/g, '_');
+  const storageKey = `${input.purpose}/${now.toISOString().slice(0, 7)}/${randomUUID()}-${safeName}`;
+
+  await storage.put(storageKey, input.data);
+
+  try {
+    const [file] = await db
+      .insert(storedFiles)
+      .values({
+        storageDriver: storage.name,
+        storageKey,
+        fileName: input.fileName,
+        contentType: input.contentType,
+        size: input.data.length,
+        purpose: input.purpose,
+        region: input.region ?? null,
+        period: input.period ?? null,
+        expiresAt: new Date(now.getTime() + (input.retentionDays ?? getFileRetentionDays()) * DAY_MS),
+        createdBy: input.createdBy ?? null,
+      })
+      .returning();
+
+    return file;
+  } catch (error) {
+    await storage.delete(storageKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function getStoredFile(id: number): Promise<StoredFile | undefined> {
+  const [file] = await db.select().from(storedFiles).where(eq(storedFiles.id, id)).limit(1);
+  return file;
+}
+
+export async function openStoredFile(file: StoredFile) {
+  return getFileStorage(file.storageDriver).openReadStream(file.storageKey);
+}
+
+/**
+ * Signed download path for a file, valid for the link TTL or until the file expires
+ */
+export function createSignedFileLink(file: StoredFile, ttlHours: number = getFileLinkTtlHours()): string {
+  const linkExpiry = new Date(
+    Math.min(Date.now() + ttlHours * HOUR_MS, file.expiresAt.getTime())
+  );
+
+  return buildSignedFilePath(file.id, linkExpiry, getFileLinkSecret());
+}
+
+/**
+ * Delete expired files from storage and their metadata
+ * Rows whose bytes cannot be deleted are kept so the next run retries them.
+ */
+export async function cleanupExpiredFiles(
+  now: Date = new Date()
+): Promise<{ deleted: number; failed: number }> {
+  const expired = await db
+    .select({
+      id: storedFiles.id,
+      storageDriver: storedFiles.storageDriver,
+      storageKey: storedFiles.storageKey,
+    })
+    .from(storedFiles)
+    .where(lte(storedFiles.expiresAt, now));
+
+  let deleted = 0;
+  let failed = 0;
+
+  for (const file of expired) {
+    try {
+      await getFileStorage(file.storageDriver).delete(file.storageKey);
+      await db.delete(storedFiles).where(eq(storedFiles.id, file.id));
+      deleted++;
+    } catch (error) {
+      console.error(`Error deleting stored file ${file.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { deleted, failed };
+}
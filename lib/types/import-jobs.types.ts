@@ -0,0 +1,62 @@
+import { z } from "zod";
+import {
+  IMPORT_JOB_TYPES,
+  type ImportJobStatus,
+  type ImportJobType,
+} from "@/lib/utils/import-jobs";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+export const ImportJobFiltersSchema = z.object({
+  type: z.enum(IMPORT_JOB_TYPES).optional(),
+  jobId: z.number().positive("ID lần nhập không hợp lệ").optional(),
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(20),
+});
+
+// ==================== TYPES ====================
+
+export interface ImportJobFileEntry {
+  id: number;
+  fileName: string;
+  downloadUrl: string | null; // Signed link, null once the stored file has expired
+  errorCount: number;
+}
+
+export interface ImportJobEntry {
+  id: number;
+  type: ImportJobType;
+  status: ImportJobStatus;
+  region: string | null;
+  period: string | null;
+  totalFiles: number;
+  processedFiles: number;
+  createdCount: number;
+  updatedCount: number;
+  itemCount: number;
+  errorCount: number;
+  warningCount: number;
+  createdByName: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  files: ImportJobFileEntry[];
+}
+
+export interface ImportJobMessageEntry {
+  id: number;
+  level: "error" | "warning";
+  fileName: string | null; // null for messages about the whole run
+  sheetName: string | null;
+  rowNumber: number | null;
+  message: string;
+}
+
+export interface ImportJobsResponse {
+  data: ImportJobEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
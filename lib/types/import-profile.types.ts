@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { ImportColumnMapping } from "@/lib/utils/import-profile";
+import type { WorkbookSheetPreview } from "@/lib/utils/excel-parser";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+const columnSchema = z.number().int().min(1, "Cột không hợp lệ").max(200, "Cột không hợp lệ");
+
+export const SaveImportProfileSchema = z.object({
+  supplierId: z.number().positive("Vui lòng chọn nhà cung cấp"),
+  sheetName: z.string().trim().max(100).nullable(), // null = first sheet
+  headerRow: z.number().int().min(1, "Dòng tiêu đề không hợp lệ").max(100, "Dòng tiêu đề không hợp lệ"),
+  columns: z
+    .object({
+      productCode: columnSchema,
+      initialPrice: columnSchema,
+      vatRate: columnSchema.optional(),
+      unit: columnSchema.optional(),
+      quantity: columnSchema.optional(),
+      notes: columnSchema.optional(),
+    })
+    .refine(
+      (columns) => {
+        const used = Object.values(columns).filter((column) => column !== undefined);
+        return new Set(used).size === used.length;
+      },
+      { message: "Mỗi cột chỉ được gán cho một trường" }
+    ),
+});
+
+export const DeleteImportProfileSchema = z.object({
+  supplierId: z.number().positive("Vui lòng chọn nhà cung cấp"),
+});
+
+// ==================== TYPES ====================
+
+export interface ImportProfileEntry {
+  supplierId: number;
+  supplierCode: string | null;
+  supplierName: string;
+  sheetName: string | null;
+  headerRow: number;
+  columns: ImportColumnMapping;
+  updatedAt: Date;
+}
+
+export interface ImportFilePreview {
+  sheets: WorkbookSheetPreview[];
+  // Starting point for the mapping wizard: the saved profile, else detected
+  sheetName: string | null;
+  headerRow: number;
+  columns: ImportColumnMapping;
+  fromProfile: boolean;
+}
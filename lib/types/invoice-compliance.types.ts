@@ -0,0 +1,73 @@
+import { z } from "zod";
+import {
+  INVOICE_LINE_STATUSES,
+  type InvoiceLineStatus,
+  type SupplierInvoiceSummary,
+} from "@/lib/utils/invoice-compliance";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+const periodSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX");
+
+export const InvoiceComplianceFiltersSchema = z.object({
+  period: periodSchema,
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+  supplierId: z.number().positive("ID nhà cung cấp không hợp lệ").optional(),
+  status: z.enum(INVOICE_LINE_STATUSES).optional(),
+});
+
+// ==================== TYPES ====================
+
+export interface InvoiceImportResult {
+  success: boolean;
+  importedLines: number;
+  replacedLines: number; // Earlier lines of the same file, period, region and supplier, replaced
+  overchargedLines: number;
+  unapprovedLines: number;
+  overchargeAmount: number;
+  skippedLines: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface InvoiceLineEntry {
+  id: number;
+  period: string;
+  invoiceNumber: string | null;
+  invoiceDate: Date;
+  supplierId: number;
+  supplierCode: string | null;
+  supplierName: string;
+  teamId: number;
+  teamCode: string | null;
+  kitchenName: string;
+  productCode: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  approvedPrice: number | null;
+  priceDifference: number | null; // Invoiced - approved unit price
+  status: InvoiceLineStatus;
+  overchargeAmount: number;
+  sourceFile: string;
+}
+
+export interface SupplierInvoiceSummaryEntry extends SupplierInvoiceSummary {
+  supplierCode: string | null;
+  supplierName: string;
+}
+
+export interface InvoiceComplianceReport {
+  period: string;
+  region: string;
+  summaries: SupplierInvoiceSummaryEntry[]; // All lines of the period/region, regardless of the status filter
+  lines: InvoiceLineEntry[];
+  totals: {
+    invoicedAmount: number;
+    overchargeAmount: number;
+    unapprovedAmount: number;
+  };
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import type { BudgetVariance } from "@/lib/utils/kitchen-budget";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+const periodSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX");
+
+export const KitchenBudgetFiltersSchema = z.object({
+  period: periodSchema,
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+});
+
+export const KitchenBudgetStatusSchema = z.object({
+  teamId: z.number().positive("Vui lòng chọn bếp"),
+  period: periodSchema,
+});
+
+// The full set of budgets of a kitchen for the period - scopes left out are removed
+export const SaveKitchenBudgetsSchema = z.object({
+  teamId: z.number().positive("Vui lòng chọn bếp"),
+  period: periodSchema,
+  budgets: z
+    .array(
+      z.object({
+        category: z.string().trim().min(1).max(100).nullable(), // null = whole kitchen
+        amount: z
+          .number()
+          .nonnegative("Ngân sách không được âm")
+          .max(999999999999, "Ngân sách quá lớn"),
+      })
+    )
+    .refine(
+      (budgets) =>
+        new Set(budgets.map((budget) => budget.category ?? "")).size === budgets.length,
+      "Mỗi nhóm hàng chỉ có một ngân sách"
+    ),
+});
+
+export const ApprovalBudgetImpactSchema = z.object({
+  quotationIds: z.array(z.number().positive()).min(1),
+  rejectedItemIds: z.array(z.number().positive()).default([]),
+});
+
+export const BudgetOverviewSchema = z.object({
+  period: periodSchema.optional(), // Defaults to the newest period in progress
+});
+
+// ==================== TYPES ====================
+
+export interface KitchenBudgetCategoryStatus {
+  category: string;
+  budget: number | null; // Null when the category has no budget of its own
+  plannedSpend: number;
+  variance: BudgetVariance | null;
+}
+
+export interface KitchenBudgetStatus {
+  teamId: number;
+  teamCode: string | null;
+  kitchenName: string;
+  region: string;
+  period: string;
+  budget: number | null; // Whole-kitchen budget, null when not set
+  plannedSpend: number; // Demand × approved price incl. VAT
+  variance: BudgetVariance | null;
+  unpricedProducts: number;
+  categories: KitchenBudgetCategoryStatus[];
+}
+
+export interface RegionalBudgetStatus {
+  period: string;
+  region: string;
+  canEdit: boolean;
+  kitchens: KitchenBudgetStatus[];
+}
+
+export interface BudgetOverview {
+  period: string | null; // Null when no period exists yet
+  kitchens: KitchenBudgetStatus[]; // Kitchens with a budget, most used first
+}
+
+export interface ApprovalBudgetWarning {
+  period: string;
+  teamId: number;
+  kitchenName: string;
+  category: string | null; // null = whole kitchen budget
+  budget: number;
+  currentSpend: number;
+  projectedSpend: number;
+}
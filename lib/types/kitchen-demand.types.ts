@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { DemandForecast } from "@/lib/utils/demand-forecast";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+const periodSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX");
+
+export const KitchenDemandFiltersSchema = z.object({
+  teamId: z.number().positive("Vui lòng chọn bếp"),
+  period: periodSchema,
+});
+
+// Quantity 0 removes the product from the kitchen's demand
+export const SaveKitchenDemandsSchema = z.object({
+  teamId: z.number().positive("Vui lòng chọn bếp"),
+  period: periodSchema,
+  items: z
+    .array(
+      z.object({
+        productId: z.number().positive("ID sản phẩm không hợp lệ"),
+        quantity: z
+          .number()
+          .nonnegative("Số lượng không được âm")
+          .max(99999999, "Số lượng quá lớn"),
+        notes: z.string().trim().max(500, "Ghi chú không được vượt quá 500 ký tự").optional(),
+      })
+    )
+    .min(1, "Không có thay đổi nào để lưu")
+    .refine(
+      (items) => new Set(items.map((item) => item.productId)).size === items.length,
+      "Mỗi sản phẩm chỉ được nhập một lần"
+    ),
+});
+
+export const CopyPreviousKitchenDemandSchema = KitchenDemandFiltersSchema;
+export const SubmitKitchenDemandSchema = KitchenDemandFiltersSchema;
+export const ReopenKitchenDemandSchema = KitchenDemandFiltersSchema;
+
+export const DemandRollupFiltersSchema = z.object({
+  period: periodSchema,
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+});
+
+// ==================== TYPES ====================
+
+export type KitchenDemandSubmissionStatus = "draft" | "submitted";
+
+export interface DemandKitchenOption {
+  id: number;
+  teamCode: string | null;
+  name: string;
+  region: string | null;
+  canEdit: boolean; // Kitchen managers of the team and admins
+}
+
+export interface KitchenDemandRow {
+  productId: number;
+  productCode: string;
+  productName: string;
+  specification: string | null;
+  unit: string;
+  category: string;
+  quantity: number | null; // Null when the kitchen has no demand for the product
+  notes: string | null;
+  previousQuantity: number | null; // Demand of the kitchen's previous period with demand
+  forecast: DemandForecast | null; // Proposed quantity from the kitchen's history
+}
+
+export interface KitchenDemandSheet {
+  teamId: number;
+  kitchenName: string;
+  region: string | null;
+  period: string;
+  previousPeriod: string | null;
+  status: KitchenDemandSubmissionStatus;
+  submittedAt: Date | null;
+  canEdit: boolean;
+  canReopen: boolean;
+  blockReason: string | null; // Why the demand cannot be edited right now, null = open
+  rows: KitchenDemandRow[];
+}
+
+export interface KitchenDemandImportResult {
+  success: boolean;
+  updatedLines: number;
+  removedLines: number;
+  skippedLines: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface DemandRollupKitchen {
+  teamId: number;
+  teamCode: string | null;
+  name: string;
+  status: KitchenDemandSubmissionStatus;
+  submittedAt: Date | null;
+  productCount: number;
+}
+
+export interface DemandRollupRow {
+  productId: number;
+  productCode: string;
+  productName: string;
+  unit: string;
+  category: string;
+  total: number;
+  quantities: Record<number, number>; // Kitchen team id -> quantity
+}
+
+export interface DemandRollup {
+  period: string;
+  region: string;
+  kitchens: DemandRollupKitchen[];
+  rows: DemandRollupRow[];
+}
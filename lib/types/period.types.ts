@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { PERIOD_STATUSES, type PeriodStatus } from "@/lib/utils/period-lifecycle";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+const periodDatesSchema = z.object({
+  name: z.string().trim().max(100, "Tên kỳ không được vượt quá 100 ký tự").optional(),
+  startDate: z.coerce.date({ errorMap: () => ({ message: "Ngày bắt đầu không hợp lệ" }) }),
+  endDate: z.coerce.date({ errorMap: () => ({ message: "Ngày kết thúc không hợp lệ" }) }),
+  submissionDeadline: z.coerce
+    .date({ errorMap: () => ({ message: "Hạn nộp báo giá không hợp lệ" }) })
+    .nullable()
+    .default(null),
+});
+
+// Period creation schema
+export const CreatePeriodSchema = periodDatesSchema
+  .extend({
+    code: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "Ngày kết thúc phải sau ngày bắt đầu",
+    path: ["endDate"],
+  });
+
+// Period update schema (the code identifies the period and cannot change)
+export const UpdatePeriodSchema = periodDatesSchema
+  .extend({
+    id: z.number().positive("ID kỳ báo giá không hợp lệ"),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "Ngày kết thúc phải sau ngày bắt đầu",
+    path: ["endDate"],
+  });
+
+// Lifecycle transition schema
+export const AdvancePeriodStatusSchema = z.object({
+  id: z.number().positive("ID kỳ báo giá không hợp lệ"),
+  status: z.enum(PERIOD_STATUSES, {
+    errorMap: () => ({ message: "Trạng thái kỳ báo giá không hợp lệ" }),
+  }),
+});
+
+// ==================== TYPES ====================
+
+export interface PeriodEntry {
+  id: number;
+  code: string;
+  name: string | null;
+  startDate: Date;
+  endDate: Date;
+  submissionDeadline: Date | null;
+  status: PeriodStatus;
+  closedAt: Date | null;
+  quotationCount: number;
+  acceptsImports: boolean; // Open or collecting and before the deadline
+  acceptsRequotes: boolean; // Quotations in negotiation can still be re-quoted
+}
@@ -16,6 +16,7 @@ export const GetPriceListMatrixSchema = z.object({
 
 export interface PeriodInfo {
   period: string;
+  status: string | null; // Lifecycle status from the periods table, null for unregistered periods
   approvedQuotations: number;
   availableSuppliers: number;
   totalProducts: number;
@@ -41,10 +42,14 @@ export interface PriceListMatrixData {
       hasBestPrice: boolean;
       quotationId: number;
       approvedAt?: Date;
+      awardSharePercent?: number; // Set on the supplier(s) the kitchen should order from
+      orderQuantity?: number; // Kitchen demand × share, when the kitchen has a demand
     }>;
     bestSupplierId?: number;
     bestPrice?: number;
     availableSuppliers: number;
+    awardSource: 'allocation' | 'best_price'; // Split award, or the best price supplier takes all
+    demandQuantity?: number; // This kitchen's demand for the period
   }>;
   suppliers: Array<{
     id: number;
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import {
+  PURCHASE_ORDER_STATUSES,
+  type PurchaseOrderStatus,
+} from "@/lib/utils/purchase-order";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+const periodSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX");
+
+export const PurchaseOrderFiltersSchema = z.object({
+  period: periodSchema,
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+  status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+});
+
+export const GeneratePurchaseOrdersSchema = z.object({
+  period: periodSchema,
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+});
+
+export const PurchaseOrderIdSchema = z.object({
+  id: z.number().positive("ID đơn đặt hàng không hợp lệ"),
+});
+
+export const AdvancePurchaseOrderStatusSchema = z.object({
+  id: z.number().positive("ID đơn đặt hàng không hợp lệ"),
+  status: z.enum(PURCHASE_ORDER_STATUSES, {
+    errorMap: () => ({ message: "Trạng thái đơn đặt hàng không hợp lệ" }),
+  }),
+});
+
+// ==================== TYPES ====================
+
+export interface PurchaseOrderEntry {
+  id: number;
+  poNumber: string;
+  period: string;
+  region: string;
+  teamId: number;
+  teamCode: string | null;
+  kitchenName: string;
+  supplierId: number;
+  supplierCode: string | null;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  lineCount: number;
+  subtotal: number;
+  vatAmount: number;
+  totalAmount: number;
+  sentAt: Date | null;
+  confirmedAt: Date | null;
+  receivedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface PurchaseOrderLine {
+  productId: number;
+  productCode: string;
+  productName: string;
+  specification: string | null;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  vatPercentage: number;
+  sharePercent: number | null; // Split award share, null = sole supplier
+  lineSubtotal: number;
+  lineVat: number;
+  lineTotal: number;
+}
+
+export interface PurchaseOrderDetail extends PurchaseOrderEntry {
+  kitchenAddress: string | null;
+  supplierAddress: string | null;
+  supplierTaxId: string | null;
+  supplierContactPerson: string | null;
+  supplierPhone: string | null;
+  supplierEmail: string | null;
+  notes: string | null;
+  lines: PurchaseOrderLine[];
+}
+
+export interface UnpricedDemandLine {
+  teamId: number;
+  kitchenName: string;
+  productCode: string;
+  productName: string;
+  quantity: number;
+}
+
+export interface PurchaseOrderGenerationResult {
+  success: string;
+  created: number;
+  updated: number;
+  removed: number;
+  lockedOrders: number; // Orders already sent or beyond, left untouched
+  unpricedLines: UnpricedDemandLine[]; // Demand without an approved price from a serving supplier
+}
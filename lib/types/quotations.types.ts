@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { type Quotation, type QuoteItem, type Supplier, type Product } from "@/lib/db/schema";
+import type { NegotiationRoundEntry } from "@/lib/types/quote-comparison.types";
+import type { QuotationDiffLine } from "@/lib/utils/quotation-diff";
 
 // ==================== VALIDATION SCHEMAS ====================
 
@@ -8,7 +10,7 @@ export const QuotationFiltersSchema = z.object({
   period: z.string().optional(),
   region: z.string().optional(),
   supplierId: z.number().optional(),
-  status: z.enum(['pending', 'negotiation', 'approved', 'cancelled', 'all']).optional(),
+  status: z.enum(['pending', 'negotiation', 'pending_approval', 'approved', 'partially_approved', 'cancelled', 'all']).optional(),
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(50),
 });
@@ -18,6 +20,8 @@ export const ImportQuotationsSchema = z.object({
   period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
   region: z.string().min(1, "Khu vực là bắt buộc"),
   overwrite: z.boolean().default(false),
+  // Supplier of each file (by position) read with that supplier's import profile, null = standard template
+  fileSuppliers: z.array(z.number().positive().nullable()).default([]),
 });
 
 // Quotation status update schema
@@ -28,6 +32,16 @@ export const UpdateQuotationStatusSchema = z.object({
   }),
 });
 
+// Approval revocation schema
+export const RevokeQuotationApprovalSchema = z.object({
+  id: z.number().positive("ID báo giá không hợp lệ"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Vui lòng nhập lý do thu hồi phê duyệt")
+    .max(500, "Lý do không được vượt quá 500 ký tự"),
+});
+
 // ==================== TYPES ====================
 
 export interface QuotationWithDetails extends Quotation {
@@ -39,7 +53,9 @@ export interface QuotationWithDetails extends Quotation {
 export interface QuotationDetailsWithItems extends Quotation {
   supplier: Supplier;
   creator: { id: number; name: string; email: string };
-  items: Array<QuoteItem & { product: Product }>;
+  items: Array<
+    QuoteItem & { product: Product; negotiationHistory: NegotiationRoundEntry[] }
+  >;
 }
 
 export interface ImportResult {
@@ -50,6 +66,66 @@ export interface ImportResult {
   createdQuotations: number;
   updatedQuotations: number;
   totalItems: number;
+  flaggedItems: number; // Items with suspicious prices (see price-anomaly.ts)
+  errors: string[];
+  warnings: string[];
+  importJobId?: number; // Import job the run was logged as (see import-jobs.ts)
+}
+
+// What an import does with a supplier's quotation: create it, replace the
+// items of a pending one, re-quote one in negotiation, or nothing (blocked)
+export type QuotationImportAction = "create" | "replace" | "requote" | "blocked";
+
+// Dry-run result for one supplier quotation of an import file
+export interface QuotationImportPreview {
+  sheetName?: string; // Supplier sheet of a multi-supplier workbook
+  supplierCode: string;
+  supplierName: string | null;
+  action: QuotationImportAction | null; // null when validation failed
+  existingStatus: string | null;
+  totalItems: number;
+  diff: QuotationDiffLine[];
   errors: string[];
   warnings: string[];
-}
\ No newline at end of file
+  anomalyWarnings: string[];
+}
+
+export interface ImportFilePreviewResult {
+  fileIndex: number;
+  fileName: string;
+  quotations: QuotationImportPreview[];
+  errors: string[]; // File could not be read
+}
+
+export interface ImportPreviewResult {
+  files: ImportFilePreviewResult[];
+  errors: string[]; // Import not possible at all (e.g. period closed)
+}
+// Channel a quotation version was submitted through
+export type QuotationVersionSource = "excel_import" | "supplier_portal";
+
+export interface QuotationVersionItemEntry {
+  productCode: string;
+  productName: string;
+  specification: string | null;
+  unit: string;
+  quantity: number | null;
+  price: number;
+  vatPercentage: number;
+  notes: string | null;
+}
+
+// One immutable version of a quotation, newest first in getQuotationVersions
+export interface QuotationVersionEntry {
+  id: number;
+  versionNumber: number;
+  isCurrent: boolean; // Latest version - the one quote_items hold
+  source: QuotationVersionSource;
+  sourceFileName: string | null;
+  downloadPath: string | null; // null once the source file has expired
+  quoteDate: Date | null;
+  itemCount: number;
+  createdAt: Date;
+  createdByName: string | null;
+  items: QuotationVersionItemEntry[];
+}
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import type { ComparisonMatrix } from "@/lib/utils/price-calculation";
+import {
+  TARGET_PRICE_BASELINES,
+  type TargetPriceBaseline,
+} from "@/lib/utils/target-price-rules";
 
 // ==================== VALIDATION SCHEMAS ====================
 
@@ -8,6 +12,9 @@ export const ComparisonMatrixSchema = z.object({
   period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
   region: z.string().min(1, "Khu vực là bắt buộc"),
   categories: z.array(z.string().min(1, "Nhóm hàng không được rỗng")).min(1, "Phải chọn ít nhất một nhóm hàng"),
+  // Server-side paging of product rows; omit limit to load every product (exports, target prices)
+  page: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
 });
 
 // Batch negotiation schema
@@ -20,17 +27,122 @@ export const NegotiateQuotationSchema = z.object({
   id: z.number().positive("ID báo giá không hợp lệ"),
 });
 
-// Approve quotation schema
+// Quote item rejected during approval
+export const ItemRejectionSchema = z.object({
+  itemId: z.number().positive("ID sản phẩm báo giá không hợp lệ"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Vui lòng nhập lý do từ chối sản phẩm")
+    .max(500, "Lý do không được vượt quá 500 ký tự"),
+});
+
+// Approve quotation schema (rejected items are excluded from the approval)
 export const ApproveQuotationSchema = z.object({
   id: z.number().positive("ID báo giá không hợp lệ"),
   approvedPrices: z.record(
     z.string(),
     z.number().nonnegative("Giá phê duyệt phải >= 0")
   ).optional(),
+  rejectedItems: z.array(ItemRejectionSchema).default([]),
+});
+
+// Batch approval schema
+export const ApproveMultipleQuotationsSchema = z.object({
+  quotationIds: z.array(z.number().positive()).min(1, "Phải chọn ít nhất một báo giá"),
+  rejectedItems: z.array(ItemRejectionSchema).default([]),
+});
+
+// Counter-offer import schema (returned target-price workbooks)
+export const ImportCounterOffersSchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+});
+
+// Approval inbox filter schema
+export const ApprovalRequestFiltersSchema = z.object({
+  status: z.enum(["pending", "decided"]).default("pending"),
+});
+
+// Approve approval request schema (final sign-off)
+export const ApproveApprovalRequestSchema = z.object({
+  id: z.number().positive("ID yêu cầu phê duyệt không hợp lệ"),
+  comment: z.string().max(1000, "Ghi chú không được vượt quá 1000 ký tự").optional(),
+});
+
+// Reject approval request schema (comment is mandatory)
+export const RejectApprovalRequestSchema = z.object({
+  id: z.number().positive("ID yêu cầu phê duyệt không hợp lệ"),
+  comment: z
+    .string()
+    .trim()
+    .min(1, "Vui lòng nhập lý do từ chối")
+    .max(1000, "Lý do không được vượt quá 1000 ký tự"),
+});
+
+// Target price rule schema (category/region null = applies everywhere)
+export const TargetPriceRuleSchema = z.object({
+  name: z.string().trim().min(1, "Tên quy tắc là bắt buộc").max(200, "Tên quy tắc không được vượt quá 200 ký tự"),
+  category: z.string().trim().min(1).nullable().default(null),
+  region: z.string().trim().min(1).nullable().default(null),
+  baseline: z.enum(TARGET_PRICE_BASELINES, {
+    errorMap: () => ({ message: "Giá gốc của quy tắc không hợp lệ" }),
+  }),
+  adjustmentPercent: z
+    .number()
+    .gt(-100, "Mức điều chỉnh phải lớn hơn -100%")
+    .max(100, "Mức điều chỉnh không được vượt quá 100%"),
+  capAtBasePrice: z.boolean().default(false),
+  floorAtHistoricalLow: z.boolean().default(false),
+  priority: z.number().int("Độ ưu tiên phải là số nguyên").default(0),
+  isActive: z.boolean().default(true),
+});
+
+export const UpdateTargetPriceRuleSchema = TargetPriceRuleSchema.partial().extend({
+  id: z.number().positive("ID quy tắc không hợp lệ"),
+});
+
+// Split award of one product (empty allocations = remove the split award)
+export const SaveAwardAllocationsSchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+  productId: z.number().positive("ID sản phẩm không hợp lệ"),
+  allocations: z.array(
+    z.object({
+      supplierId: z.number().positive("ID nhà cung cấp không hợp lệ"),
+      sharePercent: z.number().positive("Tỷ lệ phân bổ phải lớn hơn 0").max(100, "Tỷ lệ phân bổ không được vượt quá 100%").nullable().optional(),
+      quantity: z.number().positive("Số lượng phân bổ phải lớn hơn 0").nullable().optional(),
+    })
+  ),
+});
+
+// Award optimisation constraints (null = constraint not applied)
+export const AwardOptimizationSchema = z.object({
+  period: z.string().min(1, "Kỳ báo giá là bắt buộc"),
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+  categories: z.array(z.string()).optional(),
+  maxSuppliers: z.number().int("Số NCC tối đa phải là số nguyên").positive("Số NCC tối đa phải lớn hơn 0").nullable().default(null),
+  minOrderValue: z.number().nonnegative("Giá trị đơn hàng tối thiểu không được âm").nullable().default(null),
+  incumbentSavingPercent: z
+    .number()
+    .min(0, "Ngưỡng tiết kiệm không được âm")
+    .max(100, "Ngưỡng tiết kiệm không được vượt quá 100%")
+    .nullable()
+    .default(null),
 });
 
 // ==================== TYPES ====================
 
+// One recorded negotiation round of a quote item (oldest first when listed)
+export interface NegotiationRoundEntry {
+  roundNumber: number;
+  offeredPrice: number;
+  targetPrice: number | null; // Target price sent to the supplier for this round
+  recordedByName: string | null;
+  note: string | null;
+  recordedAt: Date;
+}
+
 // Supplier Performance - Detailed metrics for one supplier in one category
 export interface SupplierPerformance {
   supplierId: number;
@@ -59,7 +171,7 @@ export interface SupplierPerformance {
   };
 
   // Quotation status for color coding
-  quotationStatus: 'pending' | 'negotiation' | 'approved' | null;
+  quotationStatus: 'pending' | 'negotiation' | 'approved' | 'partially_approved' | null;
 }
 
 // Category Overview - All suppliers' performance in one category
@@ -89,7 +201,7 @@ export interface ComparisonMatrixData extends ComparisonMatrix {
     status: string;
     // NEW: Add quotation-level data
     quotationId: number | null;  // The regional quotation ID for this supplier
-    quotationStatus: 'draft' | 'submitted' | 'negotiation' | 'approved' | 'rejected' | null;
+    quotationStatus: 'draft' | 'submitted' | 'negotiation' | 'approved' | 'partially_approved' | 'rejected' | null;
     quotationSubmittedAt: Date | null;
     quotationLastUpdated: Date | null;
     // Statistics
@@ -98,6 +210,13 @@ export interface ComparisonMatrixData extends ComparisonMatrix {
     negotiationQuotations: number;
     approvedQuotations: number;
   }>;
+  // Paging of `products`; suppliers, coverage and groupedOverview always span every product
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
 }
 
 export interface NegotiationResult {
@@ -111,4 +230,117 @@ export interface ApprovalResult {
   approvedItems: number;
   totalApprovedValue: number;
   loggedPriceHistory: number;
-}
\ No newline at end of file
+  pendingApproval: boolean; // True when the quotation awaits sign-off from a higher band
+  rejectedItems: number;
+}
+
+export interface BatchApprovalResult {
+  success: string;
+  approvedQuotations: number;
+  pendingApprovalQuotations: number; // Quotations routed to the approvals inbox
+  rejectedItems: number;
+  affectedSuppliers: string[];
+}
+
+export type ApprovalRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+// One entry of the approvals inbox
+export interface ApprovalRequestEntry {
+  id: number;
+  quotationId: number;
+  quotationCode: string;
+  supplierCode: string | null;
+  supplierName: string;
+  period: string;
+  region: string;
+  totalValue: number;
+  approvalLevel: number;
+  approvalLevelLabel: string;
+  status: ApprovalRequestStatus;
+  requestComment: string | null;
+  requestedByName: string | null;
+  createdAt: Date;
+  decidedByName: string | null;
+  decidedAt: Date | null;
+  decisionComment: string | null;
+  canDecide: boolean; // Current user may approve or reject this request
+}
+
+export type CounterOfferLineStatus = "accepted" | "rejected" | "unchanged";
+
+// Outcome of one product line in a returned target-price workbook
+export interface CounterOfferLineResult {
+  fileName: string;
+  row: number;
+  quotationCode: string | null;
+  supplierCode: string | null;
+  productCode: string;
+  previousPrice: number | null; // Current negotiated (or initial) price before import
+  counterOffer: number | null;
+  status: CounterOfferLineStatus;
+  message?: string;
+}
+
+export interface CounterOfferImportResult {
+  success: boolean;
+  totalFiles: number;
+  processedFiles: number;
+  acceptedLines: number;
+  rejectedLines: number;
+  unchangedLines: number;
+  loggedPriceHistory: number;
+  lines: CounterOfferLineResult[];
+  errors: string[];
+  warnings: string[];
+}
+
+// One kitchen's active demand for a product in a period
+export interface KitchenDemandLine {
+  teamId: number;
+  teamCode: string | null;
+  kitchenName: string;
+  quantity: number;
+}
+
+// Regional demand of a product: the sum over the region's active kitchens
+export interface RegionalKitchenDemand {
+  total: number;
+  kitchens: KitchenDemandLine[];
+}
+
+// One supplier's share of a split award
+export interface AwardAllocationEntry {
+  supplierId: number;
+  sharePercent: number;
+  quantity: number | null; // Share of demand when the allocation was saved
+}
+
+// Target price rule as listed in the rules manager
+export interface TargetPriceRuleEntry {
+  id: number;
+  name: string;
+  category: string | null;
+  region: string | null;
+  baseline: TargetPriceBaseline;
+  adjustmentPercent: number;
+  capAtBasePrice: boolean;
+  floorAtHistoricalLow: boolean;
+  priority: number;
+  isActive: boolean;
+  description: string; // Readable formula, e.g. "Giá tốt nhất − 3%"
+}
+
+// Target price computed for one product, shown in the preview and exports
+export interface TargetPricePreviewRow {
+  productId: number;
+  productCode: string;
+  productName: string;
+  category: string;
+  unit: string;
+  bestPrice: number | null;
+  previousApprovedPrice: number | null;
+  basePrice: number | null;
+  historicalLowPrice: number | null;
+  targetPrice: number | null;
+  ruleName: string;
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+// ==================== VALIDATION SCHEMAS ====================
+
+// Link issuance schema (staff side)
+export const CreateSupplierPortalLinkSchema = z.object({
+  supplierId: z.number().positive("Vui lòng chọn nhà cung cấp"),
+  period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+});
+
+export const SupplierPortalLinkFiltersSchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Kỳ báo giá phải có định dạng YYYY-MM-XX"),
+  region: z.string().min(1, "Khu vực là bắt buộc"),
+});
+
+export const RevokeSupplierPortalLinkSchema = z.object({
+  id: z.number().positive("ID liên kết không hợp lệ"),
+});
+
+// Supplier submission schema (portal side) - prices are validated again as
+// quotation items by the shared import validation
+export const SubmitSupplierPortalQuotationSchema = z.object({
+  token: z.string().min(1, "Liên kết báo giá không hợp lệ"),
+  items: z
+    .array(
+      z.object({
+        productId: z.number().positive("ID sản phẩm không hợp lệ"),
+        price: z.number().nonnegative("Giá không được âm"),
+        vatRate: z.number().min(0, "VAT phải từ 0 đến 100").max(100, "VAT phải từ 0 đến 100"),
+        notes: z.string().trim().max(500, "Ghi chú không được vượt quá 500 ký tự").optional(),
+      })
+    )
+    .min(1, "Vui lòng nhập giá cho ít nhất một sản phẩm")
+    .refine(
+      (items) => new Set(items.map((item) => item.productId)).size === items.length,
+      "Mỗi sản phẩm chỉ được báo giá một lần"
+    ),
+});
+
+// ==================== TYPES ====================
+
+export type SupplierPortalLinkStatus = "active" | "expired" | "revoked";
+
+export interface SupplierPortalLinkEntry {
+  id: number;
+  supplierId: number;
+  supplierCode: string | null;
+  supplierName: string;
+  period: string;
+  region: string;
+  status: SupplierPortalLinkStatus;
+  expiresAt: Date;
+  lastAccessedAt: Date | null;
+  submittedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SupplierPortalProduct {
+  productId: number;
+  productCode: string;
+  productName: string;
+  specification: string | null;
+  unit: string;
+  category: string;
+  quantity: number; // Summed active demand of the kitchens the supplier serves in the region
+  kitchenCount: number;
+  // Prefilled from the supplier's current quotation, if any
+  price: number | null;
+  vatRate: number | null;
+  notes: string | null;
+}
+
+export interface SupplierPortalQuotation {
+  supplierCode: string;
+  supplierName: string;
+  period: string;
+  periodName: string | null;
+  region: string;
+  submissionDeadline: Date | null;
+  linkExpiresAt: Date;
+  quotationStatus: string | null;
+  submittedAt: Date | null;
+  blockReason: string | null; // Why submissions are currently refused, null = open
+  products: SupplierPortalProduct[];
+}
+
+export interface SupplierPortalSubmitResult {
+  success: string;
+  totalItems: number;
+  flaggedItems: number;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizeAwardAllocations } from '../award-allocation';
+
+describe('Split Award Allocation', () => {
+  it('should accept percentage shares summing to 100%', () => {
+    const { allocations, errors } = normalizeAwardAllocations(
+      [
+        { supplierId: 1, sharePercent: 60 },
+        { supplierId: 2, sharePercent: 40 },
+      ],
+      200
+    );
+
+    expect(errors).toEqual([]);
+    expect(allocations).toEqual([
+      { supplierId: 1, sharePercent: 60, quantity: 120 },
+      { supplierId: 2, sharePercent: 40, quantity: 80 },
+    ]);
+  });
+
+  it('should convert quantity shares to percentages', () => {
+    const { allocations, errors } = normalizeAwardAllocations(
+      [
+        { supplierId: 1, quantity: 30 },
+        { supplierId: 2, quantity: 70 },
+      ],
+      100
+    );
+
+    expect(errors).toEqual([]);
+    expect(allocations.map((a) => a.sharePercent)).toEqual([30, 70]);
+  });
+
+  it('should tolerate rounding of equal thirds', () => {
+    const { errors } = normalizeAwardAllocations(
+      [
+        { supplierId: 1, sharePercent: 33.33 },
+        { supplierId: 2, sharePercent: 33.33 },
+        { supplierId: 3, sharePercent: 33.34 },
+      ],
+      90
+    );
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should reject shares that do not cover the demand', () => {
+    const { allocations, errors } = normalizeAwardAllocations(
+      [
+        { supplierId: 1, sharePercent: 50 },
+        { supplierId: 2, sharePercent: 30 },
+      ],
+      100
+    );
+
+    expect(allocations).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should reject duplicate suppliers and invalid lines', () => {
+    expect(
+      normalizeAwardAllocations(
+        [
+          { supplierId: 1, sharePercent: 50 },
+          { supplierId: 1, sharePercent: 50 },
+        ],
+        100
+      ).errors
+    ).toHaveLength(1);
+
+    expect(normalizeAwardAllocations([{ supplierId: 1 }], 100).errors).toHaveLength(1);
+    expect(
+      normalizeAwardAllocations([{ supplierId: 1, sharePercent: 100, quantity: 10 }], 100).errors
+    ).toHaveLength(1);
+    expect(normalizeAwardAllocations([{ supplierId: 1, quantity: 10 }], 0).errors).toHaveLength(1);
+  });
+
+  it('should treat an empty allocation as no split award', () => {
+    expect(normalizeAwardAllocations([], 100)).toEqual({ allocations: [], errors: [] });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from '@jest/globals';
+import { optimizeSupplierAwards, findIncumbentSupplier } from '../award-optimizer';
+import type { ComparisonMatrix, ProductComparison } from '../price-calculation';
+
+// Build a product with per-supplier totals (quantity 1, no VAT)
+function product(
+  productId: number,
+  prices: Record<number, number>,
+  previousPrices: Record<number, number> = {}
+): ProductComparison {
+  const suppliers: ProductComparison['suppliers'] = {};
+
+  for (const [supplierIdStr, price] of Object.entries(prices)) {
+    const supplierId = parseInt(supplierIdStr);
+    suppliers[supplierId] = {
+      id: productId * 100 + supplierId,
+      productId,
+      productCode: `SP${productId}`,
+      productName: `Sản phẩm ${productId}`,
+      supplierId,
+      supplierCode: `NCC${supplierId}`,
+      supplierName: `Nhà cung cấp ${supplierId}`,
+      initialPrice: price,
+      vatRate: 0,
+      currency: 'VND',
+      unit: 'kg',
+      pricePerUnit: price,
+      totalPrice: price,
+      vatAmount: 0,
+      totalPriceWithVAT: price,
+      hasBestPrice: false,
+      hasPrice: true,
+      previousPriceFromThisSupplier: previousPrices[supplierId],
+    };
+  }
+
+  return {
+    productId,
+    productCode: `SP${productId}`,
+    productName: `Sản phẩm ${productId}`,
+    unit: 'kg',
+    category: 'Rau',
+    quantity: 1,
+    quantitySource: 'base_quantity',
+    baseQuantity: 1,
+    suppliers,
+  };
+}
+
+function matrix(products: ProductComparison[]): ComparisonMatrix {
+  return { products, suppliers: [], period: '2025-01-01', region: 'HN' };
+}
+
+describe('Supplier Award Optimizer', () => {
+  const spread = matrix([
+    product(1, { 1: 100, 2: 105, 3: 120 }),
+    product(2, { 1: 210, 2: 200, 3: 230 }),
+    product(3, { 1: 330, 2: 320, 3: 300 }),
+  ]);
+
+  it('should match independent best prices without constraints', () => {
+    const plan = optimizeSupplierAwards(spread);
+
+    expect(plan.totalCost).toBe(600);
+    expect(plan.cheapestCost).toBe(600);
+    expect(plan.suppliers).toHaveLength(3);
+    expect(plan.lines.every((line) => line.reason === 'cheapest')).toBe(true);
+  });
+
+  it('should find the cheapest plan within the supplier limit', () => {
+    const plan = optimizeSupplierAwards(spread, { maxSuppliers: 1 });
+
+    expect(plan.method).toBe('exact');
+    expect(plan.feasible).toBe(true);
+    expect(plan.suppliers.map((s) => s.supplierId)).toEqual([2]);
+    expect(plan.totalCost).toBe(625);
+  });
+
+  it('should drop suppliers below their minimum order value', () => {
+    const plan = optimizeSupplierAwards(spread, { supplierMinOrderValues: { 1: 250 } });
+
+    expect(plan.suppliers.some((s) => s.supplierId === 1)).toBe(false);
+    expect(plan.lines.find((line) => line.productId === 1)).toMatchObject({
+      supplierId: 2,
+      reason: 'constraint',
+    });
+  });
+
+  it('should move products to a dearer supplier to meet its minimum order value', () => {
+    const plan = optimizeSupplierAwards(
+      matrix([
+        product(1, { 1: 55, 2: 50 }),
+        product(2, { 1: 50, 2: 100 }),
+        product(3, { 2: 10 }),
+      ]),
+      { supplierMinOrderValues: { 1: 100 } }
+    );
+
+    expect(plan.method).toBe('exact');
+    expect(plan.feasible).toBe(true);
+    expect(plan.totalCost).toBe(115);
+    expect(plan.lines.map((line) => line.supplierId)).toEqual([1, 1, 2]);
+    expect(plan.lines[0].reason).toBe('constraint');
+  });
+
+  it('should keep the incumbent unless the saving exceeds the threshold', () => {
+    const incumbentMatrix = matrix([
+      product(1, { 1: 100, 2: 96 }, { 1: 98 }),
+      product(2, { 1: 100, 2: 80 }, { 1: 95 }),
+    ]);
+
+    const plan = optimizeSupplierAwards(incumbentMatrix, { incumbentSavingPercent: 5 });
+
+    expect(plan.lines[0]).toMatchObject({ supplierId: 1, reason: 'incumbent' });
+    expect(plan.lines[1]).toMatchObject({ supplierId: 2, reason: 'cheapest' });
+  });
+
+  it('should fall back to best prices when constraints cannot be met', () => {
+    const plan = optimizeSupplierAwards(
+      matrix([product(1, { 1: 100 }), product(2, { 2: 100 })]),
+      { maxSuppliers: 1 }
+    );
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.suppliers).toHaveLength(2);
+    expect(plan.warnings).toHaveLength(1);
+  });
+
+  it('should use greedy elimination for many suppliers', () => {
+    const prices: Record<number, number> = {};
+    for (let supplierId = 1; supplierId <= 15; supplierId++) {
+      prices[supplierId] = 100 + supplierId;
+    }
+
+    const plan = optimizeSupplierAwards(
+      matrix(
+        Array.from({ length: 15 }, (_, index) =>
+          product(index + 1, { ...prices, [index + 1]: 50 })
+        )
+      ),
+      { maxSuppliers: 3 }
+    );
+
+    expect(plan.method).toBe('greedy');
+    expect(plan.feasible).toBe(true);
+    expect(plan.suppliers.length).toBeLessThanOrEqual(3);
+  });
+
+  it('should pick the supplier with the lowest previous price as incumbent', () => {
+    expect(findIncumbentSupplier(product(1, { 1: 100, 2: 100 }, { 1: 90, 2: 85 }))).toBe(2);
+    expect(findIncumbentSupplier(product(1, { 1: 100 }))).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { forecastDemand, getSamePeriodLastYear } from '../demand-forecast';
+
+const history = (entries: Record<string, number>) => new Map(Object.entries(entries));
+
+describe('Demand Forecast', () => {
+  it('should average the latest periods when demand is flat', () => {
+    const periods = ['2025-01-01', '2025-02-01', '2025-03-01'];
+    const forecast = forecastDemand(
+      periods,
+      history({ '2025-01-01': 10, '2025-02-01': 12, '2025-03-01': 14 }),
+      '2025-04-01'
+    );
+
+    expect(forecast?.method).toBe('moving_average');
+    expect(forecast?.quantity).toBe(12);
+    expect(forecast?.lastActual).toBe(14);
+  });
+
+  it('should project a steady trend one period ahead', () => {
+    const periods = ['2025-01-01', '2025-02-01', '2025-03-01', '2025-04-01', '2025-05-01'];
+    const forecast = forecastDemand(
+      periods,
+      history({
+        '2025-01-01': 10,
+        '2025-02-01': 20,
+        '2025-03-01': 30,
+        '2025-04-01': 40,
+        '2025-05-01': 50,
+      }),
+      '2025-06-01'
+    );
+
+    expect(forecast?.method).toBe('trend');
+    expect(forecast?.trendPerPeriod).toBe(10);
+    expect(forecast?.quantity).toBe(60);
+  });
+
+  it('should scale by the same period last year', () => {
+    const periods = ['2024-10-01', '2024-11-01', '2024-12-01', '2025-10-01', '2025-11-01'];
+    const forecast = forecastDemand(
+      periods,
+      history({
+        '2024-10-01': 10,
+        '2024-11-01': 10,
+        '2024-12-01': 20,
+        '2025-10-01': 10,
+        '2025-11-01': 10,
+      }),
+      '2025-12-01'
+    );
+
+    expect(forecast?.method).toBe('seasonal');
+    expect(forecast?.seasonalIndex).toBe(2);
+    expect(getSamePeriodLastYear('2025-12-01')).toBe('2024-12-01');
+  });
+
+  it('should count missing periods as zero and skip products never ordered', () => {
+    const periods = ['2025-01-01', '2025-02-01', '2025-03-01'];
+
+    expect(forecastDemand(periods, history({ '2025-01-01': 9 }), '2025-04-01')?.quantity).toBe(3);
+    expect(forecastDemand(periods, history({}), '2025-04-01')).toBeNull();
+  });
+});
@@ -1,8 +1,20 @@
 import { describe, it, expect } from '@jest/globals';
+import ExcelJS from 'exceljs';
 import {
   QuotationInfoSchema,
   QuotationItemSchema,
   ParsedQuotationSchema,
+  parseNumericCell,
+  getSupplierCodeFromFileName,
+  processCounterOfferFile,
+  processKitchenDemandFile,
+  processInvoiceFile,
+  processQuotationFile,
+  parseCsvRows,
+  parseDateCell,
+  decodeCsvBytes,
+  getSupplierFromSheetName,
+  toPlainCellValue,
   type QuotationInfo,
   type QuotationItem,
   type ParsedQuotation
@@ -200,4 +212,232 @@ describe('Code Validation', () => {
     // This will be properly implemented when database queries are available
     expect(true).toBe(true);
   });
-});
\ No newline at end of file
+});
+// Build an .xlsx upload; rows are placed from row 1 and undefined rows stay blank
+async function buildWorkbookFile(
+  fileName: string,
+  sheetName: string,
+  rows: (unknown[] | undefined)[]
+): Promise<File> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  rows.forEach((row, index) => {
+    if (row) sheet.getRow(index + 1).values = row as ExcelJS.CellValue[];
+  });
+
+  return new File([await workbook.xlsx.writeBuffer()], fileName);
+}
+
+describe('Counter-offer Parsing', () => {
+  describe('processCounterOfferFile', () => {
+    it('should read the rows after a blank row', async () => {
+      const file = await buildWorkbookFile('2024-01-01_Hà Nội_ncc001.xlsx', 'Target Prices', [
+        ['Mã sản phẩm', 'Giá đề xuất của NCC'],
+        ['RAU01', 15000],
+        undefined,
+        ['RAU02', 18000],
+        ['RAU03', 21000],
+      ]);
+
+      const result = await processCounterOfferFile(file);
+      expect(result.success).toBe(true);
+      expect(result.lines.map((line) => [line.row, line.productCode, line.counterOffer])).toEqual([
+        [2, 'RAU01', 15000],
+        [4, 'RAU02', 18000],
+        [5, 'RAU03', 21000],
+      ]);
+    });
+  });
+
+  describe('parseNumericCell', () => {
+    it('should return numbers and formula results as-is', () => {
+      expect(parseNumericCell(125000)).toBe(125000);
+      expect(parseNumericCell({ formula: 'A1*2', result: 250000 })).toBe(250000);
+    });
+
+    it('should treat empty cells as no value', () => {
+      expect(parseNumericCell(null)).toBeUndefined();
+      expect(parseNumericCell(undefined)).toBeUndefined();
+      expect(parseNumericCell('  ')).toBeUndefined();
+    });
+
+    it('should parse text prices with thousand separators and currency', () => {
+      expect(parseNumericCell('1.250.000')).toBe(1250000);
+      expect(parseNumericCell('1,250,000')).toBe(1250000);
+      expect(parseNumericCell('45 000 ₫')).toBe(45000);
+      expect(parseNumericCell('12,5')).toBe(12.5);
+    });
+
+    it('should return NaN for unreadable text', () => {
+      expect(parseNumericCell('liên hệ')).toBeNaN();
+    });
+  });
+
+  describe('getSupplierCodeFromFileName', () => {
+    it('should extract supplier code from exported file name', () => {
+      expect(getSupplierCodeFromFileName('2024-01-01_Hà Nội_ncc001.xlsx')).toBe('NCC001');
+    });
+
+    it('should return undefined for unrecognised file names', () => {
+      expect(getSupplierCodeFromFileName('bao-gia.xlsx')).toBeUndefined();
+    });
+  });
+});
+
+describe('Kitchen Demand Parsing', () => {
+  it('should read the rows after a blank row', async () => {
+    const file = await buildWorkbookFile('nhu-cau.xlsx', 'Nhu cầu', [
+      ['Mã sản phẩm', 'Số lượng'],
+      ['RAU01', 10],
+      undefined,
+      ['RAU02', 12.5],
+    ]);
+
+    const result = await processKitchenDemandFile(file);
+    expect(result.success).toBe(true);
+    expect(result.lines.map((line) => [line.row, line.productCode, line.quantity])).toEqual([
+      [2, 'RAU01', 10],
+      [4, 'RAU02', 12.5],
+    ]);
+  });
+});
+
+describe('Invoice Parsing', () => {
+  describe('processInvoiceFile', () => {
+    it('should read the rows after a blank row', async () => {
+      const header = ['Mã NCC', 'Mã sản phẩm', 'Mã bếp', 'Số lượng', 'Đơn giá', 'Ngày hóa đơn'];
+      const file = await buildWorkbookFile('hoa-don.xlsx', 'Hóa đơn', [
+        header,
+        ['NCC001', 'RAU01', 'BEP01', 10, 15000, '05/03/2025'],
+        undefined,
+        ['NCC001', 'RAU02', 'BEP01', 5, 18000, '05/03/2025'],
+      ]);
+
+      const result = await processInvoiceFile(file);
+      expect(result.success).toBe(true);
+      expect(result.lines.map((line) => [line.row, line.productCode])).toEqual([
+        [2, 'RAU01'],
+        [4, 'RAU02'],
+      ]);
+    });
+  });
+
+  describe('parseCsvRows', () => {
+    it('should detect the delimiter and keep quoted cells intact', () => {
+      expect(parseCsvRows('\uFEFFMã NCC;Đơn giá\r\nNCC001;"1.250.000"\r\n')).toEqual([
+        ['Mã NCC', 'Đơn giá'],
+        ['NCC001', '1.250.000'],
+      ]);
+      expect(parseCsvRows('a,b\n"x, ""y""",z')).toEqual([
+        ['a', 'b'],
+        ['x, "y"', 'z'],
+      ]);
+    });
+  });
+
+  describe('parseDateCell', () => {
+    it('should read Vietnamese and ISO dates', () => {
+      expect(parseDateCell('05/03/2025')).toEqual(new Date(2025, 2, 5));
+      expect(parseDateCell('2025-03-05')).toEqual(new Date(2025, 2, 5));
+    });
+
+    it('should reject impossible dates and ignore empty cells', () => {
+      expect(parseDateCell('31/02/2025')).toBeNull();
+      expect(parseDateCell('')).toBeUndefined();
+    });
+  });
+});
+
+// Windows-1258 encoder for test fixtures: letters the code page has
+// precomposed, otherwise the letter followed by its combining tone mark
+const CP1258_TONE_MARKS = ['\u0300', '\u0301', '\u0303', '\u0309', '\u0323'];
+const CP1258_BYTES = new Map(
+  Array.from({ length: 256 }, (_, byte) => [
+    new TextDecoder('windows-1258').decode(new Uint8Array([byte])),
+    byte,
+  ])
+);
+
+function encodeCp1258(text: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of text.normalize('NFC')) {
+    const byte = CP1258_BYTES.get(char);
+    if (byte !== undefined) {
+      bytes.push(byte);
+      continue;
+    }
+
+    const decomposed = char.normalize('NFD');
+    const toneMark = CP1258_TONE_MARKS.find((mark) => decomposed.includes(mark))!;
+    const letter = decomposed.replace(toneMark, '').normalize('NFC');
+    bytes.push(CP1258_BYTES.get(letter)!, CP1258_BYTES.get(toneMark)!);
+  }
+
+  return new Uint8Array(bytes);
+}
+
+describe('Quotation Source Files', () => {
+  describe('decodeCsvBytes', () => {
+    it('should decode UTF-8 with or without BOM', () => {
+      const bytes = new TextEncoder().encode('Đơn giá;15.000');
+      expect(decodeCsvBytes(bytes)).toBe('Đơn giá;15.000');
+      expect(decodeCsvBytes(new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]))).toBe('Đơn giá;15.000');
+    });
+
+    it('should decode Windows-1258 Vietnamese exports', () => {
+      // "Đơn gia" + combining acute tone mark
+      const bytes = new Uint8Array([0xd0, 0xf5, 0x6e, 0x20, 0x67, 0x69, 0x61, 0xec]);
+      expect(decodeCsvBytes(bytes)).toBe('Đơn giá');
+    });
+
+    it('should parse a Windows-1258 CSV with the standard headers', async () => {
+      const csv = 'Mã sản phẩm;Tên sản phẩm;Số lượng;Đơn giá;VAT %\nRAU01;Rau muống;10;15000;5\n';
+      const file = new File([encodeCp1258(csv)], 'NCC001.csv');
+
+      const [result] = await processQuotationFile(file, 'HN', '2025-01-01');
+      expect(result.success).toBe(true);
+      expect(result.data?.info.supplierCode).toBe('NCC001');
+      expect(result.data?.items).toMatchObject([
+        { productCode: 'RAU01', productName: 'Rau muống', quantity: 10, initialPrice: 15000, vatRate: 5 },
+      ]);
+    });
+
+    it('should fall back to CP1252', () => {
+      expect(decodeCsvBytes(new Uint8Array([0x43, 0x61, 0x66, 0xe9]))).toBe('Café');
+    });
+  });
+
+  describe('getSupplierFromSheetName', () => {
+    it('should read the supplier code and name', () => {
+      expect(getSupplierFromSheetName('ncc001 - Công ty ABC')).toEqual({
+        supplierCode: 'NCC001',
+        supplierName: 'Công ty ABC',
+      });
+      expect(getSupplierFromSheetName('NCC002')).toEqual({
+        supplierCode: 'NCC002',
+        supplierName: 'NCC002',
+      });
+    });
+
+    it('should read exported CSV file names', () => {
+      expect(getSupplierFromSheetName('2024-01-01_Hà Nội_ncc003').supplierCode).toBe('NCC003');
+    });
+  });
+
+  describe('toPlainCellValue', () => {
+    it('should keep plain values', () => {
+      const date = new Date('2024-01-15');
+      expect(toPlainCellValue(15000)).toBe(15000);
+      expect(toPlainCellValue('RAU01')).toBe('RAU01');
+      expect(toPlainCellValue(date)).toBe(date);
+      expect(toPlainCellValue(undefined)).toBeNull();
+    });
+
+    it('should use formula results and rich text', () => {
+      expect(toPlainCellValue({ formula: 'B2*C2', result: 30000 })).toBe(30000);
+      expect(toPlainCellValue({ richText: [{ text: 'Rau ' }, { text: 'muống' }] })).toBe('Rau muống');
+      expect(toPlainCellValue({ text: 'Link', hyperlink: 'https://example.com' })).toBe('Link');
+    });
+  });
+});
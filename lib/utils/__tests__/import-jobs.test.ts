@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  annotateSheetRows,
+  getImportJobStatus,
+  getRowErrorMessages,
+  toWorksheetNames,
+} from '../import-jobs';
+
+describe('Import Jobs', () => {
+  describe('getImportJobStatus', () => {
+    it('should be completed without errors', () => {
+      expect(getImportJobStatus(3, 0)).toBe('completed');
+      expect(getImportJobStatus(0, 0)).toBe('completed');
+    });
+
+    it('should be partial when some records were written despite errors', () => {
+      expect(getImportJobStatus(2, 1)).toBe('partial');
+    });
+
+    it('should fail when errors kept everything from being written', () => {
+      expect(getImportJobStatus(0, 4)).toBe('failed');
+    });
+  });
+
+  describe('getRowErrorMessages', () => {
+    it('should join the messages of a row and skip other sheets and unlocated messages', () => {
+      const rowErrors = getRowErrorMessages(
+        [
+          { sheetName: 'Danh sách sản phẩm', rowNumber: 3, message: 'Giá không hợp lệ' },
+          { sheetName: 'Danh sách sản phẩm', rowNumber: 3, message: 'Thiếu mã' },
+          { sheetName: 'Danh sách sản phẩm', rowNumber: 5, message: 'Không tìm thấy sản phẩm' },
+          { sheetName: 'Thông tin chung', rowNumber: 6, message: 'Thiếu mã NCC' },
+          { sheetName: null, rowNumber: null, message: 'Lỗi đọc file' },
+        ],
+        'Danh sách sản phẩm'
+      );
+
+      expect(Array.from(rowErrors)).toEqual([
+        [3, 'Giá không hợp lệ; Thiếu mã'],
+        [5, 'Không tìm thấy sản phẩm'],
+      ]);
+    });
+  });
+
+  describe('annotateSheetRows', () => {
+    it('should add the error column after the widest row', () => {
+      const { rows, errorColumn } = annotateSheetRows(
+        [
+          ['Mã SP', 'Đơn giá', 'VAT %'],
+          ['RAU01', 15000],
+          ['XX99', 'abc', 5],
+        ],
+        new Map([[3, 'Không tìm thấy sản phẩm']])
+      );
+
+      expect(errorColumn).toBe(4);
+      expect(rows).toEqual([
+        ['Mã SP', 'Đơn giá', 'VAT %', 'Lỗi'],
+        ['RAU01', 15000, null],
+        ['XX99', 'abc', 5, 'Không tìm thấy sản phẩm'],
+      ]);
+    });
+
+    it('should put the title on a later header row and add rows past the sheet', () => {
+      const { rows } = annotateSheetRows(
+        [['Báo giá'], ['Mã', 'Giá']],
+        new Map([[4, 'Thiếu giá']]),
+        2
+      );
+
+      expect(rows).toEqual([
+        ['Báo giá', null],
+        ['Mã', 'Giá', 'Lỗi'],
+        [null, null],
+        [null, null, 'Thiếu giá'],
+      ]);
+    });
+  });
+
+  describe('toWorksheetNames', () => {
+    it('should replace characters Excel rejects and cut long names', () => {
+      expect(toWorksheetNames(['Giá 01/2025 [Miền Bắc]', 'Bảng báo giá rau củ quả khu vực miền Trung'])).toEqual([
+        'Giá 01_2025 _Miền Bắc_',
+        'Bảng báo giá rau củ quả khu vực',
+      ]);
+    });
+
+    it('should number names that clash with reserved names or earlier sheets', () => {
+      expect(toWorksheetNames(['Tóm tắt lỗi', 'Sheet1', 'sheet1', 'Sheet:1'], ['Tóm tắt lỗi'])).toEqual([
+        'Tóm tắt lỗi (2)',
+        'Sheet1',
+        'sheet1 (2)',
+        'Sheet_1',
+      ]);
+    });
+  });
+});
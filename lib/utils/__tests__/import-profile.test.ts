@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  detectHeaderRow,
+  getColumnLetter,
+  getMissingRequiredFields,
+  normalizeHeader,
+  suggestColumnMapping,
+} from '../import-profile';
+
+describe('Supplier Import Profiles', () => {
+  describe('normalizeHeader', () => {
+    it('should strip diacritics, case and punctuation', () => {
+      expect(normalizeHeader('Đơn giá (VNĐ)')).toBe('don gia vnd');
+      expect(normalizeHeader('  Mã SP: ')).toBe('ma sp');
+      expect(normalizeHeader(null)).toBe('');
+    });
+  });
+
+  describe('suggestColumnMapping', () => {
+    it('should map the standard template headers', () => {
+      expect(
+        suggestColumnMapping([
+          'Mã sản phẩm',
+          'Tên sản phẩm',
+          'Đơn vị tính',
+          'Số lượng',
+          'Đơn giá',
+          'VAT %',
+          'Ghi chú',
+        ])
+      ).toEqual({
+        productCode: 1,
+        unit: 3,
+        quantity: 4,
+        initialPrice: 5,
+        vatRate: 6,
+        notes: 7,
+      });
+    });
+
+    it('should map supplier headers without taking one column twice', () => {
+      expect(
+        suggestColumnMapping(['STT', 'Mã hàng', 'Tên hàng', 'ĐVT', 'Unit price', 'Thuế GTGT', 'Thành tiền'])
+      ).toEqual({
+        productCode: 2,
+        unit: 4,
+        initialPrice: 5,
+        vatRate: 6,
+      });
+    });
+  });
+
+  describe('detectHeaderRow', () => {
+    it('should find the header row below a letterhead', () => {
+      const rows = [
+        ['CÔNG TY TNHH THỰC PHẨM ABC'],
+        ['BẢNG BÁO GIÁ THÁNG 10'],
+        [],
+        ['STT', 'Mã SP', 'Tên sản phẩm', 'ĐVT', 'Đơn giá', 'VAT'],
+        [1, 'RAU01', 'Rau muống', 'kg', 15000, 5],
+      ];
+
+      expect(detectHeaderRow(rows)).toBe(4);
+    });
+
+    it('should default to the first row', () => {
+      expect(detectHeaderRow([['a', 'b'], [1, 2]])).toBe(1);
+    });
+  });
+
+  describe('getMissingRequiredFields', () => {
+    it('should list unmapped required fields', () => {
+      expect(getMissingRequiredFields({ productCode: 1 })).toEqual(['initialPrice']);
+      expect(getMissingRequiredFields({ productCode: 1, initialPrice: 3 })).toEqual([]);
+    });
+  });
+
+  describe('getColumnLetter', () => {
+    it('should convert column numbers to letters', () => {
+      expect(getColumnLetter(1)).toBe('A');
+      expect(getColumnLetter(26)).toBe('Z');
+      expect(getColumnLetter(28)).toBe('AB');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  checkInvoiceLine,
+  findPeriodForDate,
+  isReplacedByInvoiceImport,
+  summarizeInvoicesBySupplier,
+} from '../invoice-compliance';
+
+describe('Invoice Compliance', () => {
+  describe('checkInvoiceLine', () => {
+    it('should accept prices at or below the approved price', () => {
+      expect(checkInvoiceLine(10, 50000, 50000)).toEqual({
+        status: 'compliant',
+        priceDifference: 0,
+        overchargeAmount: 0,
+      });
+      expect(checkInvoiceLine(10, 48000, 50000).status).toBe('compliant');
+    });
+
+    it('should ignore rounding differences below the tolerance', () => {
+      expect(checkInvoiceLine(10, 50000.5, 50000).status).toBe('compliant');
+    });
+
+    it('should compute the overcharge over the invoiced quantity', () => {
+      expect(checkInvoiceLine(12.5, 52000, 50000)).toEqual({
+        status: 'overcharged',
+        priceDifference: 2000,
+        overchargeAmount: 25000,
+      });
+    });
+
+    it('should flag products without an approved price', () => {
+      expect(checkInvoiceLine(5, 50000, null)).toEqual({
+        status: 'unapproved',
+        priceDifference: null,
+        overchargeAmount: 0,
+      });
+      expect(checkInvoiceLine(5, 50000, 0).status).toBe('unapproved');
+    });
+  });
+
+  describe('findPeriodForDate', () => {
+    const periods = [
+      { code: '2025-03-01', startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 15) },
+      { code: '2025-03-02', startDate: new Date(2025, 2, 16), endDate: new Date(2025, 2, 31) },
+    ];
+
+    it('should include the whole last day of a period', () => {
+      expect(findPeriodForDate(periods, new Date(2025, 2, 15, 18, 30))).toBe('2025-03-01');
+      expect(findPeriodForDate(periods, new Date(2025, 2, 16))).toBe('2025-03-02');
+    });
+
+    it('should return null outside every period', () => {
+      expect(findPeriodForDate(periods, new Date(2025, 3, 1))).toBeNull();
+    });
+
+    it('should prefer the latest period when ranges overlap', () => {
+      const overlapping = [
+        ...periods,
+        { code: '2025-03-03', startDate: new Date(2025, 2, 10), endDate: new Date(2025, 2, 20) },
+      ];
+      expect(findPeriodForDate(overlapping, new Date(2025, 2, 12))).toBe('2025-03-03');
+    });
+
+    it('should break ties between equal starts by the highest code', () => {
+      const sameStart = [
+        { code: '2025-03-05', startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 31) },
+        ...periods,
+        { code: '2025-03-04', startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 31) },
+      ];
+      expect(findPeriodForDate(sameStart, new Date(2025, 2, 5))).toBe('2025-03-05');
+      expect(findPeriodForDate([...sameStart].reverse(), new Date(2025, 2, 5))).toBe('2025-03-05');
+    });
+  });
+
+  describe('isReplacedByInvoiceImport', () => {
+    const earlierLine = { sourceFile: 'hoa-don.xlsx', period: '2025-03-01', region: 'HN', supplierId: 1 };
+
+    it('should replace the earlier lines of a re-imported file', () => {
+      expect(isReplacedByInvoiceImport(earlierLine, [{ ...earlierLine }])).toBe(true);
+    });
+
+    it('should keep a same-named file from another region', () => {
+      expect(isReplacedByInvoiceImport(earlierLine, [{ ...earlierLine, region: 'HCM' }])).toBe(false);
+    });
+
+    it('should keep the lines of suppliers and files the new import does not cover', () => {
+      expect(isReplacedByInvoiceImport(earlierLine, [{ ...earlierLine, supplierId: 2 }])).toBe(false);
+      expect(isReplacedByInvoiceImport(earlierLine, [{ ...earlierLine, sourceFile: 'hd-2.xlsx' }])).toBe(
+        false
+      );
+    });
+  });
+
+  describe('summarizeInvoicesBySupplier', () => {
+    it('should total overpayment and unapproved amounts per supplier', () => {
+      const summaries = summarizeInvoicesBySupplier([
+        { supplierId: 1, quantity: 10, unitPrice: 1000, status: 'compliant', overchargeAmount: 0 },
+        { supplierId: 2, quantity: 5, unitPrice: 1200, status: 'overcharged', overchargeAmount: 1000 },
+        { supplierId: 2, quantity: 2, unitPrice: 3000, status: 'unapproved', overchargeAmount: 0 },
+      ]);
+
+      expect(summaries.map((summary) => summary.supplierId)).toEqual([2, 1]);
+      expect(summaries[0]).toEqual({
+        supplierId: 2,
+        lineCount: 2,
+        overchargedLines: 1,
+        unapprovedLines: 1,
+        invoicedAmount: 12000,
+        overchargeAmount: 1000,
+        unapprovedAmount: 6000,
+      });
+      expect(summaries[1].invoicedAmount).toBe(10000);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  computePlannedSpend,
+  getBudgetVariance,
+  getKitchenUnitPrice,
+} from '../kitchen-budget';
+
+describe('Kitchen Budgets', () => {
+  describe('getBudgetVariance', () => {
+    it('should report spend within the budget', () => {
+      expect(getBudgetVariance(1000000, 500000)).toEqual({
+        variance: 500000,
+        usagePercent: 50,
+        status: 'within',
+      });
+    });
+
+    it('should warn when spend nears the budget', () => {
+      expect(getBudgetVariance(1000000, 950000).status).toBe('warning');
+      expect(getBudgetVariance(1000000, 1000000).status).toBe('warning');
+    });
+
+    it('should flag spend over the budget', () => {
+      expect(getBudgetVariance(1000000, 1200000)).toEqual({
+        variance: -200000,
+        usagePercent: 120,
+        status: 'over',
+      });
+      expect(getBudgetVariance(0, 1)).toEqual({ variance: -1, usagePercent: null, status: 'over' });
+    });
+  });
+
+  describe('getKitchenUnitPrice', () => {
+    const prices = [
+      { supplierId: 1, productId: 10, unitPriceWithVat: 100 },
+      { supplierId: 2, productId: 10, unitPriceWithVat: 120 },
+      { supplierId: 3, productId: 10, unitPriceWithVat: 90 },
+    ];
+
+    it('should use the best price among serving suppliers', () => {
+      expect(getKitchenUnitPrice(prices, new Set([1, 2]))).toBe(100);
+      expect(getKitchenUnitPrice(prices, new Set([4]))).toBeNull();
+    });
+
+    it('should weight split awards by their shares', () => {
+      expect(
+        getKitchenUnitPrice(prices, new Set([1, 2]), [
+          { supplierId: 1, sharePercent: 50 },
+          { supplierId: 2, sharePercent: 50 },
+        ])
+      ).toBe(110);
+    });
+
+    it('should rescale shares when an allocated supplier does not serve the kitchen', () => {
+      expect(
+        getKitchenUnitPrice(prices, new Set([1, 2]), [
+          { supplierId: 2, sharePercent: 60 },
+          { supplierId: 3, sharePercent: 40 },
+        ])
+      ).toBe(120);
+    });
+  });
+
+  describe('computePlannedSpend', () => {
+    it('should total spend per kitchen and category and count unpriced demand', () => {
+      const spend = computePlannedSpend(
+        [
+          { teamId: 1, productId: 10, category: 'Rau', quantity: 5 },
+          { teamId: 1, productId: 11, category: 'Thịt', quantity: 2 },
+          { teamId: 1, productId: 12, category: 'Thịt', quantity: 1 },
+          { teamId: 2, productId: 10, category: 'Rau', quantity: 1 },
+        ],
+        [
+          { supplierId: 1, productId: 10, unitPriceWithVat: 100 },
+          { supplierId: 1, productId: 11, unitPriceWithVat: 250 },
+        ],
+        new Map([
+          [1, new Set([1])],
+          [2, new Set([2])],
+        ])
+      );
+
+      expect(spend.get(1)).toEqual({
+        total: 1000,
+        byCategory: { Rau: 500, Thịt: 500 },
+        unpricedProducts: 1,
+      });
+      expect(spend.get(2)).toEqual({ total: 0, byCategory: {}, unpricedProducts: 1 });
+    });
+  });
+});
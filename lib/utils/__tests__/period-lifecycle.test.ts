@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  canTransitionPeriod,
+  findOverlappingPeriod,
+  getApprovalBlockReason,
+  getDemandBlockReason,
+  getImportBlockReason,
+  getNextPeriodStatus,
+  getRequoteBlockReason,
+} from '../period-lifecycle';
+
+const period = (status: string, submissionDeadline: Date | null = null) => ({
+  code: '2025-01-01',
+  status,
+  submissionDeadline,
+});
+
+describe('Period Lifecycle', () => {
+  it('should move forward one step at a time', () => {
+    expect(getNextPeriodStatus('open')).toBe('collecting');
+    expect(getNextPeriodStatus('collecting')).toBe('negotiating');
+    expect(getNextPeriodStatus('negotiating')).toBe('closed');
+    expect(getNextPeriodStatus('closed')).toBeNull();
+  });
+
+  it('should reject skipped, backward and unknown transitions', () => {
+    expect(canTransitionPeriod('open', 'collecting')).toBe(true);
+    expect(canTransitionPeriod('open', 'negotiating')).toBe(false);
+    expect(canTransitionPeriod('closed', 'negotiating')).toBe(false);
+    expect(canTransitionPeriod('archived', 'closed')).toBe(false);
+  });
+
+  it('should accept imports while collecting before the deadline', () => {
+    const deadline = new Date('2025-01-10T17:00:00Z');
+
+    expect(getImportBlockReason(period('open'))).toBeNull();
+    expect(
+      getImportBlockReason(period('collecting', deadline), new Date('2025-01-10T16:59:00Z'))
+    ).toBeNull();
+  });
+
+  it('should block imports after the deadline or once collection ended', () => {
+    const deadline = new Date('2025-01-10T17:00:00Z');
+
+    expect(
+      getImportBlockReason(period('collecting', deadline), new Date('2025-01-10T17:01:00Z'))
+    ).toContain('quá hạn');
+    expect(getImportBlockReason(period('negotiating'))).toContain('ngừng nhận');
+    expect(getImportBlockReason(null)).not.toBeNull();
+  });
+
+  it('should accept re-quotes while negotiating, past the deadline', () => {
+    const deadline = new Date('2025-01-10T17:00:00Z');
+
+    expect(getImportBlockReason(period('negotiating', deadline))).toContain('ngừng nhận');
+    expect(getRequoteBlockReason(period('negotiating', deadline))).toBeNull();
+    expect(getRequoteBlockReason(period('collecting', deadline))).toBeNull();
+    expect(getRequoteBlockReason(period('closed'))).toContain('ngừng nhận');
+    expect(getRequoteBlockReason(null)).not.toBeNull();
+  });
+
+  it('should block approvals only once the period is closed', () => {
+    expect(getApprovalBlockReason(period('negotiating'))).toBeNull();
+    expect(getApprovalBlockReason(null)).toBeNull();
+    expect(getApprovalBlockReason(period('closed'))).toContain('đã đóng');
+  });
+
+  it('should accept demand until the kitchen submits it', () => {
+    expect(getDemandBlockReason(period('open'), null)).toBeNull();
+    expect(getDemandBlockReason(period('collecting'), 'draft')).toBeNull();
+    expect(getDemandBlockReason(period('collecting'), 'submitted')).toContain('đã được gửi');
+  });
+
+  it('should block demand once negotiation starts or without a period', () => {
+    expect(getDemandBlockReason(period('negotiating'), null)).toContain('ngừng nhận nhu cầu');
+    expect(getDemandBlockReason(period('closed'), 'draft')).toContain('ngừng nhận nhu cầu');
+    expect(getDemandBlockReason(null, null)).not.toBeNull();
+  });
+
+  it('should find periods sharing a day with the range', () => {
+    const periods = [
+      { code: '2025-03-01', startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 15) },
+      { code: '2025-03-02', startDate: new Date(2025, 2, 16), endDate: new Date(2025, 2, 31) },
+    ];
+
+    expect(
+      findOverlappingPeriod({ startDate: new Date(2025, 2, 15), endDate: new Date(2025, 2, 20) }, periods)?.code
+    ).toBe('2025-03-01');
+    expect(
+      findOverlappingPeriod({ startDate: new Date(2025, 3, 1), endDate: new Date(2025, 3, 15) }, periods)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectPriceAnomalies, isUnitTypoRatio } from '../price-anomaly';
+
+describe('Price Anomaly Detection', () => {
+  describe('isUnitTypoRatio', () => {
+    it('should match powers of ten', () => {
+      expect(isUnitTypoRatio(10)).toBe(true);
+      expect(isUnitTypoRatio(1000)).toBe(true);
+      expect(isUnitTypoRatio(0.1)).toBe(true);
+      expect(isUnitTypoRatio(9.5)).toBe(true);
+    });
+
+    it('should not match ordinary changes', () => {
+      expect(isUnitTypoRatio(1)).toBe(false);
+      expect(isUnitTypoRatio(1.5)).toBe(false);
+      expect(isUnitTypoRatio(5)).toBe(false);
+      expect(isUnitTypoRatio(0)).toBe(false);
+    });
+  });
+
+  describe('detectPriceAnomalies', () => {
+    it('should flag zero and missing prices', () => {
+      expect(detectPriceAnomalies(0, {}).map((a) => a.type)).toEqual(['zero_price']);
+      expect(detectPriceAnomalies(null, {}).map((a) => a.type)).toEqual(['zero_price']);
+    });
+
+    it('should accept prices within 30% of every reference', () => {
+      expect(
+        detectPriceAnomalies(110000, {
+          previousApprovedPrice: 100000,
+          regionalMedianPrice: 95000,
+          basePrice: 120000
+        })
+      ).toEqual([]);
+    });
+
+    it('should flag jumps above 30% per reference', () => {
+      const anomalies = detectPriceAnomalies(140000, {
+        previousApprovedPrice: 100000,
+        basePrice: 130000
+      });
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0].type).toBe('jump_vs_previous');
+      expect(anomalies[0].deviationPercent).toBe(40);
+    });
+
+    it('should report a 10× difference once as a unit typo', () => {
+      const anomalies = detectPriceAnomalies(1000000, {
+        previousApprovedPrice: 100000,
+        regionalMedianPrice: 98000
+      });
+
+      expect(anomalies.map((a) => a.type)).toEqual(['unit_typo']);
+    });
+
+    it('should detect prices entered in a smaller unit', () => {
+      expect(detectPriceAnomalies(1200, { basePrice: 12000 })[0].type).toBe('unit_typo');
+    });
+
+    it('should not flag prices without references', () => {
+      expect(detectPriceAnomalies(50000, {})).toEqual([]);
+    });
+  });
+});
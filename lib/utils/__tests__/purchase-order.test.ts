@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateOrderLine,
+  canTransitionPurchaseOrder,
+  formatPurchaseOrderNumber,
+  getNextPurchaseOrderStatus,
+  parsePurchaseOrderSequence,
+  splitOrderQuantity,
+  sumOrderLines,
+} from '../purchase-order';
+
+describe('Purchase Orders', () => {
+  it('should move forward one status at a time', () => {
+    expect(getNextPurchaseOrderStatus('draft')).toBe('sent');
+    expect(getNextPurchaseOrderStatus('confirmed')).toBe('received');
+    expect(getNextPurchaseOrderStatus('received')).toBeNull();
+    expect(canTransitionPurchaseOrder('draft', 'confirmed')).toBe(false);
+    expect(canTransitionPurchaseOrder('sent', 'draft')).toBe(false);
+  });
+
+  it('should number orders per period', () => {
+    expect(formatPurchaseOrderNumber('2025-03-01', 12)).toBe('PO-20250301-0012');
+    expect(parsePurchaseOrderSequence('2025-03-01', 'PO-20250301-0012')).toBe(12);
+    expect(parsePurchaseOrderSequence('2025-03-01', 'PO-20250401-0012')).toBeNull();
+  });
+
+  it('should split demand by rescaled shares without losing quantity', () => {
+    const split = splitOrderQuantity(10, [
+      { supplierId: 1, sharePercent: 33.33 },
+      { supplierId: 2, sharePercent: 33.33 },
+      { supplierId: 3, sharePercent: 33.34 },
+    ]);
+
+    expect(split.map((line) => line.quantity)).toEqual([3.33, 3.33, 3.34]);
+
+    // A 60/40 award where only the 60% supplier serves the kitchen
+    expect(splitOrderQuantity(50, [{ supplierId: 1, sharePercent: 60 }])).toEqual([
+      { supplierId: 1, sharePercent: 100, quantity: 50 },
+    ]);
+  });
+
+  it('should total lines including VAT', () => {
+    const first = calculateOrderLine(3, 12500, 8);
+    const second = calculateOrderLine(1.5, 10000, 10);
+
+    expect(first).toEqual({ subtotal: 37500, vatAmount: 3000, total: 40500 });
+    expect(sumOrderLines([first, second])).toEqual({
+      subtotal: 52500,
+      vatAmount: 4500,
+      total: 57000,
+    });
+  });
+});
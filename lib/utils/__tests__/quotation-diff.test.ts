@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  diffQuotationItems,
+  getPriceChangePercent,
+  summarizeQuotationDiff,
+} from '../quotation-diff';
+
+describe('Quotation Import Diff', () => {
+  describe('getPriceChangePercent', () => {
+    it('should round the change to one decimal', () => {
+      expect(getPriceChangePercent(30000, 33000)).toBe(10);
+      expect(getPriceChangePercent(30000, 29000)).toBe(-3.3);
+    });
+
+    it('should return null without an old price', () => {
+      expect(getPriceChangePercent(null, 1000)).toBeNull();
+      expect(getPriceChangePercent(0, 1000)).toBeNull();
+    });
+  });
+
+  describe('diffQuotationItems', () => {
+    const existing = [
+      { productCode: 'RAU01', price: 15000, vatRate: 5 },
+      { productCode: 'THIT01', price: 120000, vatRate: 8 },
+      { productCode: 'CA01', price: 80000, vatRate: 8 },
+    ];
+
+    it('should classify added, removed, changed and unchanged products', () => {
+      const lines = diffQuotationItems(existing, [
+        { productCode: 'rau01 ', price: 15000, vatRate: 5 },
+        { productCode: 'THIT01', price: 132000, vatRate: 8 },
+        { productCode: 'TRUNG01', price: 3500, vatRate: 5 },
+      ]);
+
+      expect(lines.map((line) => [line.productCode, line.status])).toEqual([
+        ['THIT01', 'changed'],
+        ['TRUNG01', 'added'],
+        ['CA01', 'removed'],
+        ['RAU01', 'unchanged'],
+      ]);
+      expect(lines[0]).toMatchObject({
+        oldPrice: 120000,
+        newPrice: 132000,
+        priceChangePercent: 10,
+        priceChanged: true,
+        vatChanged: false,
+      });
+    });
+
+    it('should report VAT-only changes without a price change', () => {
+      const [line] = diffQuotationItems(existing.slice(0, 1), [
+        { productCode: 'RAU01', price: 15000, vatRate: 8 },
+      ]);
+
+      expect(line).toMatchObject({
+        status: 'changed',
+        priceChanged: false,
+        vatChanged: true,
+        priceChangePercent: null,
+        oldVatRate: 5,
+        newVatRate: 8,
+      });
+    });
+
+    it('should ignore stored rounding differences', () => {
+      const [line] = diffQuotationItems(
+        [{ productCode: 'RAU01', price: 15000.001, vatRate: 5 }],
+        [{ productCode: 'RAU01', price: 15000, vatRate: 5 }]
+      );
+
+      expect(line.status).toBe('unchanged');
+    });
+  });
+
+  describe('summarizeQuotationDiff', () => {
+    it('should count lines per status', () => {
+      const lines = diffQuotationItems(
+        [{ productCode: 'A', price: 1, vatRate: 0 }, { productCode: 'B', price: 1, vatRate: 0 }],
+        [{ productCode: 'A', price: 2, vatRate: 0 }, { productCode: 'C', price: 1, vatRate: 0 }]
+      );
+
+      expect(summarizeQuotationDiff(lines)).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 0 });
+    });
+  });
+});
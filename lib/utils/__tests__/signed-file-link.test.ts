@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildSignedFilePath, verifyFileLinkSignature } from '../signed-file-link';
+
+const SECRET = 'test-secret';
+const NOW = new Date('2025-01-10T08:00:00Z');
+const EXPIRES_AT = new Date('2025-01-11T08:00:00Z');
+
+const parseLink = (path: string) => {
+  const url = new URL(path, 'http://localhost');
+  return {
+    expires: url.searchParams.get('expires'),
+    signature: url.searchParams.get('signature'),
+  };
+};
+
+describe('Signed File Links', () => {
+  it('should accept an untampered link before it expires', () => {
+    const path = buildSignedFilePath(42, EXPIRES_AT, SECRET);
+    const { expires, signature } = parseLink(path);
+
+    expect(path.startsWith('/api/files/42?')).toBe(true);
+    expect(verifyFileLinkSignature(42, expires, signature, SECRET, NOW)).toBe(true);
+  });
+
+  it('should reject expired links', () => {
+    const { expires, signature } = parseLink(buildSignedFilePath(42, EXPIRES_AT, SECRET));
+
+    expect(
+      verifyFileLinkSignature(42, expires, signature, SECRET, new Date('2025-01-11T08:00:01Z'))
+    ).toBe(false);
+  });
+
+  it('should reject links for another file, expiry or secret', () => {
+    const { expires, signature } = parseLink(buildSignedFilePath(42, EXPIRES_AT, SECRET));
+
+    expect(verifyFileLinkSignature(43, expires, signature, SECRET, NOW)).toBe(false);
+    expect(verifyFileLinkSignature(42, String(Number(expires) + 60), signature, SECRET, NOW)).toBe(false);
+    expect(verifyFileLinkSignature(42, expires, signature, 'other-secret', NOW)).toBe(false);
+  });
+
+  it('should reject missing or malformed parameters', () => {
+    expect(verifyFileLinkSignature(42, null, null, SECRET, NOW)).toBe(false);
+    expect(verifyFileLinkSignature(42, 'soon', 'abc', SECRET, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  selectTargetPriceRule,
+  applyTargetPriceRule,
+  describeTargetPriceRule,
+  DEFAULT_TARGET_PRICE_RULE_NAME,
+  type TargetPriceRuleConfig
+} from '../target-price-rules';
+
+const baseRule: TargetPriceRuleConfig = {
+  id: 1,
+  name: 'Giảm 3%',
+  category: null,
+  region: null,
+  baseline: 'min_best_previous',
+  adjustmentPercent: -3,
+  capAtBasePrice: false,
+  floorAtHistoricalLow: false,
+  priority: 0
+};
+
+describe('Target Price Rules', () => {
+  describe('selectTargetPriceRule', () => {
+    const rules: TargetPriceRuleConfig[] = [
+      baseRule,
+      { ...baseRule, id: 2, name: 'Hà Nội', region: 'Hà Nội' },
+      { ...baseRule, id: 3, name: 'Rau củ', category: 'Rau củ' },
+      { ...baseRule, id: 4, name: 'Rau củ Hà Nội', category: 'Rau củ', region: 'Hà Nội' },
+      { ...baseRule, id: 5, name: 'Thịt ưu tiên', category: 'Thịt', priority: 10 },
+      { ...baseRule, id: 6, name: 'Thịt', category: 'Thịt' }
+    ];
+
+    it('should prefer the most specific rule', () => {
+      expect(selectTargetPriceRule(rules, 'Rau củ', 'Hà Nội')?.id).toBe(4);
+      expect(selectTargetPriceRule(rules, 'Rau củ', 'Đà Nẵng')?.id).toBe(3);
+      expect(selectTargetPriceRule(rules, 'Gia vị', 'Hà Nội')?.id).toBe(2);
+      expect(selectTargetPriceRule(rules, 'Gia vị', 'Đà Nẵng')?.id).toBe(1);
+    });
+
+    it('should break ties by priority', () => {
+      expect(selectTargetPriceRule(rules, 'Thịt', 'Đà Nẵng')?.id).toBe(5);
+    });
+
+    it('should return null when no rule matches', () => {
+      expect(selectTargetPriceRule(rules.slice(1), 'Gia vị', 'Đà Nẵng')).toBeNull();
+    });
+  });
+
+  describe('applyTargetPriceRule', () => {
+    it('should use the best price when no rule applies', () => {
+      expect(applyTargetPriceRule(null, { bestPrice: 100000 })).toEqual({
+        targetPrice: 100000,
+        ruleId: null,
+        ruleName: DEFAULT_TARGET_PRICE_RULE_NAME
+      });
+    });
+
+    it('should take the lower of best and previous approved price minus the adjustment', () => {
+      const result = applyTargetPriceRule(baseRule, {
+        bestPrice: 100000,
+        previousApprovedPrice: 90000
+      });
+
+      expect(result.targetPrice).toBe(87300); // 90,000 − 3%
+      expect(result.ruleName).toBe('Giảm 3%');
+    });
+
+    it('should fall back to the best price without a previous approved price', () => {
+      const rule = { ...baseRule, baseline: 'previous_approved' as const, adjustmentPercent: 0 };
+      expect(applyTargetPriceRule(rule, { bestPrice: 50000 }).targetPrice).toBe(50000);
+    });
+
+    it('should cap at the base price', () => {
+      const rule = { ...baseRule, capAtBasePrice: true };
+      expect(
+        applyTargetPriceRule(rule, { bestPrice: 100000, basePrice: 80000 }).targetPrice
+      ).toBe(80000);
+    });
+
+    it('should never go below the lowest historical approved price', () => {
+      const rule = { ...baseRule, capAtBasePrice: true, floorAtHistoricalLow: true };
+      expect(
+        applyTargetPriceRule(rule, {
+          bestPrice: 100000,
+          basePrice: 80000,
+          historicalLowPrice: 85000
+        }).targetPrice
+      ).toBe(85000);
+    });
+
+    it('should return a null target without any price', () => {
+      expect(applyTargetPriceRule(baseRule, {}).targetPrice).toBeNull();
+    });
+  });
+
+  describe('describeTargetPriceRule', () => {
+    it('should describe the formula', () => {
+      expect(describeTargetPriceRule({ ...baseRule, capAtBasePrice: true })).toBe(
+        'min(Giá tốt nhất, Giá duyệt kỳ trước) − 3%, tối đa giá cơ sở'
+      );
+    });
+  });
+});
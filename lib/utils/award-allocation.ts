@@ -0,0 +1,88 @@
+/**
+ * Split Award Allocation
+ *
+ * A product's demand in a region/period can be split across several suppliers.
+ * Each line is entered either as a percentage share or as a quantity share of
+ * the demand; both are normalised to percentages, which must sum to 100%.
+ */
+
+// Rounding slack when shares are entered as thirds etc. (33.33 × 3 = 99.99)
+export const ALLOCATION_TOLERANCE_PERCENT = 0.01;
+
+export interface AwardAllocationInput {
+  supplierId: number;
+  sharePercent?: number | null;
+  quantity?: number | null;
+}
+
+export interface NormalizedAwardAllocation {
+  supplierId: number;
+  sharePercent: number;
+  quantity: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Convert allocation lines to percentage shares and validate them
+ * An empty input is valid and means "no split award".
+ */
+export function normalizeAwardAllocations(
+  inputs: AwardAllocationInput[],
+  demandQuantity: number
+): { allocations: NormalizedAwardAllocation[]; errors: string[] } {
+  const errors: string[] = [];
+  const allocations: NormalizedAwardAllocation[] = [];
+  const seenSuppliers = new Set<number>();
+
+  if (inputs.length === 0) {
+    return { allocations, errors };
+  }
+
+  for (const input of inputs) {
+    if (seenSuppliers.has(input.supplierId)) {
+      errors.push(`Nhà cung cấp ${input.supplierId} bị phân bổ nhiều lần`);
+      continue;
+    }
+    seenSuppliers.add(input.supplierId);
+
+    const hasPercent = input.sharePercent !== undefined && input.sharePercent !== null;
+    const hasQuantity = input.quantity !== undefined && input.quantity !== null;
+
+    if (hasPercent === hasQuantity) {
+      errors.push(`Nhà cung cấp ${input.supplierId}: cần nhập tỷ lệ % hoặc số lượng`);
+      continue;
+    }
+
+    let sharePercent: number;
+    if (hasPercent) {
+      sharePercent = input.sharePercent!;
+    } else {
+      if (!(demandQuantity > 0)) {
+        errors.push('Sản phẩm chưa có nhu cầu - không thể phân bổ theo số lượng');
+        continue;
+      }
+      sharePercent = (input.quantity! / demandQuantity) * 100;
+    }
+
+    if (!(sharePercent > 0)) {
+      errors.push(`Nhà cung cấp ${input.supplierId}: tỷ lệ phân bổ phải lớn hơn 0`);
+      continue;
+    }
+
+    allocations.push({
+      supplierId: input.supplierId,
+      sharePercent: round2(sharePercent),
+      quantity: round2((demandQuantity * sharePercent) / 100),
+    });
+  }
+
+  if (errors.length === 0) {
+    const total = allocations.reduce((sum, allocation) => sum + allocation.sharePercent, 0);
+    if (Math.abs(total - 100) > ALLOCATION_TOLERANCE_PERCENT + 1e-9) {
+      errors.push(`Tổng phân bổ phải bằng 100% nhu cầu (hiện tại ${round2(total)}%)`);
+    }
+  }
+
+  return { allocations: errors.length === 0 ? allocations : [], errors };
+}
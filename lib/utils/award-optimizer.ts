@@ -0,0 +1,423 @@
+/**
+ * Supplier Award Optimizer
+ *
+ * findBestPrice picks the cheapest supplier per product independently, which
+ * can spread one region over many suppliers. This optimizer proposes an award
+ * plan over a ComparisonMatrix that minimises total cost (totalPriceWithVAT,
+ * i.e. price × demand incl. VAT) subject to business constraints:
+ *
+ * - maxSuppliers: at most N awarded suppliers
+ * - minOrderValue: an awarded supplier must receive at least this value
+ *   (global default, optionally overridden per supplier)
+ * - incumbentSavingPercent: keep last period's supplier of a product unless
+ *   switching saves more than X% of its cost
+ *
+ * Every quoted product is awarded. With up to EXACT_SEARCH_MAX_SUPPLIERS
+ * suppliers all supplier subsets are evaluated (exact optimum); beyond that a
+ * greedy elimination removes the supplier whose products are cheapest to move.
+ * Within a subset products go to their cheapest supplier unless a minimum
+ * order value is missed, in which case a branch and bound (limited to
+ * EXACT_SEARCH_MAX_NODES steps) moves products to dearer suppliers. A plan is
+ * only reported as exact when that search completed.
+ */
+
+import type { ComparisonMatrix, ProductComparison } from './price-calculation';
+
+export const EXACT_SEARCH_MAX_SUPPLIERS = 12;
+// Branch and bound steps across all subsets before the plan is marked greedy
+export const EXACT_SEARCH_MAX_NODES = 200_000;
+
+export interface AwardConstraints {
+  maxSuppliers?: number | null;
+  minOrderValue?: number | null;
+  supplierMinOrderValues?: Record<number, number>; // Overrides minOrderValue per supplier
+  incumbentSavingPercent?: number | null;
+}
+
+export type AwardReason = 'cheapest' | 'incumbent' | 'constraint';
+
+export interface AwardLine {
+  productId: number;
+  productCode: string;
+  productName: string;
+  category: string;
+  supplierId: number;
+  supplierCode: string;
+  supplierName: string;
+  quantity: number;
+  pricePerUnit: number;
+  totalCost: number; // totalPriceWithVAT of the awarded supplier
+  cheapestCost: number; // Independent best price for comparison
+  reason: AwardReason;
+}
+
+export interface AwardSupplierSummary {
+  supplierId: number;
+  supplierCode: string;
+  supplierName: string;
+  productCount: number;
+  totalValue: number;
+  minOrderValue: number | null;
+}
+
+export interface AwardPlan {
+  lines: AwardLine[];
+  suppliers: AwardSupplierSummary[];
+  totalCost: number;
+  cheapestCost: number; // Sum of independent best prices (unconstrained)
+  cheapestSupplierCount: number; // Suppliers awarded by independent best prices
+  method: 'exact' | 'greedy'; // 'greedy' when the plan is not proven optimal
+  feasible: boolean; // False when constraints had to be relaxed
+  warnings: string[];
+}
+
+interface Candidate {
+  supplierId: number;
+  cost: number;
+}
+
+interface ProductOptions {
+  product: ProductComparison;
+  candidates: Candidate[]; // Sorted by cost ascending
+  incumbentId: number | null;
+}
+
+/**
+ * Supplier that supplied a product last period
+ * Uses the supplier with the lowest previous approved price when several have one.
+ */
+export function findIncumbentSupplier(product: ProductComparison): number | null {
+  let incumbentId: number | null = null;
+  let incumbentPrice = Infinity;
+
+  for (const [supplierIdStr, supplier] of Object.entries(product.suppliers)) {
+    const previousPrice = supplier.previousPriceFromThisSupplier;
+    if (previousPrice !== undefined && previousPrice > 0 && previousPrice < incumbentPrice) {
+      incumbentPrice = previousPrice;
+      incumbentId = parseInt(supplierIdStr);
+    }
+  }
+
+  return incumbentId;
+}
+
+interface AssignmentRules {
+  incumbentSavingPercent: number | null;
+  getMinOrderValue: (supplierId: number) => number | null;
+  search: { nodesLeft: number }; // Shared branch and bound budget
+}
+
+/**
+ * Suppliers a product may be awarded to among the allowed suppliers
+ * With an incumbent rule, the incumbent is kept unless switching saves more
+ * than the threshold, so only the incumbent and such suppliers remain.
+ */
+function getPermittedCandidates(
+  options: ProductOptions,
+  allowed: Set<number>,
+  incumbentSavingPercent: number | null
+): Candidate[] {
+  const candidates = options.candidates.filter(c => allowed.has(c.supplierId));
+  const incumbent = options.candidates.find(c => c.supplierId === options.incumbentId);
+
+  if (incumbentSavingPercent === null || !incumbent) return candidates;
+
+  // Dropping the incumbent is only allowed for a large enough saving
+  return candidates.filter(
+    c =>
+      c === incumbent ||
+      ((incumbent.cost - c.cost) / incumbent.cost) * 100 > incumbentSavingPercent
+  );
+}
+
+function getAwardReason(options: ProductOptions, candidate: Candidate, permitted: Candidate[]): AwardReason {
+  if (candidate === options.candidates[0]) return 'cheapest';
+  if (candidate === permitted[0] && candidate.supplierId === options.incumbentId) return 'incumbent';
+  return 'constraint';
+}
+
+/**
+ * Cheapest assignment of every product within a supplier subset such that
+ * each awarded supplier meets its minimum order value
+ * Products go to their cheapest permitted supplier when that meets every
+ * minimum; otherwise a branch and bound moves products to dearer suppliers.
+ * Returns null when no assignment within the subset (and under upperBound)
+ * exists, or the best one found when the search budget runs out.
+ */
+function evaluateSubset(
+  productOptions: ProductOptions[],
+  allowed: Set<number>,
+  rules: AssignmentRules,
+  upperBound: number = Infinity
+) {
+  const permitted = productOptions.map(options =>
+    getPermittedCandidates(options, allowed, rules.incumbentSavingPercent)
+  );
+  if (permitted.some(candidates => candidates.length === 0)) return null;
+
+  const buildResult = (choices: Candidate[]) => {
+    const supplierTotals = new Map<number, number>();
+    let totalCost = 0;
+
+    const assignments = choices.map((candidate, index) => {
+      totalCost += candidate.cost;
+      supplierTotals.set(
+        candidate.supplierId,
+        (supplierTotals.get(candidate.supplierId) ?? 0) + candidate.cost
+      );
+
+      const options = productOptions[index];
+      return { options, candidate, reason: getAwardReason(options, candidate, permitted[index]) };
+    });
+
+    return { assignments, supplierTotals, totalCost };
+  };
+
+  const meetsMinimums = (supplierTotals: Map<number, number>) =>
+    [...supplierTotals].every(([supplierId, total]) => {
+      const minimum = rules.getMinOrderValue(supplierId);
+      return minimum === null || total >= minimum;
+    });
+
+  const cheapest = buildResult(permitted.map(candidates => candidates[0]));
+  if (cheapest.totalCost >= upperBound) return null;
+  if (meetsMinimums(cheapest.supplierTotals)) return cheapest;
+
+  // Branch and bound over products: remainingCheapest[i] bounds the cost of
+  // products i.., remainingValue[i] what a supplier could still receive
+  const productCount = permitted.length;
+  const remainingCheapest = new Array<number>(productCount + 1).fill(0);
+  const remainingValue = new Array<Map<number, number>>(productCount + 1);
+  remainingValue[productCount] = new Map();
+  for (let index = productCount - 1; index >= 0; index--) {
+    remainingCheapest[index] = remainingCheapest[index + 1] + permitted[index][0].cost;
+    remainingValue[index] = new Map(remainingValue[index + 1]);
+    for (const candidate of permitted[index]) {
+      remainingValue[index].set(
+        candidate.supplierId,
+        (remainingValue[index].get(candidate.supplierId) ?? 0) + candidate.cost
+      );
+    }
+  }
+
+  const choices: Candidate[] = [];
+  const totals = new Map<number, number>();
+  let bestCost = upperBound;
+  let bestChoices: Candidate[] | null = null;
+
+  const search = (index: number, cost: number) => {
+    if (rules.search.nodesLeft <= 0) return;
+    rules.search.nodesLeft--;
+
+    if (cost + remainingCheapest[index] >= bestCost) return;
+
+    // A supplier short of its minimum must be able to reach it
+    for (const [supplierId, total] of totals) {
+      const minimum = rules.getMinOrderValue(supplierId);
+      if (
+        minimum !== null &&
+        total > 0 &&
+        total + (remainingValue[index].get(supplierId) ?? 0) < minimum
+      ) {
+        return;
+      }
+    }
+
+    if (index === productCount) {
+      bestCost = cost;
+      bestChoices = [...choices];
+      return;
+    }
+
+    for (const candidate of permitted[index]) {
+      choices.push(candidate);
+      totals.set(candidate.supplierId, (totals.get(candidate.supplierId) ?? 0) + candidate.cost);
+      search(index + 1, cost + candidate.cost);
+      totals.set(candidate.supplierId, totals.get(candidate.supplierId)! - candidate.cost);
+      choices.pop();
+    }
+  };
+
+  search(0, 0);
+
+  return bestChoices ? buildResult(bestChoices) : null;
+}
+
+type SubsetResult = NonNullable<ReturnType<typeof evaluateSubset>>;
+
+/**
+ * Check the supplier count of an evaluated subset
+ */
+function exceedsMaxSuppliers(result: SubsetResult, maxSuppliers: number | null): boolean {
+  return maxSuppliers !== null && result.supplierTotals.size > maxSuppliers;
+}
+
+/**
+ * Propose a cost-optimal award plan for a comparison matrix
+ */
+export function optimizeSupplierAwards(
+  matrix: ComparisonMatrix,
+  constraints: AwardConstraints = {}
+): AwardPlan {
+  const maxSuppliers = constraints.maxSuppliers && constraints.maxSuppliers > 0
+    ? constraints.maxSuppliers
+    : null;
+  const incumbentSavingPercent = constraints.incumbentSavingPercent ?? null;
+  const getMinOrderValue = (supplierId: number): number | null => {
+    const minimum = constraints.supplierMinOrderValues?.[supplierId] ?? constraints.minOrderValue;
+    return minimum && minimum > 0 ? minimum : null;
+  };
+
+  const warnings: string[] = [];
+
+  // Quoted products with their priced candidates
+  const productOptions: ProductOptions[] = matrix.products
+    .map(product => ({
+      product,
+      candidates: Object.entries(product.suppliers)
+        .filter(([, supplier]) => supplier.hasPrice && supplier.totalPriceWithVAT > 0)
+        .map(([supplierIdStr, supplier]) => ({
+          supplierId: parseInt(supplierIdStr),
+          cost: supplier.totalPriceWithVAT,
+        }))
+        .sort((a, b) => a.cost - b.cost || a.supplierId - b.supplierId),
+      incumbentId: findIncumbentSupplier(product),
+    }))
+    .filter(options => options.candidates.length > 0);
+
+  const supplierIds = [
+    ...new Set(productOptions.flatMap(options => options.candidates.map(c => c.supplierId))),
+  ].sort((a, b) => a - b);
+
+  const rules: AssignmentRules = {
+    incumbentSavingPercent,
+    getMinOrderValue,
+    search: { nodesLeft: EXACT_SEARCH_MAX_NODES },
+  };
+  // Best prices per product regardless of constraints
+  const ignoreMinimums = { ...rules, getMinOrderValue: () => null };
+
+  const unconstrained = evaluateSubset(
+    productOptions,
+    new Set(supplierIds),
+    { ...ignoreMinimums, incumbentSavingPercent: null }
+  );
+  const cheapestCost = unconstrained?.totalCost ?? 0;
+  const cheapestSupplierCount = unconstrained?.supplierTotals.size ?? 0;
+
+  let best: SubsetResult | null = null;
+  let method: AwardPlan['method'] = 'exact';
+
+  if (supplierIds.length <= EXACT_SEARCH_MAX_SUPPLIERS) {
+    // Exact search over every supplier subset
+    for (let mask = 1; mask < 1 << supplierIds.length; mask++) {
+      const allowed = new Set(supplierIds.filter((_, index) => mask & (1 << index)));
+      if (maxSuppliers !== null && allowed.size > maxSuppliers) continue;
+
+      const result = evaluateSubset(productOptions, allowed, rules, best?.totalCost);
+      if (result) {
+        best = result;
+      }
+    }
+  } else {
+    // Greedy elimination: drop the supplier whose removal costs least
+    method = 'greedy';
+    const allowed = new Set(supplierIds);
+    let current = evaluateSubset(productOptions, allowed, rules);
+
+    while (current && exceedsMaxSuppliers(current, maxSuppliers)) {
+      let nextBest: { supplierId: number; result: SubsetResult } | null = null;
+
+      for (const supplierId of current.supplierTotals.keys()) {
+        allowed.delete(supplierId);
+        const result = evaluateSubset(productOptions, allowed, rules);
+        allowed.add(supplierId);
+
+        if (result && (!nextBest || result.totalCost < nextBest.result.totalCost)) {
+          nextBest = { supplierId, result };
+        }
+      }
+
+      if (!nextBest) break;
+
+      allowed.delete(nextBest.supplierId);
+      current = nextBest.result;
+    }
+
+    if (current && !exceedsMaxSuppliers(current, maxSuppliers)) {
+      best = current;
+    }
+  }
+
+  if (rules.search.nodesLeft <= 0) {
+    // The minimum order search was cut short - the plan may not be the cheapest
+    method = 'greedy';
+    warnings.push(
+      'Quá nhiều phương án để xét giá trị đơn hàng tối thiểu - phương án đề xuất có thể chưa phải rẻ nhất'
+    );
+  }
+
+  const feasible = best !== null;
+
+  if (!best) {
+    // Constraints cannot all be met - fall back to the incumbent-aware cheapest plan
+    best = evaluateSubset(productOptions, new Set(supplierIds), ignoreMinimums);
+    warnings.push(
+      'Không tìm được phương án thỏa mãn tất cả ràng buộc - đề xuất theo giá tốt nhất từng sản phẩm'
+    );
+  }
+
+  const supplierInfo = new Map(
+    productOptions.flatMap(options =>
+      Object.values(options.product.suppliers).map(
+        supplier => [supplier.supplierId, supplier] as const
+      )
+    )
+  );
+
+  const lines: AwardLine[] = (best?.assignments ?? []).map(({ options, candidate, reason }) => {
+    const supplier = options.product.suppliers[candidate.supplierId];
+
+    return {
+      productId: options.product.productId,
+      productCode: options.product.productCode,
+      productName: options.product.productName,
+      category: options.product.category,
+      supplierId: candidate.supplierId,
+      supplierCode: supplier.supplierCode,
+      supplierName: supplier.supplierName,
+      quantity: options.product.quantity,
+      pricePerUnit: supplier.pricePerUnit,
+      totalCost: candidate.cost,
+      cheapestCost: options.candidates[0].cost,
+      reason,
+    };
+  });
+
+  const suppliers: AwardSupplierSummary[] = [...(best?.supplierTotals ?? new Map<number, number>())]
+    .map(([supplierId, totalValue]) => ({
+      supplierId,
+      supplierCode: supplierInfo.get(supplierId)?.supplierCode ?? '',
+      supplierName: supplierInfo.get(supplierId)?.supplierName ?? '',
+      productCount: lines.filter(line => line.supplierId === supplierId).length,
+      totalValue,
+      minOrderValue: getMinOrderValue(supplierId),
+    }))
+    .sort((a, b) => b.totalValue - a.totalValue);
+
+  const uncoveredCount = matrix.products.length - productOptions.length;
+  if (uncoveredCount > 0) {
+    warnings.push(`${uncoveredCount} sản phẩm chưa có báo giá hợp lệ và không được phân bổ`);
+  }
+
+  return {
+    lines,
+    suppliers,
+    totalCost: best?.totalCost ?? 0,
+    cheapestCost,
+    cheapestSupplierCount,
+    method,
+    feasible,
+    warnings,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Demand Forecasting
+ *
+ * Proposes a kitchen's next-period quantity for a product from its demand
+ * history (kitchenPeriodDemands):
+ * - moving average of the latest periods
+ * - linear trend over a longer window, projected one period ahead
+ * - seasonality: the same period last year compared with the periods before it
+ *
+ * Periods in which the kitchen submitted demand but not for the product count
+ * as zero, so products that are no longer ordered fade out.
+ */
+
+export const FORECAST_METHODS = ['moving_average', 'trend', 'seasonal'] as const;
+
+export type ForecastMethod = (typeof FORECAST_METHODS)[number];
+
+export interface ForecastOptions {
+  averageWindow: number; // Periods in the moving average
+  trendWindow: number; // Periods used to fit the trend
+  minTrendPeriods: number; // Fewer periods than this = no trend
+  seasonalIndexRange: [number, number]; // Bounds of the seasonal multiplier
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  averageWindow: 3,
+  trendWindow: 6,
+  minTrendPeriods: 4,
+  seasonalIndexRange: [0.5, 2],
+};
+
+export interface DemandForecast {
+  quantity: number;
+  method: ForecastMethod;
+  lastActual: number | null; // Quantity of the kitchen's latest period, null = not ordered
+  movingAverage: number;
+  trendPerPeriod: number; // Change per period, 0 when no trend is applied
+  seasonalIndex: number | null; // Multiplier from last year, null when not applied
+}
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Least-squares slope of the values over their index
+ */
+function linearSlope(values: number[]): number {
+  const n = values.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - xMean) * (value - yMean);
+    denominator += (index - xMean) ** 2;
+  });
+
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * The period code one year earlier (2025-03-02 -> 2024-03-02)
+ */
+export function getSamePeriodLastYear(period: string): string {
+  const year = Number(period.slice(0, 4));
+  return `${year - 1}${period.slice(4)}`;
+}
+
+/**
+ * Forecast the demand of one product for targetPeriod
+ * kitchenPeriods: the kitchen's periods with demand before targetPeriod (any order).
+ * history: the product's quantity per period code.
+ * Returns null when the product has no demand in the window nor last year.
+ */
+export function forecastDemand(
+  kitchenPeriods: string[],
+  history: Map<string, number>,
+  targetPeriod: string,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): DemandForecast | null {
+  const periods = [...new Set(kitchenPeriods)]
+    .filter((period) => period < targetPeriod)
+    .sort();
+  const quantityOf = (period: string) => history.get(period) ?? 0;
+
+  const recent = periods.slice(-options.trendWindow).map(quantityOf);
+  const lastYearPeriod = getSamePeriodLastYear(targetPeriod);
+  const lastYearQuantity = history.get(lastYearPeriod);
+
+  if (recent.every((quantity) => quantity === 0) && !lastYearQuantity) {
+    return null;
+  }
+
+  // Step 1: Moving average of the latest periods
+  const movingAverage = mean(recent.slice(-options.averageWindow));
+  let quantity = movingAverage;
+
+  // Step 2: Project the trend from the centre of the average window to the next period
+  let trendPerPeriod = 0;
+  if (recent.length >= options.minTrendPeriods) {
+    trendPerPeriod = linearSlope(recent);
+    const averagedPeriods = Math.min(options.averageWindow, recent.length);
+    quantity += (trendPerPeriod * (averagedPeriods + 1)) / 2;
+  }
+
+  // Step 3: Scale by how last year's same period compared with the periods before it
+  // Products without recent demand (ordered seasonally) take last year's quantity
+  let seasonalIndex: number | null = null;
+  let seasonalFallback = false;
+  if (lastYearQuantity !== undefined) {
+    const baseline = mean(
+      periods
+        .filter((period) => period < lastYearPeriod)
+        .slice(-options.averageWindow)
+        .map(quantityOf)
+    );
+
+    if (quantity <= 0) {
+      quantity = lastYearQuantity;
+      seasonalFallback = true;
+    } else if (baseline > 0) {
+      const [min, max] = options.seasonalIndexRange;
+      seasonalIndex = round(Math.min(max, Math.max(min, lastYearQuantity / baseline)));
+      quantity *= seasonalIndex;
+    }
+  }
+
+  const lastPeriod = periods[periods.length - 1];
+
+  return {
+    quantity: round(Math.max(0, quantity)),
+    method:
+      seasonalIndex !== null || seasonalFallback
+        ? 'seasonal'
+        : trendPerPeriod !== 0
+          ? 'trend'
+          : 'moving_average',
+    lastActual: lastPeriod !== undefined ? history.get(lastPeriod) ?? null : null,
+    movingAverage: round(movingAverage),
+    trendPerPeriod: round(trendPerPeriod),
+    seasonalIndex,
+  };
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { ImportColumnMapping } from "@/lib/utils/import-profile";
 
 // Validation schemas for Excel data structure
 export const QuotationInfoSchema = z.object({
@@ -24,6 +25,7 @@ export const QuotationItemSchema = z.object({
   vatRate: z.number().min(0).max(100, "VAT rate must be between 0 and 100"),
   specification: z.string().optional(),
   notes: z.string().optional(),
+  sourceRow: z.number().int().positive().optional(), // 1-based row of the item in its sheet
 });
 
 export const ParsedQuotationSchema = z.object({
@@ -54,98 +56,172 @@ export interface ParseResult {
   data?: ParsedQuotation;
   errors: ValidationError[];
   warnings: ValidationWarning[];
+  sheetName?: string; // Supplier sheet of a multi-supplier workbook
+  itemsSheet?: string; // Sheet the item rows (and their row numbers) come from
 }
 
 /**
- * Process an Excel file and extract quotation data
- * Expected Excel structure:
- * - Sheet 1: "Thông tin báo giá" - Contains quotation metadata
- * - Sheet 2: "Danh sách sản phẩm" - Contains product pricing data
+ * Layout of a supplier's own quotation workbook, from its import profile
  */
-export async function processExcelFile(
+export interface QuotationFileLayout {
+  sheetName: string | null; // null = first sheet
+  headerRow: number; // 1-based, data starts on the next row
+  columns: ImportColumnMapping;
+}
+
+/**
+ * Supplier whose import profile is applied - its files carry no info sheet
+ */
+export interface QuotationFileProfile {
+  supplierCode: string;
+  supplierName: string;
+  layout: QuotationFileLayout;
+}
+
+const INFO_SHEET_NAME = "Thông tin báo giá";
+const ITEMS_SHEET_NAME = "Danh sách sản phẩm";
+
+/**
+ * Process a quotation file and extract one quotation per supplier
+ * Accepted files: .xlsx, legacy .xls and .csv (UTF-8, Windows-1258 or CP1252).
+ * Expected structure, checked in this order:
+ * - With a supplier import profile, the items are read from the profile's
+ *   sheet and columns, and the supplier comes from the profile.
+ * - Standard template: sheet "Thông tin báo giá" with the supplier in B6/B7
+ *   and sheet "Danh sách sản phẩm" with the items.
+ * - Multi-supplier workbook: every sheet named after its supplier
+ *   ("NCC001" or "NCC001 - Tên NCC") holds that supplier's items with the
+ *   "Danh sách sản phẩm" headers in row 1. A CSV file is one such sheet,
+ *   named after the file.
+ */
+export async function processQuotationFile(
   file: File,
   region: string,
-  period: string
-): Promise<ParseResult> {
-  const errors: ValidationError[] = [];
-  const warnings: ValidationWarning[] = [];
+  period: string,
+  profile?: QuotationFileProfile
+): Promise<ParseResult[]> {
+  let sheets: SheetRows[];
 
   try {
-    // Use exceljs for Excel file processing
-    const ExcelJS = await import("exceljs");
+    sheets = await readQuotationSheets(file);
+  } catch (error) {
+    return [
+      {
+        success: false,
+        errors: [
+          {
+            type: "error",
+            message: `Lỗi đọc file: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+          },
+        ],
+        warnings: [],
+      },
+    ];
+  }
 
-    // Read the Excel file
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.load(arrayBuffer);
+  if (profile) {
+    return [
+      buildParseResult(
+        parseQuotationInfoFromProfile(profile, region, period),
+        parseProfiledQuotationItems(sheets, profile.layout)
+      ),
+    ];
+  }
 
-    // Validate required sheets exist
-    const requiredSheets = ["Thông tin báo giá", "Danh sách sản phẩm"];
-    const worksheetNames = workbook.worksheets.map((ws) => ws.name);
-    const missingSheets = requiredSheets.filter(
-      (sheet) => !worksheetNames.includes(sheet)
-    );
+  const infoSheet = sheets.find((sheet) => sheet.name === INFO_SHEET_NAME);
+  const itemsSheet = sheets.find((sheet) => sheet.name === ITEMS_SHEET_NAME);
 
-    if (missingSheets.length > 0) {
-      errors.push({
-        type: "error",
-        message: `Thiếu sheet bắt buộc: ${missingSheets.join(", ")}`,
-      });
-      return { success: false, errors, warnings };
+  if (infoSheet || itemsSheet) {
+    if (!infoSheet || !itemsSheet) {
+      return [missingSheetsResult(infoSheet ? [ITEMS_SHEET_NAME] : [INFO_SHEET_NAME])];
     }
 
-    // Parse quotation info sheet
-    const infoSheet = workbook.getWorksheet("Thông tin báo giá");
-    const infoResult = parseQuotationInfo(infoSheet, region, period);
+    return [
+      buildParseResult(
+        parseQuotationInfo(infoSheet.rows, region, period),
+        parseQuotationItems(itemsSheet.rows, ITEMS_SHEET_NAME)
+      ),
+    ];
+  }
 
-    if (!infoResult.success) {
-      errors.push(...infoResult.errors);
-      return { success: false, errors, warnings };
-    }
+  // Multi-supplier workbook: sheets without the item headers (cover or
+  // summary sheets) are skipped
+  const supplierSheets = sheets.filter((sheet) => hasStandardItemHeaders(sheet.rows));
+  if (supplierSheets.length === 0) {
+    return [missingSheetsResult([INFO_SHEET_NAME, ITEMS_SHEET_NAME])];
+  }
 
-    // Parse product items sheet
-    const itemsSheet = workbook.getWorksheet("Danh sách sản phẩm");
-    const itemsResult = parseQuotationItems(itemsSheet);
+  return supplierSheets.map((sheet) => ({
+    ...buildParseResult(
+      parseQuotationInfoFromSheetName(sheet.name, region, period),
+      parseQuotationItems(sheet.rows, sheet.name)
+    ),
+    sheetName: sheet.name,
+  }));
+}
 
-    if (!itemsResult.success) {
-      errors.push(...itemsResult.errors);
-      warnings.push(...itemsResult.warnings);
-    }
+function missingSheetsResult(missingSheets: string[]): ParseResult {
+  return {
+    success: false,
+    errors: [
+      {
+        type: "error",
+        message: `Thiếu sheet bắt buộc: ${missingSheets.join(", ")}`,
+      },
+    ],
+    warnings: [],
+  };
+}
 
-    if (errors.length > 0) {
-      return { success: false, errors, warnings };
-    }
+/**
+ * Combine the parsed info and items of one supplier and validate them
+ */
+function buildParseResult(
+  infoResult: { success: boolean; data?: QuotationInfo; errors: ValidationError[] },
+  itemsResult: ItemsResult
+): ParseResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
 
-    // Validate the complete parsed data
-    const parsedData: ParsedQuotation = {
-      info: infoResult.data!,
-      items: itemsResult.data!,
-    };
+  if (!infoResult.success) {
+    errors.push(...infoResult.errors);
+    return { success: false, errors, warnings };
+  }
 
-    const validationResult = ParsedQuotationSchema.safeParse(parsedData);
-    if (!validationResult.success) {
-      errors.push({
-        type: "error",
-        message: "Dữ liệu không hợp lệ: " + validationResult.error.message,
-      });
-      return { success: false, errors, warnings };
-    }
+  const itemsSheet = itemsResult.sheetName;
+  warnings.push(...itemsResult.warnings);
+  if (!itemsResult.success) {
+    errors.push(...itemsResult.errors);
+  }
 
-    return {
-      success: true,
-      data: parsedData,
-      errors,
-      warnings,
-    };
-  } catch (error) {
+  if (errors.length > 0) {
+    return { success: false, errors, warnings, itemsSheet };
+  }
+
+  // Validate the complete parsed data
+  const parsedData: ParsedQuotation = {
+    info: infoResult.data!,
+    items: itemsResult.data!,
+  };
+
+  const validationResult = ParsedQuotationSchema.safeParse(parsedData);
+  if (!validationResult.success) {
     errors.push({
       type: "error",
-      message: `Lỗi đọc file Excel: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`,
+      message: "Dữ liệu không hợp lệ: " + validationResult.error.message,
     });
-    return { success: false, errors, warnings };
+    return { success: false, errors, warnings, itemsSheet };
   }
+
+  return {
+    success: true,
+    data: parsedData,
+    errors,
+    warnings,
+    itemsSheet,
+  };
 }
 
 /**
@@ -156,31 +232,20 @@ export async function processExcelFile(
  * Note: period and region are provided from the import form
  */
 function parseQuotationInfo(
-  sheet: any,
+  rows: any[][],
   region: string,
   period: string
 ): { success: boolean; data?: QuotationInfo; errors: ValidationError[] } {
   const errors: ValidationError[] = [];
 
   try {
-    // Read data directly from fixed cells as per specification
+    // Read data directly from fixed cells as per specification (column B)
     // Note: period is now provided from import form, not from Excel
-    const supplierCodeCell = sheet.getCell("B6");
-    const supplierNameCell = sheet.getCell("B7");
-
-    // Extract values and handle potential null/undefined
-    const supplierCode = supplierCodeCell.value
-      ? String(supplierCodeCell.value).trim()
-      : "";
-    const supplierName = supplierNameCell.value
-      ? String(supplierNameCell.value).trim()
-      : "";
+    const supplierCode = cellToText(rows[5]?.[1]); // B6
+    const supplierName = cellToText(rows[6]?.[1]); // B7
 
     // Optional fields - check for quote date in nearby cells
-    const quoteDateCell = sheet.getCell("B8"); // Assuming quote date might be in B8
-    const quoteDate = quoteDateCell.value
-      ? String(quoteDateCell.value).trim()
-      : undefined;
+    const quoteDate = cellToText(rows[7]?.[1]) || undefined; // B8
 
     // Build the quotation info object using the region from the import form
     const quotationInfo: QuotationInfo = {
@@ -234,94 +299,271 @@ function parseQuotationInfo(
 }
 
 /**
- * Parse the product items sheet
+ * Quotation info of a file read with a supplier import profile
+ * The supplier comes from the profile; period and region from the import form.
+ */
+function parseQuotationInfoFromProfile(
+  profile: QuotationFileProfile,
+  region: string,
+  period: string
+): { success: boolean; data?: QuotationInfo; errors: ValidationError[] } {
+  const validationResult = QuotationInfoSchema.safeParse({
+    period,
+    region,
+    supplierCode: profile.supplierCode,
+    supplierName: profile.supplierName,
+  });
+
+  if (!validationResult.success) {
+    return {
+      success: false,
+      errors: [
+        {
+          type: "error",
+          message: "Thông tin báo giá không hợp lệ: " + validationResult.error.message,
+        },
+      ],
+    };
+  }
+
+  return { success: true, data: validationResult.data, errors: [] };
+}
+
+/**
+ * Supplier code and name of a multi-supplier workbook sheet
+ * Sheets are named "NCC001" or "NCC001 - Tên NCC"; exported file names
+ * ({period}_{region}_{supplierCode}) are accepted for CSV files.
+ */
+export function getSupplierFromSheetName(
+  sheetName: string
+): { supplierCode: string; supplierName: string } {
+  const [codePart, ...nameParts] = sheetName.split(" - ");
+  const supplierCode = (
+    codePart.includes("_") ? getSupplierCodeFromFileName(codePart) ?? codePart : codePart
+  )
+    .trim()
+    .toUpperCase();
+
+  return {
+    supplierCode,
+    supplierName: nameParts.join(" - ").trim() || supplierCode,
+  };
+}
+
+/**
+ * Quotation info of a multi-supplier workbook sheet, from the sheet name
  */
-function parseQuotationItems(sheet: any): {
+function parseQuotationInfoFromSheetName(
+  sheetName: string,
+  region: string,
+  period: string
+): { success: boolean; data?: QuotationInfo; errors: ValidationError[] } {
+  const validationResult = QuotationInfoSchema.safeParse({
+    period,
+    region,
+    ...getSupplierFromSheetName(sheetName),
+  });
+
+  if (!validationResult.success) {
+    return {
+      success: false,
+      errors: [
+        {
+          type: "error",
+          message: `Không xác định được nhà cung cấp từ tên sheet "${sheetName}"`,
+        },
+      ],
+    };
+  }
+
+  return { success: true, data: validationResult.data, errors: [] };
+}
+
+type ItemsResult = {
   success: boolean;
   data?: QuotationItem[];
   errors: ValidationError[];
   warnings: ValidationWarning[];
-} {
+  sheetName?: string;
+};
+
+/**
+ * Read a worksheet into an array of rows of raw cell values
+ */
+function readSheetRows(sheet: any): any[][] {
+  const rows: any[][] = [];
+  // Last row/column numbers - the "actual" counts skip blank rows and columns
+  const maxRow = sheet.rowCount || 0;
+  const maxCol = sheet.columnCount || 0;
+
+  for (let row = 1; row <= maxRow; row++) {
+    const rowData: any[] = [];
+    for (let col = 1; col <= maxCol; col++) {
+      const cell = sheet.getCell(row, col);
+      rowData.push(cell.value);
+    }
+    rows.push(rowData);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse the product items of a supplier's own workbook using its import profile
+ */
+function parseProfiledQuotationItems(sheets: SheetRows[], layout: QuotationFileLayout): ItemsResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationWarning[] = [];
 
-  try {
-    // Use exceljs worksheet API
-    // Convert sheet to JSON array (assuming first row is headers)
-    const jsonData: any[][] = [];
-    const maxRow = sheet.actualRowCount || 0;
-    const maxCol = sheet.actualColumnCount || 0;
-
-    for (let row = 1; row <= maxRow; row++) {
-      const rowData: any[] = [];
-      for (let col = 1; col <= maxCol; col++) {
-        const cell = sheet.getCell(row, col);
-        rowData.push(cell.value);
-      }
-      jsonData.push(rowData);
+  const sheet = layout.sheetName
+    ? sheets.find((entry) => entry.name === layout.sheetName)
+    : sheets[0];
+
+  if (!sheet) {
+    errors.push({
+      type: "error",
+      message: `Không tìm thấy sheet "${layout.sheetName}" theo cấu hình nhập của nhà cung cấp`,
+    });
+    return { success: false, errors, warnings };
+  }
+
+  // Profile columns are 1-based, row arrays 0-based
+  const columnIndexes: Record<string, number> = {};
+  for (const [field, column] of Object.entries(layout.columns)) {
+    if (column) columnIndexes[field] = column - 1;
+  }
+
+  const missingColumns = ["productCode", "initialPrice"].filter(
+    (field) => columnIndexes[field] === undefined
+  );
+  if (missingColumns.length > 0) {
+    errors.push({
+      type: "error",
+      message: `Cấu hình nhập chưa chọn cột: ${missingColumns.join(", ")}`,
+    });
+    return { success: false, errors, warnings };
+  }
+
+  const rows = sheet.rows;
+  if (rows.length <= layout.headerRow) {
+    errors.push({
+      type: "error",
+      message: `Sheet "${sheet.name}" không có dữ liệu sau dòng tiêu đề ${layout.headerRow}`,
+    });
+    return { success: false, errors, warnings };
+  }
+
+  return parseItemRows(rows.slice(layout.headerRow), columnIndexes, layout.headerRow + 1, sheet.name);
+}
+
+// Expected column mapping of the standard items sheet (Vietnamese headers to English fields)
+const STANDARD_ITEM_COLUMNS: Record<string, string> = {
+  "Mã sản phẩm": "productCode",
+  "Tên sản phẩm": "productName",
+  "Quy cách": "specification",
+  "Đơn vị tính": "unit",
+  "Số lượng": "quantity",
+  "Đơn giá": "initialPrice",
+  "VAT %": "vatRate",
+  "Ghi chú": "notes",
+};
+
+// Only mandatory columns per business requirements
+const REQUIRED_ITEM_COLUMNS = ["productCode", "initialPrice", "vatRate"];
+
+/**
+ * 0-based column of each standard item field found in a header row
+ */
+function findStandardItemColumns(headers: any[]): Record<string, number> {
+  const columnIndexes: Record<string, number> = {};
+
+  for (const [vietnameseHeader, englishField] of Object.entries(STANDARD_ITEM_COLUMNS)) {
+    const index = headers.findIndex((header) =>
+      cellToText(header).toLowerCase().includes(vietnameseHeader.toLowerCase())
+    );
+    if (index !== -1) {
+      columnIndexes[englishField] = index;
     }
+  }
+
+  return columnIndexes;
+}
+
+/**
+ * Whether the first row of a sheet holds the standard item headers
+ */
+function hasStandardItemHeaders(rows: any[][]): boolean {
+  const columnIndexes = findStandardItemColumns(rows[0] ?? []);
+  return REQUIRED_ITEM_COLUMNS.every((column) => columnIndexes[column] !== undefined);
+}
+
+/**
+ * Parse a product items sheet with the standard headers in row 1
+ */
+function parseQuotationItems(rows: any[][], sheetName: string): ItemsResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
 
-    if (jsonData.length < 2) {
+  try {
+    if (rows.length < 2) {
       errors.push({
         type: "error",
-        message: 'Sheet "Danh sách sản phẩm" không có dữ liệu',
+        message: `Sheet "${sheetName}" không có dữ liệu`,
       });
       return { success: false, errors, warnings };
     }
 
-    // Get headers from first row
-    const headers = jsonData[0] as string[];
-
-    // Expected column mapping (Vietnamese headers to English fields)
-    const columnMapping: Record<string, string> = {
-      "Mã sản phẩm": "productCode",
-      "Tên sản phẩm": "productName",
-      "Quy cách": "specification",
-      "Đơn vị tính": "unit",
-      "Số lượng": "quantity",
-      "Đơn giá": "initialPrice",
-      "VAT %": "vatRate",
-      "Ghi chú": "notes",
-    };
-
-    // Find column indexes
-    const columnIndexes: Record<string, number> = {};
-    for (const [vietnameseHeader, englishField] of Object.entries(
-      columnMapping
-    )) {
-      const index = headers.findIndex((header) =>
-        String(header)
-          .trim()
-          .toLowerCase()
-          .includes(vietnameseHeader.toLowerCase())
-      );
-      if (index !== -1) {
-        columnIndexes[englishField] = index;
-      }
-    }
+    // Find column indexes from the first row
+    const columnIndexes = findStandardItemColumns(rows[0]);
 
-    // Validate required columns exist (only mandatory columns per business requirements)
-    const requiredColumns = ["productCode", "initialPrice", "vatRate"];
-    const missingColumns = requiredColumns.filter(
+    // Validate required columns exist
+    const missingColumns = REQUIRED_ITEM_COLUMNS.filter(
       (col) => columnIndexes[col] === undefined
     );
 
     if (missingColumns.length > 0) {
       errors.push({
         type: "error",
-        message: `Thiếu cột bắt buộc trong sheet "Danh sách sản phẩm": ${missingColumns.join(
+        message: `Thiếu cột bắt buộc trong sheet "${sheetName}": ${missingColumns.join(
           ", "
         )}`,
       });
       return { success: false, errors, warnings };
     }
 
+    return parseItemRows(rows.slice(1), columnIndexes, 2, sheetName);
+  } catch (error) {
+    errors.push({
+      type: "error",
+      message: `Lỗi đọc sheet "${sheetName}": ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    });
+    return { success: false, errors, warnings };
+  }
+}
+
+/**
+ * Parse product item rows given the 0-based column of each field
+ * A file without a VAT column gets one warning instead of one per row.
+ */
+function parseItemRows(
+  dataRows: any[][],
+  columnIndexes: Record<string, number>,
+  firstRowNumber: number,
+  sheetName: string
+): ItemsResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const hasVatColumn = columnIndexes.vatRate !== undefined;
+
+  try {
     // Parse data rows
     const items: QuotationItem[] = [];
 
-    for (let i = 1; i < jsonData.length; i++) {
-      const row = jsonData[i] as any[];
-      const rowNumber = i + 1; // 1-based row number
+    for (let i = 0; i < dataRows.length; i++) {
+      const row = dataRows[i] as any[];
+      const rowNumber = firstRowNumber + i; // 1-based row number
 
       // Skip empty rows
       if (!row || row.every((cell) => !cell)) {
@@ -329,7 +571,7 @@ function parseQuotationItems(sheet: any): {
       }
 
       try {
-        const item: Partial<QuotationItem> = {};
+        const item: Partial<QuotationItem> = { sourceRow: rowNumber };
 
         // Extract data based on column mapping
         for (const [field, columnIndex] of Object.entries(columnIndexes)) {
@@ -345,7 +587,7 @@ function parseQuotationItems(sheet: any): {
               field === "initialPrice" ||
               field === "vatRate"
             ) {
-              const numValue = Number(cellValue);
+              const numValue = parseNumericCell(cellValue) ?? NaN;
               if (isNaN(numValue)) {
                 errors.push({
                   type: "error",
@@ -367,11 +609,13 @@ function parseQuotationItems(sheet: any): {
         // Set defaults for optional fields
         if ((item as any).vatRate === undefined) {
           (item as any).vatRate = 0;
-          warnings.push({
-            type: "warning",
-            message: `Không có thông tin VAT tại dòng ${rowNumber}, sử dụng mặc định 0%`,
-            row: rowNumber,
-          });
+          if (hasVatColumn) {
+            warnings.push({
+              type: "warning",
+              message: `Không có thông tin VAT tại dòng ${rowNumber}, sử dụng mặc định 0%`,
+              row: rowNumber,
+            });
+          }
         }
 
         if ((item as any).quantity === undefined) {
@@ -411,10 +655,16 @@ function parseQuotationItems(sheet: any): {
     if (items.length === 0) {
       errors.push({
         type: "error",
-        message:
-          'Không tìm thấy sản phẩm hợp lệ nào trong sheet "Danh sách sản phẩm"',
+        message: `Không tìm thấy sản phẩm hợp lệ nào trong sheet "${sheetName}"`,
+      });
+      return { success: false, errors, warnings, sheetName };
+    }
+
+    if (!hasVatColumn) {
+      warnings.push({
+        type: "warning",
+        message: `Sheet "${sheetName}" không có cột VAT, sử dụng mặc định 0%`,
       });
-      return { success: false, errors, warnings };
     }
 
     return {
@@ -422,11 +672,12 @@ function parseQuotationItems(sheet: any): {
       data: items,
       errors,
       warnings,
+      sheetName,
     };
   } catch (error) {
     errors.push({
       type: "error",
-      message: `Lỗi đọc sheet "Danh sách sản phẩm": ${
+      message: `Lỗi đọc sheet "${sheetName}": ${
         error instanceof Error ? error.message : "Unknown error"
       }`,
     });
@@ -434,6 +685,166 @@ function parseQuotationItems(sheet: any): {
   }
 }
 
+// ==================== QUOTATION SOURCE FILES ====================
+
+/**
+ * A sheet read into rows of raw cell values (row 1 = rows[0])
+ */
+export interface SheetRows {
+  name: string;
+  rows: any[][];
+}
+
+export interface WorkbookSheetPreview {
+  name: string;
+  rows: string[][]; // Leading rows as display text
+}
+
+/**
+ * Display text of a cell value (formula results, rich text, dates)
+ */
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+
+  if (typeof value === "object") {
+    const cell = value as any;
+    if (Array.isArray(cell.richText)) {
+      return cell.richText.map((part: { text: string }) => part.text).join("");
+    }
+    if ("result" in cell) return cellToText(cell.result);
+    if ("text" in cell) return String(cell.text);
+  }
+
+  return String(value).trim();
+}
+
+/**
+ * Plain value of a raw cell, for writing it to another workbook: formulas
+ * become their result, rich text and hyperlinks their text
+ */
+export function toPlainCellValue(value: unknown): string | number | boolean | Date | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== "object") {
+    return value as string | number | boolean;
+  }
+  if ("result" in value) return toPlainCellValue((value as { result: unknown }).result);
+  return cellToText(value);
+}
+
+// Windows-1258 bytes for letters only Vietnamese uses (Ă ă Đ đ Ơ ơ Ư ư ₫)
+const CP1258_LETTER_BYTES = new Set([0xc3, 0xe3, 0xd0, 0xf0, 0xd5, 0xf5, 0xdd, 0xfd, 0xfe]);
+// Windows-1258 combining tone marks, which follow the vowel they mark
+const CP1258_TONE_MARK_BYTES = new Set([0xcc, 0xec, 0xd2, 0xde, 0xf2]);
+
+/**
+ * Decode the bytes of a CSV export
+ * UTF-8 (with or without BOM) is used when the bytes are valid UTF-8,
+ * otherwise Windows-1258 when Vietnamese letters or tone marks appear and
+ * CP1252 for the rest. The text is returned in NFC form.
+ */
+export function decodeCsvBytes(bytes: Uint8Array): string {
+  let decoded: string | undefined;
+
+  try {
+    decoded = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    // Not UTF-8: a Windows code page
+  }
+
+  if (decoded === undefined) {
+    const isVietnamese = bytes.some(
+      (byte, index) =>
+        CP1258_LETTER_BYTES.has(byte) ||
+        (CP1258_TONE_MARK_BYTES.has(byte) && index > 0 && /[a-z]/i.test(String.fromCharCode(bytes[index - 1])))
+    );
+
+    decoded = new TextDecoder(isVietnamese ? "windows-1258" : "windows-1252").decode(bytes);
+  }
+
+  // Windows-1258 writes tone marks as separate combining characters; headers
+  // and codes are compared against precomposed text
+  return decoded.normalize("NFC");
+}
+
+// Sheet size limits of the .xls format; cells beyond them are ignored
+const XLS_MAX_ROWS = 65536;
+const XLS_MAX_COLUMNS = 256;
+
+/**
+ * Read every sheet of a quotation file into rows
+ * .csv files are one sheet named after the file, legacy .xls files are read
+ * with SheetJS and everything else as .xlsx with ExcelJS.
+ */
+export async function readQuotationSheets(file: File): Promise<SheetRows[]> {
+  const fileName = file.name.toLowerCase();
+  const arrayBuffer = await file.arrayBuffer();
+
+  if (fileName.endsWith(".csv")) {
+    return [
+      {
+        name: file.name.replace(/\.[^.]+$/, ""),
+        rows: parseCsvRows(decodeCsvBytes(new Uint8Array(arrayBuffer))),
+      },
+    ];
+  }
+
+  if (fileName.endsWith(".xls")) {
+    const XLSX = await import("xlsx");
+    const workbook = XLSX.read(new Uint8Array(arrayBuffer), {
+      type: "array",
+      cellDates: true,
+      sheetRows: XLS_MAX_ROWS,
+    });
+
+    return workbook.SheetNames.map((name) => {
+      const sheet = workbook.Sheets[name];
+      const cells = Object.keys(sheet)
+        .filter((address) => !address.startsWith("!"))
+        .map((address) => ({ ...XLSX.utils.decode_cell(address), value: sheet[address].v }))
+        .filter((cell) => cell.c < XLS_MAX_COLUMNS);
+
+      // Rows are addressed from A1 so row and column numbers match the sheet.
+      // The extent comes from the cells present, not the "!ref" range the
+      // file declares, which may span the whole sheet.
+      const lastColumn = cells.reduce((last, cell) => Math.max(last, cell.c), -1);
+      const rows: any[][] = [];
+      for (const cell of cells) {
+        while (rows.length <= cell.r) {
+          rows.push(new Array(lastColumn + 1).fill(null));
+        }
+        rows[cell.r][cell.c] = cell.value ?? null;
+      }
+
+      return { name, rows };
+    });
+  }
+
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(arrayBuffer);
+
+  return workbook.worksheets.map((sheet) => ({
+    name: sheet.name,
+    rows: readSheetRows(sheet),
+  }));
+}
+
+/**
+ * Read the leading rows of every sheet, for mapping a supplier's columns
+ */
+export async function readWorkbookPreview(
+  file: File,
+  maxRows: number = 30
+): Promise<WorkbookSheetPreview[]> {
+  const sheets = await readQuotationSheets(file);
+
+  return sheets.map((sheet) => ({
+    name: sheet.name,
+    rows: sheet.rows.slice(0, maxRows).map((row) => row.map(cellToText)),
+  }));
+}
+
 /**
  * Validate supplier and product codes against database
  * This function should be called after parsing but before saving to database
@@ -459,3 +870,637 @@ export async function validateCodes(
     productNames: {},
   };
 }
+
+// ==================== TARGET PRICE (COUNTER-OFFER) WORKBOOK ====================
+
+/**
+ * Layout of the target-price workbook sent to suppliers by
+ * initiateBatchNegotiationAndExport. Suppliers fill the counter-offer column
+ * and send the file back unchanged, so the same headers drive both the export
+ * and processCounterOfferFile.
+ */
+export const TARGET_PRICE_SHEET_NAME = "Target Prices";
+
+export const TARGET_PRICE_HEADERS = {
+  quotationCode: "Mã báo giá",
+  productCode: "Mã sản phẩm",
+  productName: "Tên sản phẩm",
+  specification: "Quy cách",
+  unit: "Đơn vị",
+  targetPrice: "Giá mục tiêu",
+  targetPriceRule: "Quy tắc giá mục tiêu",
+  counterOffer: "Giá đề xuất của NCC",
+  supplierNotes: "Ghi chú của NCC",
+} as const;
+
+export interface CounterOfferLine {
+  row: number;
+  quotationCode?: string;
+  productCode: string;
+  targetPrice?: number;
+  counterOffer?: number;
+  notes?: string;
+  error?: string; // Set when the counter-offer cell cannot be read as a price
+}
+
+export interface CounterOfferParseResult {
+  success: boolean;
+  supplierCode?: string; // Derived from the exported file name, used when the sheet has no quotation code column
+  lines: CounterOfferLine[];
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Convert a cell value to a number.
+ * Accepts plain numbers, formula results and text such as "1.250.000" or "1,250,000 ₫".
+ * Returns undefined for empty cells and NaN for unreadable values.
+ */
+export function parseNumericCell(value: unknown): number | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  if (typeof value === "number") return value;
+
+  if (typeof value === "object" && "result" in (value as any)) {
+    return parseNumericCell((value as any).result);
+  }
+
+  const text = String(value)
+    .replace(/\s/g, "")
+    .replace(/(₫|đ|vnd)$/i, "");
+
+  if (text === "") return undefined;
+
+  // Thousand separators only (e.g. "1.250.000" or "1,250,000")
+  if (/^\d{1,3}([.,]\d{3})+$/.test(text)) {
+    return Number(text.replace(/[.,]/g, ""));
+  }
+
+  return Number(text.replace(",", "."));
+}
+
+/**
+ * Extract the supplier code from an exported target-price file name
+ * Expected pattern: {period}_{region}_{supplierCode}.xlsx
+ */
+export function getSupplierCodeFromFileName(fileName: string): string | undefined {
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+  const parts = baseName.split("_");
+  if (parts.length < 3) return undefined;
+
+  const supplierCode = parts[parts.length - 1].trim().toUpperCase();
+  return supplierCode || undefined;
+}
+
+/**
+ * Process a target-price workbook returned by a supplier
+ * Expected structure: sheet "Target Prices" (or the first sheet) with the
+ * TARGET_PRICE_HEADERS columns in row 1 and one product per row.
+ */
+export async function processCounterOfferFile(
+  file: File
+): Promise<CounterOfferParseResult> {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+  const supplierCode = getSupplierCodeFromFileName(file.name);
+
+  try {
+    const ExcelJS = await import("exceljs");
+
+    const arrayBuffer = await file.arrayBuffer();
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(arrayBuffer);
+
+    const sheet =
+      workbook.getWorksheet(TARGET_PRICE_SHEET_NAME) ?? workbook.worksheets[0];
+
+    if (!sheet) {
+      errors.push({
+        type: "error",
+        message: `Không tìm thấy sheet "${TARGET_PRICE_SHEET_NAME}"`,
+      });
+      return { success: false, supplierCode, lines: [], errors, warnings };
+    }
+
+    const rows = readSheetRows(sheet);
+
+    // Find column indexes from the header row
+    const normalize = (value: unknown) =>
+      String(value ?? "").trim().toLowerCase();
+    const columnIndexes: Partial<Record<keyof typeof TARGET_PRICE_HEADERS, number>> = {};
+
+    (rows[0] ?? []).forEach((cell, index) => {
+      const header = normalize(cell);
+      for (const [field, label] of Object.entries(TARGET_PRICE_HEADERS)) {
+        if (header === normalize(label)) {
+          columnIndexes[field as keyof typeof TARGET_PRICE_HEADERS] = index;
+        }
+      }
+    });
+
+    const missingColumns = (["productCode", "counterOffer"] as const)
+      .filter((field) => columnIndexes[field] === undefined)
+      .map((field) => TARGET_PRICE_HEADERS[field]);
+
+    if (missingColumns.length > 0) {
+      errors.push({
+        type: "error",
+        message: `Thiếu cột bắt buộc: ${missingColumns.join(", ")}`,
+      });
+      return { success: false, supplierCode, lines: [], errors, warnings };
+    }
+
+    if (columnIndexes.quotationCode === undefined && !supplierCode) {
+      errors.push({
+        type: "error",
+        message: `Thiếu cột "${TARGET_PRICE_HEADERS.quotationCode}" và không xác định được mã NCC từ tên file`,
+      });
+      return { success: false, supplierCode, lines: [], errors, warnings };
+    }
+
+    const readText = (row: unknown[], column?: number) => {
+      if (column === undefined) return undefined;
+      const value = row[column];
+      const text = value === null || value === undefined ? "" : String(value).trim();
+      return text || undefined;
+    };
+
+    const lines: CounterOfferLine[] = [];
+
+    for (let index = 1; index < rows.length; index++) {
+      const row = rows[index];
+      const rowNumber = index + 1;
+      const productCode = readText(row, columnIndexes.productCode);
+
+      // Skip empty rows
+      if (!productCode) continue;
+
+      const line: CounterOfferLine = {
+        row: rowNumber,
+        quotationCode: readText(row, columnIndexes.quotationCode)?.toUpperCase(),
+        productCode: productCode.toUpperCase(),
+        notes: readText(row, columnIndexes.supplierNotes),
+      };
+
+      if (columnIndexes.targetPrice !== undefined) {
+        const targetPrice = parseNumericCell(row[columnIndexes.targetPrice]);
+        if (targetPrice !== undefined && !isNaN(targetPrice)) {
+          line.targetPrice = targetPrice;
+        }
+      }
+
+      const counterOffer = parseNumericCell(row[columnIndexes.counterOffer!]);
+      if (counterOffer !== undefined) {
+        if (isNaN(counterOffer) || counterOffer < 0) {
+          line.error = `Giá đề xuất không hợp lệ tại dòng ${rowNumber}`;
+        } else {
+          line.counterOffer = counterOffer;
+        }
+      }
+
+      lines.push(line);
+    }
+
+    if (lines.length === 0) {
+      errors.push({
+        type: "error",
+        message: "Không tìm thấy sản phẩm nào trong file",
+      });
+      return { success: false, supplierCode, lines, errors, warnings };
+    }
+
+    if (lines.every((line) => line.counterOffer === undefined && !line.error)) {
+      warnings.push({
+        type: "warning",
+        message: `Nhà cung cấp chưa nhập "${TARGET_PRICE_HEADERS.counterOffer}" cho sản phẩm nào`,
+      });
+    }
+
+    return { success: true, supplierCode, lines, errors, warnings };
+  } catch (error) {
+    errors.push({
+      type: "error",
+      message: `Lỗi đọc file Excel: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    });
+    return { success: false, supplierCode, lines: [], errors, warnings };
+  }
+}
+
+// ==================== KITCHEN DEMAND WORKBOOK ====================
+
+/**
+ * Layout of the demand sheet exported by exportKitchenDemandFile. Kitchens
+ * fill the quantity column and import the file back, so the same headers
+ * drive both the export and processKitchenDemandFile.
+ */
+export const KITCHEN_DEMAND_SHEET_NAME = "Nhu cầu";
+
+export const KITCHEN_DEMAND_HEADERS = {
+  productCode: "Mã sản phẩm",
+  productName: "Tên sản phẩm",
+  specification: "Quy cách",
+  unit: "Đơn vị",
+  category: "Nhóm hàng",
+  quantity: "Số lượng",
+  notes: "Ghi chú",
+} as const;
+
+export interface KitchenDemandLine {
+  row: number;
+  productCode: string;
+  quantity?: number; // Undefined when the cell is empty - the product is left unchanged
+  notes?: string;
+  error?: string; // Set when the quantity cell cannot be read as a number
+}
+
+export interface KitchenDemandParseResult {
+  success: boolean;
+  lines: KitchenDemandLine[];
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Process a kitchen demand workbook
+ * Expected structure: sheet "Nhu cầu" (or the first sheet) with the
+ * KITCHEN_DEMAND_HEADERS columns in row 1 and one product per row.
+ */
+export async function processKitchenDemandFile(
+  file: File
+): Promise<KitchenDemandParseResult> {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  try {
+    const ExcelJS = await import("exceljs");
+
+    const arrayBuffer = await file.arrayBuffer();
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(arrayBuffer);
+
+    const sheet =
+      workbook.getWorksheet(KITCHEN_DEMAND_SHEET_NAME) ?? workbook.worksheets[0];
+
+    if (!sheet) {
+      errors.push({
+        type: "error",
+        message: `Không tìm thấy sheet "${KITCHEN_DEMAND_SHEET_NAME}"`,
+      });
+      return { success: false, lines: [], errors, warnings };
+    }
+
+    const rows = readSheetRows(sheet);
+
+    // Find column indexes from the header row
+    const normalize = (value: unknown) =>
+      String(value ?? "").trim().toLowerCase();
+    const columnIndexes: Partial<Record<keyof typeof KITCHEN_DEMAND_HEADERS, number>> = {};
+
+    (rows[0] ?? []).forEach((cell, index) => {
+      const header = normalize(cell);
+      for (const [field, label] of Object.entries(KITCHEN_DEMAND_HEADERS)) {
+        if (header === normalize(label)) {
+          columnIndexes[field as keyof typeof KITCHEN_DEMAND_HEADERS] = index;
+        }
+      }
+    });
+
+    const missingColumns = (["productCode", "quantity"] as const)
+      .filter((field) => columnIndexes[field] === undefined)
+      .map((field) => KITCHEN_DEMAND_HEADERS[field]);
+
+    if (missingColumns.length > 0) {
+      errors.push({
+        type: "error",
+        message: `Thiếu cột bắt buộc: ${missingColumns.join(", ")}`,
+      });
+      return { success: false, lines: [], errors, warnings };
+    }
+
+    const readText = (row: unknown[], column?: number) => {
+      if (column === undefined) return undefined;
+      const value = row[column];
+      const text = value === null || value === undefined ? "" : String(value).trim();
+      return text || undefined;
+    };
+
+    const lines: KitchenDemandLine[] = [];
+    const seenCodes = new Set<string>();
+
+    for (let index = 1; index < rows.length; index++) {
+      const row = rows[index];
+      const rowNumber = index + 1;
+      const productCode = readText(row, columnIndexes.productCode)?.toUpperCase();
+
+      // Skip empty rows
+      if (!productCode) continue;
+
+      if (seenCodes.has(productCode)) {
+        warnings.push({
+          type: "warning",
+          message: `Mã sản phẩm ${productCode} bị trùng, dùng số lượng tại dòng ${rowNumber}`,
+          row: rowNumber,
+        });
+      }
+      seenCodes.add(productCode);
+
+      const line: KitchenDemandLine = {
+        row: rowNumber,
+        productCode,
+        notes: readText(row, columnIndexes.notes),
+      };
+
+      const quantity = parseNumericCell(row[columnIndexes.quantity!]);
+      if (quantity !== undefined) {
+        if (isNaN(quantity) || quantity < 0) {
+          line.error = `Số lượng không hợp lệ tại dòng ${rowNumber}`;
+        } else {
+          line.quantity = quantity;
+        }
+      }
+
+      lines.push(line);
+    }
+
+    if (lines.length === 0) {
+      errors.push({
+        type: "error",
+        message: "Không tìm thấy sản phẩm nào trong file",
+      });
+      return { success: false, lines, errors, warnings };
+    }
+
+    if (lines.every((line) => line.quantity === undefined && !line.error)) {
+      warnings.push({
+        type: "warning",
+        message: `Chưa nhập "${KITCHEN_DEMAND_HEADERS.quantity}" cho sản phẩm nào`,
+      });
+    }
+
+    return { success: true, lines, errors, warnings };
+  } catch (error) {
+    errors.push({
+      type: "error",
+      message: `Lỗi đọc file Excel: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    });
+    return { success: false, lines: [], errors, warnings };
+  }
+}
+
+// ==================== SUPPLIER INVOICE FILES ====================
+
+/**
+ * Columns of the invoice lines imported by accounting (Excel or CSV). The
+ * invoice number is optional; every other column is required.
+ */
+export const INVOICE_HEADERS = {
+  supplierCode: "Mã NCC",
+  productCode: "Mã sản phẩm",
+  kitchenCode: "Mã bếp",
+  quantity: "Số lượng",
+  unitPrice: "Đơn giá",
+  invoiceDate: "Ngày hóa đơn",
+  invoiceNumber: "Số hóa đơn",
+} as const;
+
+export interface InvoiceFileLine {
+  row: number;
+  supplierCode: string;
+  productCode: string;
+  kitchenCode: string;
+  quantity: number;
+  unitPrice: number;
+  invoiceDate: Date;
+  invoiceNumber?: string;
+}
+
+export interface InvoiceParseResult {
+  success: boolean;
+  lines: InvoiceFileLine[];
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells (with "" escapes and line breaks), CRLF line endings
+ * and a UTF-8 BOM. The delimiter (comma, semicolon or tab) is taken from the
+ * header line.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Convert a cell value to a date.
+ * Accepts Excel dates and text as dd/mm/yyyy, dd-mm-yyyy or yyyy-mm-dd.
+ * Returns undefined for empty cells and null for unreadable values.
+ */
+export function parseDateCell(value: unknown): Date | null | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === "object" && "result" in (value as any)) {
+    return parseDateCell((value as any).result);
+  }
+
+  const text = String(value).trim();
+  if (text === "") return undefined;
+
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const yearFirst = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const [year, month, day] = dayFirst
+    ? [Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1])]
+    : yearFirst
+      ? [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])]
+      : [NaN, NaN, NaN];
+
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Process a supplier invoice file (.xlsx or .csv)
+ * Expected structure: INVOICE_HEADERS columns in the first row (first sheet
+ * for workbooks) and one invoice line per row. Rows that cannot be read are
+ * reported as errors and left out of the result.
+ */
+export async function processInvoiceFile(file: File): Promise<InvoiceParseResult> {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  try {
+    let rows: unknown[][];
+
+    if (file.name.toLowerCase().endsWith(".csv")) {
+      rows = parseCsvRows(await file.text());
+    } else {
+      const ExcelJS = await import("exceljs");
+
+      const arrayBuffer = await file.arrayBuffer();
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(arrayBuffer);
+
+      const sheet = workbook.worksheets[0];
+      if (!sheet) {
+        errors.push({ type: "error", message: "File không có sheet nào" });
+        return { success: false, lines: [], errors, warnings };
+      }
+
+      rows = readSheetRows(sheet);
+    }
+
+    // Find column indexes from the header row
+    const normalize = (value: unknown) => String(value ?? "").trim().toLowerCase();
+    const columnIndexes: Partial<Record<keyof typeof INVOICE_HEADERS, number>> = {};
+
+    (rows[0] ?? []).forEach((cell, index) => {
+      const header = normalize(cell);
+      for (const [field, label] of Object.entries(INVOICE_HEADERS)) {
+        if (header === normalize(label)) {
+          columnIndexes[field as keyof typeof INVOICE_HEADERS] = index;
+        }
+      }
+    });
+
+    const missingColumns = (
+      ["supplierCode", "productCode", "kitchenCode", "quantity", "unitPrice", "invoiceDate"] as const
+    )
+      .filter((field) => columnIndexes[field] === undefined)
+      .map((field) => INVOICE_HEADERS[field]);
+
+    if (missingColumns.length > 0) {
+      errors.push({
+        type: "error",
+        message: `Thiếu cột bắt buộc: ${missingColumns.join(", ")}`,
+      });
+      return { success: false, lines: [], errors, warnings };
+    }
+
+    const readCell = (row: unknown[], field: keyof typeof INVOICE_HEADERS) => {
+      const column = columnIndexes[field];
+      return column === undefined ? undefined : row[column];
+    };
+    const readText = (row: unknown[], field: keyof typeof INVOICE_HEADERS) => {
+      const value = readCell(row, field);
+      const text = value === null || value === undefined ? "" : String(value).trim();
+      return text || undefined;
+    };
+
+    const lines: InvoiceFileLine[] = [];
+
+    rows.slice(1).forEach((row, index) => {
+      const rowNumber = index + 2;
+      const supplierCode = readText(row, "supplierCode")?.toUpperCase();
+      const productCode = readText(row, "productCode")?.toUpperCase();
+      const kitchenCode = readText(row, "kitchenCode")?.toUpperCase();
+
+      // Skip empty rows
+      if (!supplierCode && !productCode && !kitchenCode) return;
+
+      if (!supplierCode || !productCode || !kitchenCode) {
+        errors.push({
+          type: "error",
+          message: `Dòng ${rowNumber}: thiếu mã NCC, mã sản phẩm hoặc mã bếp`,
+          row: rowNumber,
+        });
+        return;
+      }
+
+      const quantity = parseNumericCell(readCell(row, "quantity"));
+      const unitPrice = parseNumericCell(readCell(row, "unitPrice"));
+      const invoiceDate = parseDateCell(readCell(row, "invoiceDate"));
+
+      if (quantity === undefined || isNaN(quantity) || quantity <= 0) {
+        errors.push({ type: "error", message: `Dòng ${rowNumber}: số lượng không hợp lệ`, row: rowNumber });
+        return;
+      }
+      if (unitPrice === undefined || isNaN(unitPrice) || unitPrice < 0) {
+        errors.push({ type: "error", message: `Dòng ${rowNumber}: đơn giá không hợp lệ`, row: rowNumber });
+        return;
+      }
+      if (!invoiceDate) {
+        errors.push({ type: "error", message: `Dòng ${rowNumber}: ngày hóa đơn không hợp lệ`, row: rowNumber });
+        return;
+      }
+
+      lines.push({
+        row: rowNumber,
+        supplierCode,
+        productCode,
+        kitchenCode,
+        quantity,
+        unitPrice,
+        invoiceDate,
+        invoiceNumber: readText(row, "invoiceNumber"),
+      });
+    });
+
+    if (lines.length === 0 && errors.length === 0) {
+      errors.push({ type: "error", message: "Không tìm thấy dòng hóa đơn nào trong file" });
+    }
+
+    return { success: lines.length > 0, lines, errors, warnings };
+  } catch (error) {
+    errors.push({
+      type: "error",
+      message: `Lỗi đọc file: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+    return { success: false, lines: [], errors, warnings };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Import Jobs
+ *
+ * Every quotation or product Excel import is logged as an import job with its
+ * uploaded files and messages. This module holds the pure parts: the final
+ * status of a run and the annotated error workbook, which is the uploaded
+ * sheet with the errors of each row in an extra column.
+ */
+
+export const IMPORT_JOB_TYPES = ['quotations', 'products'] as const;
+export type ImportJobType = (typeof IMPORT_JOB_TYPES)[number];
+
+export const IMPORT_JOB_STATUSES = ['running', 'completed', 'partial', 'failed'] as const;
+export type ImportJobStatus = (typeof IMPORT_JOB_STATUSES)[number];
+
+export const IMPORT_JOB_TYPE_LABELS: Record<ImportJobType, string> = {
+  quotations: 'Báo giá',
+  products: 'Hàng hóa',
+};
+
+export const ERROR_COLUMN_HEADER = 'Lỗi';
+
+// Excel limits worksheet names to 31 characters without * ? : \ / [ ]
+const WORKSHEET_NAME_MAX_LENGTH = 31;
+const INVALID_WORKSHEET_NAME_CHARS = /[*?:\\/[\]]/g;
+
+// An import message located in the uploaded file, where known
+export interface LocatedImportMessage {
+  sheetName: string | null;
+  rowNumber: number | null; // 1-based sheet row
+  message: string;
+}
+
+/**
+ * Final status of an import run from what it wrote and how many errors it hit
+ * A run that wrote nothing and hit errors failed; one that wrote some of its
+ * records is partial.
+ */
+export function getImportJobStatus(
+  writtenCount: number,
+  errorCount: number
+): Exclude<ImportJobStatus, 'running'> {
+  if (errorCount === 0) return 'completed';
+  return writtenCount > 0 ? 'partial' : 'failed';
+}
+
+/**
+ * Error messages per row of one sheet, several messages of a row joined
+ * Messages of other sheets and without a row are left out.
+ */
+export function getRowErrorMessages(
+  messages: LocatedImportMessage[],
+  sheetName: string
+): Map<number, string> {
+  const byRow = new Map<number, string[]>();
+
+  messages.forEach((message) => {
+    if (message.rowNumber === null || message.sheetName !== sheetName) return;
+    byRow.set(message.rowNumber, [...(byRow.get(message.rowNumber) ?? []), message.message]);
+  });
+
+  return new Map(Array.from(byRow, ([rowNumber, rowMessages]) => [rowNumber, rowMessages.join('; ')]));
+}
+
+/**
+ * Rows of a sheet with an error column after its widest row
+ * The header row gets the column title; rows are padded so the error column
+ * lines up, and rows the sheet does not reach are added.
+ */
+export function annotateSheetRows(
+  rows: unknown[][],
+  rowErrors: Map<number, string>,
+  headerRow: number = 1
+): { rows: unknown[][]; errorColumn: number } {
+  const lastRow = Math.max(rows.length, headerRow, ...rowErrors.keys());
+  const errorColumn = Math.max(0, ...rows.map((row) => row.length)) + 1;
+  const annotated: unknown[][] = [];
+
+  for (let rowNumber = 1; rowNumber <= lastRow; rowNumber++) {
+    const row = [...(rows[rowNumber - 1] ?? [])];
+    while (row.length < errorColumn - 1) row.push(null);
+
+    const rowError = rowErrors.get(rowNumber);
+    if (rowError) {
+      row.push(rowError);
+    } else if (rowNumber === headerRow) {
+      row.push(ERROR_COLUMN_HEADER);
+    }
+
+    annotated.push(row);
+  }
+
+  return { rows: annotated, errorColumn };
+}
+
+/**
+ * Worksheet names Excel accepts for the uploaded sheets, in the same order
+ * Invalid characters become underscores, long names are cut, and names that
+ * clash with a reserved name or an earlier sheet (ignoring case) get a number.
+ */
+export function toWorksheetNames(sheetNames: string[], reservedNames: string[] = []): string[] {
+  const taken = new Set(reservedNames.map((name) => name.toLowerCase()));
+
+  return sheetNames.map((sheetName) => {
+    const baseName =
+      sheetName.replace(INVALID_WORKSHEET_NAME_CHARS, '_').replace(/^'+|'+$/g, '').trim() || 'Sheet';
+    let name = baseName.slice(0, WORKSHEET_NAME_MAX_LENGTH);
+
+    for (let copy = 2; taken.has(name.toLowerCase()); copy++) {
+      const suffix = ` (${copy})`;
+      name = baseName.slice(0, WORKSHEET_NAME_MAX_LENGTH - suffix.length) + suffix;
+    }
+
+    taken.add(name.toLowerCase());
+    return name;
+  });
+}
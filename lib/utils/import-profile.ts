@@ -0,0 +1,149 @@
+/**
+ * Supplier Import Profiles
+ *
+ * Suppliers that do not use the standard quotation template get an import
+ * profile: the sheet to read, the header row and the column of each field.
+ * These helpers detect the header row and suggest the column mapping from the
+ * header texts, so the mapping wizard starts from a filled-in profile.
+ */
+
+export const IMPORT_PROFILE_FIELDS = [
+  'productCode',
+  'initialPrice',
+  'vatRate',
+  'unit',
+  'quantity',
+  'notes',
+] as const;
+
+export type ImportProfileField = (typeof IMPORT_PROFILE_FIELDS)[number];
+
+export const REQUIRED_IMPORT_FIELDS: readonly ImportProfileField[] = ['productCode', 'initialPrice'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportProfileField, string> = {
+  productCode: 'Mã sản phẩm',
+  initialPrice: 'Đơn giá',
+  vatRate: 'VAT %',
+  unit: 'Đơn vị tính',
+  quantity: 'Số lượng',
+  notes: 'Ghi chú',
+};
+
+// 1-based column of each mapped field
+export type ImportColumnMapping = Partial<Record<ImportProfileField, number>>;
+
+// Header texts seen in supplier files, most specific first (compared without diacritics)
+const HEADER_SYNONYMS: Record<ImportProfileField, string[]> = {
+  productCode: ['ma san pham', 'ma sp', 'ma hang', 'ma vat tu', 'product code', 'item code', 'sku'],
+  initialPrice: ['don gia', 'gia bao', 'gia ban', 'unit price', 'price', 'gia'],
+  vatRate: ['vat', 'thue gtgt', 'thue suat', 'thue'],
+  unit: ['don vi tinh', 'dvt', 'don vi', 'uom', 'unit'],
+  quantity: ['so luong', 'sl', 'qty', 'quantity'],
+  notes: ['ghi chu', 'note', 'notes', 'remark'],
+};
+
+// Rows scanned for the header when detecting it
+const HEADER_SCAN_ROWS = 20;
+
+/**
+ * Lowercase header text without Vietnamese diacritics or punctuation
+ */
+export function normalizeHeader(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * How well a header matches a synonym: exact 3, leading words 2, inner words 1
+ */
+function matchScore(header: string, synonym: string): number {
+  if (!header) return 0;
+  if (header === synonym) return 3;
+  if (header.startsWith(`${synonym} `)) return 2;
+  if (` ${header} `.includes(` ${synonym} `)) return 1;
+  return 0;
+}
+
+/**
+ * Suggest the column of each field from a header row
+ * Every column maps to at most one field; the strongest matches win.
+ */
+export function suggestColumnMapping(headers: unknown[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const candidates: { field: ImportProfileField; column: number; score: number; rank: number }[] = [];
+
+  IMPORT_PROFILE_FIELDS.forEach((field) => {
+    HEADER_SYNONYMS[field].forEach((synonym, rank) => {
+      normalized.forEach((header, index) => {
+        const score = matchScore(header, synonym);
+        if (score > 0) {
+          candidates.push({ field, column: index + 1, score, rank });
+        }
+      });
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score || a.rank - b.rank || a.column - b.column);
+
+  const mapping: ImportColumnMapping = {};
+  const usedColumns = new Set<number>();
+
+  for (const candidate of candidates) {
+    if (mapping[candidate.field] !== undefined || usedColumns.has(candidate.column)) continue;
+    mapping[candidate.field] = candidate.column;
+    usedColumns.add(candidate.column);
+  }
+
+  return mapping;
+}
+
+/**
+ * 1-based row most likely to hold the headers - the one mapping the most
+ * fields, preferring rows that map the required ones. Defaults to the first row.
+ */
+export function detectHeaderRow(rows: unknown[][]): number {
+  let bestRow = 1;
+  let bestScore = 0;
+
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const mapping = suggestColumnMapping(row);
+    const mapped = Object.keys(mapping).length;
+    const required = REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] !== undefined).length;
+    const score = required * 10 + mapped;
+
+    if (mapped >= 2 && score > bestScore) {
+      bestRow = index + 1;
+      bestScore = score;
+    }
+  });
+
+  return bestRow;
+}
+
+/**
+ * Required fields the mapping leaves unmapped
+ */
+export function getMissingRequiredFields(mapping: ImportColumnMapping): ImportProfileField[] {
+  return REQUIRED_IMPORT_FIELDS.filter((field) => !mapping[field]);
+}
+
+/**
+ * Spreadsheet column letter of a 1-based column (1 -> A, 27 -> AA)
+ */
+export function getColumnLetter(column: number): string {
+  let letter = '';
+  let remaining = column;
+
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    letter = String.fromCharCode(65 + offset) + letter;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return letter;
+}
@@ -0,0 +1,164 @@
+/**
+ * Invoice Price Compliance
+ *
+ * Supplier invoice lines are checked against the approved price of the
+ * supplier for the product in the invoice's period and the kitchen's region.
+ * Lines above the approved price are overcharges; lines for products without
+ * an approved price from the supplier are unapproved.
+ */
+
+export const INVOICE_LINE_STATUSES = ['compliant', 'overcharged', 'unapproved'] as const;
+
+export type InvoiceLineStatus = (typeof INVOICE_LINE_STATUSES)[number];
+
+// Differences below one dong come from rounding on the invoice
+export const INVOICE_PRICE_TOLERANCE = 1;
+
+export interface InvoiceLineCheck {
+  status: InvoiceLineStatus;
+  priceDifference: number | null; // Invoiced - approved unit price, null when unapproved
+  overchargeAmount: number; // (Invoiced - approved) × quantity, 0 unless overcharged
+}
+
+export interface InvoicePeriodRange {
+  code: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+// Identifies what an imported invoice line covers
+export interface InvoiceImportKey {
+  sourceFile: string;
+  period: string;
+  region: string;
+  supplierId: number;
+}
+
+export interface InvoiceSummaryInput {
+  supplierId: number;
+  quantity: number;
+  unitPrice: number;
+  status: InvoiceLineStatus;
+  overchargeAmount: number;
+}
+
+export interface SupplierInvoiceSummary {
+  supplierId: number;
+  lineCount: number;
+  overchargedLines: number;
+  unapprovedLines: number;
+  invoicedAmount: number;
+  overchargeAmount: number;
+  unapprovedAmount: number; // Invoiced amount of unapproved lines
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Calendar day as yyyymmdd, so period boundaries include their whole last day
+const toDayNumber = (date: Date) =>
+  date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+
+/**
+ * Compare an invoiced unit price with the approved price
+ */
+export function checkInvoiceLine(
+  quantity: number,
+  unitPrice: number,
+  approvedPrice: number | null,
+  tolerance: number = INVOICE_PRICE_TOLERANCE
+): InvoiceLineCheck {
+  if (approvedPrice === null || approvedPrice <= 0) {
+    return { status: 'unapproved', priceDifference: null, overchargeAmount: 0 };
+  }
+
+  const priceDifference = round2(unitPrice - approvedPrice);
+
+  if (priceDifference < tolerance) {
+    return { status: 'compliant', priceDifference, overchargeAmount: 0 };
+  }
+
+  return {
+    status: 'overcharged',
+    priceDifference,
+    overchargeAmount: round2(priceDifference * quantity),
+  };
+}
+
+/**
+ * Period whose date range contains the invoice date
+ * Periods no longer overlap, but legacy rows may: the latest start wins, then the
+ * highest code, so the same invoice always lands in the same period.
+ */
+export function findPeriodForDate(
+  periods: InvoicePeriodRange[],
+  date: Date
+): string | null {
+  const day = toDayNumber(date);
+
+  const matches = periods
+    .filter((period) => toDayNumber(period.startDate) <= day && day <= toDayNumber(period.endDate))
+    .sort(
+      (a, b) =>
+        b.startDate.getTime() - a.startDate.getTime() || b.code.localeCompare(a.code)
+    );
+
+  return matches[0]?.code ?? null;
+}
+
+/**
+ * Whether an earlier invoice line is replaced by re-importing a file
+ * Only lines of the same file name for a period, region and supplier of the
+ * new lines are replaced - a same-named file of another region or supplier
+ * is kept.
+ */
+export function isReplacedByInvoiceImport(
+  line: InvoiceImportKey,
+  newLines: InvoiceImportKey[]
+): boolean {
+  return newLines.some(
+    (newLine) =>
+      newLine.sourceFile === line.sourceFile &&
+      newLine.period === line.period &&
+      newLine.region === line.region &&
+      newLine.supplierId === line.supplierId
+  );
+}
+
+/**
+ * Totals per supplier, ordered by overpayment (largest first)
+ */
+export function summarizeInvoicesBySupplier(
+  lines: InvoiceSummaryInput[]
+): SupplierInvoiceSummary[] {
+  const summaries = new Map<number, SupplierInvoiceSummary>();
+
+  for (const line of lines) {
+    const summary = summaries.get(line.supplierId) ?? {
+      supplierId: line.supplierId,
+      lineCount: 0,
+      overchargedLines: 0,
+      unapprovedLines: 0,
+      invoicedAmount: 0,
+      overchargeAmount: 0,
+      unapprovedAmount: 0,
+    };
+    const amount = line.quantity * line.unitPrice;
+
+    summary.lineCount++;
+    summary.invoicedAmount = round2(summary.invoicedAmount + amount);
+
+    if (line.status === 'overcharged') {
+      summary.overchargedLines++;
+      summary.overchargeAmount = round2(summary.overchargeAmount + line.overchargeAmount);
+    } else if (line.status === 'unapproved') {
+      summary.unapprovedLines++;
+      summary.unapprovedAmount = round2(summary.unapprovedAmount + amount);
+    }
+
+    summaries.set(line.supplierId, summary);
+  }
+
+  return [...summaries.values()].sort(
+    (a, b) => b.overchargeAmount - a.overchargeAmount || b.unapprovedAmount - a.unapprovedAmount
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Kitchen Budgets
+ *
+ * A kitchen's planned spend for a period is its demand priced at the approved
+ * prices (incl. VAT) of the suppliers serving it: split awards weight the
+ * suppliers' prices by their shares, otherwise the best price applies.
+ * Planned spend is compared with the kitchen's budget, overall and per category.
+ */
+
+export type BudgetVarianceStatus = 'within' | 'warning' | 'over';
+
+// Planned spend at or above this share of the budget is flagged before it overruns
+export const BUDGET_WARNING_PERCENT = 90;
+
+export interface BudgetVariance {
+  variance: number; // Budget - planned spend, negative when over budget
+  usagePercent: number | null; // Planned spend as a share of the budget, null for a zero budget
+  status: BudgetVarianceStatus;
+}
+
+export interface SpendDemandLine {
+  teamId: number;
+  productId: number;
+  category: string;
+  quantity: number;
+}
+
+export interface SpendPrice {
+  supplierId: number;
+  productId: number;
+  unitPriceWithVat: number;
+}
+
+export interface SpendShare {
+  supplierId: number;
+  sharePercent: number;
+}
+
+export interface KitchenPlannedSpend {
+  total: number;
+  byCategory: Record<string, number>;
+  unpricedProducts: number; // Demand lines without an approved price from a serving supplier
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare planned spend with a budget
+ */
+export function getBudgetVariance(
+  budget: number,
+  plannedSpend: number,
+  warningPercent: number = BUDGET_WARNING_PERCENT
+): BudgetVariance {
+  const variance = round2(budget - plannedSpend);
+  const usagePercent = budget > 0 ? Math.round((plannedSpend / budget) * 1000) / 10 : null;
+
+  const status: BudgetVarianceStatus =
+    plannedSpend > budget
+      ? 'over'
+      : usagePercent !== null && usagePercent >= warningPercent
+        ? 'warning'
+        : 'within';
+
+  return { variance, usagePercent, status };
+}
+
+/**
+ * Unit price (incl. VAT) a kitchen pays for a product, or null without a
+ * serving supplier's approved price
+ */
+export function getKitchenUnitPrice(
+  prices: SpendPrice[],
+  servedSupplierIds: Set<number>,
+  allocations: SpendShare[] = []
+): number | null {
+  const candidates = new Map(
+    prices
+      .filter((price) => servedSupplierIds.has(price.supplierId))
+      .map((price) => [price.supplierId, price.unitPriceWithVat])
+  );
+
+  if (candidates.size === 0) return null;
+
+  const shares = allocations.filter(
+    (allocation) => candidates.has(allocation.supplierId) && allocation.sharePercent > 0
+  );
+  const totalShare = shares.reduce((sum, share) => sum + share.sharePercent, 0);
+
+  if (totalShare > 0) {
+    return (
+      shares.reduce(
+        (sum, share) => sum + candidates.get(share.supplierId)! * share.sharePercent,
+        0
+      ) / totalShare
+    );
+  }
+
+  return Math.min(...candidates.values());
+}
+
+/**
+ * Planned spend per kitchen from its demand lines
+ */
+export function computePlannedSpend(
+  demands: SpendDemandLine[],
+  prices: SpendPrice[],
+  servedSuppliers: Map<number, Set<number>>,
+  allocations: Map<number, SpendShare[]> = new Map()
+): Map<number, KitchenPlannedSpend> {
+  const pricesByProduct = new Map<number, SpendPrice[]>();
+  prices.forEach((price) => {
+    const list = pricesByProduct.get(price.productId) ?? [];
+    list.push(price);
+    pricesByProduct.set(price.productId, list);
+  });
+
+  const spendByKitchen = new Map<number, KitchenPlannedSpend>();
+
+  for (const demand of demands) {
+    const spend = spendByKitchen.get(demand.teamId) ?? {
+      total: 0,
+      byCategory: {},
+      unpricedProducts: 0,
+    };
+    spendByKitchen.set(demand.teamId, spend);
+
+    const unitPrice = getKitchenUnitPrice(
+      pricesByProduct.get(demand.productId) ?? [],
+      servedSuppliers.get(demand.teamId) ?? new Set(),
+      allocations.get(demand.productId)
+    );
+
+    if (unitPrice === null) {
+      spend.unpricedProducts++;
+      continue;
+    }
+
+    const amount = demand.quantity * unitPrice;
+    spend.total = round2(spend.total + amount);
+    spend.byCategory[demand.category] = round2((spend.byCategory[demand.category] ?? 0) + amount);
+  }
+
+  return spendByKitchen;
+}
@@ -0,0 +1,154 @@
+/**
+ * Period Lifecycle
+ *
+ * A quotation period moves forward through open → collecting → negotiating → closed.
+ * Quotations can be imported while the period is open or collecting and its
+ * submission deadline has not passed; quotations already in negotiation can be
+ * re-quoted until it closes. Approvals are blocked once it is closed.
+ * Kitchens enter their demand while the period is open or collecting, until
+ * they submit it. Period date ranges never overlap, so each date belongs to one period.
+ */
+
+export const PERIOD_STATUSES = ['open', 'collecting', 'negotiating', 'closed'] as const;
+
+export type PeriodStatus = (typeof PERIOD_STATUSES)[number];
+
+export interface PeriodLifecycleState {
+  code: string;
+  status: string;
+  submissionDeadline: Date | null;
+}
+
+export interface PeriodDateRange {
+  code: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+const NEXT_STATUS: Record<PeriodStatus, PeriodStatus | null> = {
+  open: 'collecting',
+  collecting: 'negotiating',
+  negotiating: 'closed',
+  closed: null,
+};
+
+// Statuses in which suppliers may still submit quotations
+const IMPORT_STATUSES: readonly string[] = ['open', 'collecting'];
+
+// Statuses in which quotations in negotiation may still be re-quoted
+const REQUOTE_STATUSES: readonly string[] = ['open', 'collecting', 'negotiating'];
+
+// Statuses in which kitchens may still enter demand
+const DEMAND_STATUSES: readonly string[] = ['open', 'collecting'];
+
+export function isPeriodStatus(status: string): status is PeriodStatus {
+  return (PERIOD_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * The status a period moves to next, or null once it is closed
+ */
+export function getNextPeriodStatus(status: string): PeriodStatus | null {
+  return isPeriodStatus(status) ? NEXT_STATUS[status] : null;
+}
+
+/**
+ * Periods only move one step forward; a closed period stays closed
+ */
+export function canTransitionPeriod(from: string, to: string): boolean {
+  return getNextPeriodStatus(from) === to;
+}
+
+/**
+ * Why quotations cannot be imported into the period, or null when they can
+ */
+export function getImportBlockReason(
+  period: PeriodLifecycleState | null | undefined,
+  now: Date = new Date()
+): string | null {
+  if (!period) {
+    return 'Kỳ báo giá chưa được tạo';
+  }
+
+  if (!IMPORT_STATUSES.includes(period.status)) {
+    return `Kỳ báo giá ${period.code} đã ngừng nhận báo giá`;
+  }
+
+  if (period.submissionDeadline && now.getTime() > period.submissionDeadline.getTime()) {
+    return `Kỳ báo giá ${period.code} đã quá hạn nộp báo giá`;
+  }
+
+  return null;
+}
+
+/**
+ * Why quotations in negotiation cannot be re-quoted, or null when they can
+ * Re-quotes are negotiation rounds, so the submission deadline does not apply.
+ */
+export function getRequoteBlockReason(
+  period: PeriodLifecycleState | null | undefined
+): string | null {
+  if (!period) {
+    return 'Kỳ báo giá chưa được tạo';
+  }
+
+  if (!REQUOTE_STATUSES.includes(period.status)) {
+    return `Kỳ báo giá ${period.code} đã ngừng nhận báo giá`;
+  }
+
+  return null;
+}
+
+/**
+ * Why quotations of the period cannot be approved, or null when they can
+ * Periods without a lifecycle record are not restricted.
+ */
+export function getApprovalBlockReason(
+  period: PeriodLifecycleState | null | undefined
+): string | null {
+  if (period && period.status === 'closed') {
+    return `Kỳ báo giá ${period.code} đã đóng - không thể thay đổi phê duyệt`;
+  }
+
+  return null;
+}
+
+/**
+ * Why a kitchen cannot edit its demand for the period, or null when it can
+ * submissionStatus is the kitchen's demand submission state, null when never submitted.
+ */
+export function getDemandBlockReason(
+  period: PeriodLifecycleState | null | undefined,
+  submissionStatus: string | null | undefined
+): string | null {
+  if (!period) {
+    return 'Kỳ báo giá chưa được tạo';
+  }
+
+  if (!DEMAND_STATUSES.includes(period.status)) {
+    return `Kỳ báo giá ${period.code} đã ngừng nhận nhu cầu`;
+  }
+
+  if (submissionStatus === 'submitted') {
+    return 'Nhu cầu đã được gửi - liên hệ bộ phận thu mua để mở lại';
+  }
+
+  return null;
+}
+
+/**
+ * First period whose date range shares at least one day with the given range
+ * Both ranges include their start and end dates.
+ */
+export function findOverlappingPeriod<T extends PeriodDateRange>(
+  range: Pick<PeriodDateRange, 'startDate' | 'endDate'>,
+  periods: T[]
+): T | null {
+  return (
+    periods.find(
+      (period) =>
+        period.startDate.getTime() <= range.endDate.getTime() &&
+        range.startDate.getTime() <= period.endDate.getTime()
+    ) ?? null
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Price Anomaly Detection
+ *
+ * Flags suspicious quoted prices during import by comparing them with:
+ * - the supplier's previous approved price for the product
+ * - the regional median of approved prices (price_history)
+ * - products.basePrice
+ *
+ * A price that differs from a reference by a power of ten (10×, 100×, ...)
+ * is reported as a unit typo instead of a plain jump.
+ */
+
+export const PRICE_ANOMALY_TYPES = [
+  'zero_price',
+  'unit_typo',
+  'jump_vs_previous',
+  'jump_vs_median',
+  'jump_vs_base',
+] as const;
+
+export type PriceAnomalyType = (typeof PRICE_ANOMALY_TYPES)[number];
+
+// Deviation above which a price counts as a jump (30%)
+export const PRICE_JUMP_THRESHOLD = 0.3;
+
+// Tolerance around a power of ten for unit typos, in log10 units (~±25%)
+const UNIT_TYPO_TOLERANCE = 0.1;
+
+export interface PriceAnomalyReferences {
+  previousApprovedPrice?: number | null;
+  regionalMedianPrice?: number | null;
+  basePrice?: number | null;
+}
+
+export interface PriceAnomaly {
+  type: PriceAnomalyType;
+  referencePrice: number | null;
+  deviationPercent: number | null; // (price - reference) / reference * 100
+  message: string;
+}
+
+const REFERENCES = [
+  {
+    key: 'previousApprovedPrice',
+    type: 'jump_vs_previous',
+    label: 'giá duyệt kỳ trước của NCC',
+  },
+  {
+    key: 'regionalMedianPrice',
+    type: 'jump_vs_median',
+    label: 'giá trung vị khu vực',
+  },
+  {
+    key: 'basePrice',
+    type: 'jump_vs_base',
+    label: 'giá cơ sở',
+  },
+] as const;
+
+/**
+ * Check whether a price ratio is close to a power of ten other than 1
+ */
+export function isUnitTypoRatio(ratio: number): boolean {
+  if (!(ratio > 0)) return false;
+
+  const magnitude = Math.log10(ratio);
+  const nearest = Math.round(magnitude);
+
+  return nearest !== 0 && Math.abs(magnitude - nearest) <= UNIT_TYPO_TOLERANCE;
+}
+
+/**
+ * Detect anomalies of one quoted price
+ * Returns an empty array when the price looks normal or has no references.
+ */
+export function detectPriceAnomalies(
+  price: number | null | undefined,
+  references: PriceAnomalyReferences
+): PriceAnomaly[] {
+  if (price === null || price === undefined || price <= 0) {
+    return [
+      {
+        type: 'zero_price',
+        referencePrice: null,
+        deviationPercent: null,
+        message: 'Giá bằng 0 hoặc bị bỏ trống',
+      },
+    ];
+  }
+
+  const anomalies: PriceAnomaly[] = [];
+
+  for (const reference of REFERENCES) {
+    const referencePrice = references[reference.key];
+    if (!referencePrice || referencePrice <= 0) continue;
+
+    const ratio = price / referencePrice;
+    const deviationPercent = Math.round((ratio - 1) * 1000) / 10;
+
+    if (isUnitTypoRatio(ratio)) {
+      // One unit typo is enough - the other references would repeat it
+      if (!anomalies.some((anomaly) => anomaly.type === 'unit_typo')) {
+        const factor = ratio >= 1 ? Math.round(ratio) : Math.round(1 / ratio);
+        anomalies.push({
+          type: 'unit_typo',
+          referencePrice,
+          deviationPercent,
+          message: `${ratio >= 1 ? `Giá gấp ${factor} lần` : `Giá chỉ bằng 1/${factor}`} ${reference.label} - có thể nhập sai đơn vị`,
+        });
+      }
+      continue;
+    }
+
+    if (Math.abs(ratio - 1) > PRICE_JUMP_THRESHOLD) {
+      anomalies.push({
+        type: reference.type,
+        referencePrice,
+        deviationPercent,
+        message: `Giá ${deviationPercent > 0 ? 'cao hơn' : 'thấp hơn'} ${Math.abs(deviationPercent)}% so với ${reference.label}`,
+      });
+    }
+  }
+
+  return anomalies;
+}
@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import type {
+  KitchenDemandLine,
+  NegotiationRoundEntry,
+} from '@/lib/types/quote-comparison.types';
+import type { PriceAnomaly } from './price-anomaly';
 
 // Type definitions for price calculations
 export interface PriceItem {
@@ -29,6 +34,9 @@ export interface ComparisonMetrics {
   variancePercentage?: number; // Percentage change compared to previous approved price
   varianceTrend?: 'up' | 'down' | 'stable'; // Price trend indicator
   previousPriceFromThisSupplier?: number; // This supplier's price from previous period
+  negotiationHistory?: NegotiationRoundEntry[]; // Recorded negotiation rounds for this quote item
+  priceAnomalies?: PriceAnomaly[]; // Suspicious-price flags raised at import
+  awardSharePercent?: number; // Split-award share of the demand, when allocated
 }
 
 export interface ProductComparison {
@@ -40,7 +48,9 @@ export interface ProductComparison {
   category: string; // Product category for grouping
   quantity: number;
   quantitySource: 'kitchen_demand' | 'base_quantity';
+  demandBreakdown?: KitchenDemandLine[]; // Per-kitchen demand summed into quantity
   baseQuantity: number;
+  basePrice?: number | null; // Static reference price from the products table
   suppliers: Record<number, PriceItem & ComparisonMetrics>;
   bestSupplierId?: number;
   bestPrice?: number;
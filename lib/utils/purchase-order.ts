@@ -0,0 +1,126 @@
+/**
+ * Purchase Orders
+ *
+ * Orders are generated per kitchen × supplier from approved prices and the
+ * kitchen's demand, then move forward through draft → sent → confirmed → received.
+ * Split awards divide a kitchen's demand between suppliers by their shares.
+ */
+
+export const PURCHASE_ORDER_STATUSES = ['draft', 'sent', 'confirmed', 'received'] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export interface OrderShare {
+  supplierId: number;
+  sharePercent: number;
+}
+
+export interface OrderQuantityShare extends OrderShare {
+  quantity: number;
+}
+
+export interface OrderLineAmounts {
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isPurchaseOrderStatus(status: string): status is PurchaseOrderStatus {
+  return (PURCHASE_ORDER_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * The status an order moves to next, or null once it is received
+ */
+export function getNextPurchaseOrderStatus(status: string): PurchaseOrderStatus | null {
+  const index = (PURCHASE_ORDER_STATUSES as readonly string[]).indexOf(status);
+  if (index === -1 || index === PURCHASE_ORDER_STATUSES.length - 1) return null;
+  return PURCHASE_ORDER_STATUSES[index + 1];
+}
+
+/**
+ * Orders only move forward one step at a time
+ */
+export function canTransitionPurchaseOrder(from: string, to: string): boolean {
+  return getNextPurchaseOrderStatus(from) === to;
+}
+
+/**
+ * PO number from the period and a running sequence (2025-03-01, 12 -> PO-20250301-0012)
+ */
+export function formatPurchaseOrderNumber(period: string, sequence: number): string {
+  return `PO-${period.replace(/-/g, '')}-${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * Sequence of a PO number of the period, or null for other numbers
+ */
+export function parsePurchaseOrderSequence(period: string, poNumber: string): number | null {
+  const prefix = formatPurchaseOrderNumber(period, 0).slice(0, -4);
+  if (!poNumber.startsWith(prefix)) return null;
+
+  const sequence = Number(poNumber.slice(prefix.length));
+  return Number.isInteger(sequence) ? sequence : null;
+}
+
+/**
+ * Split a demand quantity between suppliers
+ * Shares are rescaled to 100% (suppliers that do not serve the kitchen are
+ * dropped before) and the rounding remainder goes to the largest share, so
+ * the split quantities always add up to the demand.
+ */
+export function splitOrderQuantity(
+  quantity: number,
+  shares: OrderShare[]
+): OrderQuantityShare[] {
+  const totalShare = shares.reduce((sum, share) => sum + share.sharePercent, 0);
+  if (quantity <= 0 || totalShare <= 0) return [];
+
+  const split = shares
+    .filter((share) => share.sharePercent > 0)
+    .map((share) => {
+      const sharePercent = round2((share.sharePercent / totalShare) * 100);
+      return {
+        supplierId: share.supplierId,
+        sharePercent,
+        quantity: round2((quantity * share.sharePercent) / totalShare),
+      };
+    });
+
+  const remainder = round2(quantity - split.reduce((sum, line) => sum + line.quantity, 0));
+  if (remainder !== 0) {
+    const largest = split.reduce((max, line) => (line.sharePercent > max.sharePercent ? line : max));
+    largest.quantity = round2(largest.quantity + remainder);
+  }
+
+  return split.filter((line) => line.quantity > 0);
+}
+
+/**
+ * Amounts of an order line, rounded to the đồng cent like the stored decimals
+ */
+export function calculateOrderLine(
+  quantity: number,
+  unitPrice: number,
+  vatPercentage: number
+): OrderLineAmounts {
+  const subtotal = round2(quantity * unitPrice);
+  const vatAmount = round2((subtotal * vatPercentage) / 100);
+  return { subtotal, vatAmount, total: round2(subtotal + vatAmount) };
+}
+
+/**
+ * Order totals as the sum of its rounded lines
+ */
+export function sumOrderLines(lines: OrderLineAmounts[]): OrderLineAmounts {
+  return lines.reduce<OrderLineAmounts>(
+    (totals, line) => ({
+      subtotal: round2(totals.subtotal + line.subtotal),
+      vatAmount: round2(totals.vatAmount + line.vatAmount),
+      total: round2(totals.total + line.total),
+    }),
+    { subtotal: 0, vatAmount: 0, total: 0 }
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Quotation Import Diff
+ *
+ * Compares the items of an existing quotation with the items of an imported
+ * file, per product, so the buyer can review what an overwrite or a re-quote
+ * changes before it is written.
+ */
+
+export const QUOTATION_DIFF_STATUSES = ['added', 'removed', 'changed', 'unchanged'] as const;
+
+export type QuotationDiffStatus = (typeof QUOTATION_DIFF_STATUSES)[number];
+
+export interface QuotationDiffItem {
+  productCode: string;
+  price: number | null;
+  vatRate: number | null;
+}
+
+export interface QuotationDiffLine {
+  productCode: string;
+  status: QuotationDiffStatus;
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceChangePercent: number | null; // (new - old) / old * 100, null without an old price
+  oldVatRate: number | null;
+  newVatRate: number | null;
+  priceChanged: boolean;
+  vatChanged: boolean;
+}
+
+export type QuotationDiffSummary = Record<QuotationDiffStatus, number>;
+
+// Price differences below this are rounding noise (numeric(15,2) storage)
+const PRICE_EPSILON = 0.005;
+
+// Listing order of the diff: what changes first
+const STATUS_ORDER: Record<QuotationDiffStatus, number> = {
+  changed: 0,
+  added: 1,
+  removed: 2,
+  unchanged: 3,
+};
+
+function normalizeCode(productCode: string): string {
+  return productCode.trim().toUpperCase();
+}
+
+function differs(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return a !== b;
+  return Math.abs(a - b) >= PRICE_EPSILON;
+}
+
+/**
+ * Percent change from an old to a new price, rounded to one decimal
+ */
+export function getPriceChangePercent(oldPrice: number | null, newPrice: number | null): number | null {
+  if (oldPrice === null || newPrice === null || oldPrice === 0) return null;
+  return Math.round(((newPrice - oldPrice) / oldPrice) * 1000) / 10;
+}
+
+/**
+ * Diff the existing items of a quotation against the imported ones, by product code
+ * Lines are ordered changed, added, removed, unchanged, then by product code.
+ */
+export function diffQuotationItems(
+  existing: QuotationDiffItem[],
+  incoming: QuotationDiffItem[]
+): QuotationDiffLine[] {
+  const existingByCode = new Map(existing.map((item) => [normalizeCode(item.productCode), item]));
+  const incomingCodes = new Set<string>();
+  const lines: QuotationDiffLine[] = [];
+
+  for (const item of incoming) {
+    const productCode = normalizeCode(item.productCode);
+    incomingCodes.add(productCode);
+    const previous = existingByCode.get(productCode);
+
+    if (!previous) {
+      lines.push({
+        productCode,
+        status: 'added',
+        oldPrice: null,
+        newPrice: item.price,
+        priceChangePercent: null,
+        oldVatRate: null,
+        newVatRate: item.vatRate,
+        priceChanged: false,
+        vatChanged: false,
+      });
+      continue;
+    }
+
+    const priceChanged = differs(previous.price, item.price);
+    const vatChanged = differs(previous.vatRate, item.vatRate);
+
+    lines.push({
+      productCode,
+      status: priceChanged || vatChanged ? 'changed' : 'unchanged',
+      oldPrice: previous.price,
+      newPrice: item.price,
+      priceChangePercent: priceChanged ? getPriceChangePercent(previous.price, item.price) : null,
+      oldVatRate: previous.vatRate,
+      newVatRate: item.vatRate,
+      priceChanged,
+      vatChanged,
+    });
+  }
+
+  for (const [productCode, item] of existingByCode) {
+    if (incomingCodes.has(productCode)) continue;
+
+    lines.push({
+      productCode,
+      status: 'removed',
+      oldPrice: item.price,
+      newPrice: null,
+      priceChangePercent: null,
+      oldVatRate: item.vatRate,
+      newVatRate: null,
+      priceChanged: false,
+      vatChanged: false,
+    });
+  }
+
+  return lines.sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.productCode.localeCompare(b.productCode)
+  );
+}
+
+/**
+ * Number of diff lines per status
+ */
+export function summarizeQuotationDiff(lines: QuotationDiffLine[]): QuotationDiffSummary {
+  const summary: QuotationDiffSummary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  lines.forEach((line) => {
+    summary[line.status]++;
+  });
+  return summary;
+}
@@ -0,0 +1,50 @@
+/**
+ * Signed File Links
+ *
+ * A signed link lets anyone holding it download one stored file until the link
+ * expires, without a session. The signature is an HMAC-SHA256 of the file id and
+ * the expiry (unix seconds), so neither can be changed without invalidating it.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const FILE_ROUTE_PREFIX = '/api/files';
+
+function computeSignature(fileId: number, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${fileId}:${expires}`).digest('hex');
+}
+
+/**
+ * Build the download path of a stored file, signed until `expiresAt`
+ */
+export function buildSignedFilePath(fileId: number, expiresAt: Date, secret: string): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const signature = computeSignature(fileId, expires, secret);
+
+  return `${FILE_ROUTE_PREFIX}/${fileId}?expires=${expires}&signature=${signature}`;
+}
+
+/**
+ * Check a signed link's query parameters against the requested file id
+ */
+export function verifyFileLinkSignature(
+  fileId: number,
+  expires: string | null,
+  signature: string | null,
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  const expiresSeconds = Number(expires);
+  if (!signature || !Number.isInteger(expiresSeconds)) {
+    return false;
+  }
+
+  if (expiresSeconds * 1000 <= now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(fileId, expiresSeconds, secret), 'hex');
+  const received = Buffer.from(signature, 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
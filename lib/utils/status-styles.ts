@@ -18,21 +18,44 @@ export const getStatusVariant = (status: string | null | undefined): "default" |
     // Active/Approved states -> Green (default variant)
     case "active":
     case "approved":
+    case "partially_approved":
+    case "collecting":
+    case "submitted":
+    case "sent":
+    case "confirmed":
+    case "received":
+    case "compliant":
+    case "within":
+    case "completed":
       return "default";
 
     // Pending/Inactive states -> Gray (outline variant)
     case "inactive":
     case "pending":
+    case "open":
+    case "closed":
+    case "expired":
+    case "draft":
       return "outline";
 
     // In-progress/Negotiation states -> Orange (secondary variant)
     case "negotiation":
+    case "negotiating":
+    case "pending_approval":
+    case "unapproved":
+    case "warning":
+    case "running":
+    case "partial":
       return "secondary";
 
     // Cancelled/Terminated/Rejected states -> Red (destructive variant)
     case "cancelled":
     case "terminated":
     case "rejected":
+    case "revoked":
+    case "overcharged":
+    case "over":
+    case "failed":
       return "destructive";
 
     default:
@@ -58,14 +81,66 @@ export const getStatusLabel = (status: string | null | undefined): string => {
       return "Chờ duyệt";
     case "approved":
       return "Đã duyệt";
+    case "partially_approved":
+      return "Duyệt một phần";
     case "negotiation":
       return "Đàm phán";
+    case "pending_approval":
+      return "Chờ phê duyệt";
     case "cancelled":
       return "Đã hủy";
     case "terminated":
       return "Đã nghỉ";
     case "rejected":
       return "Đã từ chối";
+    // Period lifecycle
+    case "open":
+      return "Mở";
+    case "collecting":
+      return "Đang nhận báo giá";
+    case "negotiating":
+      return "Đang đàm phán";
+    case "closed":
+      return "Đã đóng";
+    // Supplier portal links
+    case "expired":
+      return "Hết hạn";
+    case "revoked":
+      return "Đã thu hồi";
+    // Kitchen demand submissions / purchase orders
+    case "draft":
+      return "Nháp";
+    case "submitted":
+      return "Đã gửi";
+    case "sent":
+      return "Đã gửi NCC";
+    case "confirmed":
+      return "NCC đã xác nhận";
+    case "received":
+      return "Đã nhận hàng";
+    // Invoice price compliance
+    case "compliant":
+      return "Đúng giá";
+    case "overcharged":
+      return "Vượt giá duyệt";
+    case "unapproved":
+      return "Chưa duyệt giá";
+    // Kitchen budgets
+    case "within":
+      return "Trong ngân sách";
+    case "warning":
+      return "Sắp vượt ngân sách";
+    case "over":
+      return "Vượt ngân sách";
+    // Import jobs
+    case "running":
+      return "Đang xử lý";
+    case "completed":
+      return "Hoàn tất";
+    case "partial":
+      return "Có lỗi một phần";
+    case "failed":
+      return "Thất bại";
     default:
       return status;
   }
@@ -85,21 +160,56 @@ export const getStatusClassName = (status: string | null | undefined): string =>
     // Active/Approved states -> Light green background, dark green text
     case "active":
     case "approved":
+    case "received":
+    case "compliant":
+    case "within":
+    case "completed":
       return "bg-green-100 text-green-800 border-green-200 font-medium";
 
     // Pending states -> White background with yellow text for lighter appearance
     case "pending":
+    case "open":
+    case "draft":
       return "bg-white text-yellow-700 border-yellow-300 font-medium";
 
+    // Period collecting quotations / submitted demand / order sent / import running -> Light blue background, dark blue text
+    case "collecting":
+    case "submitted":
+    case "sent":
+    case "running":
+      return "bg-blue-100 text-blue-800 border-blue-200 font-medium";
+
     // In-progress/Negotiation states -> Light orange background, dark orange text
     case "negotiation":
+    case "negotiating":
       return "bg-orange-100 text-orange-800 border-orange-200 font-medium";
 
+    // Awaiting sign-off / invoiced without approved price / nearing budget / import with errors -> Light amber background, dark amber text
+    case "pending_approval":
+    case "unapproved":
+    case "warning":
+    case "partial":
+      return "bg-amber-100 text-amber-800 border-amber-200 font-medium";
+
+    // Approved with some items rejected / order confirmed by supplier -> Light teal background, dark teal text
+    case "partially_approved":
+    case "confirmed":
+      return "bg-teal-100 text-teal-800 border-teal-200 font-medium";
+
+    // Invoiced above the approved price / over budget / failed import -> Light red background, dark red text
+    case "overcharged":
+    case "over":
+    case "failed":
+      return "bg-red-100 text-red-800 border-red-200 font-medium";
+
     // Inactive/Terminated/Cancelled states -> Light slate background, dark slate text
     case "inactive":
     case "terminated":
     case "cancelled":
     case "rejected":
+    case "closed":
+    case "expired":
+    case "revoked":
       return "bg-slate-100 text-slate-600 border-slate-200 font-medium";
 
     default:
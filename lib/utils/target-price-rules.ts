@@ -0,0 +1,181 @@
+/**
+ * Target Price Rules Engine
+ *
+ * Computes the target price sent to suppliers during negotiation. Rules are
+ * stored per category and/or region (null = applies everywhere); the most
+ * specific active rule wins, then the highest priority.
+ *
+ * Evaluation order for a matched rule:
+ * 1. Baseline - best price, previous approved price, or the lower of both
+ * 2. Adjustment - percentage added to the baseline (e.g. -3 for "− 3%")
+ * 3. Cap - never above products.basePrice (when enabled)
+ * 4. Floor - never below the lowest historical approved price (when enabled)
+ */
+
+export const TARGET_PRICE_BASELINES = [
+  'best_price',
+  'previous_approved',
+  'min_best_previous',
+] as const;
+
+export type TargetPriceBaseline = (typeof TARGET_PRICE_BASELINES)[number];
+
+export const TARGET_PRICE_BASELINE_LABELS: Record<TargetPriceBaseline, string> = {
+  best_price: 'Giá tốt nhất',
+  previous_approved: 'Giá duyệt kỳ trước',
+  min_best_previous: 'min(Giá tốt nhất, Giá duyệt kỳ trước)',
+};
+
+// Name written to the export when no rule matches (target = best price)
+export const DEFAULT_TARGET_PRICE_RULE_NAME = 'Mặc định (giá tốt nhất)';
+
+export interface TargetPriceRuleConfig {
+  id: number;
+  name: string;
+  category: string | null; // null = every category
+  region: string | null; // null = every region
+  baseline: TargetPriceBaseline;
+  adjustmentPercent: number;
+  capAtBasePrice: boolean;
+  floorAtHistoricalLow: boolean;
+  priority: number;
+}
+
+export interface TargetPriceInputs {
+  bestPrice?: number | null;
+  previousApprovedPrice?: number | null;
+  basePrice?: number | null;
+  historicalLowPrice?: number | null; // Lowest approved price ever recorded
+}
+
+export interface TargetPriceResult {
+  targetPrice: number | null;
+  ruleId: number | null;
+  ruleName: string;
+}
+
+const isPositive = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined && value > 0;
+
+/**
+ * Find the rule that applies to a product category in a region
+ * Category matches outrank region matches; ties go to the highest priority.
+ */
+export function selectTargetPriceRule<T extends TargetPriceRuleConfig>(
+  rules: T[],
+  category: string,
+  region: string
+): T | null {
+  const specificity = (rule: TargetPriceRuleConfig) =>
+    (rule.category ? 2 : 0) + (rule.region ? 1 : 0);
+
+  const matching = rules.filter(
+    (rule) =>
+      (rule.category === null || rule.category === category) &&
+      (rule.region === null || rule.region === region)
+  );
+
+  if (matching.length === 0) {
+    return null;
+  }
+
+  return matching.reduce((selected, rule) => {
+    const bySpecificity = specificity(rule) - specificity(selected);
+    if (bySpecificity !== 0) return bySpecificity > 0 ? rule : selected;
+
+    const byPriority = rule.priority - selected.priority;
+    if (byPriority !== 0) return byPriority > 0 ? rule : selected;
+
+    return rule.id < selected.id ? rule : selected;
+  });
+}
+
+/**
+ * Apply a rule to a product's prices
+ * Falls back to whichever baseline price is available; returns a null target
+ * when the product has no price to start from.
+ */
+export function applyTargetPriceRule(
+  rule: TargetPriceRuleConfig | null,
+  inputs: TargetPriceInputs
+): TargetPriceResult {
+  const { bestPrice, previousApprovedPrice, basePrice, historicalLowPrice } = inputs;
+
+  if (!rule) {
+    return {
+      targetPrice: isPositive(bestPrice) ? bestPrice : null,
+      ruleId: null,
+      ruleName: DEFAULT_TARGET_PRICE_RULE_NAME,
+    };
+  }
+
+  const available = [bestPrice, previousApprovedPrice].filter(isPositive);
+  const baseline =
+    rule.baseline === 'best_price'
+      ? [bestPrice, previousApprovedPrice].find(isPositive)
+      : rule.baseline === 'previous_approved'
+        ? [previousApprovedPrice, bestPrice].find(isPositive)
+        : available.length > 0
+          ? Math.min(...available)
+          : undefined;
+
+  if (baseline === undefined) {
+    return { targetPrice: null, ruleId: rule.id, ruleName: rule.name };
+  }
+
+  let targetPrice = baseline * (1 + rule.adjustmentPercent / 100);
+
+  if (rule.capAtBasePrice && isPositive(basePrice)) {
+    targetPrice = Math.min(targetPrice, basePrice);
+  }
+
+  if (rule.floorAtHistoricalLow && isPositive(historicalLowPrice)) {
+    targetPrice = Math.max(targetPrice, historicalLowPrice);
+  }
+
+  return {
+    targetPrice: Math.round(targetPrice), // VND has no minor unit
+    ruleId: rule.id,
+    ruleName: rule.name,
+  };
+}
+
+/**
+ * Select and apply the rule for one product
+ */
+export function resolveTargetPrice(
+  rules: TargetPriceRuleConfig[],
+  category: string,
+  region: string,
+  inputs: TargetPriceInputs
+): TargetPriceResult {
+  return applyTargetPriceRule(selectTargetPriceRule(rules, category, region), inputs);
+}
+
+/**
+ * Human-readable formula of a rule, e.g.
+ * "min(Giá tốt nhất, Giá duyệt kỳ trước) − 3%, tối đa giá cơ sở"
+ */
+export function describeTargetPriceRule(
+  rule: Pick<
+    TargetPriceRuleConfig,
+    'baseline' | 'adjustmentPercent' | 'capAtBasePrice' | 'floorAtHistoricalLow'
+  >
+): string {
+  const parts = [TARGET_PRICE_BASELINE_LABELS[rule.baseline]];
+
+  if (rule.adjustmentPercent !== 0) {
+    const sign = rule.adjustmentPercent < 0 ? '−' : '+';
+    parts[0] += ` ${sign} ${Math.abs(rule.adjustmentPercent)}%`;
+  }
+
+  if (rule.capAtBasePrice) {
+    parts.push('tối đa giá cơ sở');
+  }
+
+  if (rule.floorAtHistoricalLow) {
+    parts.push('không thấp hơn giá duyệt thấp nhất');
+  }
+
+  return parts.join(', ');
+}
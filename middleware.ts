@@ -9,6 +9,13 @@ const protectedRoutes = [
   '/bao-gia',
   '/so-sanh',
   '/bang-gia',
+  '/phe-duyet',
+  '/ky-bao-gia',
+  '/nhu-cau',
+  '/don-hang',
+  '/doi-soat-hoa-don',
+  '/lich-su-nhap',
+  '/ngan-sach',
   '/settings'
 ];
 